@@ -0,0 +1,86 @@
+"use server";
+
+import { createClient } from "@/core/database/server";
+import { requirePermission } from "@/core/permissions/middleware";
+import { getCurrentUserTenantId } from "@/core/multi-tenancy/validation";
+import { getApiKeys, createApiKey, revokeApiKey, rotateApiKey } from "@/core/api-keys/api-keys";
+import type { ApiKey, ApiKeyInput, CreatedApiKey } from "@/core/api-keys";
+
+/**
+ * Current user and tenant, once they are known to hold api.access in it
+ */
+async function getApiKeyContext(): Promise<{ userId: string; tenantId: string }> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error("User not authenticated");
+  }
+
+  const tenantId = await getCurrentUserTenantId();
+  if (!tenantId) {
+    throw new Error("Select a tenant to manage its API keys");
+  }
+
+  await requirePermission("api.access", { tenantId });
+  return { userId: user.id, tenantId };
+}
+
+/**
+ * Get the current tenant's API keys
+ */
+export async function getApiKeysAction(): Promise<ApiKey[]> {
+  const { tenantId } = await getApiKeyContext();
+  return getApiKeys(tenantId);
+}
+
+/**
+ * Create an API key. The key value in the result is shown once and can't be retrieved again.
+ */
+export async function createApiKeyAction(input: ApiKeyInput) {
+  try {
+    const { userId, tenantId } = await getApiKeyContext();
+    const result: CreatedApiKey = await createApiKey(tenantId, userId, input);
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error creating API key:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to create API key",
+    };
+  }
+}
+
+/**
+ * Replace an API key; the old one keeps working for a grace period
+ */
+export async function rotateApiKeyAction(id: string) {
+  try {
+    const { userId, tenantId } = await getApiKeyContext();
+    const result: CreatedApiKey = await rotateApiKey(tenantId, id, userId);
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error rotating API key:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to rotate API key",
+    };
+  }
+}
+
+/**
+ * Revoke an API key straight away
+ */
+export async function revokeApiKeyAction(id: string) {
+  try {
+    const { userId, tenantId } = await getApiKeyContext();
+    await revokeApiKey(tenantId, id, userId);
+    return { success: true };
+  } catch (error) {
+    console.error("Error revoking API key:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to revoke API key",
+    };
+  }
+}
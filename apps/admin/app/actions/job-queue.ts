@@ -0,0 +1,107 @@
+"use server";
+
+import { createClient } from "@/core/database/server";
+import { requirePermission } from "@/core/permissions/middleware";
+import { getCurrentUserTenantId } from "@/core/multi-tenancy/validation";
+import {
+  getQueueJobs,
+  getQueueStats,
+  retryQueueJob,
+  cancelQueueJob,
+  getQueueConcurrencyLimit,
+  setQueueConcurrencyLimit,
+} from "@/core/job-queue/management";
+import type { QueueJobFilters, QueueJobListEntry, QueueJobStats } from "@/core/job-queue";
+
+/**
+ * Current tenant, once the user is known to hold the permission in it
+ */
+async function getJobQueueContext(
+  permission: "transactions.read" | "transactions.write" | "settings.write"
+): Promise<{ tenantId: string }> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error("User not authenticated");
+  }
+
+  const tenantId = await getCurrentUserTenantId();
+  if (!tenantId) {
+    throw new Error("Select a tenant to see its background jobs");
+  }
+
+  await requirePermission(permission, { tenantId });
+  return { tenantId };
+}
+
+/**
+ * Get the current tenant's queue jobs, newest first
+ */
+export async function getQueueJobsAction(filters: QueueJobFilters = {}): Promise<QueueJobListEntry[]> {
+  const { tenantId } = await getJobQueueContext("transactions.read");
+  return getQueueJobs(tenantId, filters);
+}
+
+/**
+ * Count the current tenant's queue jobs by status, with its concurrency limit
+ */
+export async function getQueueOverviewAction(): Promise<{ stats: QueueJobStats; concurrencyLimit: number }> {
+  const { tenantId } = await getJobQueueContext("transactions.read");
+  const [stats, concurrencyLimit] = await Promise.all([
+    getQueueStats(tenantId),
+    getQueueConcurrencyLimit(tenantId),
+  ]);
+  return { stats, concurrencyLimit };
+}
+
+/**
+ * Queue a dead or cancelled job again with a fresh set of attempts
+ */
+export async function retryQueueJobAction(id: string) {
+  try {
+    const { tenantId } = await getJobQueueContext("transactions.write");
+    const job = await retryQueueJob(tenantId, id);
+    return { success: true, data: job };
+  } catch (error) {
+    console.error("Error retrying queue job:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to retry job",
+    };
+  }
+}
+
+/**
+ * Cancel a job that hasn't started
+ */
+export async function cancelQueueJobAction(id: string) {
+  try {
+    const { tenantId } = await getJobQueueContext("transactions.write");
+    const job = await cancelQueueJob(tenantId, id);
+    return { success: true, data: job };
+  } catch (error) {
+    console.error("Error cancelling queue job:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to cancel job",
+    };
+  }
+}
+
+/**
+ * Set how many of the tenant's jobs can run at once
+ */
+export async function setQueueConcurrencyLimitAction(maxConcurrent: number) {
+  try {
+    const { tenantId } = await getJobQueueContext("settings.write");
+    const limit = await setQueueConcurrencyLimit(tenantId, maxConcurrent);
+    return { success: true, data: limit };
+  } catch (error) {
+    console.error("Error setting queue concurrency limit:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to update concurrency limit",
+    };
+  }
+}
@@ -0,0 +1,164 @@
+"use server";
+
+import { createClient } from "@/core/database/server";
+import { requirePermission } from "@/core/permissions/middleware";
+import { getCurrentUserTenantId } from "@/core/multi-tenancy/validation";
+import {
+  getWebhookEndpoints,
+  createWebhookEndpoint,
+  updateWebhookEndpoint,
+  rotateWebhookSecret,
+  deleteWebhookEndpoint,
+  getWebhookDeliveries,
+  sendTestWebhookEvent,
+  retryWebhookDelivery,
+} from "@/core/webhooks/webhooks";
+import type {
+  WebhookDeliveryLogEntry,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEndpointInput,
+  WebhookEventType,
+} from "@/core/webhooks";
+
+/**
+ * Current user and tenant, once they are known to hold the permission in it
+ */
+async function getWebhookContext(
+  permission: "webhooks.read" | "webhooks.write"
+): Promise<{ userId: string; tenantId: string }> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error("User not authenticated");
+  }
+
+  const tenantId = await getCurrentUserTenantId();
+  if (!tenantId) {
+    throw new Error("Select a tenant to manage its webhooks");
+  }
+
+  await requirePermission(permission, { tenantId });
+  return { userId: user.id, tenantId };
+}
+
+/**
+ * Get the current tenant's webhook endpoints
+ */
+export async function getWebhookEndpointsAction(): Promise<WebhookEndpoint[]> {
+  const { tenantId } = await getWebhookContext("webhooks.read");
+  return getWebhookEndpoints(tenantId);
+}
+
+/**
+ * Add a webhook endpoint
+ */
+export async function createWebhookEndpointAction(input: WebhookEndpointInput) {
+  try {
+    const { userId, tenantId } = await getWebhookContext("webhooks.write");
+    const endpoint = await createWebhookEndpoint(tenantId, userId, input);
+    return { success: true, data: endpoint };
+  } catch (error) {
+    console.error("Error creating webhook endpoint:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to create webhook endpoint",
+    };
+  }
+}
+
+/**
+ * Change a webhook endpoint, including pausing or resuming it
+ */
+export async function updateWebhookEndpointAction(id: string, input: WebhookEndpointInput) {
+  try {
+    const { tenantId } = await getWebhookContext("webhooks.write");
+    const endpoint = await updateWebhookEndpoint(tenantId, id, input);
+    return { success: true, data: endpoint };
+  } catch (error) {
+    console.error("Error updating webhook endpoint:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to update webhook endpoint",
+    };
+  }
+}
+
+/**
+ * Give a webhook endpoint a new signing secret
+ */
+export async function rotateWebhookSecretAction(id: string) {
+  try {
+    const { tenantId } = await getWebhookContext("webhooks.write");
+    const endpoint = await rotateWebhookSecret(tenantId, id);
+    return { success: true, data: endpoint };
+  } catch (error) {
+    console.error("Error rotating webhook secret:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to rotate webhook secret",
+    };
+  }
+}
+
+/**
+ * Delete a webhook endpoint and its delivery log
+ */
+export async function deleteWebhookEndpointAction(id: string) {
+  try {
+    const { tenantId } = await getWebhookContext("webhooks.write");
+    await deleteWebhookEndpoint(tenantId, id);
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting webhook endpoint:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to delete webhook endpoint",
+    };
+  }
+}
+
+/**
+ * Get the current tenant's delivery log
+ */
+export async function getWebhookDeliveriesAction(
+  options: { status?: WebhookDeliveryStatus; endpointId?: string; limit?: number } = {}
+): Promise<WebhookDeliveryLogEntry[]> {
+  const { tenantId } = await getWebhookContext("webhooks.read");
+  return getWebhookDeliveries(tenantId, options);
+}
+
+/**
+ * Send an event with sample data to an endpoint and return the response
+ */
+export async function sendTestWebhookEventAction(endpointId: string, eventType: WebhookEventType) {
+  try {
+    const { tenantId } = await getWebhookContext("webhooks.write");
+    const result = await sendTestWebhookEvent(tenantId, endpointId, eventType);
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error sending test webhook:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to send test webhook",
+    };
+  }
+}
+
+/**
+ * Send a delivery again now
+ */
+export async function retryWebhookDeliveryAction(id: string) {
+  try {
+    const { tenantId } = await getWebhookContext("webhooks.write");
+    const result = await retryWebhookDelivery(tenantId, id);
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error retrying webhook delivery:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to retry webhook delivery",
+    };
+  }
+}
@@ -0,0 +1,327 @@
+"use client";
+import PageBreadcrumb from "@/components/common/PageBreadCrumb";
+import Button from "@/components/ui/button/Button";
+import { ArrowPathIcon } from "@heroicons/react/24/outline";
+import React, { useEffect, useState } from "react";
+import {
+  cancelQueueJobAction,
+  getQueueJobsAction,
+  getQueueOverviewAction,
+  retryQueueJobAction,
+  setQueueConcurrencyLimitAction,
+} from "@/app/actions/job-queue";
+import {
+  QUEUE_JOB_STATUSES,
+  QUEUE_JOB_TYPES,
+  QUEUE_MAX_CONCURRENCY,
+  getQueueJobTypeLabel,
+  type QueueJobListEntry,
+  type QueueJobStats,
+  type QueueJobStatus,
+  type QueueJobType,
+} from "@/core/job-queue";
+
+const statusColors: Record<QueueJobStatus, string> = {
+  queued: "bg-yellow-100 text-yellow-700 dark:bg-yellow-500/15 dark:text-yellow-500",
+  running: "bg-blue-100 text-blue-700 dark:bg-blue-500/15 dark:text-blue-500",
+  completed: "bg-green-100 text-green-700 dark:bg-green-500/15 dark:text-green-500",
+  dead: "bg-red-100 text-red-700 dark:bg-red-500/15 dark:text-red-500",
+  cancelled: "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300",
+};
+
+function formatTimestamp(value: string | null) {
+  if (!value) return "—";
+  return new Date(value).toLocaleString("en-GB", {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+export default function BackgroundJobsPage() {
+  const [jobs, setJobs] = useState<QueueJobListEntry[]>([]);
+  const [stats, setStats] = useState<QueueJobStats | null>(null);
+  const [concurrencyLimit, setConcurrencyLimit] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<"all" | QueueJobStatus>("all");
+  const [typeFilter, setTypeFilter] = useState<"all" | QueueJobType>("all");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [savingLimit, setSavingLimit] = useState(false);
+
+  useEffect(() => {
+    loadJobs(statusFilter, typeFilter);
+  }, [statusFilter, typeFilter]);
+
+  const loadJobs = async (status: "all" | QueueJobStatus, jobType: "all" | QueueJobType) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [jobList, overview] = await Promise.all([
+        getQueueJobsAction({
+          status: status === "all" ? undefined : status,
+          jobType: jobType === "all" ? undefined : jobType,
+          limit: 200,
+        }),
+        getQueueOverviewAction(),
+      ]);
+      setJobs(jobList);
+      setStats(overview.stats);
+      setConcurrencyLimit(String(overview.concurrencyLimit));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load background jobs");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAction = async (job: QueueJobListEntry, action: "retry" | "cancel") => {
+    try {
+      setBusyId(job.id);
+      setError(null);
+      const result = action === "retry" ? await retryQueueJobAction(job.id) : await cancelQueueJobAction(job.id);
+      if (!result.success) {
+        setError(result.error || `Failed to ${action} job`);
+      }
+      await loadJobs(statusFilter, typeFilter);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSaveLimit = async () => {
+    try {
+      setSavingLimit(true);
+      setError(null);
+      const result = await setQueueConcurrencyLimitAction(Number(concurrencyLimit));
+      if (!result.success) {
+        setError(result.error || "Failed to update concurrency limit");
+      }
+    } finally {
+      setSavingLimit(false);
+    }
+  };
+
+  return (
+    <div>
+      <PageBreadcrumb pageTitle="Background Jobs" />
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-semibold text-gray-900 dark:text-white">Background Jobs</h1>
+            <p className="mt-2 text-gray-500 dark:text-gray-400">
+              Statement and receipt processing, with every attempt and why it failed
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => loadJobs(statusFilter, typeFilter)} disabled={loading}>
+            <ArrowPathIcon className="h-4 w-4" />
+            Refresh
+          </Button>
+        </div>
+
+        {error && (
+          <div className="rounded-lg border border-error-200 bg-error-50 p-4 text-sm text-error-600 dark:border-error-500/30 dark:bg-error-500/15 dark:text-error-500">
+            {error}
+          </div>
+        )}
+
+        {/* Overview */}
+        <div className="grid gap-4 sm:grid-cols-3 lg:grid-cols-6">
+          {QUEUE_JOB_STATUSES.map((status) => (
+            <div
+              key={status}
+              className="rounded-2xl border border-gray-200 bg-white p-4 shadow-sm dark:border-gray-800 dark:bg-gray-900"
+            >
+              <div className="text-sm capitalize text-gray-500 dark:text-gray-400">{status}</div>
+              <div className="mt-1 text-2xl font-semibold text-gray-900 dark:text-white">
+                {stats ? stats[status] : "—"}
+              </div>
+            </div>
+          ))}
+          <div className="rounded-2xl border border-gray-200 bg-white p-4 shadow-sm dark:border-gray-800 dark:bg-gray-900">
+            <label htmlFor="concurrency-limit" className="text-sm text-gray-500 dark:text-gray-400">
+              Run at once
+            </label>
+            <div className="mt-1 flex gap-2">
+              <input
+                id="concurrency-limit"
+                type="number"
+                min={1}
+                max={QUEUE_MAX_CONCURRENCY}
+                value={concurrencyLimit}
+                onChange={(e) => setConcurrencyLimit(e.target.value)}
+                className="h-9 w-16 rounded-lg border border-gray-300 bg-transparent px-2 text-sm text-gray-800 focus:border-brand-300 focus:ring-2 focus:ring-brand-500/10 focus:outline-hidden dark:border-gray-700 dark:bg-gray-800 dark:text-white/90"
+              />
+              <Button size="sm" variant="outline" onClick={handleSaveLimit} disabled={savingLimit || !concurrencyLimit}>
+                {savingLimit ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex flex-wrap gap-2">
+            {(["all", ...QUEUE_JOB_STATUSES] as const).map((status) => (
+              <Button
+                key={status}
+                variant={statusFilter === status ? "primary" : "outline"}
+                size="sm"
+                onClick={() => setStatusFilter(status)}
+              >
+                {status.charAt(0).toUpperCase() + status.slice(1)}
+              </Button>
+            ))}
+          </div>
+          <select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value as "all" | QueueJobType)}
+            className="h-11 rounded-lg border border-gray-300 bg-transparent px-4 text-sm text-gray-800 focus:border-brand-300 focus:ring-2 focus:ring-brand-500/10 focus:outline-hidden dark:border-gray-700 dark:bg-gray-800 dark:text-white/90"
+          >
+            <option value="all">All job types</option>
+            {QUEUE_JOB_TYPES.map((entry) => (
+              <option key={entry.type} value={entry.type}>
+                {entry.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="rounded-2xl border border-gray-200 bg-white shadow-sm dark:border-gray-800 dark:bg-gray-900">
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead className="border-b border-gray-200 dark:border-gray-800">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400">
+                    Queued
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400">
+                    File
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400">
+                    Type
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400">
+                    Attempts
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400">
+                    Last Error
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400">
+                    Status
+                  </th>
+                  <th className="px-6 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-800">
+                {loading ? (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+                      Loading jobs...
+                    </td>
+                  </tr>
+                ) : jobs.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+                      No background jobs
+                    </td>
+                  </tr>
+                ) : (
+                  jobs.map((job) => {
+                    const expanded = expandedId === job.id;
+                    return (
+                      <React.Fragment key={job.id}>
+                        <tr
+                          className="cursor-pointer hover:bg-gray-50 dark:hover:bg-white/5"
+                          onClick={() => setExpandedId(expanded ? null : job.id)}
+                        >
+                          <td className="px-6 py-4 text-sm text-gray-900 dark:text-white">
+                            {formatTimestamp(job.created_at)}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-900 dark:text-white">
+                            {job.categorization_job?.original_filename || job.financial_document?.original_filename || "—"}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-400">
+                            {getQueueJobTypeLabel(job.job_type)}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-400">
+                            {job.attempts} / {job.max_attempts}
+                          </td>
+                          <td className="max-w-xs truncate px-6 py-4 text-sm text-gray-600 dark:text-gray-400">
+                            {job.last_error_code ? `${job.last_error_code}: ${job.last_error}` : "—"}
+                          </td>
+                          <td className="px-6 py-4">
+                            <span
+                              className={`inline-flex rounded-full px-2.5 py-0.5 text-xs font-medium ${statusColors[job.status]}`}
+                            >
+                              {job.status}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 text-right" onClick={(e) => e.stopPropagation()}>
+                            {(job.status === "dead" || job.status === "cancelled") && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={busyId === job.id}
+                                onClick={() => handleAction(job, "retry")}
+                              >
+                                {busyId === job.id ? "Queuing..." : "Retry"}
+                              </Button>
+                            )}
+                            {job.status === "queued" && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={busyId === job.id}
+                                onClick={() => handleAction(job, "cancel")}
+                              >
+                                {busyId === job.id ? "Cancelling..." : "Cancel"}
+                              </Button>
+                            )}
+                          </td>
+                        </tr>
+                        {expanded && (
+                          <tr className="bg-gray-50 dark:bg-white/3">
+                            <td colSpan={7} className="space-y-3 px-6 py-4 text-sm text-gray-600 dark:text-gray-400">
+                              {job.status === "queued" && job.attempts > 0 && (
+                                <p>Next attempt: {formatTimestamp(job.run_at)}</p>
+                              )}
+                              {job.status === "running" && (
+                                <p>
+                                  Running on {job.locked_by}, last heartbeat {formatTimestamp(job.heartbeat_at)}
+                                </p>
+                              )}
+                              {job.completed_at && <p>Finished: {formatTimestamp(job.completed_at)}</p>}
+                              {job.error_history.length === 0 ? (
+                                <p>No failed attempts</p>
+                              ) : (
+                                <div>
+                                  <p className="mb-1 text-xs font-medium">Failed attempts</p>
+                                  <ul className="space-y-1">
+                                    {job.error_history.map((entry, index) => (
+                                      <li key={index} className="rounded-lg bg-white p-3 text-xs dark:bg-gray-800">
+                                        <span className="font-medium">Attempt {entry.attempt}</span> ·{" "}
+                                        {formatTimestamp(entry.at)} · {entry.code}: {entry.message}
+                                      </li>
+                                    ))}
+                                  </ul>
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,78 +1,120 @@
 "use client";
 import PageBreadcrumb from "@/components/common/PageBreadCrumb";
 import Button from "@/components/ui/button/Button";
-import { ArrowDownTrayIcon, MagnifyingGlassIcon, CheckIcon, XMarkIcon } from "@heroicons/react/24/outline";
-import React, { useState } from "react";
-
-interface WebhookLog {
-  id: string;
-  webhook: string;
-  event: string;
-  url: string;
-  status: "success" | "failed";
-  statusCode?: number;
-  timestamp: string;
-  responseTime: number;
-  error?: string;
-}
-
-const webhookLogs: WebhookLog[] = [
-  {
-    id: "1",
-    webhook: "Order Created",
-    event: "order.created",
-    url: "https://api.example.com/webhooks/orders",
-    status: "success",
-    statusCode: 200,
-    timestamp: "2025-01-16 14:30:22",
-    responseTime: 145,
-  },
-  {
-    id: "2",
-    webhook: "Payment Webhook",
-    event: "payment.succeeded",
-    url: "https://api.example.com/webhooks/payments",
-    status: "success",
-    statusCode: 200,
-    timestamp: "2025-01-16 14:25:15",
-    responseTime: 89,
-  },
-  {
-    id: "3",
-    webhook: "User Events",
-    event: "user.created",
-    url: "https://api.example.com/webhooks/users",
-    status: "failed",
-    statusCode: 500,
-    timestamp: "2025-01-16 14:20:08",
-    responseTime: 5234,
-    error: "Connection timeout",
-  },
-];
+import {
+  ArrowDownTrayIcon,
+  ArrowPathIcon,
+  ClockIcon,
+  MagnifyingGlassIcon,
+  CheckIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/outline";
+import React, { useEffect, useState } from "react";
+import { getWebhookDeliveriesAction, retryWebhookDeliveryAction } from "@/app/actions/webhooks";
+import type { WebhookDeliveryLogEntry, WebhookDeliveryStatus } from "@/core/webhooks";
 
 const statusIcons = {
-  success: CheckIcon,
+  delivered: CheckIcon,
+  pending: ClockIcon,
   failed: XMarkIcon,
 };
 
 const statusColors = {
-  success: "bg-green-100 text-green-700 dark:bg-green-500/15 dark:text-green-500",
+  delivered: "bg-green-100 text-green-700 dark:bg-green-500/15 dark:text-green-500",
+  pending: "bg-yellow-100 text-yellow-700 dark:bg-yellow-500/15 dark:text-yellow-500",
   failed: "bg-red-100 text-red-700 dark:bg-red-500/15 dark:text-red-500",
 };
 
+function formatTimestamp(value: string | null) {
+  if (!value) return "—";
+  return new Date(value).toLocaleString("en-GB", {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+function csvCell(value: unknown) {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
 export default function WebhookLogsPage() {
+  const [logs, setLogs] = useState<WebhookDeliveryLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
   const [search, setSearch] = useState("");
-  const [filter, setFilter] = useState<"all" | "success" | "failed">("all");
+  const [filter, setFilter] = useState<"all" | WebhookDeliveryStatus>("all");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadLogs(filter);
+  }, [filter]);
 
-  const filteredLogs = webhookLogs.filter((log) => {
-    const matchesSearch =
-      log.webhook.toLowerCase().includes(search.toLowerCase()) ||
-      log.event.toLowerCase().includes(search.toLowerCase()) ||
-      log.url.toLowerCase().includes(search.toLowerCase());
-    const matchesFilter = filter === "all" || log.status === filter;
-    return matchesSearch && matchesFilter;
+  const loadLogs = async (status: "all" | WebhookDeliveryStatus) => {
+    try {
+      setLoading(true);
+      setError(null);
+      setLogs(await getWebhookDeliveriesAction({
+        status: status === "all" ? undefined : status,
+        limit: 200,
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load webhook logs");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRetry = async (log: WebhookDeliveryLogEntry) => {
+    try {
+      setRetryingId(log.id);
+      setError(null);
+      const result = await retryWebhookDeliveryAction(log.id);
+      if (!result.success) {
+        setError(result.error || "Failed to retry delivery");
+      }
+      await loadLogs(filter);
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  const filteredLogs = logs.filter((log) => {
+    const term = search.toLowerCase();
+    return (
+      (log.endpoint?.name || "").toLowerCase().includes(term) ||
+      log.event_type.toLowerCase().includes(term) ||
+      (log.endpoint?.url || "").toLowerCase().includes(term) ||
+      (log.error || "").toLowerCase().includes(term)
+    );
   });
 
+  const handleExport = () => {
+    const header = ["created_at", "webhook", "url", "event", "status", "attempts", "response_status", "response_time_ms", "error"];
+    const rows = filteredLogs.map((log) => [
+      log.created_at,
+      log.endpoint?.name,
+      log.endpoint?.url,
+      log.event_type,
+      log.status,
+      log.attempts,
+      log.response_status,
+      log.response_time_ms,
+      log.error,
+    ]);
+    const csv = [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\n");
+    const url = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `webhook-logs-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   return (
     <div>
       <PageBreadcrumb pageTitle="Webhook Logs" />
@@ -81,15 +123,27 @@ export default function WebhookLogsPage() {
           <div>
             <h1 className="text-3xl font-semibold text-gray-900 dark:text-white">Webhook Logs</h1>
             <p className="mt-2 text-gray-500 dark:text-gray-400">
-              Monitor webhook delivery and response logs
+              Every event sent to your webhooks, with retries and the latest response
             </p>
           </div>
-          <Button variant="outline">
-            <ArrowDownTrayIcon className="h-4 w-4" />
-            Export Logs
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => loadLogs(filter)} disabled={loading}>
+              <ArrowPathIcon className="h-4 w-4" />
+              Refresh
+            </Button>
+            <Button variant="outline" onClick={handleExport} disabled={filteredLogs.length === 0}>
+              <ArrowDownTrayIcon className="h-4 w-4" />
+              Export Logs
+            </Button>
+          </div>
         </div>
 
+        {error && (
+          <div className="rounded-lg border border-error-200 bg-error-50 p-4 text-sm text-error-600 dark:border-error-500/30 dark:bg-error-500/15 dark:text-error-500">
+            {error}
+          </div>
+        )}
+
         {/* Filters */}
         <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
           <div className="relative flex-1">
@@ -103,7 +157,7 @@ export default function WebhookLogsPage() {
             />
           </div>
           <div className="flex gap-2">
-            {(["all", "success", "failed"] as const).map((status) => (
+            {(["all", "delivered", "pending", "failed"] as const).map((status) => (
               <Button
                 key={status}
                 variant={filter === status ? "primary" : "outline"}
@@ -131,7 +185,7 @@ export default function WebhookLogsPage() {
                     Event
                   </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400">
-                    URL
+                    Attempts
                   </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400">
                     Status Code
@@ -142,36 +196,105 @@ export default function WebhookLogsPage() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400">
                     Status
                   </th>
+                  <th className="px-6 py-3" />
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-200 dark:divide-gray-800">
-                {filteredLogs.map((log) => {
-                  const Icon = statusIcons[log.status];
-                  return (
-                    <tr key={log.id}>
-                      <td className="px-6 py-4 text-sm text-gray-900 dark:text-white">{log.timestamp}</td>
-                      <td className="px-6 py-4 font-medium text-gray-900 dark:text-white">
-                        {log.webhook}
-                      </td>
-                      <td className="px-6 py-4 text-gray-600 dark:text-gray-400">{log.event}</td>
-                      <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-400">{log.url}</td>
-                      <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-400">
-                        {log.statusCode || "—"}
-                      </td>
-                      <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-400">
-                        {log.responseTime}ms
-                      </td>
-                      <td className="px-6 py-4">
-                        <span
-                          className={`inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs font-medium ${statusColors[log.status]}`}
+                {loading ? (
+                  <tr>
+                    <td colSpan={8} className="px-6 py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+                      Loading logs...
+                    </td>
+                  </tr>
+                ) : filteredLogs.length === 0 ? (
+                  <tr>
+                    <td colSpan={8} className="px-6 py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+                      No deliveries yet
+                    </td>
+                  </tr>
+                ) : (
+                  filteredLogs.map((log) => {
+                    const Icon = statusIcons[log.status];
+                    const expanded = expandedId === log.id;
+                    return (
+                      <React.Fragment key={log.id}>
+                        <tr
+                          className="cursor-pointer hover:bg-gray-50 dark:hover:bg-white/5"
+                          onClick={() => setExpandedId(expanded ? null : log.id)}
                         >
-                          <Icon className="h-3 w-3" />
-                          {log.status}
-                        </span>
-                      </td>
-                    </tr>
-                  );
-                })}
+                          <td className="px-6 py-4 text-sm text-gray-900 dark:text-white">
+                            {formatTimestamp(log.last_attempt_at || log.created_at)}
+                          </td>
+                          <td className="px-6 py-4">
+                            <div className="font-medium text-gray-900 dark:text-white">{log.endpoint?.name || "—"}</div>
+                            <div className="text-xs text-gray-500 dark:text-gray-400">{log.endpoint?.url}</div>
+                          </td>
+                          <td className="px-6 py-4 text-gray-600 dark:text-gray-400">
+                            {log.event_type}
+                            {log.event?.is_test && (
+                              <span className="ml-2 rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-600 dark:bg-gray-800 dark:text-gray-300">
+                                test
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-400">{log.attempts}</td>
+                          <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-400">
+                            {log.response_status || "—"}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-400">
+                            {log.response_time_ms !== null ? `${log.response_time_ms}ms` : "—"}
+                          </td>
+                          <td className="px-6 py-4">
+                            <span
+                              className={`inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs font-medium ${statusColors[log.status]}`}
+                            >
+                              <Icon className="h-3 w-3" />
+                              {log.status}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 text-right" onClick={(e) => e.stopPropagation()}>
+                            {log.status !== "delivered" && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={retryingId === log.id}
+                                onClick={() => handleRetry(log)}
+                              >
+                                {retryingId === log.id ? "Sending..." : "Retry now"}
+                              </Button>
+                            )}
+                          </td>
+                        </tr>
+                        {expanded && (
+                          <tr className="bg-gray-50 dark:bg-white/3">
+                            <td colSpan={8} className="space-y-3 px-6 py-4 text-sm text-gray-600 dark:text-gray-400">
+                              {log.error && (
+                                <p className="text-error-600 dark:text-error-500">Error: {log.error}</p>
+                              )}
+                              {log.status === "pending" && log.next_attempt_at && (
+                                <p>Next attempt: {formatTimestamp(log.next_attempt_at)}</p>
+                              )}
+                              {log.response_body && (
+                                <div>
+                                  <p className="mb-1 text-xs font-medium">Response body</p>
+                                  <pre className="overflow-x-auto rounded-lg bg-white p-3 text-xs dark:bg-gray-800">
+                                    {log.response_body}
+                                  </pre>
+                                </div>
+                              )}
+                              <div>
+                                <p className="mb-1 text-xs font-medium">Event data</p>
+                                <pre className="overflow-x-auto rounded-lg bg-white p-3 text-xs dark:bg-gray-800">
+                                  {JSON.stringify(log.event?.data ?? {}, null, 2)}
+                                </pre>
+                              </div>
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    );
+                  })
+                )}
               </tbody>
             </table>
           </div>
@@ -180,4 +303,3 @@ export default function WebhookLogsPage() {
     </div>
   );
 }
-
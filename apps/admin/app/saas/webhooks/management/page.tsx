@@ -7,69 +7,165 @@ import { Modal } from "@/components/ui/modal";
 import { useModal } from "@/hooks/useModal";
 import { PlusIcon, PencilIcon, PlayIcon } from "@heroicons/react/24/outline";
 import { TrashBinIcon } from "@/icons";
-import React, { useState } from "react";
-
-interface Webhook {
-  id: string;
-  name: string;
-  url: string;
-  events: string[];
-  status: "active" | "inactive";
-  lastTriggered?: string;
-  secret: string;
-}
+import React, { useEffect, useState } from "react";
+import {
+  createWebhookEndpointAction,
+  deleteWebhookEndpointAction,
+  getWebhookEndpointsAction,
+  rotateWebhookSecretAction,
+  sendTestWebhookEventAction,
+  updateWebhookEndpointAction,
+} from "@/app/actions/webhooks";
+import {
+  WEBHOOK_EVENTS,
+  type WebhookAttemptResult,
+  type WebhookEndpoint,
+  type WebhookEventType,
+} from "@/core/webhooks";
 
-const webhooks: Webhook[] = [
-  {
-    id: "1",
-    name: "Order Created",
-    url: "https://api.example.com/webhooks/orders",
-    events: ["order.created"],
-    status: "active",
-    lastTriggered: "2025-01-16 10:30 AM",
-    secret: "whsec_abc123...",
-  },
-  {
-    id: "2",
-    name: "Payment Webhook",
-    url: "https://api.example.com/webhooks/payments",
-    events: ["payment.succeeded", "payment.failed"],
-    status: "active",
-    lastTriggered: "2025-01-16 09:15 AM",
-    secret: "whsec_xyz789...",
-  },
-  {
-    id: "3",
-    name: "User Events",
-    url: "https://api.example.com/webhooks/users",
-    events: ["user.created", "user.updated", "user.deleted"],
-    status: "inactive",
-    secret: "whsec_def456...",
-  },
-];
+const emptyForm = {
+  name: "",
+  url: "",
+  events: [] as WebhookEventType[],
+};
 
 export default function WebhookManagementPage() {
-  const [webhookList, setWebhookList] = useState<Webhook[]>(webhooks);
-  const createModal = useModal();
-  const [formData, setFormData] = useState({
-    name: "",
-    url: "",
-    events: [] as string[],
-    secret: "",
-  });
-
-  const handleCreate = () => {
-    const newWebhook: Webhook = {
-      id: Date.now().toString(),
-      name: formData.name,
-      url: formData.url,
-      events: formData.events,
-      status: "active",
-      secret: `whsec_${Math.random().toString(36).substring(7)}...`,
-    };
-    setWebhookList([...webhookList, newWebhook]);
-    createModal.closeModal();
-    setFormData({ name: "", url: "", events: [], secret: "" });
+  const [webhookList, setWebhookList] = useState<WebhookEndpoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const formModal = useModal();
+  // The endpoint being edited; null when creating one
+  const [editing, setEditing] = useState<WebhookEndpoint | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [revealedId, setRevealedId] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [testResults, setTestResults] = useState<Record<string, WebhookAttemptResult>>({});
+
+  useEffect(() => {
+    loadWebhooks();
+  }, []);
+
+  const loadWebhooks = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setWebhookList(await getWebhookEndpointsAction());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load webhooks");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    setFormData(emptyForm);
+    setFormError(null);
+    formModal.openModal();
+  };
+
+  const openEdit = (webhook: WebhookEndpoint) => {
+    setEditing(webhook);
+    setFormData({ name: webhook.name, url: webhook.url, events: webhook.events });
+    setFormError(null);
+    formModal.openModal();
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setFormError(null);
+      const result = editing
+        ? await updateWebhookEndpointAction(editing.id, formData)
+        : await createWebhookEndpointAction(formData);
+      if (result.success && result.data) {
+        formModal.closeModal();
+        if (!editing) {
+          // Show the new secret so it can be copied into the receiver
+          setRevealedId(result.data.id);
+        }
+        await loadWebhooks();
+      } else {
+        setFormError(result.error || "Failed to save webhook");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const runAction = async (
+    webhook: WebhookEndpoint,
+    action: () => Promise<{ success: boolean; error?: string }>,
+    fallbackError: string
+  ) => {
+    try {
+      setBusyId(webhook.id);
+      setError(null);
+      const result = await action();
+      if (result.success) {
+        await loadWebhooks();
+      } else {
+        setError(result.error || fallbackError);
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleToggle = (webhook: WebhookEndpoint) =>
+    runAction(
+      webhook,
+      () =>
+        updateWebhookEndpointAction(webhook.id, {
+          name: webhook.name,
+          url: webhook.url,
+          events: webhook.events,
+          is_active: !webhook.is_active,
+        }),
+      "Failed to update webhook"
+    );
+
+  const handleRotateSecret = (webhook: WebhookEndpoint) => {
+    if (!confirm(`Replace the signing secret for "${webhook.name}"? Its receiver must be updated with the new one.`)) {
+      return;
+    }
+    setRevealedId(webhook.id);
+    return runAction(webhook, () => rotateWebhookSecretAction(webhook.id), "Failed to rotate secret");
+  };
+
+  const handleDelete = (webhook: WebhookEndpoint) => {
+    if (!confirm(`Delete "${webhook.name}"? Its delivery log is deleted too.`)) {
+      return;
+    }
+    return runAction(webhook, () => deleteWebhookEndpointAction(webhook.id), "Failed to delete webhook");
+  };
+
+  const handleTest = async (webhook: WebhookEndpoint) => {
+    try {
+      setBusyId(webhook.id);
+      setError(null);
+      const result = await sendTestWebhookEventAction(webhook.id, webhook.events[0]);
+      if (result.success && result.data) {
+        setTestResults({ ...testResults, [webhook.id]: result.data });
+      } else {
+        setError(result.error || "Failed to send test event");
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCopy = async (webhook: WebhookEndpoint) => {
+    try {
+      await navigator.clipboard.writeText(webhook.secret);
+      setCopiedId(webhook.id);
+      setTimeout(() => setCopiedId(null), 1500);
+    } catch {
+      // Optionally handle error
+    }
   };
 
   return (
@@ -80,88 +176,169 @@ export default function WebhookManagementPage() {
           <div>
             <h1 className="text-3xl font-semibold text-gray-900 dark:text-white">Webhook Management</h1>
             <p className="mt-2 text-gray-500 dark:text-gray-400">
-              Create and manage webhooks for event notifications
+              Send signed job, transaction, reconciliation and sync events to your own URLs
             </p>
           </div>
-          <Button onClick={createModal.openModal}>
+          <Button onClick={openCreate}>
             <PlusIcon className="h-4 w-4" />
             Create Webhook
           </Button>
         </div>
 
-        <div className="grid gap-6 lg:grid-cols-2">
-          {webhookList.map((webhook) => (
-            <div
-              key={webhook.id}
-              className="rounded-2xl border border-gray-200 bg-white p-6 shadow-sm dark:border-gray-800 dark:bg-gray-900"
-            >
-              <div className="mb-4 flex items-start justify-between">
-                <div>
-                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-                    {webhook.name}
-                  </h3>
-                  <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">{webhook.url}</p>
-                </div>
-                <span
-                  className={`inline-flex rounded-full px-2.5 py-0.5 text-xs font-medium ${
-                    webhook.status === "active"
-                      ? "bg-green-100 text-green-700 dark:bg-green-500/15 dark:text-green-500"
-                      : "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300"
-                  }`}
+        {error && (
+          <div className="rounded-lg border border-error-200 bg-error-50 p-4 text-sm text-error-600 dark:border-error-500/30 dark:bg-error-500/15 dark:text-error-500">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading webhooks...</p>
+        ) : webhookList.length === 0 ? (
+          <div className="rounded-2xl border border-dashed border-gray-300 p-10 text-center dark:border-gray-700">
+            <p className="text-gray-500 dark:text-gray-400">
+              No webhooks yet. Create one to start receiving events.
+            </p>
+          </div>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-2">
+            {webhookList.map((webhook) => {
+              const testResult = testResults[webhook.id];
+              return (
+                <div
+                  key={webhook.id}
+                  className="rounded-2xl border border-gray-200 bg-white p-6 shadow-sm dark:border-gray-800 dark:bg-gray-900"
                 >
-                  {webhook.status}
-                </span>
-              </div>
-              <div className="mb-4 space-y-2">
-                <p className="text-xs font-medium text-gray-500 dark:text-gray-400">Events</p>
-                <div className="flex flex-wrap gap-1">
-                  {webhook.events.map((event) => (
-                    <span
-                      key={event}
-                      className="rounded-full bg-blue-100 px-2 py-0.5 text-xs text-blue-700 dark:bg-blue-500/15 dark:text-blue-500"
+                  <div className="mb-4 flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                        {webhook.name}
+                      </h3>
+                      <p className="mt-1 break-all text-sm text-gray-500 dark:text-gray-400">{webhook.url}</p>
+                    </div>
+                    <button
+                      onClick={() => handleToggle(webhook)}
+                      disabled={busyId === webhook.id}
+                      title={webhook.is_active ? "Pause deliveries" : "Resume deliveries"}
+                      className={`inline-flex shrink-0 rounded-full px-2.5 py-0.5 text-xs font-medium ${
+                        webhook.is_active
+                          ? "bg-green-100 text-green-700 dark:bg-green-500/15 dark:text-green-500"
+                          : "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300"
+                      }`}
                     >
-                      {event}
-                    </span>
-                  ))}
+                      {webhook.is_active ? "active" : "paused"}
+                    </button>
+                  </div>
+                  <div className="mb-4 space-y-2">
+                    <p className="text-xs font-medium text-gray-500 dark:text-gray-400">Events</p>
+                    <div className="flex flex-wrap gap-1">
+                      {webhook.events.map((event) => (
+                        <span
+                          key={event}
+                          className="rounded-full bg-blue-100 px-2 py-0.5 text-xs text-blue-700 dark:bg-blue-500/15 dark:text-blue-500"
+                        >
+                          {event}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="mb-4 space-y-2">
+                    <p className="text-xs font-medium text-gray-500 dark:text-gray-400">Signing secret</p>
+                    <div className="flex items-center gap-2">
+                      <code className="flex-1 truncate rounded bg-gray-100 px-2 py-1 text-xs text-gray-700 dark:bg-gray-800 dark:text-gray-300">
+                        {revealedId === webhook.id ? webhook.secret : `${webhook.secret.slice(0, 10)}${"•".repeat(16)}`}
+                      </code>
+                      <button
+                        onClick={() => setRevealedId(revealedId === webhook.id ? null : webhook.id)}
+                        className="text-xs text-brand-500 hover:text-brand-600"
+                      >
+                        {revealedId === webhook.id ? "Hide" : "Reveal"}
+                      </button>
+                      <button
+                        onClick={() => handleCopy(webhook)}
+                        className="text-xs text-brand-500 hover:text-brand-600"
+                      >
+                        {copiedId === webhook.id ? "Copied" : "Copy"}
+                      </button>
+                      <button
+                        onClick={() => handleRotateSecret(webhook)}
+                        disabled={busyId === webhook.id}
+                        className="text-xs text-brand-500 hover:text-brand-600"
+                      >
+                        Rotate
+                      </button>
+                    </div>
+                  </div>
+                  {testResult && (
+                    <p
+                      className={`mb-4 text-xs ${
+                        testResult.status === "delivered"
+                          ? "text-green-600 dark:text-green-500"
+                          : "text-error-600 dark:text-error-500"
+                      }`}
+                    >
+                      Test {webhook.events[0]}:{" "}
+                      {testResult.status === "delivered"
+                        ? `delivered (HTTP ${testResult.responseStatus}, ${testResult.responseTimeMs} ms)`
+                        : testResult.error}
+                    </p>
+                  )}
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex-1"
+                      onClick={() => handleTest(webhook)}
+                      disabled={busyId === webhook.id}
+                    >
+                      <PlayIcon className="h-4 w-4" />
+                      Test
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex-1"
+                      onClick={() => openEdit(webhook)}
+                      disabled={busyId === webhook.id}
+                    >
+                      <PencilIcon className="h-4 w-4" />
+                      Edit
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex-1"
+                      onClick={() => handleDelete(webhook)}
+                      disabled={busyId === webhook.id}
+                    >
+                      <TrashBinIcon className="h-4 w-4" />
+                      Delete
+                    </Button>
+                  </div>
                 </div>
-              </div>
-              {webhook.lastTriggered && (
-                <p className="mb-4 text-xs text-gray-500 dark:text-gray-400">
-                  Last triggered: {webhook.lastTriggered}
-                </p>
-              )}
-              <div className="flex gap-2">
-                <Button variant="outline" size="sm" className="flex-1">
-                  <PlayIcon className="h-4 w-4" />
-                  Test
-                </Button>
-                <Button variant="outline" size="sm" className="flex-1">
-                  <PencilIcon className="h-4 w-4" />
-                  Edit
-                </Button>
-                <Button variant="outline" size="sm" className="flex-1">
-                  <TrashBinIcon className="h-4 w-4" />
-                  Delete
-                </Button>
-              </div>
-            </div>
-          ))}
-        </div>
+              );
+            })}
+          </div>
+        )}
       </div>
 
-      {/* Create Webhook Modal */}
-      <Modal isOpen={createModal.isOpen} onClose={createModal.closeModal} className="max-w-[600px] m-4">
+      {/* Create / Edit Webhook Modal */}
+      <Modal isOpen={formModal.isOpen} onClose={formModal.closeModal} className="max-w-[600px] m-4">
         <div className="p-6">
-          <h3 className="mb-4 text-xl font-semibold text-gray-900 dark:text-white">Create Webhook</h3>
+          <h3 className="mb-4 text-xl font-semibold text-gray-900 dark:text-white">
+            {editing ? "Edit Webhook" : "Create Webhook"}
+          </h3>
           <div className="space-y-4">
+            {formError && (
+              <p className="text-sm text-error-600 dark:text-error-500">{formError}</p>
+            )}
             <div>
               <Label htmlFor="webhook-name">Webhook Name</Label>
               <Input
                 id="webhook-name"
                 type="text"
-                defaultValue={formData.name}
+                value={formData.name}
                 onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                placeholder="e.g., Order Created"
+                placeholder="e.g., Bookkeeping sync"
               />
             </div>
             <div>
@@ -169,7 +346,7 @@ export default function WebhookManagementPage() {
               <Input
                 id="webhook-url"
                 type="url"
-                defaultValue={formData.url}
+                value={formData.url}
                 onChange={(e) => setFormData({ ...formData, url: e.target.value })}
                 placeholder="https://api.example.com/webhooks"
               />
@@ -177,36 +354,37 @@ export default function WebhookManagementPage() {
             <div>
               <Label>Events</Label>
               <div className="mt-2 space-y-2">
-                {["order.created", "payment.succeeded", "payment.failed", "user.created"].map(
-                  (event) => (
-                    <label key={event} className="flex items-center gap-2">
-                      <input
-                        type="checkbox"
-                        checked={formData.events.includes(event)}
-                        onChange={(e) => {
-                          if (e.target.checked) {
-                            setFormData({ ...formData, events: [...formData.events, event] });
-                          } else {
-                            setFormData({
-                              ...formData,
-                              events: formData.events.filter((e) => e !== event),
-                            });
-                          }
-                        }}
-                        className="h-4 w-4 rounded border-gray-300 text-brand-500"
-                      />
-                      <span className="text-sm text-gray-700 dark:text-gray-300">{event}</span>
-                    </label>
-                  )
-                )}
+                {WEBHOOK_EVENTS.map(({ type, description }) => (
+                  <label key={type} className="flex items-start gap-2">
+                    <input
+                      type="checkbox"
+                      checked={formData.events.includes(type)}
+                      onChange={(e) => {
+                        if (e.target.checked) {
+                          setFormData({ ...formData, events: [...formData.events, type] });
+                        } else {
+                          setFormData({
+                            ...formData,
+                            events: formData.events.filter((event) => event !== type),
+                          });
+                        }
+                      }}
+                      className="mt-0.5 h-4 w-4 rounded border-gray-300 text-brand-500"
+                    />
+                    <span className="text-sm text-gray-700 dark:text-gray-300">
+                      <code>{type}</code>
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">{description}</span>
+                    </span>
+                  </label>
+                ))}
               </div>
             </div>
             <div className="flex gap-3 pt-4">
-              <Button variant="outline" onClick={createModal.closeModal} className="flex-1">
+              <Button variant="outline" onClick={formModal.closeModal} className="flex-1">
                 Cancel
               </Button>
-              <Button onClick={handleCreate} className="flex-1">
-                Create Webhook
+              <Button onClick={handleSave} className="flex-1" disabled={saving}>
+                {saving ? "Saving..." : editing ? "Save Changes" : "Create Webhook"}
               </Button>
             </div>
           </div>
@@ -215,4 +393,3 @@ export default function WebhookManagementPage() {
     </div>
   );
 }
-
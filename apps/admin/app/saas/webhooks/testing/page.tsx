@@ -2,67 +2,68 @@
 import PageBreadcrumb from "@/components/common/PageBreadCrumb";
 import Button from "@/components/ui/button/Button";
 import Label from "@/components/form/Label";
-import { PlayIcon, CheckIcon, XMarkIcon } from "@heroicons/react/24/outline";
-import React, { useState } from "react";
+import { PlayIcon, CheckIcon, ClockIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import React, { useEffect, useState } from "react";
+import { getWebhookEndpointsAction, sendTestWebhookEventAction } from "@/app/actions/webhooks";
+import {
+  WEBHOOK_EVENTS,
+  type WebhookAttemptResult,
+  type WebhookEndpoint,
+  type WebhookEventType,
+} from "@/core/webhooks";
 
-interface TestResult {
-  id: string;
+interface TestResult extends WebhookAttemptResult {
   webhook: string;
-  event: string;
+  event: WebhookEventType;
   timestamp: string;
-  status: "success" | "failed";
-  responseTime: number;
-  statusCode?: number;
-  response?: string;
-  error?: string;
 }
 
+const statusIcons = {
+  delivered: CheckIcon,
+  pending: ClockIcon,
+  failed: XMarkIcon,
+};
+
 export default function WebhookTestingPage() {
+  const [webhooks, setWebhooks] = useState<WebhookEndpoint[]>([]);
   const [selectedWebhook, setSelectedWebhook] = useState("");
-  const [selectedEvent, setSelectedEvent] = useState("");
-  const [testPayload, setTestPayload] = useState(`{
-  "id": "evt_test_123",
-  "type": "order.created",
-  "data": {
-    "order_id": "ord_12345",
-    "amount": 199.00,
-    "currency": "usd"
-  }
-}`);
+  const [selectedEvent, setSelectedEvent] = useState<WebhookEventType | "">("");
   const [testResults, setTestResults] = useState<TestResult[]>([]);
   const [isTesting, setIsTesting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getWebhookEndpointsAction()
+      .then(setWebhooks)
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load webhooks"));
+  }, []);
 
-  const webhooks = [
-    { id: "1", name: "Order Created", url: "https://api.example.com/webhooks/orders" },
-    { id: "2", name: "Payment Webhook", url: "https://api.example.com/webhooks/payments" },
-  ];
+  const webhook = webhooks.find((entry) => entry.id === selectedWebhook);
+  const sample = WEBHOOK_EVENTS.find((entry) => entry.type === selectedEvent)?.sample;
 
-  const events = [
-    "order.created",
-    "order.updated",
-    "payment.succeeded",
-    "payment.failed",
-    "user.created",
-  ];
+  const handleTest = async () => {
+    if (!webhook || !selectedEvent) return;
 
-  const handleTest = () => {
-    setIsTesting(true);
-    // Simulate webhook test
-    setTimeout(() => {
-      const result: TestResult = {
-        id: Date.now().toString(),
-        webhook: selectedWebhook,
-        event: selectedEvent,
-        timestamp: new Date().toISOString(),
-        status: Math.random() > 0.3 ? "success" : "failed",
-        responseTime: Math.floor(Math.random() * 500) + 50,
-        statusCode: Math.random() > 0.3 ? 200 : 500,
-        response: Math.random() > 0.3 ? '{"status": "ok"}' : undefined,
-        error: Math.random() > 0.7 ? "Connection timeout" : undefined,
-      };
-      setTestResults([result, ...testResults]);
+    try {
+      setIsTesting(true);
+      setError(null);
+      const result = await sendTestWebhookEventAction(webhook.id, selectedEvent);
+      if (result.success && result.data) {
+        setTestResults([
+          {
+            ...result.data,
+            webhook: webhook.name,
+            event: selectedEvent,
+            timestamp: new Date().toISOString(),
+          },
+          ...testResults,
+        ]);
+      } else {
+        setError(result.error || "Failed to send test webhook");
+      }
+    } finally {
       setIsTesting(false);
-    }, 1500);
+    }
   };
 
   return (
@@ -72,10 +73,16 @@ export default function WebhookTestingPage() {
         <div>
           <h1 className="text-3xl font-semibold text-gray-900 dark:text-white">Webhook Testing</h1>
           <p className="mt-2 text-gray-500 dark:text-gray-400">
-            Test webhooks with sample payloads before going live
+            Send a signed event with sample data to a webhook and see how it responds
           </p>
         </div>
 
+        {error && (
+          <div className="rounded-lg border border-error-200 bg-error-50 p-4 text-sm text-error-600 dark:border-error-500/30 dark:bg-error-500/15 dark:text-error-500">
+            {error}
+          </div>
+        )}
+
         <div className="grid gap-6 lg:grid-cols-2">
           {/* Test Configuration */}
           <div className="rounded-2xl border border-gray-200 bg-white p-6 shadow-sm dark:border-gray-800 dark:bg-gray-900">
@@ -93,8 +100,8 @@ export default function WebhookTestingPage() {
                 >
                   <option value="">Select webhook</option>
                   {webhooks.map((wh) => (
-                    <option key={wh.id} value={wh.name}>
-                      {wh.name}
+                    <option key={wh.id} value={wh.id}>
+                      {wh.name}{wh.is_active ? "" : " (paused)"}
                     </option>
                   ))}
                 </select>
@@ -104,34 +111,38 @@ export default function WebhookTestingPage() {
                 <select
                   id="test-event"
                   value={selectedEvent}
-                  onChange={(e) => setSelectedEvent(e.target.value)}
+                  onChange={(e) => setSelectedEvent(e.target.value as WebhookEventType | "")}
                   className="h-11 w-full rounded-lg border border-gray-300 bg-transparent px-4 text-sm text-gray-800 focus:border-brand-300 focus:ring-2 focus:ring-brand-500/10 focus:outline-hidden dark:border-gray-700 dark:bg-gray-800 dark:text-white/90"
                 >
                   <option value="">Select event</option>
-                  {events.map((event) => (
-                    <option key={event} value={event}>
-                      {event}
+                  {WEBHOOK_EVENTS.map((event) => (
+                    <option key={event.type} value={event.type}>
+                      {event.type}
                     </option>
                   ))}
                 </select>
               </div>
               <div>
-                <Label htmlFor="test-payload">Test Payload (JSON)</Label>
-                <textarea
+                <Label htmlFor="test-payload">Sample Data</Label>
+                <pre
                   id="test-payload"
-                  value={testPayload}
-                  onChange={(e) => setTestPayload(e.target.value)}
-                  rows={12}
-                  className="w-full rounded-lg border border-gray-300 bg-transparent px-4 py-3 font-mono text-sm text-gray-800 placeholder:text-gray-400 focus:border-brand-300 focus:ring-2 focus:ring-brand-500/10 focus:outline-hidden dark:border-gray-700 dark:bg-gray-800 dark:text-white/90"
-                />
+                  className="h-72 overflow-auto rounded-lg border border-gray-300 px-4 py-3 font-mono text-xs text-gray-800 dark:border-gray-700 dark:bg-gray-800 dark:text-white/90"
+                >
+                  {sample ? JSON.stringify(sample, null, 2) : "Select an event to see the data it sends"}
+                </pre>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Sent as the payload&apos;s <code>data</code>, with <code>&quot;test&quot;: true</code>. For a
+                  local receiver, run <code>pnpm webhooks:receiver</code> and add a webhook for{" "}
+                  <code>http://localhost:4000/webhooks</code>.
+                </p>
               </div>
               <Button
                 onClick={handleTest}
-                disabled={!selectedWebhook || !selectedEvent || isTesting}
+                disabled={!webhook || !selectedEvent || !webhook.is_active || isTesting}
                 className="w-full"
               >
                 <PlayIcon className="h-4 w-4" />
-                {isTesting ? "Testing..." : "Send Test Webhook"}
+                {isTesting ? "Sending..." : "Send Test Webhook"}
               </Button>
             </div>
           </div>
@@ -146,33 +157,28 @@ export default function WebhookTestingPage() {
                 </p>
               ) : (
                 testResults.map((result) => {
-                  const Icon = result.status === "success" ? CheckIcon : XMarkIcon;
+                  const Icon = statusIcons[result.status];
+                  const success = result.status === "delivered";
                   return (
                     <div
-                      key={result.id}
+                      key={result.deliveryId}
                       className="rounded-lg border border-gray-200 p-4 dark:border-gray-800"
                     >
                       <div className="mb-3 flex items-center justify-between">
                         <div className="flex items-center gap-2">
-                          <Icon
-                            className={`h-5 w-5 ${
-                              result.status === "success"
-                                ? "text-green-500"
-                                : "text-red-500"
-                            }`}
-                          />
+                          <Icon className={`h-5 w-5 ${success ? "text-green-500" : "text-red-500"}`} />
                           <span className="font-medium text-gray-900 dark:text-white">
                             {result.webhook}
                           </span>
                         </div>
                         <span
                           className={`inline-flex rounded-full px-2.5 py-0.5 text-xs font-medium ${
-                            result.status === "success"
+                            success
                               ? "bg-green-100 text-green-700 dark:bg-green-500/15 dark:text-green-500"
                               : "bg-red-100 text-red-700 dark:bg-red-500/15 dark:text-red-500"
                           }`}
                         >
-                          {result.status}
+                          {result.status === "pending" ? "retrying" : result.status}
                         </span>
                       </div>
                       <div className="space-y-1 text-sm">
@@ -183,21 +189,31 @@ export default function WebhookTestingPage() {
                         <div className="flex justify-between">
                           <span className="text-gray-500 dark:text-gray-400">Status Code:</span>
                           <span className="text-gray-900 dark:text-white">
-                            {result.statusCode || "—"}
+                            {result.responseStatus || "—"}
                           </span>
                         </div>
                         <div className="flex justify-between">
                           <span className="text-gray-500 dark:text-gray-400">Response Time:</span>
-                          <span className="text-gray-900 dark:text-white">{result.responseTime}ms</span>
+                          <span className="text-gray-900 dark:text-white">
+                            {result.responseTimeMs !== null ? `${result.responseTimeMs}ms` : "—"}
+                          </span>
                         </div>
+                        {result.nextAttemptAt && (
+                          <div className="flex justify-between">
+                            <span className="text-gray-500 dark:text-gray-400">Next Retry:</span>
+                            <span className="text-gray-900 dark:text-white">
+                              {new Date(result.nextAttemptAt).toLocaleTimeString("en-GB")}
+                            </span>
+                          </div>
+                        )}
                         {result.error && (
                           <div className="mt-2 rounded bg-red-50 p-2 text-xs text-red-700 dark:bg-red-500/15 dark:text-red-500">
                             {result.error}
                           </div>
                         )}
-                        {result.response && (
+                        {result.responseBody && (
                           <div className="mt-2 rounded bg-gray-50 p-2 font-mono text-xs text-gray-700 dark:bg-gray-800 dark:text-gray-300">
-                            {result.response}
+                            {result.responseBody}
                           </div>
                         )}
                       </div>
@@ -212,4 +228,3 @@ export default function WebhookTestingPage() {
     </div>
   );
 }
-
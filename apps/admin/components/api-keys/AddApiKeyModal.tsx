@@ -1,12 +1,70 @@
 "use client";
+import { useState } from "react";
 import Button from "../ui/button/Button";
 import { Modal } from "../ui/modal";
 import { useModal } from "../../hooks/useModal";
 import Label from "../form/Label";
 import Input from "../form/input/InputField";
+import Checkbox from "../form/input/Checkbox";
+import Select from "../form/Select";
+import { createApiKeyAction } from "@/app/actions/api-keys";
+import { API_KEY_SCOPES, type ApiKeyScope, type CreatedApiKey } from "@/core/api-keys";
 
-export default function AddApiKeyModal() {
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "Never" },
+];
+
+interface AddApiKeyModalProps {
+  onCreated: (created: CreatedApiKey) => void;
+}
+
+export default function AddApiKeyModal({ onCreated }: AddApiKeyModalProps) {
   const addApiKeyModal = useModal();
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["transactions:read"]);
+  const [expiry, setExpiry] = useState("90");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes((current) =>
+      checked ? [...current, scope] : current.filter((existing) => existing !== scope)
+    );
+  };
+
+  const handleClose = () => {
+    setName("");
+    setScopes(["transactions:read"]);
+    setExpiry("90");
+    setError(null);
+    addApiKeyModal.closeModal();
+  };
+
+  const handleGenerate = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const expiresAt = expiry === "never"
+        ? null
+        : new Date(Date.now() + Number(expiry) * 24 * 60 * 60 * 1000).toISOString();
+      const result = await createApiKeyAction({ name, scopes, expires_at: expiresAt });
+
+      if (result.success && result.data) {
+        onCreated(result.data);
+        handleClose();
+      } else {
+        setError(result.error || "Failed to create API key");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create API key");
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <>
       <Button onClick={addApiKeyModal.openModal}>
@@ -29,7 +87,7 @@ export default function AddApiKeyModal() {
       </Button>
       <Modal
         isOpen={addApiKeyModal.isOpen}
-        onClose={addApiKeyModal.closeModal}
+        onClose={handleClose}
         className="relative w-full max-w-[600px] m-5 sm:m-0 rounded-3xl bg-white p-6 lg:p-10 dark:bg-gray-900"
       >
         <div>
@@ -37,29 +95,65 @@ export default function AddApiKeyModal() {
             Generate API key
           </h4>
           <p className="mb-7 text-sm leading-6 text-gray-500 dark:text-gray-400">
-            To enable secure access to the web services, your app requires an
-            API key with permissions for resources such as the S3 bucket.
+            Requests made with the key act as you, within the scopes you give it. You&apos;ll see
+            the key once, straight after it&apos;s generated.
           </p>
-          <form action="#">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleGenerate();
+            }}
+            className="space-y-5"
+          >
             <div>
-              <Label>Enter your application name</Label>
-              <Input type="text" defaultValue="Saasbold" />
+              <Label>Application name</Label>
+              <Input
+                type="text"
+                placeholder="e.g. Reporting sync"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>Scopes</Label>
+              <div className="space-y-3">
+                {API_KEY_SCOPES.map((entry) => (
+                  <div key={entry.scope}>
+                    <Checkbox
+                      id={`scope-${entry.scope}`}
+                      label={entry.label}
+                      checked={scopes.includes(entry.scope)}
+                      onChange={(checked) => toggleScope(entry.scope, checked)}
+                    />
+                    <p className="ml-8 text-xs text-gray-500 dark:text-gray-400">
+                      {entry.description}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div>
+              <Label>Expires after</Label>
+              <Select options={EXPIRY_OPTIONS} defaultValue={expiry} onChange={setExpiry} />
             </div>
-            <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">
-              Naming your application makes it easier to recognize your API key
-              in the future.
-            </p>
           </form>
+          {error && (
+            <p className="mt-4 text-sm text-error-500">{error}</p>
+          )}
           <div className="mt-8 flex w-full flex-col sm:flex-row items-center justify-between gap-3">
             <Button
               variant="outline"
               className="w-full"
-              onClick={addApiKeyModal.closeModal}
+              onClick={handleClose}
             >
               Close
             </Button>
-            <Button className="w-full" onClick={addApiKeyModal.closeModal}>
-              Generate API key
+            <Button
+              className="w-full"
+              onClick={handleGenerate}
+              disabled={loading || !name.trim() || scopes.length === 0}
+            >
+              {loading ? "Generating..." : "Generate API key"}
             </Button>
           </div>
         </div>
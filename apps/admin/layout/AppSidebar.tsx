@@ -140,6 +140,7 @@ const navItems: NavItem[] = [
       { name: "Organization Admins", path: "/saas/admin/system-admin/organization-admins" },
       { name: "Platform Settings", path: "/saas/admin/system-admin/platform-settings" },
       { name: "API Configuration", path: "/saas/admin/system-admin/api-configuration" },
+      { name: "Background Jobs", path: "/saas/admin/system-admin/background-jobs", new: true },
       { name: "Multi-Tenant", path: "/multi-tenant", new: true },
       {
         name: "Subscriptions",
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { createAdminClient } from "@/lib/database/admin-client";
+import { canAccessCompanyProfile, getBooksScope } from "@/lib/books/scope";
+import { isPeriodLockError } from "@/lib/books/period-close";
+import { getBooksPermissions } from "@/lib/review/workflow";
+import { disposeFixedAsset, getFixedAsset } from "@/lib/assets/fixed-assets";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * POST /api/assets/[id]/dispose
+ * Sell or scrap an asset. Depreciation due up to the month before is posted first, then the
+ * asset's cost and accumulated depreciation come off the balance sheet. Linking the bank
+ * receipt for the sale posts the proceeds against the net book value, leaving the gain or loss.
+ * Body: disposal_date, proceeds, disposal_transaction_id
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const detail = await getFixedAsset(supabase, id);
+    const scope = await getBooksScope(supabase, user.id, detail?.asset.company_profile_id);
+
+    if (!detail || !canAccessCompanyProfile(scope, detail.asset.company_profile_id)) {
+      return NextResponse.json(
+        { error: "Asset not found" },
+        { status: 404 }
+      );
+    }
+
+    const { asset } = detail;
+    const { disposal_date, proceeds, disposal_transaction_id } = await request.json();
+
+    if (!disposal_date || !DATE_PATTERN.test(disposal_date)) {
+      return NextResponse.json(
+        { error: "disposal_date (YYYY-MM-DD) is required" },
+        { status: 400 }
+      );
+    }
+
+    // The sale receipt must be a transaction of the same company
+    let saleProceeds = Number(proceeds ?? 0);
+    if (disposal_transaction_id) {
+      const { data: receipt } = await supabase
+        .from("categorized_transactions")
+        .select("company_profile_id, amount, base_amount, is_debit")
+        .eq("id", disposal_transaction_id)
+        .single();
+      if (!receipt || receipt.company_profile_id !== asset.company_profile_id) {
+        return NextResponse.json(
+          { error: "Sale receipt not found" },
+          { status: 404 }
+        );
+      }
+      if (receipt.is_debit ?? Number(receipt.amount) < 0) {
+        return NextResponse.json(
+          { error: "The sale receipt must be money in" },
+          { status: 400 }
+        );
+      }
+      saleProceeds = Math.abs(Number(receipt.base_amount ?? receipt.amount) || 0);
+    }
+
+    if (!Number.isFinite(saleProceeds) || saleProceeds < 0) {
+      return NextResponse.json(
+        { error: "Proceeds must be zero or more" },
+        { status: 400 }
+      );
+    }
+
+    // Posting goes through the admin client, so the approve check happens here
+    const permissions = await getBooksPermissions(supabase, asset.company_profile_id);
+    if (!permissions.includes("transactions.approve")) {
+      return NextResponse.json(
+        { error: "You do not have permission to post disposals" },
+        { status: 403 }
+      );
+    }
+
+    try {
+      const result = await disposeFixedAsset(
+        createAdminClient(),
+        asset,
+        {
+          disposal_date,
+          proceeds: Math.round(saleProceeds * 100) / 100,
+          disposal_transaction_id: disposal_transaction_id || null,
+        },
+        user.id
+      );
+
+      return NextResponse.json({ success: true, ...result, ...(await getFixedAsset(supabase, id)) });
+    } catch (disposeError: any) {
+      return NextResponse.json(
+        { error: disposeError.message },
+        { status: isPeriodLockError(disposeError) ? 409 : 400 }
+      );
+    }
+  } catch (error: any) {
+    console.error("Fixed asset disposal error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,200 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { createAdminClient } from "@/lib/database/admin-client";
+import { canAccessCompanyProfile, getBooksScope } from "@/lib/books/scope";
+import { getBaseCurrency } from "@/lib/fx/rates";
+import { getFixedAsset, parseFixedAssetInput, repostAssetSources } from "@/lib/assets/fixed-assets";
+
+/** Fields that can still change once depreciation has been posted or the asset sold */
+const DESCRIPTIVE_FIELDS = ["name", "description", "notes"];
+
+/**
+ * GET /api/assets/[id]
+ * One asset with its posted depreciation and projected schedule
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const detail = await getFixedAsset(supabase, id);
+    const scope = await getBooksScope(supabase, user.id, detail?.asset.company_profile_id);
+
+    if (!detail || !canAccessCompanyProfile(scope, detail.asset.company_profile_id)) {
+      return NextResponse.json(
+        { error: "Asset not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      ...detail,
+      base_currency: await getBaseCurrency(supabase, detail.asset.company_profile_id),
+    });
+  } catch (error: any) {
+    console.error("Fixed asset GET error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/assets/[id]
+ * Change an asset's details. Depreciation terms apply from the next month charged; cost and
+ * acquisition date are fixed once depreciation has been posted, and a disposed asset only
+ * takes descriptive changes.
+ * Body: any of the fields accepted by POST /api/assets
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const detail = await getFixedAsset(supabase, id);
+    const scope = await getBooksScope(supabase, user.id, detail?.asset.company_profile_id);
+
+    if (!detail || !canAccessCompanyProfile(scope, detail.asset.company_profile_id)) {
+      return NextResponse.json(
+        { error: "Asset not found" },
+        { status: 404 }
+      );
+    }
+
+    const { asset } = detail;
+    const body = await request.json();
+    const changed = Object.keys(body).filter((field) => body[field] !== (asset as any)[field]);
+
+    if (asset.status === "disposed" && changed.some((field) => !DESCRIPTIVE_FIELDS.includes(field))) {
+      return NextResponse.json(
+        { error: "A disposed asset can only have its name, description and notes changed" },
+        { status: 400 }
+      );
+    }
+    const costChanged = body.cost !== undefined && Number(body.cost) !== asset.cost;
+    const dateChanged = body.acquisition_date !== undefined && body.acquisition_date !== asset.acquisition_date;
+    if (detail.posted.length > 0 && (costChanged || dateChanged)) {
+      return NextResponse.json(
+        { error: "Cost and acquisition date can't change once depreciation has been posted" },
+        { status: 400 }
+      );
+    }
+
+    const { input, error: inputError } = parseFixedAssetInput(body, asset);
+    if (inputError !== undefined) {
+      return NextResponse.json(
+        { error: inputError },
+        { status: 400 }
+      );
+    }
+
+    const { error: updateError } = await supabase
+      .from("fixed_assets")
+      .update(input)
+      .eq("id", id);
+
+    if (updateError) {
+      return NextResponse.json(
+        { error: updateError.message || "Failed to update the asset" },
+        { status: 500 }
+      );
+    }
+
+    // A new asset account moves the capitalised purchase with it
+    if (input.asset_account_code !== asset.asset_account_code) {
+      await repostAssetSources(createAdminClient(), asset.company_profile_id, asset, user.id);
+    }
+
+    return NextResponse.json({ success: true, ...(await getFixedAsset(supabase, id)) });
+  } catch (error: any) {
+    console.error("Fixed asset PATCH error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/assets/[id]
+ * Remove an asset added in error. Its purchase goes back to posting as an expense. Assets with
+ * depreciation posted, or already disposed of, stay in the register.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const detail = await getFixedAsset(supabase, id);
+    const scope = await getBooksScope(supabase, user.id, detail?.asset.company_profile_id);
+
+    if (!detail || !canAccessCompanyProfile(scope, detail.asset.company_profile_id)) {
+      return NextResponse.json(
+        { error: "Asset not found" },
+        { status: 404 }
+      );
+    }
+    if (detail.asset.status !== "active" || detail.posted.length > 0) {
+      return NextResponse.json(
+        { error: "Only assets with no depreciation posted can be deleted" },
+        { status: 400 }
+      );
+    }
+
+    const { error: deleteError } = await supabase
+      .from("fixed_assets")
+      .delete()
+      .eq("id", id);
+
+    if (deleteError) {
+      return NextResponse.json(
+        { error: deleteError.message || "Failed to delete the asset" },
+        { status: 500 }
+      );
+    }
+
+    await repostAssetSources(createAdminClient(), detail.asset.company_profile_id, detail.asset, user.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error("Fixed asset DELETE error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { getBooksScope } from "@/lib/books/scope";
+import { getBaseCurrency } from "@/lib/fx/rates";
+import { documentBaseCost } from "@/lib/assets/fixed-assets";
+
+const CANDIDATE_LIMIT = 100;
+
+/**
+ * GET /api/assets/candidates
+ * Purchases that could be capitalised - payments and bills not already in the register - or,
+ * for a disposal, receipts that could be an asset's sale proceeds. base_cost is each one's
+ * amount in base currency (net of VAT for bills).
+ * Query: company_profile_id, kind (purchase | sale), search
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const kind = searchParams.get("kind") === "sale" ? "sale" : "purchase";
+    const search = searchParams.get("search")?.trim();
+    const scope = await getBooksScope(supabase, user.id, searchParams.get("company_profile_id"));
+
+    if (scope.companyProfileIds.length !== 1) {
+      return NextResponse.json(
+        { error: "Select a company first" },
+        { status: 400 }
+      );
+    }
+
+    const companyProfileId = scope.companyProfileIds[0];
+    const { data: assets } = await supabase
+      .from("fixed_assets")
+      .select("source_transaction_id, source_document_id, disposal_transaction_id")
+      .eq("company_profile_id", companyProfileId);
+    const usedTransactions = new Set(
+      (assets || []).flatMap((asset: any) => [asset.source_transaction_id, asset.disposal_transaction_id]).filter(Boolean)
+    );
+    const usedDocuments = new Set((assets || []).map((asset: any) => asset.source_document_id).filter(Boolean));
+
+    let txQuery = supabase
+      .from("categorized_transactions")
+      .select("id, date, original_description, amount, base_amount, currency, category, is_debit, matched_document_id")
+      .eq("company_profile_id", companyProfileId)
+      .eq("is_breakdown_entry", false)
+      .order("date", { ascending: false })
+      .limit(CANDIDATE_LIMIT * 2);
+    txQuery = kind === "sale" ? txQuery.gt("amount", 0) : txQuery.lt("amount", 0);
+    if (search) txQuery = txQuery.ilike("original_description", `%${search}%`);
+    const { data: transactions, error: txError } = await txQuery;
+
+    if (txError) {
+      throw new Error(txError.message || "Failed to load transactions");
+    }
+
+    // Payments of a bill are capitalised through the bill, not the payment
+    const candidateTransactions = (transactions || [])
+      .filter((tx: any) => !usedTransactions.has(tx.id) && (kind === "sale" || !tx.matched_document_id))
+      .slice(0, CANDIDATE_LIMIT);
+
+    let documents: any[] = [];
+    if (kind === "purchase") {
+      let docQuery = supabase
+        .from("financial_documents")
+        .select("id, document_date, vendor_name, invoice_number, total_amount, tax_amount, base_total_amount, currency, category")
+        .eq("company_profile_id", companyProfileId)
+        .eq("file_type", "invoice")
+        .eq("document_kind", "bill")
+        .eq("is_deleted", false)
+        .order("document_date", { ascending: false })
+        .limit(CANDIDATE_LIMIT * 2);
+      if (search) docQuery = docQuery.ilike("vendor_name", `%${search}%`);
+      const { data: bills, error: docError } = await docQuery;
+
+      if (docError) {
+        throw new Error(docError.message || "Failed to load bills");
+      }
+      documents = (bills || []).filter((doc: any) => !usedDocuments.has(doc.id)).slice(0, CANDIDATE_LIMIT);
+    }
+
+    // Amounts are in base currency, as the asset's cost will be
+    return NextResponse.json({
+      company_profile_id: companyProfileId,
+      base_currency: await getBaseCurrency(supabase, companyProfileId),
+      transactions: candidateTransactions.map((tx: any) => ({
+        ...tx,
+        base_cost: Math.abs(Number(tx.base_amount ?? tx.amount) || 0),
+      })),
+      documents: documents.map((doc) => ({ ...doc, base_cost: documentBaseCost(doc) })),
+    });
+  } catch (error: any) {
+    console.error("Fixed asset candidates error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
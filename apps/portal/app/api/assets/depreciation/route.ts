@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { createAdminClient } from "@/lib/database/admin-client";
+import { canAccessCompanyProfile, getBooksScope } from "@/lib/books/scope";
+import { getBooksPermissions } from "@/lib/review/workflow";
+import { getDueDepreciation, runDepreciation } from "@/lib/assets/fixed-assets";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/assets/depreciation
+ * Depreciation due but not yet posted, month by month, up to a date
+ * Query: company_profile_id, through (YYYY-MM-DD)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const through = searchParams.get("through");
+
+    if (!through || !DATE_PATTERN.test(through)) {
+      return NextResponse.json(
+        { error: "through (YYYY-MM-DD) is required" },
+        { status: 400 }
+      );
+    }
+
+    const scope = await getBooksScope(supabase, user.id, searchParams.get("company_profile_id"));
+    if (scope.companyProfileIds.length !== 1) {
+      return NextResponse.json(
+        { error: "Select a company to run depreciation for" },
+        { status: 400 }
+      );
+    }
+
+    const due = await getDueDepreciation(supabase, scope.companyProfileIds[0], through);
+    const months = Array.from(due.keys()).sort().map((periodEnd) => {
+      const charges = due.get(periodEnd)!;
+      return {
+        period_end: periodEnd,
+        total: Math.round(charges.reduce((sum, charge) => sum + charge.amount, 0) * 100) / 100,
+        charges: charges.map((charge) => ({
+          asset_id: charge.asset.id,
+          name: charge.asset.name,
+          amount: charge.amount,
+        })),
+      };
+    });
+
+    return NextResponse.json({ company_profile_id: scope.companyProfileIds[0], through, months });
+  } catch (error: any) {
+    console.error("Depreciation preview error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/assets/depreciation
+ * Post the monthly depreciation journals due up to a date
+ * Body: company_profile_id, through (YYYY-MM-DD)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { company_profile_id, through } = await request.json();
+
+    if (!company_profile_id || !through || !DATE_PATTERN.test(through)) {
+      return NextResponse.json(
+        { error: "company_profile_id and through (YYYY-MM-DD) are required" },
+        { status: 400 }
+      );
+    }
+
+    const scope = await getBooksScope(supabase, user.id, company_profile_id);
+    if (!canAccessCompanyProfile(scope, company_profile_id)) {
+      return NextResponse.json(
+        { error: "Company profile not found" },
+        { status: 404 }
+      );
+    }
+
+    // Posting goes through the admin client, so the approve check happens here
+    const permissions = await getBooksPermissions(supabase, company_profile_id);
+    if (!permissions.includes("transactions.approve")) {
+      return NextResponse.json(
+        { error: "You do not have permission to post depreciation" },
+        { status: 403 }
+      );
+    }
+
+    const result = await runDepreciation(createAdminClient(), company_profile_id, through, user.id);
+
+    return NextResponse.json({
+      success: result.errors.length === 0,
+      ...result,
+    });
+  } catch (error: any) {
+    console.error("Depreciation run error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
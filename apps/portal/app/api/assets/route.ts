@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { createAdminClient } from "@/lib/database/admin-client";
+import { canAccessCompanyProfile, getBooksScope } from "@/lib/books/scope";
+import { getBaseCurrency } from "@/lib/fx/rates";
+import {
+  getFixedAsset,
+  listFixedAssets,
+  loadAssetSource,
+  parseFixedAssetInput,
+  repostAssetSources,
+  type FixedAssetInput,
+} from "@/lib/assets/fixed-assets";
+
+/**
+ * GET /api/assets
+ * A company's fixed asset register with each asset's net book value
+ * Query: company_profile_id
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const scope = await getBooksScope(supabase, user.id, searchParams.get("company_profile_id"));
+
+    if (scope.companyProfileIds.length !== 1) {
+      return NextResponse.json(
+        { error: "Select a company to view its fixed assets" },
+        { status: 400 }
+      );
+    }
+
+    const companyProfileId = scope.companyProfileIds[0];
+    const [assets, baseCurrency] = await Promise.all([
+      listFixedAssets(supabase, companyProfileId),
+      getBaseCurrency(supabase, companyProfileId),
+    ]);
+
+    return NextResponse.json({ company_profile_id: companyProfileId, base_currency: baseCurrency, assets });
+  } catch (error: any) {
+    console.error("Fixed assets GET error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/assets
+ * Add an asset to the register, optionally capitalising a bank transaction or an invoice:
+ * the purchase is re-posted to the asset account instead of its category's account.
+ * Body: name, description, asset_class, asset_account_code, acquisition_date, cost,
+ * residual_value, depreciation_method, useful_life_months, reducing_balance_rate,
+ * allowance_pool, claim_aia, notes, source_transaction_id, source_document_id
+ * Query: company_profile_id
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const transactionId = body.source_transaction_id || null;
+    const documentId = transactionId ? null : body.source_document_id || null;
+
+    // The purchase being capitalised decides the company, and fills in what the body leaves out
+    let companyProfileId: string | null = new URL(request.url).searchParams.get("company_profile_id");
+    let defaults: Partial<FixedAssetInput> = {};
+    if (transactionId || documentId) {
+      const source = await loadAssetSource(supabase, { transactionId, documentId });
+      if (!source || !source.company_profile_id) {
+        return NextResponse.json(
+          { error: transactionId ? "Transaction not found" : "Invoice not found" },
+          { status: 404 }
+        );
+      }
+      companyProfileId = source.company_profile_id;
+      defaults = { acquisition_date: source.date || undefined, cost: source.cost, name: source.description };
+    }
+
+    const scope = await getBooksScope(supabase, user.id, companyProfileId);
+    if (scope.companyProfileIds.length !== 1 || (companyProfileId && !canAccessCompanyProfile(scope, companyProfileId))) {
+      return NextResponse.json(
+        { error: "Select a company to add the asset to" },
+        { status: 400 }
+      );
+    }
+    companyProfileId = scope.companyProfileIds[0];
+
+    const { input, error: inputError } = parseFixedAssetInput(body, defaults);
+    if (inputError !== undefined) {
+      return NextResponse.json(
+        { error: inputError },
+        { status: 400 }
+      );
+    }
+
+    const { data: created, error: insertError } = await supabase
+      .from("fixed_assets")
+      .insert({
+        ...input,
+        company_profile_id: companyProfileId,
+        created_by: user.id,
+        source_transaction_id: transactionId,
+        source_document_id: documentId,
+      })
+      .select("id")
+      .single();
+
+    if (insertError || !created) {
+      if (insertError?.code === "23505") {
+        return NextResponse.json(
+          { error: "This purchase has already been capitalised" },
+          { status: 409 }
+        );
+      }
+      return NextResponse.json(
+        { error: insertError?.message || "Failed to add the asset" },
+        { status: 500 }
+      );
+    }
+
+    await repostAssetSources(
+      createAdminClient(),
+      companyProfileId,
+      { source_transaction_id: transactionId, source_document_id: documentId },
+      user.id
+    );
+
+    return NextResponse.json({ success: true, ...(await getFixedAsset(supabase, created.id)) });
+  } catch (error: any) {
+    console.error("Fixed assets POST error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
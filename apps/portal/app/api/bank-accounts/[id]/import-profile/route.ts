@@ -0,0 +1,190 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { getImportProfile, validateImportProfile } from "@/lib/categorization/import-profiles";
+
+/**
+ * Verify the bank account belongs to the user; returns the account or null
+ */
+async function getOwnedBankAccount(supabase: any, id: string, userId: string) {
+  const { data, error } = await supabase
+    .from("bank_accounts")
+    .select("id, user_id, tenant_id")
+    .eq("id", id)
+    .eq("user_id", userId)
+    .single();
+
+  return error ? null : data;
+}
+
+/**
+ * GET /api/bank-accounts/[id]/import-profile
+ * Returns the saved spreadsheet import profile for the bank account (null if none)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const bankAccount = await getOwnedBankAccount(supabase, id, user.id);
+    if (!bankAccount) {
+      return NextResponse.json(
+        { error: "Bank account not found" },
+        { status: 404 }
+      );
+    }
+
+    const profile = await getImportProfile(supabase, id);
+
+    return NextResponse.json({
+      success: true,
+      profile,
+    });
+  } catch (error: any) {
+    console.error("Import profile GET error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/bank-accounts/[id]/import-profile
+ * Create or replace the import profile for the bank account
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const bankAccount = await getOwnedBankAccount(supabase, id, user.id);
+    if (!bankAccount) {
+      return NextResponse.json(
+        { error: "Bank account not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { profile, error: validationError } = validateImportProfile(body);
+    if (!profile) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const { data: saved, error: saveError } = await supabase
+      .from("bank_account_import_profiles")
+      .upsert(
+        {
+          bank_account_id: id,
+          user_id: user.id,
+          tenant_id: bankAccount.tenant_id || null,
+          name: profile.name,
+          column_mapping: profile.column_mapping,
+          date_format: profile.date_format,
+          decimal_separator: profile.decimal_separator,
+          sign_convention: profile.sign_convention,
+          header_row_offset: profile.header_row_offset,
+          skip_rows_after_header: profile.skip_rows_after_header,
+          skip_footer_rows: profile.skip_footer_rows,
+        },
+        { onConflict: "bank_account_id" }
+      )
+      .select()
+      .single();
+
+    if (saveError) {
+      console.error("Error saving import profile:", saveError);
+      return NextResponse.json(
+        { error: saveError.message || "Failed to save import profile" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      profile: saved,
+    });
+  } catch (error: any) {
+    console.error("Import profile PUT error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/bank-accounts/[id]/import-profile
+ * Remove the saved profile; uploads fall back to automatic column detection
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const bankAccount = await getOwnedBankAccount(supabase, id, user.id);
+    if (!bankAccount) {
+      return NextResponse.json(
+        { error: "Bank account not found" },
+        { status: 404 }
+      );
+    }
+
+    const { error: deleteError } = await supabase
+      .from("bank_account_import_profiles")
+      .delete()
+      .eq("bank_account_id", id);
+
+    if (deleteError) {
+      console.error("Error deleting import profile:", deleteError);
+      return NextResponse.json(
+        { error: deleteError.message || "Failed to delete import profile" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error("Import profile DELETE error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
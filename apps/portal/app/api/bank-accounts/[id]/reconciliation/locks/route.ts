@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { getLockBlocker, loadBankBalanceReconciliation } from "@/lib/reconciliation/bank-balance";
+
+/**
+ * Verify the bank account belongs to the user; returns the account or null
+ */
+async function getOwnedBankAccount(supabase: any, id: string, userId: string) {
+  const { data, error } = await supabase
+    .from("bank_accounts")
+    .select("id, user_id")
+    .eq("id", id)
+    .eq("user_id", userId)
+    .single();
+
+  return error ? null : data;
+}
+
+/**
+ * POST /api/bank-accounts/[id]/reconciliation/locks
+ * Lock a reconciled period. Refused unless every statement in it reconciles without gaps.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const bankAccount = await getOwnedBankAccount(supabase, id, user.id);
+    if (!bankAccount) {
+      return NextResponse.json(
+        { error: "Bank account not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { period_start, period_end, notes } = body;
+
+    if (!period_start || !period_end || period_end < period_start) {
+      return NextResponse.json(
+        { error: "period_start and period_end are required and must form a valid range" },
+        { status: 400 }
+      );
+    }
+
+    const reconciliation = await loadBankBalanceReconciliation(supabase, id);
+    const blocker = getLockBlocker(reconciliation, period_start, period_end);
+
+    if (blocker) {
+      return NextResponse.json(
+        { error: blocker },
+        { status: 409 }
+      );
+    }
+
+    const inPeriod = reconciliation.statements.filter(
+      (r) => r.statement.period_start >= period_start && r.statement.period_end <= period_end
+    );
+    const first = inPeriod[0].statement;
+    const last = inPeriod[inPeriod.length - 1].statement;
+
+    const { data: lock, error: insertError } = await supabase
+      .from("bank_reconciliation_locks")
+      .insert({
+        bank_account_id: id,
+        user_id: user.id,
+        period_start,
+        period_end,
+        statement_metadata_id: inPeriod.length === 1 ? first.id : null,
+        opening_balance: first.opening_balance,
+        closing_balance: last.closing_balance,
+        notes: notes || null,
+        locked_by: user.id,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error("Error locking bank period:", insertError);
+      return NextResponse.json(
+        { error: "Failed to lock period" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      lock,
+    });
+  } catch (error: any) {
+    console.error("Bank reconciliation lock POST error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/bank-accounts/[id]/reconciliation/locks?lock_id=...
+ * Unlock a period so its transactions can be corrected
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const bankAccount = await getOwnedBankAccount(supabase, id, user.id);
+    if (!bankAccount) {
+      return NextResponse.json(
+        { error: "Bank account not found" },
+        { status: 404 }
+      );
+    }
+
+    const lockId = new URL(request.url).searchParams.get("lock_id");
+    if (!lockId) {
+      return NextResponse.json(
+        { error: "lock_id is required" },
+        { status: 400 }
+      );
+    }
+
+    const { data: deleted, error: deleteError } = await supabase
+      .from("bank_reconciliation_locks")
+      .delete()
+      .eq("id", lockId)
+      .eq("bank_account_id", id)
+      .select("id");
+
+    if (deleteError) {
+      console.error("Error unlocking bank period:", deleteError);
+      return NextResponse.json(
+        { error: "Failed to unlock period" },
+        { status: 500 }
+      );
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json(
+        { error: "Lock not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error("Bank reconciliation lock DELETE error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
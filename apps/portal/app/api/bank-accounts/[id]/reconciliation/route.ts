@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { loadBankBalanceReconciliation } from "@/lib/reconciliation/bank-balance";
+
+/**
+ * GET /api/bank-accounts/[id]/reconciliation
+ * Chains the account's statements by period and reconciles each against its transactions:
+ * gaps, overlaps, opening continuity, closing differences and the first divergent transaction
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { data: bankAccount } = await supabase
+      .from("bank_accounts")
+      .select("id, account_name")
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .single();
+
+    if (!bankAccount) {
+      return NextResponse.json(
+        { error: "Bank account not found" },
+        { status: 404 }
+      );
+    }
+
+    const reconciliation = await loadBankBalanceReconciliation(supabase, id);
+
+    return NextResponse.json({
+      success: true,
+      bank_account: bankAccount,
+      ...reconciliation,
+    });
+  } catch (error: any) {
+    console.error("Bank balance reconciliation GET error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
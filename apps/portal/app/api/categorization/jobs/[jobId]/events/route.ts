@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { getAccessibleBooksScope, scopeToBooks } from "@/lib/books/scope";
+import {
+  JOB_PROGRESS_COLUMNS,
+  isFinishedJobStatus,
+  toJobProgressEvent,
+} from "@/lib/jobs/progress";
+
+export const maxDuration = 300; // 5 minutes
+
+// How often the job row is checked for changes
+const CHECK_INTERVAL_MS = 1000;
+// Comment line sent while nothing changes, so proxies keep the connection open
+const KEEPALIVE_INTERVAL_MS = 15_000;
+// Close before maxDuration; EventSource reconnects and the stream starts again
+const STREAM_LIFETIME_MS = 270_000;
+
+/**
+ * GET /api/categorization/jobs/[jobId]/events
+ * Server-sent events for a job's progress
+ *
+ * Events:
+ *   - progress: JobProgressEvent, sent on connect and whenever the job's stage, status,
+ *     counts or error change
+ *   - done: the job has finished (ready for review, completed or failed); the stream closes
+ *
+ * Processing runs in the job queue worker, so changes reach this route through the job row,
+ * which it reads every second for the client instead of the client polling the job.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  const { jobId } = await params;
+  const scope = await getAccessibleBooksScope(supabase, user.id);
+
+  const loadJob = async () => {
+    const { data, error } = await scopeToBooks(
+      supabase
+        .from("categorization_jobs")
+        .select(JOB_PROGRESS_COLUMNS)
+        .eq("id", jobId),
+      scope
+    ).maybeSingle();
+    if (error) throw error;
+    return data;
+  };
+
+  const job = await loadJob();
+  if (!job) {
+    return NextResponse.json(
+      { error: "Job not found" },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const startedAt = Date.now();
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (text: string) => {
+        if (!closed) controller.enqueue(encoder.encode(text));
+      };
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client disconnecting
+        }
+      };
+      request.signal.addEventListener("abort", close);
+
+      send("retry: 2000\n\n");
+
+      let current = job;
+      let lastPayload = "";
+      let lastSentAt = 0;
+
+      while (!closed) {
+        const event = toJobProgressEvent(current);
+        // updated_at moves on every write; only what the client shows counts as a change
+        const payload = JSON.stringify({ ...event, updatedAt: undefined });
+        if (payload !== lastPayload) {
+          send(`event: progress\ndata: ${JSON.stringify(event)}\n\n`);
+          lastPayload = payload;
+          lastSentAt = Date.now();
+        } else if (Date.now() - lastSentAt >= KEEPALIVE_INTERVAL_MS) {
+          send(": keepalive\n\n");
+          lastSentAt = Date.now();
+        }
+
+        if (isFinishedJobStatus(event.status)) {
+          send(`event: done\ndata: ${JSON.stringify({ jobId, status: event.status })}\n\n`);
+          break;
+        }
+        if (Date.now() - startedAt >= STREAM_LIFETIME_MS) break;
+
+        await new Promise((resolve) => setTimeout(resolve, CHECK_INTERVAL_MS));
+        if (closed) break;
+
+        try {
+          const next = await loadJob();
+          if (!next) break; // Deleted
+          current = next;
+        } catch (error) {
+          // Keep the last known state; the next check may succeed
+          console.error(`Job ${jobId} progress check failed:`, error);
+        }
+      }
+
+      close();
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
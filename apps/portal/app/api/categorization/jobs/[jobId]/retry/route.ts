@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/database/server";
 import { createAdminClient } from "@/lib/database/admin-client";
+import { getJobsInClosedPeriods } from "@/lib/books/period-close";
+import { canEditCompanyProfile, getAccessibleBooksScope, scopeToBooks } from "@/lib/books/scope";
+import { runJobQueueInBackground } from "@/lib/jobs/worker";
+import { getQueueJobTypeForCategorizationJob } from "@tinadmin/core/job-queue";
+import { enqueueQueueJob } from "@tinadmin/core/job-queue/queue";
+
+export const maxDuration = 60;
 
 /**
  * POST /api/categorization/jobs/[jobId]/retry
@@ -23,13 +30,15 @@ export async function POST(
 
     const { jobId } = await params;
 
-    // Get job details - verify it belongs to user and is in failed state
-    const { data: job, error: jobError } = await supabase
-      .from("categorization_jobs")
-      .select("id, status, user_id, file_url, original_filename")
-      .eq("id", jobId)
-      .eq("user_id", user.id)
-      .single();
+    // Get job details - verify it is in the user's company books and in failed state
+    const scope = await getAccessibleBooksScope(supabase, user.id);
+    const { data: job, error: jobError } = await scopeToBooks(
+      supabase
+        .from("categorization_jobs")
+        .select("id, status, user_id, tenant_id, company_profile_id, job_type, file_url, original_filename")
+        .eq("id", jobId),
+      scope
+    ).single();
 
     if (jobError || !job) {
       return NextResponse.json(
@@ -38,6 +47,14 @@ export async function POST(
       );
     }
 
+    // The retry resets the job through the admin client, so viewers are turned away here
+    if (!(await canEditCompanyProfile(supabase, job.company_profile_id))) {
+      return NextResponse.json(
+        { error: "You do not have permission to retry this job" },
+        { status: 403 }
+      );
+    }
+
     if (job.status !== "failed") {
       return NextResponse.json(
         { error: `Cannot retry job with status '${job.status}'. Only failed jobs can be retried.` },
@@ -45,6 +62,15 @@ export async function POST(
       );
     }
 
+    // Retrying replaces the job's transactions, which a closed period does not allow
+    const closedJobs = await getJobsInClosedPeriods(supabase, [jobId]);
+    if (closedJobs.has(jobId)) {
+      return NextResponse.json(
+        { error: `This job has transactions in a closed period (books closed through ${closedJobs.get(jobId)})` },
+        { status: 409 }
+      );
+    }
+
     // Verify the file still exists
     if (job.file_url) {
       // Extract the file path from the public URL
@@ -61,7 +87,7 @@ export async function POST(
         const fileName = job.file_url.split("/").pop() || "";
         if (fileName) {
           // Decode URL-encoded filename
-          filePath = `${user.id}/${decodeURIComponent(fileName.split("?")[0])}`;
+          filePath = `${job.user_id}/${decodeURIComponent(fileName.split("?")[0])}`;
         }
       }
 
@@ -72,10 +98,10 @@ export async function POST(
           .download(filePath);
 
         if (downloadError || !fileData) {
-          // If download fails, try listing files in user's folder as fallback
+          // If download fails, try listing files in the uploader's folder as fallback
           const { data: files, error: listError } = await supabase.storage
             .from("categorization-uploads")
-            .list(user.id, {
+            .list(job.user_id, {
               limit: 100,
             });
 
@@ -97,7 +123,7 @@ export async function POST(
         }
       } else {
         // If we can't determine the file path, allow retry to proceed
-        // The background processor will handle the error if file is truly missing
+        // The queue worker will handle the error if file is truly missing
         console.warn(`Could not extract file path from URL: ${job.file_url}`);
       }
     }
@@ -127,10 +153,17 @@ export async function POST(
       .update({
         status: "queued",
         status_message: "Queued for retry processing...",
+        processing_stage: "uploaded",
         error_code: null,
         error_message: null,
         processed_items: 0,
         failed_items: 0,
+        // The transactions are gone, so a spreadsheet import starts again rather than resuming
+        rows_total: null,
+        rows_parsed: 0,
+        rows_categorized: 0,
+        rows_inserted: 0,
+        processing_checkpoint: null,
         started_at: null,
         completed_at: null,
       })
@@ -144,23 +177,47 @@ export async function POST(
       );
     }
 
-    // Trigger background processing
+    const queueJobType = getQueueJobTypeForCategorizationJob(job.job_type);
+    const payload: Record<string, unknown> = {};
+    if (queueJobType === "invoice_ocr") {
+      // Their transactions are gone, so every document is read again
+      await adminClient
+        .from("financial_documents")
+        .update({ ocr_status: "pending", ocr_error: null })
+        .eq("job_id", jobId)
+        .in("file_type", ["receipt", "invoice"]);
+    } else if (queueJobType === "bank_statement_pdf") {
+      const { data: document } = await adminClient
+        .from("financial_documents")
+        .select("id")
+        .eq("job_id", jobId)
+        .eq("file_type", "bank_statement")
+        .maybeSingle();
+      payload.document_id = document?.id;
+    }
+
     try {
-      fetch(`${request.nextUrl.origin}/api/background/process-spreadsheet`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Cookie: request.headers.get("cookie") || "",
-        },
-        body: JSON.stringify({ jobId }),
-      }).catch(err => {
-        console.error("Failed to trigger background processing:", err);
+      await enqueueQueueJob(adminClient, {
+        jobType: queueJobType,
+        categorizationJobId: jobId,
+        userId: user.id,
+        tenantId: job.tenant_id,
+        payload,
       });
-    } catch (triggerError) {
-      console.error("Failed to trigger background processing:", triggerError);
-      // Don't fail the request - the cron job will pick it up
+    } catch (queueError) {
+      console.error("Error queuing job for retry:", queueError);
+      await adminClient
+        .from("categorization_jobs")
+        .update({ status: "failed", status_message: "Failed to queue job for retry" })
+        .eq("id", jobId);
+      return NextResponse.json(
+        { error: "Failed to queue job for retry" },
+        { status: 500 }
+      );
     }
 
+    runJobQueueInBackground(adminClient, { timeBudgetMs: 40_000 });
+
     return NextResponse.json({
       success: true,
       message: "Job queued for retry",
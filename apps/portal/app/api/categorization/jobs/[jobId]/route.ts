@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/database/server";
 import { createAdminClient } from "@/lib/database/admin-client";
+import { getJobsInClosedPeriods } from "@/lib/books/period-close";
+import { canEditCompanyProfile, getAccessibleBooksScope, scopeToBooks } from "@/lib/books/scope";
 
 /**
  * OPTIONS /api/categorization/jobs/[jobId]
@@ -41,13 +43,15 @@ export async function GET(
 
     const { jobId } = await params;
 
-    // Get job details
-    const { data: job, error: jobError } = await supabase
-      .from("categorization_jobs")
-      .select("*")
-      .eq("id", jobId)
-      .eq("user_id", user.id)
-      .single();
+    // Get job details from any company books the user can access
+    const scope = await getAccessibleBooksScope(supabase, user.id);
+    const { data: job, error: jobError } = await scopeToBooks(
+      supabase
+        .from("categorization_jobs")
+        .select("*")
+        .eq("id", jobId),
+      scope
+    ).single();
 
     if (jobError || !job) {
       return NextResponse.json(
@@ -118,13 +122,15 @@ export async function DELETE(
 
     const { jobId } = await params;
 
-    // Verify job exists and belongs to the user
-    const { data: job, error: jobError } = await supabase
-      .from("categorization_jobs")
-      .select("id, user_id")
-      .eq("id", jobId)
-      .eq("user_id", user.id)
-      .single();
+    // Verify job exists in the user's company books
+    const scope = await getAccessibleBooksScope(supabase, user.id);
+    const { data: job, error: jobError } = await scopeToBooks(
+      supabase
+        .from("categorization_jobs")
+        .select("id, user_id, company_profile_id")
+        .eq("id", jobId),
+      scope
+    ).single();
 
     if (jobError || !job) {
       return NextResponse.json(
@@ -140,6 +146,36 @@ export async function DELETE(
       );
     }
 
+    // Deletes run through the admin client, so viewers are turned away here
+    if (!(await canEditCompanyProfile(supabase, job.company_profile_id))) {
+      return NextResponse.json(
+        { error: "You do not have permission to delete this job" },
+        {
+          status: 403,
+          headers: {
+            "Access-Control-Allow-Origin": "*",
+            "Access-Control-Allow-Methods": "GET, DELETE, OPTIONS",
+            "Access-Control-Allow-Headers": "Content-Type, Authorization",
+          },
+        }
+      );
+    }
+
+    const closedJobs = await getJobsInClosedPeriods(supabase, [jobId]);
+    if (closedJobs.has(jobId)) {
+      return NextResponse.json(
+        { error: `This job has transactions in a closed period (books closed through ${closedJobs.get(jobId)})` },
+        {
+          status: 409,
+          headers: {
+            "Access-Control-Allow-Origin": "*",
+            "Access-Control-Allow-Methods": "GET, DELETE, OPTIONS",
+            "Access-Control-Allow-Headers": "Content-Type, Authorization",
+          },
+        }
+      );
+    }
+
     // Fetch associated documents (to remove storage objects)
     const { data: documents, error: docsFetchError } = await supabase
       .from("financial_documents")
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/database/server";
 import { createAdminClient } from "@/lib/database/admin-client";
+import { canEditCompanyProfile, getAccessibleBooksScope, scopeToBooks } from "@/lib/books/scope";
 
 /**
  * OPTIONS /api/categorization/jobs/[jobId]/transactions
@@ -46,13 +47,15 @@ export async function DELETE(
     const { jobId } = await params;
     const documentId = request.nextUrl.searchParams.get("documentId");
 
-    // Verify job belongs to user
-    const { data: job, error: jobError } = await supabase
-      .from("categorization_jobs")
-      .select("id")
-      .eq("id", jobId)
-      .eq("user_id", user.id)
-      .single();
+    // Verify job is in the user's company books
+    const scope = await getAccessibleBooksScope(supabase, user.id);
+    const { data: job, error: jobError } = await scopeToBooks(
+      supabase
+        .from("categorization_jobs")
+        .select("id, company_profile_id")
+        .eq("id", jobId),
+      scope
+    ).single();
 
     if (jobError || !job) {
       return NextResponse.json(
@@ -61,8 +64,15 @@ export async function DELETE(
       );
     }
 
+    if (!(await canEditCompanyProfile(supabase, job.company_profile_id))) {
+      return NextResponse.json(
+        { error: "You do not have permission to delete these transactions" },
+        { status: 403 }
+      );
+    }
+
     // Use admin client so delete works even if categorized_transactions has restrictive RLS.
-    // Security is enforced above by verifying job ownership.
+    // Security is enforced above by verifying access to the job's company.
     const admin = createAdminClient();
 
     // Delete transactions for this job (optionally scoped to a single document_id)
@@ -131,13 +141,15 @@ export async function GET(
 
     const { jobId } = await params;
 
-    // Verify job belongs to user
-    const { data: job, error: jobError } = await supabase
-      .from("categorization_jobs")
-      .select("id")
-      .eq("id", jobId)
-      .eq("user_id", user.id)
-      .single();
+    // Verify job is in the user's company books
+    const scope = await getAccessibleBooksScope(supabase, user.id);
+    const { data: job, error: jobError } = await scopeToBooks(
+      supabase
+        .from("categorization_jobs")
+        .select("id")
+        .eq("id", jobId),
+      scope
+    ).single();
 
     if (jobError || !job) {
       return NextResponse.json(
@@ -155,8 +167,8 @@ export async function GET(
 
     // Get transactions with related document and supplier info
     // NOTE: Using admin client to bypass RLS issue - the SELECT RLS policy seems to have
-    // issues with the EXISTS subquery even though the job ownership is verified.
-    // Security is still enforced above via job ownership verification.
+    // issues with the EXISTS subquery even though access to the job is verified.
+    // Security is still enforced above via the job's company books.
     const adminClientForQuery = createAdminClient();    // Get transactions
     const { data: transactions, error: transactionsError } = await adminClientForQuery
       .from("categorized_transactions")
@@ -190,7 +202,9 @@ export async function GET(
           "order_number",
           "document_date",
           "delivery_date",
+          "due_date",
           "paid_date",
+          "document_kind",
           "total_amount",
           "tax_amount",
           "subtotal_amount",
@@ -302,9 +316,29 @@ export async function GET(
       );
     }
 
+    // Rule hit statistics for this job
+    const ruleHits = new Map<string, number>();
+    for (const tx of transactions || []) {
+      if (tx.applied_rule_id) {
+        ruleHits.set(tx.applied_rule_id, (ruleHits.get(tx.applied_rule_id) || 0) + 1);
+      }
+    }
+    let ruleStats: Array<{ rule_id: string; name: string; hits: number }> = [];
+    if (ruleHits.size > 0) {
+      const { data: rules } = await adminClientForQuery
+        .from("categorization_rules")
+        .select("id, name")
+        .in("id", Array.from(ruleHits.keys()));
+      const namesById = new Map((rules || []).map((r: any) => [r.id, r.name]));
+      ruleStats = Array.from(ruleHits.entries())
+        .map(([ruleId, hits]) => ({ rule_id: ruleId, name: namesById.get(ruleId) || "Deleted rule", hits }))
+        .sort((a, b) => b.hits - a.hits);
+    }
+
     return NextResponse.json({
       success: true,
       transactions: transactions || [],
+      rule_stats: ruleStats,
     }, {
       status: 200,
       headers: {
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/database/server";
 import { createAdminClient } from "@/lib/database/admin-client";
+import { getJobsInClosedPeriods } from "@/lib/books/period-close";
+import { getAccessibleBooksScope, getEditableCompanyProfileIds, scopeToBooks } from "@/lib/books/scope";
 
 /**
  * POST /api/categorization/jobs/bulk-delete
@@ -28,12 +30,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Verify all jobs exist and belong to user
-    const { data: jobs, error: jobsError } = await supabase
-      .from("categorization_jobs")
-      .select("id, user_id")
-      .in("id", jobIds)
-      .eq("user_id", user.id);
+    // Verify the jobs exist in company books the user can access
+    const scope = await getAccessibleBooksScope(supabase, user.id);
+    const { data: scopedJobs, error: jobsError } = await scopeToBooks(
+      supabase
+        .from("categorization_jobs")
+        .select("id, user_id, company_profile_id")
+        .in("id", jobIds),
+      scope
+    );
 
     if (jobsError) {
       console.error("Error fetching jobs:", jobsError);
@@ -43,14 +48,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!jobs || jobs.length === 0) {
+    // Deletes run through the admin client, so only jobs in books the user can edit
+    const editable = await getEditableCompanyProfileIds(
+      supabase,
+      (scopedJobs || []).map((j: any) => j.company_profile_id)
+    );
+    const jobs: Array<{ id: string }> = (scopedJobs || []).filter((j: any) => editable.has(j.company_profile_id));
+
+    if (jobs.length === 0) {
       return NextResponse.json(
         { error: "No valid jobs found" },
         { status: 404 }
       );
     }
 
-    const validJobIds = jobs.map(j => j.id);
+    // Jobs with transactions or documents in a closed period stay put
+    const closedJobs = await getJobsInClosedPeriods(supabase, jobs.map(j => j.id));
+    const validJobIds = jobs.map(j => j.id).filter(id => !closedJobs.has(id));
 
     // Get associated financial_documents to find storage paths
     const { data: documents } = await supabase
@@ -125,9 +139,12 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      message: `Deleted ${deletedCount} job(s)${errorCount > 0 ? `, ${errorCount} failed` : ''}`,
+      message:
+        `Deleted ${deletedCount} job(s)${errorCount > 0 ? `, ${errorCount} failed` : ''}` +
+        `${closedJobs.size > 0 ? `, ${closedJobs.size} skipped (closed period)` : ''}`,
       deletedCount,
       errorCount,
+      lockedJobIds: Array.from(closedJobs.keys()),
     });
   } catch (error: any) {
     console.error("Bulk delete error:", error);
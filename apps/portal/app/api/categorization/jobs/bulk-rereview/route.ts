@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/database/server";
 import { processSpreadsheetFile } from "@/lib/categorization/process-spreadsheet";
+import { getJobsInClosedPeriods } from "@/lib/books/period-close";
+import { getAccessibleBooksScope, getEditableCompanyProfileIds, scopeToBooks } from "@/lib/books/scope";
 
 /**
  * POST /api/categorization/jobs/bulk-rereview
@@ -28,12 +30,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Verify all jobs exist and belong to user
-    const { data: jobs, error: jobsError } = await supabase
-      .from("categorization_jobs")
-      .select("id, user_id, job_type, file_url, status")
-      .in("id", jobIds)
-      .eq("user_id", user.id);
+    // Verify the jobs exist in company books the user can access
+    const scope = await getAccessibleBooksScope(supabase, user.id);
+    const { data: scopedJobs, error: jobsError } = await scopeToBooks(
+      supabase
+        .from("categorization_jobs")
+        .select("id, user_id, company_profile_id, job_type, file_url, status")
+        .in("id", jobIds),
+      scope
+    );
 
     if (jobsError) {
       console.error("Error fetching jobs:", jobsError);
@@ -43,14 +48,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!jobs || jobs.length === 0) {
+    // Re-processing rewrites the job's transactions, so only jobs in books the user can edit
+    const editable = await getEditableCompanyProfileIds(
+      supabase,
+      (scopedJobs || []).map((j: any) => j.company_profile_id)
+    );
+    const jobs: Array<{ id: string; user_id: string; job_type: string; file_url: string | null }> =
+      (scopedJobs || []).filter((j: any) => editable.has(j.company_profile_id));
+
+    if (jobs.length === 0) {
       return NextResponse.json(
         { error: "No valid jobs found" },
         { status: 404 }
       );
     }
 
-    const validJobIds = jobs.map(j => j.id);
+    // Re-processing deletes and re-inserts transactions, which closed periods do not allow
+    const closedJobs = await getJobsInClosedPeriods(supabase, jobs.map(j => j.id));
     let processedCount = 0;
     let errorCount = 0;
     const errors: string[] = [];
@@ -58,6 +72,12 @@ export async function POST(request: NextRequest) {
     // Process each job
     for (const job of jobs) {
       try {
+        if (closedJobs.has(job.id)) {
+          errors.push(`Job ${job.id}: Books are closed through ${closedJobs.get(job.id)}`);
+          errorCount++;
+          continue;
+        }
+
         // Only process spreadsheet jobs for now
         if (job.job_type !== 'spreadsheet') {
           errors.push(`Job ${job.id}: Only spreadsheet jobs can be re-reviewed`);
@@ -83,9 +103,9 @@ export async function POST(request: NextRequest) {
           })
           .eq("id", job.id);
 
-        // Download file from Supabase Storage
+        // Download file from Supabase Storage (stored under the uploader's folder)
         const fileName = job.file_url.split("/").pop() || "";
-        const filePath = `${user.id}/${fileName.split("-").slice(1).join("-")}`;
+        const filePath = `${job.user_id}/${fileName.split("-").slice(1).join("-")}`;
         
         const { data: fileData, error: downloadError } = await supabase.storage
           .from("categorization-uploads")
@@ -134,6 +154,7 @@ export async function POST(request: NextRequest) {
           .from("categorization_jobs")
           .update({
             status: "reviewing",
+            processing_stage: "done",
             processed_items: result.transactionCount || 0,
             completed_at: new Date().toISOString(),
           })
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/database/server";
+import { getBooksScope, scopeToBooks } from "@/lib/books/scope";
 
 /**
  * OPTIONS /api/categorization/jobs
@@ -18,7 +19,7 @@ export async function OPTIONS() {
 
 /**
  * GET /api/categorization/jobs
- * List all categorization jobs for the current user with optional filters
+ * List the categorization jobs in the user's company books with optional filters
  * Query params:
  *  - status: filter by status (uploaded, processing, completed, failed)
  *  - job_type: filter by type (spreadsheet, invoice, batch_invoice)
@@ -58,8 +59,11 @@ export async function GET(request: NextRequest) {
     const limit = Math.min(parseInt(searchParams.get("limit") || "50"), 100);
     const offset = parseInt(searchParams.get("offset") || "0");
 
+    // Jobs belong to the company's books, so colleagues see each other's uploads
+    const scope = await getBooksScope(supabase, user.id);
+
     // Build query with all columns including bank account info
-    let query = supabase
+    let query = scopeToBooks(supabase
       .from("categorization_jobs")
       .select(`
         id,
@@ -72,6 +76,11 @@ export async function GET(request: NextRequest) {
         total_items,
         processed_items,
         failed_items,
+        rows_total,
+        rows_parsed,
+        rows_categorized,
+        rows_inserted,
+        status_message,
         error_message,
         created_at,
         updated_at,
@@ -81,8 +90,7 @@ export async function GET(request: NextRequest) {
         spreadsheet_id,
         spreadsheet_tab_id,
         bank_account:bank_accounts(id, account_name, bank_name, account_type)
-      `)
-      .eq("user_id", user.id)
+      `), scope)
       .order("created_at", { ascending: false });
 
     // Apply filters
@@ -118,7 +126,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Get financial documents for these jobs to include storage info
-    const jobIds = jobs?.map(j => j.id) || [];
+    const jobIds = jobs?.map((j: any) => j.id) || [];
     let documents = null;
     if (jobIds.length > 0) {      const { data: docs } = await supabase
         .from("financial_documents")
@@ -141,7 +149,7 @@ export async function GET(request: NextRequest) {
     });
 
     // Enhance jobs with storage info
-    const enhancedJobs = jobs?.map(job => {
+    const enhancedJobs = jobs?.map((job: any) => {
       const jobDocs = docMap.get(job.id) || [];
       const storageTiers = jobDocs.map((d: any) => d.storage_tier);
       const totalSize = jobDocs.reduce((sum: number, d: any) => sum + (d.file_size_bytes || 0), 0);
@@ -161,10 +169,12 @@ export async function GET(request: NextRequest) {
     });
 
     // Get total count for pagination
-    const { count } = await supabase
-      .from("categorization_jobs")
-      .select("id", { count: "exact", head: true })
-      .eq("user_id", user.id);
+    const { count } = await scopeToBooks(
+      supabase
+        .from("categorization_jobs")
+        .select("id", { count: "exact", head: true }),
+      scope
+    );
 
     return NextResponse.json({
       success: true,
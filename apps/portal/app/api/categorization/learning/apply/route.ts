@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { createAdminClient } from "@/lib/database/admin-client";
+import {
+  applyCategoryToTransactions,
+  createLearnedMapping,
+  createLearnedRule,
+  findSimilarTransactions,
+} from "@/lib/categorization/learning";
+import { getBooksScope, getEditableCompanyProfileIds } from "@/lib/books/scope";
+
+/**
+ * POST: Accept a learning suggestion.
+ * Body: { merchant_key, category, subcategory?, create?: 'rule' | 'mapping' | 'none', apply_to_similar?: boolean }
+ * Optionally creates the learned rule or mapping, and re-categorizes similar unconfirmed transactions.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const merchantKey = typeof body.merchant_key === "string" ? body.merchant_key.trim() : "";
+    const category = typeof body.category === "string" ? body.category.trim() : "";
+    const subcategory = body.subcategory ? String(body.subcategory) : null;
+    const create = body.create || "rule";
+
+    if (!merchantKey || !category) {
+      return NextResponse.json(
+        { error: "merchant_key and category are required" },
+        { status: 400 }
+      );
+    }
+    if (!['rule', 'mapping', 'none'].includes(create)) {
+      return NextResponse.json(
+        { error: "create must be 'rule', 'mapping' or 'none'" },
+        { status: 400 }
+      );
+    }
+
+    let ruleId: string | null = null;
+    let mappingId: string | null = null;
+    if (create === "rule") {
+      ruleId = await createLearnedRule(supabase, user.id, merchantKey, category, subcategory);
+    } else if (create === "mapping") {
+      mappingId = await createLearnedMapping(supabase, user.id, merchantKey, category, subcategory);
+    }
+
+    let appliedCount = 0;
+    if (body.apply_to_similar) {
+      // Admin client for the bulk update and ledger re-post; candidates are scoped to the company
+      // books the user can edit
+      const scope = await getBooksScope(supabase, user.id);
+      const editable = await getEditableCompanyProfileIds(supabase, scope.companyProfileIds);
+      const admin = createAdminClient();
+      const similar = await findSimilarTransactions(
+        admin,
+        { userId: user.id, companyProfileIds: Array.from(editable) },
+        merchantKey,
+        category,
+        subcategory
+      );
+      appliedCount = await applyCategoryToTransactions(admin, user.id, similar, category, subcategory, ruleId);
+    }
+
+    return NextResponse.json({
+      success: true,
+      rule_id: ruleId,
+      mapping_id: mappingId,
+      applied_count: appliedCount,
+    });
+  } catch (error: any) {
+    console.error("Apply learning suggestion error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { getLearningSettings } from "@/lib/categorization/learning";
+
+/**
+ * GET: Learning settings and learned rules, with how much manual review each one saved
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const settings = await getLearningSettings(supabase, user.id);
+
+    const { data: rules, error } = await supabase
+      .from("categorization_rules")
+      .select("id, name, learned_merchant_key, actions, is_active, hit_count, override_count, last_matched_at, created_at")
+      .eq("user_id", user.id)
+      .eq("source", "learned")
+      .order("hit_count", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching learned rules:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch learned rules" },
+        { status: 500 }
+      );
+    }
+
+    // Every hit the user did not have to override is a transaction they did not re-categorize by hand
+    const learnedRules = (rules || []).map((rule: any) => ({
+      ...rule,
+      reviews_saved: Math.max((rule.hit_count || 0) - (rule.override_count || 0), 0),
+    }));
+
+    return NextResponse.json({
+      success: true,
+      settings,
+      learned_rules: learnedRules,
+      total_reviews_saved: learnedRules.reduce((sum: number, rule: any) => sum + rule.reviews_saved, 0),
+    });
+  } catch (error: any) {
+    console.error("Categorization learning GET error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT: Update learning settings ({ correction_threshold, auto_create })
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const current = await getLearningSettings(supabase, user.id);
+
+    const threshold = body.correction_threshold === undefined
+      ? current.correction_threshold
+      : Number(body.correction_threshold);
+    if (!Number.isInteger(threshold) || threshold < 2 || threshold > 20) {
+      return NextResponse.json(
+        { error: "correction_threshold must be a whole number between 2 and 20" },
+        { status: 400 }
+      );
+    }
+
+    const autoCreate = body.auto_create === undefined ? current.auto_create : body.auto_create;
+    if (!['off', 'rule', 'mapping'].includes(autoCreate)) {
+      return NextResponse.json(
+        { error: "auto_create must be 'off', 'rule' or 'mapping'" },
+        { status: 400 }
+      );
+    }
+
+    const { data: settings, error } = await supabase
+      .from("categorization_learning_settings")
+      .upsert({
+        user_id: user.id,
+        correction_threshold: threshold,
+        auto_create: autoCreate,
+      }, {
+        onConflict: "user_id",
+      })
+      .select("correction_threshold, auto_create")
+      .single();
+
+    if (error) {
+      console.error("Error saving learning settings:", error);
+      return NextResponse.json(
+        { error: error.message || "Failed to save settings" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      settings,
+    });
+  } catch (error: any) {
+    console.error("Categorization learning PUT error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
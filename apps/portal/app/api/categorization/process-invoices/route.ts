@@ -299,7 +299,6 @@ async function categorizeInvoiceTransactions(
     try {
       const { AICategorizationFactory } = await import("@/lib/ai/AICategorizationFactory");
       const { VercelAICategorizationService } = await import("@/lib/ai/VercelAICategorizationService");
-      const provider = AICategorizationFactory.getDefaultProvider();
       
       // Get company profile ID if available
       const { data: companyProfile } = await supabase
@@ -325,8 +324,9 @@ async function categorizeInvoiceTransactions(
         subcategory: m.subcategory || undefined,
       }));
       
-      const aiService = AICategorizationFactory.create(
-        provider,
+      const aiService = await AICategorizationFactory.createForUser(
+        supabase,
+        userId,
         userMappings,
         aiInstructions,
         companyProfileId
@@ -475,17 +475,11 @@ async function reconcileInvoiceAfterProcessing(
     let matchedCount = 0;
 
     // 1. Try to match invoice document with existing bank transactions
-    // Search across ALL account types (remove account filter)
+    // Search across ALL account types in the invoice's company books
     const { data: transactions, error: txError } = await supabase
       .from("categorized_transactions")
-      .select(`
-        *,
-        job:categorization_jobs!inner(
-          id,
-          user_id
-        )
-      `)
-      .eq("job.user_id", userId)
+      .select("*")
+      .eq("company_profile_id", invoiceDoc.company_profile_id)
       .eq("reconciliation_status", "unreconciled")
       .is("matched_document_id", null)
       .neq("id", invoiceTransactionIds[0] || "") // Exclude transactions we just created
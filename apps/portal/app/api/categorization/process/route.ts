@@ -94,6 +94,7 @@ export async function POST(request: NextRequest) {
       .from("categorization_jobs")
       .update({
         status: "reviewing",
+        processing_stage: "done",
         processed_items: result.transactionCount || 0,
         completed_at: new Date().toISOString(),
       })
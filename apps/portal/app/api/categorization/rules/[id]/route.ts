@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { validateRule } from "@/lib/categorization/rule-engine";
+
+/**
+ * PATCH: Update a categorization rule.
+ * Accepts a full rule, or just { priority } / { is_active } for reordering and toggling.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from("categorization_rules")
+      .select("*")
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .single();
+
+    if (fetchError || !existing) {
+      return NextResponse.json(
+        { error: "Rule not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { rule, error: validationError } = validateRule({
+      name: existing.name,
+      description: existing.description,
+      priority: existing.priority,
+      is_active: existing.is_active,
+      conditions: existing.conditions,
+      actions: existing.actions,
+      ...body,
+    });
+    if (!rule) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const { data: updated, error } = await supabase
+      .from("categorization_rules")
+      .update(rule)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error updating categorization rule:", error);
+      return NextResponse.json(
+        { error: error.message || "Failed to update rule" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      rule: updated,
+    });
+  } catch (error: any) {
+    console.error("Categorization rule PATCH error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE: Delete a categorization rule. Transactions it categorized keep their values.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { error } = await supabase
+      .from("categorization_rules")
+      .delete()
+      .eq("id", id)
+      .eq("user_id", user.id);
+
+    if (error) {
+      console.error("Error deleting categorization rule:", error);
+      return NextResponse.json(
+        { error: error.message || "Failed to delete rule" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error("Categorization rule DELETE error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { validateRule } from "@/lib/categorization/rule-engine";
+
+/**
+ * GET: List the user's categorization rules in evaluation order, with hit statistics
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { data: rules, error } = await supabase
+      .from("categorization_rules")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("priority", { ascending: true })
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching categorization rules:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch rules" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      rules: rules || [],
+    });
+  } catch (error: any) {
+    console.error("Categorization rules GET error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST: Create a categorization rule
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { rule, error: validationError } = validateRule(body);
+    if (!rule) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const { data: userData } = await supabase
+      .from("users")
+      .select("tenant_id")
+      .eq("id", user.id)
+      .single();
+
+    const { data: created, error } = await supabase
+      .from("categorization_rules")
+      .insert({
+        ...rule,
+        user_id: user.id,
+        tenant_id: userData?.tenant_id || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating categorization rule:", error);
+      return NextResponse.json(
+        { error: error.message || "Failed to create rule" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      rule: created,
+    });
+  } catch (error: any) {
+    console.error("Categorization rules POST error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
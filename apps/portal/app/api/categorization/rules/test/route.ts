@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { getBooksScope, scopeToBooks } from "@/lib/books/scope";
+import {
+  findMatchingRule,
+  loadActiveRules,
+  ruleMatches,
+  validateRule,
+  type CategorizationRule,
+} from "@/lib/categorization/rule-engine";
+
+const DEFAULT_TEST_LIMIT = 500;
+const MAX_TEST_LIMIT = 2000;
+const SAMPLE_SIZE = 50;
+
+/**
+ * POST: Test a rule against past transactions in the user's books without changing anything.
+ * Body: { rule } for an unsaved rule, or { ruleId } for a saved one; optional { limit, companyProfileId }.
+ * Reports how many transactions match, how many would change category, and how many
+ * are already claimed by a higher-priority rule.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const limit = Math.min(Math.max(Number(body.limit) || DEFAULT_TEST_LIMIT, 1), MAX_TEST_LIMIT);
+
+    let rule: CategorizationRule;
+    if (body.ruleId) {
+      const { data: saved } = await supabase
+        .from("categorization_rules")
+        .select("id, name, priority, is_active, conditions, actions")
+        .eq("id", body.ruleId)
+        .eq("user_id", user.id)
+        .single();
+
+      if (!saved) {
+        return NextResponse.json(
+          { error: "Rule not found" },
+          { status: 404 }
+        );
+      }
+      rule = saved;
+    } else {
+      const { rule: validated, error: validationError } = validateRule(body.rule);
+      if (!validated) {
+        return NextResponse.json(
+          { error: validationError },
+          { status: 400 }
+        );
+      }
+      rule = { ...validated, id: "unsaved", is_active: true };
+    }
+
+    const scope = await getBooksScope(supabase, user.id, body.companyProfileId);
+    const { data: transactions, error: txError } = await scopeToBooks(
+      supabase
+        .from("categorized_transactions")
+        .select("id, date, amount, is_debit, original_description, payee_name, payer_name, merchant_category_code, bank_account_id, category, subcategory, applied_rule_id"),
+      scope
+    )
+      .order("date", { ascending: false })
+      .limit(limit);
+
+    if (txError) {
+      console.error("Error fetching transactions for rule test:", txError);
+      return NextResponse.json(
+        { error: "Failed to fetch transactions" },
+        { status: 500 }
+      );
+    }
+
+    const higherPriorityRules = (await loadActiveRules(supabase, user.id)).filter(
+      (other) => other.id !== rule.id && other.priority < rule.priority
+    );
+
+    let matchedCount = 0;
+    let wouldChangeCount = 0;
+    let shadowedCount = 0;
+    const samples: any[] = [];
+
+    for (const tx of transactions || []) {
+      const ruleTx = { ...tx, description: tx.original_description };
+      if (!ruleMatches(rule, ruleTx)) continue;
+      matchedCount++;
+
+      const shadowedBy = findMatchingRule(higherPriorityRules, ruleTx);
+      if (shadowedBy) shadowedCount++;
+
+      const proposedCategory = rule.actions.category || tx.category;
+      const proposedSubcategory = rule.actions.category ? rule.actions.subcategory || null : tx.subcategory;
+      const wouldChange =
+        !shadowedBy &&
+        (proposedCategory !== tx.category || (proposedSubcategory || null) !== (tx.subcategory || null));
+      if (wouldChange) wouldChangeCount++;
+
+      if (samples.length < SAMPLE_SIZE) {
+        samples.push({
+          id: tx.id,
+          date: tx.date,
+          description: tx.original_description,
+          amount: tx.amount,
+          is_debit: tx.is_debit,
+          current_category: tx.category,
+          current_subcategory: tx.subcategory,
+          proposed_category: proposedCategory,
+          proposed_subcategory: proposedSubcategory,
+          would_change: wouldChange,
+          shadowed_by: shadowedBy ? { id: shadowedBy.id, name: shadowedBy.name } : null,
+        });
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      tested_count: transactions?.length || 0,
+      matched_count: matchedCount,
+      would_change_count: wouldChangeCount,
+      shadowed_count: shadowedCount,
+      samples,
+    });
+  } catch (error: any) {
+    console.error("Rule test error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -5,6 +5,10 @@ import { createAdminClient } from "@/lib/database/admin-client";
 import { createTenantGoogleClientsForRequestUser } from "@/lib/google-sheets/tenant-clients";
 import { ensureAllTransactionsSchema } from "@/lib/google-sheets/master-spreadsheet";
 import { generateTransactionFingerprint } from "@/lib/sync/fingerprint";
+import { getBooksClosedThroughByCompany, isDateClosed } from "@/lib/books/period-close";
+import { auditContext } from "@/lib/books/change-log";
+import { postTransactionsToLedger } from "@/lib/ledger/journal";
+import { canEditCompanyProfile, getAccessibleBooksScope, scopeToBooks } from "@/lib/books/scope";
 
 type PullResult = {
   success: boolean;
@@ -14,6 +18,8 @@ type PullResult = {
   rowsUpdated: number;
   rowsInserted: number;
   rowsSkipped: number;
+  /** Edited rows left alone because they fall in a closed period */
+  rowsLocked: number;
   message?: string;
 };
 
@@ -87,6 +93,7 @@ function parseStatus(value: unknown): boolean {
  *  sheet_modified_at > portal_modified_at
  *
  * After applying, clears sheet_modified_at/by and stamps portal_modified_at, and refreshes the fingerprint cell.
+ * Rows dated in a closed period (before or after the edit) are not applied and keep their stamps.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -102,25 +109,34 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "jobId is required" }, { status: 400 });
     }
 
-    // Verify job belongs to user and locate spreadsheet
-    const { data: job, error: jobError } = await supabase
-      .from("categorization_jobs")
-      .select("id, user_id, spreadsheet_id, bank_account_id")
-      .eq("id", jobId)
-      .eq("user_id", user.id)
-      .single();
+    // Verify job is in the user's company books and locate spreadsheet
+    const scope = await getAccessibleBooksScope(supabase, user.id);
+    const { data: job, error: jobError } = await scopeToBooks(
+      supabase
+        .from("categorization_jobs")
+        .select("id, user_id, spreadsheet_id, bank_account_id, company_profile_id")
+        .eq("id", jobId),
+      scope
+    ).single();
 
     if (jobError || !job) {
       return NextResponse.json({ error: "Job not found" }, { status: 404 });
     }
 
+    // Sheet edits are written through the admin client, so viewers are turned away here
+    if (!(await canEditCompanyProfile(supabase, job.company_profile_id))) {
+      return NextResponse.json(
+        { error: "You do not have permission to change these books" },
+        { status: 403 }
+      );
+    }
+
     let spreadsheetId: string | null = job.spreadsheet_id || null;
     if (!spreadsheetId && job.bank_account_id) {
       const { data: bankAccount } = await supabase
         .from("bank_accounts")
         .select("default_spreadsheet_id")
         .eq("id", job.bank_account_id)
-        .eq("user_id", user.id)
         .single();
       spreadsheetId = bankAccount?.default_spreadsheet_id || null;
     }
@@ -156,6 +172,7 @@ export async function POST(request: NextRequest) {
         rowsUpdated: 0,
         rowsInserted: 0,
         rowsSkipped: 0,
+        rowsLocked: 0,
         message: "No rows found to sync",
       };
       return NextResponse.json(result);
@@ -169,6 +186,12 @@ export async function POST(request: NextRequest) {
     let rowsUpdated = 0;
     let rowsInserted = 0;
     let rowsSkipped = 0;
+    let rowsLocked = 0;
+    const lockedRows = new Set<number>();
+    // Rows naming a transaction outside the job's company books
+    const unknownRows = new Set<number>();
+    // Transactions updated or inserted from the sheet, for the ledger re-post
+    const changedTransactionIds: string[] = [];
 
     // For batch DB updates, gather per-row instructions
     const updates: Array<{
@@ -236,6 +259,7 @@ export async function POST(request: NextRequest) {
             last_modified_source: "google_sheets",
             last_synced_at: nowIso,
             sync_status: "synced",
+            ...auditContext("sheets", user.id),
           },
         });
       } else {
@@ -258,6 +282,7 @@ export async function POST(request: NextRequest) {
             sync_status: "synced",
             sync_version: 1,
             transaction_fingerprint: fingerprint,
+            ...auditContext("sheets", user.id),
           },
         });
       }
@@ -265,23 +290,45 @@ export async function POST(request: NextRequest) {
 
     // Apply DB updates (best-effort; keep going)
     // Note: we also bump sync_version by fetching current values first to avoid relying on triggers.
+    // Only transactions in the job's company books are touched, whatever ids the sheet carries.
     if (updates.length > 0) {
       const ids = updates.map((u) => u.transactionId);
       const { data: existing, error: existingErr } = await admin
         .from("categorized_transactions")
-        .select("id, sync_version")
-        .in("id", ids);
+        .select("id, sync_version, company_profile_id, date")
+        .in("id", ids)
+        .eq("company_profile_id", job.company_profile_id);
 
       const versionById = new Map<string, number>();
+      const existingById = new Map<string, any>();
       (existing || []).forEach((t: any) => {
         versionById.set(t.id, typeof t.sync_version === "number" ? t.sync_version : 1);
+        existingById.set(t.id, t);
       });
 
+      const closedThroughByCompany = await getBooksClosedThroughByCompany(
+        admin,
+        (existing || []).map((t: any) => t.company_profile_id)
+      );
+
       if (existingErr) {
         console.warn("Pull sync: failed to fetch sync_version; continuing without bump.", existingErr);
       }
 
       for (const u of updates) {
+        const current = existingById.get(u.transactionId);
+        if (!current) {
+          unknownRows.add(u.rowNumber);
+          rowsSkipped++;
+          continue;
+        }
+        const closedThrough = current ? closedThroughByCompany.get(current.company_profile_id) : null;
+        if (isDateClosed(current?.date, closedThrough) || isDateClosed(u.payload.date as string, closedThrough)) {
+          lockedRows.add(u.rowNumber);
+          rowsLocked++;
+          continue;
+        }
+
         const currentVersion = versionById.get(u.transactionId) ?? 1;
         const payloadWithVersion = {
           ...u.payload,
@@ -294,14 +341,28 @@ export async function POST(request: NextRequest) {
           .update(payloadWithVersion)
           .eq("id", u.transactionId);
 
-        if (!updErr) rowsUpdated++;
+        if (!updErr) {
+          rowsUpdated++;
+          changedTransactionIds.push(u.transactionId);
+        }
       }
     }
 
     // Inserts: batch insert and capture generated IDs
     const insertedIdsByRow = new Map<number, string>();
-    if (inserts.length > 0) {
-      const insertPayloads = inserts.map((i) => i.payload);
+    if (inserts.length > 0 && job.company_profile_id) {
+      const closedThrough = (await getBooksClosedThroughByCompany(admin, [job.company_profile_id]))
+        .get(job.company_profile_id);
+      for (const ins of inserts) {
+        if (isDateClosed(ins.payload.date as string, closedThrough)) {
+          lockedRows.add(ins.rowNumber);
+          rowsLocked++;
+        }
+      }
+    }
+    const openInserts = inserts.filter((i) => !lockedRows.has(i.rowNumber));
+    if (openInserts.length > 0) {
+      const insertPayloads = openInserts.map((i) => i.payload);
       const { data: inserted, error: insErr } = await admin
         .from("categorized_transactions")
         .insert(insertPayloads as any)
@@ -310,18 +371,34 @@ export async function POST(request: NextRequest) {
       if (!insErr && inserted) {
         // Supabase returns inserted rows in order; map back to rowNumber
         for (let idx = 0; idx < inserted.length; idx++) {
-          const rowNumber = inserts[idx].rowNumber;
+          const rowNumber = openInserts[idx].rowNumber;
           insertedIdsByRow.set(rowNumber, (inserted[idx] as any).id);
+          changedTransactionIds.push((inserted[idx] as any).id);
           rowsInserted++;
         }
       }
     }
 
+    // Re-post what the sheet changed so the ledger follows its categories and amounts (voids the
+    // previous entries)
+    if (changedTransactionIds.length > 0 && job.company_profile_id) {
+      try {
+        const posting = await postTransactionsToLedger(admin, job.company_profile_id, changedTransactionIds, user.id);
+        if (posting.errors.length > 0) {
+          console.warn(`Pull sync: ${posting.errors.length} transaction(s) could not be posted to the ledger`);
+        }
+      } catch (ledgerError) {
+        console.error("Pull sync: ledger re-post error:", ledgerError);
+        // Don't fail the pull if ledger posting fails; it can be re-run from /api/ledger/post
+      }
+    }
+
     // Update sheet stamps and transaction IDs / fingerprint for processed rows
     const cellUpdates: Array<{ range: string; values: any[][] }> = [];
 
     // For updated rows
     for (const u of updates) {
+      if (lockedRows.has(u.rowNumber) || unknownRows.has(u.rowNumber)) continue;
       // Update fingerprint (I), transaction_id (J - keep), portal_modified_at (K), clear L/M
       cellUpdates.push({
         range: `'${ALL_TRANSACTIONS_TAB}'!I${u.rowNumber}:M${u.rowNumber}`,
@@ -357,7 +434,10 @@ export async function POST(request: NextRequest) {
       rowsUpdated,
       rowsInserted,
       rowsSkipped,
-      message: "Pull sync completed",
+      rowsLocked,
+      message: rowsLocked > 0
+        ? `Pull sync completed; ${rowsLocked} row(s) in a closed period were not applied`
+        : "Pull sync completed",
     };
     return NextResponse.json(result);
   } catch (error: any) {
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/database/server";
+import { learnFromCorrection, type LearningSuggestion } from "@/lib/categorization/learning";
+import { REVIEW_SKIP_MESSAGES, transitionTransactionReview } from "@/lib/review/workflow";
 
 export async function POST(
   request: NextRequest,
@@ -18,10 +20,10 @@ export async function POST(
 
     const { id } = await params;
 
-    // Verify transaction belongs to user's job
+    // RLS limits this to transactions in books the user can access
     const { data: transaction, error: txError } = await supabase
       .from("categorized_transactions")
-      .select("job_id")
+      .select("job_id, company_profile_id, original_description, category, subcategory, applied_rule_id, user_confirmed")
       .eq("id", id)
       .single();
 
@@ -32,37 +34,39 @@ export async function POST(
       );
     }
 
-    // Verify job belongs to user
-    const { data: job, error: jobError } = await supabase
-      .from("categorization_jobs")
-      .select("user_id")
-      .eq("id", transaction.job_id)
-      .eq("user_id", user.id)
-      .single();
+    // Confirming marks the transaction reviewed; approval is a separate step by someone else
+    if (!transaction.user_confirmed) {
+      const result = await transitionTransactionReview(supabase, [id], "reviewed");
+      const skipped = result.skipped[0];
 
-    if (jobError || !job) {
-      return NextResponse.json(
-        { error: "Transaction not found" },
-        { status: 404 }
-      );
+      if (skipped) {
+        return NextResponse.json(
+          { error: REVIEW_SKIP_MESSAGES[skipped.reason] },
+          { status: skipped.reason === "not_found" ? 404 : skipped.reason === "permission_denied" ? 403 : 409 }
+        );
+      }
     }
 
-    // Update transaction
-    const { error: updateError } = await supabase
-      .from("categorized_transactions")
-      .update({ user_confirmed: true })
-      .eq("id", id);
-
-    if (updateError) {
-      return NextResponse.json(
-        { error: "Failed to confirm transaction" },
-        { status: 500 }
-      );
+    // Confirming a category is evidence for learning, once per transaction
+    let learning: LearningSuggestion | null = null;
+    if (!transaction.user_confirmed && transaction.category) {
+      try {
+        learning = await learnFromCorrection(supabase, {
+          userId: user.id,
+          transaction: { id, ...transaction },
+          category: transaction.category,
+          subcategory: transaction.subcategory || null,
+          source: "confirm",
+        });
+      } catch (learningError) {
+        console.error("Learning from confirmation failed:", learningError);
+      }
     }
 
     return NextResponse.json({
       success: true,
       message: "Transaction confirmed",
+      learning,
     });
   } catch (error: any) {
     console.error("Error:", error);
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { createAdminClient } from "@/lib/database/admin-client";
+import { attachChangedByNames, loadRecordHistory } from "@/lib/books/change-log";
+
+/**
+ * GET /api/categorization/transactions/[id]/history
+ * Change history of a transaction, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    // RLS limits both the transaction and its log entries to the user's books
+    const { data: transaction } = await supabase
+      .from("categorized_transactions")
+      .select("id")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (!transaction) {
+      return NextResponse.json(
+        { error: "Transaction not found" },
+        { status: 404 }
+      );
+    }
+
+    const entries = await loadRecordHistory(supabase, "categorized_transactions", id);
+
+    // Other members' profiles are not visible through RLS
+    const history = await attachChangedByNames(createAdminClient(), entries);
+
+    return NextResponse.json({ history });
+  } catch (error: any) {
+    console.error("Transaction history error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
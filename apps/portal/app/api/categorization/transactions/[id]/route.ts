@@ -1,7 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/database/server";
 import { createAdminClient } from "@/lib/database/admin-client";
-import { waitUntil } from "@vercel/functions";
+import { postTransactionsToLedger, resolveCompanyProfileForJob } from "@/lib/ledger/journal";
+import { learnFromCorrection, type LearningSuggestion } from "@/lib/categorization/learning";
+import { isVatCode } from "@/lib/vat/codes";
+import { isPeriodLockError } from "@/lib/books/period-close";
+import { auditContext } from "@/lib/books/change-log";
+import { canEditCompanyProfile } from "@/lib/books/scope";
+import { runJobQueueInBackground } from "@/lib/jobs/worker";
+import { enqueueQueueJob } from "@tinadmin/core/job-queue/queue";
+
+export const maxDuration = 60;
 
 export async function PATCH(
   request: NextRequest,
@@ -19,15 +28,22 @@ export async function PATCH(
     }
 
     const { id } = await params;
-    const { category, subcategory, supplier_id, user_notes } = await request.json();
+    const { category, subcategory, supplier_id, user_notes, vat_code, vat_rate, vat_amount } = await request.json();
+
+    if (vat_code !== undefined && vat_code !== null && !isVatCode(vat_code)) {
+      return NextResponse.json(
+        { error: "Invalid VAT code" },
+        { status: 400 }
+      );
+    }
 
-    // Use admin client to bypass RLS on categorized_transactions (ownership is enforced below via job check)
+    // Use admin client to bypass RLS on categorized_transactions (access is enforced below via the company check)
     const admin = createAdminClient();
 
-    // Fetch transaction job_id
+    // Fetch transaction job_id and current category (for learning from the correction)
     const { data: transaction, error: txError } = await admin
       .from("categorized_transactions")
-      .select("job_id")
+      .select("job_id, company_profile_id, original_description, category, subcategory, applied_rule_id")
       .eq("id", id)
       .single();
 
@@ -38,15 +54,8 @@ export async function PATCH(
       );
     }
 
-    // Verify job belongs to user
-    const { data: job, error: jobError } = await supabase
-      .from("categorization_jobs")
-      .select("user_id")
-      .eq("id", transaction.job_id)
-      .eq("user_id", user.id)
-      .single();
-
-    if (jobError || !job) {
+    // Verify the user can edit the company's books the transaction belongs to
+    if (!(await canEditCompanyProfile(supabase, transaction.company_profile_id))) {
       return NextResponse.json(
         { error: "Forbidden" },
         { status: 403 }
@@ -70,12 +79,24 @@ export async function PATCH(
       }
     }
 
-    // Update transaction
-    const updateData: any = {};
+    // Update transaction; the admin client has no session, so name the editor for the change
+    // log and for maker/checker review (the trigger ignores last_edited_by unless an edit lands)
+    const updateData: any = { ...auditContext("ui", user.id), last_edited_by: user.id };
     if (category !== undefined) updateData.category = category;
     if (subcategory !== undefined) updateData.subcategory = subcategory;
+    const categoryChanged =
+      (category !== undefined && category !== transaction.category) ||
+      (subcategory !== undefined && (subcategory || null) !== (transaction.subcategory || null));
+    // A manual change overrides whichever rule categorized the transaction, and any split
+    if (categoryChanged) {
+      updateData.applied_rule_id = null;
+      updateData.split_allocations = null;
+    }
     if (supplier_id !== undefined) updateData.supplier_id = supplier_id || null;
     if (user_notes !== undefined) updateData.user_notes = user_notes || null;
+    if (vat_code !== undefined) updateData.vat_code = vat_code || null;
+    if (vat_rate !== undefined) updateData.vat_rate = vat_rate ?? null;
+    if (vat_amount !== undefined) updateData.vat_amount = vat_amount ?? null;
     
     // Mark as pending sync since it was updated
     updateData.sync_status = "pending";
@@ -86,41 +107,75 @@ export async function PATCH(
       .eq("id", id);
 
     if (updateError) {
+      // Raised by the bank reconciliation lock and period close triggers
+      if (isPeriodLockError(updateError)) {
+        return NextResponse.json(
+          { error: updateError.message },
+          { status: 409 }
+        );
+      }
       return NextResponse.json(
         { error: "Failed to update transaction" },
         { status: 500 }
       );
     }
 
-    // Trigger background sync if job has spreadsheet_id
-    const { data: jobSyncInfo } = await supabase
+    // Re-post to the ledger when the category changes (voids the previous entry)
+    if (category !== undefined || subcategory !== undefined) {
+      try {
+        const companyProfileId = await resolveCompanyProfileForJob(admin, transaction.job_id, user.id);
+        if (companyProfileId) {
+          await postTransactionsToLedger(admin, companyProfileId, [id], user.id);
+        }
+      } catch (ledgerError) {
+        console.error("Ledger re-post error:", ledgerError);
+        // Don't fail the transaction update if ledger posting fails
+      }
+    }
+
+    // Feed the correction back so future jobs can learn from it
+    let learning: LearningSuggestion | null = null;
+    if (categoryChanged) {
+      try {
+        learning = await learnFromCorrection(admin, {
+          userId: user.id,
+          transaction: { id, ...transaction },
+          category: category ?? transaction.category,
+          subcategory: subcategory !== undefined ? subcategory || null : transaction.subcategory,
+          source: "edit",
+        });
+      } catch (learningError) {
+        console.error("Learning from correction failed:", learningError);
+      }
+    }
+
+    // Queue a sheet sync if the job has a spreadsheet; it picks up this transaction as pending
+    const { data: jobSyncInfo } = await admin
       .from("categorization_jobs")
-      .select("spreadsheet_id, bank_account_id")
+      .select("spreadsheet_id, bank_account_id, tenant_id")
       .eq("id", transaction.job_id)
       .single();
 
     if (jobSyncInfo && (jobSyncInfo.spreadsheet_id || jobSyncInfo.bank_account_id)) {
-      // Trigger incremental sync in background (non-blocking)
-      waitUntil(
-        fetch(`${process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3002"}/api/categorization/jobs/${transaction.job_id}/sync-sheets?mode=incremental`, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "Cookie": request.headers.get("cookie") || "",
-          },
-          body: JSON.stringify({
-            transaction_ids: [id],
-          }),
-        }).catch((error) => {
-          console.error("Background sync error:", error);
-          // Don't fail the transaction update if sync fails
-        })
-      );
+      try {
+        await enqueueQueueJob(admin, {
+          jobType: "sheets_sync",
+          categorizationJobId: transaction.job_id,
+          userId: user.id,
+          tenantId: jobSyncInfo.tenant_id,
+          payload: { mode: "incremental" },
+        });
+        runJobQueueInBackground(admin, { timeBudgetMs: 40_000 });
+      } catch (syncError) {
+        // Don't fail the transaction update; the next sync still finds it pending
+        console.error("Failed to queue sheet sync:", syncError);
+      }
     }
 
     return NextResponse.json({
       success: true,
       message: "Transaction updated",
+      learning,
     });
   } catch (error: any) {
     console.error("Error:", error);
@@ -147,10 +202,10 @@ export async function DELETE(
 
     const { id } = await params;
 
-    // Verify transaction belongs to user's job
+    // Verify transaction is in the user's company books (RLS hides the rest)
     const { data: transaction, error: txError } = await supabase
       .from("categorized_transactions")
-      .select("job_id")
+      .select("job_id, company_profile_id")
       .eq("id", id)
       .single();
     if (txError || !transaction) {
@@ -160,17 +215,10 @@ export async function DELETE(
       );
     }
 
-    // Verify job belongs to user
-    const { data: job, error: jobError } = await supabase
-      .from("categorization_jobs")
-      .select("user_id")
-      .eq("id", transaction.job_id)
-      .eq("user_id", user.id)
-      .single();
-    if (jobError || !job) {
+    if (!(await canEditCompanyProfile(supabase, transaction.company_profile_id))) {
       return NextResponse.json(
-        { error: "Transaction not found" },
-        { status: 404 }
+        { error: "Forbidden" },
+        { status: 403 }
       );
     }
 
@@ -180,6 +228,13 @@ export async function DELETE(
       .delete()
       .eq("id", id);
     if (deleteError) {
+      // Raised by the bank reconciliation lock and period close triggers
+      if (isPeriodLockError(deleteError)) {
+        return NextResponse.json(
+          { error: deleteError.message },
+          { status: 409 }
+        );
+      }
       return NextResponse.json(
         { error: "Failed to delete transaction" },
         { status: 500 }
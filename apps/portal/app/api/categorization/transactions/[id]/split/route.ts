@@ -0,0 +1,272 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { createAdminClient } from "@/lib/database/admin-client";
+import { postTransactionsToLedger, resolveCompanyProfileForJob } from "@/lib/ledger/journal";
+import {
+  attachSplitSuppliers,
+  getSplitLines,
+  headlineSplitLine,
+  isSplitTotalError,
+  parseSplitLines,
+  splitFromLineItems,
+} from "@/lib/categorization/splits";
+import { isPeriodLockError } from "@/lib/books/period-close";
+import { auditContext } from "@/lib/books/change-log";
+import { canAccessCompanyProfile, canEditCompanyProfile, getAccessibleBooksScope } from "@/lib/books/scope";
+
+/**
+ * Load a transaction in the user's company books, with what the split editor needs. Changing
+ * the split also needs edit access to the books.
+ */
+async function loadBooksTransaction(supabase: any, admin: any, id: string, userId: string, forEdit = false) {
+  const { data: transaction } = await admin
+    .from("categorized_transactions")
+    .select("id, job_id, company_profile_id, amount, category, subcategory, vat_code, vat_rate, split_allocations, document_id, matched_document_id")
+    .eq("id", id)
+    .single();
+  if (!transaction) return null;
+
+  if (forEdit) {
+    return (await canEditCompanyProfile(supabase, transaction.company_profile_id)) ? transaction : null;
+  }
+  const scope = await getAccessibleBooksScope(supabase, userId);
+  return canAccessCompanyProfile(scope, transaction.company_profile_id) ? transaction : null;
+}
+
+/**
+ * Re-post the transaction so the ledger follows its split; failures are logged, not returned
+ */
+async function repostTransaction(admin: any, transaction: { id: string; job_id: string }, userId: string) {
+  try {
+    const companyProfileId = await resolveCompanyProfileForJob(admin, transaction.job_id, userId);
+    if (companyProfileId) {
+      await postTransactionsToLedger(admin, companyProfileId, [transaction.id], userId);
+    }
+  } catch (ledgerError) {
+    console.error("Ledger re-post error:", ledgerError);
+  }
+}
+
+/**
+ * The transaction's split, and a suggested one from the OCR line items of its document
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const admin = createAdminClient();
+    const transaction = await loadBooksTransaction(supabase, admin, id, user.id);
+    if (!transaction) {
+      return NextResponse.json(
+        { error: "Transaction not found" },
+        { status: 404 }
+      );
+    }
+
+    // Line items only fit when the document is for the same amount as the payment
+    let suggestion: ReturnType<typeof splitFromLineItems> = [];
+    const documentId = transaction.document_id || transaction.matched_document_id;
+    if (documentId) {
+      const { data: document } = await supabase
+        .from("financial_documents")
+        .select("line_items, total_amount, tax_amount, tax_rate")
+        .eq("id", documentId)
+        .eq("company_profile_id", transaction.company_profile_id)
+        .single();
+      const total = Math.abs(Number(transaction.amount) || 0);
+      if (document && Math.abs(Math.abs(Number(document.total_amount) || 0) - total) < 0.005) {
+        suggestion = splitFromLineItems(document.line_items, {
+          ...document,
+          category: transaction.category,
+          subcategory: transaction.subcategory,
+        });
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      total: Math.abs(Number(transaction.amount) || 0),
+      category: transaction.category,
+      subcategory: transaction.subcategory,
+      vat_code: transaction.vat_code,
+      vat_rate: transaction.vat_rate,
+      lines: getSplitLines(transaction.split_allocations),
+      suggestion,
+    });
+  } catch (error: any) {
+    console.error("Error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Split the transaction into categorized lines. The largest line becomes its headline category.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const admin = createAdminClient();
+    const transaction = await loadBooksTransaction(supabase, admin, id, user.id, true);
+    if (!transaction) {
+      return NextResponse.json(
+        { error: "Transaction not found" },
+        { status: 404 }
+      );
+    }
+
+    const parsed = parseSplitLines(await request.json(), Number(transaction.amount) || 0);
+    if (parsed.error !== undefined) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const supplierError = await attachSplitSuppliers(supabase, user.id, parsed.lines);
+    if (supplierError) {
+      return NextResponse.json(
+        { error: supplierError },
+        { status: 404 }
+      );
+    }
+
+    const headline = headlineSplitLine(parsed.lines)!;
+    const { error: updateError } = await admin
+      .from("categorized_transactions")
+      .update({
+        ...auditContext("ui", user.id),
+        split_allocations: parsed.lines,
+        category: headline.category,
+        subcategory: headline.subcategory || null,
+        // A manual split overrides whichever rule categorized the transaction
+        applied_rule_id: null,
+        sync_status: "pending",
+      })
+      .eq("id", id);
+
+    if (updateError) {
+      if (isPeriodLockError(updateError)) {
+        return NextResponse.json(
+          { error: updateError.message },
+          { status: 409 }
+        );
+      }
+      if (isSplitTotalError(updateError)) {
+        return NextResponse.json(
+          { error: updateError.message },
+          { status: 400 }
+        );
+      }
+      return NextResponse.json(
+        { error: "Failed to split transaction" },
+        { status: 500 }
+      );
+    }
+
+    await repostTransaction(admin, transaction, user.id);
+
+    return NextResponse.json({
+      success: true,
+      lines: parsed.lines,
+    });
+  } catch (error: any) {
+    console.error("Error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Remove the split; the transaction keeps the headline category
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const admin = createAdminClient();
+    const transaction = await loadBooksTransaction(supabase, admin, id, user.id, true);
+    if (!transaction) {
+      return NextResponse.json(
+        { error: "Transaction not found" },
+        { status: 404 }
+      );
+    }
+
+    const { error: updateError } = await admin
+      .from("categorized_transactions")
+      .update({
+        ...auditContext("ui", user.id),
+        split_allocations: null,
+        sync_status: "pending",
+      })
+      .eq("id", id);
+
+    if (updateError) {
+      if (isPeriodLockError(updateError)) {
+        return NextResponse.json(
+          { error: updateError.message },
+          { status: 409 }
+        );
+      }
+      return NextResponse.json(
+        { error: "Failed to remove split" },
+        { status: 500 }
+      );
+    }
+
+    await repostTransaction(admin, transaction, user.id);
+
+    return NextResponse.json({
+      success: true,
+      message: "Split removed",
+    });
+  } catch (error: any) {
+    console.error("Error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
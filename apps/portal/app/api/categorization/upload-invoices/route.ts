@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/database/server";
+import { createAdminClient } from "@/lib/database/admin-client";
+import { enqueueQueueJob } from "@tinadmin/core/job-queue/queue";
+import { runJobQueueInBackground } from "@/lib/jobs/worker";
 import { createJobErrorResponse, mapErrorToCode, getJobError } from "@/lib/errors/job-errors";
 
+export const maxDuration = 60;
+
 export async function POST(request: NextRequest) {
   try {
     const supabase = await createClient();
@@ -284,36 +289,38 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Trigger processing - receipts always use async mode
-    // Update status to queued before triggering background processing
-    await supabase
-      .from("categorization_jobs")
-      .update({ 
-        status: "queued",
-        status_message: "Waiting to start processing...",
-      })
-      .eq("id", jobData.id);
-
-    // Queue for async processing (Vercel Background Functions)
+    // Queue for processing - receipts always use async mode; a worker starts on it once this
+    // response has been sent
     try {
-      const bgResponse = await fetch(`${request.nextUrl.origin}/api/background/process-invoices`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Cookie: request.headers.get("cookie") || "",
-        },
-        body: JSON.stringify({ jobId: jobData.id }),
+      const adminClient = createAdminClient();
+      await adminClient
+        .from("categorization_jobs")
+        .update({ 
+          status: "queued",
+          status_message: "Waiting to start processing...",
+        })
+        .eq("id", jobData.id);
+
+      await enqueueQueueJob(adminClient, {
+        jobType: "invoice_ocr",
+        categorizationJobId: jobData.id,
+        userId: user.id,
+        tenantId: jobData.tenant_id,
       });
-      if (!bgResponse.ok) {
-        const errorText = await bgResponse.text().catch(() => "Unknown error");
-        console.error(
-          "Failed to queue background processing:",
-          bgResponse.status,
-          errorText
-        );
-      }
-    } catch (processError: any) {
-      console.error("Failed to queue background processing:", processError);
+      runJobQueueInBackground(adminClient, { timeBudgetMs: 40_000 });
+    } catch (queueError: any) {
+      console.error("Failed to queue job for processing:", queueError);
+      // The files are stored, so fail the job where the user can retry it rather than the upload
+      const errorResponse = createJobErrorResponse(mapErrorToCode(queueError), queueError.message);
+      await supabase
+        .from("categorization_jobs")
+        .update({
+          status: "failed",
+          error_code: errorResponse.error_code,
+          error_message: errorResponse.error_message,
+          status_message: errorResponse.status_message,
+        })
+        .eq("id", jobData.id);
     }
 
     return NextResponse.json({
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { readSheetGrid } from "@/lib/categorization/process-spreadsheet";
+import {
+  isStatementFileName,
+  parseStatementFile,
+  validateStatementFile,
+} from "@/lib/categorization/statement-formats";
+import {
+  applyProfileToGrid,
+  extractTransactionsWithProfile,
+  getImportProfile,
+  suggestImportProfile,
+  validateImportProfile,
+  type ImportProfile,
+} from "@/lib/categorization/import-profiles";
+
+/** Raw rows returned so the user can pick the header row */
+const PREVIEW_RAW_ROWS = 15;
+/** Parsed transactions returned for the preview table */
+const PREVIEW_TRANSACTIONS = 20;
+
+/**
+ * POST /api/categorization/upload/preview
+ *
+ * Parse an uploaded spreadsheet without creating a job, so the user can check the column
+ * mapping before uploading. Form fields:
+ * - file: the spreadsheet
+ * - bank_account_id: loads the account's saved profile
+ * - profile: optional JSON profile to try instead of the saved/suggested one
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get("file") as File | null;
+    const bankAccountId = (formData.get("bank_account_id") as string | null)?.trim() || null;
+    const profileJson = formData.get("profile") as string | null;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: "No file provided" },
+        { status: 400 }
+      );
+    }
+
+    const fileBuffer = new Uint8Array(await file.arrayBuffer());
+
+    // Native statement formats need no mapping
+    if (isStatementFileName(file.name)) {
+      const statement = parseStatementFile(file.name, fileBuffer);
+      if (!statement) {
+        return NextResponse.json(
+          { error: validateStatementFile(file.name, fileBuffer) || "Unrecognised statement file" },
+          { status: 400 }
+        );
+      }
+      return NextResponse.json({
+        success: true,
+        native_format: statement.format,
+        total_transactions: statement.transactions.length,
+        transactions: statement.transactions.slice(0, PREVIEW_TRANSACTIONS),
+      });
+    }
+
+    if (bankAccountId) {
+      const { data: bankAccount } = await supabase
+        .from("bank_accounts")
+        .select("id")
+        .eq("id", bankAccountId)
+        .eq("user_id", user.id)
+        .single();
+
+      if (!bankAccount) {
+        return NextResponse.json(
+          { error: "Bank account not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    const grid = readSheetGrid(fileBuffer);
+    const savedProfile = bankAccountId ? await getImportProfile(supabase, bankAccountId) : null;
+
+    let profile: ImportProfile = savedProfile || suggestImportProfile(grid);
+    let validationError: string | undefined;
+
+    if (profileJson) {
+      let input: any;
+      try {
+        input = JSON.parse(profileJson);
+      } catch {
+        return NextResponse.json(
+          { error: "profile must be valid JSON" },
+          { status: 400 }
+        );
+      }
+      const validated = validateImportProfile(input);
+      validationError = validated.error;
+      // Show the user's edits even when incomplete; offsets still drive the header list
+      profile = validated.profile || { ...profile, ...input };
+    } else {
+      validationError = validateImportProfile(profile).error;
+    }
+
+    const { headers } = applyProfileToGrid(grid, profile);
+    const transactions = validationError ? [] : extractTransactionsWithProfile(grid, profile);
+
+    return NextResponse.json({
+      success: true,
+      native_format: null,
+      saved: !!savedProfile,
+      profile,
+      validation_error: validationError || null,
+      headers,
+      raw_rows: grid.slice(0, PREVIEW_RAW_ROWS),
+      total_rows: grid.length,
+      total_transactions: transactions.length,
+      transactions: transactions.slice(0, PREVIEW_TRANSACTIONS),
+    });
+  } catch (error: any) {
+    console.error("Upload preview error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,16 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/database/server";
 import { createAdminClient } from "@/lib/database/admin-client";
+import { enqueueQueueJob } from "@tinadmin/core/job-queue/queue";
+import { runJobQueueInBackground } from "@/lib/jobs/worker";
 import { writeFile } from "fs/promises";
 import { join } from "path";
 import { tmpdir } from "os";
-import { createHash } from "crypto";
 import { createJobErrorResponse, mapErrorToCode, getJobError } from "@/lib/errors/job-errors";
-import { extractTransactions } from "@/lib/categorization/process-spreadsheet";
-import { createDuplicateDetector } from "@/lib/sync/SpreadsheetDuplicateDetector";
+import {
+  STATEMENT_FILE_EXTENSIONS,
+  isStatementFileName,
+  validateStatementFile,
+} from "@/lib/categorization/statement-formats";
+import { describeStatementSizeLimit, getStatementMaxFileSize } from "@/lib/categorization/statement-uploads";
+import { hashFile } from "@/lib/utils/file-hash";
 import { parseFilename, normalizeFilename, dateRangesOverlap } from "@/lib/utils/filename-parser";
-import * as XLSX from "xlsx";
-import type { Transaction } from "@/lib/sync/types";
+
+export const maxDuration = 60;
 
 export async function OPTIONS() {
   return new NextResponse(null, {
@@ -82,7 +88,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate file type
-    const validExtensions = [".xlsx", ".xls", ".csv", ".pdf"];
+    const validExtensions = [".xlsx", ".xls", ".csv", ".pdf", ...STATEMENT_FILE_EXTENSIONS];
     const fileExtension = file.name.substring(file.name.lastIndexOf(".")).toLowerCase();
     
     // If PDF, route to bank statement PDF processing endpoint
@@ -100,6 +106,8 @@ export async function POST(request: NextRequest) {
           {
             method: "POST",
             headers: {
+              // Forward the session so the PDF route sees the same user
+              Cookie: request.headers.get("cookie") || "",
               // Forward authorization header if present
               ...(request.headers.get("authorization") && {
                 authorization: request.headers.get("authorization")!,
@@ -135,10 +143,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate file size (max 10MB)
-    const maxSize = 10 * 1024 * 1024; // 10MB
-    if (file.size > maxSize) {
-      const errorResponse = createJobErrorResponse("FILE_TOO_LARGE");
+    // Validate file size (CSVs are streamed, so they may be larger than workbooks)
+    if (file.size > getStatementMaxFileSize(file.name)) {
+      const errorResponse = createJobErrorResponse("FILE_TOO_LARGE", describeStatementSizeLimit(file.name));
       return NextResponse.json(
         { 
           error: errorResponse.error_message,
@@ -149,6 +156,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Statement files are only accepted once their content matches the extension
+    if (isStatementFileName(file.name)) {
+      const statementError = validateStatementFile(file.name, await file.arrayBuffer());
+      if (statementError) {
+        const errorResponse = createJobErrorResponse("INVALID_FILE_TYPE", statementError);
+        return NextResponse.json(
+          { 
+            error: errorResponse.error_message,
+            error_code: errorResponse.error_code,
+            status_message: errorResponse.status_message,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
     // Enforce profile/company name
     // Get the most recent company profile (order by created_at DESC, limit 1)
     const { data: profiles, error: profileError } = await supabase
@@ -216,9 +239,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Convert file to buffer and calculate hash
-    const fileBuffer = Buffer.from(await file.arrayBuffer());
-    const fileHash = createHash('sha256').update(fileBuffer).digest('hex');
+    // Hash the file for duplicate detection
+    const fileHash = await hashFile(file);
 
     // Check for force upload flag
     const forceUpload = formData.get("force") === "true";
@@ -295,54 +317,6 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Parse file to check for duplicate transactions (preview)
-    let duplicatePreview: {
-      similarityScore: number;
-      matchingCount: number;
-      totalTransactions: number;
-      duplicateDetails: Array<{
-        fingerprint: string;
-        matchType: "exact" | "similar";
-        similarity: number;
-      }>;
-    } | null = null;
-
-    try {
-      // Parse spreadsheet to extract transactions
-      const workbook = XLSX.read(fileBuffer, { type: "buffer" });
-      const sheetName = workbook.SheetNames[0];
-      const worksheet = workbook.Sheets[sheetName];
-      const data = XLSX.utils.sheet_to_json(worksheet, { raw: false });
-      const transactions = extractTransactions(data);
-
-      if (transactions.length > 0) {
-        // Convert to sync transaction format
-        const syncTransactions: Transaction[] = transactions.map(tx => ({
-          original_description: tx.description,
-          amount: tx.amount,
-          date: typeof tx.date === "string" ? tx.date : tx.date.toISOString().split("T")[0],
-        }));
-
-        // Check for duplicate transactions using SpreadsheetDuplicateDetector
-        const duplicateDetector = createDuplicateDetector(supabase);
-        const similarity = await duplicateDetector.detectSimilarity(syncTransactions, user.id);
-
-        duplicatePreview = {
-          similarityScore: similarity.similarityScore,
-          matchingCount: similarity.matchingCount,
-          totalTransactions: transactions.length,
-          duplicateDetails: similarity.duplicateTransactions.map(tx => ({
-            fingerprint: tx.transaction_fingerprint || "",
-            matchType: "exact" as const,
-            similarity: 1.0,
-          })),
-        };
-      }
-    } catch (parseError) {
-      // If parsing fails, continue with upload - background processing will handle it
-      console.warn("Failed to preview duplicates during upload:", parseError);
-    }
-
     // Upload to Supabase Storage
     const fileName = `${user.id}/${Date.now()}-${file.name}`;
     
@@ -352,7 +326,7 @@ export async function POST(request: NextRequest) {
     // #endregion
     const { data: uploadData, error: uploadError } = await supabase.storage
       .from("categorization-uploads")
-      .upload(fileName, fileBuffer, {
+      .upload(fileName, file, {
         contentType: file.type,
         upsert: false,
       });
@@ -499,64 +473,37 @@ export async function POST(request: NextRequest) {
       // Don't fail the upload, just log the error
     }
 
-    // Queue for async processing using Vercel Background Functions
+    // Queue for processing; a worker starts on it once this response has been sent
     try {
-      // #region agent log
-      const cookieHeader = request.headers.get("cookie") || "";
-      const hasCookies = cookieHeader.length > 0;
-      const cookieCount = cookieHeader.split(';').filter(c => c.trim().startsWith('sb-')).length;
-      fetch('http://127.0.0.1:7243/ingest/0c1b14f8-8590-4e1a-a5b8-7e9645e1d13e',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({sessionId:'debug-session',runId:'upload-flow',hypothesisId:'H5',location:'apps/portal/app/api/categorization/upload/route.ts:triggerBackground',message:'triggering background processing',data:{hasCookies,cookieCount,cookieHeaderLength:cookieHeader.length,jobIdSuffix:jobData.id?.substring(jobData.id.length-6)||null},timestamp:Date.now()})}).catch(()=>{});
-      // #endregion
-      
-      // Update status to queued before triggering background processing
-      try {
-        const adminClient = createAdminClient();
-        await adminClient
-          .from("categorization_jobs")
-          .update({ 
-            status: "queued",
-            status_message: "Waiting to start processing...",
-          })
-          .eq("id", jobData.id);
-      } catch (updateError) {
-        // Fallback to regular client
-        await supabase
-          .from("categorization_jobs")
-          .update({ 
-            status: "queued",
-            status_message: "Waiting to start processing...",
-          })
-          .eq("id", jobData.id);
-      }
+      const adminClient = createAdminClient();
+      await adminClient
+        .from("categorization_jobs")
+        .update({
+          status: "queued",
+          status_message: "Waiting to start processing...",
+        })
+        .eq("id", jobData.id);
 
-      // Trigger background processing (don't wait for completion)
-      const bgUrl = `${request.nextUrl.origin}/api/background/process-spreadsheet`;
-      fetch(bgUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Cookie: request.headers.get("cookie") || "",
-        },
-        body: JSON.stringify({ jobId: jobData.id }),
-      })
-        .then(() => {
-          // #region agent log
-          fetch('http://127.0.0.1:7243/ingest/0c1b14f8-8590-4e1a-a5b8-7e9645e1d13e',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({sessionId:'debug-session',runId:'upload-flow',hypothesisId:'H5',location:'apps/portal/app/api/categorization/upload/route.ts:triggerBackground',message:'background processing triggered successfully',data:{jobIdSuffix:jobData.id?.substring(jobData.id.length-6)||null},timestamp:Date.now()})}).catch(()=>{});
-          // #endregion
+      await enqueueQueueJob(adminClient, {
+        jobType: "spreadsheet",
+        categorizationJobId: jobData.id,
+        userId: user.id,
+        tenantId: jobData.tenant_id,
+      });
+      runJobQueueInBackground(adminClient, { timeBudgetMs: 40_000 });
+    } catch (queueError: any) {
+      console.error("Failed to queue job for processing:", queueError);
+      // The file is stored, so fail the job where the user can retry it rather than the upload
+      const errorResponse = createJobErrorResponse(mapErrorToCode(queueError), queueError.message);
+      await supabase
+        .from("categorization_jobs")
+        .update({
+          status: "failed",
+          error_code: errorResponse.error_code,
+          error_message: errorResponse.error_message,
+          status_message: errorResponse.status_message,
         })
-        .catch((err) => {
-          // #region agent log
-          fetch('http://127.0.0.1:7243/ingest/0c1b14f8-8590-4e1a-a5b8-7e9645e1d13e',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({sessionId:'debug-session',runId:'upload-flow',hypothesisId:'H5',location:'apps/portal/app/api/categorization/upload/route.ts:triggerBackground',message:'background processing trigger failed',data:{errorMessage:err?.message||null},timestamp:Date.now()})}).catch(()=>{});
-          // #endregion
-          console.error("Failed to queue background processing:", err);
-          // Don't fail the upload - cron job will pick it up if needed
-        });
-    } catch (processError: any) {
-      // #region agent log
-      fetch('http://127.0.0.1:7243/ingest/0c1b14f8-8590-4e1a-a5b8-7e9645e1d13e',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({sessionId:'debug-session',runId:'upload-flow',hypothesisId:'H5',location:'apps/portal/app/api/categorization/upload/route.ts:triggerBackground',message:'background processing setup failed',data:{errorMessage:processError?.message||null},timestamp:Date.now()})}).catch(()=>{});
-      // #endregion
-      console.error("Failed to queue background processing:", processError);
-      // Don't fail the upload - cron job will pick it up if needed
+        .eq("id", jobData.id);
     }
 
     // Build response with duplicate information
@@ -566,7 +513,6 @@ export async function POST(request: NextRequest) {
       status: string;
       status_message: string;
       message: string;
-      duplicatePreview?: typeof duplicatePreview;
       warnings?: string[];
     } = {
       success: true,
@@ -576,17 +522,6 @@ export async function POST(request: NextRequest) {
       message: "File uploaded successfully",
     };
 
-    // Add duplicate preview information if available
-    if (duplicatePreview) {
-      response.duplicatePreview = duplicatePreview;
-      
-      if (duplicatePreview.matchingCount > 0) {
-        response.warnings = [
-          `${duplicatePreview.matchingCount} of ${duplicatePreview.totalTransactions} transactions appear to be duplicates. They will be skipped during processing.`,
-        ];
-      }
-    }
-
     // Add filename duplicate warning if detected
     if (filenameDuplicateInfo) {
       if (!response.warnings) {
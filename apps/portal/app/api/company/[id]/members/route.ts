@@ -0,0 +1,178 @@
+import { createClient } from '@/lib/database/server'
+import { createAdminClient } from '@/lib/database/admin-client'
+import { NextRequest, NextResponse } from 'next/server'
+
+/**
+ * Company Members API
+ * Shares a company's books with users outside its tenant (accountants, bookkeepers).
+ * Tenant members already see every company in the tenant and do not need a row here.
+ */
+
+const MEMBER_ROLES = ['admin', 'member', 'viewer']
+
+async function canManage(supabase: any, companyProfileId: string): Promise<boolean> {
+  const { data } = await supabase.rpc('can_manage_company_profile', {
+    p_company_profile_id: companyProfileId,
+  })
+  return data === true
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const { data: members, error } = await (supabase as any)
+      .from('company_profile_members')
+      .select('id, user_id, role, created_at, user:users(email, full_name)')
+      .eq('company_profile_id', id)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching company members:', error)
+      return NextResponse.json({ error: 'Failed to fetch company members' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      members: members || [],
+      can_manage: await canManage(supabase, id),
+    })
+  } catch (error: any) {
+    console.error('Error getting company members:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    if (!(await canManage(supabase, id))) {
+      return NextResponse.json({ error: 'Company profile not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const { email, role = 'member' } = body
+
+    if (!email) {
+      return NextResponse.json({ error: 'Email is required' }, { status: 400 })
+    }
+    if (!MEMBER_ROLES.includes(role)) {
+      return NextResponse.json(
+        { error: `role must be one of: ${MEMBER_ROLES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    // Users outside the tenant are invisible under RLS, so look them up with the admin client
+    const { data: invitee } = await (createAdminClient() as any)
+      .from('users')
+      .select('id')
+      .eq('email', email.toLowerCase())
+      .maybeSingle()
+
+    if (!invitee) {
+      return NextResponse.json(
+        { error: 'No user found with that email. They need to sign up first.' },
+        { status: 404 }
+      )
+    }
+
+    const { data: member, error: insertError } = await (supabase as any)
+      .from('company_profile_members')
+      .upsert(
+        {
+          company_profile_id: id,
+          user_id: invitee.id,
+          role,
+          invited_by: user.id,
+        },
+        { onConflict: 'company_profile_id,user_id' }
+      )
+      .select()
+      .single()
+
+    if (insertError) {
+      console.error('Error adding company member:', insertError)
+      return NextResponse.json({ error: 'Failed to add company member' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, member })
+  } catch (error: any) {
+    console.error('Error adding company member:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const memberId = new URL(request.url).searchParams.get('member_id')
+
+    if (!memberId) {
+      return NextResponse.json({ error: 'member_id is required' }, { status: 400 })
+    }
+
+    if (!(await canManage(supabase, id))) {
+      return NextResponse.json({ error: 'Company profile not found' }, { status: 404 })
+    }
+
+    const { data: member } = await (supabase as any)
+      .from('company_profile_members')
+      .select('id, role')
+      .eq('id', memberId)
+      .eq('company_profile_id', id)
+      .maybeSingle()
+
+    if (!member) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 })
+    }
+    if (member.role === 'owner') {
+      return NextResponse.json({ error: 'The company owner cannot be removed' }, { status: 400 })
+    }
+
+    const { error: deleteError } = await (supabase as any)
+      .from('company_profile_members')
+      .delete()
+      .eq('id', memberId)
+
+    if (deleteError) {
+      console.error('Error removing company member:', deleteError)
+      return NextResponse.json({ error: 'Failed to remove company member' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Error removing company member:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/database/server'
+import {
+  getAccessibleCompanyProfileIds,
+  getActiveCompanyProfileId,
+  setActiveCompanyProfileId,
+} from '@/lib/books/scope'
+
+/**
+ * Active Company API
+ * Lists every company the user can work on (their own, shared and practice clients) and
+ * switches the one that scopes all other routes.
+ */
+
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [companyProfileIds, activeCompanyProfileId] = await Promise.all([
+      getAccessibleCompanyProfileIds(supabase),
+      getActiveCompanyProfileId(supabase, user.id),
+    ])
+
+    if (companyProfileIds.length === 0) {
+      return NextResponse.json({ companies: [], active_company_profile_id: null })
+    }
+
+    const { data: companies, error } = await (supabase as any)
+      .from('company_profiles')
+      .select('id, user_id, tenant_id, company_name, company_type, vat_registered')
+      .in('id', companyProfileIds)
+      .order('company_name', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching accessible companies:', error)
+      return NextResponse.json({ error: 'Failed to fetch companies' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      companies: companies || [],
+      active_company_profile_id: companyProfileIds.includes(activeCompanyProfileId || '')
+        ? activeCompanyProfileId
+        : null,
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const companyProfileId: string | null = body.company_profile_id || null
+
+    try {
+      await setActiveCompanyProfileId(supabase, companyProfileId)
+    } catch (error: any) {
+      if (error.message?.includes('not found')) {
+        return NextResponse.json({ error: 'Company profile not found' }, { status: 404 })
+      }
+      throw error
+    }
+
+    return NextResponse.json({ success: true, active_company_profile_id: companyProfileId })
+  } catch (error) {
+    console.error('Error switching company:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
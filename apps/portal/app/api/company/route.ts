@@ -59,6 +59,7 @@ export async function POST(request: NextRequest) {
         flat_rate_percentage: body.flatRatePercentage
           ? parseFloat(body.flatRatePercentage)
           : null,
+        vat_quarter_end_month: body.vatQuarterEndMonth ? parseInt(body.vatQuarterEndMonth) : null,
         financial_year_end: body.financialYearEnd || null,
         accounting_basis: body.accountingBasis || 'cash',
         bank_accounts: bankAccounts,
@@ -264,6 +265,11 @@ export async function PUT(request: NextRequest) {  try {
         ? parseFloat(updateData.flatRatePercentage)
         : null
     }
+    if (updateData.vatQuarterEndMonth !== undefined) {
+      updatePayload.vat_quarter_end_month = updateData.vatQuarterEndMonth
+        ? parseInt(updateData.vatQuarterEndMonth)
+        : null
+    }
     if (updateData.financialYearEnd !== undefined) updatePayload.financial_year_end = updateData.financialYearEnd || null
     if (updateData.accountingBasis !== undefined) updatePayload.accounting_basis = updateData.accountingBasis
     if (updateData.bankAccounts !== undefined) {
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/database/admin-client";
+import { processDueWebhookDeliveries } from "@tinadmin/core/webhooks/delivery";
+
+/**
+ * Cron job to send webhook deliveries
+ * Runs every minute via Vercel Cron
+ *
+ * Sends deliveries queued by the webhook triggers, and retries failed ones once their
+ * backoff has passed
+ */
+export const maxDuration = 300; // 5 minutes
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret to prevent unauthorized access
+    const authHeader = request.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const results = await processDueWebhookDeliveries(createAdminClient(), 50);
+
+    if (results.processed > 0) {
+      console.log(`Cron job sent webhook deliveries:`, results);
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...results,
+    });
+  } catch (error: any) {
+    console.error("Webhook cron job error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual trigger
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
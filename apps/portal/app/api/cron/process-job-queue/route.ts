@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/database/admin-client";
+import { runJobQueue } from "@/lib/jobs/worker";
+
+/**
+ * Cron job to run the job queue
+ * Runs every minute via Vercel Cron
+ *
+ * Runs queued spreadsheet, PDF statement and invoice OCR jobs, including retries whose
+ * backoff has passed and jobs reclaimed from workers that stopped heartbeating
+ */
+export const maxDuration = 300; // 5 minutes
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret to prevent unauthorized access
+    const authHeader = request.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Leave a minute of the function's time for the job that's running when the budget ends
+    const results = await runJobQueue(createAdminClient(), { limit: 25, timeBudgetMs: 240_000 });
+
+    if (results.processed > 0) {
+      console.log(`Cron job ran queued jobs:`, results);
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...results,
+    });
+  } catch (error: any) {
+    console.error("Job queue cron job error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual trigger
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
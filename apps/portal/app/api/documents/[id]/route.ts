@@ -1,5 +1,27 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/database/server";
+import { createAdminClient } from "@/lib/database/admin-client";
+import { postDocumentsToLedger } from "@/lib/ledger/documents";
+
+/**
+ * Keep a document's ledger entry in step after an edit or deletion.
+ * Posting problems are logged rather than failing the request.
+ */
+async function repostDocument(documentId: string, userId: string) {
+  try {
+    const admin = createAdminClient();
+    const { data: document } = await admin
+      .from("financial_documents")
+      .select("company_profile_id")
+      .eq("id", documentId)
+      .single();
+    if (document?.company_profile_id) {
+      await postDocumentsToLedger(admin, document.company_profile_id, [documentId], userId);
+    }
+  } catch (ledgerError) {
+    console.error("Document ledger post error:", ledgerError);
+  }
+}
 
 export async function GET(
   request: NextRequest,
@@ -64,6 +86,7 @@ export async function PATCH(
       "order_number",
       "document_date",
       "delivery_date",
+      "due_date",
       "paid_date",
       "subtotal_amount",
       "tax_amount",
@@ -71,6 +94,7 @@ export async function PATCH(
       "shipping_amount",
       "total_amount",
       "currency",
+      "document_kind",
       "line_items",
       "payment_method",
       "notes",
@@ -79,6 +103,13 @@ export async function PATCH(
       "ocr_extraction_methods",
     ];
 
+    if (body.document_kind !== undefined && !["bill", "sales_invoice"].includes(body.document_kind)) {
+      return NextResponse.json(
+        { error: "document_kind must be bill or sales_invoice" },
+        { status: 400 }
+      );
+    }
+
     for (const key of allowed) {
       if (body[key] !== undefined) updates[key] = body[key];
     }
@@ -101,6 +132,7 @@ export async function PATCH(
         .eq("user_id", user.id);
 
       if (!error) {
+        await repostDocument(id, user.id);
         return NextResponse.json({ success: true });
       }
 
@@ -158,6 +190,7 @@ export async function DELETE(
         { status: 500 }
       );
     }
+    await repostDocument(id, user.id);
     return NextResponse.json({ success: true, message: "Document deleted" });
   } catch (error: any) {
     return NextResponse.json(
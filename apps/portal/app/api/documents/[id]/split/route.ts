@@ -0,0 +1,234 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { createAdminClient } from "@/lib/database/admin-client";
+import { postDocumentsToLedger } from "@/lib/ledger/documents";
+import { postTransactionsToLedger } from "@/lib/ledger/journal";
+import {
+  attachSplitSuppliers,
+  getSplitLines,
+  headlineSplitLine,
+  isSplitTotalError,
+  parseSplitLines,
+  splitFromLineItems,
+  type SplitLine,
+} from "@/lib/categorization/splits";
+import { isPeriodLockError } from "@/lib/books/period-close";
+import { auditContext } from "@/lib/books/change-log";
+
+const DOCUMENT_FIELDS = "id, company_profile_id, total_amount, tax_amount, tax_rate, category, subcategory, line_items, split_allocations";
+
+/**
+ * Apply a split (or its removal) to the transactions extracted from the document, so the
+ * VAT return and bank exports see the same lines, then re-post the document and those
+ * transactions. Problems are logged rather than failing the request.
+ */
+async function applyToDocumentTransactions(document: any, lines: SplitLine[] | null, userId: string) {
+  try {
+    const admin = createAdminClient();
+    const { data: transactions } = await admin
+      .from("categorized_transactions")
+      .select("id, amount")
+      .eq("document_id", document.id)
+      .eq("is_breakdown_entry", false);
+
+    // Only rows for the whole document can carry its split
+    const total = Math.abs(Number(document.total_amount) || 0);
+    const transactionIds = (transactions || [])
+      .filter((tx: any) => Math.abs(Math.abs(Number(tx.amount) || 0) - total) < 0.005)
+      .map((tx: any) => tx.id);
+
+    if (transactionIds.length > 0) {
+      const headline = lines ? headlineSplitLine(lines) : null;
+      const { error } = await admin
+        .from("categorized_transactions")
+        .update({
+          ...auditContext("ui", userId),
+          split_allocations: lines,
+          ...(headline ? { category: headline.category, subcategory: headline.subcategory || null, applied_rule_id: null } : {}),
+          sync_status: "pending",
+        })
+        .in("id", transactionIds);
+      if (error) throw new Error(error.message);
+    }
+
+    if (document.company_profile_id) {
+      await postDocumentsToLedger(admin, document.company_profile_id, [document.id], userId);
+      await postTransactionsToLedger(admin, document.company_profile_id, transactionIds, userId);
+    }
+  } catch (error) {
+    console.error("Document split sync error:", error);
+  }
+}
+
+/**
+ * The document's split, and a suggested one from its OCR line items
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: document } = await supabase
+      .from("financial_documents")
+      .select(DOCUMENT_FIELDS)
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .single();
+
+    if (!document) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      total: Math.abs(Number(document.total_amount) || 0),
+      category: document.category,
+      subcategory: document.subcategory,
+      vat_rate: document.tax_rate,
+      lines: getSplitLines(document.split_allocations),
+      suggestion: splitFromLineItems(document.line_items, document),
+    });
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Split the document into categorized lines. The largest line becomes its headline category.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: document } = await supabase
+      .from("financial_documents")
+      .select(DOCUMENT_FIELDS)
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .single();
+
+    if (!document) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    const parsed = parseSplitLines(await request.json(), Number(document.total_amount) || 0);
+    if (parsed.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const supplierError = await attachSplitSuppliers(supabase, user.id, parsed.lines);
+    if (supplierError) {
+      return NextResponse.json({ error: supplierError }, { status: 404 });
+    }
+
+    const headline = headlineSplitLine(parsed.lines)!;
+    const { error: updateError } = await supabase
+      .from("financial_documents")
+      .update({
+        split_allocations: parsed.lines,
+        category: headline.category,
+        subcategory: headline.subcategory || null,
+      })
+      .eq("id", id)
+      .eq("user_id", user.id);
+
+    if (updateError) {
+      if (isPeriodLockError(updateError)) {
+        return NextResponse.json({ error: updateError.message }, { status: 409 });
+      }
+      if (isSplitTotalError(updateError)) {
+        return NextResponse.json({ error: updateError.message }, { status: 400 });
+      }
+      return NextResponse.json({ error: "Failed to split document" }, { status: 500 });
+    }
+
+    await applyToDocumentTransactions(document, parsed.lines, user.id);
+
+    return NextResponse.json({ success: true, lines: parsed.lines });
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Remove the split; the document keeps the headline category
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: document } = await supabase
+      .from("financial_documents")
+      .select(DOCUMENT_FIELDS)
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .single();
+
+    if (!document) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    const { error: updateError } = await supabase
+      .from("financial_documents")
+      .update({ split_allocations: null })
+      .eq("id", id)
+      .eq("user_id", user.id);
+
+    if (updateError) {
+      if (isPeriodLockError(updateError)) {
+        return NextResponse.json({ error: updateError.message }, { status: 409 });
+      }
+      return NextResponse.json({ error: "Failed to remove split" }, { status: 500 });
+    }
+
+    await applyToDocumentTransactions(document, null, user.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
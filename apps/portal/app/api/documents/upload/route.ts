@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/database/server";
 import { createAdminClient } from "@/lib/database/admin-client";
-import { waitUntil } from "@vercel/functions";
+import { runJobQueueInBackground } from "@/lib/jobs/worker";
+import { enqueueQueueJob } from "@tinadmin/core/job-queue/queue";
 
 export const maxDuration = 60;
 
@@ -98,17 +99,19 @@ export async function POST(request: NextRequest): Promise<NextResponse<UploadRes
       );
     }
 
-    // Trigger OCR asynchronously (uses Cookie header forwarding for auth)
-    waitUntil(
-      fetch(`${request.nextUrl.origin}/api/documents/${doc.id}/process-ocr`, {
-        method: "POST",
-        headers: {
-          Cookie: request.headers.get("cookie") || "",
-        },
-      }).catch((err) => {
-        console.error("OCR trigger error:", err);
-      })
-    );
+    // Queue OCR; a worker starts on it once this response has been sent
+    try {
+      await enqueueQueueJob(admin, {
+        jobType: "document_ocr",
+        financialDocumentId: doc.id,
+        userId: user.id,
+        tenantId,
+      });
+      runJobQueueInBackground(admin, { timeBudgetMs: 40_000 });
+    } catch (queueError: any) {
+      // The document is stored; OCR can still be run from the document
+      console.error("Failed to queue document OCR:", queueError);
+    }
 
     return NextResponse.json({ success: true, documentId: doc.id });
   } catch (error: any) {
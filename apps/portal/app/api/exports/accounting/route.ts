@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { canAccessCompanyProfile, getBooksScope } from "@/lib/books/scope";
+import {
+  loadBankStatementLines,
+  loadDocuments,
+  loadManualJournals,
+} from "@/lib/exports/accounting-export";
+import {
+  ACCOUNTING_EXPORT_FORMATS,
+  ACCOUNTING_EXPORT_TARGETS,
+  isAccountingExportFormat,
+  isAccountingExportTarget,
+} from "@/lib/exports/accounting-targets";
+
+/**
+ * List the accounting packages and import templates available for export
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({
+      targets: Object.entries(ACCOUNTING_EXPORT_TARGETS).map(([id, target]) => ({
+        id,
+        label: target.label,
+      })),
+      formats: Object.entries(ACCOUNTING_EXPORT_FORMATS).map(([id, format]) => ({
+        id,
+        label: format.label,
+        requires_bank_account: format.requiresBankAccount,
+      })),
+    });
+  } catch (error: any) {
+    console.error("Accounting export GET error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Export data in an accounting package's import template
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const {
+      target,
+      format,
+      companyProfileId,
+      bankAccountId,
+      startDate,
+      endDate,
+    } = body;
+
+    if (!isAccountingExportTarget(target)) {
+      return NextResponse.json(
+        { error: `target must be one of: ${Object.keys(ACCOUNTING_EXPORT_TARGETS).join(", ")}` },
+        { status: 400 }
+      );
+    }
+    if (!isAccountingExportFormat(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${Object.keys(ACCOUNTING_EXPORT_FORMATS).join(", ")}` },
+        { status: 400 }
+      );
+    }
+    if (!companyProfileId) {
+      return NextResponse.json(
+        { error: "Company profile ID is required" },
+        { status: 400 }
+      );
+    }
+    if (!startDate || !endDate) {
+      return NextResponse.json(
+        { error: "startDate and endDate are required" },
+        { status: 400 }
+      );
+    }
+    if (ACCOUNTING_EXPORT_FORMATS[format].requiresBankAccount && !bankAccountId) {
+      return NextResponse.json(
+        { error: "bankAccountId is required for bank statement exports" },
+        { status: 400 }
+      );
+    }
+
+    const scope = await getBooksScope(supabase, user.id, companyProfileId);
+
+    if (!canAccessCompanyProfile(scope, companyProfileId)) {
+      return NextResponse.json(
+        { error: "Company profile not found" },
+        { status: 404 }
+      );
+    }
+
+    const exporters = ACCOUNTING_EXPORT_TARGETS[target].exporters;
+    let exportData: string;
+
+    if (format === "bank_statement") {
+      const { data: bankAccount } = await supabase
+        .from("bank_accounts")
+        .select("id")
+        .eq("id", bankAccountId)
+        .eq("company_profile_id", companyProfileId)
+        .single();
+
+      if (!bankAccount) {
+        return NextResponse.json(
+          { error: "Bank account not found" },
+          { status: 404 }
+        );
+      }
+
+      const lines = await loadBankStatementLines(supabase, companyProfileId, bankAccountId, startDate, endDate);
+      exportData = exporters.bank_statement(lines);
+    } else if (format === "manual_journal") {
+      const journals = await loadManualJournals(supabase, companyProfileId, startDate, endDate);
+      exportData = exporters.manual_journal(journals);
+    } else {
+      const kind = format === "bills" ? "bill" : "sales_invoice";
+      const documents = await loadDocuments(supabase, companyProfileId, kind, startDate, endDate);
+      exportData = exporters[format](documents);
+    }
+
+    return new NextResponse(exportData, {
+      headers: {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename="${target}-${format.replace(/_/g, '-')}-${startDate}-${endDate}.csv"`,
+      },
+    });
+  } catch (error: any) {
+    console.error("Accounting export error:", error);
+    return NextResponse.json(
+      { error: error.message || "Export failed" },
+      { status: 500 }
+    );
+  }
+}
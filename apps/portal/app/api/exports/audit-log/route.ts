@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { createAdminClient } from "@/lib/database/admin-client";
+import { canAccessCompanyProfile, getBooksScope } from "@/lib/books/scope";
+import {
+  attachChangedByNames,
+  buildAuditReportCsv,
+  loadCompanyChangeLog,
+  loadRecordDescriptions,
+} from "@/lib/books/change-log";
+
+/**
+ * Export the change log of a company's books as an audit report
+ * Body: { companyProfileId, startDate, endDate }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { companyProfileId, startDate, endDate } = await request.json();
+
+    if (!companyProfileId) {
+      return NextResponse.json(
+        { error: "Company profile ID is required" },
+        { status: 400 }
+      );
+    }
+    if (!startDate || !endDate) {
+      return NextResponse.json(
+        { error: "startDate and endDate are required" },
+        { status: 400 }
+      );
+    }
+
+    const scope = await getBooksScope(supabase, user.id, companyProfileId);
+
+    if (!canAccessCompanyProfile(scope, companyProfileId)) {
+      return NextResponse.json(
+        { error: "Company profile not found" },
+        { status: 404 }
+      );
+    }
+
+    const entries = await loadCompanyChangeLog(supabase, companyProfileId, startDate, endDate);
+    const descriptions = await loadRecordDescriptions(supabase, entries);
+    // Other members' profiles are not visible through RLS
+    const named = await attachChangedByNames(createAdminClient(), entries);
+
+    return new NextResponse(buildAuditReportCsv(named, descriptions), {
+      headers: {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename="audit-report-${startDate}-${endDate}.csv"`,
+      },
+    });
+  } catch (error: any) {
+    console.error("Audit report export error:", error);
+    return NextResponse.json(
+      { error: error.message || "Export failed" },
+      { status: 500 }
+    );
+  }
+}
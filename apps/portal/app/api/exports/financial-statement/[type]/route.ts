@@ -24,7 +24,7 @@ export async function POST(
 
     const { type } = await params;
     const body = await request.json();
-    const { companyProfileId, startDate, endDate, asOfDate, format = 'json' } = body;
+    const { companyProfileId, startDate, endDate, asOfDate, basis, format = 'json' } = body;
 
     if (!companyProfileId) {
       return NextResponse.json(
@@ -45,11 +45,18 @@ export async function POST(
             { status: 400 }
           );
         }
+        if (basis !== undefined && basis !== 'cash' && basis !== 'accrual') {
+          return NextResponse.json(
+            { error: "Basis must be cash or accrual" },
+            { status: 400 }
+          );
+        }
         result = await generateProfitAndLoss(
           supabase,
           new Date(startDate),
           new Date(endDate),
-          companyProfileId
+          companyProfileId,
+          basis
         );
         break;
 
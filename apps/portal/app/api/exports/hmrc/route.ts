@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/database/server";
+import { getBooksScope, scopeToBooks } from "@/lib/books/scope";
 import { 
   exportVATReturn, 
   exportVATReturnCSV,
@@ -8,6 +9,12 @@ import {
   exportCorporationTax,
   exportCorporationTaxCSV
 } from "@/lib/exports/hmrc-export";
+import { vatAuditReportCSV, buildVatAuditReport, type VatTransaction } from "@/lib/vat/vat-return";
+import { loadVatTransactions } from "@/lib/vat/transactions";
+import { buildMTDVatReturn, validateMTDVatReturn } from "@/lib/vat/mtd";
+import { isVatCode } from "@/lib/vat/codes";
+import { expandSplit } from "@/lib/categorization/splits";
+import { calculateCapitalAllowances } from "@/lib/assets/capital-allowances";
 
 export async function POST(request: NextRequest) {
   try {
@@ -28,7 +35,11 @@ export async function POST(request: NextRequest) {
       periodStart,
       periodEnd,
       taxYear,
-      format = 'csv'
+      format = 'csv', // 'csv' | 'json'; VAT also supports 'mtd', 'audit' and 'audit_csv'
+      periodKey,
+      finalised = false,
+      accountingBasis,
+      defaultVatCode,
     } = body;
 
     if (!companyProfileId) {
@@ -52,23 +63,29 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const scope = await getBooksScope(supabase, user.id, companyProfileId);
+
     // Get transactions for the period
     const startDate = periodStart || new Date(new Date().getFullYear(), 0, 1).toISOString().split('T')[0];
     const endDate = periodEnd || new Date().toISOString().split('T')[0];
 
-    const { data: transactions } = await supabase
-      .from("categorized_transactions")
-      .select(`
-        date,
-        amount,
-        category,
-        is_debit,
-        job_id,
-        categorization_jobs!inner(user_id)
-      `)
+    const { data: transactions } = await scopeToBooks(
+      supabase
+        .from("categorized_transactions")
+        .select(`
+          id,
+          date,
+          amount,
+          category,
+          is_debit,
+          job_id,
+          split_allocations,
+          matched_document_id
+        `),
+      scope
+    )
       .gte("date", startDate)
       .lte("date", endDate)
-      .eq("categorization_jobs.user_id", user.id)
       .order("date", { ascending: false });
 
     if (type === 'vat') {
@@ -79,20 +96,84 @@ export async function POST(request: NextRequest) {
         );
       }
 
+      if (accountingBasis && accountingBasis !== 'cash' && accountingBasis !== 'invoice') {
+        return NextResponse.json(
+          { error: "accountingBasis must be 'cash' or 'invoice'" },
+          { status: 400 }
+        );
+      }
+      if (defaultVatCode && !isVatCode(defaultVatCode)) {
+        return NextResponse.json(
+          { error: "Invalid defaultVatCode" },
+          { status: 400 }
+        );
+      }
+
+      let vatTransactions: VatTransaction[];
+      try {
+        vatTransactions = await loadVatTransactions(supabase, scope, startDate, endDate);
+      } catch (vatRowsError) {
+        console.error("Error fetching VAT transactions:", vatRowsError);
+        return NextResponse.json(
+          { error: "Failed to fetch transactions" },
+          { status: 500 }
+        );
+      }
+
       const vatReturn = await exportVATReturn(
-        transactions?.map(tx => ({
-          date: tx.date,
-          amount: tx.amount,
-          category: tx.category,
-          is_debit: tx.is_debit,
-        })) || [],
+        vatTransactions,
         companyProfile.vat_number,
         new Date(startDate),
         new Date(endDate),
         companyProfile.vat_scheme as 'standard' | 'flat_rate' | 'cash_accounting' || 'standard',
-        companyProfile.flat_rate_percentage || undefined
+        companyProfile.flat_rate_percentage || undefined,
+        { basis: accountingBasis, defaultVatCode }
       );
 
+      if (format === 'mtd') {
+        if (!periodKey) {
+          return NextResponse.json(
+            { error: "periodKey is required for the MTD payload" },
+            { status: 400 }
+          );
+        }
+        const mtdBody = buildMTDVatReturn(vatReturn.calculation, periodKey, finalised === true);
+        const validationErrors = validateMTDVatReturn(mtdBody);
+        if (validationErrors.length > 0) {
+          return NextResponse.json(
+            { error: "VAT return failed MTD schema validation", details: validationErrors, body: mtdBody },
+            { status: 422 }
+          );
+        }
+        return NextResponse.json({
+          body: mtdBody,
+          warnings: vatReturn.warnings,
+        });
+      }
+
+      if (format === 'audit') {
+        return NextResponse.json({
+          period_start: startDate,
+          period_end: endDate,
+          vat_scheme: vatReturn.vat_scheme,
+          accounting_basis: vatReturn.accounting_basis,
+          boxes: buildVatAuditReport(vatReturn.calculation),
+          unclassified: vatReturn.calculation.unclassified,
+          excluded: vatReturn.calculation.excluded,
+          warnings: vatReturn.warnings,
+        });
+      }
+
+      if (format === 'audit_csv') {
+        const csv = vatAuditReportCSV(vatReturn.calculation);
+        return new NextResponse(csv, {
+          headers: {
+            'Content-Type': 'text/csv',
+            'Content-Disposition': `attachment; filename="hmrc-vat-audit-${Date.now()}.csv"`,
+          },
+        });
+      }
+
       if (format === 'csv') {
         const csv = exportVATReturnCSV(vatReturn);
         return new NextResponse(csv, {
@@ -103,14 +184,18 @@ export async function POST(request: NextRequest) {
         });
       }
 
-      return NextResponse.json(vatReturn);
+      const { calculation, ...vatReturnSummary } = vatReturn;
+      return NextResponse.json({
+        ...vatReturnSummary,
+        unclassified_count: calculation.unclassified.length,
+      });
     }
 
     if (type === 'self_assessment') {
       const taxYearValue = taxYear || `${new Date().getFullYear() - 1}-${new Date().getFullYear()}`;
       
       const saData = await exportSelfAssessment(
-        transactions?.map(tx => ({
+        transactions?.flatMap((row: any) => expandSplit(row)).map((tx: any) => ({
           date: tx.date,
           amount: tx.amount,
           category: tx.category,
@@ -140,16 +225,29 @@ export async function POST(request: NextRequest) {
         );
       }
 
+      // Capitalised purchases and asset sales are relieved through capital allowances instead
+      const { data: fixedAssets } = await supabase
+        .from("fixed_assets")
+        .select("acquisition_date, cost, allowance_pool, claim_aia, disposal_date, disposal_proceeds, source_transaction_id, source_document_id, disposal_transaction_id")
+        .eq("company_profile_id", companyProfileId);
+      const capitalTransactions = new Set(
+        (fixedAssets || []).flatMap((asset: any) => [asset.source_transaction_id, asset.disposal_transaction_id]).filter(Boolean)
+      );
+      const capitalDocuments = new Set((fixedAssets || []).map((asset: any) => asset.source_document_id).filter(Boolean));
+
       const ctData = await exportCorporationTax(
-        transactions?.map(tx => ({
-          date: tx.date,
-          amount: tx.amount,
-          category: tx.category,
-          is_debit: tx.is_debit,
-        })) || [],
+        transactions
+          ?.filter((tx: any) => !capitalTransactions.has(tx.id) && !capitalDocuments.has(tx.matched_document_id))
+          .map((tx: any) => ({
+            date: tx.date,
+            amount: tx.amount,
+            category: tx.category,
+            is_debit: tx.is_debit,
+          })) || [],
         companyProfile.company_number,
         new Date(startDate),
-        new Date(endDate)
+        new Date(endDate),
+        calculateCapitalAllowances(fixedAssets || [], startDate, endDate)
       );
 
       if (format === 'csv') {
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/database/server";
 import { exportTransactionsToXero, exportChartOfAccountsToXero } from "@/lib/exports/xero-export";
+import { getBooksScope, scopeToBooks } from "@/lib/books/scope";
 
 export async function POST(request: NextRequest) {
   try {
@@ -30,47 +31,51 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const scope = await getBooksScope(supabase, user.id, companyProfileId);
+
     // Get transactions
     let transactions: any[] = [];
     
     if (jobId) {
       // Export specific job
-      const { data: jobTransactions } = await supabase
-        .from("categorized_transactions")
-        .select(`
-          date,
-          original_description,
-          amount,
-          category,
-          subcategory,
-          reference_number,
-          transaction_type,
-          is_debit,
-          job_id,
-          categorization_jobs!inner(user_id)
-        `)
-        .eq("job_id", jobId)
-        .eq("categorization_jobs.user_id", user.id)
+      const { data: jobTransactions } = await scopeToBooks(
+        supabase
+          .from("categorized_transactions")
+          .select(`
+            date,
+            original_description,
+            amount,
+            category,
+            subcategory,
+            reference_number,
+            transaction_type,
+            is_debit,
+            job_id
+          `)
+          .eq("job_id", jobId),
+        scope
+      )
         .order("date", { ascending: false });
 
       transactions = jobTransactions || [];
     } else {
       // Export all transactions for company
-      const { data: allTransactions } = await supabase
-        .from("categorized_transactions")
-        .select(`
-          date,
-          original_description,
-          amount,
-          category,
-          subcategory,
-          reference_number,
-          transaction_type,
-          is_debit,
-          job_id,
-          categorization_jobs!inner(user_id, tenant_id)
-        `)
-        .eq("categorization_jobs.user_id", user.id)
+      const { data: allTransactions } = await scopeToBooks(
+        supabase
+          .from("categorized_transactions")
+          .select(`
+            date,
+            original_description,
+            amount,
+            category,
+            subcategory,
+            reference_number,
+            transaction_type,
+            is_debit,
+            job_id
+          `),
+        scope
+      )
         .order("date", { ascending: false });
 
       transactions = allTransactions || [];
@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { createAdminClient } from "@/lib/database/admin-client";
+import { canAccessCompanyProfile, getBooksScope } from "@/lib/books/scope";
+import { postTransactionsToLedger } from "@/lib/ledger/journal";
+import {
+  applyFxRates,
+  getBaseCurrency,
+  getLatestFxRates,
+  importFxRates,
+} from "@/lib/fx/rates";
+import { parseFxRateFile } from "@/lib/fx/rate-files";
+
+const MAX_RATE_FILE_SIZE = 10 * 1024 * 1024;
+
+/**
+ * GET /api/fx/rates
+ * Base currency and the latest rate per currency for a company (defaults to the active company)
+ * Query: company_profile_id
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const scope = await getBooksScope(supabase, user.id, searchParams.get("company_profile_id"));
+
+    if (scope.companyProfileIds.length !== 1) {
+      return NextResponse.json(
+        { error: "Select a company to manage its exchange rates" },
+        { status: 400 }
+      );
+    }
+
+    const companyProfileId = scope.companyProfileIds[0];
+    const baseCurrency = await getBaseCurrency(supabase, companyProfileId);
+    const [rates, { count: unconverted }] = await Promise.all([
+      getLatestFxRates(supabase, companyProfileId, baseCurrency),
+      (supabase as any)
+        .from("categorized_transactions")
+        .select("id", { count: "exact", head: true })
+        .eq("company_profile_id", companyProfileId)
+        .is("base_amount", null),
+    ]);
+
+    return NextResponse.json({
+      company_profile_id: companyProfileId,
+      base_currency: baseCurrency,
+      rates,
+      unconverted_transactions: unconverted || 0,
+    });
+  } catch (error: any) {
+    console.error("FX rates GET error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/fx/rates
+ * Import an ECB, HMRC or plain (date, currency, rate) rate file, then convert and post any
+ * transactions that were waiting for a rate
+ * Form data: file, company_profile_id
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get("file") as File | null;
+    const companyProfileId = formData.get("company_profile_id") as string | null;
+
+    if (!file || !companyProfileId) {
+      return NextResponse.json(
+        { error: "file and company_profile_id are required" },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_RATE_FILE_SIZE) {
+      return NextResponse.json(
+        { error: "Rate files are limited to 10MB" },
+        { status: 400 }
+      );
+    }
+
+    const scope = await getBooksScope(supabase, user.id, companyProfileId);
+    if (!canAccessCompanyProfile(scope, companyProfileId)) {
+      return NextResponse.json(
+        { error: "Company profile not found" },
+        { status: 404 }
+      );
+    }
+
+    const baseCurrency = await getBaseCurrency(supabase, companyProfileId);
+
+    let parsed;
+    try {
+      parsed = parseFxRateFile(new Uint8Array(await file.arrayBuffer()), baseCurrency);
+    } catch (parseError: any) {
+      return NextResponse.json(
+        { error: parseError.message },
+        { status: 400 }
+      );
+    }
+
+    if (parsed.rates.length === 0) {
+      return NextResponse.json(
+        { error: `No ${baseCurrency} rates could be read from the file` },
+        { status: 400 }
+      );
+    }
+
+    // RLS only lets company editors write rates
+    const imported = await importFxRates(
+      supabase,
+      companyProfileId,
+      baseCurrency,
+      parsed.rates,
+      parsed.source,
+      user.id
+    );
+
+    const convertedIds = await applyFxRates(supabase, companyProfileId);
+    const posting = convertedIds.length > 0
+      ? await postTransactionsToLedger(createAdminClient(), companyProfileId, convertedIds, user.id)
+      : null;
+
+    return NextResponse.json({
+      success: true,
+      source: parsed.source,
+      imported,
+      skipped: parsed.skipped,
+      converted: convertedIds.length,
+      posted: posting?.posted || 0,
+    });
+  } catch (error: any) {
+    console.error("FX rates import error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
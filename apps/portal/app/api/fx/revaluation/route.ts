@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { createAdminClient } from "@/lib/database/admin-client";
+import { canAccessCompanyProfile, getBooksScope } from "@/lib/books/scope";
+import { isPeriodLockError } from "@/lib/books/period-close";
+import { getBooksPermissions } from "@/lib/review/workflow";
+import { getForeignBankAccountGains, postFxRevaluation } from "@/lib/fx/revaluation";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/fx/revaluation
+ * Realised gains for a period and unrealised gains at its end, per foreign bank account
+ * Query: company_profile_id, start_date, end_date
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const startDate = searchParams.get("start_date");
+    const endDate = searchParams.get("end_date");
+
+    if (!startDate || !endDate || !DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate)) {
+      return NextResponse.json(
+        { error: "start_date and end_date (YYYY-MM-DD) are required" },
+        { status: 400 }
+      );
+    }
+
+    const scope = await getBooksScope(supabase, user.id, searchParams.get("company_profile_id"));
+    if (scope.companyProfileIds.length !== 1) {
+      return NextResponse.json(
+        { error: "Select a company to see its exchange gains" },
+        { status: 400 }
+      );
+    }
+
+    const companyProfileId = scope.companyProfileIds[0];
+    const [accounts, permissions] = await Promise.all([
+      getForeignBankAccountGains(supabase, companyProfileId, startDate, endDate),
+      getBooksPermissions(supabase, companyProfileId),
+    ]);
+
+    return NextResponse.json({
+      company_profile_id: companyProfileId,
+      accounts,
+      can_post: permissions.includes("transactions.approve"),
+    });
+  } catch (error: any) {
+    console.error("FX revaluation GET error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/fx/revaluation
+ * Post revaluation entries that bring each foreign bank account to its balance at the
+ * closing rate
+ * Body: { company_profile_id, as_of }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { company_profile_id, as_of } = await request.json();
+
+    if (!company_profile_id || !as_of || !DATE_PATTERN.test(as_of)) {
+      return NextResponse.json(
+        { error: "company_profile_id and as_of (YYYY-MM-DD) are required" },
+        { status: 400 }
+      );
+    }
+
+    const scope = await getBooksScope(supabase, user.id, company_profile_id);
+    if (!canAccessCompanyProfile(scope, company_profile_id)) {
+      return NextResponse.json(
+        { error: "Company profile not found" },
+        { status: 404 }
+      );
+    }
+
+    // Posting goes through the admin client, so the approve check happens here
+    const permissions = await getBooksPermissions(supabase, company_profile_id);
+    if (!permissions.includes("transactions.approve")) {
+      return NextResponse.json(
+        { error: "You do not have permission to post revaluations" },
+        { status: 403 }
+      );
+    }
+
+    const gains = await getForeignBankAccountGains(supabase, company_profile_id, as_of, as_of);
+    const missingRate = gains.find((gain) => gain.closing_rate === null);
+    if (missingRate) {
+      return NextResponse.json(
+        { error: `No ${missingRate.currency} exchange rate for ${as_of}. Import rates first.` },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const result = await postFxRevaluation(createAdminClient(), company_profile_id, as_of, gains, user.id);
+      return NextResponse.json({
+        success: true,
+        ...result,
+      });
+    } catch (postError: any) {
+      if (isPeriodLockError(postError)) {
+        return NextResponse.json(
+          { error: postError.message },
+          { status: 409 }
+        );
+      }
+      throw postError;
+    }
+  } catch (error: any) {
+    console.error("FX revaluation error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
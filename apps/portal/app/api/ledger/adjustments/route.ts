@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { createAdminClient } from "@/lib/database/admin-client";
+import { isBalanced, postJournalEntry, type JournalLineInput } from "@/lib/ledger/journal";
+import { canAccessCompanyProfile, getBooksScope } from "@/lib/books/scope";
+import { isPeriodLockError } from "@/lib/books/period-close";
+import { getBooksPermissions } from "@/lib/review/workflow";
+
+/**
+ * POST /api/ledger/adjustments
+ * Post an adjustment journal entry. This is the only way to change the ledger of a closed
+ * period, so a reason is always required.
+ * Body: { companyProfileId, entryDate, description, reason, reference?,
+ *         lines: [{ accountCode, debit, credit, description? }] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { companyProfileId, entryDate, description, reason, reference, lines } = await request.json();
+
+    if (!companyProfileId || !entryDate) {
+      return NextResponse.json(
+        { error: "Company profile ID and entry date are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!reason?.trim()) {
+      return NextResponse.json(
+        { error: "A reason is required for adjustments" },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(lines) || lines.length < 2) {
+      return NextResponse.json(
+        { error: "An adjustment needs at least two lines" },
+        { status: 400 }
+      );
+    }
+
+    const scope = await getBooksScope(supabase, user.id, companyProfileId);
+    if (!canAccessCompanyProfile(scope, companyProfileId)) {
+      return NextResponse.json(
+        { error: "Company profile not found" },
+        { status: 404 }
+      );
+    }
+
+    // Posting goes through the admin client, so the approve check happens here
+    const permissions = await getBooksPermissions(supabase, companyProfileId);
+    if (!permissions.includes("transactions.approve")) {
+      return NextResponse.json(
+        { error: "You do not have permission to post adjustments" },
+        { status: 403 }
+      );
+    }
+
+    const admin = createAdminClient();
+    const { data: accounts } = await admin
+      .from("chart_of_accounts")
+      .select("id, account_code")
+      .eq("company_profile_id", companyProfileId)
+      .eq("is_active", true);
+
+    const accountIdByCode = new Map<string, string>(
+      (accounts || []).map((a: any) => [a.account_code, a.id])
+    );
+
+    const journalLines: JournalLineInput[] = [];
+    for (const line of lines) {
+      const accountId = accountIdByCode.get(String(line.accountCode || ""));
+      if (!accountId) {
+        return NextResponse.json(
+          { error: `Unknown account code: ${line.accountCode}` },
+          { status: 400 }
+        );
+      }
+      journalLines.push({
+        account_id: accountId,
+        debit: Number(line.debit) || 0,
+        credit: Number(line.credit) || 0,
+        description: line.description || null,
+      });
+    }
+
+    if (!isBalanced(journalLines)) {
+      return NextResponse.json(
+        { error: "Debits and credits must balance" },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const entryId = await postJournalEntry(admin, {
+        companyProfileId,
+        entryDate,
+        description: description || reason.trim(),
+        sourceType: "adjustment",
+        lines: journalLines,
+        reference: reference || null,
+        postedBy: user.id,
+        adjustmentReason: reason.trim(),
+      });
+
+      return NextResponse.json({
+        success: true,
+        entryId,
+      });
+    } catch (postError: any) {
+      if (isPeriodLockError(postError)) {
+        return NextResponse.json(
+          { error: postError.message },
+          { status: 409 }
+        );
+      }
+      throw postError;
+    }
+  } catch (error: any) {
+    console.error("Ledger adjustment error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
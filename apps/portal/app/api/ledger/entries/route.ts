@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+
+/**
+ * GET /api/ledger/entries
+ * List journal entries with their lines and source transaction for audit.
+ * Query: companyProfileId (required), transactionId, accountCode, startDate, endDate,
+ * include_void, limit, offset
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const companyProfileId = searchParams.get("companyProfileId");
+    const transactionId = searchParams.get("transactionId");
+    const accountCode = searchParams.get("accountCode");
+    const startDate = searchParams.get("startDate");
+    const endDate = searchParams.get("endDate");
+    const includeVoid = searchParams.get("include_void") === "true";
+    const limit = Math.min(parseInt(searchParams.get("limit") || "100", 10), 500);
+    const offset = parseInt(searchParams.get("offset") || "0", 10);
+
+    if (!companyProfileId) {
+      return NextResponse.json(
+        { error: "Company profile ID is required" },
+        { status: 400 }
+      );
+    }
+
+    // RLS limits entries to the user's companies
+    let query = supabase
+      .from("journal_entries")
+      .select(`
+        id,
+        entry_date,
+        reference,
+        description,
+        source_type,
+        source_transaction_id,
+        source_document_id,
+        status,
+        void_reason,
+        posted_at,
+        journal_lines${accountCode ? "!inner" : ""} (
+          id,
+          line_number,
+          debit,
+          credit,
+          description,
+          bank_account_id,
+          chart_of_accounts${accountCode ? "!inner" : ""} (account_code, account_name, account_type)
+        ),
+        categorized_transactions (id, original_description, amount, date, category, subcategory, job_id)
+      `, { count: "exact" })
+      .eq("company_profile_id", companyProfileId)
+      .order("entry_date", { ascending: false })
+      .order("posted_at", { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (!includeVoid) {
+      query = query.eq("status", "posted");
+    }
+    if (transactionId) {
+      query = query.eq("source_transaction_id", transactionId);
+    }
+    if (accountCode) {
+      query = query.eq("journal_lines.chart_of_accounts.account_code", accountCode);
+    }
+    if (startDate) {
+      query = query.gte("entry_date", startDate);
+    }
+    if (endDate) {
+      query = query.lte("entry_date", endDate);
+    }
+
+    const { data: entries, error, count } = await query;
+
+    if (error) {
+      console.error("Error fetching journal entries:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch journal entries" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      entries: entries || [],
+      total: count || 0,
+    });
+  } catch (error: any) {
+    console.error("Ledger entries GET error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
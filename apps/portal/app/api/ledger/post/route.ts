@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { createAdminClient } from "@/lib/database/admin-client";
+import { postTransactionsToLedger } from "@/lib/ledger/journal";
+import { postDocumentsToLedger, type DocumentPostingResult } from "@/lib/ledger/documents";
+import { canAccessCompanyProfile, canEditCompanyProfile, getBooksScope } from "@/lib/books/scope";
+
+// PostgREST caps responses at 1000 rows, so backfills read ids a page at a time
+const BACKFILL_PAGE_SIZE = 1000;
+
+/**
+ * Every id a query returns, read a page at a time. The query is rebuilt for each page.
+ */
+async function selectAllIds(buildQuery: () => any, errorMessage: string): Promise<string[]> {
+  const ids: string[] = [];
+
+  for (let offset = 0; ; offset += BACKFILL_PAGE_SIZE) {
+    const { data, error } = await buildQuery()
+      .order("id", { ascending: true })
+      .range(offset, offset + BACKFILL_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(errorMessage);
+    }
+
+    ids.push(...(data || []).map((row: any) => row.id));
+
+    if (!data || data.length < BACKFILL_PAGE_SIZE) break;
+  }
+
+  return ids;
+}
+
+/**
+ * POST /api/ledger/post
+ * Post (or re-post) bank transactions to the general ledger of a company profile.
+ * Body: { companyProfileId, jobId?, transactionIds? } - without a job or ids, every
+ * invoice and transaction in the company's books is posted (backfill). Invoices go first
+ * so payments matched to them clear receivables and payables.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { companyProfileId, jobId, transactionIds } = await request.json();
+
+    if (!companyProfileId) {
+      return NextResponse.json(
+        { error: "Company profile ID is required" },
+        { status: 400 }
+      );
+    }
+
+    // Verify the user can work this company's books
+    const scope = await getBooksScope(supabase, user.id, companyProfileId);
+    if (!canAccessCompanyProfile(scope, companyProfileId)) {
+      return NextResponse.json(
+        { error: "Company profile not found" },
+        { status: 404 }
+      );
+    }
+
+    // Posting runs through the admin client, so viewers are turned away here
+    if (!(await canEditCompanyProfile(supabase, companyProfileId))) {
+      return NextResponse.json(
+        { error: "You do not have permission to post to this company's ledger" },
+        { status: 403 }
+      );
+    }
+
+    // Collect transactions in the company's books
+    let ids: string[] = Array.isArray(transactionIds) ? transactionIds : [];
+    let documents: DocumentPostingResult | null = null;
+    if (ids.length === 0 && !jobId) {
+      const invoiceIds = await selectAllIds(
+        () => supabase
+          .from("financial_documents")
+          .select("id")
+          .eq("company_profile_id", companyProfileId)
+          .eq("file_type", "invoice")
+          .eq("is_deleted", false),
+        "Failed to load invoices"
+      );
+      documents = await postDocumentsToLedger(createAdminClient(), companyProfileId, invoiceIds, user.id);
+    }
+    if (ids.length === 0) {
+      ids = await selectAllIds(() => {
+        let query = supabase
+          .from("categorized_transactions")
+          .select("id")
+          .eq("company_profile_id", companyProfileId);
+
+        if (jobId) {
+          query = query.eq("job_id", jobId);
+        }
+
+        return query;
+      }, "Failed to load transactions");
+    } else {
+      const { data: owned } = await supabase
+        .from("categorized_transactions")
+        .select("id")
+        .in("id", ids)
+        .eq("company_profile_id", companyProfileId);
+      ids = (owned || []).map((t: any) => t.id);
+    }
+
+    const result = await postTransactionsToLedger(createAdminClient(), companyProfileId, ids, user.id);
+
+    return NextResponse.json({
+      success: result.errors.length === 0 && (!documents || documents.errors.length === 0),
+      ...result,
+      documents,
+    });
+  } catch (error: any) {
+    console.error("Ledger post error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { canAccessCompanyProfile, getBooksScope } from "@/lib/books/scope";
+import { getBooksClosedThrough, listPeriodCloses } from "@/lib/books/period-close";
+import { getBooksPermissions } from "@/lib/review/workflow";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/periods/close
+ * Close date and close history for a company (defaults to the active company)
+ * Query: company_profile_id
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const scope = await getBooksScope(supabase, user.id, searchParams.get("company_profile_id"));
+
+    if (scope.companyProfileIds.length !== 1) {
+      return NextResponse.json(
+        { error: "Select a company to manage its periods" },
+        { status: 400 }
+      );
+    }
+
+    const companyProfileId = scope.companyProfileIds[0];
+    const [closedThrough, closes, permissions] = await Promise.all([
+      getBooksClosedThrough(supabase, companyProfileId),
+      listPeriodCloses(supabase, companyProfileId),
+      getBooksPermissions(supabase, companyProfileId),
+    ]);
+
+    return NextResponse.json({
+      company_profile_id: companyProfileId,
+      closed_through: closedThrough,
+      closes,
+      can_close: permissions.includes("periods.lock"),
+      can_adjust: permissions.includes("transactions.approve"),
+    });
+  } catch (error: any) {
+    console.error("Period close GET error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/periods/close
+ * Close the books through a date
+ * Body: { company_profile_id, close_date, notes? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { company_profile_id, close_date, notes } = await request.json();
+
+    if (!company_profile_id || !close_date || !DATE_PATTERN.test(close_date)) {
+      return NextResponse.json(
+        { error: "company_profile_id and close_date (YYYY-MM-DD) are required" },
+        { status: 400 }
+      );
+    }
+
+    const scope = await getBooksScope(supabase, user.id, company_profile_id);
+    if (!canAccessCompanyProfile(scope, company_profile_id)) {
+      return NextResponse.json(
+        { error: "Company profile not found" },
+        { status: 404 }
+      );
+    }
+
+    const { data: closeId, error } = await (supabase as any).rpc("close_books_period", {
+      p_company_profile_id: company_profile_id,
+      p_close_date: close_date,
+      p_notes: notes || null,
+    });
+
+    if (error) {
+      const forbidden = error.message?.includes("permission");
+      return NextResponse.json(
+        { error: error.message || "Failed to close period" },
+        { status: forbidden ? 403 : 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      id: closeId,
+      closed_through: close_date,
+    });
+  } catch (error: any) {
+    console.error("Period close POST error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { canAccessCompanyProfile, getBooksScope } from "@/lib/books/scope";
+
+/**
+ * POST /api/periods/reopen
+ * Reopen the most recent period close; earlier closes stay in force
+ * Body: { company_profile_id, reason }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { company_profile_id, reason } = await request.json();
+
+    if (!company_profile_id || !reason?.trim()) {
+      return NextResponse.json(
+        { error: "company_profile_id and reason are required" },
+        { status: 400 }
+      );
+    }
+
+    const scope = await getBooksScope(supabase, user.id, company_profile_id);
+    if (!canAccessCompanyProfile(scope, company_profile_id)) {
+      return NextResponse.json(
+        { error: "Company profile not found" },
+        { status: 404 }
+      );
+    }
+
+    const { data: closedThrough, error } = await (supabase as any).rpc("reopen_books_period", {
+      p_company_profile_id: company_profile_id,
+      p_reason: reason.trim(),
+    });
+
+    if (error) {
+      const forbidden = error.message?.includes("permission");
+      return NextResponse.json(
+        { error: error.message || "Failed to reopen period" },
+        { status: forbidden ? 403 : 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      closed_through: closedThrough || null,
+    });
+  } catch (error: any) {
+    console.error("Period reopen error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,190 @@
+import { createClient } from '@/lib/database/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { nanoid } from 'nanoid'
+import { loadPracticeOverview } from '@/lib/practice/overview'
+
+/**
+ * Practice Clients API
+ * Lets an accounting practice see every client's workload, invite new clients through
+ * team_invitations and end an engagement.
+ */
+
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: userData } = await (supabase as any)
+      .from('users')
+      .select('tenant_id')
+      .eq('id', user.id)
+      .single()
+
+    const [overview, { data: links }, { data: invitations }] = await Promise.all([
+      loadPracticeOverview(supabase, user.id),
+      userData?.tenant_id
+        ? (supabase as any)
+            .from('practice_clients')
+            .select('id, client_tenant_id, status, created_at')
+            .eq('practice_tenant_id', userData.tenant_id)
+            .eq('status', 'active')
+        : Promise.resolve({ data: [] }),
+      userData?.tenant_id
+        ? (supabase as any)
+            .from('team_invitations')
+            .select('id, email, client_name, status, expires_at, created_at')
+            .eq('tenant_id', userData.tenant_id)
+            .eq('invitation_type', 'practice_client')
+            .eq('status', 'pending')
+            .order('created_at', { ascending: false })
+        : Promise.resolve({ data: [] }),
+    ])
+
+    return NextResponse.json({
+      ...overview,
+      links: links || [],
+      invitations: invitations || [],
+    })
+  } catch (error: any) {
+    console.error('Error loading practice clients:', error)
+    return NextResponse.json({ error: 'Failed to load practice clients' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: userData } = await (supabase as any)
+      .from('users')
+      .select('tenant_id')
+      .eq('id', user.id)
+      .single()
+
+    if (!userData?.tenant_id) {
+      return NextResponse.json(
+        { error: 'Only practice accounts can invite clients' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const { email, client_name, message } = body
+
+    if (!email) {
+      return NextResponse.json({ error: 'Email is required' }, { status: 400 })
+    }
+
+    const { data: existingInvite } = await (supabase as any)
+      .from('team_invitations')
+      .select('id')
+      .eq('email', email.toLowerCase())
+      .eq('tenant_id', userData.tenant_id)
+      .eq('invitation_type', 'practice_client')
+      .eq('status', 'pending')
+      .maybeSingle()
+
+    if (existingInvite) {
+      return NextResponse.json(
+        { error: 'An invitation has already been sent to this email' },
+        { status: 400 }
+      )
+    }
+
+    const inviteToken = nanoid(32)
+    const expiresAt = new Date()
+    expiresAt.setDate(expiresAt.getDate() + 14) // Clients get longer to respond than colleagues
+
+    const { data: invitation, error: inviteError } = await (supabase as any)
+      .from('team_invitations')
+      .insert({
+        tenant_id: userData.tenant_id,
+        email: email.toLowerCase(),
+        role: 'client',
+        invitation_type: 'practice_client',
+        client_name: client_name || null,
+        message,
+        invited_by: user.id,
+        invite_token: inviteToken,
+        expires_at: expiresAt.toISOString(),
+        status: 'pending',
+      })
+      .select()
+      .single()
+
+    if (inviteError) {
+      throw inviteError
+    }
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+    const inviteLink = `${baseUrl}/dashboard/practice/accept?token=${inviteToken}`
+
+    return NextResponse.json({
+      success: true,
+      invitation: {
+        ...invitation,
+        inviteLink,
+      },
+    })
+  } catch (error: any) {
+    console.error('Error inviting client:', error)
+    return NextResponse.json({ error: 'Failed to invite client' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const linkId = searchParams.get('link_id')
+    const invitationId = searchParams.get('invitation_id')
+
+    if (!linkId && !invitationId) {
+      return NextResponse.json(
+        { error: 'link_id or invitation_id is required' },
+        { status: 400 }
+      )
+    }
+
+    // Cancel a pending invitation, or end an engagement (RLS limits both to the two tenants)
+    const { data, error } = linkId
+      ? await (supabase as any)
+          .from('practice_clients')
+          .update({ status: 'revoked' })
+          .eq('id', linkId)
+          .select('id')
+      : await (supabase as any)
+          .from('team_invitations')
+          .update({ status: 'cancelled' })
+          .eq('id', invitationId)
+          .eq('invitation_type', 'practice_client')
+          .select('id')
+
+    if (error) {
+      throw error
+    }
+    if (!data || data.length === 0) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Error removing practice client:', error)
+    return NextResponse.json({ error: 'Failed to remove client' }, { status: 500 })
+  }
+}
@@ -0,0 +1,48 @@
+import { createClient } from '@/lib/database/server'
+import { NextRequest, NextResponse } from 'next/server'
+
+/**
+ * POST /api/practice/invitations/accept
+ * Called by the client business: links its tenant to the practice that sent the invitation.
+ * Body: { token }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token } = await request.json()
+
+    if (!token) {
+      return NextResponse.json({ error: 'token is required' }, { status: 400 })
+    }
+
+    const { data: linkId, error } = await (supabase as any).rpc('accept_practice_client_invitation', {
+      p_token: token,
+    })
+
+    if (error) {
+      const message: string = error.message || ''
+      if (message.includes('not found')) {
+        return NextResponse.json({ error: 'Invitation not found' }, { status: 404 })
+      }
+      if (
+        message.includes('no longer valid') ||
+        message.includes('different email') ||
+        message.includes('Set up your company')
+      ) {
+        return NextResponse.json({ error: message }, { status: 400 })
+      }
+      throw error
+    }
+
+    return NextResponse.json({ success: true, link_id: linkId })
+  } catch (error: any) {
+    console.error('Error accepting practice invitation:', error)
+    return NextResponse.json({ error: 'Failed to accept invitation' }, { status: 500 })
+  }
+}
@@ -1,5 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/database/server';
+import {
+  createMatchGroup,
+  findDocumentGroupsForTransaction,
+  findTransactionGroupsForDocument,
+} from '@/lib/reconciliation/match-groups';
+import { matchPaymentsToInvoices, type InvoicePaymentMatch } from '@/lib/reconciliation/invoice-payments';
+import { getBooksScope, scopeToBooks } from '@/lib/books/scope';
+import { createAdminClient } from '@/lib/database/admin-client';
+import { postReconciliationToLedger } from '@/lib/ledger/documents';
+
+// Groups are only auto-created when they are the single exact, plausible subset
+const AUTO_GROUP_MIN_SCORE = 70;
 
 export async function POST(request: NextRequest) {
   try {
@@ -15,17 +27,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get unreconciled transactions for user
-    const { data: transactions, error: txError } = await supabase
-      .from('categorized_transactions')
-      .select(`
-        *,
-        job:categorization_jobs!inner(
-          id,
-          user_id
-        )
-      `)
-      .eq('job.user_id', user.id)
+    // Optionally limit to one company's books; otherwise every company the user can access
+    const { searchParams } = new URL(request.url);
+    const scope = await getBooksScope(supabase, user.id, searchParams.get('company_profile_id'));
+
+    // Get unreconciled transactions in scope
+    const { data: transactions, error: txError } = await scopeToBooks(
+      supabase
+        .from('categorized_transactions')
+        .select('*'),
+      scope
+    )
       .eq('reconciliation_status', 'unreconciled')
       .order('date', { ascending: false });
 
@@ -37,12 +49,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get unreconciled documents for user from financial_documents table
+    // Get unreconciled documents in scope from financial_documents table
     // Search across all account types (no account filter)
-    const { data: documents, error: docError } = await supabase
-      .from('financial_documents')
-      .select('*')
-      .eq('user_id', user.id)
+    const { data: documents, error: docError } = await scopeToBooks(
+      supabase
+        .from('financial_documents')
+        .select('*'),
+      scope
+    )
       .eq('reconciliation_status', 'unreconciled')
       .is('matched_transaction_id', null)
       .in('file_type', ['receipt', 'invoice'])
@@ -56,21 +70,72 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Open sales invoices, including part-paid ones, for customer receipts
+    const { data: salesInvoices, error: salesError } = await scopeToBooks(
+      supabase
+        .from('financial_documents')
+        .select('id, document_date, total_amount, amount_paid, vendor_name, original_filename, invoice_number, document_number, matched_transaction_id, company_profile_id'),
+      scope
+    )
+      .eq('document_kind', 'sales_invoice')
+      .eq('file_type', 'invoice')
+      .eq('is_deleted', false)
+      .neq('payment_status', 'paid');
+
+    if (salesError) {
+      console.error('Error fetching sales invoices:', salesError);
+      return NextResponse.json(
+        { error: 'Failed to fetch sales invoices' },
+        { status: 500 }
+      );
+    }
+
+    // Customer receipts go first: they quote an invoice number or pay a customer's exact balance,
+    // often weeks after the invoice. Matched as groups so part payments are tracked.
+    const invoicePayments: Array<InvoicePaymentMatch & { group_id: string }> = [];
+    const receipts = transactions.filter((tx: any) =>
+      !tx.matched_document_id && !tx.document_id && !tx.is_breakdown_entry && !(tx.is_debit ?? Number(tx.amount) < 0)
+    );
+    // One-to-one matches from before match groups settle an invoice without recording amount_paid
+    const openInvoices = (salesInvoices || []).filter((doc: any) => !(doc.matched_transaction_id && !Number(doc.amount_paid)));
+
+    for (const companyProfileId of new Set<string>(receipts.map((tx: any) => tx.company_profile_id))) {
+      const matches = matchPaymentsToInvoices(
+        receipts.filter((tx: any) => tx.company_profile_id === companyProfileId),
+        openInvoices.filter((doc: any) => doc.company_profile_id === companyProfileId)
+      );
+
+      for (const match of matches) {
+        const result = await createMatchGroup(supabase, scope, [match.transaction_id], [match.document_id], {
+          source: 'auto',
+          notes: match.reason === 'invoice_number' ? 'Receipt quotes the invoice number' : 'Receipt matches the customer and amount owed',
+        });
+        if (result.error !== undefined) continue;
+
+        invoicePayments.push({ group_id: result.groupId, ...match });
+        const tx = transactions.find((row: any) => row.id === match.transaction_id);
+        if (tx) tx.match_group_id = result.groupId;
+        const doc = documents.find((row: any) => row.id === match.document_id);
+        if (doc) doc.matched_transaction_id = match.transaction_id;
+      }
+    }
+
     let matchedCount = 0;
     const matchedPairs: Array<{ transaction_id: string; document_id: string }> = [];
 
     // Auto-match high-confidence matches
     for (const tx of transactions) {
       // Skip if already matched
-      if (tx.matched_document_id) continue;
+      if (tx.matched_document_id || tx.match_group_id) continue;
 
       // Find best match
       let bestMatch: any = null;
       let bestScore = 0;
 
       for (const doc of documents) {
-        // Skip if already matched
+        // Skip if already matched or in another company's books
         if (doc.matched_transaction_id) continue;
+        if (doc.company_profile_id !== tx.company_profile_id) continue;
 
         const amountDiff = Math.abs((tx.amount || 0) - (doc.total_amount || 0));
         const dateDiff = doc.document_date 
@@ -122,11 +187,82 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Second pass: one payment covering several documents, then several payments covering one document
+    const groupedTransactions = new Set<string>(matchedPairs.map((pair) => pair.transaction_id));
+    const groupedDocuments = new Set<string>();
+    const matchedGroups: Array<{ group_id: string; transaction_ids: string[]; document_ids: string[] }> = [];
+    const isOpenTransaction = (tx: any) =>
+      !tx.matched_document_id && !tx.document_id && !tx.match_group_id && !groupedTransactions.has(tx.id);
+    const isOpenDocument = (doc: any) => !doc.matched_transaction_id && !groupedDocuments.has(doc.id);
+
+    const tryCreateGroup = async (candidates: Array<{ transaction_ids: string[]; document_ids: string[]; score: number }>) => {
+      if (candidates.length !== 1 || candidates[0].score < AUTO_GROUP_MIN_SCORE) return;
+      const candidate = candidates[0];
+      if (candidate.transaction_ids.length + candidate.document_ids.length < 3) return;
+
+      const result = await createMatchGroup(supabase, scope, candidate.transaction_ids, candidate.document_ids, {
+        source: 'auto',
+      });
+      if (result.error !== undefined) return;
+
+      candidate.transaction_ids.forEach((id) => groupedTransactions.add(id));
+      candidate.document_ids.forEach((id) => groupedDocuments.add(id));
+      matchedGroups.push({
+        group_id: result.groupId,
+        transaction_ids: candidate.transaction_ids,
+        document_ids: candidate.document_ids,
+      });
+    };
+
+    const sameCompany = (a: any) => (b: any) => a.company_profile_id === b.company_profile_id;
+
+    for (const tx of transactions) {
+      if (!isOpenTransaction(tx)) continue;
+      await tryCreateGroup(findDocumentGroupsForTransaction(
+        tx,
+        documents.filter(isOpenDocument).filter(sameCompany(tx))
+      ));
+    }
+    for (const doc of documents) {
+      if (!isOpenDocument(doc)) continue;
+      await tryCreateGroup(findTransactionGroupsForDocument(
+        doc,
+        transactions.filter(isOpenTransaction).filter(sameCompany(doc))
+      ));
+    }
+
+    if (matchedPairs.length > 0 || matchedGroups.length > 0 || invoicePayments.length > 0) {
+      try {
+        await postReconciliationToLedger(
+          createAdminClient(),
+          [
+            ...invoicePayments.map((payment) => payment.transaction_id),
+            ...matchedPairs.map((pair) => pair.transaction_id),
+            ...matchedGroups.flatMap((group) => group.transaction_ids),
+          ],
+          [
+            ...invoicePayments.map((payment) => payment.document_id),
+            ...matchedPairs.map((pair) => pair.document_id),
+            ...matchedGroups.flatMap((group) => group.document_ids),
+          ],
+          user.id
+        );
+      } catch (ledgerError) {
+        console.error('Auto-match ledger post error:', ledgerError);
+      }
+    }
+
     return NextResponse.json({
       success: true,
       matched_count: matchedCount,
       matches: matchedPairs,
-      message: `Successfully auto-matched ${matchedCount} transaction(s)`,
+      grouped_count: matchedGroups.length,
+      groups: matchedGroups,
+      invoice_payment_count: invoicePayments.length,
+      invoice_payments: invoicePayments,
+      message: `Successfully auto-matched ${matchedCount} transaction(s)` +
+        (matchedGroups.length > 0 ? ` and created ${matchedGroups.length} match group(s)` : '') +
+        (invoicePayments.length > 0 ? `; ${invoicePayments.length} customer payment(s) matched to sales invoices` : ''),
     });
   } catch (error) {
     console.error('Auto-match error:', error);
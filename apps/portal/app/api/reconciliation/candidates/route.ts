@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/database/server';
+import { getBooksScope, scopeToBooks } from '@/lib/books/scope';
 
 export async function GET(request: NextRequest) {
   try {
@@ -26,19 +27,24 @@ export async function GET(request: NextRequest) {
     // Get source filter if provided
     const sourceType = searchParams.get('sourceType'); // 'upload', 'google_sheets', 'manual', 'api'
 
+    // Books shared with the user's companies, optionally narrowed to one
+    const scope = await getBooksScope(supabase, user.id, searchParams.get('company_profile_id'));
+
     // Get transactions (all or filtered by status)
     // Now includes source tracking fields for sync-aware reconciliation
-    let txQuery = db
-      .from('categorized_transactions')
-      .select(`
-        *,
-        job:categorization_jobs!inner(
-          id,
-          original_filename,
-          created_at
-        )
-      `)
-      .eq('job.user_id', user.id)
+    let txQuery = scopeToBooks(
+      db
+        .from('categorized_transactions')
+        .select(`
+          *,
+          job:categorization_jobs!inner(
+            id,
+            original_filename,
+            created_at
+          )
+        `),
+      scope
+    )
       .order('date', { ascending: false })
       .range(offset, offset + limit - 1);
 
@@ -64,18 +70,20 @@ export async function GET(request: NextRequest) {
 
     // Get unreconciled documents (for potential matches)
     // Try financial_documents first, fallback to documents for backward compatibility
-    const { data: documents, error: docError } = await db
-      .from('financial_documents')
-      .select(`
-        id, original_filename, vendor_name, document_date, 
-        total_amount, subtotal_amount, tax_amount, fee_amount, net_amount, 
-        tax_rate, line_items, payment_method, po_number,
-        reconciliation_status, matched_transaction_id, 
-        file_type, mime_type, file_size_bytes, ocr_status, extracted_text,
-        supabase_path, storage_tier, extracted_data, category, subcategory,
-        tags, description, notes
-      `)
-      .eq('user_id', user.id)
+    const { data: documents, error: docError } = await scopeToBooks(
+      db
+        .from('financial_documents')
+        .select(`
+          id, original_filename, vendor_name, document_date, 
+          total_amount, subtotal_amount, tax_amount, fee_amount, net_amount, 
+          tax_rate, line_items, payment_method, po_number,
+          reconciliation_status, matched_transaction_id, 
+          file_type, mime_type, file_size_bytes, ocr_status, extracted_text,
+          supabase_path, storage_tier, extracted_data, category, subcategory,
+          tags, description, notes, company_profile_id
+        `),
+      scope
+    )
       .eq('reconciliation_status', 'unreconciled')
       .is('matched_transaction_id', null)
       .order('document_date', { ascending: false });
@@ -138,6 +146,9 @@ export async function GET(request: NextRequest) {
       if (tx.reconciliation_status === 'unreconciled') {
         potentialMatches = (documents || [])
           .filter((doc: any) => {
+            // Never suggest a document from another company's books
+            if (doc.company_profile_id !== tx.company_profile_id) return false;
+
             const amountDiff = Math.abs((tx.amount || 0) - (doc.total_amount || 0));
             const dateDiff = doc.document_date 
               ? Math.abs(
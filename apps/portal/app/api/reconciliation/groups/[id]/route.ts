@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/database/server';
+import { getBooksScope, scopeToBooks } from '@/lib/books/scope';
+import { createAdminClient } from '@/lib/database/admin-client';
+import { postMatchGroupToLedger } from '@/lib/ledger/documents';
+
+// Undo a match group
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const scope = await getBooksScope(supabase, user.id);
+    const { data: group } = await scopeToBooks(
+      supabase
+        .from('reconciliation_match_groups')
+        .select('id, status')
+        .eq('id', id),
+      scope
+    ).single();
+
+    if (!group) {
+      return NextResponse.json(
+        { error: 'Match group not found' },
+        { status: 404 }
+      );
+    }
+    if (group.status !== 'active') {
+      return NextResponse.json(
+        { error: 'Match group has already been undone' },
+        { status: 400 }
+      );
+    }
+
+    const { error: undoError } = await supabase.rpc('undo_reconciliation_match_group', {
+      p_group_id: id,
+    });
+
+    if (undoError) {
+      console.error('Undo match group error:', undoError);
+      return NextResponse.json(
+        { error: 'Failed to undo match group' },
+        { status: 500 }
+      );
+    }
+
+    try {
+      await postMatchGroupToLedger(createAdminClient(), id, user.id);
+    } catch (ledgerError) {
+      console.error('Match group ledger post error:', ledgerError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Match group undone',
+    });
+  } catch (error) {
+    console.error('Undo match group error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
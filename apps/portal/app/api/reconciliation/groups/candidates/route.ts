@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/database/server';
+import {
+  findDocumentGroupsForTransaction,
+  findTransactionGroupsForDocument,
+} from '@/lib/reconciliation/match-groups';
+import { getBooksScope, scopeToBooks } from '@/lib/books/scope';
+
+// Card processors typically deduct up to ~3% before paying out
+const DEFAULT_MAX_SHORTFALL_PERCENT = 3;
+const CANDIDATE_WINDOW_DAYS = 60;
+
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(date);
+  shifted.setDate(shifted.getDate() + days);
+  return shifted.toISOString().split('T')[0];
+}
+
+// Suggest match groups for one transaction (several documents) or one document (several transactions),
+// along with the open items in the window so the user can build a group by hand
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const transactionId = searchParams.get('transaction_id');
+    const documentId = searchParams.get('document_id');
+    const maxShortfallPercent = parseFloat(
+      searchParams.get('max_shortfall_percent') || String(DEFAULT_MAX_SHORTFALL_PERCENT)
+    );
+
+    if (!transactionId === !documentId) {
+      return NextResponse.json(
+        { error: 'Provide either transaction_id or document_id' },
+        { status: 400 }
+      );
+    }
+
+    const transactionFields = 'id, date, amount, original_description, bank_account_id, company_profile_id';
+    const documentFields = 'id, document_date, total_amount, amount_paid, vendor_name, original_filename, bank_account_id, company_profile_id, payment_status';
+    const scope = await getBooksScope(supabase, user.id);
+
+    if (transactionId) {
+      const { data: transaction } = await scopeToBooks(
+        supabase
+          .from('categorized_transactions')
+          .select(transactionFields)
+          .eq('id', transactionId),
+        scope
+      ).single();
+
+      if (!transaction) {
+        return NextResponse.json(
+          { error: 'Transaction not found' },
+          { status: 404 }
+        );
+      }
+
+      const { data: documents, error: docError } = await supabase
+        .from('financial_documents')
+        .select(documentFields)
+        .eq('company_profile_id', transaction.company_profile_id)
+        .in('file_type', ['receipt', 'invoice'])
+        .in('reconciliation_status', ['unreconciled', 'partial'])
+        .neq('payment_status', 'paid')
+        .gte('document_date', shiftDate(transaction.date, -CANDIDATE_WINDOW_DAYS))
+        .lte('document_date', shiftDate(transaction.date, CANDIDATE_WINDOW_DAYS));
+
+      if (docError) {
+        console.error('Error fetching documents:', docError);
+        return NextResponse.json(
+          { error: 'Failed to fetch documents' },
+          { status: 500 }
+        );
+      }
+
+      const candidates = findDocumentGroupsForTransaction(transaction, documents || [], { maxShortfallPercent });
+      const documentsById = new Map((documents || []).map((doc: any) => [doc.id, doc]));
+
+      return NextResponse.json({
+        success: true,
+        candidates: candidates.map((candidate) => ({
+          ...candidate,
+          transactions: [transaction],
+          documents: candidate.document_ids.map((id) => documentsById.get(id)),
+        })),
+        open_documents: documents || [],
+      });
+    }
+
+    const { data: document } = await scopeToBooks(
+      supabase
+        .from('financial_documents')
+        .select(documentFields)
+        .eq('id', documentId),
+      scope
+    ).single();
+
+    if (!document) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    let transactionQuery = supabase
+      .from('categorized_transactions')
+      .select(transactionFields)
+      .eq('company_profile_id', document.company_profile_id)
+      .eq('reconciliation_status', 'unreconciled')
+      .is('match_group_id', null)
+      .is('document_id', null);
+
+    if (document.document_date) {
+      transactionQuery = transactionQuery
+        .gte('date', shiftDate(document.document_date, -CANDIDATE_WINDOW_DAYS))
+        .lte('date', shiftDate(document.document_date, CANDIDATE_WINDOW_DAYS));
+    }
+
+    const { data: transactions, error: txError } = await transactionQuery;
+
+    if (txError) {
+      console.error('Error fetching transactions:', txError);
+      return NextResponse.json(
+        { error: 'Failed to fetch transactions' },
+        { status: 500 }
+      );
+    }
+
+    const candidates = findTransactionGroupsForDocument(document, transactions || [], { maxShortfallPercent });
+    const transactionsById = new Map((transactions || []).map((tx: any) => [tx.id, tx]));
+
+    return NextResponse.json({
+      success: true,
+      candidates: candidates.map((candidate) => ({
+        ...candidate,
+        transactions: candidate.transaction_ids.map((id) => transactionsById.get(id)),
+        documents: [document],
+      })),
+      open_transactions: transactions || [],
+    });
+  } catch (error) {
+    console.error('Match group candidates error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/database/server';
+import { getBooksScope, scopeToBooks } from '@/lib/books/scope';
+import { createMatchGroup } from '@/lib/reconciliation/match-groups';
+import { createAdminClient } from '@/lib/database/admin-client';
+import { postReconciliationToLedger } from '@/lib/ledger/documents';
+
+// List match groups with their transactions and document allocations
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') || 'active';
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10), 200);
+    const scope = await getBooksScope(supabase, user.id, searchParams.get('company_profile_id'));
+
+    let query = scopeToBooks(supabase
+      .from('reconciliation_match_groups')
+      .select(`
+        id,
+        status,
+        match_type,
+        transactions_total,
+        allocated_total,
+        write_off_amount,
+        tolerance,
+        source,
+        notes,
+        created_at,
+        undone_at,
+        items:reconciliation_match_group_items (
+          id,
+          transaction_id,
+          document_id,
+          amount,
+          transaction:categorized_transactions (id, date, amount, original_description),
+          document:financial_documents (id, vendor_name, original_filename, document_date, total_amount, amount_paid, payment_status)
+        )
+      `), scope)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (status !== 'all') {
+      query = query.eq('status', status);
+    }
+
+    const { data: groups, error } = await query;
+
+    if (error) {
+      console.error('Error fetching match groups:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch match groups' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      groups: groups || [],
+    });
+  } catch (error) {
+    console.error('Match groups GET error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a match group from selected transactions and documents
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const {
+      transaction_ids,
+      document_ids,
+      tolerance,
+      write_off_shortfall = false,
+      notes,
+      company_profile_id,
+    } = body;
+
+    if (!Array.isArray(transaction_ids) || transaction_ids.length === 0 ||
+        !Array.isArray(document_ids) || document_ids.length === 0) {
+      return NextResponse.json(
+        { error: 'transaction_ids and document_ids must each contain at least one id' },
+        { status: 400 }
+      );
+    }
+    if (tolerance !== undefined && (typeof tolerance !== 'number' || tolerance < 0 || tolerance > 1)) {
+      return NextResponse.json(
+        { error: 'tolerance must be a number between 0 and 1' },
+        { status: 400 }
+      );
+    }
+
+    const scope = await getBooksScope(supabase, user.id, company_profile_id);
+    const result = await createMatchGroup(supabase, scope, transaction_ids, document_ids, {
+      tolerance,
+      writeOffShortfall: write_off_shortfall === true,
+      notes: notes || null,
+    });
+
+    if (result.error !== undefined) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    // Payments of invoices in the ledger now clear receivables or payables
+    try {
+      await postReconciliationToLedger(createAdminClient(), transaction_ids, document_ids, user.id);
+    } catch (ledgerError) {
+      console.error('Match group ledger post error:', ledgerError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      group_id: result.groupId,
+      allocations: result.plan.allocations,
+      write_off_amount: result.plan.writeOffAmount,
+      partial: result.plan.partial,
+    });
+  } catch (error: any) {
+    console.error('Match group create error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/database/server";
 import { findInvoiceMatches } from "@/lib/ai/invoice-matcher";
+import { getBooksScope, scopeToBooks } from "@/lib/books/scope";
 
 export async function POST(request: NextRequest) {
   try {
@@ -24,13 +25,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const scope = await getBooksScope(supabase, user.id);
+
     // Get invoice/document details
-    const { data: invoice, error: invoiceError } = await supabase
-      .from("financial_documents")
-      .select("id, total_amount, document_date, vendor_name, bank_account_id, user_id")
-      .eq("id", invoice_id)
-      .eq("user_id", user.id)
-      .single();
+    const { data: invoice, error: invoiceError } = await scopeToBooks(
+      supabase
+        .from("financial_documents")
+        .select("id, total_amount, document_date, vendor_name, bank_account_id, user_id, company_profile_id")
+        .eq("id", invoice_id),
+      scope
+    ).single();
 
     if (invoiceError || !invoice) {
       // Try documents table as fallback
@@ -58,16 +62,19 @@ export async function POST(request: NextRequest) {
       };
 
       // Get transactions
-      let txQuery = supabase
-        .from("categorized_transactions")
-        .select(`
-          id,
-          date,
-          amount,
-          original_description,
-          bank_account_id,
-          bank_account:bank_accounts(account_name)
-        `)
+      let txQuery = scopeToBooks(
+        supabase
+          .from("categorized_transactions")
+          .select(`
+            id,
+            date,
+            amount,
+            original_description,
+            bank_account_id,
+            bank_account:bank_accounts(account_name)
+          `),
+        scope
+      )
         .eq("reconciliation_status", "unreconciled")
         .order("date", { ascending: false })
         .limit(1000);
@@ -78,7 +85,6 @@ export async function POST(request: NextRequest) {
         txQuery = txQuery.eq("bank_account_id", finalBankAccountId);
       }
 
-      // Also filter by user via job
       const { data: transactions, error: txError } = await txQuery;
 
       if (txError) {
@@ -137,10 +143,9 @@ export async function POST(request: NextRequest) {
         amount,
         original_description,
         bank_account_id,
-        bank_account:bank_accounts(account_name),
-        job:categorization_jobs!inner(user_id)
+        bank_account:bank_accounts(account_name)
       `)
-      .eq("job.user_id", user.id)
+      .eq("company_profile_id", invoice.company_profile_id)
       .eq("reconciliation_status", "unreconciled")
       .order("date", { ascending: false })
       .limit(1000);
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/database/server';
+import { getBooksScope, scopeToBooks } from '@/lib/books/scope';
+import { createAdminClient } from '@/lib/database/admin-client';
+import { postMatchGroupToLedger, postReconciliationToLedger } from '@/lib/ledger/documents';
 
 export async function POST(request: NextRequest) {
   try {
@@ -25,17 +28,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Verify user owns both the transaction and document
-    const { data: transaction, error: txError } = await supabase
-      .from('categorized_transactions')
-      .select(`
-        *,
-        job:categorization_jobs!inner(user_id)
-      `)
-      .eq('id', transaction_id)
-      .single();
-
-    if (txError || !transaction || transaction.job.user_id !== user.id) {
+    // Verify the transaction is in the user's books and they own the document
+    const scope = await getBooksScope(supabase, user.id);
+    const { data: transaction, error: txError } = await scopeToBooks(
+      supabase
+        .from('categorized_transactions')
+        .select('*')
+        .eq('id', transaction_id),
+      scope
+    ).single();
+
+    if (txError || !transaction) {
       return NextResponse.json(
         { error: 'Transaction not found or unauthorized' },
         { status: 404 }
@@ -73,6 +76,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    try {
+      await postReconciliationToLedger(createAdminClient(), [transaction_id], [document_id], user.id);
+    } catch (ledgerError) {
+      console.error('Match ledger post error:', ledgerError);
+    }
+
     return NextResponse.json({
       success: true,
       message: 'Transaction matched with document successfully',
@@ -111,23 +120,49 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    // Verify user owns the transaction
-    const { data: transaction, error: txError } = await supabase
-      .from('categorized_transactions')
-      .select(`
-        *,
-        job:categorization_jobs!inner(user_id)
-      `)
-      .eq('id', transaction_id)
-      .single();
-
-    if (txError || !transaction || transaction.job.user_id !== user.id) {
+    // Verify the transaction is in the user's books
+    const scope = await getBooksScope(supabase, user.id);
+    const { data: transaction, error: txError } = await scopeToBooks(
+      supabase
+        .from('categorized_transactions')
+        .select('*')
+        .eq('id', transaction_id),
+      scope
+    ).single();
+
+    if (txError || !transaction) {
       return NextResponse.json(
         { error: 'Transaction not found or unauthorized' },
         { status: 404 }
       );
     }
 
+    // Grouped transactions are released by undoing their whole match group
+    if (transaction.match_group_id) {
+      const { error: undoError } = await supabase.rpc('undo_reconciliation_match_group', {
+        p_group_id: transaction.match_group_id,
+      });
+
+      if (undoError) {
+        console.error('Undo match group error:', undoError);
+        return NextResponse.json(
+          { error: 'Failed to unmatch transaction' },
+          { status: 500 }
+        );
+      }
+
+      try {
+        await postMatchGroupToLedger(createAdminClient(), transaction.match_group_id, user.id);
+      } catch (ledgerError) {
+        console.error('Match group ledger post error:', ledgerError);
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: 'Match group undone successfully',
+      });
+    }
+
     // Use the database function to unmatch
     const { data: result, error: unmatchError } = await supabase.rpc(
       'unmatch_transaction',
@@ -144,6 +179,12 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
+    try {
+      await postReconciliationToLedger(createAdminClient(), [transaction_id], [], user.id);
+    } catch (ledgerError) {
+      console.error('Unmatch ledger post error:', ledgerError);
+    }
+
     return NextResponse.json({
       success: true,
       message: 'Transaction unmatched successfully',
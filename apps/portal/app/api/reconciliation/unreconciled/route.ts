@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/database/server';
+import { getBooksScope, scopeToBooks } from '@/lib/books/scope';
 
 /**
  * GET /api/reconciliation/unreconciled
@@ -19,11 +20,16 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const { searchParams } = new URL(request.url);
+    const scope = await getBooksScope(supabase, user.id, searchParams.get('company_profile_id'));
+
     // Get unreconciled invoices (invoices without matching transactions)
-    const { data: invoices, error: invoicesError } = await supabase
-      .from('financial_documents')
-      .select('*')
-      .eq('user_id', user.id)
+    const { data: invoices, error: invoicesError } = await scopeToBooks(
+      supabase
+        .from('financial_documents')
+        .select('*'),
+      scope
+    )
       .eq('file_type', 'invoice')
       .eq('reconciliation_status', 'unreconciled')
       .is('matched_transaction_id', null)
@@ -38,16 +44,12 @@ export async function GET(request: NextRequest) {
     }
 
     // Get unreconciled transactions (transactions without matching invoices/documents)
-    const { data: transactions, error: transactionsError } = await supabase
-      .from('categorized_transactions')
-      .select(`
-        *,
-        job:categorization_jobs!inner(
-          id,
-          user_id
-        )
-      `)
-      .eq('job.user_id', user.id)
+    const { data: transactions, error: transactionsError } = await scopeToBooks(
+      supabase
+        .from('categorized_transactions')
+        .select('*'),
+      scope
+    )
       .eq('reconciliation_status', 'unreconciled')
       .is('matched_document_id', null)
       .order('date', { ascending: false });
@@ -62,10 +64,10 @@ export async function GET(request: NextRequest) {
 
     // For each invoice, find potential transaction matches
     const invoicesWithMatches = await Promise.all(
-      (invoices || []).map(async (invoice) => {
+      (invoices || []).map(async (invoice: any) => {
         const potentialMatches = await findPotentialMatches(
           invoice,
-          transactions || [],
+          (transactions || []).filter((tx: any) => tx.company_profile_id === invoice.company_profile_id),
           supabase,
           'transaction'
         );
@@ -79,10 +81,10 @@ export async function GET(request: NextRequest) {
 
     // For each transaction, find potential invoice/document matches
     const transactionsWithMatches = await Promise.all(
-      (transactions || []).map(async (transaction) => {
+      (transactions || []).map(async (transaction: any) => {
         const potentialMatches = await findPotentialMatches(
           transaction,
-          invoices || [],
+          (invoices || []).filter((doc: any) => doc.company_profile_id === transaction.company_profile_id),
           supabase,
           'document'
         );
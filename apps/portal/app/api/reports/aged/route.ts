@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { getBooksScope } from "@/lib/books/scope";
+import { getBaseCurrency } from "@/lib/fx/rates";
+import { toCSV } from "@/lib/exports/accounting-export";
+import {
+  AGEING_BUCKETS,
+  AGEING_BUCKET_LABELS,
+  getAgedBalances,
+} from "@/lib/ledger/aged-balances";
+
+/**
+ * GET /api/reports/aged
+ * Aged receivables or payables for a company (defaults to the active company)
+ * Query: type (receivables | payables), as_of (defaults to today), company_profile_id, format (json | csv)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const type = searchParams.get("type") || "receivables";
+    const asOf = searchParams.get("as_of") || new Date().toISOString().split("T")[0];
+    const format = searchParams.get("format") || "json";
+
+    if (type !== "receivables" && type !== "payables") {
+      return NextResponse.json(
+        { error: "type must be receivables or payables" },
+        { status: 400 }
+      );
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+      return NextResponse.json(
+        { error: "as_of must be a date (YYYY-MM-DD)" },
+        { status: 400 }
+      );
+    }
+
+    const scope = await getBooksScope(supabase, user.id, searchParams.get("company_profile_id"));
+    if (scope.companyProfileIds.length !== 1) {
+      return NextResponse.json(
+        { error: "Select a company to see its aged balances" },
+        { status: 400 }
+      );
+    }
+
+    const companyProfileId = scope.companyProfileIds[0];
+    const [report, baseCurrency] = await Promise.all([
+      getAgedBalances(supabase, companyProfileId, type === "receivables" ? "sales_invoice" : "bill", asOf),
+      getBaseCurrency(supabase, companyProfileId),
+    ]);
+
+    if (format === "csv") {
+      const headers = [
+        type === "receivables" ? "Customer" : "Supplier",
+        "Invoice",
+        "Date",
+        "Due",
+        "Days overdue",
+        "Currency",
+        "Outstanding",
+        `Outstanding (${baseCurrency})`,
+        ...AGEING_BUCKETS.map((bucket) => AGEING_BUCKET_LABELS[bucket]),
+      ];
+      const rows = report.contacts.flatMap((contact) =>
+        contact.invoices.map((invoice) => [
+          contact.contact_name,
+          invoice.invoice_number || "",
+          invoice.document_date,
+          invoice.due_date || "",
+          invoice.days_overdue,
+          invoice.currency || "",
+          invoice.outstanding_amount.toFixed(2),
+          invoice.base_outstanding_amount === null ? "" : invoice.base_outstanding_amount.toFixed(2),
+          ...AGEING_BUCKETS.map((bucket) =>
+            bucket === invoice.bucket && invoice.base_outstanding_amount !== null
+              ? invoice.base_outstanding_amount.toFixed(2)
+              : ""
+          ),
+        ])
+      );
+
+      return new NextResponse(toCSV(headers, rows), {
+        headers: {
+          "Content-Type": "text/csv",
+          "Content-Disposition": `attachment; filename="aged-${type}-${asOf}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      company_profile_id: companyProfileId,
+      base_currency: baseCurrency,
+      ...report,
+    });
+  } catch (error: any) {
+    console.error("Aged balances error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
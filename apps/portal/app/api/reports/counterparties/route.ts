@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/database/server";
+import { getBooksScope, scopeToBooks } from "@/lib/books/scope";
 
 type Direction = "money_in" | "money_out" | "both";
 
@@ -22,24 +23,26 @@ export async function GET(request: NextRequest) {
     const q = (searchParams.get("q") || "").toLowerCase();
     const companyProfileId = searchParams.get("companyProfileId");
 
-    let txQuery = supabase
-      .from("categorized_transactions")
-      .select(
+    const scope = await getBooksScope(supabase, user.id, companyProfileId);
+
+    let txQuery = scopeToBooks(
+      supabase
+        .from("categorized_transactions")
+        .select(
+          `
+          id,
+          date,
+          amount,
+          is_debit,
+          paid_in_amount,
+          paid_out_amount,
+          payee_name,
+          payer_name,
+          original_description
         `
-        id,
-        date,
-        amount,
-        is_debit,
-        paid_in_amount,
-        paid_out_amount,
-        payee_name,
-        payer_name,
-        original_description,
-        job:categorization_jobs!inner(user_id, bank_account_id)
-      `
-      )
-      .eq("job.user_id", user.id)
-      .order("date", { ascending: false });
+        ),
+      scope
+    ).order("date", { ascending: false });
 
     if (startDate) {
       txQuery = txQuery.gte("date", startDate);
@@ -56,33 +59,6 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Optional company filter using bank_account_id -> bank_accounts.company_profile_id
-    let companyScopedTx = transactions || [];
-    if (companyProfileId) {
-      const bankAccountIds = Array.from(
-        new Set(
-          (transactions || [])
-            .map((tx: any) => tx?.job?.bank_account_id)
-            .filter(Boolean)
-        )
-      );
-      if (bankAccountIds.length > 0) {
-        const { data: accounts } = await supabase
-          .from("bank_accounts")
-          .select("id, company_profile_id")
-          .in("id", bankAccountIds);
-        const accountCompanyMap = new Map(
-          (accounts || []).map((a: any) => [a.id, a.company_profile_id])
-        );
-        companyScopedTx = (transactions || []).filter((tx: any) => {
-          const acctId = tx?.job?.bank_account_id;
-          return acctId && accountCompanyMap.get(acctId) === companyProfileId;
-        });
-      } else {
-        companyScopedTx = [];
-      }
-    }
-
     type Bucket = {
       name: string;
       total_money_in: number;
@@ -94,7 +70,7 @@ export async function GET(request: NextRequest) {
 
     const buckets = new Map<string, Bucket>();
 
-    for (const tx of companyScopedTx) {
+    for (const tx of transactions || []) {
       const paidIn =
         tx.paid_in_amount ?? (tx.is_debit === false ? Number(tx.amount || 0) : 0);
       const paidOut =
@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/database/server';
+import { getBooksScope, scopeToBooks } from '@/lib/books/scope';
+import {
+  canApproveTransaction,
+  getBooksPermissions,
+  transitionTransactionReview,
+  type BooksPermission,
+} from '@/lib/review/workflow';
+
+const ACTIONS = {
+  approve: 'approved',
+  send_back: 'categorized',
+  lock: 'locked',
+  unlock: 'approved',
+} as const;
+
+/**
+ * GET /api/review/approvals
+ * Reviewed transactions waiting for a second person to approve them
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const scope = await getBooksScope(supabase, user.id, searchParams.get('company_profile_id'));
+    const status = searchParams.get('status') === 'approved' ? 'approved' : 'reviewed';
+
+    const { data: transactions, error } = await scopeToBooks(
+      (supabase as any)
+        .from('categorized_transactions')
+        .select(
+          'id, company_profile_id, date, original_description, amount, is_debit, category, subcategory, vat_code, ' +
+          'review_status, review_note, last_edited_by, last_edited_at, reviewed_by, reviewed_at, approved_by, approved_at'
+        ),
+      scope
+    )
+      .eq('review_status', status)
+      .not('is_breakdown_entry', 'is', true)
+      .order('reviewed_at', { ascending: true })
+      .limit(500);
+
+    if (error) {
+      console.error('Error fetching approval queue:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch approval queue' },
+        { status: 500 }
+      );
+    }
+
+    const rows = transactions || [];
+    const companyIds: string[] = Array.from(new Set(rows.map((tx: any) => tx.company_profile_id)));
+    const permissionsByCompany = new Map<string, BooksPermission[]>(
+      await Promise.all(
+        companyIds.map(async (id) => [id, await getBooksPermissions(supabase, id)] as [string, BooksPermission[]])
+      )
+    );
+
+    // Show who made and checked each change
+    const userIds = Array.from(new Set(
+      rows.flatMap((tx: any) => [tx.last_edited_by, tx.reviewed_by, tx.approved_by]).filter(Boolean)
+    ));
+    const { data: people } = userIds.length > 0
+      ? await (supabase as any).from('users').select('id, email, full_name').in('id', userIds)
+      : { data: [] };
+    const names = new Map<string, string>(
+      (people || []).map((person: any) => [person.id, person.full_name || person.email])
+    );
+    const nameOf = (id: string | null) => (id ? (id === user.id ? 'You' : names.get(id) || 'Another user') : null);
+
+    return NextResponse.json({
+      transactions: rows.map((tx: any) => {
+        const permissions = permissionsByCompany.get(tx.company_profile_id) || [];
+        return {
+          ...tx,
+          last_edited_by_name: nameOf(tx.last_edited_by),
+          reviewed_by_name: nameOf(tx.reviewed_by),
+          approved_by_name: nameOf(tx.approved_by),
+          can_approve: canApproveTransaction(tx, user.id, permissions),
+          can_send_back: permissions.includes('transactions.approve'),
+          can_lock: permissions.includes('periods.lock'),
+        };
+      }),
+    });
+  } catch (error: any) {
+    console.error('Error fetching approval queue:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/review/approvals
+ * Approve, send back or lock a batch of transactions
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { transaction_ids, action, note } = body;
+
+    if (!Array.isArray(transaction_ids) || transaction_ids.length === 0) {
+      return NextResponse.json(
+        { error: 'transaction_ids is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!(action in ACTIONS)) {
+      return NextResponse.json(
+        { error: `action must be one of: ${Object.keys(ACTIONS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'send_back' && !note) {
+      return NextResponse.json(
+        { error: 'A note is required when sending a transaction back' },
+        { status: 400 }
+      );
+    }
+
+    const result = await transitionTransactionReview(
+      supabase,
+      transaction_ids,
+      ACTIONS[action as keyof typeof ACTIONS],
+      note
+    );
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    });
+  } catch (error: any) {
+    console.error('Error updating review status:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
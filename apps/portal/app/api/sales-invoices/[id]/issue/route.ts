@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { createAdminClient } from "@/lib/database/admin-client";
+import { canAccessCompanyProfile, getBooksScope } from "@/lib/books/scope";
+import { postDocumentsToLedger } from "@/lib/ledger/documents";
+import { getSalesInvoice, issueSalesInvoice } from "@/lib/sales-invoices/invoices";
+
+/**
+ * POST /api/sales-invoices/[id]/issue
+ * Number a draft invoice and post it to receivables. From here on it can't be edited.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const invoice = await getSalesInvoice(supabase, id);
+    const scope = await getBooksScope(supabase, user.id, invoice?.company_profile_id);
+
+    if (!invoice || !canAccessCompanyProfile(scope, invoice.company_profile_id)) {
+      return NextResponse.json(
+        { error: "Invoice not found" },
+        { status: 404 }
+      );
+    }
+
+    let documentId: string;
+    try {
+      documentId = await issueSalesInvoice(supabase, id);
+    } catch (issueError: any) {
+      return NextResponse.json(
+        { error: issueError.message },
+        { status: 400 }
+      );
+    }
+
+    try {
+      await postDocumentsToLedger(createAdminClient(), invoice.company_profile_id, [documentId], user.id);
+    } catch (ledgerError) {
+      console.error("Sales invoice ledger post error:", ledgerError);
+    }
+
+    return NextResponse.json({ success: true, invoice: await getSalesInvoice(supabase, id) });
+  } catch (error: any) {
+    console.error("Sales invoice issue error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
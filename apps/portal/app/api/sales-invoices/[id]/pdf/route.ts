@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { createAdminClient } from "@/lib/database/admin-client";
+import { canAccessCompanyProfile, getBooksScope } from "@/lib/books/scope";
+import { getSalesInvoice, getSalesInvoiceSettings } from "@/lib/sales-invoices/invoices";
+import { getInvoiceBranding } from "@/lib/sales-invoices/branding";
+import { renderSalesInvoicePdf } from "@/lib/sales-invoices/pdf";
+
+/**
+ * GET /api/sales-invoices/[id]/pdf
+ * The invoice as a PDF. Drafts render with a DRAFT stamp for checking before issue.
+ * Query: download=1 to save rather than open in the browser
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const invoice = await getSalesInvoice(supabase, id);
+    const scope = await getBooksScope(supabase, user.id, invoice?.company_profile_id);
+
+    if (!invoice || !canAccessCompanyProfile(scope, invoice.company_profile_id)) {
+      return NextResponse.json(
+        { error: "Invoice not found" },
+        { status: 404 }
+      );
+    }
+
+    // Tenant branding isn't readable by company members, so it is loaded once access is confirmed
+    const [branding, settings] = await Promise.all([
+      getInvoiceBranding(createAdminClient(), invoice.company_profile_id),
+      getSalesInvoiceSettings(supabase, invoice.company_profile_id),
+    ]);
+    const pdf = renderSalesInvoicePdf(invoice, branding, settings);
+
+    const { searchParams } = new URL(request.url);
+    const disposition = searchParams.get("download") === "1" ? "attachment" : "inline";
+    const filename = invoice.invoice_number || `draft-invoice-${invoice.id.slice(0, 8)}`;
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `${disposition}; filename="${filename}.pdf"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error: any) {
+    console.error("Sales invoice PDF error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
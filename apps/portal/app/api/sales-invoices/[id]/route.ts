@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { canAccessCompanyProfile, getBooksScope } from "@/lib/books/scope";
+import {
+  getSalesInvoice,
+  getSalesInvoiceSettings,
+  parseSalesInvoiceInput,
+  saveDraftSalesInvoice,
+} from "@/lib/sales-invoices/invoices";
+
+/**
+ * GET /api/sales-invoices/[id]
+ * One invoice with its lines and payment progress
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const invoice = await getSalesInvoice(supabase, id);
+    const scope = await getBooksScope(supabase, user.id, invoice?.company_profile_id);
+
+    if (!invoice || !canAccessCompanyProfile(scope, invoice.company_profile_id)) {
+      return NextResponse.json(
+        { error: "Invoice not found" },
+        { status: 404 }
+      );
+    }
+
+    const settings = await getSalesInvoiceSettings(supabase, invoice.company_profile_id);
+
+    return NextResponse.json({ invoice, settings });
+  } catch (error: any) {
+    console.error("Sales invoice GET error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/sales-invoices/[id]
+ * Replace a draft invoice's details and lines. Issued invoices can only be voided.
+ * Body: as for POST /api/sales-invoices
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const invoice = await getSalesInvoice(supabase, id);
+    const scope = await getBooksScope(supabase, user.id, invoice?.company_profile_id);
+
+    if (!invoice || !canAccessCompanyProfile(scope, invoice.company_profile_id)) {
+      return NextResponse.json(
+        { error: "Invoice not found" },
+        { status: 404 }
+      );
+    }
+    if (invoice.status !== "draft") {
+      return NextResponse.json(
+        { error: "Only draft invoices can be edited" },
+        { status: 400 }
+      );
+    }
+
+    const settings = await getSalesInvoiceSettings(supabase, invoice.company_profile_id);
+    const body = await request.json();
+    const { input, error: inputError } = parseSalesInvoiceInput(body, {
+      currency: invoice.currency,
+      payment_terms_days: settings.payment_terms_days,
+    });
+
+    if (inputError !== undefined) {
+      return NextResponse.json(
+        { error: inputError },
+        { status: 400 }
+      );
+    }
+
+    await saveDraftSalesInvoice(supabase, invoice.company_profile_id, input, { invoiceId: id });
+
+    return NextResponse.json({ success: true, invoice: await getSalesInvoice(supabase, id) });
+  } catch (error: any) {
+    console.error("Sales invoice PATCH error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/sales-invoices/[id]
+ * Discard a draft. Issued invoices keep their number and are voided instead.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const invoice = await getSalesInvoice(supabase, id);
+    const scope = await getBooksScope(supabase, user.id, invoice?.company_profile_id);
+
+    if (!invoice || !canAccessCompanyProfile(scope, invoice.company_profile_id)) {
+      return NextResponse.json(
+        { error: "Invoice not found" },
+        { status: 404 }
+      );
+    }
+    if (invoice.status !== "draft") {
+      return NextResponse.json(
+        { error: "Issued invoices cannot be deleted - void them instead" },
+        { status: 400 }
+      );
+    }
+
+    const { error: deleteError } = await (supabase as any)
+      .from("sales_invoices")
+      .delete()
+      .eq("id", id)
+      .eq("status", "draft");
+
+    if (deleteError) {
+      throw new Error(deleteError.message || "Failed to delete invoice");
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error("Sales invoice DELETE error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
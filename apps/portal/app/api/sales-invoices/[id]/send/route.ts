@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { createAdminClient } from "@/lib/database/admin-client";
+import { canAccessCompanyProfile, getBooksScope } from "@/lib/books/scope";
+import { postDocumentsToLedger } from "@/lib/ledger/documents";
+import {
+  getSalesInvoice,
+  getSalesInvoiceSettings,
+  issueSalesInvoice,
+} from "@/lib/sales-invoices/invoices";
+import { getInvoiceBranding } from "@/lib/sales-invoices/branding";
+import { renderSalesInvoicePdf } from "@/lib/sales-invoices/pdf";
+import { sendSalesInvoiceEmail } from "@/lib/sales-invoices/email";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * POST /api/sales-invoices/[id]/send
+ * Email the invoice PDF to the customer. A draft is issued first, since a customer should
+ * never receive an unnumbered invoice.
+ * Body: to (defaults to the customer's email), message
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    let invoice = await getSalesInvoice(supabase, id);
+    const scope = await getBooksScope(supabase, user.id, invoice?.company_profile_id);
+
+    if (!invoice || !canAccessCompanyProfile(scope, invoice.company_profile_id)) {
+      return NextResponse.json(
+        { error: "Invoice not found" },
+        { status: 404 }
+      );
+    }
+    if (invoice.status === "void") {
+      return NextResponse.json(
+        { error: "Void invoices cannot be sent" },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const to = (typeof body?.to === "string" && body.to.trim()) || invoice.customer_email;
+    const message = typeof body?.message === "string" ? body.message : null;
+
+    if (!to || !EMAIL_PATTERN.test(to)) {
+      return NextResponse.json(
+        { error: "Enter the email address to send the invoice to" },
+        { status: 400 }
+      );
+    }
+
+    if (invoice.status === "draft") {
+      let documentId: string;
+      try {
+        documentId = await issueSalesInvoice(supabase, id);
+      } catch (issueError: any) {
+        return NextResponse.json(
+          { error: issueError.message },
+          { status: 400 }
+        );
+      }
+
+      try {
+        await postDocumentsToLedger(createAdminClient(), invoice.company_profile_id, [documentId], user.id);
+      } catch (ledgerError) {
+        console.error("Sales invoice ledger post error:", ledgerError);
+      }
+
+      invoice = (await getSalesInvoice(supabase, id))!;
+    }
+
+    const [branding, settings] = await Promise.all([
+      getInvoiceBranding(createAdminClient(), invoice.company_profile_id),
+      getSalesInvoiceSettings(supabase, invoice.company_profile_id),
+    ]);
+    const pdf = renderSalesInvoicePdf(invoice, branding, settings);
+    const result = await sendSalesInvoiceEmail(invoice, branding, pdf, { to, message });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || "Failed to send the invoice email", invoice },
+        { status: 502 }
+      );
+    }
+
+    const { error: updateError } = await (supabase as any)
+      .from("sales_invoices")
+      .update({
+        sent_at: new Date().toISOString(),
+        sent_to: to,
+        send_count: (invoice.send_count || 0) + 1,
+      })
+      .eq("id", id);
+
+    if (updateError) {
+      console.error("Sales invoice sent tracking error:", updateError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message_id: result.messageId,
+      invoice: await getSalesInvoice(supabase, id),
+    });
+  } catch (error: any) {
+    console.error("Sales invoice send error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
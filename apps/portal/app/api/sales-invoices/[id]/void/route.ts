@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { createAdminClient } from "@/lib/database/admin-client";
+import { canAccessCompanyProfile, getBooksScope } from "@/lib/books/scope";
+import { postDocumentsToLedger } from "@/lib/ledger/documents";
+import { getSalesInvoice, voidSalesInvoice } from "@/lib/sales-invoices/invoices";
+
+/**
+ * POST /api/sales-invoices/[id]/void
+ * Cancel an issued invoice that hasn't been paid. It keeps its number, so the sequence has no
+ * gaps, and its receivable is reversed.
+ * Body: reason
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const invoice = await getSalesInvoice(supabase, id);
+    const scope = await getBooksScope(supabase, user.id, invoice?.company_profile_id);
+
+    if (!invoice || !canAccessCompanyProfile(scope, invoice.company_profile_id)) {
+      return NextResponse.json(
+        { error: "Invoice not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const reason = typeof body?.reason === "string" ? body.reason.trim() : "";
+
+    if (!reason) {
+      return NextResponse.json(
+        { error: "Give a reason for voiding the invoice" },
+        { status: 400 }
+      );
+    }
+
+    let documentId: string | null;
+    try {
+      documentId = await voidSalesInvoice(supabase, id, reason);
+    } catch (voidError: any) {
+      return NextResponse.json(
+        { error: voidError.message },
+        { status: 400 }
+      );
+    }
+
+    // The document is now deleted, so re-posting voids its journal entry
+    if (documentId) {
+      try {
+        await postDocumentsToLedger(createAdminClient(), invoice.company_profile_id, [documentId], user.id);
+      } catch (ledgerError) {
+        console.error("Sales invoice ledger void error:", ledgerError);
+      }
+    }
+
+    return NextResponse.json({ success: true, invoice: await getSalesInvoice(supabase, id) });
+  } catch (error: any) {
+    console.error("Sales invoice void error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
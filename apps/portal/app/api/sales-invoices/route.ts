@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { getBooksScope } from "@/lib/books/scope";
+import { getBaseCurrency } from "@/lib/fx/rates";
+import {
+  getSalesInvoice,
+  getSalesInvoiceSettings,
+  listSalesInvoices,
+  parseSalesInvoiceInput,
+  saveDraftSalesInvoice,
+} from "@/lib/sales-invoices/invoices";
+
+/**
+ * GET /api/sales-invoices
+ * A company's sales invoices with payment progress, plus its numbering settings
+ * Query: company_profile_id
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const scope = await getBooksScope(supabase, user.id, searchParams.get("company_profile_id"));
+
+    if (scope.companyProfileIds.length !== 1) {
+      return NextResponse.json(
+        { error: "Select a company to view its sales invoices" },
+        { status: 400 }
+      );
+    }
+
+    const companyProfileId = scope.companyProfileIds[0];
+    const [invoices, settings, baseCurrency] = await Promise.all([
+      listSalesInvoices(supabase, companyProfileId),
+      getSalesInvoiceSettings(supabase, companyProfileId),
+      getBaseCurrency(supabase, companyProfileId),
+    ]);
+
+    return NextResponse.json({
+      company_profile_id: companyProfileId,
+      base_currency: baseCurrency,
+      settings,
+      invoices,
+    });
+  } catch (error: any) {
+    console.error("Sales invoices GET error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/sales-invoices
+ * Create a draft invoice. It is numbered and posted to receivables when issued.
+ * Body: customer_name, customer_email, customer_address, reference, issue_date, due_date,
+ * currency, category, subcategory, notes, lines[{ description, quantity, unit_price, vat_code, vat_rate }]
+ * Query: company_profile_id
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const scope = await getBooksScope(supabase, user.id, searchParams.get("company_profile_id"));
+
+    if (scope.companyProfileIds.length !== 1) {
+      return NextResponse.json(
+        { error: "Select a company to invoice from" },
+        { status: 400 }
+      );
+    }
+
+    const companyProfileId = scope.companyProfileIds[0];
+    const [settings, baseCurrency] = await Promise.all([
+      getSalesInvoiceSettings(supabase, companyProfileId),
+      getBaseCurrency(supabase, companyProfileId),
+    ]);
+
+    const body = await request.json();
+    const { input, error: inputError } = parseSalesInvoiceInput(body, {
+      currency: baseCurrency,
+      payment_terms_days: settings.payment_terms_days,
+    });
+
+    if (inputError !== undefined) {
+      return NextResponse.json(
+        { error: inputError },
+        { status: 400 }
+      );
+    }
+
+    const invoiceId = await saveDraftSalesInvoice(supabase, companyProfileId, input, { createdBy: user.id });
+    const invoice = await getSalesInvoice(supabase, invoiceId);
+
+    return NextResponse.json({ success: true, invoice });
+  } catch (error: any) {
+    console.error("Sales invoices POST error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,199 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/database/server";
+import { getBooksScope } from "@/lib/books/scope";
+import {
+  formatInvoiceNumber,
+  getSalesInvoiceSettings,
+  saveSalesInvoiceSettings,
+} from "@/lib/sales-invoices/invoices";
+
+const ADDRESS_FIELDS = ["street", "city", "postcode", "country"] as const;
+const CONTACT_FIELDS = ["email", "phone", "website"] as const;
+
+function optionalText(value: unknown, maxLength: number = 500): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim().slice(0, maxLength);
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+/**
+ * GET /api/sales-invoices/settings
+ * Invoice numbering, payment terms and the seller details printed on invoices
+ * Query: company_profile_id
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const scope = await getBooksScope(supabase, user.id, searchParams.get("company_profile_id"));
+
+    if (scope.companyProfileIds.length !== 1) {
+      return NextResponse.json(
+        { error: "Select a company to manage its invoice settings" },
+        { status: 400 }
+      );
+    }
+
+    const companyProfileId = scope.companyProfileIds[0];
+    const [settings, { data: company }] = await Promise.all([
+      getSalesInvoiceSettings(supabase, companyProfileId),
+      (supabase as any)
+        .from("company_profiles")
+        .select("company_name, address, contact_details")
+        .eq("id", companyProfileId)
+        .single(),
+    ]);
+
+    return NextResponse.json({
+      company_profile_id: companyProfileId,
+      settings,
+      next_invoice_number: formatInvoiceNumber(settings, settings.next_number),
+      company_name: company?.company_name || null,
+      address: company?.address || {},
+      contact_details: company?.contact_details || {},
+    });
+  } catch (error: any) {
+    console.error("Sales invoice settings GET error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/sales-invoices/settings
+ * Body: number_prefix, next_number, number_padding, payment_terms_days, payment_details,
+ * footer_text, address { street, city, postcode, country }, contact_details { email, phone, website }
+ * Query: company_profile_id
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const scope = await getBooksScope(supabase, user.id, searchParams.get("company_profile_id"));
+
+    if (scope.companyProfileIds.length !== 1) {
+      return NextResponse.json(
+        { error: "Select a company to manage its invoice settings" },
+        { status: 400 }
+      );
+    }
+
+    const companyProfileId = scope.companyProfileIds[0];
+    const current = await getSalesInvoiceSettings(supabase, companyProfileId);
+    const body = await request.json();
+
+    const prefix = typeof body.number_prefix === "string" ? body.number_prefix.trim() : current.number_prefix;
+    const nextNumber = body.next_number !== undefined ? Number(body.next_number) : current.next_number;
+    const padding = body.number_padding !== undefined ? Number(body.number_padding) : current.number_padding;
+    const terms = body.payment_terms_days !== undefined ? Number(body.payment_terms_days) : current.payment_terms_days;
+
+    if (prefix.length > 20 || !/^[A-Za-z0-9/_-]*$/.test(prefix)) {
+      return NextResponse.json(
+        { error: "The number prefix can only use letters, digits, '-', '_' and '/' (up to 20)" },
+        { status: 400 }
+      );
+    }
+    if (!Number.isInteger(nextNumber) || nextNumber < 1) {
+      return NextResponse.json(
+        { error: "The next invoice number must be a whole number of at least 1" },
+        { status: 400 }
+      );
+    }
+    // Restarting the sequence would reuse numbers already on issued invoices
+    if (nextNumber < current.next_number) {
+      return NextResponse.json(
+        { error: `The next invoice number can't go below ${current.next_number}` },
+        { status: 400 }
+      );
+    }
+    if (!Number.isInteger(padding) || padding < 1 || padding > 10) {
+      return NextResponse.json(
+        { error: "Number padding must be between 1 and 10 digits" },
+        { status: 400 }
+      );
+    }
+    if (!Number.isInteger(terms) || terms < 0 || terms > 365) {
+      return NextResponse.json(
+        { error: "Payment terms must be between 0 and 365 days" },
+        { status: 400 }
+      );
+    }
+
+    const settings = {
+      number_prefix: prefix,
+      next_number: nextNumber,
+      number_padding: padding,
+      payment_terms_days: terms,
+      payment_details: body.payment_details !== undefined ? optionalText(body.payment_details, 2000) : current.payment_details,
+      footer_text: body.footer_text !== undefined ? optionalText(body.footer_text, 2000) : current.footer_text,
+    };
+    await saveSalesInvoiceSettings(supabase, companyProfileId, settings);
+
+    if (body.address !== undefined || body.contact_details !== undefined) {
+      const { data: company } = await (supabase as any)
+        .from("company_profiles")
+        .select("address, contact_details")
+        .eq("id", companyProfileId)
+        .single();
+
+      const updatePayload: Record<string, any> = {};
+      if (body.address && typeof body.address === "object") {
+        updatePayload.address = { ...(company?.address || {}) };
+        for (const field of ADDRESS_FIELDS) {
+          if (body.address[field] !== undefined) updatePayload.address[field] = optionalText(body.address[field]);
+        }
+      }
+      if (body.contact_details && typeof body.contact_details === "object") {
+        updatePayload.contact_details = { ...(company?.contact_details || {}) };
+        for (const field of CONTACT_FIELDS) {
+          if (body.contact_details[field] !== undefined) {
+            updatePayload.contact_details[field] = optionalText(body.contact_details[field]);
+          }
+        }
+      }
+
+      if (Object.keys(updatePayload).length > 0) {
+        const { error: companyError } = await (supabase as any)
+          .from("company_profiles")
+          .update(updatePayload)
+          .eq("id", companyProfileId);
+
+        if (companyError) {
+          throw new Error(companyError.message || "Failed to save company details");
+        }
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      settings,
+      next_invoice_number: formatInvoiceNumber(settings, settings.next_number),
+    });
+  } catch (error: any) {
+    console.error("Sales invoice settings PUT error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
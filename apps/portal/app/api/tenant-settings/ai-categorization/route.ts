@@ -0,0 +1,201 @@
+/**
+ * Tenant AI Categorization Settings API
+ *
+ * GET - Retrieve the tenant's categorization provider chain
+ * PUT - Save the provider chain and OpenAI-compatible endpoint
+ *
+ * The endpoint API key is only stored in Supabase Vault; saving a key fails where the
+ * vault is unavailable.
+ */
+
+import { createClient } from '@/lib/database/server';
+import { NextResponse } from 'next/server';
+import { getEntityInfo } from '@/lib/entity-type';
+import { saveSecret, isVaultAvailable } from '@/lib/vault';
+import { AICategorizationFactory } from '@/lib/ai/AICategorizationFactory';
+import { AI_CATEGORIZATION_SETTINGS_PROVIDER } from '@/lib/ai/provider-config';
+import { getAIEndpointUrlError } from '@/lib/ai/endpoint-url';
+
+interface AICategorizationSettingsInput {
+  fallback_chain?: string[];
+  min_confidence?: number;
+  openai_compatible?: {
+    base_url?: string;
+    model?: string;
+    timeout_ms?: number;
+    api_key?: string;
+  } | null;
+  is_enabled?: boolean;
+}
+
+/**
+ * GET - Retrieve the tenant's AI categorization settings
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const entityInfo = await getEntityInfo();
+
+    if (!entityInfo.tenantId) {
+      return NextResponse.json({
+        settings: null,
+        available_providers: AICategorizationFactory.getRegisteredProviders(),
+        default_provider: AICategorizationFactory.getDefaultProvider(),
+      });
+    }
+
+    const { data: setting, error: settingsError } = await (supabase as any)
+      .from('tenant_integration_settings')
+      .select('settings, is_enabled, api_key_vault_id, updated_at')
+      .eq('tenant_id', entityInfo.tenantId)
+      .eq('provider', AI_CATEGORIZATION_SETTINGS_PROVIDER)
+      .maybeSingle();
+
+    if (settingsError) {
+      console.error('Error fetching AI categorization settings:', settingsError);
+      return NextResponse.json({ error: 'Failed to fetch settings' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      settings: setting
+        ? {
+            ...setting.settings,
+            is_enabled: setting.is_enabled,
+            // Mask the key - only indicate whether one is stored
+            api_key: setting.api_key_vault_id ? '••••••••' : null,
+            updated_at: setting.updated_at,
+          }
+        : null,
+      available_providers: AICategorizationFactory.getRegisteredProviders(),
+      default_provider: AICategorizationFactory.getDefaultProvider(),
+    });
+  } catch (error: any) {
+    console.error('Error in GET /api/tenant-settings/ai-categorization:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT - Save the tenant's AI categorization settings
+ */
+export async function PUT(request: Request) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const entityInfo = await getEntityInfo();
+
+    if (!entityInfo.tenantId) {
+      return NextResponse.json({
+        error: 'No tenant associated with user. Please complete company setup first.'
+      }, { status: 400 });
+    }
+
+    const body: AICategorizationSettingsInput = await request.json();
+
+    const chain = (body.fallback_chain || []).map((provider) => String(provider).trim()).filter(Boolean);
+    const unknown = chain.filter((provider) => !AICategorizationFactory.isRegistered(provider));
+    if (unknown.length > 0) {
+      return NextResponse.json({
+        error: `Unknown categorization provider(s): ${unknown.join(', ')}`
+      }, { status: 400 });
+    }
+
+    if (body.min_confidence !== undefined && (isNaN(Number(body.min_confidence)) || body.min_confidence <= 0 || body.min_confidence > 1)) {
+      return NextResponse.json({ error: 'min_confidence must be between 0 and 1' }, { status: 400 });
+    }
+
+    const endpoint = body.openai_compatible;
+    if (chain.includes('openai_compatible') && (!endpoint?.base_url || !endpoint?.model)) {
+      return NextResponse.json({
+        error: 'The openai_compatible provider needs a base URL and model'
+      }, { status: 400 });
+    }
+    if (endpoint?.base_url) {
+      const urlError = await getAIEndpointUrlError(endpoint.base_url);
+      if (urlError) {
+        return NextResponse.json({ error: urlError }, { status: 400 });
+      }
+    }
+
+    const settingsData: any = {
+      tenant_id: entityInfo.tenantId,
+      provider: AI_CATEGORIZATION_SETTINGS_PROVIDER,
+      is_enabled: body.is_enabled ?? true,
+      settings: {
+        fallback_chain: chain,
+        min_confidence: body.min_confidence ?? null,
+        openai_compatible: endpoint?.base_url
+          ? {
+              base_url: endpoint.base_url,
+              model: endpoint.model,
+              timeout_ms: endpoint.timeout_ms ?? null,
+            }
+          : null,
+      },
+      updated_at: new Date().toISOString(),
+    };
+
+    // Handle the endpoint API key - vault only
+    const apiKey = endpoint?.api_key;
+    const saveApiKey = !!apiKey && apiKey !== '••••••••';
+    if (apiKey === '' || apiKey === null) {
+      settingsData.api_key_vault_id = null;
+    } else if (saveApiKey && !(await isVaultAvailable(supabase))) {
+      return NextResponse.json({
+        error: 'API keys can only be saved when Supabase Vault is available'
+      }, { status: 400 });
+    }
+
+    const { data: result, error: upsertError } = await (supabase as any)
+      .from('tenant_integration_settings')
+      .upsert(settingsData, {
+        onConflict: 'tenant_id,provider',
+      })
+      .select('settings, is_enabled, api_key_vault_id')
+      .single();
+
+    if (upsertError) {
+      console.error('Error saving AI categorization settings:', upsertError);
+      return NextResponse.json({ error: 'Failed to save settings' }, { status: 500 });
+    }
+
+    // The vault RPC updates the settings row, so it runs after the upsert
+    let hasApiKey = !!result.api_key_vault_id;
+    if (saveApiKey) {
+      const vaultId = await saveSecret(
+        supabase,
+        entityInfo.tenantId,
+        AI_CATEGORIZATION_SETTINGS_PROVIDER,
+        'api_key',
+        apiKey
+      );
+      if (!vaultId) {
+        return NextResponse.json({ error: 'Failed to save API key' }, { status: 500 });
+      }
+      hasApiKey = true;
+    }
+
+    return NextResponse.json({
+      success: true,
+      settings: {
+        ...result.settings,
+        is_enabled: result.is_enabled,
+        api_key: hasApiKey ? '••••••••' : null,
+      },
+    });
+  } catch (error) {
+    console.error('Error in PUT /api/tenant-settings/ai-categorization:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/database/admin-client";
+import { apiError, authenticateApiKey } from "@/lib/api/v1/auth";
+import { DOCUMENT_COLUMNS, idParamsSchema, parseApiInput } from "@/lib/api/v1/schemas";
+
+/**
+ * GET /api/v1/documents/[id]
+ * A document, with a signed download link while its file is in hot storage
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = createAdminClient() as any;
+    const auth = await authenticateApiKey(admin, request, "documents:read");
+    if ("error" in auth) {
+      return apiError(auth.error, auth.status);
+    }
+
+    const parsedParams = parseApiInput(idParamsSchema, await params);
+    if (parsedParams.error) {
+      return apiError(parsedParams.error, 400);
+    }
+
+    const { data: doc, error } = await admin
+      .from("financial_documents")
+      .select(`${DOCUMENT_COLUMNS}, storage_tier, supabase_path`)
+      .eq("id", parsedParams.data.id)
+      .in("company_profile_id", auth.key.companyProfileIds)
+      .eq("is_deleted", false)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!doc) {
+      return apiError("Document not found", 404);
+    }
+
+    const { storage_tier: storageTier, supabase_path: supabasePath, ...document } = doc;
+
+    // Archived files are restored on request from the portal, so there is no link for them here
+    let downloadUrl: string | null = null;
+    if ((storageTier === "hot" || storageTier === "pending_archive") && supabasePath) {
+      const { data: signed, error: signedError } = await admin.storage
+        .from("categorization-uploads")
+        .createSignedUrl(supabasePath, 60 * 60);
+      if (signedError) {
+        console.error("Failed to sign document download:", signedError);
+      }
+      downloadUrl = signed?.signedUrl || null;
+    }
+
+    return NextResponse.json({ document: { ...document, download_url: downloadUrl } });
+  } catch (error: any) {
+    console.error("API document error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
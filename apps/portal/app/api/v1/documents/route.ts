@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/database/admin-client";
+import { apiError, authenticateApiKey, getApiQuery, resolveApiCompanies } from "@/lib/api/v1/auth";
+import { DOCUMENT_COLUMNS, documentListQuerySchema, parseApiInput } from "@/lib/api/v1/schemas";
+
+/**
+ * GET /api/v1/documents
+ * Documents of the key's companies, newest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const admin = createAdminClient();
+    const auth = await authenticateApiKey(admin, request, "documents:read");
+    if ("error" in auth) {
+      return apiError(auth.error, auth.status);
+    }
+
+    const parsed = parseApiInput(documentListQuerySchema, getApiQuery(request));
+    if (parsed.error) {
+      return apiError(parsed.error, 400);
+    }
+    const filters = parsed.data;
+
+    const companies = resolveApiCompanies(auth.key, filters.company_profile_id);
+    if ("error" in companies) {
+      return apiError(companies.error, companies.status);
+    }
+
+    let query = admin
+      .from("financial_documents")
+      .select(DOCUMENT_COLUMNS, { count: "exact" })
+      .in("company_profile_id", companies.companyProfileIds)
+      .eq("is_deleted", false)
+      .order("created_at", { ascending: false })
+      .range(filters.offset, filters.offset + filters.limit - 1);
+
+    if (filters.file_type) query = query.eq("file_type", filters.file_type);
+    if (filters.document_kind) query = query.eq("document_kind", filters.document_kind);
+    if (filters.from) query = query.gte("document_date", filters.from);
+    if (filters.to) query = query.lte("document_date", filters.to);
+
+    const { data: documents, count, error } = await query;
+    if (error) throw error;
+
+    return NextResponse.json({
+      documents: documents || [],
+      total: count || 0,
+      limit: filters.limit,
+      offset: filters.offset,
+    });
+  } catch (error: any) {
+    console.error("API documents error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
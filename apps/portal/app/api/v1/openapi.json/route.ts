@@ -0,0 +1,10 @@
+import { NextRequest, NextResponse } from "next/server";
+import { buildOpenApiDocument } from "@/lib/api/v1/openapi";
+
+/**
+ * GET /api/v1/openapi.json
+ * OpenAPI document for the public API. Public, so API clients can be generated from it.
+ */
+export async function GET(request: NextRequest) {
+  return NextResponse.json(buildOpenApiDocument(request.nextUrl.origin));
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/database/admin-client";
+import { apiError, authenticateApiKey, getApiQuery, resolveApiCompany } from "@/lib/api/v1/auth";
+import { parseApiInput, reportParamsSchema, reportQuerySchema, type ApiV1Report } from "@/lib/api/v1/schemas";
+import {
+  generateProfitAndLoss,
+  generateBalanceSheet,
+  generateTrialBalance,
+} from "@/lib/financial-statements/statement-generator";
+import { getAgedBalances } from "@/lib/ledger/aged-balances";
+
+/**
+ * GET /api/v1/reports/[report]
+ * Profit and loss, balance sheet, trial balance, or aged receivables and payables for one company
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ report: string }> }
+) {
+  try {
+    const admin = createAdminClient();
+    const auth = await authenticateApiKey(admin, request, "reports:read");
+    if ("error" in auth) {
+      return apiError(auth.error, auth.status);
+    }
+
+    const parsedParams = parseApiInput(reportParamsSchema, await params);
+    if (parsedParams.error) {
+      return apiError(parsedParams.error, 400);
+    }
+    const report: ApiV1Report = parsedParams.data.report;
+
+    const parsed = parseApiInput(reportQuerySchema, getApiQuery(request));
+    if (parsed.error) {
+      return apiError(parsed.error, 400);
+    }
+    const query = parsed.data;
+
+    const company = resolveApiCompany(auth.key, query.company_profile_id);
+    if ("error" in company) {
+      return apiError(company.error, company.status);
+    }
+    const companyProfileId = company.companyProfileId;
+
+    const today = new Date().toISOString().split("T")[0];
+    const asOf = query.as_of || today;
+
+    let data: unknown;
+    switch (report) {
+      case "profit_and_loss": {
+        const to = query.to || today;
+        const from = query.from || `${to.slice(0, 4)}-01-01`;
+        if (from > to) {
+          return apiError("from must be on or before to", 400);
+        }
+        data = await generateProfitAndLoss(admin, new Date(from), new Date(to), companyProfileId, query.basis);
+        break;
+      }
+      case "balance_sheet":
+        data = await generateBalanceSheet(admin, new Date(asOf), companyProfileId);
+        break;
+      case "trial_balance":
+        data = await generateTrialBalance(admin, new Date(asOf), companyProfileId);
+        break;
+      case "aged_receivables":
+        data = await getAgedBalances(admin, companyProfileId, "sales_invoice", asOf);
+        break;
+      case "aged_payables":
+        data = await getAgedBalances(admin, companyProfileId, "bill", asOf);
+        break;
+    }
+
+    return NextResponse.json({ report, company_profile_id: companyProfileId, data });
+  } catch (error: any) {
+    console.error("API report error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
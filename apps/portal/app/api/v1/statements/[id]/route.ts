@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/database/admin-client";
+import { apiError, authenticateApiKey } from "@/lib/api/v1/auth";
+import { idParamsSchema, parseApiInput, statementJobSchema } from "@/lib/api/v1/schemas";
+
+const JOB_COLUMNS = Object.keys(statementJobSchema.shape).join(", ");
+
+/**
+ * GET /api/v1/statements/[id]
+ * Progress of a statement uploaded through the API
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = createAdminClient();
+    const auth = await authenticateApiKey(admin, request, "statements:write");
+    if ("error" in auth) {
+      return apiError(auth.error, auth.status);
+    }
+
+    const parsedParams = parseApiInput(idParamsSchema, await params);
+    if (parsedParams.error) {
+      return apiError(parsedParams.error, 400);
+    }
+
+    const { data: job, error } = await admin
+      .from("categorization_jobs")
+      .select(JOB_COLUMNS)
+      .eq("id", parsedParams.data.id)
+      .in("company_profile_id", auth.key.companyProfileIds)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!job) {
+      return apiError("Statement job not found", 404);
+    }
+
+    return NextResponse.json({ job });
+  } catch (error: any) {
+    console.error("API statement job error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/database/admin-client";
+import { apiError, authenticateApiKey } from "@/lib/api/v1/auth";
+import { parseApiInput, statementJobSchema, statementUploadSchema } from "@/lib/api/v1/schemas";
+import {
+  STATEMENT_FILE_EXTENSIONS,
+  isStatementFileName,
+  validateStatementFile,
+} from "@/lib/categorization/statement-formats";
+import { describeStatementSizeLimit, getStatementMaxFileSize } from "@/lib/categorization/statement-uploads";
+import { hashFile } from "@/lib/utils/file-hash";
+import { createJobErrorResponse } from "@/lib/errors/job-errors";
+import { runJobQueueInBackground } from "@/lib/jobs/worker";
+import { enqueueQueueJob } from "@tinadmin/core/job-queue/queue";
+
+export const maxDuration = 60;
+
+const JOB_COLUMNS = Object.keys(statementJobSchema.shape).join(", ");
+const VALID_EXTENSIONS = [".xlsx", ".xls", ".csv", ...STATEMENT_FILE_EXTENSIONS];
+
+/**
+ * POST /api/v1/statements
+ * Upload a bank statement for a bank account. Returns the job straight away; the statement is
+ * processed in the background and posted to the ledger like an upload from the portal.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const admin = createAdminClient() as any;
+    const auth = await authenticateApiKey(admin, request, "statements:write");
+    if ("error" in auth) {
+      return apiError(auth.error, auth.status);
+    }
+    const { key } = auth;
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+    const parsed = parseApiInput(statementUploadSchema.omit({ file: true }), {
+      bank_account_id: formData.get("bank_account_id") ?? undefined,
+      force: formData.get("force") ?? undefined,
+    });
+    if (parsed.error) {
+      return apiError(parsed.error, 400);
+    }
+    if (!(file instanceof File)) {
+      return apiError("file is required", 400);
+    }
+
+    const fileExtension = file.name.substring(file.name.lastIndexOf(".")).toLowerCase();
+    if (!VALID_EXTENSIONS.includes(fileExtension)) {
+      return apiError(createJobErrorResponse("INVALID_FILE_TYPE").error_message, 400);
+    }
+    if (file.size > getStatementMaxFileSize(file.name)) {
+      return apiError(createJobErrorResponse("FILE_TOO_LARGE", describeStatementSizeLimit(file.name)).error_message, 400);
+    }
+    if (isStatementFileName(file.name)) {
+      const statementError = validateStatementFile(file.name, await file.arrayBuffer());
+      if (statementError) {
+        return apiError(statementError, 400);
+      }
+    }
+
+    const { data: bankAccount } = await admin
+      .from("bank_accounts")
+      .select("id, company_profile_id, default_spreadsheet_id, spreadsheet_tab_name, is_active")
+      .eq("id", parsed.data.bank_account_id)
+      .maybeSingle();
+
+    if (!bankAccount || !key.companyProfileIds.includes(bankAccount.company_profile_id)) {
+      return apiError("Bank account not found", 404);
+    }
+    if (!bankAccount.is_active) {
+      return apiError("Bank account is inactive", 400);
+    }
+
+    const fileHash = await hashFile(file);
+
+    if (parsed.data.force !== "true") {
+      const { data: existingDoc } = await admin
+        .from("financial_documents")
+        .select("id, job_id")
+        .eq("file_hash", fileHash)
+        .eq("company_profile_id", bankAccount.company_profile_id)
+        .limit(1)
+        .maybeSingle();
+
+      if (existingDoc) {
+        return NextResponse.json(
+          {
+            error: createJobErrorResponse("DUPLICATE_FILE").error_message,
+            existing_job_id: existingDoc.job_id,
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    const fileName = `${key.userId}/${Date.now()}-${file.name}`;
+    const { error: uploadError } = await admin.storage
+      .from("categorization-uploads")
+      .upload(fileName, file, {
+        contentType: file.type || "application/octet-stream",
+        upsert: false,
+      });
+    if (uploadError) throw uploadError;
+
+    const { data: urlData } = admin.storage
+      .from("categorization-uploads")
+      .getPublicUrl(fileName);
+
+    const { data: job, error: jobError } = await admin
+      .from("categorization_jobs")
+      .insert({
+        user_id: key.userId,
+        tenant_id: key.tenantId,
+        company_profile_id: bankAccount.company_profile_id,
+        bank_account_id: bankAccount.id,
+        job_type: "spreadsheet",
+        status: "queued",
+        status_message: "Waiting to start processing...",
+        processing_mode: "async",
+        original_filename: file.name,
+        file_url: urlData.publicUrl,
+        file_hash: fileHash,
+        spreadsheet_id: bankAccount.default_spreadsheet_id || null,
+        spreadsheet_tab_id: bankAccount.spreadsheet_tab_name || null,
+      })
+      .select(JOB_COLUMNS)
+      .single();
+    if (jobError) throw jobError;
+
+    const { error: docError } = await admin
+      .from("financial_documents")
+      .insert({
+        user_id: key.userId,
+        tenant_id: key.tenantId,
+        company_profile_id: bankAccount.company_profile_id,
+        job_id: job.id,
+        original_filename: file.name,
+        file_type: "bank_statement",
+        mime_type: file.type,
+        file_size_bytes: file.size,
+        file_hash: fileHash,
+        storage_tier: "hot",
+        supabase_path: fileName,
+        ocr_status: "pending",
+        bank_account_id: bankAccount.id,
+      });
+    if (docError) {
+      console.error("Failed to create financial_documents record:", docError);
+      // Don't fail the upload, just log the error
+    }
+
+    await enqueueQueueJob(admin, {
+      jobType: "spreadsheet",
+      categorizationJobId: job.id,
+      userId: key.userId,
+      tenantId: key.tenantId,
+    });
+    runJobQueueInBackground(admin, { timeBudgetMs: 40_000 });
+
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error: any) {
+    console.error("API statement upload error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
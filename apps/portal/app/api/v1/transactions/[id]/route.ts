@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/database/admin-client";
+import { apiError, authenticateApiKey } from "@/lib/api/v1/auth";
+import {
+  TRANSACTION_COLUMNS,
+  idParamsSchema,
+  parseApiInput,
+  transactionUpdateSchema,
+} from "@/lib/api/v1/schemas";
+import { postTransactionsToLedger } from "@/lib/ledger/journal";
+import { isPeriodLockError } from "@/lib/books/period-close";
+import { auditContext } from "@/lib/books/change-log";
+import { scopeToBooks } from "@/lib/books/scope";
+
+/**
+ * GET /api/v1/transactions/[id]
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = createAdminClient();
+    const auth = await authenticateApiKey(admin, request, "transactions:read");
+    if ("error" in auth) {
+      return apiError(auth.error, auth.status);
+    }
+
+    const parsedParams = parseApiInput(idParamsSchema, await params);
+    if (parsedParams.error) {
+      return apiError(parsedParams.error, 400);
+    }
+
+    const { data: transaction, error } = await admin
+      .from("categorized_transactions")
+      .select(TRANSACTION_COLUMNS)
+      .eq("id", parsedParams.data.id)
+      .in("company_profile_id", auth.key.companyProfileIds)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!transaction) {
+      return apiError("Transaction not found", 404);
+    }
+
+    return NextResponse.json({ transaction });
+  } catch (error: any) {
+    console.error("API transaction error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/v1/transactions/[id]
+ * Correct a transaction. Made as the key's creator and logged with the "api" source.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = createAdminClient();
+    const auth = await authenticateApiKey(admin, request, "transactions:write");
+    if ("error" in auth) {
+      return apiError(auth.error, auth.status);
+    }
+    const { key } = auth;
+
+    const parsedParams = parseApiInput(idParamsSchema, await params);
+    if (parsedParams.error) {
+      return apiError(parsedParams.error, 400);
+    }
+    const id = parsedParams.data.id;
+
+    const body = await request.json().catch(() => null);
+    const parsed = parseApiInput(transactionUpdateSchema, body);
+    if (parsed.error) {
+      return apiError(parsed.error, 400);
+    }
+    const changes = parsed.data;
+
+    const { data: transaction } = await admin
+      .from("categorized_transactions")
+      .select("id, company_profile_id, category, subcategory")
+      .eq("id", id)
+      .in("company_profile_id", key.companyProfileIds)
+      .maybeSingle();
+
+    if (!transaction) {
+      return apiError("Transaction not found", 404);
+    }
+
+    // Suppliers belong to the user who created them, so one is in the transaction's books
+    // when a document in that company was issued by it
+    if (changes.supplier_id) {
+      const { data: supplierDocuments, error: supplierError } = await scopeToBooks(
+        admin
+          .from("financial_documents")
+          .select("id")
+          .eq("supplier_id", changes.supplier_id),
+        { userId: key.userId, companyProfileIds: [transaction.company_profile_id] }
+      ).limit(1);
+      if (supplierError) {
+        throw supplierError;
+      }
+
+      if (!supplierDocuments || supplierDocuments.length === 0) {
+        return apiError("Supplier not found", 404);
+      }
+    }
+
+    const categoryChanged =
+      (changes.category !== undefined && changes.category !== transaction.category) ||
+      (changes.subcategory !== undefined && (changes.subcategory || null) !== (transaction.subcategory || null));
+
+    const updateData: any = {
+      ...auditContext("api", key.userId),
+      sync_status: "pending",
+    };
+    for (const [field, value] of Object.entries(changes)) {
+      updateData[field] = value === "" ? null : value;
+    }
+    // A manual change overrides whichever rule categorized the transaction, and any split
+    if (categoryChanged) {
+      updateData.applied_rule_id = null;
+      updateData.split_allocations = null;
+    }
+
+    const { data: updated, error: updateError } = await admin
+      .from("categorized_transactions")
+      .update(updateData)
+      .eq("id", id)
+      .select(TRANSACTION_COLUMNS)
+      .single();
+
+    if (updateError) {
+      // Raised by the bank reconciliation lock and period close triggers
+      if (isPeriodLockError(updateError)) {
+        return apiError(updateError.message, 409);
+      }
+      throw updateError;
+    }
+
+    // Re-post to the ledger when the category changes (voids the previous entry)
+    if (categoryChanged) {
+      try {
+        await postTransactionsToLedger(admin, transaction.company_profile_id, [id], key.userId);
+      } catch (ledgerError) {
+        console.error("Ledger re-post error:", ledgerError);
+        // Don't fail the transaction update if ledger posting fails
+      }
+    }
+
+    return NextResponse.json({ transaction: updated });
+  } catch (error: any) {
+    console.error("API transaction update error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
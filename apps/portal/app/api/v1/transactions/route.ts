@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/database/admin-client";
+import { apiError, authenticateApiKey, getApiQuery, resolveApiCompanies } from "@/lib/api/v1/auth";
+import { TRANSACTION_COLUMNS, parseApiInput, transactionListQuerySchema } from "@/lib/api/v1/schemas";
+
+/**
+ * GET /api/v1/transactions
+ * Categorized bank transactions of the key's companies, newest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const admin = createAdminClient();
+    const auth = await authenticateApiKey(admin, request, "transactions:read");
+    if ("error" in auth) {
+      return apiError(auth.error, auth.status);
+    }
+
+    const parsed = parseApiInput(transactionListQuerySchema, getApiQuery(request));
+    if (parsed.error) {
+      return apiError(parsed.error, 400);
+    }
+    const filters = parsed.data;
+
+    const companies = resolveApiCompanies(auth.key, filters.company_profile_id);
+    if ("error" in companies) {
+      return apiError(companies.error, companies.status);
+    }
+
+    let query = admin
+      .from("categorized_transactions")
+      .select(TRANSACTION_COLUMNS, { count: "exact" })
+      .in("company_profile_id", companies.companyProfileIds)
+      .order("date", { ascending: false })
+      .order("created_at", { ascending: false })
+      .range(filters.offset, filters.offset + filters.limit - 1);
+
+    if (filters.from) query = query.gte("date", filters.from);
+    if (filters.to) query = query.lte("date", filters.to);
+    if (filters.review_status) query = query.eq("review_status", filters.review_status);
+    if (filters.bank_account_id) query = query.eq("bank_account_id", filters.bank_account_id);
+
+    const { data: transactions, count, error } = await query;
+    if (error) throw error;
+
+    return NextResponse.json({
+      transactions: transactions || [],
+      total: count || 0,
+      limit: filters.limit,
+      offset: filters.offset,
+    });
+  } catch (error: any) {
+    console.error("API transactions error:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
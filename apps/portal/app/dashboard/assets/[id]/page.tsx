@@ -0,0 +1,311 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Heading, Text, Button, Field, Label, Input, Select } from '@/components/catalyst'
+import { ArrowLeftIcon, TrashIcon } from '@heroicons/react/24/outline'
+import { FixedAssetForm } from '@/components/assets/FixedAssetForm'
+import { ASSET_CLASS_LABELS, type FixedAsset } from '@/lib/assets/fixed-assets'
+import { DEPRECIATION_METHOD_LABELS, type DepreciationCharge } from '@/lib/assets/depreciation'
+import { ALLOWANCE_POOL_LABELS } from '@/lib/assets/capital-allowances'
+
+interface AssetDetail {
+  asset: FixedAsset
+  posted: Array<{ period_end: string; amount: number }>
+  schedule: DepreciationCharge[]
+}
+
+export default function FixedAssetPage() {
+  const params = useParams()
+  const router = useRouter()
+  const assetId = params.id as string
+  const [detail, setDetail] = useState<AssetDetail | null>(null)
+  const [baseCurrency, setBaseCurrency] = useState('GBP')
+  const [editing, setEditing] = useState(false)
+  const [receipts, setReceipts] = useState<any[]>([])
+  const [disposalDate, setDisposalDate] = useState(new Date().toISOString().split('T')[0])
+  const [receiptId, setReceiptId] = useState('')
+  const [proceeds, setProceeds] = useState('0')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadAsset()
+  }, [assetId])
+
+  const loadAsset = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/assets/${assetId}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to load asset')
+      setDetail(data)
+      setBaseCurrency(data.base_currency || 'GBP')
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load asset')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadReceipts = async () => {
+    try {
+      const response = await fetch('/api/assets/candidates?kind=sale')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to load receipts')
+      setReceipts(data.transactions || [])
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load receipts')
+    }
+  }
+
+  const handleSave = async (body: Record<string, any>) => {
+    try {
+      setSaving(true)
+      setError(null)
+      const response = await fetch(`/api/assets/${assetId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to save the asset')
+      setDetail(data)
+      setEditing(false)
+      setMessage('Asset updated')
+    } catch (e: any) {
+      setError(e?.message || 'Failed to save the asset')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDispose = async () => {
+    if (!confirm('Dispose of this asset? Depreciation up to the month before will be posted first.')) return
+    try {
+      setSaving(true)
+      setError(null)
+      const response = await fetch(`/api/assets/${assetId}/dispose`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          disposal_date: disposalDate,
+          proceeds: receiptId ? undefined : proceeds,
+          disposal_transaction_id: receiptId || null,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to dispose of the asset')
+      setDetail({ asset: data.asset, posted: data.posted, schedule: data.schedule })
+      setMessage(`Disposed of with a ${data.gain >= 0 ? 'gain' : 'loss'} of ${formatMoney(Math.abs(data.gain))}`)
+    } catch (e: any) {
+      setError(e?.message || 'Failed to dispose of the asset')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!confirm('Delete this asset? Its purchase will post as an expense again.')) return
+    try {
+      setSaving(true)
+      const response = await fetch(`/api/assets/${assetId}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to delete the asset')
+      router.push('/dashboard/assets')
+    } catch (e: any) {
+      setError(e?.message || 'Failed to delete the asset')
+      setSaving(false)
+    }
+  }
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '—'
+    return new Date(dateString).toLocaleDateString('en-GB', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    })
+  }
+
+  const formatMonth = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-GB', { month: 'short', year: 'numeric' })
+  }
+
+  const formatMoney = (amount: number) => {
+    return new Intl.NumberFormat('en-GB', { style: 'currency', currency: baseCurrency }).format(amount)
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!detail) {
+    return (
+      <div className="space-y-4">
+        <div className="text-sm text-red-600 dark:text-red-400">{error || 'Asset not found'}</div>
+        <Link href="/dashboard/assets" className="text-sm text-blue-600 hover:underline dark:text-blue-400">Back to fixed assets</Link>
+      </div>
+    )
+  }
+
+  const { asset, posted, schedule } = detail
+  let runningValue = asset.cost
+  const postedRows = posted.map(charge => {
+    runningValue = Math.round((runningValue - charge.amount) * 100) / 100
+    return { ...charge, net_book_value: runningValue }
+  })
+
+  return (
+    <div className="space-y-8 max-w-5xl">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <Link href="/dashboard/assets" className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400">
+            <ArrowLeftIcon className="h-4 w-4" />
+            Fixed assets
+          </Link>
+          <Heading>{asset.name}</Heading>
+          <Text>
+            {ASSET_CLASS_LABELS[asset.asset_class]} · acquired {formatDate(asset.acquisition_date)}
+            {asset.status === 'disposed' && <> · disposed of {formatDate(asset.disposal_date)}</>}
+          </Text>
+        </div>
+        {asset.status === 'active' && (
+          <div className="flex gap-2">
+            <Button outline onClick={() => setEditing(!editing)}>{editing ? 'Cancel' : 'Edit'}</Button>
+            {posted.length === 0 && (
+              <Button plain onClick={handleDelete} disabled={saving}>
+                <TrashIcon className="h-5 w-5" />
+                Delete
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {error && <div className="text-sm text-red-600 dark:text-red-400">{error}</div>}
+      {message && <div className="text-sm text-green-700 dark:text-green-400">{message}</div>}
+
+      {editing ? (
+        <FixedAssetForm
+          asset={asset}
+          financialsLocked={posted.length > 0}
+          saving={saving}
+          submitLabel="Save changes"
+          onSave={handleSave}
+        />
+      ) : (
+        <div className="flex flex-wrap gap-4">
+          {[
+            ['Cost', formatMoney(asset.cost)],
+            ['Accumulated depreciation', formatMoney(asset.accumulated_depreciation)],
+            ['Net book value', formatMoney(asset.net_book_value)],
+            ['Depreciation', DEPRECIATION_METHOD_LABELS[asset.depreciation_method] + (
+              asset.depreciation_method === 'straight_line' ? ` over ${asset.useful_life_months} months`
+                : asset.depreciation_method === 'reducing_balance' ? ` at ${asset.reducing_balance_rate}% a year` : ''
+            )],
+            ['Capital allowances', ALLOWANCE_POOL_LABELS[asset.allowance_pool] + (asset.claim_aia ? ', AIA claimed' : '')],
+          ].map(([label, value]) => (
+            <div key={label} className="bg-white dark:bg-gray-800 rounded-lg shadow px-6 py-4">
+              <div className="text-xs text-gray-500 dark:text-gray-400">{label}</div>
+              <div className="text-lg font-semibold text-gray-900 dark:text-white">{value}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {asset.status === 'disposed' && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-2">
+          <Heading level={2}>Disposal</Heading>
+          <Text className="text-sm">
+            Disposed of on {formatDate(asset.disposal_date)} for {formatMoney(asset.disposal_proceeds || 0)} against a net
+            book value of {formatMoney(asset.net_book_value)}: a {(asset.disposal_proceeds || 0) >= asset.net_book_value ? 'gain' : 'loss'} of{' '}
+            {formatMoney(Math.abs((asset.disposal_proceeds || 0) - asset.net_book_value))}.
+          </Text>
+        </div>
+      )}
+
+      {asset.status === 'active' && !editing && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+          <Heading level={2}>Dispose of this asset</Heading>
+          <Text className="text-sm">
+            Link the bank receipt for a sale so its proceeds post against the asset, or enter the proceeds for a sale not
+            yet banked (zero if scrapped).
+          </Text>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <Field>
+              <Label>Disposal date</Label>
+              <Input type="date" value={disposalDate} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDisposalDate(e.target.value)} />
+            </Field>
+            <Field>
+              <Label>Sale receipt</Label>
+              <Select
+                value={receiptId}
+                onFocus={() => receipts.length === 0 && loadReceipts()}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setReceiptId(e.target.value)}
+              >
+                <option value="">No receipt</option>
+                {receipts.map(receipt => (
+                  <option key={receipt.id} value={receipt.id}>
+                    {formatDate(receipt.date)} · {receipt.original_description} · {formatMoney(receipt.base_cost)}
+                  </option>
+                ))}
+              </Select>
+            </Field>
+            {!receiptId && (
+              <Field>
+                <Label>Proceeds</Label>
+                <Input type="number" step="0.01" min="0" value={proceeds} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setProceeds(e.target.value)} />
+              </Field>
+            )}
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={handleDispose} disabled={saving}>{saving ? 'Posting...' : 'Dispose'}</Button>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+        <Heading level={2}>Depreciation schedule</Heading>
+        {postedRows.length === 0 && schedule.length === 0 ? (
+          <Text className="text-sm">
+            {asset.depreciation_method === 'none' ? 'This asset is not depreciated.' : 'No depreciation is due.'}
+          </Text>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400">
+                  <th className="py-2 pr-4 font-medium">Month</th>
+                  <th className="py-2 pr-4 font-medium">Status</th>
+                  <th className="py-2 pr-4 font-medium text-right">Charge</th>
+                  <th className="py-2 font-medium text-right">Net book value</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {[
+                  ...postedRows.map(row => ({ ...row, posted: true })),
+                  ...schedule.map(row => ({ ...row, posted: false })),
+                ].map(row => (
+                  <tr key={row.period_end} className={row.posted ? 'text-gray-900 dark:text-white' : 'text-gray-500 dark:text-gray-400'}>
+                    <td className="py-2 pr-4">{formatMonth(row.period_end)}</td>
+                    <td className="py-2 pr-4">{row.posted ? 'Posted' : 'Projected'}</td>
+                    <td className="py-2 pr-4 text-right">{formatMoney(row.amount)}</td>
+                    <td className="py-2 text-right">{formatMoney(row.net_book_value)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
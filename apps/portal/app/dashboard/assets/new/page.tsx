@@ -0,0 +1,225 @@
+'use client'
+
+import { Suspense, useEffect, useMemo, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { Heading, Text, Button, Input } from '@/components/catalyst'
+import { FixedAssetForm } from '@/components/assets/FixedAssetForm'
+
+interface Candidate {
+  kind: 'transaction' | 'document'
+  id: string
+  date: string | null
+  description: string
+  amount: number
+  currency: string
+}
+
+function NewFixedAssetContent() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const [candidates, setCandidates] = useState<Candidate[]>([])
+  const [search, setSearch] = useState('')
+  const [source, setSource] = useState<Candidate | null>(null)
+  const [manual, setManual] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadCandidates('')
+  }, [])
+
+  const loadCandidates = async (query: string) => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/assets/candidates?kind=purchase&search=${encodeURIComponent(query)}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to load purchases')
+
+      const loaded: Candidate[] = [
+        ...(data.documents || []).map((doc: any) => ({
+          kind: 'document' as const,
+          id: doc.id,
+          date: doc.document_date,
+          description: [doc.vendor_name, doc.invoice_number].filter(Boolean).join(' - ') || 'Bill',
+          amount: doc.base_cost,
+          currency: data.base_currency,
+        })),
+        ...(data.transactions || []).map((tx: any) => ({
+          kind: 'transaction' as const,
+          id: tx.id,
+          date: tx.date,
+          description: tx.original_description,
+          amount: tx.base_cost,
+          currency: data.base_currency,
+        })),
+      ]
+      setCandidates(loaded)
+
+      // Arriving from a transaction or bill picks it straight away
+      const transactionId = searchParams.get('transaction_id')
+      const documentId = searchParams.get('document_id')
+      const preselected = loaded.find(candidate =>
+        (candidate.kind === 'transaction' && candidate.id === transactionId) ||
+        (candidate.kind === 'document' && candidate.id === documentId)
+      )
+      if (preselected && !query) setSource(preselected)
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load purchases')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const initial = useMemo(
+    () => source
+      ? { name: source.description, acquisition_date: source.date || undefined, cost: Math.round(source.amount * 100) / 100 }
+      : undefined,
+    [source]
+  )
+
+  const handleSave = async (body: Record<string, any>) => {
+    try {
+      setSaving(true)
+      setError(null)
+      const response = await fetch('/api/assets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...body,
+          source_transaction_id: source?.kind === 'transaction' ? source.id : null,
+          source_document_id: source?.kind === 'document' ? source.id : null,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to add the asset')
+      router.push(`/dashboard/assets/${data.asset.id}`)
+    } catch (e: any) {
+      setError(e?.message || 'Failed to add the asset')
+      setSaving(false)
+    }
+  }
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '—'
+    return new Date(dateString).toLocaleDateString('en-GB', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    })
+  }
+
+  const formatMoney = (amount: number, currency: string) => {
+    return new Intl.NumberFormat('en-GB', { style: 'currency', currency }).format(amount)
+  }
+
+  return (
+    <div className="space-y-8 max-w-5xl">
+      <div>
+        <Heading>Add fixed asset</Heading>
+        <Text>
+          Capitalise a bill or a payment and it posts to the balance sheet instead of expenses, or enter an asset bought
+          before you started keeping books here.
+        </Text>
+      </div>
+
+      {error && <div className="text-sm text-red-600 dark:text-red-400">{error}</div>}
+
+      {source || manual ? (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-4 bg-white dark:bg-gray-800 rounded-lg shadow px-6 py-4">
+            <div className="text-sm text-gray-900 dark:text-white">
+              {source
+                ? <>Capitalising {source.kind === 'document' ? 'bill' : 'payment'}: {source.description}, {formatDate(source.date)}, {formatMoney(source.amount, source.currency)}</>
+                : 'Not linked to a purchase'}
+            </div>
+            <Button
+              plain
+              onClick={() => {
+                setSource(null)
+                setManual(false)
+              }}
+            >
+              Change
+            </Button>
+          </div>
+          <FixedAssetForm
+            key={source ? `${source.kind}-${source.id}` : 'manual'}
+            initial={initial}
+            saving={saving}
+            submitLabel="Add asset"
+            onSave={handleSave}
+          />
+        </>
+      ) : (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <Heading level={2}>Choose the purchase</Heading>
+            <Button outline onClick={() => setManual(true)}>Enter without a purchase</Button>
+          </div>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault()
+              loadCandidates(search)
+            }}
+          >
+            <Input
+              placeholder="Search by supplier or description"
+              value={search}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearch(e.target.value)}
+            />
+            <Button type="submit" outline>Search</Button>
+          </form>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+            </div>
+          ) : candidates.length === 0 ? (
+            <Text className="text-sm">No bills or payments found that aren&apos;t already in the register.</Text>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400">
+                    <th className="py-2 pr-4 font-medium">Date</th>
+                    <th className="py-2 pr-4 font-medium">Type</th>
+                    <th className="py-2 pr-4 font-medium">Description</th>
+                    <th className="py-2 pr-4 font-medium text-right">Net amount</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {candidates.map(candidate => (
+                    <tr key={`${candidate.kind}-${candidate.id}`} className="text-gray-900 dark:text-white">
+                      <td className="py-2 pr-4">{formatDate(candidate.date)}</td>
+                      <td className="py-2 pr-4">{candidate.kind === 'document' ? 'Bill' : 'Payment'}</td>
+                      <td className="py-2 pr-4">{candidate.description}</td>
+                      <td className="py-2 pr-4 text-right">{formatMoney(candidate.amount, candidate.currency)}</td>
+                      <td className="py-2 text-right">
+                        <Button plain onClick={() => setSource(candidate)}>Capitalise</Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function NewFixedAssetPage() {
+  return (
+    <Suspense fallback={
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    }>
+      <NewFixedAssetContent />
+    </Suspense>
+  )
+}
@@ -0,0 +1,268 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { Heading, Text, Button, Field, Label, Input, Select } from '@/components/catalyst'
+import { PlusIcon } from '@heroicons/react/24/outline'
+import { ASSET_CLASS_LABELS, type FixedAsset } from '@/lib/assets/fixed-assets'
+import { DEPRECIATION_METHOD_LABELS } from '@/lib/assets/depreciation'
+
+interface DueMonth {
+  period_end: string
+  total: number
+  charges: Array<{ asset_id: string; name: string; amount: number }>
+}
+
+function lastMonthEnd(): string {
+  const now = new Date()
+  return new Date(Date.UTC(now.getFullYear(), now.getMonth(), 0)).toISOString().split('T')[0]
+}
+
+export default function FixedAssetsPage() {
+  const [assets, setAssets] = useState<FixedAsset[]>([])
+  const [companyProfileId, setCompanyProfileId] = useState<string | null>(null)
+  const [baseCurrency, setBaseCurrency] = useState('GBP')
+  const [filter, setFilter] = useState<'active' | 'disposed' | 'all'>('active')
+  const [through, setThrough] = useState(lastMonthEnd())
+  const [due, setDue] = useState<DueMonth[] | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [running, setRunning] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadAssets()
+  }, [])
+
+  const loadAssets = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/assets')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to load fixed assets')
+      setAssets(data.assets || [])
+      setCompanyProfileId(data.company_profile_id)
+      setBaseCurrency(data.base_currency || 'GBP')
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load fixed assets')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const previewDepreciation = async () => {
+    try {
+      setError(null)
+      setMessage(null)
+      const response = await fetch(`/api/assets/depreciation?through=${through}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to work out depreciation')
+      setDue(data.months || [])
+    } catch (e: any) {
+      setError(e?.message || 'Failed to work out depreciation')
+    }
+  }
+
+  const postDepreciation = async () => {
+    try {
+      setRunning(true)
+      setError(null)
+      const response = await fetch('/api/assets/depreciation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ company_profile_id: companyProfileId, through }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to post depreciation')
+
+      const posted = `Posted ${data.months} month${data.months === 1 ? '' : 's'} of depreciation (${formatMoney(data.charged)}).`
+      if (data.errors?.length > 0) {
+        setError(`${posted} Stopped at ${formatDate(data.errors[0].period_end)}: ${data.errors[0].error}`)
+      } else {
+        setMessage(posted)
+      }
+      setDue(null)
+      await loadAssets()
+    } catch (e: any) {
+      setError(e?.message || 'Failed to post depreciation')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const rows = useMemo(
+    () => assets.filter(asset => filter === 'all' || asset.status === filter),
+    [assets, filter]
+  )
+
+  const totals = useMemo(() => {
+    const active = assets.filter(asset => asset.status === 'active')
+    return {
+      cost: active.reduce((sum, asset) => sum + asset.cost, 0),
+      accumulated: active.reduce((sum, asset) => sum + asset.accumulated_depreciation, 0),
+      nbv: active.reduce((sum, asset) => sum + asset.net_book_value, 0),
+    }
+  }, [assets])
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '—'
+    return new Date(dateString).toLocaleDateString('en-GB', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    })
+  }
+
+  const formatMoney = (amount: number) => {
+    return new Intl.NumberFormat('en-GB', { style: 'currency', currency: baseCurrency }).format(amount)
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <Heading>Fixed Assets</Heading>
+          <Text>
+            Capitalised purchases sit on the balance sheet and are depreciated month by month. Disposals post the gain or
+            loss, and the register feeds capital allowances into the corporation tax export.
+          </Text>
+        </div>
+        <Button href="/dashboard/assets/new">
+          <PlusIcon className="h-5 w-5" />
+          Add asset
+        </Button>
+      </div>
+
+      {error && <div className="text-sm text-red-600 dark:text-red-400">{error}</div>}
+      {message && <div className="text-sm text-green-700 dark:text-green-400">{message}</div>}
+
+      <div className="flex flex-wrap gap-4">
+        {[
+          ['Cost', totals.cost],
+          ['Accumulated depreciation', totals.accumulated],
+          ['Net book value', totals.nbv],
+        ].map(([label, amount]) => (
+          <div key={label as string} className="bg-white dark:bg-gray-800 rounded-lg shadow px-6 py-4">
+            <div className="text-xs text-gray-500 dark:text-gray-400">{label}</div>
+            <div className="text-xl font-semibold text-gray-900 dark:text-white">{formatMoney(amount as number)}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+        <Heading level={2}>Depreciation</Heading>
+        <Text className="text-sm">
+          Each month is posted as one journal: depreciation expense against accumulated depreciation. Months already
+          posted are skipped.
+        </Text>
+        <div className="flex flex-wrap items-end gap-4">
+          <Field className="w-48">
+            <Label>Post through</Label>
+            <Input
+              type="date"
+              value={through}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                setThrough(e.target.value)
+                setDue(null)
+              }}
+            />
+          </Field>
+          <Button outline onClick={previewDepreciation}>Preview</Button>
+          {due && due.length > 0 && (
+            <Button onClick={postDepreciation} disabled={running}>
+              {running ? 'Posting...' : `Post ${due.length} month${due.length === 1 ? '' : 's'}`}
+            </Button>
+          )}
+        </div>
+
+        {due && (due.length === 0 ? (
+          <Text className="text-sm">Depreciation is up to date.</Text>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="py-2 pr-4 font-medium">Month ending</th>
+                <th className="py-2 pr-4 font-medium">Assets</th>
+                <th className="py-2 font-medium text-right">Charge</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {due.map(month => (
+                <tr key={month.period_end} className="text-gray-900 dark:text-white">
+                  <td className="py-2 pr-4">{formatDate(month.period_end)}</td>
+                  <td className="py-2 pr-4">{month.charges.length}</td>
+                  <td className="py-2 text-right">{formatMoney(month.total)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ))}
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <Heading level={2}>Register</Heading>
+          <div className="w-48">
+            <Select value={filter} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setFilter(e.target.value as any)}>
+              <option value="active">In use</option>
+              <option value="disposed">Disposed of</option>
+              <option value="all">All assets</option>
+            </Select>
+          </div>
+        </div>
+
+        {rows.length === 0 ? (
+          <Text className="text-sm">
+            {assets.length === 0
+              ? 'No assets yet. Add one, or capitalise a purchase from your transactions or bills.'
+              : 'No assets with this status.'}
+          </Text>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400">
+                  <th className="py-2 pr-4 font-medium">Asset</th>
+                  <th className="py-2 pr-4 font-medium">Class</th>
+                  <th className="py-2 pr-4 font-medium">Acquired</th>
+                  <th className="py-2 pr-4 font-medium">Method</th>
+                  <th className="py-2 pr-4 font-medium">Depreciated to</th>
+                  <th className="py-2 pr-4 font-medium text-right">Cost</th>
+                  <th className="py-2 font-medium text-right">Net book value</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {rows.map(asset => (
+                  <tr key={asset.id} className="text-gray-900 dark:text-white">
+                    <td className="py-2 pr-4">
+                      <Link href={`/dashboard/assets/${asset.id}`} className="text-blue-600 hover:underline dark:text-blue-400">
+                        {asset.name}
+                      </Link>
+                      {asset.status === 'disposed' && (
+                        <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">Disposed {formatDate(asset.disposal_date)}</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4">{ASSET_CLASS_LABELS[asset.asset_class]}</td>
+                    <td className="py-2 pr-4">{formatDate(asset.acquisition_date)}</td>
+                    <td className="py-2 pr-4">{DEPRECIATION_METHOD_LABELS[asset.depreciation_method]}</td>
+                    <td className="py-2 pr-4">{formatDate(asset.depreciated_through)}</td>
+                    <td className="py-2 pr-4 text-right">{formatMoney(asset.cost)}</td>
+                    <td className="py-2 text-right">{asset.status === 'disposed' ? '—' : formatMoney(asset.net_book_value)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
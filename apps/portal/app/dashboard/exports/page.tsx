@@ -1,29 +1,250 @@
 'use client'
 
-import { Heading, Text } from '@/components/catalyst'
-import { ArrowUpTrayIcon } from '@heroicons/react/24/outline'
+import { useEffect, useState } from 'react'
+import { Heading, Text, Button, Field, Label, Input, Select } from '@/components/catalyst'
+import { ArrowDownTrayIcon, ClockIcon } from '@heroicons/react/24/outline'
+
+interface Company {
+  id: string
+  company_name: string
+}
+
+interface BankAccount {
+  id: string
+  account_name: string
+  company_profile_id: string | null
+}
+
+interface ExportOption {
+  id: string
+  label: string
+  requires_bank_account?: boolean
+}
 
 export default function ExportsPage() {
+  const [companies, setCompanies] = useState<Company[]>([])
+  const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([])
+  const [targets, setTargets] = useState<ExportOption[]>([])
+  const [formats, setFormats] = useState<ExportOption[]>([])
+
+  const [companyId, setCompanyId] = useState('')
+  const [bankAccountId, setBankAccountId] = useState('')
+  const [target, setTarget] = useState('xero')
+  const [format, setFormat] = useState('bank_statement')
+  const [startDate, setStartDate] = useState('')
+  const [endDate, setEndDate] = useState('')
+  const [exporting, setExporting] = useState(false)
+  const [exportingAudit, setExportingAudit] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [auditError, setAuditError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const today = new Date()
+    setStartDate(new Date(today.getFullYear(), 0, 1).toISOString().split('T')[0])
+    setEndDate(today.toISOString().split('T')[0])
+    loadOptions()
+  }, [])
+
+  const loadOptions = async () => {
+    try {
+      const [companyResp, bankResp, optionsResp] = await Promise.all([
+        fetch('/api/company'),
+        fetch('/api/bank-accounts'),
+        fetch('/api/exports/accounting'),
+      ])
+      const companyData = await companyResp.json()
+      const bankData = await bankResp.json()
+      const optionsData = await optionsResp.json()
+
+      const loadedCompanies: Company[] = companyData?.companies || []
+      setCompanies(loadedCompanies)
+      if (loadedCompanies.length > 0) setCompanyId(loadedCompanies[0].id)
+      setBankAccounts(bankData?.bank_accounts || [])
+      setTargets(optionsData?.targets || [])
+      setFormats(optionsData?.formats || [])
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load export options')
+    }
+  }
+
+  const companyBankAccounts = bankAccounts.filter(
+    (account) => !account.company_profile_id || account.company_profile_id === companyId
+  )
+  const needsBankAccount = formats.find((f) => f.id === format)?.requires_bank_account ?? false
+
+  const handleExport = async () => {
+    setExporting(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/exports/accounting', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          target,
+          format,
+          companyProfileId: companyId,
+          bankAccountId: needsBankAccount ? bankAccountId : undefined,
+          startDate,
+          endDate,
+        }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || 'Export failed')
+      }
+
+      await downloadCsv(response, `${target}-${format.replace(/_/g, '-')}-${startDate}-${endDate}.csv`)
+    } catch (e: any) {
+      setError(e?.message || 'Export failed')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const handleAuditExport = async () => {
+    setExportingAudit(true)
+    setAuditError(null)
+    try {
+      const response = await fetch('/api/exports/audit-log', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ companyProfileId: companyId, startDate, endDate }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || 'Export failed')
+      }
+
+      await downloadCsv(response, `audit-report-${startDate}-${endDate}.csv`)
+    } catch (e: any) {
+      setAuditError(e?.message || 'Export failed')
+    } finally {
+      setExportingAudit(false)
+    }
+  }
+
+  const downloadCsv = async (response: Response, filename: string) => {
+    const blob = await response.blob()
+    const downloadUrl = window.URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = downloadUrl
+    a.download = filename
+    document.body.appendChild(a)
+    a.click()
+    window.URL.revokeObjectURL(downloadUrl)
+    document.body.removeChild(a)
+  }
+
   return (
     <div className="space-y-8">
       <div>
         <Heading>Exports</Heading>
-        <Text>Export your data to various formats</Text>
+        <Text>Export your data in the import templates of your accounting software</Text>
       </div>
 
-      <div className="flex flex-col items-center justify-center py-20 text-center">
-        <div className="bg-gray-100 dark:bg-gray-800 rounded-full p-6 mb-4">
-          <ArrowUpTrayIcon className="h-12 w-12 text-gray-400 dark:text-gray-500" />
+      {companies.length === 0 && (
+        <Text>No company found. Please create a company first.</Text>
+      )}
+
+      {companies.length > 0 && (
+        <div className="max-w-2xl space-y-4 rounded-lg border border-gray-200 bg-white p-6 dark:border-gray-700 dark:bg-gray-800">
+          <div className="grid grid-cols-2 gap-4">
+            <Field>
+              <Label>Company</Label>
+              <Select value={companyId} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setCompanyId(e.target.value)}>
+                {companies.map((company) => (
+                  <option key={company.id} value={company.id}>
+                    {company.company_name}
+                  </option>
+                ))}
+              </Select>
+            </Field>
+            <Field>
+              <Label>Accounting software</Label>
+              <Select value={target} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setTarget(e.target.value)}>
+                {targets.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.label}
+                  </option>
+                ))}
+              </Select>
+            </Field>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <Field>
+              <Label>Template</Label>
+              <Select value={format} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setFormat(e.target.value)}>
+                {formats.map((f) => (
+                  <option key={f.id} value={f.id}>
+                    {f.label}
+                  </option>
+                ))}
+              </Select>
+            </Field>
+            {needsBankAccount && (
+              <Field>
+                <Label>Bank account</Label>
+                <Select value={bankAccountId} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setBankAccountId(e.target.value)}>
+                  <option value="">Select a bank account</option>
+                  {companyBankAccounts.map((account) => (
+                    <option key={account.id} value={account.id}>
+                      {account.account_name}
+                    </option>
+                  ))}
+                </Select>
+              </Field>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <Field>
+              <Label>From</Label>
+              <Input type="date" value={startDate} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setStartDate(e.target.value)} />
+            </Field>
+            <Field>
+              <Label>To</Label>
+              <Input type="date" value={endDate} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEndDate(e.target.value)} />
+            </Field>
+          </div>
+
+          {error && <div className="text-sm text-red-600 dark:text-red-400">{error}</div>}
+
+          <Button
+            color="blue"
+            onClick={handleExport}
+            disabled={exporting || !companyId || !startDate || !endDate || (needsBankAccount && !bankAccountId)}
+          >
+            <ArrowDownTrayIcon data-slot="icon" />
+            {exporting ? 'Exporting...' : 'Download CSV'}
+          </Button>
         </div>
-        <Heading level={2} className="mb-2">
-          Exports
-        </Heading>
-        <Text className="max-w-md">
-          This feature is coming soon. You'll be able to export your categorized
-          data to Excel, CSV, and accounting software formats.
-        </Text>
-      </div>
+      )}
+
+      {companies.length > 0 && (
+        <div className="max-w-2xl space-y-4 rounded-lg border border-gray-200 bg-white p-6 dark:border-gray-700 dark:bg-gray-800">
+          <div>
+            <Heading level={2}>Audit report</Heading>
+            <Text>
+              Every change made to the selected company&apos;s transactions and documents in the period above: who made
+              it, when, where it came from, and the old and new value of each field.
+            </Text>
+          </div>
+
+          {auditError && <div className="text-sm text-red-600 dark:text-red-400">{auditError}</div>}
+
+          <Button
+            outline
+            onClick={handleAuditExport}
+            disabled={exportingAudit || !companyId || !startDate || !endDate}
+          >
+            <ClockIcon data-slot="icon" />
+            {exportingAudit ? 'Exporting...' : 'Download audit report'}
+          </Button>
+        </div>
+      )}
     </div>
   )
 }
-
@@ -15,6 +15,8 @@ export default function FinancialStatementsPage() {
   const [startDate, setStartDate] = useState<string>("")
   const [endDate, setEndDate] = useState<string>("")
   const [asOfDate, setAsOfDate] = useState<string>("")
+  // Empty uses the company's accounting basis
+  const [basis, setBasis] = useState<'' | 'cash' | 'accrual'>('')
   const [loading, setLoading] = useState(false)
   const [statementData, setStatementData] = useState<any>(null)
   const [error, setError] = useState<string>("")
@@ -73,6 +75,7 @@ export default function FinancialStatementsPage() {
           startDate,
           endDate,
           asOfDate,
+          basis: basis || undefined,
           format: 'json',
         }),
       })
@@ -104,6 +107,7 @@ export default function FinancialStatementsPage() {
           startDate,
           endDate,
           asOfDate,
+          basis: basis || undefined,
           format,
         }),
       })
@@ -245,6 +249,21 @@ export default function FinancialStatementsPage() {
           </div>
         )}
 
+        {statementType === 'profit-and-loss' && (
+          <div>
+            <label className="block text-sm font-medium mb-1">Basis</label>
+            <select
+              value={basis}
+              onChange={(e) => setBasis(e.target.value as any)}
+              className="w-full border rounded px-3 py-2"
+            >
+              <option value="">Company default</option>
+              <option value="accrual">Accrual (invoices when issued)</option>
+              <option value="cash">Cash (invoices when paid)</option>
+            </select>
+          </div>
+        )}
+
         {(statementType === 'balance-sheet' || statementType === 'trial-balance') && (
           <div>
             <label className="block text-sm font-medium mb-1">As Of Date</label>
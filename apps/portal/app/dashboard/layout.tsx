@@ -20,6 +20,7 @@ import { UserMenu } from '@/components/navigation/UserMenu'
 import { SidebarUserMenu } from '@/components/navigation/SidebarUserMenu'
 import {
   HomeIcon,
+  BriefcaseIcon,
   BuildingOfficeIcon,
   ArrowsRightLeftIcon,
   FolderOpenIcon,
@@ -28,9 +29,14 @@ import {
   ChatBubbleLeftRightIcon,
   Cog6ToothIcon,
   DocumentCheckIcon,
+  CheckBadgeIcon,
   BanknotesIcon,
   DocumentTextIcon,
   ShieldCheckIcon,
+  LockClosedIcon,
+  CurrencyPoundIcon,
+  DocumentPlusIcon,
+  CubeIcon,
 } from '@heroicons/react/24/outline'
 import { createClient } from '@/lib/database/client'
 
@@ -109,6 +115,14 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
                 <SidebarLabel>Dashboard</SidebarLabel>
               </SidebarItem>
 
+              <SidebarItem
+                href="/dashboard/practice"
+                current={pathname.startsWith('/dashboard/practice')}
+              >
+                <BriefcaseIcon />
+                <SidebarLabel>Practice</SidebarLabel>
+              </SidebarItem>
+
               <SidebarItem
                 href="/dashboard/reconciliation"
                 current={pathname.startsWith('/dashboard/reconciliation')}
@@ -125,6 +139,22 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
                 <SidebarLabel>Statements</SidebarLabel>
               </SidebarItem>
 
+              <SidebarItem
+                href="/dashboard/sales-invoices"
+                current={pathname.startsWith('/dashboard/sales-invoices')}
+              >
+                <DocumentPlusIcon />
+                <SidebarLabel>Sales Invoices</SidebarLabel>
+              </SidebarItem>
+
+              <SidebarItem
+                href="/dashboard/assets"
+                current={pathname.startsWith('/dashboard/assets')}
+              >
+                <CubeIcon />
+                <SidebarLabel>Fixed Assets</SidebarLabel>
+              </SidebarItem>
+
               <SidebarItem
                 href="/dashboard/uploads/receipts"
                 current={pathname === '/dashboard/uploads/receipts'}
@@ -143,12 +173,20 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
 
               <SidebarItem
                 href="/dashboard/review"
-                current={pathname.startsWith('/dashboard/review')}
+                current={pathname.startsWith('/dashboard/review') && !pathname.startsWith('/dashboard/review/approvals')}
               >
                 <DocumentCheckIcon />
                 <SidebarLabel>Review Jobs</SidebarLabel>
               </SidebarItem>
 
+              <SidebarItem
+                href="/dashboard/review/approvals"
+                current={pathname.startsWith('/dashboard/review/approvals')}
+              >
+                <CheckBadgeIcon />
+                <SidebarLabel>Approvals</SidebarLabel>
+              </SidebarItem>
+
               <SidebarItem
                 href="/dashboard/reports"
                 current={pathname.startsWith('/dashboard/reports')}
@@ -193,6 +231,30 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
                 <DocumentTextIcon />
                 <SidebarLabel>Spreadsheets</SidebarLabel>
               </SidebarItem>
+              <SidebarItem
+                href="/dashboard/settings/periods"
+                current={pathname.startsWith('/dashboard/settings/periods')}
+                className="ml-6"
+              >
+                <LockClosedIcon />
+                <SidebarLabel>Period Close</SidebarLabel>
+              </SidebarItem>
+              <SidebarItem
+                href="/dashboard/settings/currencies"
+                current={pathname.startsWith('/dashboard/settings/currencies')}
+                className="ml-6"
+              >
+                <CurrencyPoundIcon />
+                <SidebarLabel>Currencies</SidebarLabel>
+              </SidebarItem>
+              <SidebarItem
+                href="/dashboard/settings/invoicing"
+                current={pathname.startsWith('/dashboard/settings/invoicing')}
+                className="ml-6"
+              >
+                <DocumentPlusIcon />
+                <SidebarLabel>Invoicing</SidebarLabel>
+              </SidebarItem>
               <SidebarItem
                 href="/dashboard/setup"
                 current={pathname === '/dashboard/setup'}
@@ -0,0 +1,73 @@
+'use client'
+
+import { Suspense, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+import { Heading, Text, Button } from '@/components/catalyst'
+import { CheckCircleIcon } from '@heroicons/react/24/outline'
+
+function AcceptInvitation() {
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token')
+  const [accepting, setAccepting] = useState(false)
+  const [accepted, setAccepted] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleAccept = async () => {
+    try {
+      setAccepting(true)
+      setError(null)
+      const response = await fetch('/api/practice/invitations/accept', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to accept invitation')
+      setAccepted(true)
+    } catch (e: any) {
+      setError(e?.message || 'Failed to accept invitation')
+    } finally {
+      setAccepting(false)
+    }
+  }
+
+  if (!token) {
+    return <Text>This invitation link is incomplete. Ask your accountant to send it again.</Text>
+  }
+
+  if (accepted) {
+    return (
+      <div className="flex items-center gap-2 text-green-700 dark:text-green-400">
+        <CheckCircleIcon className="h-5 w-5" />
+        <Text>Your accountant now has access to your books.</Text>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <Text>
+        Accepting gives everyone at the practice access to your company&apos;s transactions, documents and
+        reports. You can end this at any time.
+      </Text>
+      {error && <div className="text-sm text-red-600 dark:text-red-400">{error}</div>}
+      <Button onClick={handleAccept} disabled={accepting}>
+        {accepting ? 'Accepting...' : 'Accept invitation'}
+      </Button>
+    </div>
+  )
+}
+
+export default function AcceptPracticeInvitationPage() {
+  return (
+    <div className="space-y-8 max-w-xl">
+      <div>
+        <Heading>Accountant Invitation</Heading>
+        <Text>Your accountant has asked to manage your books</Text>
+      </div>
+      <Suspense fallback={null}>
+        <AcceptInvitation />
+      </Suspense>
+    </div>
+  )
+}
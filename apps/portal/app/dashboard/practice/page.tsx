@@ -0,0 +1,328 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Heading, Text, Button, Field, Label, Input } from '@/components/catalyst'
+import {
+  ArrowRightIcon,
+  ClockIcon,
+  EnvelopeIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline'
+import {
+  VAT_DEADLINE_WARNING_DAYS,
+  type PracticeClientSummary,
+} from '@/lib/practice/overview'
+
+interface PracticeLink {
+  id: string
+  client_tenant_id: string
+}
+
+interface PendingInvitation {
+  id: string
+  email: string
+  client_name: string | null
+  expires_at: string
+}
+
+export default function PracticeDashboardPage() {
+  const [clients, setClients] = useState<PracticeClientSummary[]>([])
+  const [links, setLinks] = useState<PracticeLink[]>([])
+  const [invitations, setInvitations] = useState<PendingInvitation[]>([])
+  const [activeCompanyId, setActiveCompanyId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [inviteEmail, setInviteEmail] = useState('')
+  const [inviteName, setInviteName] = useState('')
+  const [inviting, setInviting] = useState(false)
+  const [inviteLink, setInviteLink] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadOverview()
+  }, [])
+
+  const loadOverview = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/practice/clients')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to load clients')
+      setClients(data.clients || [])
+      setLinks(data.links || [])
+      setInvitations(data.invitations || [])
+      setActiveCompanyId(data.active_company_profile_id || null)
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load clients')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleOpen = async (client: PracticeClientSummary, path: string) => {
+    try {
+      setError(null)
+      const response = await fetch('/api/company/active', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ company_profile_id: client.company_profile_id }),
+      })
+      if (!response.ok) throw new Error('Failed to switch company')
+      window.location.href = path
+    } catch (e: any) {
+      setError(e?.message || 'Failed to switch company')
+    }
+  }
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      setInviting(true)
+      setError(null)
+      setInviteLink(null)
+      const response = await fetch('/api/practice/clients', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: inviteEmail, client_name: inviteName || null }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to invite client')
+      setInviteLink(data.invitation?.inviteLink || null)
+      setInviteEmail('')
+      setInviteName('')
+      await loadOverview()
+    } catch (e: any) {
+      setError(e?.message || 'Failed to invite client')
+    } finally {
+      setInviting(false)
+    }
+  }
+
+  const handleRemove = async (params: string, prompt: string) => {
+    if (!confirm(prompt)) return
+
+    try {
+      setError(null)
+      const response = await fetch(`/api/practice/clients?${params}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to remove client')
+      await loadOverview()
+    } catch (e: any) {
+      setError(e?.message || 'Failed to remove client')
+    }
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-GB', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    })
+  }
+
+  const linkForTenant = (tenantId: string | null) =>
+    tenantId ? links.find(link => link.client_tenant_id === tenantId) : undefined
+
+  const totals = clients.reduce(
+    (sum, client) => ({
+      unreviewed: sum.unreviewed + client.unreviewed_transactions,
+      unreconciled: sum.unreconciled + client.unreconciled_transactions + client.unreconciled_documents,
+      vatDueSoon:
+        sum.vatDueSoon +
+        (client.next_vat_deadline && client.next_vat_deadline.days_until_due <= VAT_DEADLINE_WARNING_DAYS ? 1 : 0),
+    }),
+    { unreviewed: 0, unreconciled: 0, vatDueSoon: 0 }
+  )
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <Heading>Practice Dashboard</Heading>
+        <Text>Every client you manage, with the work waiting in each set of books</Text>
+      </div>
+
+      {error && <div className="text-sm text-red-600 dark:text-red-400">{error}</div>}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        {[
+          { label: 'Companies', value: clients.length },
+          { label: 'To review', value: totals.unreviewed },
+          { label: 'To reconcile', value: totals.unreconciled },
+          { label: `VAT due within ${VAT_DEADLINE_WARNING_DAYS} days`, value: totals.vatDueSoon },
+        ].map((card) => (
+          <div key={card.label} className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+            <Text className="text-sm font-medium text-gray-500 dark:text-gray-400">{card.label}</Text>
+            <div className="text-2xl font-semibold text-gray-900 dark:text-white">{card.value}</div>
+          </div>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : clients.length === 0 ? (
+        <Text>No client companies yet. Invite a client below to start working on their books.</Text>
+      ) : (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Company
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  To review
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  To reconcile
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Next VAT return
+                </th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {clients.map((client) => {
+                const deadline = client.next_vat_deadline
+                const dueSoon = deadline && deadline.days_until_due <= VAT_DEADLINE_WARNING_DAYS
+                const link = linkForTenant(client.tenant_id)
+
+                return (
+                  <tr key={client.company_profile_id}>
+                    <td className="px-6 py-4 text-sm text-gray-900 dark:text-white">
+                      <div className="flex items-center gap-2 font-medium">
+                        {client.company_name}
+                        {client.company_profile_id === activeCompanyId && (
+                          <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
+                            Active
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {client.company_type.replace('_', ' ')}
+                        {client.is_client ? ' • Client' : ''}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-right">
+                      <button
+                        type="button"
+                        onClick={() => handleOpen(client, '/dashboard/review')}
+                        className="text-gray-900 dark:text-white hover:underline"
+                      >
+                        {client.unreviewed_transactions}
+                      </button>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-right">
+                      <button
+                        type="button"
+                        onClick={() => handleOpen(client, '/dashboard/reconciliation')}
+                        className="text-gray-900 dark:text-white hover:underline"
+                      >
+                        {client.unreconciled_transactions + client.unreconciled_documents}
+                      </button>
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      {deadline ? (
+                        <span
+                          className={`inline-flex items-center gap-1 ${
+                            dueSoon ? 'text-yellow-700 dark:text-yellow-400' : 'text-gray-700 dark:text-gray-300'
+                          }`}
+                        >
+                          {dueSoon && <ClockIcon className="h-4 w-4" />}
+                          {formatDate(deadline.due_date)}
+                          <span className="text-xs text-gray-500 dark:text-gray-400">
+                            (quarter to {formatDate(deadline.period_end)})
+                          </span>
+                        </span>
+                      ) : (
+                        <span className="text-gray-500 dark:text-gray-400">Not VAT registered</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-right whitespace-nowrap">
+                      <Button plain onClick={() => handleOpen(client, '/dashboard')}>
+                        Open
+                        <ArrowRightIcon className="h-4 w-4" />
+                      </Button>
+                      {link && (
+                        <Button
+                          plain
+                          onClick={() => handleRemove(`link_id=${link.id}`, `Stop managing ${client.company_name}?`)}
+                          className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                        >
+                          <XMarkIcon className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+        <div>
+          <Heading level={2}>Invite a client</Heading>
+          <Text>
+            The client accepts from their own account, which gives everyone in your practice access to their books.
+          </Text>
+        </div>
+
+        <form onSubmit={handleInvite} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <Field>
+            <Label>Client email</Label>
+            <Input
+              type="email"
+              required
+              value={inviteEmail}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setInviteEmail(e.target.value)}
+            />
+          </Field>
+          <Field>
+            <Label>Client name (optional)</Label>
+            <Input
+              value={inviteName}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setInviteName(e.target.value)}
+            />
+          </Field>
+          <Button type="submit" disabled={inviting || !inviteEmail}>
+            <EnvelopeIcon className="h-5 w-5" />
+            {inviting ? 'Sending...' : 'Send invitation'}
+          </Button>
+        </form>
+
+        {inviteLink && (
+          <Text className="text-sm">
+            Invitation created. Share this link with your client: <span className="font-mono break-all">{inviteLink}</span>
+          </Text>
+        )}
+
+        {invitations.length > 0 && (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {invitations.map((invitation) => (
+              <div key={invitation.id} className="flex items-center justify-between py-2 text-sm">
+                <div>
+                  <span className="text-gray-900 dark:text-white">{invitation.client_name || invitation.email}</span>
+                  {invitation.client_name && (
+                    <span className="ml-2 text-gray-500 dark:text-gray-400">{invitation.email}</span>
+                  )}
+                  <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                    Pending until {formatDate(invitation.expires_at)}
+                  </span>
+                </div>
+                <Button
+                  plain
+                  onClick={() => handleRemove(`invitation_id=${invitation.id}`, 'Cancel this invitation?')}
+                >
+                  Cancel
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,310 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Heading, Text, Button, Field, Label, Select } from '@/components/catalyst'
+import {
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  LockClosedIcon,
+  LockOpenIcon,
+} from '@heroicons/react/24/outline'
+import type { BankBalanceReconciliation, StatementReconciliation } from '@/lib/reconciliation/bank-balance'
+
+interface BankAccount {
+  id: string
+  account_name: string
+}
+
+export default function BankBalanceReconciliationPage() {
+  const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([])
+  const [bankAccountId, setBankAccountId] = useState('')
+  const [reconciliation, setReconciliation] = useState<BankBalanceReconciliation | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [lockingId, setLockingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadBankAccounts()
+  }, [])
+
+  useEffect(() => {
+    if (bankAccountId) loadReconciliation(bankAccountId)
+  }, [bankAccountId])
+
+  const loadBankAccounts = async () => {
+    try {
+      const response = await fetch('/api/bank-accounts')
+      const data = await response.json()
+      const accounts: BankAccount[] = data?.bank_accounts || []
+      setBankAccounts(accounts)
+      if (accounts.length > 0) setBankAccountId(accounts[0].id)
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load bank accounts')
+    }
+  }
+
+  const loadReconciliation = async (accountId: string) => {
+    try {
+      setLoading(true)
+      setError(null)
+      const response = await fetch(`/api/bank-accounts/${accountId}/reconciliation`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to load reconciliation')
+      setReconciliation(data)
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load reconciliation')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleLock = async (result: StatementReconciliation) => {
+    try {
+      setLockingId(result.statement.id)
+      setError(null)
+      const response = await fetch(`/api/bank-accounts/${bankAccountId}/reconciliation/locks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          period_start: result.statement.period_start,
+          period_end: result.statement.period_end,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to lock period')
+      await loadReconciliation(bankAccountId)
+    } catch (e: any) {
+      setError(e?.message || 'Failed to lock period')
+    } finally {
+      setLockingId(null)
+    }
+  }
+
+  const handleUnlock = async (result: StatementReconciliation) => {
+    if (!result.lock) return
+    if (!confirm('Unlock this period? Its transactions will become editable again.')) return
+
+    try {
+      setLockingId(result.statement.id)
+      setError(null)
+      const response = await fetch(
+        `/api/bank-accounts/${bankAccountId}/reconciliation/locks?lock_id=${result.lock.id}`,
+        { method: 'DELETE' }
+      )
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to unlock period')
+      await loadReconciliation(bankAccountId)
+    } catch (e: any) {
+      setError(e?.message || 'Failed to unlock period')
+    } finally {
+      setLockingId(null)
+    }
+  }
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-GB', {
+      style: 'currency',
+      currency: 'GBP',
+    }).format(amount)
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-GB', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    })
+  }
+
+  const describeIssues = (result: StatementReconciliation): string[] => {
+    const issues: string[] = []
+    if (result.gap_before) {
+      issues.push(
+        `No statement for ${formatDate(result.gap_before.start)} – ${formatDate(result.gap_before.end)}` +
+        (result.gap_before.transaction_count > 0 ? ` (${result.gap_before.transaction_count} transactions)` : '')
+      )
+    }
+    if (result.overlap_days > 0) {
+      issues.push(`Overlaps the previous statement by ${result.overlap_days} day${result.overlap_days === 1 ? '' : 's'}`)
+    }
+    if (result.expected_opening_balance !== null && Math.abs(result.opening_difference) > 0.01) {
+      issues.push(
+        `Opening balance differs from the expected ${formatCurrency(result.expected_opening_balance)} by ${formatCurrency(result.opening_difference)}`
+      )
+    }
+    if (Math.abs(result.closing_difference) > 0.01) {
+      issues.push(`Computed closing balance is off by ${formatCurrency(result.closing_difference)}`)
+    }
+    if (result.first_divergence) {
+      const d = result.first_divergence
+      issues.push(
+        `First divergence on ${formatDate(d.date)} at "${d.description}": computed ${formatCurrency(d.computed_balance)}, statement shows ${formatCurrency(d.reported_balance)}`
+      )
+    } else if (result.suspect_transaction_ids.length > 0) {
+      issues.push(
+        `${result.suspect_transaction_ids.length} transaction${result.suspect_transaction_ids.length === 1 ? '' : 's'} match the difference (possible duplicate, missing or reversed entry)`
+      )
+    }
+    return issues
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <Heading>Bank Balance Reconciliation</Heading>
+        <Text>Check statements chain together and agree with the transactions on file</Text>
+      </div>
+
+      {bankAccounts.length === 0 ? (
+        <Text>No bank accounts found. Add a bank account first.</Text>
+      ) : (
+        <div className="max-w-sm">
+          <Field>
+            <Label>Bank account</Label>
+            <Select value={bankAccountId} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setBankAccountId(e.target.value)}>
+              {bankAccounts.map((account) => (
+                <option key={account.id} value={account.id}>
+                  {account.account_name}
+                </option>
+              ))}
+            </Select>
+          </Field>
+        </div>
+      )}
+
+      {error && <div className="text-sm text-red-600 dark:text-red-400">{error}</div>}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : reconciliation && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            {[
+              { label: 'Statements', value: reconciliation.summary.statement_count },
+              { label: 'Reconciled', value: reconciliation.summary.reconciled_count },
+              { label: 'Gaps', value: reconciliation.summary.gap_count },
+              { label: 'Overlaps', value: reconciliation.summary.overlap_count },
+            ].map((card) => (
+              <div key={card.label} className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+                <Text className="text-sm font-medium text-gray-500 dark:text-gray-400">{card.label}</Text>
+                <div className="text-2xl font-semibold text-gray-900 dark:text-white">{card.value}</div>
+              </div>
+            ))}
+          </div>
+
+          {(reconciliation.uncovered_before > 0 || reconciliation.uncovered_after > 0) && (
+            <Text className="text-sm text-yellow-700 dark:text-yellow-300">
+              {reconciliation.uncovered_before > 0 && `${reconciliation.uncovered_before} transaction(s) predate the first statement. `}
+              {reconciliation.uncovered_after > 0 && `${reconciliation.uncovered_after} transaction(s) fall after the last statement.`}
+            </Text>
+          )}
+
+          {reconciliation.statements.length === 0 ? (
+            <Text>No statements with opening and closing balances have been imported for this account.</Text>
+          ) : (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-900">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Period
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Opening
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      In / Out
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Computed
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Statement
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Status
+                    </th>
+                    <th className="px-6 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {reconciliation.statements.map((result) => {
+                    const issues = describeIssues(result)
+
+                    return (
+                      <tr key={result.statement.id} className="align-top">
+                        <td className="px-6 py-4 text-sm text-gray-900 dark:text-white">
+                          <div>{formatDate(result.statement.period_start)} – {formatDate(result.statement.period_end)}</div>
+                          {result.statement.statement_number && (
+                            <div className="text-xs text-gray-500 dark:text-gray-400">No. {result.statement.statement_number}</div>
+                          )}
+                          {issues.length > 0 && (
+                            <ul className="mt-2 space-y-1 text-xs text-yellow-700 dark:text-yellow-300">
+                              {issues.map((issue) => (
+                                <li key={issue}>{issue}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-right text-gray-900 dark:text-white">
+                          {formatCurrency(result.statement.opening_balance)}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-right text-gray-500 dark:text-gray-400">
+                          <div>+{formatCurrency(result.total_in)}</div>
+                          <div>−{formatCurrency(result.total_out)}</div>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-right text-gray-900 dark:text-white">
+                          {formatCurrency(result.computed_closing_balance)}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-right text-gray-900 dark:text-white">
+                          {formatCurrency(result.statement.closing_balance)}
+                        </td>
+                        <td className="px-6 py-4 text-sm">
+                          {result.lock ? (
+                            <span className="inline-flex items-center gap-1 text-gray-700 dark:text-gray-300">
+                              <LockClosedIcon className="h-4 w-4" />
+                              Locked
+                            </span>
+                          ) : result.reconciled ? (
+                            <span className="inline-flex items-center gap-1 text-green-700 dark:text-green-400">
+                              <CheckCircleIcon className="h-4 w-4" />
+                              Reconciled
+                            </span>
+                          ) : (
+                            <span className="inline-flex items-center gap-1 text-yellow-700 dark:text-yellow-400">
+                              <ExclamationTriangleIcon className="h-4 w-4" />
+                              Needs review
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-right">
+                          {result.lock ? (
+                            <Button plain onClick={() => handleUnlock(result)} disabled={lockingId === result.statement.id}>
+                              <LockOpenIcon className="h-5 w-5" />
+                              Unlock
+                            </Button>
+                          ) : (
+                            <Button
+                              plain
+                              onClick={() => handleLock(result)}
+                              disabled={lockingId === result.statement.id || Math.abs(result.closing_difference) > 0.01}
+                            >
+                              <LockClosedIcon className="h-5 w-5" />
+                              Lock
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -13,11 +13,15 @@ import {
   ChevronDownIcon,
   ChevronUpIcon,
   PaperClipIcon,
-  LinkIcon
+  LinkIcon,
+  Squares2X2Icon,
+  ScaleIcon
 } from '@heroicons/react/24/outline'
 import { ReceiptUploadModal } from '@/components/reconciliation/ReceiptUploadModal'
 import { MatchBreakdownModal } from '@/components/reconciliation/MatchBreakdownModal'
 import { EmailForwardingInfo } from '@/components/reconciliation/EmailForwardingInfo'
+import { MatchGroupBuilder } from '@/components/reconciliation/MatchGroupBuilder'
+import { MatchGroupList, type MatchGroup } from '@/components/reconciliation/MatchGroupList'
 
 type Transaction = {
   id: string
@@ -87,6 +91,9 @@ export default function ReconciliationPage() {
     transaction: Transaction | null
     document: Document | null
   }>({ show: false, transaction: null, document: null })
+  const [groupTransaction, setGroupTransaction] = useState<Transaction | null>(null)
+  const [matchGroups, setMatchGroups] = useState<MatchGroup[]>([])
+  const [undoingGroupId, setUndoingGroupId] = useState<string | null>(null)
 
 
   const loadReconciliationData = async () => {
@@ -102,6 +109,12 @@ export default function ReconciliationPage() {
       const data = await response.json()
       setTransactions(data.transactions || [])
       setSummary(data.summary || { total_unreconciled: 0, total_matched: 0, total_documents: 0 })
+
+      const groupsResponse = await fetch('/api/reconciliation/groups')
+      if (groupsResponse.ok) {
+        const groupsData = await groupsResponse.json()
+        setMatchGroups(groupsData.groups || [])
+      }
     } catch (error) {
       console.error('Error loading reconciliation data:', error)
     } finally {
@@ -123,7 +136,11 @@ export default function ReconciliationPage() {
       if (!response.ok) throw new Error('Auto-match failed')
       
       const data = await response.json()
-      alert(`Successfully auto-matched ${data.matched_count} transaction(s)!`)
+      alert(
+        data.grouped_count
+          ? `Successfully auto-matched ${data.matched_count} transaction(s) and ${data.grouped_count} match group(s)!`
+          : `Successfully auto-matched ${data.matched_count} transaction(s)!`
+      )
       
       // Reload data
       await loadReconciliationData()
@@ -204,6 +221,25 @@ export default function ReconciliationPage() {
     }
   }
 
+  const handleUndoGroup = async (groupId: string) => {
+    try {
+      setUndoingGroupId(groupId)
+      const response = await fetch(`/api/reconciliation/groups/${groupId}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) throw new Error('Undo failed')
+
+      // Reload data
+      await loadReconciliationData()
+    } catch (error) {
+      console.error('Undo match group error:', error)
+      alert('Failed to undo match group')
+    } finally {
+      setUndoingGroupId(null)
+    }
+  }
+
   const getConfidenceBadge = (confidence: 'high' | 'medium' | 'low') => {
     const colors = {
       high: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
@@ -319,6 +355,10 @@ export default function ReconciliationPage() {
             <DocumentTextIcon className="h-5 w-5 mr-2" />
             Upload Receipts
           </Button>
+          <Button outline href="/dashboard/reconciliation/balances">
+            <ScaleIcon className="h-5 w-5 mr-2" />
+            Bank Balances
+          </Button>
           <Button outline onClick={() => setShowEmailInfo(true)}>
             <EnvelopeIcon className="h-5 w-5 mr-2" />
             Email Address
@@ -486,6 +526,20 @@ export default function ReconciliationPage() {
                           )}
                         </div>
                       </div>
+                      {!isMatched && (
+                        <div className="ml-4 flex-shrink-0">
+                          <Button
+                            plain
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              setGroupTransaction(tx)
+                            }}
+                          >
+                            <Squares2X2Icon className="h-5 w-5" />
+                            Match Several
+                          </Button>
+                        </div>
+                      )}
                       {isMatched && hasMatchedDoc && (
                         <div className="ml-4 flex-shrink-0">
                           <Button
@@ -700,6 +754,21 @@ export default function ReconciliationPage() {
         </div>
       )}
 
+      {/* Match Groups */}
+      {statusFilter !== 'unreconciled' && matchGroups.length > 0 && (
+        <div className="space-y-4">
+          <div>
+            <Heading level={2}>Match Groups</Heading>
+            <Text>Payments matched across several transactions or documents</Text>
+          </div>
+          <MatchGroupList
+            groups={matchGroups}
+            undoingGroupId={undoingGroupId}
+            onUndo={handleUndoGroup}
+          />
+        </div>
+      )}
+
       {/* Modals */}
       <ReceiptUploadModal
         isOpen={showUploadModal}
@@ -719,6 +788,13 @@ export default function ReconciliationPage() {
         onConfirm={handleConfirmBreakdown}
         onCancel={() => setBreakdownModal({ show: false, transaction: null, document: null })}
       />
+
+      <MatchGroupBuilder
+        isOpen={!!groupTransaction}
+        transaction={groupTransaction}
+        onClose={() => setGroupTransaction(null)}
+        onCreated={loadReconciliationData}
+      />
     </div>
   )
 }
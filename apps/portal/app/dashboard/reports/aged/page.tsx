@@ -0,0 +1,220 @@
+'use client'
+
+import { Fragment, Suspense, useEffect, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { Heading, Text, Button, Field, Label, Input } from '@/components/catalyst'
+import { ArrowDownTrayIcon, ChevronDownIcon, ChevronRightIcon } from '@heroicons/react/24/outline'
+import {
+  AGEING_BUCKETS,
+  AGEING_BUCKET_LABELS,
+  type AgedBalancesReport,
+} from '@/lib/ledger/aged-balances'
+
+type AgedType = 'receivables' | 'payables'
+
+function AgedBalancesContent() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const type: AgedType = searchParams.get('type') === 'payables' ? 'payables' : 'receivables'
+
+  const [asOf, setAsOf] = useState(new Date().toISOString().split('T')[0])
+  const [report, setReport] = useState<AgedBalancesReport | null>(null)
+  const [baseCurrency, setBaseCurrency] = useState('GBP')
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadReport = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const params = new URLSearchParams({ type, as_of: asOf })
+      const response = await fetch(`/api/reports/aged?${params}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to load aged balances')
+      setReport(data)
+      setBaseCurrency(data.base_currency)
+      setExpanded(new Set())
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load aged balances')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadReport()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [type])
+
+  const handleDownload = () => {
+    const params = new URLSearchParams({ type, as_of: asOf, format: 'csv' })
+    window.location.href = `/api/reports/aged?${params}`
+  }
+
+  const toggleContact = (name: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev)
+      if (next.has(name)) next.delete(name)
+      else next.add(name)
+      return next
+    })
+  }
+
+  const formatMoney = (amount: number) => {
+    if (amount === 0) return '—'
+    return new Intl.NumberFormat('en-GB', { style: 'currency', currency: baseCurrency }).format(amount)
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-GB', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    })
+  }
+
+  const isReceivables = type === 'receivables'
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Heading>{isReceivables ? 'Aged receivables' : 'Aged payables'}</Heading>
+        <Text>
+          {isReceivables
+            ? 'Sales invoices customers have not paid yet, by how many days past due they are.'
+            : 'Bills not paid yet, by how many days past due they are.'}{' '}
+          Invoices without a due date are aged from their invoice date. Amounts are in {baseCurrency}.
+        </Text>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="flex rounded-md shadow-sm">
+          {(['receivables', 'payables'] as AgedType[]).map(option => (
+            <button
+              key={option}
+              onClick={() => router.replace(`/dashboard/reports/aged?type=${option}`)}
+              className={`px-4 py-2 text-sm font-medium border border-gray-300 dark:border-gray-600 first:rounded-l-md last:rounded-r-md ${
+                type === option
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              {option === 'receivables' ? 'Receivables' : 'Payables'}
+            </button>
+          ))}
+        </div>
+        <Field>
+          <Label>As of</Label>
+          <Input type="date" value={asOf} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAsOf(e.target.value)} />
+        </Field>
+        <Button plain onClick={loadReport} disabled={loading || !asOf}>
+          {loading ? 'Loading...' : 'Refresh'}
+        </Button>
+        <Button plain onClick={handleDownload} disabled={!report}>
+          <ArrowDownTrayIcon className="h-5 w-5" />
+          Download CSV
+        </Button>
+      </div>
+
+      {error && <div className="text-sm text-red-600 dark:text-red-400">{error}</div>}
+
+      {report && report.unconverted_count > 0 && (
+        <Text className="text-sm text-amber-700 dark:text-amber-400">
+          {report.unconverted_count} invoice{report.unconverted_count === 1 ? ' is' : 's are'} waiting for an exchange
+          rate and left out of the totals.
+        </Text>
+      )}
+
+      {report && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                <th className="py-3 px-4 font-medium">{isReceivables ? 'Customer' : 'Supplier'}</th>
+                {AGEING_BUCKETS.map(bucket => (
+                  <th key={bucket} className="py-3 px-4 font-medium text-right">{AGEING_BUCKET_LABELS[bucket]}</th>
+                ))}
+                <th className="py-3 px-4 font-medium text-right">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {report.contacts.length === 0 && (
+                <tr>
+                  <td colSpan={AGEING_BUCKETS.length + 2} className="py-6 px-4 text-center text-gray-500 dark:text-gray-400">
+                    Nothing outstanding as of {formatDate(report.as_of)}.
+                  </td>
+                </tr>
+              )}
+              {report.contacts.map(contact => (
+                <Fragment key={contact.contact_name}>
+                  <tr
+                    className="text-gray-900 dark:text-white cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                    onClick={() => toggleContact(contact.contact_name)}
+                  >
+                    <td className="py-2 px-4 font-medium">
+                      <span className="inline-flex items-center gap-1">
+                        {expanded.has(contact.contact_name)
+                          ? <ChevronDownIcon className="h-4 w-4" />
+                          : <ChevronRightIcon className="h-4 w-4" />}
+                        {contact.contact_name}
+                      </span>
+                    </td>
+                    {AGEING_BUCKETS.map(bucket => (
+                      <td key={bucket} className="py-2 px-4 text-right">{formatMoney(contact[bucket])}</td>
+                    ))}
+                    <td className="py-2 px-4 text-right font-medium">{formatMoney(contact.total)}</td>
+                  </tr>
+                  {expanded.has(contact.contact_name) && contact.invoices.map(invoice => (
+                    <tr key={invoice.document_id} className="text-gray-600 dark:text-gray-400 bg-gray-50 dark:bg-gray-900/40">
+                      <td className="py-1.5 px-4 pl-10">
+                        {invoice.invoice_number || 'No number'} • {formatDate(invoice.document_date)}
+                        {invoice.due_date && <> • due {formatDate(invoice.due_date)}</>}
+                        {invoice.currency && invoice.currency.toUpperCase() !== baseCurrency && (
+                          <> • {invoice.currency} {invoice.outstanding_amount.toFixed(2)}</>
+                        )}
+                      </td>
+                      {AGEING_BUCKETS.map(bucket => (
+                        <td key={bucket} className="py-1.5 px-4 text-right">
+                          {bucket === invoice.bucket && invoice.base_outstanding_amount !== null
+                            ? formatMoney(invoice.base_outstanding_amount)
+                            : ''}
+                        </td>
+                      ))}
+                      <td className="py-1.5 px-4 text-right">
+                        {invoice.base_outstanding_amount === null ? 'No rate' : ''}
+                      </td>
+                    </tr>
+                  ))}
+                </Fragment>
+              ))}
+            </tbody>
+            {report.contacts.length > 0 && (
+              <tfoot>
+                <tr className="text-gray-900 dark:text-white font-medium border-t-2 border-gray-300 dark:border-gray-600">
+                  <td className="py-3 px-4">Total</td>
+                  {AGEING_BUCKETS.map(bucket => (
+                    <td key={bucket} className="py-3 px-4 text-right">{formatMoney(report.totals[bucket])}</td>
+                  ))}
+                  <td className="py-3 px-4 text-right">{formatMoney(report.totals.total)}</td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function AgedBalancesPage() {
+  return (
+    <Suspense fallback={
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    }>
+      <AgedBalancesContent />
+    </Suspense>
+  )
+}
@@ -1,7 +1,29 @@
 'use client'
 
+import Link from 'next/link'
 import { Heading, Text } from '@/components/catalyst'
-import { DocumentChartBarIcon } from '@heroicons/react/24/outline'
+import { ArrowDownTrayIcon, ArrowUpTrayIcon, UsersIcon } from '@heroicons/react/24/outline'
+
+const REPORTS = [
+  {
+    href: '/dashboard/reports/aged?type=receivables',
+    name: 'Aged receivables',
+    description: 'Unpaid sales invoices by customer, grouped by how long they are overdue.',
+    icon: ArrowDownTrayIcon,
+  },
+  {
+    href: '/dashboard/reports/aged?type=payables',
+    name: 'Aged payables',
+    description: 'Unpaid bills by supplier, grouped by how long they are overdue.',
+    icon: ArrowUpTrayIcon,
+  },
+  {
+    href: '/dashboard/reports/counterparties',
+    name: 'Counterparties',
+    description: 'Who you pay and who pays you, with totals and date ranges.',
+    icon: UsersIcon,
+  },
+]
 
 export default function ReportsPage() {
   return (
@@ -11,19 +33,19 @@ export default function ReportsPage() {
         <Text>View and generate financial reports</Text>
       </div>
 
-      <div className="flex flex-col items-center justify-center py-20 text-center">
-        <div className="bg-gray-100 dark:bg-gray-800 rounded-full p-6 mb-4">
-          <DocumentChartBarIcon className="h-12 w-12 text-gray-400 dark:text-gray-500" />
-        </div>
-        <Heading level={2} className="mb-2">
-          Reports
-        </Heading>
-        <Text className="max-w-md">
-          This feature is coming soon. You'll be able to generate various
-          financial reports and analytics.
-        </Text>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {REPORTS.map(report => (
+          <Link
+            key={report.href}
+            href={report.href}
+            className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 hover:ring-2 hover:ring-blue-500"
+          >
+            <report.icon className="h-6 w-6 text-gray-500 dark:text-gray-400 mb-3" />
+            <Heading level={2}>{report.name}</Heading>
+            <Text className="text-sm">{report.description}</Text>
+          </Link>
+        ))}
       </div>
     </div>
   )
 }
-
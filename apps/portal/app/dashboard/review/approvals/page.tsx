@@ -0,0 +1,271 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Heading, Text, Button, Field, Label, Input } from '@/components/catalyst'
+import {
+  ArrowUturnLeftIcon,
+  CheckBadgeIcon,
+  LockClosedIcon,
+} from '@heroicons/react/24/outline'
+import { REVIEW_SKIP_MESSAGES, type ReviewSkipReason } from '@/lib/review/workflow'
+
+interface ApprovalTransaction {
+  id: string
+  date: string
+  original_description: string
+  amount: number
+  is_debit: boolean | null
+  category: string | null
+  subcategory: string | null
+  review_status: string
+  last_edited_by_name: string | null
+  reviewed_by_name: string | null
+  approved_by_name: string | null
+  reviewed_at: string | null
+  approved_at: string | null
+  can_approve: boolean
+  can_send_back: boolean
+  can_lock: boolean
+}
+
+type Queue = 'reviewed' | 'approved'
+
+export default function ApprovalsPage() {
+  const [queue, setQueue] = useState<Queue>('reviewed')
+  const [transactions, setTransactions] = useState<ApprovalTransaction[]>([])
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [note, setNote] = useState('')
+
+  useEffect(() => {
+    loadQueue(queue)
+  }, [queue])
+
+  const loadQueue = async (status: Queue) => {
+    try {
+      setLoading(true)
+      setSelectedIds(new Set())
+      const response = await fetch(`/api/review/approvals?status=${status}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to load approvals')
+      setTransactions(data.transactions || [])
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load approvals')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleAction = async (action: 'approve' | 'send_back' | 'lock') => {
+    if (action === 'send_back' && !note.trim()) {
+      setError('Add a note explaining what needs to change before sending transactions back')
+      return
+    }
+
+    try {
+      setSubmitting(true)
+      setError(null)
+      setMessage(null)
+      const response = await fetch('/api/review/approvals', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          transaction_ids: Array.from(selectedIds),
+          action,
+          note: action === 'send_back' ? note.trim() : null,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to update transactions')
+
+      const skipped: { id: string; reason: ReviewSkipReason }[] = data.skipped || []
+      setMessage(
+        `${data.updated} transaction${data.updated === 1 ? '' : 's'} updated` +
+          (skipped.length > 0 ? `; ${skipped.length} skipped (${REVIEW_SKIP_MESSAGES[skipped[0].reason]})` : '')
+      )
+      if (action === 'send_back') setNote('')
+      await loadQueue(queue)
+    } catch (e: any) {
+      setError(e?.message || 'Failed to update transactions')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const selectable = (tx: ApprovalTransaction) =>
+    queue === 'reviewed' ? tx.can_approve || tx.can_send_back : tx.can_lock || tx.can_send_back
+
+  const toggle = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const selectableIds = transactions.filter(selectable).map(tx => tx.id)
+  const allSelected = selectableIds.length > 0 && selectableIds.every(id => selectedIds.has(id))
+  const selected = transactions.filter(tx => selectedIds.has(tx.id))
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-GB', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    })
+  }
+
+  const formatAmount = (tx: ApprovalTransaction) => {
+    const value = Math.abs(Number(tx.amount)).toLocaleString('en-GB', { style: 'currency', currency: 'GBP' })
+    return tx.is_debit ? `-${value}` : value
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <Heading>Approvals</Heading>
+        <Text>
+          Reviewed transactions need a second person to approve them. You cannot approve changes you made or
+          reviewed yourself.
+        </Text>
+      </div>
+
+      <div className="flex gap-2">
+        {([
+          ['reviewed', 'Awaiting approval'],
+          ['approved', 'Approved'],
+        ] as [Queue, string][]).map(([value, label]) =>
+          queue === value ? (
+            <Button key={value}>{label}</Button>
+          ) : (
+            <Button key={value} plain onClick={() => setQueue(value)}>
+              {label}
+            </Button>
+          )
+        )}
+      </div>
+
+      {error && <div className="text-sm text-red-600 dark:text-red-400">{error}</div>}
+      {message && <div className="text-sm text-green-700 dark:text-green-400">{message}</div>}
+
+      {selected.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 flex flex-wrap items-end gap-4">
+          <Text className="text-sm">{selected.length} selected</Text>
+          {queue === 'reviewed' ? (
+            <Button onClick={() => handleAction('approve')} disabled={submitting || !selected.some(tx => tx.can_approve)}>
+              <CheckBadgeIcon className="h-5 w-5" />
+              Approve
+            </Button>
+          ) : (
+            <Button onClick={() => handleAction('lock')} disabled={submitting || !selected.some(tx => tx.can_lock)}>
+              <LockClosedIcon className="h-5 w-5" />
+              Lock
+            </Button>
+          )}
+          <Field className="flex-1 min-w-64">
+            <Label>Note for the reviewer</Label>
+            <Input
+              value={note}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNote(e.target.value)}
+              placeholder="What needs to change?"
+            />
+          </Field>
+          <Button
+            plain
+            onClick={() => handleAction('send_back')}
+            disabled={submitting || !selected.some(tx => tx.can_send_back)}
+          >
+            <ArrowUturnLeftIcon className="h-5 w-5" />
+            Send back
+          </Button>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : transactions.length === 0 ? (
+        <Text>{queue === 'reviewed' ? 'Nothing is waiting for approval.' : 'No approved transactions waiting to be locked.'}</Text>
+      ) : (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                <th className="px-6 py-3 w-8">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    disabled={selectableIds.length === 0}
+                    onChange={() => setSelectedIds(allSelected ? new Set() : new Set(selectableIds))}
+                  />
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Date
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Description
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Category
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Amount
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Edited by
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  {queue === 'reviewed' ? 'Reviewed by' : 'Approved by'}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {transactions.map((tx) => {
+                const canSelect = selectable(tx)
+                return (
+                  <tr key={tx.id} className={canSelect ? '' : 'opacity-60'}>
+                    <td className="px-6 py-4">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(tx.id)}
+                        disabled={!canSelect}
+                        onChange={() => toggle(tx.id)}
+                      />
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900 dark:text-white whitespace-nowrap">
+                      {formatDate(tx.date)}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900 dark:text-white">{tx.original_description}</td>
+                    <td className="px-6 py-4 text-sm text-gray-700 dark:text-gray-300">
+                      {tx.category || 'Uncategorized'}
+                      {tx.subcategory && (
+                        <span className="text-xs text-gray-500 dark:text-gray-400"> / {tx.subcategory}</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-right text-gray-900 dark:text-white whitespace-nowrap">
+                      {formatAmount(tx)}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700 dark:text-gray-300">
+                      {tx.last_edited_by_name || '—'}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700 dark:text-gray-300">
+                      {(queue === 'reviewed' ? tx.reviewed_by_name : tx.approved_by_name) || '—'}
+                      {queue === 'reviewed' && !tx.can_approve && tx.can_send_back && (
+                        <div className="text-xs text-gray-500 dark:text-gray-400">Needs another approver</div>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,343 @@
+'use client'
+
+import { Suspense, useEffect, useState } from 'react'
+import { useParams, useRouter, useSearchParams } from 'next/navigation'
+import { Heading, Text, Button, Field, Label, Input, Textarea } from '@/components/catalyst'
+import {
+  ArrowDownTrayIcon,
+  ArrowLeftIcon,
+  DocumentTextIcon,
+  NoSymbolIcon,
+  PaperAirplaneIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline'
+import { SalesInvoiceEditor } from '@/components/sales-invoices/SalesInvoiceEditor'
+import { SalesInvoiceStatusBadge } from '@/components/sales-invoices/SalesInvoiceStatusBadge'
+import { VAT_CODES } from '@/lib/vat/codes'
+import {
+  getDisplayStatus,
+  summariseVat,
+  type SalesInvoice,
+  type SalesInvoiceSettings,
+} from '@/lib/sales-invoices/invoices'
+
+function SalesInvoiceContent() {
+  const router = useRouter()
+  const params = useParams<{ id: string }>()
+  const searchParams = useSearchParams()
+  const invoiceId = params.id
+
+  const [invoice, setInvoice] = useState<SalesInvoice | null>(null)
+  const [settings, setSettings] = useState<SalesInvoiceSettings | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(searchParams.get('error'))
+  const [message, setMessage] = useState<string | null>(null)
+
+  const [sendTo, setSendTo] = useState('')
+  const [sendMessage, setSendMessage] = useState('')
+  const [voidReason, setVoidReason] = useState('')
+  const [showVoid, setShowVoid] = useState(false)
+
+  useEffect(() => {
+    loadInvoice()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [invoiceId])
+
+  const loadInvoice = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/sales-invoices/${invoiceId}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to load invoice')
+      setInvoice(data.invoice)
+      setSettings(data.settings)
+      setSendTo(data.invoice.sent_to || data.invoice.customer_email || '')
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load invoice')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Every action returns the updated invoice
+  const runAction = async (path: string, init: RequestInit, success: string) => {
+    try {
+      setSaving(true)
+      setError(null)
+      setMessage(null)
+      const response = await fetch(`/api/sales-invoices/${invoiceId}${path}`, init)
+      const data = await response.json()
+      if (data?.invoice) setInvoice(data.invoice)
+      if (!response.ok) throw new Error(data?.error || 'Something went wrong')
+      setMessage(success)
+      return true
+    } catch (e: any) {
+      setError(e?.message || 'Something went wrong')
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSave = async (body: Record<string, any>, issue: boolean) => {
+    const saved = await runAction('', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    }, 'Draft saved')
+    if (saved && issue) await handleIssue()
+  }
+
+  const handleIssue = async () => {
+    await runAction('/issue', { method: 'POST' }, 'Invoice issued and posted to receivables')
+  }
+
+  const handleDelete = async () => {
+    if (!confirm('Delete this draft invoice?')) return
+    if (await runAction('', { method: 'DELETE' }, 'Draft deleted')) {
+      router.push('/dashboard/sales-invoices')
+    }
+  }
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault()
+    await runAction('/send', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ to: sendTo, message: sendMessage }),
+    }, `Invoice emailed to ${sendTo}`)
+  }
+
+  const handleVoid = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (await runAction('/void', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ reason: voidReason }),
+    }, 'Invoice voided')) {
+      setShowVoid(false)
+    }
+  }
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '—'
+    return new Date(dateString).toLocaleDateString('en-GB', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    })
+  }
+
+  const formatMoney = (amount: number) => {
+    return new Intl.NumberFormat('en-GB', { style: 'currency', currency: invoice?.currency || 'GBP' }).format(amount)
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!invoice || !settings) {
+    return <div className="text-sm text-red-600 dark:text-red-400">{error || 'Invoice not found'}</div>
+  }
+
+  const status = getDisplayStatus(invoice)
+  const outstanding = Math.max(0, Number(invoice.total_amount) - Number(invoice.amount_paid || 0))
+  const canVoid = invoice.status === 'issued' && invoice.payment_status === 'unpaid'
+
+  return (
+    <div className="space-y-8 max-w-5xl">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <Button plain href="/dashboard/sales-invoices" className="-ml-3 mb-2">
+            <ArrowLeftIcon className="h-5 w-5" />
+            Sales invoices
+          </Button>
+          <div className="flex items-center gap-3">
+            <Heading>{invoice.invoice_number ? `Invoice ${invoice.invoice_number}` : 'Draft invoice'}</Heading>
+            <SalesInvoiceStatusBadge status={status} />
+          </div>
+          <Text>{invoice.customer_name}</Text>
+        </div>
+        <div className="flex gap-2">
+          <Button plain href={`/api/sales-invoices/${invoice.id}/pdf`} target="_blank">
+            <DocumentTextIcon className="h-5 w-5" />
+            {invoice.status === 'draft' ? 'Preview PDF' : 'View PDF'}
+          </Button>
+          {invoice.status !== 'draft' && (
+            <Button plain href={`/api/sales-invoices/${invoice.id}/pdf?download=1`}>
+              <ArrowDownTrayIcon className="h-5 w-5" />
+              Download
+            </Button>
+          )}
+          {invoice.status === 'draft' && (
+            <Button plain onClick={handleDelete} disabled={saving}>
+              <TrashIcon className="h-5 w-5" />
+              Delete draft
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-red-600 dark:text-red-400">{error}</div>}
+      {message && <div className="text-sm text-green-700 dark:text-green-400">{message}</div>}
+
+      {invoice.status === 'draft' ? (
+        <SalesInvoiceEditor
+          invoice={invoice}
+          defaultCurrency={invoice.currency}
+          paymentTermsDays={settings.payment_terms_days}
+          saving={saving}
+          onSave={handleSave}
+        />
+      ) : (
+        <>
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+            <div>
+              <div className="text-gray-500 dark:text-gray-400">Bill to</div>
+              <div className="font-medium text-gray-900 dark:text-white">{invoice.customer_name}</div>
+              {invoice.customer_address && (
+                <div className="whitespace-pre-line text-gray-700 dark:text-gray-300">{invoice.customer_address}</div>
+              )}
+              {invoice.customer_email && <div className="text-gray-700 dark:text-gray-300">{invoice.customer_email}</div>}
+            </div>
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+              <dt className="text-gray-500 dark:text-gray-400">Issued</dt>
+              <dd className="text-gray-900 dark:text-white">{formatDate(invoice.issue_date)}</dd>
+              <dt className="text-gray-500 dark:text-gray-400">Due</dt>
+              <dd className="text-gray-900 dark:text-white">{formatDate(invoice.due_date)}</dd>
+              {invoice.reference && (
+                <>
+                  <dt className="text-gray-500 dark:text-gray-400">Reference</dt>
+                  <dd className="text-gray-900 dark:text-white">{invoice.reference}</dd>
+                </>
+              )}
+              <dt className="text-gray-500 dark:text-gray-400">Paid</dt>
+              <dd className="text-gray-900 dark:text-white">{formatMoney(Number(invoice.amount_paid || 0))}</dd>
+              <dt className="text-gray-500 dark:text-gray-400">Outstanding</dt>
+              <dd className="font-medium text-gray-900 dark:text-white">{invoice.status === 'void' ? '—' : formatMoney(outstanding)}</dd>
+            </dl>
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400">
+                    <th className="py-2 pr-4 font-medium">Description</th>
+                    <th className="py-2 pr-4 font-medium text-right">Qty</th>
+                    <th className="py-2 pr-4 font-medium text-right">Unit price</th>
+                    <th className="py-2 pr-4 font-medium">VAT</th>
+                    <th className="py-2 font-medium text-right">Net</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {invoice.lines.map(line => (
+                    <tr key={line.line_number} className="text-gray-900 dark:text-white">
+                      <td className="py-2 pr-4">{line.description}</td>
+                      <td className="py-2 pr-4 text-right">{Number(line.quantity)}</td>
+                      <td className="py-2 pr-4 text-right">{formatMoney(Number(line.unit_price))}</td>
+                      <td className="py-2 pr-4">
+                        {VAT_CODES[line.vat_code].label}
+                        {line.vat_amount > 0 && ` • ${formatMoney(Number(line.vat_amount))}`}
+                      </td>
+                      <td className="py-2 text-right">{formatMoney(Number(line.net_amount))}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="ml-auto w-64 space-y-1 text-sm">
+              <div className="flex justify-between text-gray-700 dark:text-gray-300">
+                <span>Subtotal</span>
+                <span>{formatMoney(Number(invoice.subtotal_amount))}</span>
+              </div>
+              {summariseVat(invoice.lines).map(row => (
+                <div key={row.label} className="flex justify-between text-gray-700 dark:text-gray-300">
+                  <span>{row.label}</span>
+                  <span>{formatMoney(row.vat)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between font-semibold text-gray-900 dark:text-white border-t border-gray-200 dark:border-gray-700 pt-1">
+                <span>Total</span>
+                <span>{formatMoney(Number(invoice.total_amount))}</span>
+              </div>
+            </div>
+            {invoice.notes && <Text className="text-sm whitespace-pre-line">{invoice.notes}</Text>}
+          </div>
+
+          {invoice.status === 'void' ? (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 text-sm text-gray-700 dark:text-gray-300">
+              Voided {formatDate(invoice.voided_at)}: {invoice.void_reason}
+            </div>
+          ) : (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+              <div>
+                <Heading level={2}>Send to customer</Heading>
+                <Text>
+                  {invoice.sent_at
+                    ? `Last sent to ${invoice.sent_to} on ${formatDate(invoice.sent_at)} (${invoice.send_count} time${invoice.send_count === 1 ? '' : 's'}).`
+                    : 'Not sent yet. The PDF is attached to the email.'}
+                </Text>
+              </div>
+              <form onSubmit={handleSend} className="space-y-4">
+                <Field>
+                  <Label>Email address</Label>
+                  <Input type="email" value={sendTo} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSendTo(e.target.value)} required />
+                </Field>
+                <Field>
+                  <Label>Message (optional)</Label>
+                  <Textarea rows={3} value={sendMessage} onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setSendMessage(e.target.value)} />
+                </Field>
+                <div className="flex gap-2">
+                  <Button type="submit" disabled={saving || !sendTo}>
+                    <PaperAirplaneIcon className="h-5 w-5" />
+                    {invoice.sent_at ? 'Send again' : 'Send invoice'}
+                  </Button>
+                  {canVoid && !showVoid && (
+                    <Button plain type="button" onClick={() => setShowVoid(true)}>
+                      <NoSymbolIcon className="h-5 w-5" />
+                      Void invoice
+                    </Button>
+                  )}
+                </div>
+              </form>
+
+              {showVoid && (
+                <form onSubmit={handleVoid} className="space-y-4 border-t border-gray-200 dark:border-gray-700 pt-4">
+                  <Text className="text-sm">
+                    Voiding keeps the number {invoice.invoice_number} and reverses the receivable. It can&apos;t be undone.
+                  </Text>
+                  <Field>
+                    <Label>Reason</Label>
+                    <Input value={voidReason} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setVoidReason(e.target.value)} required />
+                  </Field>
+                  <div className="flex gap-2">
+                    <Button type="submit" disabled={saving || !voidReason.trim()}>Void invoice</Button>
+                    <Button plain type="button" onClick={() => setShowVoid(false)}>Cancel</Button>
+                  </div>
+                </form>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+export default function SalesInvoicePage() {
+  return (
+    <Suspense fallback={
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    }>
+      <SalesInvoiceContent />
+    </Suspense>
+  )
+}
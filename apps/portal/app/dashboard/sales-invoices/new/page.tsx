@@ -0,0 +1,80 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Heading, Text } from '@/components/catalyst'
+import { SalesInvoiceEditor } from '@/components/sales-invoices/SalesInvoiceEditor'
+
+export default function NewSalesInvoicePage() {
+  const router = useRouter()
+  const [defaults, setDefaults] = useState<{ currency: string; paymentTermsDays: number } | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadDefaults = async () => {
+      try {
+        const response = await fetch('/api/sales-invoices')
+        const data = await response.json()
+        if (!response.ok) throw new Error(data?.error || 'Failed to load invoice settings')
+        setDefaults({ currency: data.base_currency, paymentTermsDays: data.settings.payment_terms_days })
+      } catch (e: any) {
+        setError(e?.message || 'Failed to load invoice settings')
+      }
+    }
+    loadDefaults()
+  }, [])
+
+  const handleSave = async (body: Record<string, any>, issue: boolean) => {
+    try {
+      setSaving(true)
+      setError(null)
+      const response = await fetch('/api/sales-invoices', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to save invoice')
+
+      const invoiceId = data.invoice.id
+      if (issue) {
+        const issueResponse = await fetch(`/api/sales-invoices/${invoiceId}/issue`, { method: 'POST' })
+        const issueData = await issueResponse.json()
+        // The draft is saved either way; the invoice page shows it with the error
+        if (!issueResponse.ok) {
+          router.push(`/dashboard/sales-invoices/${invoiceId}?error=${encodeURIComponent(issueData?.error || 'Failed to issue invoice')}`)
+          return
+        }
+      }
+      router.push(`/dashboard/sales-invoices/${invoiceId}`)
+    } catch (e: any) {
+      setError(e?.message || 'Failed to save invoice')
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-8 max-w-5xl">
+      <div>
+        <Heading>New invoice</Heading>
+        <Text>Drafts can be changed freely. The invoice gets its number when you issue it.</Text>
+      </div>
+
+      {error && <div className="text-sm text-red-600 dark:text-red-400">{error}</div>}
+
+      {defaults ? (
+        <SalesInvoiceEditor
+          defaultCurrency={defaults.currency}
+          paymentTermsDays={defaults.paymentTermsDays}
+          saving={saving}
+          onSave={handleSave}
+        />
+      ) : !error && (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      )}
+    </div>
+  )
+}
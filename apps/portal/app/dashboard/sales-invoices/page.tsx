@@ -0,0 +1,177 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { Heading, Text, Button, Select } from '@/components/catalyst'
+import { Cog6ToothIcon, PlusIcon } from '@heroicons/react/24/outline'
+import { SalesInvoiceStatusBadge } from '@/components/sales-invoices/SalesInvoiceStatusBadge'
+import {
+  SALES_INVOICE_STATUS_LABELS,
+  formatInvoiceNumber,
+  getDisplayStatus,
+  type SalesInvoice,
+  type SalesInvoiceDisplayStatus,
+} from '@/lib/sales-invoices/invoices'
+
+export default function SalesInvoicesPage() {
+  const [invoices, setInvoices] = useState<SalesInvoice[]>([])
+  const [nextNumber, setNextNumber] = useState<string | null>(null)
+  const [filter, setFilter] = useState<'all' | SalesInvoiceDisplayStatus>('all')
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadInvoices()
+  }, [])
+
+  const loadInvoices = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/sales-invoices')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to load invoices')
+      setInvoices(data.invoices || [])
+      setNextNumber(formatInvoiceNumber(data.settings, data.settings.next_number))
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load invoices')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const rows = useMemo(
+    () => invoices
+      .map(invoice => ({ invoice, status: getDisplayStatus(invoice) }))
+      .filter(row => filter === 'all' || row.status === filter),
+    [invoices, filter]
+  )
+
+  // Totals are per currency, since invoices can be raised in any currency
+  const outstanding = useMemo(() => {
+    const byCurrency = new Map<string, number>()
+    for (const invoice of invoices) {
+      if (invoice.status !== 'issued' || invoice.payment_status === 'paid') continue
+      const owed = Number(invoice.total_amount) - Number(invoice.amount_paid || 0)
+      byCurrency.set(invoice.currency, (byCurrency.get(invoice.currency) || 0) + owed)
+    }
+    return Array.from(byCurrency.entries())
+  }, [invoices])
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '—'
+    return new Date(dateString).toLocaleDateString('en-GB', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    })
+  }
+
+  const formatMoney = (amount: number, currency: string) => {
+    return new Intl.NumberFormat('en-GB', { style: 'currency', currency }).format(amount)
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <Heading>Sales Invoices</Heading>
+          <Text>
+            Invoices you raise are numbered in sequence when issued, posted to receivables and matched to customer
+            payments during reconciliation.
+            {nextNumber && <> The next invoice will be {nextNumber}.</>}
+          </Text>
+        </div>
+        <div className="flex gap-2">
+          <Button plain href="/dashboard/settings/invoicing">
+            <Cog6ToothIcon className="h-5 w-5" />
+            Settings
+          </Button>
+          <Button href="/dashboard/sales-invoices/new">
+            <PlusIcon className="h-5 w-5" />
+            New invoice
+          </Button>
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-red-600 dark:text-red-400">{error}</div>}
+
+      {outstanding.length > 0 && (
+        <div className="flex flex-wrap gap-4">
+          {outstanding.map(([currency, amount]) => (
+            <div key={currency} className="bg-white dark:bg-gray-800 rounded-lg shadow px-6 py-4">
+              <div className="text-xs text-gray-500 dark:text-gray-400">Outstanding ({currency})</div>
+              <div className="text-xl font-semibold text-gray-900 dark:text-white">{formatMoney(amount, currency)}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <Heading level={2}>Invoices</Heading>
+          <div className="w-48">
+            <Select value={filter} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setFilter(e.target.value as any)}>
+              <option value="all">All invoices</option>
+              {(Object.keys(SALES_INVOICE_STATUS_LABELS) as SalesInvoiceDisplayStatus[]).map(status => (
+                <option key={status} value={status}>{SALES_INVOICE_STATUS_LABELS[status]}</option>
+              ))}
+            </Select>
+          </div>
+        </div>
+
+        {rows.length === 0 ? (
+          <Text className="text-sm">
+            {invoices.length === 0 ? 'No invoices yet. Create one to bill a customer.' : 'No invoices with this status.'}
+          </Text>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400">
+                  <th className="py-2 pr-4 font-medium">Number</th>
+                  <th className="py-2 pr-4 font-medium">Customer</th>
+                  <th className="py-2 pr-4 font-medium">Issued</th>
+                  <th className="py-2 pr-4 font-medium">Due</th>
+                  <th className="py-2 pr-4 font-medium">Status</th>
+                  <th className="py-2 pr-4 font-medium text-right">Total</th>
+                  <th className="py-2 font-medium text-right">Outstanding</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {rows.map(({ invoice, status }) => (
+                  <tr key={invoice.id} className="text-gray-900 dark:text-white">
+                    <td className="py-2 pr-4">
+                      <Link href={`/dashboard/sales-invoices/${invoice.id}`} className="text-blue-600 hover:underline dark:text-blue-400">
+                        {invoice.invoice_number || 'Draft'}
+                      </Link>
+                    </td>
+                    <td className="py-2 pr-4">{invoice.customer_name}</td>
+                    <td className="py-2 pr-4">{formatDate(invoice.issue_date)}</td>
+                    <td className="py-2 pr-4">{formatDate(invoice.due_date)}</td>
+                    <td className="py-2 pr-4">
+                      <SalesInvoiceStatusBadge status={status} />
+                    </td>
+                    <td className="py-2 pr-4 text-right">{formatMoney(Number(invoice.total_amount), invoice.currency)}</td>
+                    <td className="py-2 text-right">
+                      {invoice.status === 'issued'
+                        ? formatMoney(Math.max(0, Number(invoice.total_amount) - Number(invoice.amount_paid || 0)), invoice.currency)
+                        : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
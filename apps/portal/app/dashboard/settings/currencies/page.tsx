@@ -0,0 +1,283 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Heading, Text, Button, Field, Label, Input } from '@/components/catalyst'
+import { ArrowUpTrayIcon, ScaleIcon } from '@heroicons/react/24/outline'
+import { FX_RATE_SOURCE_LABELS, type FxRate } from '@/lib/fx/rates'
+import type { ForeignBankAccountGain } from '@/lib/fx/revaluation'
+
+export default function CurrenciesPage() {
+  const [companyId, setCompanyId] = useState<string | null>(null)
+  const [baseCurrency, setBaseCurrency] = useState('GBP')
+  const [rates, setRates] = useState<FxRate[]>([])
+  const [unconverted, setUnconverted] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [rateFile, setRateFile] = useState<File | null>(null)
+
+  const [startDate, setStartDate] = useState('')
+  const [endDate, setEndDate] = useState('')
+  const [gains, setGains] = useState<ForeignBankAccountGain[]>([])
+  const [canPost, setCanPost] = useState(false)
+  const [loadingGains, setLoadingGains] = useState(false)
+
+  useEffect(() => {
+    const today = new Date()
+    setStartDate(new Date(today.getFullYear(), 0, 1).toISOString().split('T')[0])
+    setEndDate(today.toISOString().split('T')[0])
+    loadRates()
+  }, [])
+
+  const loadRates = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/fx/rates')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to load exchange rates')
+      setCompanyId(data.company_profile_id)
+      setBaseCurrency(data.base_currency)
+      setRates(data.rates || [])
+      setUnconverted(data.unconverted_transactions || 0)
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load exchange rates')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadGains = async () => {
+    if (!companyId || !startDate || !endDate) return
+    try {
+      setLoadingGains(true)
+      setError(null)
+      const params = new URLSearchParams({ company_profile_id: companyId, start_date: startDate, end_date: endDate })
+      const response = await fetch(`/api/fx/revaluation?${params}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to calculate exchange gains')
+      setGains(data.accounts || [])
+      setCanPost(data.can_post)
+    } catch (e: any) {
+      setError(e?.message || 'Failed to calculate exchange gains')
+    } finally {
+      setLoadingGains(false)
+    }
+  }
+
+  useEffect(() => {
+    loadGains()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [companyId])
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!rateFile || !companyId) return
+    try {
+      setSaving(true)
+      setError(null)
+      setMessage(null)
+      const formData = new FormData()
+      formData.append('file', rateFile)
+      formData.append('company_profile_id', companyId)
+      const response = await fetch('/api/fx/rates', { method: 'POST', body: formData })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Import failed')
+      setMessage(
+        `Imported ${data.imported} ${FX_RATE_SOURCE_LABELS[data.source as FxRate['source']]} rates` +
+          (data.converted > 0 ? `; ${data.converted} waiting transactions converted and ${data.posted} posted` : '')
+      )
+      setRateFile(null)
+      await loadRates()
+      await loadGains()
+    } catch (e: any) {
+      setError(e?.message || 'Import failed')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handlePostRevaluation = async () => {
+    if (!companyId) return
+    if (!confirm(`Post revaluation entries as of ${formatDate(endDate)}?`)) return
+    try {
+      setSaving(true)
+      setError(null)
+      setMessage(null)
+      const response = await fetch('/api/fx/revaluation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ company_profile_id: companyId, as_of: endDate }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Revaluation failed')
+      setMessage(data.posted > 0 ? `Posted ${data.posted} revaluation entr${data.posted === 1 ? 'y' : 'ies'}` : 'Nothing to revalue')
+      await loadGains()
+    } catch (e: any) {
+      setError(e?.message || 'Revaluation failed')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-GB', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    })
+  }
+
+  const formatMoney = (amount: number | null, currency: string) => {
+    if (amount === null) return '—'
+    return new Intl.NumberFormat('en-GB', { style: 'currency', currency }).format(amount)
+  }
+
+  const needsRevaluation = gains.some(gain => gain.revaluation !== null && gain.revaluation !== 0)
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-8 max-w-4xl">
+      <div>
+        <Heading>Currencies</Heading>
+        <Text>
+          Books are kept in {baseCurrency}. Foreign-currency transactions and documents are converted at the rate in
+          force on their date, using rates imported here from the ECB or HMRC rate files.
+        </Text>
+      </div>
+
+      {error && <div className="text-sm text-red-600 dark:text-red-400">{error}</div>}
+      {message && <div className="text-sm text-green-700 dark:text-green-400">{message}</div>}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+        <div>
+          <Heading level={2}>Exchange rates</Heading>
+          <Text>
+            Upload the ECB reference rates CSV (eurofxref-hist.csv), an HMRC monthly exchange rates CSV, or a file with
+            columns date, currency, rate ({baseCurrency} per unit).
+          </Text>
+        </div>
+
+        {unconverted > 0 && (
+          <Text className="text-sm text-amber-700 dark:text-amber-400">
+            {unconverted} transaction{unconverted === 1 ? ' is' : 's are'} waiting for an exchange rate and not yet in
+            the ledger.
+          </Text>
+        )}
+
+        <form onSubmit={handleImport} className="flex flex-wrap items-end gap-4">
+          <Field>
+            <Label>Rate file</Label>
+            <input
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              onChange={e => setRateFile(e.target.files?.[0] || null)}
+              className="block text-sm text-gray-700 dark:text-gray-300"
+            />
+          </Field>
+          <Button type="submit" disabled={saving || !rateFile}>
+            <ArrowUpTrayIcon className="h-5 w-5" />
+            Import rates
+          </Button>
+        </form>
+
+        {rates.length > 0 ? (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {rates.map(rate => (
+              <div key={rate.id} className="py-2 flex items-center justify-between text-sm">
+                <span className="font-medium text-gray-900 dark:text-white">{rate.currency}</span>
+                <span className="text-gray-700 dark:text-gray-300">
+                  1 {rate.currency} = {Number(rate.rate).toFixed(6)} {baseCurrency}
+                </span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  from {formatDate(rate.rate_date)} • {FX_RATE_SOURCE_LABELS[rate.source]}
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <Text className="text-sm">No exchange rates imported yet.</Text>
+        )}
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+        <div>
+          <Heading level={2}>Foreign bank accounts</Heading>
+          <Text>
+            Realised gains come from currency spent at a different rate than it was bought at (average cost).
+            Unrealised gains are the closing balance at the closing rate against its cost.
+          </Text>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <Field>
+            <Label>From</Label>
+            <Input type="date" value={startDate} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setStartDate(e.target.value)} />
+          </Field>
+          <Field>
+            <Label>To</Label>
+            <Input type="date" value={endDate} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEndDate(e.target.value)} />
+          </Field>
+          <Button plain onClick={loadGains} disabled={loadingGains || !startDate || !endDate}>
+            {loadingGains ? 'Calculating...' : 'Calculate'}
+          </Button>
+        </div>
+
+        {gains.length === 0 ? (
+          <Text className="text-sm">No bank accounts in a foreign currency.</Text>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400">
+                  <th className="py-2 pr-4 font-medium">Account</th>
+                  <th className="py-2 pr-4 font-medium text-right">Balance</th>
+                  <th className="py-2 pr-4 font-medium text-right">Value ({baseCurrency})</th>
+                  <th className="py-2 pr-4 font-medium text-right">In ledger</th>
+                  <th className="py-2 pr-4 font-medium text-right">Realised</th>
+                  <th className="py-2 font-medium text-right">Unrealised</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {gains.map(gain => (
+                  <tr key={gain.bank_account_id} className="text-gray-900 dark:text-white">
+                    <td className="py-2 pr-4">
+                      {gain.account_name}
+                      {gain.closing_rate === null && (
+                        <div className="text-xs text-red-600 dark:text-red-400">No {gain.currency} rate for {formatDate(endDate)}</div>
+                      )}
+                      {gain.unconverted_count > 0 && (
+                        <div className="text-xs text-amber-700 dark:text-amber-400">
+                          {gain.unconverted_count} transaction{gain.unconverted_count === 1 ? '' : 's'} without a rate
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 text-right">{formatMoney(gain.foreign_balance, gain.currency)}</td>
+                    <td className="py-2 pr-4 text-right">{formatMoney(gain.base_value, baseCurrency)}</td>
+                    <td className="py-2 pr-4 text-right">{formatMoney(gain.ledger_value, baseCurrency)}</td>
+                    <td className="py-2 pr-4 text-right">{formatMoney(gain.realised_gain, baseCurrency)}</td>
+                    <td className="py-2 text-right">{formatMoney(gain.unrealised_gain, baseCurrency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {canPost && needsRevaluation && (
+          <Button onClick={handlePostRevaluation} disabled={saving}>
+            <ScaleIcon className="h-5 w-5" />
+            Post revaluation as of {formatDate(endDate)}
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,205 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Heading, Text, Button, Field, Label, Input, Textarea } from '@/components/catalyst'
+import { formatInvoiceNumber } from '@/lib/sales-invoices/invoices'
+
+export default function InvoicingSettingsPage() {
+  const [companyId, setCompanyId] = useState<string | null>(null)
+  const [companyName, setCompanyName] = useState('')
+  const [prefix, setPrefix] = useState('INV-')
+  const [nextNumber, setNextNumber] = useState('1')
+  const [minimumNextNumber, setMinimumNextNumber] = useState(1)
+  const [padding, setPadding] = useState('4')
+  const [terms, setTerms] = useState('30')
+  const [paymentDetails, setPaymentDetails] = useState('')
+  const [footerText, setFooterText] = useState('')
+  const [address, setAddress] = useState({ street: '', city: '', postcode: '', country: '' })
+  const [contact, setContact] = useState({ email: '', phone: '', website: '' })
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadSettings()
+  }, [])
+
+  const loadSettings = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/sales-invoices/settings')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to load invoice settings')
+      setCompanyId(data.company_profile_id)
+      setCompanyName(data.company_name || '')
+      setPrefix(data.settings.number_prefix)
+      setNextNumber(String(data.settings.next_number))
+      setMinimumNextNumber(data.settings.next_number)
+      setPadding(String(data.settings.number_padding))
+      setTerms(String(data.settings.payment_terms_days))
+      setPaymentDetails(data.settings.payment_details || '')
+      setFooterText(data.settings.footer_text || '')
+      setAddress({
+        street: data.address?.street || '',
+        city: data.address?.city || '',
+        postcode: data.address?.postcode || '',
+        country: data.address?.country || '',
+      })
+      setContact({
+        email: data.contact_details?.email || '',
+        phone: data.contact_details?.phone || '',
+        website: data.contact_details?.website || '',
+      })
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load invoice settings')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!companyId) return
+    try {
+      setSaving(true)
+      setError(null)
+      setMessage(null)
+      const response = await fetch(`/api/sales-invoices/settings?company_profile_id=${companyId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          number_prefix: prefix,
+          next_number: Number(nextNumber),
+          number_padding: Number(padding),
+          payment_terms_days: Number(terms),
+          payment_details: paymentDetails,
+          footer_text: footerText,
+          address,
+          contact_details: contact,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to save invoice settings')
+      setMinimumNextNumber(data.settings.next_number)
+      setMessage(`Saved. The next invoice will be ${data.next_invoice_number}.`)
+    } catch (e: any) {
+      setError(e?.message || 'Failed to save invoice settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const preview = Number(nextNumber) >= 1 && Number(padding) >= 1
+    ? formatInvoiceNumber({ number_prefix: prefix, number_padding: Math.min(Number(padding), 10) }, Number(nextNumber))
+    : '—'
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSave} className="space-y-8 max-w-4xl">
+      <div>
+        <Heading>Invoicing</Heading>
+        <Text>
+          How {companyName || 'this company'}&apos;s sales invoices are numbered and what they say. Invoices use your
+          white-label colours and email sender settings.
+        </Text>
+      </div>
+
+      {error && <div className="text-sm text-red-600 dark:text-red-400">{error}</div>}
+      {message && <div className="text-sm text-green-700 dark:text-green-400">{message}</div>}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+        <div>
+          <Heading level={2}>Numbering</Heading>
+          <Text>
+            Numbers are given out in order when an invoice is issued, with no gaps. Void invoices keep their number.
+          </Text>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Field>
+            <Label>Prefix</Label>
+            <Input value={prefix} maxLength={20} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPrefix(e.target.value)} />
+          </Field>
+          <Field>
+            <Label>Next number</Label>
+            <Input type="number" min={minimumNextNumber} value={nextNumber} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNextNumber(e.target.value)} />
+          </Field>
+          <Field>
+            <Label>Digits</Label>
+            <Input type="number" min={1} max={10} value={padding} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPadding(e.target.value)} />
+          </Field>
+        </div>
+        <Text className="text-sm">Next invoice: <span className="font-medium">{preview}</span></Text>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+        <Heading level={2}>Payment</Heading>
+        <Field className="max-w-xs">
+          <Label>Payment terms (days)</Label>
+          <Input type="number" min={0} max={365} value={terms} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTerms(e.target.value)} />
+        </Field>
+        <Field>
+          <Label>How to pay</Label>
+          <Textarea
+            rows={4}
+            value={paymentDetails}
+            placeholder="Bank name, account name, sort code and account number"
+            onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setPaymentDetails(e.target.value)}
+          />
+        </Field>
+        <Field>
+          <Label>Invoice footer</Label>
+          <Textarea rows={2} value={footerText} onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setFooterText(e.target.value)} />
+        </Field>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+        <div>
+          <Heading level={2}>Your details</Heading>
+          <Text>Printed under your company name on every invoice.</Text>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Field className="md:col-span-2">
+            <Label>Street</Label>
+            <Input value={address.street} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAddress({ ...address, street: e.target.value })} />
+          </Field>
+          <Field>
+            <Label>Town or city</Label>
+            <Input value={address.city} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAddress({ ...address, city: e.target.value })} />
+          </Field>
+          <Field>
+            <Label>Postcode</Label>
+            <Input value={address.postcode} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAddress({ ...address, postcode: e.target.value })} />
+          </Field>
+          <Field>
+            <Label>Country</Label>
+            <Input value={address.country} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAddress({ ...address, country: e.target.value })} />
+          </Field>
+          <Field>
+            <Label>Email</Label>
+            <Input type="email" value={contact.email} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setContact({ ...contact, email: e.target.value })} />
+          </Field>
+          <Field>
+            <Label>Phone</Label>
+            <Input value={contact.phone} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setContact({ ...contact, phone: e.target.value })} />
+          </Field>
+          <Field>
+            <Label>Website</Label>
+            <Input value={contact.website} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setContact({ ...contact, website: e.target.value })} />
+          </Field>
+        </div>
+      </div>
+
+      <Button type="submit" disabled={saving || !companyId}>
+        {saving ? 'Saving...' : 'Save settings'}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,350 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Heading, Text, Button, Field, Label, Input } from '@/components/catalyst'
+import { LockClosedIcon, LockOpenIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline'
+import { createClient } from '@/lib/database/client'
+import type { PeriodClose } from '@/lib/books/period-close'
+
+interface Account {
+  account_code: string
+  account_name: string
+}
+
+interface AdjustmentLine {
+  accountCode: string
+  debit: string
+  credit: string
+}
+
+const emptyLine = (): AdjustmentLine => ({ accountCode: '', debit: '', credit: '' })
+
+export default function PeriodClosePage() {
+  const [companyId, setCompanyId] = useState<string | null>(null)
+  const [closedThrough, setClosedThrough] = useState<string | null>(null)
+  const [closes, setCloses] = useState<PeriodClose[]>([])
+  const [canClose, setCanClose] = useState(false)
+  const [canAdjust, setCanAdjust] = useState(false)
+  const [accounts, setAccounts] = useState<Account[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const [closeDate, setCloseDate] = useState('')
+  const [closeNotes, setCloseNotes] = useState('')
+  const [reopenReason, setReopenReason] = useState('')
+
+  const [entryDate, setEntryDate] = useState('')
+  const [adjustmentReason, setAdjustmentReason] = useState('')
+  const [lines, setLines] = useState<AdjustmentLine[]>([emptyLine(), emptyLine()])
+
+  useEffect(() => {
+    loadPeriods()
+  }, [])
+
+  const loadPeriods = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/periods/close')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to load periods')
+      setCompanyId(data.company_profile_id)
+      setClosedThrough(data.closed_through)
+      setCloses(data.closes || [])
+      setCanClose(data.can_close)
+      setCanAdjust(data.can_adjust)
+
+      const supabase = createClient()
+      const { data: chart } = await (supabase as any)
+        .from('chart_of_accounts')
+        .select('account_code, account_name')
+        .eq('company_profile_id', data.company_profile_id)
+        .eq('is_active', true)
+        .order('account_code')
+      setAccounts(chart || [])
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load periods')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const submit = async (url: string, body: Record<string, unknown>, success: string) => {
+    try {
+      setSaving(true)
+      setError(null)
+      setMessage(null)
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Request failed')
+      setMessage(success)
+      await loadPeriods()
+      return true
+    } catch (e: any) {
+      setError(e?.message || 'Request failed')
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleClose = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!confirm(`Close the books through ${formatDate(closeDate)}? Transactions on or before this date can no longer be changed.`)) return
+    const ok = await submit(
+      '/api/periods/close',
+      { company_profile_id: companyId, close_date: closeDate, notes: closeNotes || null },
+      `Books closed through ${formatDate(closeDate)}`
+    )
+    if (ok) {
+      setCloseDate('')
+      setCloseNotes('')
+    }
+  }
+
+  const handleReopen = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const ok = await submit(
+      '/api/periods/reopen',
+      { company_profile_id: companyId, reason: reopenReason },
+      'Period reopened'
+    )
+    if (ok) setReopenReason('')
+  }
+
+  const handleAdjustment = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const ok = await submit(
+      '/api/ledger/adjustments',
+      {
+        companyProfileId: companyId,
+        entryDate,
+        reason: adjustmentReason,
+        lines: lines.map(line => ({
+          accountCode: line.accountCode,
+          debit: Number(line.debit) || 0,
+          credit: Number(line.credit) || 0,
+        })),
+      },
+      'Adjustment posted'
+    )
+    if (ok) {
+      setEntryDate('')
+      setAdjustmentReason('')
+      setLines([emptyLine(), emptyLine()])
+    }
+  }
+
+  const updateLine = (index: number, changes: Partial<AdjustmentLine>) => {
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)))
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-GB', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    })
+  }
+
+  const totalDebit = lines.reduce((sum, line) => sum + (Number(line.debit) || 0), 0)
+  const totalCredit = lines.reduce((sum, line) => sum + (Number(line.credit) || 0), 0)
+  const balanced = totalDebit > 0 && Math.round(totalDebit * 100) === Math.round(totalCredit * 100)
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-8 max-w-4xl">
+      <div>
+        <Heading>Period Close</Heading>
+        <Text>
+          Close a period once it has been filed or exported. Transactions, documents and ledger entries dated on or
+          before the close date are locked; corrections are posted as adjustments with a reason.
+        </Text>
+      </div>
+
+      {error && <div className="text-sm text-red-600 dark:text-red-400">{error}</div>}
+      {message && <div className="text-sm text-green-700 dark:text-green-400">{message}</div>}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <LockClosedIcon className="h-5 w-5 text-gray-500 dark:text-gray-400" />
+          <Text className="font-medium">
+            {closedThrough ? `Books closed through ${formatDate(closedThrough)}` : 'No periods closed yet'}
+          </Text>
+        </div>
+
+        {canClose ? (
+          <>
+            <form onSubmit={handleClose} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <Field>
+                <Label>Close through</Label>
+                <Input
+                  type="date"
+                  required
+                  min={closedThrough || undefined}
+                  value={closeDate}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCloseDate(e.target.value)}
+                />
+              </Field>
+              <Field>
+                <Label>Notes (optional)</Label>
+                <Input
+                  value={closeNotes}
+                  placeholder="e.g. Q1 VAT return filed"
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCloseNotes(e.target.value)}
+                />
+              </Field>
+              <Button type="submit" disabled={saving || !closeDate}>
+                <LockClosedIcon className="h-5 w-5" />
+                Close period
+              </Button>
+            </form>
+
+            {closedThrough && (
+              <form onSubmit={handleReopen} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                <Field className="md:col-span-2">
+                  <Label>Reason for reopening</Label>
+                  <Input
+                    required
+                    value={reopenReason}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setReopenReason(e.target.value)}
+                  />
+                </Field>
+                <Button plain type="submit" disabled={saving || !reopenReason.trim()}>
+                  <LockOpenIcon className="h-5 w-5" />
+                  Reopen latest close
+                </Button>
+              </form>
+            )}
+          </>
+        ) : (
+          <Text className="text-sm">Only admins can close or reopen periods.</Text>
+        )}
+
+        {closes.length > 0 && (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {closes.map(close => (
+              <div key={close.id} className="py-2 text-sm">
+                <span className={close.reopened_at ? 'line-through text-gray-500 dark:text-gray-400' : 'text-gray-900 dark:text-white'}>
+                  Closed through {formatDate(close.close_date)}
+                </span>
+                <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                  on {formatDate(close.closed_at)}
+                  {close.notes ? ` • ${close.notes}` : ''}
+                </span>
+                {close.reopened_at && (
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    Reopened {formatDate(close.reopened_at)}: {close.reopen_reason}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {canAdjust && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+          <div>
+            <Heading level={2}>Post an adjustment</Heading>
+            <Text>Adjustments are the only way to change the ledger of a closed period.</Text>
+          </div>
+
+          <form onSubmit={handleAdjustment} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Field>
+                <Label>Entry date</Label>
+                <Input
+                  type="date"
+                  required
+                  value={entryDate}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEntryDate(e.target.value)}
+                />
+              </Field>
+              <Field className="md:col-span-2">
+                <Label>Reason</Label>
+                <Input
+                  required
+                  value={adjustmentReason}
+                  placeholder="e.g. Correct misposted supplier invoice"
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAdjustmentReason(e.target.value)}
+                />
+              </Field>
+            </div>
+
+            {lines.map((line, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                <select
+                  className="col-span-6 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-3 py-2 text-sm"
+                  value={line.accountCode}
+                  required
+                  onChange={e => updateLine(index, { accountCode: e.target.value })}
+                >
+                  <option value="">Select account</option>
+                  {accounts.map(account => (
+                    <option key={account.account_code} value={account.account_code}>
+                      {account.account_code} – {account.account_name}
+                    </option>
+                  ))}
+                </select>
+                <div className="col-span-2">
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="Debit"
+                    value={line.debit}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateLine(index, { debit: e.target.value, credit: '' })}
+                  />
+                </div>
+                <div className="col-span-2">
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="Credit"
+                    value={line.credit}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateLine(index, { credit: e.target.value, debit: '' })}
+                  />
+                </div>
+                <div className="col-span-2 text-right">
+                  {lines.length > 2 && (
+                    <Button plain onClick={() => setLines(prev => prev.filter((_, i) => i !== index))}>
+                      <TrashIcon className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+
+            <div className="flex items-center justify-between">
+              <Button plain onClick={() => setLines(prev => [...prev, emptyLine()])}>
+                <PlusIcon className="h-4 w-4" />
+                Add line
+              </Button>
+              <Text className={`text-sm ${balanced ? '' : 'text-red-600 dark:text-red-400'}`}>
+                Debits {totalDebit.toFixed(2)} / Credits {totalCredit.toFixed(2)}
+              </Text>
+            </div>
+
+            <Button type="submit" disabled={saving || !balanced || !adjustmentReason.trim()}>
+              Post adjustment
+            </Button>
+          </form>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -32,6 +32,7 @@ export default function SetupWizardPage() {
     vatNumber: '',
     vatScheme: 'standard' as 'standard' | 'flat_rate' | 'cash_accounting',
     flatRatePercentage: '',
+    vatQuarterEndMonth: '3',
     financialYearEnd: '',
     accountingBasis: 'cash' as 'cash' | 'accrual',
     
@@ -142,6 +143,7 @@ export default function SetupWizardPage() {
               vatNumber: company.vat_number || '',
               vatScheme: company.vat_scheme || 'standard',
               flatRatePercentage: company.flat_rate_percentage?.toString() || '',
+              vatQuarterEndMonth: company.vat_quarter_end_month?.toString() || '3',
               financialYearEnd: company.financial_year_end || '',
               accountingBasis: company.accounting_basis || 'cash',
               bankAccounts: company.bank_accounts || [],
@@ -534,6 +536,7 @@ type FormData = {
   vatNumber: string
   vatScheme: 'standard' | 'flat_rate' | 'cash_accounting'
   flatRatePercentage: string
+  vatQuarterEndMonth: string
   financialYearEnd: string
   accountingBasis: 'cash' | 'accrual'
   bankAccounts: Array<{
@@ -37,6 +37,11 @@ interface Upload {
   total_items?: number
   processed_items?: number
   failed_items?: number
+  // Chunked spreadsheet imports
+  rows_total?: number | null
+  rows_parsed?: number
+  rows_categorized?: number
+  rows_inserted?: number
   error_code?: string
   error_message?: string
   storage_info?: StorageInfo
@@ -787,7 +792,24 @@ export default function UploadsPage() {
                                     {statusDisplay.message}
                                   </span>
                                 )}
-                                {upload.status === 'processing' && upload.total_items && upload.processed_items !== undefined && (
+                                {upload.status === 'processing' && !!upload.rows_parsed && (
+                                  <div className="mt-1">
+                                    {upload.rows_total ? (
+                                      <div className="w-32 bg-gray-200 dark:bg-gray-700 rounded-full h-1.5">
+                                        <div
+                                          className="bg-blue-500 h-1.5 rounded-full transition-all duration-300"
+                                          style={{ 
+                                            width: `${Math.min(((upload.rows_categorized || 0) / upload.rows_total) * 100, 100)}%` 
+                                          }}
+                                        />
+                                      </div>
+                                    ) : null}
+                                    <span className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                                      {upload.rows_parsed.toLocaleString()} parsed · {(upload.rows_categorized || 0).toLocaleString()} categorized · {(upload.rows_inserted || 0).toLocaleString()} inserted
+                                    </span>
+                                  </div>
+                                )}
+                                {upload.status === 'processing' && !upload.rows_parsed && upload.total_items && upload.processed_items !== undefined && (
                                   <div className="mt-1">
                                     <div className="w-32 bg-gray-200 dark:bg-gray-700 rounded-full h-1.5">
                                       <div
@@ -0,0 +1,202 @@
+'use client'
+
+import { useState } from 'react'
+import { Button, Field, Label, Input, Select, Textarea } from '@/components/catalyst'
+import {
+  ASSET_ACCOUNT_CODES,
+  ASSET_CLASS_DEFAULTS,
+  ASSET_CLASS_LABELS,
+  type AssetClass,
+  type FixedAsset,
+} from '@/lib/assets/fixed-assets'
+import { DEPRECIATION_METHOD_LABELS, type DepreciationMethod } from '@/lib/assets/depreciation'
+import { ALLOWANCE_POOL_LABELS, type AllowancePool } from '@/lib/assets/capital-allowances'
+
+interface FixedAssetFormProps {
+  /** The asset being edited; omitted for a new asset */
+  asset?: FixedAsset | null
+  /** Prefilled from the purchase being capitalised */
+  initial?: { name?: string; acquisition_date?: string; cost?: number }
+  /** Cost and acquisition date are fixed once depreciation has been posted */
+  financialsLocked?: boolean
+  saving: boolean
+  submitLabel: string
+  /** Called with the request body */
+  onSave: (body: Record<string, any>) => void
+}
+
+export function FixedAssetForm({ asset, initial, financialsLocked, saving, submitLabel, onSave }: FixedAssetFormProps) {
+  const startingClass: AssetClass = asset?.asset_class || 'equipment'
+  const defaults = ASSET_CLASS_DEFAULTS[startingClass]
+  const [name, setName] = useState(asset?.name || initial?.name || '')
+  const [description, setDescription] = useState(asset?.description || '')
+  const [assetClass, setAssetClass] = useState<AssetClass>(startingClass)
+  const [accountCode, setAccountCode] = useState(asset?.asset_account_code || defaults.asset_account_code)
+  const [acquisitionDate, setAcquisitionDate] = useState(asset?.acquisition_date || initial?.acquisition_date || '')
+  const [cost, setCost] = useState(asset ? String(asset.cost) : initial?.cost ? String(initial.cost) : '')
+  const [residualValue, setResidualValue] = useState(asset ? String(asset.residual_value) : '0')
+  const [method, setMethod] = useState<DepreciationMethod>(asset?.depreciation_method || defaults.depreciation_method)
+  const [usefulLife, setUsefulLife] = useState(String(asset?.useful_life_months ?? defaults.useful_life_months ?? 60))
+  const [rate, setRate] = useState(String(asset?.reducing_balance_rate ?? defaults.reducing_balance_rate ?? 25))
+  const [pool, setPool] = useState<AllowancePool>(asset?.allowance_pool || defaults.allowance_pool)
+  const [claimAia, setClaimAia] = useState(asset ? asset.claim_aia : defaults.claim_aia)
+  const [notes, setNotes] = useState(asset?.notes || '')
+
+  // A new class brings its usual terms with it
+  const handleClassChange = (value: AssetClass) => {
+    const classDefaults = ASSET_CLASS_DEFAULTS[value]
+    setAssetClass(value)
+    setAccountCode(classDefaults.asset_account_code)
+    setMethod(classDefaults.depreciation_method)
+    if (classDefaults.useful_life_months) setUsefulLife(String(classDefaults.useful_life_months))
+    if (classDefaults.reducing_balance_rate) setRate(String(classDefaults.reducing_balance_rate))
+    setPool(classDefaults.allowance_pool)
+    setClaimAia(classDefaults.claim_aia)
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onSave({
+      name,
+      description,
+      asset_class: assetClass,
+      asset_account_code: accountCode,
+      acquisition_date: acquisitionDate,
+      cost,
+      residual_value: residualValue || 0,
+      depreciation_method: method,
+      useful_life_months: method === 'straight_line' ? usefulLife : null,
+      reducing_balance_rate: method === 'reducing_balance' ? rate : null,
+      allowance_pool: pool,
+      claim_aia: pool !== 'none' && assetClass !== 'car' && claimAia,
+      notes,
+    })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Field>
+          <Label>Name</Label>
+          <Input value={name} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)} required />
+        </Field>
+        <Field>
+          <Label>Class</Label>
+          <Select value={assetClass} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => handleClassChange(e.target.value as AssetClass)}>
+            {(Object.keys(ASSET_CLASS_LABELS) as AssetClass[]).map(value => (
+              <option key={value} value={value}>{ASSET_CLASS_LABELS[value]}</option>
+            ))}
+          </Select>
+        </Field>
+        <Field className="md:col-span-2">
+          <Label>Description</Label>
+          <Input value={description} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDescription(e.target.value)} />
+        </Field>
+        <Field>
+          <Label>Acquired on</Label>
+          <Input
+            type="date"
+            value={acquisitionDate}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAcquisitionDate(e.target.value)}
+            disabled={financialsLocked}
+            required
+          />
+        </Field>
+        <Field>
+          <Label>Balance sheet account</Label>
+          <Select value={accountCode} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setAccountCode(e.target.value)}>
+            {ASSET_ACCOUNT_CODES.map(code => (
+              <option key={code} value={code}>{code === '1700' ? '1700 Intangible Assets' : `${code} Fixed Assets`}</option>
+            ))}
+          </Select>
+        </Field>
+        <Field>
+          <Label>Cost (excluding reclaimable VAT)</Label>
+          <Input
+            type="number"
+            step="0.01"
+            min="0.01"
+            value={cost}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCost(e.target.value)}
+            disabled={financialsLocked}
+            required
+          />
+        </Field>
+        <Field>
+          <Label>Residual value</Label>
+          <Input
+            type="number"
+            step="0.01"
+            min="0"
+            value={residualValue}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setResidualValue(e.target.value)}
+          />
+        </Field>
+        <Field>
+          <Label>Depreciation</Label>
+          <Select value={method} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setMethod(e.target.value as DepreciationMethod)}>
+            {(Object.keys(DEPRECIATION_METHOD_LABELS) as DepreciationMethod[]).map(value => (
+              <option key={value} value={value}>{DEPRECIATION_METHOD_LABELS[value]}</option>
+            ))}
+          </Select>
+        </Field>
+        {method === 'straight_line' && (
+          <Field>
+            <Label>Useful life (months)</Label>
+            <Input
+              type="number"
+              min="1"
+              max="1200"
+              value={usefulLife}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setUsefulLife(e.target.value)}
+              required
+            />
+          </Field>
+        )}
+        {method === 'reducing_balance' && (
+          <Field>
+            <Label>Annual rate (%)</Label>
+            <Input
+              type="number"
+              step="0.01"
+              min="0.01"
+              max="100"
+              value={rate}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setRate(e.target.value)}
+              required
+            />
+          </Field>
+        )}
+        <Field>
+          <Label>Capital allowances</Label>
+          <Select value={pool} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setPool(e.target.value as AllowancePool)}>
+            {(Object.keys(ALLOWANCE_POOL_LABELS) as AllowancePool[]).map(value => (
+              <option key={value} value={value}>{ALLOWANCE_POOL_LABELS[value]}</option>
+            ))}
+          </Select>
+        </Field>
+        {pool !== 'none' && assetClass !== 'car' && (
+          <label className="flex items-center gap-2 text-sm text-gray-900 dark:text-white md:self-end md:pb-2">
+            <input
+              type="checkbox"
+              checked={claimAia}
+              onChange={(e) => setClaimAia(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700"
+            />
+            Claim the annual investment allowance
+          </label>
+        )}
+        <Field className="md:col-span-2">
+          <Label>Notes</Label>
+          <Textarea rows={3} value={notes} onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setNotes(e.target.value)} />
+        </Field>
+      </div>
+
+      <div className="flex justify-end">
+        <Button type="submit" disabled={saving}>
+          {saving ? 'Saving...' : submitLabel}
+        </Button>
+      </div>
+    </form>
+  )
+}
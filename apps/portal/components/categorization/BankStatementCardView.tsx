@@ -1,7 +1,7 @@
 "use client";
 
 import React from "react";
-import { CheckCircleIcon, PencilIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import { CheckCircleIcon, PencilIcon, XMarkIcon, ClockIcon, ScissorsIcon } from "@heroicons/react/24/outline";
 
 interface Transaction {
   id: string;
@@ -33,6 +33,8 @@ interface BankStatementCardViewProps {
   onConfirm: (transactionId: string) => Promise<void>;
   onEditCategory?: (transactionId: string, category: string) => Promise<void>;
   onEditingChange?: (isEditing: boolean) => void;
+  onViewHistory?: (transactionId: string) => void;
+  onSplit?: (transactionId: string) => void;
   formatDescription?: (tx: Transaction) => string;
 }
 
@@ -69,6 +71,8 @@ export default function BankStatementCardView({
   onConfirm,
   onEditCategory,
   onEditingChange,
+  onViewHistory,
+  onSplit,
   formatDescription,
 }: BankStatementCardViewProps) {
   const [editingId, setEditingId] = React.useState<string | null>(null);
@@ -234,6 +238,24 @@ export default function BankStatementCardView({
                     )}
                   </>
                 )}
+                {onViewHistory && (
+                  <button
+                    onClick={() => onViewHistory(tx.id)}
+                    className="p-1.5 text-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+                    title="History"
+                  >
+                    <ClockIcon className="h-4 w-4" />
+                  </button>
+                )}
+                {onSplit && (
+                  <button
+                    onClick={() => onSplit(tx.id)}
+                    className="p-1.5 text-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+                    title="Split into categories"
+                  >
+                    <ScissorsIcon className="h-4 w-4" />
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -1,7 +1,7 @@
 "use client";
 
 import React from "react";
-import { CheckCircleIcon, PencilIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import { CheckCircleIcon, PencilIcon, XMarkIcon, ClockIcon, ScissorsIcon } from "@heroicons/react/24/outline";
 
 interface Transaction {
   id: string;
@@ -33,6 +33,8 @@ interface BankStatementSplitViewProps {
   onConfirm: (transactionId: string) => Promise<void>;
   onEditCategory?: (transactionId: string, category: string) => Promise<void>;
   onEditingChange?: (isEditing: boolean) => void;
+  onViewHistory?: (transactionId: string) => void;
+  onSplit?: (transactionId: string) => void;
   formatDescription?: (tx: Transaction) => string;
 }
 
@@ -69,6 +71,8 @@ export default function BankStatementSplitView({
   onConfirm,
   onEditCategory,
   onEditingChange,
+  onViewHistory,
+  onSplit,
   formatDescription,
 }: BankStatementSplitViewProps) {
   const [selectedId, setSelectedId] = React.useState<string | null>(
@@ -285,6 +289,24 @@ export default function BankStatementSplitView({
                   )}
                 </>
               )}
+              {onViewHistory && (
+                <button
+                  onClick={() => onViewHistory(selectedTx.id)}
+                  className="flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 text-sm"
+                >
+                  <ClockIcon className="h-4 w-4" />
+                  History
+                </button>
+              )}
+              {onSplit && (
+                <button
+                  onClick={() => onSplit(selectedTx.id)}
+                  className="flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 text-sm"
+                >
+                  <ScissorsIcon className="h-4 w-4" />
+                  History
+                </button>
+              )}
             </div>
           </>
         ) : (
@@ -6,6 +6,8 @@ import {
   PencilIcon,
   XMarkIcon,
   CheckIcon,
+  ClockIcon,
+  ScissorsIcon,
 } from "@heroicons/react/24/outline";
 
 interface Transaction {
@@ -41,6 +43,8 @@ interface BankStatementTableViewProps {
   onEditCategory?: (transactionId: string, category: string) => Promise<void>;
   onEditNotes?: (transactionId: string, notes: string) => Promise<void>;
   onEditingChange?: (isEditing: boolean) => void;
+  onViewHistory?: (transactionId: string) => void;
+  onSplit?: (transactionId: string) => void;
   formatDescription?: (tx: Transaction) => string;
 }
 
@@ -78,6 +82,8 @@ export default function BankStatementTableView({
   onEditCategory,
   onEditNotes,
   onEditingChange,
+  onViewHistory,
+  onSplit,
   formatDescription,
 }: BankStatementTableViewProps) {
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -387,6 +393,24 @@ export default function BankStatementTableView({
                           )}
                         </>
                       )}
+                      {onViewHistory && (
+                        <button
+                          onClick={() => onViewHistory(tx.id)}
+                          className="p-1.5 text-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+                          title="History"
+                        >
+                          <ClockIcon className="h-4 w-4" />
+                        </button>
+                      )}
+                      {onSplit && (
+                        <button
+                          onClick={() => onSplit(tx.id)}
+                          className="p-1.5 text-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+                          title="Split into categories"
+                        >
+                          <ScissorsIcon className="h-4 w-4" />
+                        </button>
+                      )}
                     </div>
                   </td>
                 </tr>
@@ -0,0 +1,335 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { ExclamationTriangleIcon, TableCellsIcon } from "@heroicons/react/24/outline";
+import {
+  IMPORT_DATE_FORMATS,
+  IMPORT_FIELDS,
+  type ImportField,
+  type ImportProfile,
+  type SignConvention,
+} from "@/lib/categorization/import-profiles";
+
+interface PreviewTransaction {
+  date: string;
+  description: string;
+  amount: number;
+  is_debit?: boolean;
+  running_balance?: number;
+}
+
+interface PreviewResponse {
+  saved: boolean;
+  profile: ImportProfile;
+  validation_error: string | null;
+  headers: string[];
+  raw_rows: any[][];
+  total_rows: number;
+  total_transactions: number;
+  transactions: PreviewTransaction[];
+}
+
+interface ImportProfilePreviewProps {
+  file: File;
+  bankAccountId: string;
+  /** Called after the profile has been saved to the bank account */
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const SIGN_CONVENTION_LABELS: Record<SignConvention, string> = {
+  negative_is_debit: "One amount column, negative = money out",
+  positive_is_debit: "One amount column, positive = money out",
+  split_columns: "Separate money in / money out columns",
+};
+
+const inputClassName =
+  "w-full px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+export default function ImportProfilePreview({ file, bankAccountId, onConfirm, onCancel }: ImportProfilePreviewProps) {
+  const [preview, setPreview] = useState<PreviewResponse | null>(null);
+  const [profile, setProfile] = useState<ImportProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPreview = useCallback(async (candidate?: ImportProfile) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("bank_account_id", bankAccountId);
+      if (candidate) {
+        formData.append("profile", JSON.stringify(candidate));
+      }
+
+      const response = await fetch("/api/categorization/upload/preview", {
+        method: "POST",
+        body: formData,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to preview file");
+      }
+
+      setPreview(data);
+      if (!candidate) {
+        setProfile(data.profile);
+      }
+    } catch (err: any) {
+      setError(err.message || "Failed to preview file");
+    } finally {
+      setLoading(false);
+    }
+  }, [file, bankAccountId]);
+
+  useEffect(() => {
+    loadPreview();
+  }, [loadPreview]);
+
+  const updateProfile = (changes: Partial<ImportProfile>) => {
+    if (!profile) return;
+    const next = { ...profile, ...changes };
+    setProfile(next);
+    loadPreview(next);
+  };
+
+  const updateMapping = (field: ImportField, header: string) => {
+    if (!profile) return;
+    const column_mapping = { ...profile.column_mapping };
+    if (header) {
+      column_mapping[field] = header;
+    } else {
+      delete column_mapping[field];
+    }
+    updateProfile({ column_mapping });
+  };
+
+  const handleConfirm = async () => {
+    if (!profile) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/bank-accounts/${bankAccountId}/import-profile`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(profile),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save import settings");
+      }
+      onConfirm();
+    } catch (err: any) {
+      setError(err.message || "Failed to save import settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const visibleFields = IMPORT_FIELDS.filter(({ field }) => {
+    if (profile?.sign_convention === "split_columns") return field !== "amount";
+    return field !== "debit" && field !== "credit";
+  });
+
+  return (
+    <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl p-6 space-y-6">
+      <div className="flex items-start gap-3">
+        <TableCellsIcon className="h-6 w-6 text-blue-500 flex-shrink-0" />
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Check column mapping</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Tell us how to read {file.name}. These settings are saved to this bank account and used
+            automatically for future uploads.
+          </p>
+        </div>
+      </div>
+
+      {profile && preview && (
+        <>
+          {/* Raw rows so the header offset can be checked */}
+          <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+            <table className="min-w-full text-xs">
+              <tbody>
+                {preview.raw_rows.map((row, index) => (
+                  <tr
+                    key={index}
+                    className={
+                      index === profile.header_row_offset
+                        ? "bg-blue-50 dark:bg-blue-900/30 font-semibold"
+                        : index < profile.header_row_offset
+                          ? "text-gray-400 dark:text-gray-500"
+                          : ""
+                    }
+                  >
+                    <td className="px-2 py-1 text-gray-400 dark:text-gray-500">{index + 1}</td>
+                    {row.map((cell, cellIndex) => (
+                      <td key={cellIndex} className="px-2 py-1 whitespace-nowrap text-gray-700 dark:text-gray-300">
+                        {String(cell ?? "")}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <label className="block text-sm text-gray-700 dark:text-gray-300">
+              Header row
+              <input
+                type="number"
+                min={1}
+                value={profile.header_row_offset + 1}
+                onChange={(e) => updateProfile({ header_row_offset: Math.max(0, Number(e.target.value) - 1) })}
+                className={inputClassName}
+              />
+            </label>
+            <label className="block text-sm text-gray-700 dark:text-gray-300">
+              Rows to skip after header
+              <input
+                type="number"
+                min={0}
+                value={profile.skip_rows_after_header}
+                onChange={(e) => updateProfile({ skip_rows_after_header: Math.max(0, Number(e.target.value)) })}
+                className={inputClassName}
+              />
+            </label>
+            <label className="block text-sm text-gray-700 dark:text-gray-300">
+              Rows to skip at end
+              <input
+                type="number"
+                min={0}
+                value={profile.skip_footer_rows}
+                onChange={(e) => updateProfile({ skip_footer_rows: Math.max(0, Number(e.target.value)) })}
+                className={inputClassName}
+              />
+            </label>
+            <label className="block text-sm text-gray-700 dark:text-gray-300">
+              Date format
+              <select
+                value={profile.date_format}
+                onChange={(e) => updateProfile({ date_format: e.target.value as ImportProfile["date_format"] })}
+                className={inputClassName}
+              >
+                {IMPORT_DATE_FORMATS.map((format) => (
+                  <option key={format} value={format}>
+                    {format === "auto" ? "Detect automatically" : format}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-sm text-gray-700 dark:text-gray-300">
+              Decimal separator
+              <select
+                value={profile.decimal_separator}
+                onChange={(e) => updateProfile({ decimal_separator: e.target.value as ImportProfile["decimal_separator"] })}
+                className={inputClassName}
+              >
+                <option value=".">Point (1,234.56)</option>
+                <option value=",">Comma (1.234,56)</option>
+              </select>
+            </label>
+            <label className="block text-sm text-gray-700 dark:text-gray-300">
+              Amounts
+              <select
+                value={profile.sign_convention}
+                onChange={(e) => updateProfile({ sign_convention: e.target.value as SignConvention })}
+                className={inputClassName}
+              >
+                {Object.entries(SIGN_CONVENTION_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {visibleFields.map(({ field, label }) => (
+              <label key={field} className="block text-sm text-gray-700 dark:text-gray-300">
+                {label}
+                <select
+                  value={profile.column_mapping[field] || ""}
+                  onChange={(e) => updateMapping(field, e.target.value)}
+                  className={inputClassName}
+                >
+                  <option value="">-- Not in file --</option>
+                  {preview.headers.map((header) => (
+                    <option key={header} value={header}>{header}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          {preview.validation_error ? (
+            <div className="flex items-start gap-2 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg p-3">
+              <ExclamationTriangleIcon className="h-5 w-5 text-amber-500 flex-shrink-0" />
+              <p className="text-sm text-amber-800 dark:text-amber-200">{preview.validation_error}</p>
+            </div>
+          ) : (
+            <div>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+                {preview.total_transactions} transaction{preview.total_transactions === 1 ? "" : "s"} found
+                {preview.transactions.length < preview.total_transactions && ` (showing first ${preview.transactions.length})`}
+              </p>
+              <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-900">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium text-gray-600 dark:text-gray-400">Date</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-600 dark:text-gray-400">Description</th>
+                      <th className="px-3 py-2 text-right font-medium text-gray-600 dark:text-gray-400">Money out</th>
+                      <th className="px-3 py-2 text-right font-medium text-gray-600 dark:text-gray-400">Money in</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.transactions.map((tx, index) => (
+                      <tr key={index} className="border-t border-gray-100 dark:border-gray-700">
+                        <td className="px-3 py-1.5 whitespace-nowrap text-gray-900 dark:text-white">{tx.date}</td>
+                        <td className="px-3 py-1.5 text-gray-900 dark:text-white">{tx.description}</td>
+                        <td className="px-3 py-1.5 text-right text-gray-900 dark:text-white">
+                          {tx.is_debit ? tx.amount.toFixed(2) : ""}
+                        </td>
+                        <td className="px-3 py-1.5 text-right text-gray-900 dark:text-white">
+                          {tx.is_debit ? "" : tx.amount.toFixed(2)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {loading && !preview && (
+        <div className="animate-pulse bg-gray-200 dark:bg-gray-700 h-32 rounded-lg"></div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleConfirm}
+          disabled={loading || saving || !profile || !!preview?.validation_error || !preview?.total_transactions}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? "Saving..." : "Save mapping and upload"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ import {
   CloudArrowUpIcon,
   LinkIcon,
 } from "@heroicons/react/24/outline";
+import JobProgressPanel from "@/components/categorization/JobProgressPanel";
 
 interface UploadState {
   files: File[];
@@ -191,17 +192,12 @@ export default function InvoiceUpload() {
       
       setUploadState(prev => ({
         ...prev,
+        files: [],
         uploading: false,
         progress: 100,
         jobId: data.jobId,
       }));
-
-      // Redirect to uploads page to see processing status
-      if (data.jobId) {
-        setTimeout(() => {
-          window.location.href = `/dashboard/uploads`;
-        }, 1500);
-      }
+      // Processing progress is followed live by the JobProgressPanel below
     } catch (error: any) {
       // Try to extract error message from response
       let errorMessage = error.message || "An error occurred during upload";
@@ -400,8 +396,13 @@ export default function InvoiceUpload() {
         </div>
       )}
 
+      {/* Live processing progress */}
+      {uploadState.jobId && !uploadState.uploading && (
+        <JobProgressPanel jobId={uploadState.jobId} itemLabel="invoices" />
+      )}
+
       {/* Instructions */}
-      {uploadState.files.length === 0 && !uploadState.uploading && (
+      {uploadState.files.length === 0 && !uploadState.uploading && !uploadState.jobId && (
         <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
           <h3 className="text-sm font-medium text-blue-900 dark:text-blue-200 mb-2">
             What happens next?
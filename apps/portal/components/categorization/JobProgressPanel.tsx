@@ -0,0 +1,131 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { ArrowPathIcon, CheckCircleIcon, XCircleIcon } from "@heroicons/react/24/outline";
+import { getJobStageLabel, getJobStages } from "@/lib/jobs/progress";
+import { useJobProgress, type JobProgressState } from "@/lib/jobs/use-job-progress";
+
+interface JobProgressPanelProps {
+  jobId: string;
+  /** What the job's items are called in counts, e.g. "invoices" */
+  itemLabel?: string;
+  /** Progress the parent already follows, so the panel doesn't open a second stream */
+  state?: JobProgressState;
+}
+
+export default function JobProgressPanel({ jobId, itemLabel = "transactions", state }: JobProgressPanelProps) {
+  const ownState = useJobProgress(state ? null : jobId);
+  const { progress, finished } = state || ownState;
+
+  const stages = getJobStages(progress?.jobType ?? null);
+  const failed = progress?.status === "failed";
+  const ready = finished && !failed;
+  const currentIndex = progress ? stages.indexOf(progress.stage) : -1;
+  const counts = progress?.counts;
+
+  const percent = counts?.rowsTotal
+    ? (counts.rowsCategorized / counts.rowsTotal) * 100
+    : counts?.total
+      ? (counts.processed / counts.total) * 100
+      : null;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-4">
+      <div className="flex items-start gap-3">
+        {failed ? (
+          <XCircleIcon className="h-5 w-5 text-red-500 flex-shrink-0 mt-0.5" />
+        ) : ready ? (
+          <CheckCircleIcon className="h-5 w-5 text-green-500 flex-shrink-0 mt-0.5" />
+        ) : (
+          <ArrowPathIcon className="h-5 w-5 text-blue-500 flex-shrink-0 mt-0.5 animate-spin" />
+        )}
+        <div className="flex-1">
+          <p className="text-sm font-medium text-gray-900 dark:text-white">
+            {failed ? "Processing failed" : ready ? "Ready for review" : progress?.stageLabel || "Connecting..."}
+          </p>
+          {progress?.statusMessage && !failed && (
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-0.5">
+              {progress.statusMessage}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* Stages */}
+      <ol className="flex flex-wrap items-center gap-2">
+        {stages.map((stage, index) => {
+          const done = ready || index < currentIndex;
+          const active = !ready && index === currentIndex;
+          return (
+            <li
+              key={stage}
+              className={`px-2 py-1 rounded-full text-xs font-medium ${
+                active
+                  ? failed
+                    ? "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300"
+                    : "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300"
+                  : done
+                    ? "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300"
+                    : "bg-gray-100 text-gray-500 dark:bg-gray-700 dark:text-gray-400"
+              }`}
+            >
+              {getJobStageLabel(stage)}
+            </li>
+          );
+        })}
+      </ol>
+
+      {/* Counts */}
+      {counts && percent !== null && !failed && (
+        <div>
+          <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+            <div
+              className="bg-blue-500 h-2 rounded-full transition-all duration-300"
+              style={{ width: `${Math.min(percent, 100)}%` }}
+            />
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            {counts.rowsTotal
+              ? `${counts.rowsParsed.toLocaleString()} parsed · ${counts.rowsCategorized.toLocaleString()} categorized · ${counts.rowsInserted.toLocaleString()} inserted of ${counts.rowsTotal.toLocaleString()} ${itemLabel}`
+              : `${counts.processed} of ${counts.total} ${itemLabel}${counts.failed > 0 ? ` (${counts.failed} failed)` : ""}`}
+          </p>
+        </div>
+      )}
+
+      {/* Error */}
+      {failed && progress?.error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3">
+          <p className="text-sm text-red-700 dark:text-red-300">
+            {progress.error.userMessage}
+          </p>
+          {progress.error.suggestedAction && (
+            <p className="text-xs text-red-600 dark:text-red-400 mt-1">
+              {progress.error.suggestedAction}
+            </p>
+          )}
+          <p className="text-xs font-mono text-red-500 dark:text-red-400 mt-1">
+            Code: {progress.error.code}
+          </p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-3">
+        {ready && (
+          <Link
+            href={`/dashboard/review/${jobId}`}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+          >
+            Review {itemLabel}
+          </Link>
+        )}
+        <Link
+          href="/dashboard/uploads"
+          className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+        >
+          {failed && progress?.error?.retryable ? "Retry from uploads" : "View all uploads"}
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,9 @@ import React, { useState, useCallback, useRef, useEffect } from "react";
 import { useDropzone } from "react-dropzone";
 import Link from "next/link";
 import { ArrowUpTrayIcon, DocumentIcon, CheckCircleIcon, XCircleIcon, ExclamationTriangleIcon, DocumentDuplicateIcon } from "@heroicons/react/24/outline";
+import ImportProfilePreview from "./ImportProfilePreview";
+import JobProgressPanel from "./JobProgressPanel";
+import { describeStatementSizeLimit, getStatementMaxFileSize } from "@/lib/categorization/statement-uploads";
 
 interface DuplicateInfo {
   existingJobId?: string;
@@ -14,12 +17,6 @@ interface DuplicateInfo {
   uploadDate?: string;
 }
 
-interface DuplicatePreview {
-  similarityScore: number;
-  matchingCount: number;
-  totalTransactions: number;
-}
-
 interface UploadState {
   file: File | null;
   uploading: boolean;
@@ -28,7 +25,6 @@ interface UploadState {
   jobId: string | null;
   isDuplicate: boolean;
   duplicateInfo: DuplicateInfo | null;
-  duplicatePreview: DuplicatePreview | null;
   warnings: string[];
 }
 
@@ -50,10 +46,13 @@ export default function SpreadsheetUpload() {
     jobId: null,
     isDuplicate: false,
     duplicateInfo: null,
-    duplicatePreview: null,
     warnings: [],
   });
   const [pendingFile, setPendingFile] = useState<File | null>(null);
+  // Spreadsheet waiting on the column mapping step
+  const [mappingFile, setMappingFile] = useState<File | null>(null);
+  const [hasImportProfile, setHasImportProfile] = useState(false);
+  const [reviewMapping, setReviewMapping] = useState(false);
   const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
   const [selectedBankAccountId, setSelectedBankAccountId] = useState<string>("");
   
@@ -84,6 +83,8 @@ export default function SpreadsheetUpload() {
   const bankAccountsRef = useRef(bankAccounts);
   const profileReadyRef = useRef(profileReady);
   const profileLoadingRef = useRef(profileLoading);
+  const hasImportProfileRef = useRef(hasImportProfile);
+  const reviewMappingRef = useRef(reviewMapping);
   
   // Keep refs in sync with state
   useEffect(() => {
@@ -102,6 +103,35 @@ export default function SpreadsheetUpload() {
     profileLoadingRef.current = profileLoading;
   }, [profileLoading]);
 
+  useEffect(() => {
+    hasImportProfileRef.current = hasImportProfile;
+  }, [hasImportProfile]);
+
+  useEffect(() => {
+    reviewMappingRef.current = reviewMapping;
+  }, [reviewMapping]);
+
+  // Check whether the selected account already has saved spreadsheet import settings
+  useEffect(() => {
+    setHasImportProfile(false);
+    setReviewMapping(false);
+    if (!selectedBankAccountId) return;
+
+    let cancelled = false;
+    fetch(`/api/bank-accounts/${selectedBankAccountId}/import-profile`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!cancelled) setHasImportProfile(!!data?.profile);
+      })
+      .catch(() => {
+        if (!cancelled) setHasImportProfile(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedBankAccountId]);
+
   // Fetch bank accounts on mount
   React.useEffect(() => {
     fetchBankAccounts();
@@ -196,20 +226,19 @@ export default function SpreadsheetUpload() {
       'text/csv', // .csv
     ];
     
-    if (!validTypes.includes(file.type) && !file.name.match(/\.(xlsx|xls|csv)$/i)) {
+    if (!validTypes.includes(file.type) && !file.name.match(/\.(xlsx|xls|csv|ofx|qfx|qif|xml|sta|mt940|940|txt)$/i)) {
       setUploadState(prev => ({
         ...prev,
-        error: 'Please upload a valid spreadsheet file (.xlsx, .xls, or .csv)',
+        error: 'Please upload a valid spreadsheet (.xlsx, .xls, .csv) or bank statement file (.ofx, .qfx, .qif, CAMT.053 .xml, MT940)',
       }));
       return;
     }
 
-    // Validate file size (max 10MB)
-    const maxSize = 10 * 1024 * 1024; // 10MB
-    if (file.size > maxSize) {
+    // Validate file size (CSVs are streamed, so they may be larger than workbooks)
+    if (file.size > getStatementMaxFileSize(file.name)) {
       setUploadState(prev => ({
         ...prev,
-        error: 'File size must be less than 10MB',
+        error: `File is too large. ${describeStatementSizeLimit(file.name)}.`,
       }));
       return;
     }
@@ -220,10 +249,32 @@ export default function SpreadsheetUpload() {
       error: null,
     }));
 
+    // Spreadsheets without saved import settings go through the column mapping step first
+    const isSpreadsheet = /\.(xlsx|xls|csv)$/i.test(file.name);
+    if (isSpreadsheet && (!hasImportProfileRef.current || reviewMappingRef.current)) {
+      setMappingFile(file);
+      return;
+    }
+
     // Upload file
     await handleUpload(file);
   }, [selectedBankAccountId, bankAccounts, profileReady, profileLoading]);
 
+  const handleMappingConfirmed = async () => {
+    const file = mappingFile;
+    setMappingFile(null);
+    setHasImportProfile(true);
+    setReviewMapping(false);
+    if (file) {
+      await handleUpload(file);
+    }
+  };
+
+  const handleMappingCancelled = () => {
+    setMappingFile(null);
+    setUploadState(prev => ({ ...prev, file: null }));
+  };
+
   const handleUpload = async (file: File) => {
     // Use refs to get current values (avoids stale closure issues)
     const currentBankAccountId = selectedBankAccountIdRef.current;
@@ -370,17 +421,9 @@ export default function SpreadsheetUpload() {
         progress: 100,
         jobId: data.jobId,
         warnings: data.warnings || [],
-        duplicatePreview: data.duplicatePreview || null,
       }));
 
-      // Show success message and redirect to uploads page to see status
-      if (data.jobId) {
-        // Redirect to uploads page where user can see the processing status
-        // Add a timestamp to force refresh
-        setTimeout(() => {
-          window.location.href = `/dashboard/uploads?refresh=${Date.now()}`;
-        }, 1500);
-      }
+      // Processing progress is followed live by the JobProgressPanel below
   } catch (error: any) {
       // Try to extract error message from response
       let errorMessage = error.message || 'An error occurred during upload';
@@ -472,16 +515,9 @@ export default function SpreadsheetUpload() {
         progress: 100,
         jobId: data.jobId,
         warnings: data.warnings || [],
-        duplicatePreview: data.duplicatePreview || null,
       }));
 
       setPendingFile(null);
-
-      if (data.jobId) {
-        setTimeout(() => {
-          window.location.href = `/dashboard/uploads?refresh=${Date.now()}`;
-        }, 1500);
-      }
     } catch (error: any) {
       setUploadState(prev => ({
         ...prev,
@@ -501,14 +537,13 @@ export default function SpreadsheetUpload() {
       jobId: null,
       isDuplicate: false,
       duplicateInfo: null,
-      duplicatePreview: null,
       warnings: [],
     });
   };
 
   // Determine if upload should be disabled
   // Only disable if profile is done loading AND not ready
-  const isUploadDisabled = uploadState.uploading || 
+  const isUploadDisabled = uploadState.uploading || !!mappingFile ||
     !selectedBankAccountId || 
     selectedBankAccountId.trim() === '' ||
     loadingBankAccounts ||
@@ -521,6 +556,10 @@ export default function SpreadsheetUpload() {
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
       'application/vnd.ms-excel': ['.xls'],
       'text/csv': ['.csv'],
+      'application/x-ofx': ['.ofx', '.qfx'],
+      'application/qif': ['.qif'],
+      'application/xml': ['.xml'],
+      'text/plain': ['.sta', '.mt940', '.940', '.txt'],
     },
     maxFiles: 1,
     disabled: isUploadDisabled,
@@ -575,10 +614,31 @@ export default function SpreadsheetUpload() {
                 {selectedBankAccount.spreadsheet_tab_name && ` (Tab: ${selectedBankAccount.spreadsheet_tab_name})`}
               </p>
             )}
+            {hasImportProfile && (
+              <label className="mt-2 flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={reviewMapping}
+                  onChange={(e) => setReviewMapping(e.target.checked)}
+                  className="rounded border-gray-300 dark:border-gray-600"
+                />
+                Saved column mapping is used for spreadsheets from this account. Review it on the next upload
+              </label>
+            )}
           </>
         )}
       </div>
 
+      {/* Column mapping step for spreadsheets */}
+      {mappingFile && selectedBankAccountId && (
+        <ImportProfilePreview
+          file={mappingFile}
+          bankAccountId={selectedBankAccountId}
+          onConfirm={handleMappingConfirmed}
+          onCancel={handleMappingCancelled}
+        />
+      )}
+
       {/* Upload Area */}
       <div
         {...getRootProps()}
@@ -643,7 +703,7 @@ export default function SpreadsheetUpload() {
               )}
               <div className="flex items-center gap-2 text-xs text-gray-400 dark:text-gray-500">
                 <DocumentIcon className="h-4 w-4" />
-                <span>Supports .xlsx, .xls, .csv (max 10MB)</span>
+                <span>Supports .xlsx, .xls, .csv, OFX/QFX, QIF, CAMT.053 and MT940 (max 10MB, or 100MB for CSV)</span>
               </div>
             </>
           )}
@@ -740,6 +800,11 @@ export default function SpreadsheetUpload() {
         </div>
       )}
 
+      {/* Live processing progress */}
+      {uploadState.jobId && !uploadState.uploading && (
+        <JobProgressPanel jobId={uploadState.jobId} />
+      )}
+
       {/* Upload Warnings (e.g., duplicate transactions) */}
       {uploadState.warnings.length > 0 && (
         <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4 flex items-start gap-3">
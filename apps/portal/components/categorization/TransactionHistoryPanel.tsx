@@ -0,0 +1,123 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { ClockIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import {
+  CHANGE_SOURCE_LABELS,
+  formatChangeValue,
+  type ChangeLogEntry,
+} from "@/lib/books/change-log";
+
+interface TransactionHistoryPanelProps {
+  transactionId: string;
+  description: string;
+  onClose: () => void;
+}
+
+const OPERATION_LABELS: Record<ChangeLogEntry["operation"], string> = {
+  INSERT: "Created",
+  UPDATE: "Changed",
+  DELETE: "Deleted",
+};
+
+const formatFieldName = (field: string) =>
+  field.replace(/_id$/, "").replace(/_/g, " ").replace(/^\w/, (c) => c.toUpperCase());
+
+export default function TransactionHistoryPanel({
+  transactionId,
+  description,
+  onClose,
+}: TransactionHistoryPanelProps) {
+  const [history, setHistory] = useState<ChangeLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadHistory = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await fetch(`/api/categorization/transactions/${transactionId}/history`, {
+          credentials: "include",
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data?.error || "Failed to load history");
+        if (!cancelled) setHistory(data.history || []);
+      } catch (err: any) {
+        if (!cancelled) setError(err.message || "Failed to load history");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [transactionId]);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2 min-w-0">
+          <ClockIcon className="h-5 w-5 text-gray-500 dark:text-gray-400 shrink-0" />
+          <div className="min-w-0">
+            <p className="font-medium text-gray-900 dark:text-white">History</p>
+            <p className="text-sm text-gray-500 dark:text-gray-400 truncate">{description}</p>
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1.5 text-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+          title="Close"
+        >
+          <XMarkIcon className="h-5 w-5" />
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading history...</p>
+      ) : error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      ) : history.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No changes recorded yet.</p>
+      ) : (
+        <ol className="divide-y divide-gray-200 dark:divide-gray-700">
+          {history.map((entry) => (
+            <li key={entry.id} className="py-3">
+              <div className="flex flex-wrap items-center gap-x-2 text-sm">
+                <span className="font-medium text-gray-900 dark:text-white">
+                  {OPERATION_LABELS[entry.operation]}
+                </span>
+                <span className="text-gray-600 dark:text-gray-300">
+                  by {entry.changed_by_name || (entry.changed_by ? "a former member" : "the system")}
+                </span>
+                <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                  {CHANGE_SOURCE_LABELS[entry.source] || entry.source}
+                </span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {new Date(entry.changed_at).toLocaleString()}
+                </span>
+              </div>
+              {entry.operation === "UPDATE" && (
+                <ul className="mt-1 space-y-0.5 text-sm">
+                  {Object.entries(entry.changes).map(([field, change]) => (
+                    <li key={field} className="text-gray-700 dark:text-gray-300">
+                      <span className="text-gray-500 dark:text-gray-400">{formatFieldName(field)}:</span>{" "}
+                      <span className="line-through text-gray-500 dark:text-gray-400">
+                        {formatChangeValue(change.old) || "empty"}
+                      </span>{" "}
+                      → {formatChangeValue(change.new) || "empty"}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
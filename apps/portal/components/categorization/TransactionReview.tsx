@@ -15,6 +15,11 @@ import BankStatementCardView from "@/components/categorization/BankStatementCard
 import BankStatementSplitView from "@/components/categorization/BankStatementSplitView";
 import SyncStatusIndicator from "@/components/categorization/SyncStatusIndicator";
 import SyncButton from "@/components/categorization/SyncButton";
+import TransactionHistoryPanel from "@/components/categorization/TransactionHistoryPanel";
+import TransactionSplitPanel from "@/components/categorization/TransactionSplitPanel";
+import JobProgressPanel from "@/components/categorization/JobProgressPanel";
+import { isFinishedJobStatus } from "@/lib/jobs/progress";
+import { useJobProgress } from "@/lib/jobs/use-job-progress";
 
 interface Document {
   id: string;
@@ -28,7 +33,9 @@ interface Document {
   order_number?: string | null;
   document_date?: string | null;
   delivery_date?: string | null;
+  due_date?: string | null;
   paid_date?: string | null;
+  document_kind?: "bill" | "sales_invoice" | null;
   total_amount?: number | null;
   tax_amount?: number | null;
   subtotal_amount?: number | null;
@@ -69,6 +76,22 @@ interface Transaction {
   paid_in_amount?: number | null;
   paid_out_amount?: number | null;
   payment_description_reference?: string | null;
+  applied_rule_id?: string | null;
+}
+
+interface RuleStat {
+  rule_id: string;
+  name: string;
+  hits: number;
+}
+
+interface LearningSuggestion {
+  merchant_key: string;
+  category: string;
+  subcategory: string | null;
+  correction_count: number;
+  similar_count: number;
+  auto_created?: { type: "rule" | "mapping"; id: string };
 }
 
 interface TransactionReviewProps {
@@ -77,6 +100,9 @@ interface TransactionReviewProps {
 
 export default function TransactionReview({ jobId }: TransactionReviewProps) {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [ruleStats, setRuleStats] = useState<RuleStat[]>([]);
+  const [learningSuggestion, setLearningSuggestion] = useState<LearningSuggestion | null>(null);
+  const [applyingSuggestion, setApplyingSuggestion] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [exporting, setExporting] = useState(false);
@@ -84,9 +110,18 @@ export default function TransactionReview({ jobId }: TransactionReviewProps) {
   const [accessToken, setAccessToken] = useState<string | null>(null);
   const [installingSync, setInstallingSync] = useState(false);
   const [installSyncMessage, setInstallSyncMessage] = useState<string | null>(null);
+  const [historyTransactionId, setHistoryTransactionId] = useState<string | null>(null);
+  const [splitTransactionId, setSplitTransactionId] = useState<string | null>(null);
   
-  // Track if any child view is in editing mode to pause polling
+  // Track if any child view is in editing mode to pause live reloads
   const [isEditing, setIsEditing] = useState(false);
+
+  // Live job progress; new transactions are loaded as the job reports them
+  const jobProgressState = useJobProgress(jobId);
+  const jobProgress = jobProgressState.progress;
+  const progressKey = jobProgress
+    ? `${jobProgress.status}:${jobProgress.stage}:${jobProgress.counts.rowsInserted}:${jobProgress.counts.processed}`
+    : null;
   
   // Initialize view from stored preference (safe for SSR)
   const [currentView, setCurrentView] = useState<ViewType>("table");
@@ -154,26 +189,43 @@ export default function TransactionReview({ jobId }: TransactionReviewProps) {
     return headers;
   }, [accessToken]);
 
-  // Use ref to track isEditing so polling interval doesn't need to re-create on every edit state change
+  // Use ref to track isEditing so progress events don't reload over an edit in progress
   const isEditingRef = React.useRef(isEditing);
-  React.useEffect(() => {
-    isEditingRef.current = isEditing;
-  }, [isEditing]);
+  const lastProgressKeyRef = React.useRef<string | null>(null);
+  const missedReloadRef = React.useRef(false);
 
-  // Initial load and polling
+  // Initial load
   useEffect(() => {
+    lastProgressKeyRef.current = null;
     loadTransactions();
-    // Poll for updates if job is still processing, but pause while editing
-    const interval = setInterval(() => {
-      if (!isEditingRef.current) {
-      loadTransactions();
-      }
-    }, 3000); // Poll every 3 seconds
-
-    return () => clearInterval(interval);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [jobId]);
 
+  // Reload when the job's progress stream reports a change, but not while editing
+  useEffect(() => {
+    if (!progressKey) return;
+    const isFirstEvent = lastProgressKeyRef.current === null;
+    lastProgressKeyRef.current = progressKey;
+    if (isFirstEvent) return; // Covered by the initial load
+
+    if (isEditingRef.current) {
+      missedReloadRef.current = true;
+      return;
+    }
+    loadTransactions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [progressKey]);
+
+  // Catch up on changes reported while editing
+  React.useEffect(() => {
+    isEditingRef.current = isEditing;
+    if (!isEditing && missedReloadRef.current) {
+      missedReloadRef.current = false;
+      loadTransactions();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isEditing]);
+
   useEffect(() => {
     // Load document URLs for all transactions with documents
     const loadDocumentUrls = async () => {
@@ -296,6 +348,13 @@ export default function TransactionReview({ jobId }: TransactionReviewProps) {
     }, 0);
   }, [transactions]);
 
+  const historyTransaction = historyTransactionId
+    ? transactions.find((t) => t.id === historyTransactionId) || null
+    : null;
+  const splitTransaction = splitTransactionId
+    ? transactions.find((t) => t.id === splitTransactionId) || null
+    : null;
+
   const loadSyncStatus = async (txs?: Transaction[]) => {
     try {
       const transactionsToCheck = txs || transactions;
@@ -388,6 +447,7 @@ export default function TransactionReview({ jobId }: TransactionReviewProps) {
       }
       const data = await response.json();
       const rawTransactions: Transaction[] = data.transactions || [];
+      setRuleStats(data.rule_stats || []);
 
       // Group by document_id so one uploaded invoice shows once (instead of 1 row per line item transaction)
       const grouped = new Map<string, Transaction>();
@@ -441,6 +501,48 @@ export default function TransactionReview({ jobId }: TransactionReviewProps) {
     return [transactionId];
   };
 
+  // Surface the first learning suggestion returned by edit/confirm responses
+  const pickLearningSuggestion = async (responses: Response[]) => {
+    for (const response of responses) {
+      const data = await response.json().catch(() => null);
+      if (data?.learning) {
+        setLearningSuggestion(data.learning);
+        return;
+      }
+    }
+  };
+
+  const handleApplySuggestion = async (create: "rule" | "mapping" | "none", applyToSimilar: boolean) => {
+    if (!learningSuggestion) return;
+    setApplyingSuggestion(true);
+    try {
+      const response = await fetch(`/api/categorization/learning/apply`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          merchant_key: learningSuggestion.merchant_key,
+          category: learningSuggestion.category,
+          subcategory: learningSuggestion.subcategory,
+          create,
+          apply_to_similar: applyToSimilar,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: "Failed to apply suggestion" }));
+        throw new Error(errorData.error || "Failed to apply suggestion");
+      }
+
+      setLearningSuggestion(null);
+      await loadTransactions();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setApplyingSuggestion(false);
+    }
+  };
+
   const handleConfirm = async (transactionId: string) => {
     try {
       const ids = resolveTransactionIds(transactionId);
@@ -462,6 +564,7 @@ export default function TransactionReview({ jobId }: TransactionReviewProps) {
           throw new Error(errorData.error || "Failed to confirm");
         }
       }
+      await pickLearningSuggestion(responses);
       await loadTransactions();
     } catch (err: any) {
       setError(err.message);
@@ -629,13 +732,23 @@ export default function TransactionReview({ jobId }: TransactionReviewProps) {
   }
 
   if (transactions.length === 0) {
+    if (jobProgress && !isFinishedJobStatus(jobProgress.status)) {
+      return (
+        <div className="max-w-2xl mx-auto py-12">
+          <JobProgressPanel jobId={jobId} state={jobProgressState} />
+        </div>
+      );
+    }
+
     return (
       <div className="flex flex-col items-center justify-center py-12">
         <p className="text-gray-600 dark:text-gray-400">
           No transactions found for this review job.
         </p>
         <p className="text-sm text-gray-500 dark:text-gray-500 mt-2">
-          If you just uploaded, give it a moment and refresh. Processing may still be in progress.
+          {jobProgress?.status === "failed"
+            ? jobProgress.error?.userMessage
+            : "This job didn't produce any transactions."}
         </p>
       </div>
     );
@@ -662,6 +775,7 @@ export default function TransactionReview({ jobId }: TransactionReviewProps) {
         }
       }
 
+      await pickLearningSuggestion(responses);
       await loadTransactions();
     } catch (err: any) {
       setError(err.message);
@@ -748,6 +862,8 @@ export default function TransactionReview({ jobId }: TransactionReviewProps) {
         onEditCategory: handleEditCategory,
         onEditNotes: handleEditNotes,
         onEditingChange: setIsEditing,
+        onViewHistory: setHistoryTransactionId,
+        onSplit: setSplitTransactionId,
         formatDescription: getDisplayDescription,
       };
 
@@ -771,6 +887,8 @@ export default function TransactionReview({ jobId }: TransactionReviewProps) {
       onConfirm: handleConfirm,
       onViewDocument: handleViewDocument,
       onEditingChange: setIsEditing,
+      onViewHistory: setHistoryTransactionId,
+      onSplit: setSplitTransactionId,
     };
 
     switch (currentView) {
@@ -808,8 +926,66 @@ export default function TransactionReview({ jobId }: TransactionReviewProps) {
             </p>
           </div>
         </div>
+        {ruleStats.length > 0 && (
+          <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">
+              Categorized by rules: {ruleStats.reduce((sum, stat) => sum + stat.hits, 0)} / {transactions.length}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {ruleStats.map((stat) => (
+                <span
+                  key={stat.rule_id}
+                  className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300"
+                >
+                  {stat.name}
+                  <span className="font-semibold">{stat.hits}</span>
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
 
+      {/* Learned categorization suggestion */}
+      {learningSuggestion && (
+        <div className="flex items-center justify-between flex-wrap gap-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
+          <p className="text-sm text-blue-800 dark:text-blue-200">
+            {learningSuggestion.auto_created
+              ? `A ${learningSuggestion.auto_created.type} now categorizes "${learningSuggestion.merchant_key}" as ${learningSuggestion.category}.`
+              : `You've categorized "${learningSuggestion.merchant_key}" as ${learningSuggestion.category} ${learningSuggestion.correction_count} times.`}
+            {learningSuggestion.similar_count > 0 &&
+              ` ${learningSuggestion.similar_count} similar unconfirmed transaction${learningSuggestion.similar_count === 1 ? "" : "s"} could be updated.`}
+          </p>
+          <div className="flex items-center gap-2">
+            {learningSuggestion.similar_count > 0 && (
+              <button
+                onClick={() => handleApplySuggestion(learningSuggestion.auto_created?.type ?? "rule", true)}
+                disabled={applyingSuggestion}
+                className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                Apply to {learningSuggestion.similar_count} similar
+              </button>
+            )}
+            {!learningSuggestion.auto_created && (
+              <button
+                onClick={() => handleApplySuggestion("rule", false)}
+                disabled={applyingSuggestion}
+                className="px-3 py-1.5 text-sm font-medium text-blue-700 dark:text-blue-300 border border-blue-300 dark:border-blue-700 rounded-lg hover:bg-blue-100 dark:hover:bg-blue-900/40 disabled:opacity-50"
+              >
+                Create rule
+              </button>
+            )}
+            <button
+              onClick={() => setLearningSuggestion(null)}
+              disabled={applyingSuggestion}
+              className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Sync Status and Actions */}
       {hasSpreadsheet && (
         <div className="flex items-center justify-between flex-wrap gap-4 bg-white dark:bg-gray-800 rounded-lg shadow p-4">
@@ -883,6 +1059,26 @@ export default function TransactionReview({ jobId }: TransactionReviewProps) {
         </div>
       </div>
 
+      {/* Change history of one transaction */}
+      {historyTransaction && (
+        <TransactionHistoryPanel
+          transactionId={historyTransaction.id}
+          description={getDisplayDescription(historyTransaction)}
+          onClose={() => setHistoryTransactionId(null)}
+        />
+      )}
+
+      {/* Split of one transaction into categorized lines */}
+      {splitTransaction && (
+        <TransactionSplitPanel
+          key={splitTransaction.id}
+          transactionId={splitTransaction.id}
+          description={getDisplayDescription(splitTransaction)}
+          onClose={() => setSplitTransactionId(null)}
+          onSaved={loadTransactions}
+        />
+      )}
+
       {/* Selected View */}
       {renderView()}
     </div>
@@ -0,0 +1,400 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { PlusIcon, ScissorsIcon, TrashIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import type { SplitLine, SplitMode } from "@/lib/categorization/splits";
+import { VAT_CODES, VAT_CODE_VALUES } from "@/lib/vat/codes";
+
+interface TransactionSplitPanelProps {
+  transactionId: string;
+  description: string;
+  onClose: () => void;
+  /** Called after the split is saved or removed, so the list can reload */
+  onSaved?: () => void;
+}
+
+interface EditableLine {
+  category: string;
+  subcategory: string;
+  description: string;
+  percentage: string;
+  amount: string;
+  vat_code: string;
+  vat_amount: string;
+  supplier_id: string;
+}
+
+const CATEGORY_OPTIONS = [
+  "Income",
+  "Sales",
+  "Refund",
+  "Cost of Goods Sold",
+  "Operating Expenses",
+  "Payroll",
+  "Rent",
+  "Utilities",
+  "Insurance",
+  "Professional Services",
+  "Office Supplies",
+  "Travel",
+  "Meals & Entertainment",
+  "Marketing",
+  "Software & Subscriptions",
+  "Bank Fees",
+  "Interest Expense",
+  "Taxes",
+  "Equipment",
+  "Owner Draw",
+  "Other Expense",
+];
+
+const MODE_LABELS: Record<SplitMode, string> = {
+  line_items: "Invoice line items",
+  percentage: "Percentages",
+  amount: "Amounts",
+};
+
+const emptyLine = (): EditableLine => ({
+  category: "",
+  subcategory: "",
+  description: "",
+  percentage: "",
+  amount: "",
+  vat_code: "",
+  vat_amount: "",
+  supplier_id: "",
+});
+
+const toEditable = (line: SplitLine): EditableLine => ({
+  category: line.category,
+  subcategory: line.subcategory || "",
+  description: line.description || "",
+  percentage: String(line.percentage ?? ""),
+  amount: line.amount !== undefined && line.amount !== null ? Number(line.amount).toFixed(2) : "",
+  vat_code: line.vat_code || "",
+  vat_amount: line.vat_amount !== undefined && line.vat_amount !== null ? Number(line.vat_amount).toFixed(2) : "",
+  supplier_id: line.supplier_id || "",
+});
+
+export default function TransactionSplitPanel({
+  transactionId,
+  description,
+  onClose,
+  onSaved,
+}: TransactionSplitPanelProps) {
+  const [total, setTotal] = useState(0);
+  const [mode, setMode] = useState<SplitMode>("amount");
+  const [lines, setLines] = useState<EditableLine[]>([]);
+  const [suggestion, setSuggestion] = useState<SplitLine[]>([]);
+  const [isSplit, setIsSplit] = useState(false);
+  const [suppliers, setSuppliers] = useState<Array<{ id: string; name: string }>>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSplit = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const [splitResponse, suppliersResponse] = await Promise.all([
+          fetch(`/api/categorization/transactions/${transactionId}/split`, { credentials: "include" }),
+          fetch("/api/categorization/suppliers", { credentials: "include" }),
+        ]);
+        const data = await splitResponse.json();
+        if (!splitResponse.ok) throw new Error(data?.error || "Failed to load split");
+        const supplierData = suppliersResponse.ok ? await suppliersResponse.json() : null;
+        if (cancelled) return;
+
+        setTotal(Number(data.total) || 0);
+        setSuggestion(data.suggestion || []);
+        setSuppliers(supplierData?.suppliers || []);
+        setIsSplit((data.lines || []).length > 0);
+        if ((data.lines || []).length > 0) {
+          setMode("amount");
+          setLines(data.lines.map(toEditable));
+        } else if ((data.suggestion || []).length > 0) {
+          setMode("line_items");
+          setLines(data.suggestion.map(toEditable));
+        } else {
+          // Start with the whole amount on the current category and an empty second line
+          setMode("amount");
+          setLines([
+            { ...emptyLine(), category: data.category || "", subcategory: data.subcategory || "", amount: Number(data.total || 0).toFixed(2) },
+            emptyLine(),
+          ]);
+        }
+      } catch (err: any) {
+        if (!cancelled) setError(err.message || "Failed to load split");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadSplit();
+    return () => {
+      cancelled = true;
+    };
+  }, [transactionId]);
+
+  const allocated = useMemo(
+    () => lines.reduce((sum, line) => sum + (Number(mode === "percentage" ? line.percentage : line.amount) || 0), 0),
+    [lines, mode]
+  );
+  const target = mode === "percentage" ? 100 : total;
+  const remaining = Math.round((target - allocated) * 100) / 100;
+
+  const updateLine = (index: number, field: keyof EditableLine, value: string) => {
+    setLines((current) => current.map((line, i) => (i === index ? { ...line, [field]: value } : line)));
+  };
+
+  const changeMode = (next: SplitMode) => {
+    setMode(next);
+    if (next === "line_items") setLines(suggestion.map(toEditable));
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const response = await fetch(`/api/categorization/transactions/${transactionId}/split`, {
+        method: "PUT",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          mode,
+          lines: lines.map((line) => ({
+            category: line.category,
+            subcategory: line.subcategory || null,
+            description: line.description || null,
+            percentage: line.percentage,
+            amount: line.amount,
+            vat_code: line.vat_code || null,
+            vat_amount: line.vat_amount,
+            supplier_id: line.supplier_id || null,
+          })),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data?.error || "Failed to save split");
+      setIsSplit(true);
+      onSaved?.();
+      onClose();
+    } catch (err: any) {
+      setError(err.message || "Failed to save split");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!confirm("Remove the split? The transaction keeps its main category.")) return;
+    try {
+      setSaving(true);
+      setError(null);
+      const response = await fetch(`/api/categorization/transactions/${transactionId}/split`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data?.error || "Failed to remove split");
+      onSaved?.();
+      onClose();
+    } catch (err: any) {
+      setError(err.message || "Failed to remove split");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white";
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2 min-w-0">
+          <ScissorsIcon className="h-5 w-5 text-gray-500 dark:text-gray-400 shrink-0" />
+          <div className="min-w-0">
+            <p className="font-medium text-gray-900 dark:text-white">Split transaction</p>
+            <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+              {description} · {total.toFixed(2)}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1.5 text-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+          title="Close"
+        >
+          <XMarkIcon className="h-5 w-5" />
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading split...</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            {(Object.keys(MODE_LABELS) as SplitMode[])
+              .filter((option) => option !== "line_items" || suggestion.length > 0)
+              .map((option) => (
+                <button
+                  key={option}
+                  onClick={() => changeMode(option)}
+                  className={`px-3 py-1 text-sm rounded-full border ${
+                    mode === option
+                      ? "bg-blue-600 border-blue-600 text-white"
+                      : "border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300"
+                  }`}
+                >
+                  {MODE_LABELS[option]}
+                </button>
+              ))}
+          </div>
+
+          <datalist id="split-category-options">
+            {CATEGORY_OPTIONS.map((category) => (
+              <option key={category} value={category} />
+            ))}
+          </datalist>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400">
+                  <th className="py-1 pr-2 font-medium">Category</th>
+                  <th className="py-1 pr-2 font-medium">Description</th>
+                  <th className="py-1 pr-2 font-medium">{mode === "percentage" ? "%" : "Amount"}</th>
+                  <th className="py-1 pr-2 font-medium">VAT code</th>
+                  <th className="py-1 pr-2 font-medium">VAT</th>
+                  <th className="py-1 pr-2 font-medium">Supplier</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {lines.map((line, index) => (
+                  <tr key={index}>
+                    <td className="py-1 pr-2">
+                      <input
+                        list="split-category-options"
+                        value={line.category}
+                        onChange={(e) => updateLine(index, "category", e.target.value)}
+                        className={inputClass}
+                        placeholder="Category"
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input
+                        value={line.description}
+                        onChange={(e) => updateLine(index, "description", e.target.value)}
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="py-1 pr-2 w-28">
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={mode === "percentage" ? line.percentage : line.amount}
+                        onChange={(e) => updateLine(index, mode === "percentage" ? "percentage" : "amount", e.target.value)}
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <select
+                        value={line.vat_code}
+                        onChange={(e) => updateLine(index, "vat_code", e.target.value)}
+                        className={inputClass}
+                      >
+                        <option value="">As transaction</option>
+                        {VAT_CODE_VALUES.map((code) => (
+                          <option key={code} value={code}>
+                            {VAT_CODES[code].label}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-1 pr-2 w-24">
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={line.vat_amount}
+                        onChange={(e) => updateLine(index, "vat_amount", e.target.value)}
+                        className={inputClass}
+                        placeholder="Auto"
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <select
+                        value={line.supplier_id}
+                        onChange={(e) => updateLine(index, "supplier_id", e.target.value)}
+                        className={inputClass}
+                      >
+                        <option value="">None</option>
+                        {suppliers.map((supplier) => (
+                          <option key={supplier.id} value={supplier.id}>
+                            {supplier.name}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-1">
+                      <button
+                        onClick={() => setLines((current) => current.filter((_, i) => i !== index))}
+                        disabled={lines.length <= 2}
+                        className="p-1.5 text-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded disabled:opacity-40"
+                        title="Remove line"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <button
+              onClick={() => setLines((current) => [...current, emptyLine()])}
+              className="flex items-center gap-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              <PlusIcon className="h-4 w-4" />
+              Add line
+            </button>
+            <p className={`text-sm ${remaining === 0 ? "text-green-600 dark:text-green-400" : "text-amber-600 dark:text-amber-400"}`}>
+              {remaining === 0
+                ? "Lines add up to the total"
+                : `${Math.abs(remaining).toFixed(2)}${mode === "percentage" ? "%" : ""} ${remaining > 0 ? "left to allocate" : "over the total"}`}
+            </p>
+          </div>
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+          <div className="flex items-center justify-end gap-2">
+            {isSplit && (
+              <button
+                onClick={handleRemove}
+                disabled={saving}
+                className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+              >
+                Remove split
+              </button>
+            )}
+            <button
+              onClick={handleSave}
+              disabled={saving || remaining !== 0}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? "Saving..." : "Save split"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,6 +9,8 @@ import {
   CheckCircleIcon,
   EyeIcon,
   XMarkIcon,
+  ClockIcon,
+  ScissorsIcon,
 } from "@heroicons/react/24/outline";
 import InvoiceFieldsDisplay from "./InvoiceFieldsDisplay";
 
@@ -24,7 +26,9 @@ interface Document {
   order_number?: string | null;
   document_date?: string | null;
   delivery_date?: string | null;
+  due_date?: string | null;
   paid_date?: string | null;
+  document_kind?: "bill" | "sales_invoice" | null;
   total_amount?: number | null;
   tax_amount?: number | null;
   subtotal_amount?: number | null;
@@ -67,6 +71,8 @@ interface InvoiceCardViewProps {
   onConfirm: (transactionId: string) => Promise<void>;
   onViewDocument: (documentId: string) => void;
   onEditingChange?: (isEditing: boolean) => void;
+  onViewHistory?: (transactionId: string) => void;
+  onSplit?: (transactionId: string) => void;
 }
 
 export default function InvoiceCardView({
@@ -77,6 +83,8 @@ export default function InvoiceCardView({
   onConfirm,
   onViewDocument,
   onEditingChange,
+  onViewHistory,
+  onSplit,
 }: InvoiceCardViewProps) {
   const [expandedCards, setExpandedCards] = useState<Set<string>>(new Set());
   const [editingCards, setEditingCards] = useState<Set<string>>(new Set());
@@ -319,6 +327,24 @@ export default function InvoiceCardView({
                       )}
                     </>
                   )}
+                  {onViewHistory && (
+                    <button
+                      onClick={() => onViewHistory(tx.id)}
+                      className="p-1.5 text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700 rounded"
+                      title="History"
+                    >
+                      <ClockIcon className="h-4 w-4" />
+                    </button>
+                  )}
+                  {onSplit && (
+                    <button
+                      onClick={() => onSplit(tx.id)}
+                      className="p-1.5 text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700 rounded"
+                      title="Split into categories"
+                    >
+                      <ScissorsIcon className="h-4 w-4" />
+                    </button>
+                  )}
                 </div>
               </div>
 
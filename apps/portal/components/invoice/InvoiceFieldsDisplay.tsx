@@ -15,6 +15,8 @@ interface InvoiceData {
   document_date?: string | null;
   order_number?: string | null;
   delivery_date?: string | null;
+  due_date?: string | null;
+  document_kind?: "bill" | "sales_invoice" | null;
   po_number?: string | null;
   subtotal_amount?: number | null;
   tax_amount?: number | null;
@@ -398,6 +400,34 @@ export default function InvoiceFieldsDisplay({
             method={getMethod("document_date")}
             onFieldChange={onFieldChange}
           />
+          <FieldRow
+            label="Due Date"
+            field="due_date"
+            value={invoiceData.due_date}
+            type="date"
+            editMode={editMode}
+            compact={compact}
+            onFieldChange={onFieldChange}
+          />
+          <div className={compact ? "mb-2" : "mb-4"}>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Invoice Type
+            </label>
+            {editMode ? (
+              <select
+                value={invoiceData.document_kind || "bill"}
+                onChange={(e) => onFieldChange("document_kind", e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white text-sm"
+              >
+                <option value="bill">Bill (we owe the supplier)</option>
+                <option value="sales_invoice">Sales invoice (the customer owes us)</option>
+              </select>
+            ) : (
+              <p className="text-gray-900 dark:text-white text-sm">
+                {invoiceData.document_kind === "sales_invoice" ? "Sales invoice" : "Bill"}
+              </p>
+            )}
+          </div>
           <FieldRow
             label="Order Number"
             field="order_number"
@@ -6,6 +6,8 @@ import {
   TrashIcon,
   CheckCircleIcon,
   XMarkIcon,
+  ClockIcon,
+  ScissorsIcon,
 } from "@heroicons/react/24/outline";
 import InvoiceFieldsDisplay from "./InvoiceFieldsDisplay";
 
@@ -21,7 +23,9 @@ interface Document {
   order_number?: string | null;
   document_date?: string | null;
   delivery_date?: string | null;
+  due_date?: string | null;
   paid_date?: string | null;
+  document_kind?: "bill" | "sales_invoice" | null;
   total_amount?: number | null;
   tax_amount?: number | null;
   subtotal_amount?: number | null;
@@ -64,6 +68,8 @@ interface InvoiceSplitViewProps {
   onConfirm: (transactionId: string) => Promise<void>;
   onViewDocument: (documentId: string) => void;
   onEditingChange?: (isEditing: boolean) => void;
+  onViewHistory?: (transactionId: string) => void;
+  onSplit?: (transactionId: string) => void;
 }
 
 export default function InvoiceSplitView({
@@ -74,6 +80,8 @@ export default function InvoiceSplitView({
   onConfirm,
   onViewDocument,
   onEditingChange,
+  onViewHistory,
+  onSplit,
 }: InvoiceSplitViewProps) {
   const [selectedTransactionId, setSelectedTransactionId] = useState<string | null>(
     transactions.length > 0 && transactions[0].document_id ? transactions[0].id : null
@@ -327,6 +335,24 @@ export default function InvoiceSplitView({
                       )}
                     </>
                   )}
+                  {onViewHistory && (
+                    <button
+                      onClick={() => onViewHistory(selectedTransaction.id)}
+                      className="flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+                    >
+                      <ClockIcon className="h-5 w-5" />
+                      History
+                    </button>
+                  )}
+                  {onSplit && (
+                    <button
+                      onClick={() => onSplit(selectedTransaction.id)}
+                      className="flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+                    >
+                      <ScissorsIcon className="h-5 w-5" />
+                      History
+                    </button>
+                  )}
                 </div>
               </div>
 
@@ -9,6 +9,8 @@ import {
   CheckCircleIcon,
   EyeIcon,
   XMarkIcon,
+  ClockIcon,
+  ScissorsIcon,
 } from "@heroicons/react/24/outline";
 import InvoiceFieldsDisplay from "./InvoiceFieldsDisplay";
 
@@ -24,7 +26,9 @@ interface Document {
   order_number?: string | null;
   document_date?: string | null;
   delivery_date?: string | null;
+  due_date?: string | null;
   paid_date?: string | null;
+  document_kind?: "bill" | "sales_invoice" | null;
   total_amount?: number | null;
   tax_amount?: number | null;
   subtotal_amount?: number | null;
@@ -68,6 +72,8 @@ interface InvoiceTableViewProps {
   onConfirm: (transactionId: string) => Promise<void>;
   onViewDocument: (documentId: string) => void;
   onEditingChange?: (isEditing: boolean) => void;
+  onViewHistory?: (transactionId: string) => void;
+  onSplit?: (transactionId: string) => void;
 }
 
 export default function InvoiceTableView({
@@ -78,6 +84,8 @@ export default function InvoiceTableView({
   onConfirm,
   onViewDocument,
   onEditingChange,
+  onViewHistory,
+  onSplit,
 }: InvoiceTableViewProps) {
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
   const [editingRows, setEditingRows] = useState<Set<string>>(new Set());
@@ -361,6 +369,24 @@ export default function InvoiceTableView({
                           {tx.user_confirmed && (
                             <CheckCircleIcon className="h-5 w-5 text-green-500" />
                           )}
+                          {onViewHistory && (
+                            <button
+                              onClick={() => onViewHistory(tx.id)}
+                              className="text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-300"
+                              title="History"
+                            >
+                              <ClockIcon className="h-4 w-4" />
+                            </button>
+                          )}
+                          {onSplit && (
+                            <button
+                              onClick={() => onSplit(tx.id)}
+                              className="text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-300"
+                              title="Split into categories"
+                            >
+                              <ScissorsIcon className="h-4 w-4" />
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
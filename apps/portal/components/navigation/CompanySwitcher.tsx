@@ -13,6 +13,8 @@ import {
   ChevronDownIcon,
   BuildingOfficeIcon,
   PlusCircleIcon,
+  Squares2X2Icon,
+  CheckIcon,
 } from '@heroicons/react/24/outline'
 
 interface Company {
@@ -22,10 +24,15 @@ interface Company {
   vat_registered: boolean
 }
 
+// Past this many companies the switcher offers a search box (practice staff with many clients)
+const SEARCH_THRESHOLD = 8
+
 export function CompanySwitcher() {
   const [companies, setCompanies] = useState<Company[]>([])
   const [currentCompany, setCurrentCompany] = useState<Company | null>(null)
   const [loading, setLoading] = useState(true)
+  const [switching, setSwitching] = useState(false)
+  const [search, setSearch] = useState('')
 
   useEffect(() => {
     loadCompanies()
@@ -33,13 +40,13 @@ export function CompanySwitcher() {
 
   const loadCompanies = async () => {
     try {
-      const response = await fetch('/api/company')
+      const response = await fetch('/api/company/active')
       if (response.ok) {
         const data = await response.json()
-        setCompanies(data.companies || [])
-        if (data.companies && data.companies.length > 0) {
-          // Set the first company as current (in future, get from localStorage or user preference)
-          setCurrentCompany(data.companies[0])
+        const list: Company[] = data.companies || []
+        setCompanies(list)
+        if (list.length > 0) {
+          setCurrentCompany(list.find(c => c.id === data.active_company_profile_id) || list[0])
         }
       }
     } catch (error) {
@@ -49,12 +56,31 @@ export function CompanySwitcher() {
     }
   }
 
-  const switchCompany = (company: Company) => {
-    setCurrentCompany(company)
-    // In future, store preference in localStorage or user settings
-    localStorage.setItem('activeCompanyId', company.id)
+  const switchCompany = async (company: Company) => {
+    if (company.id === currentCompany?.id) return
+
+    try {
+      setSwitching(true)
+      const response = await fetch('/api/company/active', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ company_profile_id: company.id }),
+      })
+      if (!response.ok) throw new Error('Failed to switch company')
+
+      // Every page and API route reads the active company, so reload to refetch in its context
+      setCurrentCompany(company)
+      window.location.reload()
+    } catch (error) {
+      console.error('Failed to switch company:', error)
+      setSwitching(false)
+    }
   }
 
+  const visibleCompanies = search
+    ? companies.filter(c => c.company_name.toLowerCase().includes(search.toLowerCase()))
+    : companies
+
   if (loading) {
     return (
       <div className="flex items-center gap-2 px-3 py-2">
@@ -78,7 +104,7 @@ export function CompanySwitcher() {
 
   return (
     <Dropdown>
-      <DropdownButton outline>
+      <DropdownButton outline disabled={switching}>
         <div className="flex items-center gap-2">
           <BuildingOfficeIcon className="h-5 w-5" />
           <span className="truncate max-w-[200px]">
@@ -90,13 +116,28 @@ export function CompanySwitcher() {
 
       <DropdownMenu>
         <DropdownLabel>Your Companies</DropdownLabel>
-        {companies.map((company) => (
+        {companies.length > SEARCH_THRESHOLD && (
+          <div className="col-span-full px-3.5 py-2 sm:px-3">
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              onKeyDown={(e) => e.stopPropagation()}
+              placeholder="Search companies..."
+              className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-2 py-1 text-sm"
+            />
+          </div>
+        )}
+        {visibleCompanies.map((company) => (
           <DropdownItem
             key={company.id}
             onClick={() => switchCompany(company)}
           >
             <div>
-              <div className="font-medium">{company.company_name}</div>
+              <div className="flex items-center gap-1 font-medium">
+                {company.id === currentCompany?.id && <CheckIcon className="h-4 w-4" />}
+                {company.company_name}
+              </div>
               <div className="text-xs text-gray-500 dark:text-gray-400">
                 {company.company_type.replace('_', ' ')}
                 {company.vat_registered && ' • VAT Registered'}
@@ -107,6 +148,12 @@ export function CompanySwitcher() {
 
         <DropdownDivider />
 
+        {companies.length > 1 && (
+          <DropdownItem href="/dashboard/practice">
+            <Squares2X2Icon className="h-4 w-4" />
+            Practice Dashboard
+          </DropdownItem>
+        )}
         <DropdownItem href="/dashboard/setup">
           <PlusCircleIcon className="h-4 w-4" />
           Add Company
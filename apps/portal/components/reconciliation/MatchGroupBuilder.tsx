@@ -0,0 +1,316 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Dialog, DialogPanel, DialogTitle } from '@headlessui/react'
+import { Button, Text } from '@/components/catalyst'
+import { XMarkIcon, Squares2X2Icon, SparklesIcon } from '@heroicons/react/24/outline'
+
+interface GroupTransaction {
+  id: string
+  original_description: string
+  amount: number
+  date: string
+}
+
+interface GroupDocument {
+  id: string
+  original_filename: string
+  vendor_name?: string
+  total_amount?: number
+  amount_paid?: number
+  document_date?: string
+  payment_status?: string
+}
+
+interface Candidate {
+  transaction_ids: string[]
+  document_ids: string[]
+  transactions_total: number
+  documents_total: number
+  difference: number
+  score: number
+  transactions: GroupTransaction[]
+  documents: GroupDocument[]
+}
+
+interface MatchGroupBuilderProps {
+  isOpen: boolean
+  transaction: GroupTransaction | null
+  onClose: () => void
+  onCreated: () => void | Promise<void>
+}
+
+export function MatchGroupBuilder({
+  isOpen,
+  transaction,
+  onClose,
+  onCreated,
+}: MatchGroupBuilderProps) {
+  const [candidates, setCandidates] = useState<Candidate[]>([])
+  const [openDocuments, setOpenDocuments] = useState<GroupDocument[]>([])
+  const [selectedDocumentIds, setSelectedDocumentIds] = useState<Set<string>>(new Set())
+  const [writeOffShortfall, setWriteOffShortfall] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isOpen || !transaction) return
+
+    setSelectedDocumentIds(new Set())
+    setWriteOffShortfall(false)
+    setError(null)
+    loadCandidates(transaction.id)
+  }, [isOpen, transaction])
+
+  const loadCandidates = async (transactionId: string) => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/reconciliation/groups/candidates?transaction_id=${transactionId}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to load suggestions')
+
+      setCandidates(data.candidates || [])
+      setOpenDocuments(data.open_documents || [])
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load suggestions')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const outstanding = (doc: GroupDocument) =>
+    Math.max(0, Math.abs(doc.total_amount || 0) - (doc.amount_paid || 0))
+
+  const toggleDocument = (documentId: string) => {
+    setSelectedDocumentIds(prev => {
+      const next = new Set(prev)
+      if (next.has(documentId)) {
+        next.delete(documentId)
+      } else {
+        next.add(documentId)
+      }
+      return next
+    })
+  }
+
+  const applyCandidate = (candidate: Candidate) => {
+    setSelectedDocumentIds(new Set(candidate.document_ids))
+    setWriteOffShortfall(candidate.difference < 0)
+  }
+
+  const handleCreate = async () => {
+    if (!transaction || selectedDocumentIds.size === 0) return
+
+    try {
+      setSaving(true)
+      setError(null)
+      const response = await fetch('/api/reconciliation/groups', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          transaction_ids: [transaction.id],
+          document_ids: Array.from(selectedDocumentIds),
+          write_off_shortfall: writeOffShortfall,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Failed to create match group')
+
+      await onCreated()
+      onClose()
+    } catch (e: any) {
+      setError(e?.message || 'Failed to create match group')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-GB', {
+      style: 'currency',
+      currency: 'GBP',
+    }).format(amount)
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-GB', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    })
+  }
+
+  if (!transaction) return null
+
+  const transactionTotal = Math.abs(transaction.amount)
+  const documentsTotal = openDocuments
+    .filter(doc => selectedDocumentIds.has(doc.id))
+    .reduce((sum, doc) => sum + outstanding(doc), 0)
+  // Transaction minus documents, as in the suggestions; negative means the payment falls short
+  const difference = Math.round((transactionTotal - documentsTotal) * 100) / 100
+
+  return (
+    <Dialog open={isOpen} onClose={onClose} className="relative z-50">
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <DialogPanel className="mx-auto max-w-3xl w-full bg-white dark:bg-gray-800 rounded-xl shadow-xl max-h-[90vh] overflow-y-auto">
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700 sticky top-0 bg-white dark:bg-gray-800 z-10">
+            <div className="flex items-center gap-3">
+              <Squares2X2Icon className="h-6 w-6 text-blue-500" />
+              <DialogTitle className="text-lg font-semibold text-gray-900 dark:text-white">
+                Match Several Documents
+              </DialogTitle>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+            >
+              <XMarkIcon className="h-6 w-6" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-6">
+            {/* Transaction */}
+            <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-4">
+              <Text className="text-xs text-gray-500 dark:text-gray-400 mb-1">Bank transaction</Text>
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-900 dark:text-white">
+                  {transaction.original_description}
+                </span>
+                <span className="text-sm font-semibold text-gray-900 dark:text-white">
+                  {formatCurrency(transactionTotal)}
+                </span>
+              </div>
+              <Text className="text-xs text-gray-500 dark:text-gray-400">{formatDate(transaction.date)}</Text>
+            </div>
+
+            {loading ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+              </div>
+            ) : (
+              <>
+                {/* Suggestions */}
+                {candidates.length > 0 && (
+                  <div>
+                    <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2 flex items-center gap-2">
+                      <SparklesIcon className="h-4 w-4 text-blue-500" />
+                      Suggested Combinations
+                    </h3>
+                    <div className="space-y-2">
+                      {candidates.map((candidate) => (
+                        <div
+                          key={candidate.document_ids.join(',')}
+                          className="flex items-center justify-between p-3 rounded-lg border border-gray-200 dark:border-gray-700"
+                        >
+                          <div className="min-w-0">
+                            <div className="text-sm text-gray-900 dark:text-white truncate">
+                              {candidate.documents
+                                .map(doc => doc.vendor_name || doc.original_filename)
+                                .join(', ')}
+                            </div>
+                            <div className="text-xs text-gray-500 dark:text-gray-400">
+                              {candidate.documents.length} documents · {formatCurrency(candidate.documents_total)}
+                              {candidate.difference < 0 && ` · shortfall ${formatCurrency(-candidate.difference)}`}
+                            </div>
+                          </div>
+                          <Button plain onClick={() => applyCandidate(candidate)}>
+                            Use
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Open documents */}
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">
+                    Open Documents
+                  </h3>
+                  {openDocuments.length === 0 ? (
+                    <Text className="text-sm text-gray-500 dark:text-gray-400">
+                      No unpaid receipts or invoices within 60 days of this transaction.
+                    </Text>
+                  ) : (
+                    <div className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+                      {openDocuments.map((doc) => (
+                        <label
+                          key={doc.id}
+                          className="flex items-center gap-3 p-3 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-900"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={selectedDocumentIds.has(doc.id)}
+                            onChange={() => toggleDocument(doc.id)}
+                            className="h-4 w-4 rounded border-gray-300 text-blue-600"
+                          />
+                          <div className="flex-1 min-w-0">
+                            <div className="text-sm text-gray-900 dark:text-white truncate">
+                              {doc.vendor_name || doc.original_filename}
+                            </div>
+                            <div className="text-xs text-gray-500 dark:text-gray-400">
+                              {doc.document_date && formatDate(doc.document_date)}
+                              {doc.payment_status === 'partially_paid' && ' · partially paid'}
+                            </div>
+                          </div>
+                          <span className="text-sm font-medium text-gray-900 dark:text-white">
+                            {formatCurrency(outstanding(doc))}
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+
+            {/* Totals */}
+            <div className="border-t border-gray-200 dark:border-gray-700 pt-4 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-500 dark:text-gray-400">Selected documents:</span>
+                <span className="font-medium text-gray-900 dark:text-white">{formatCurrency(documentsTotal)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500 dark:text-gray-400">Transaction:</span>
+                <span className="font-medium text-gray-900 dark:text-white">{formatCurrency(transactionTotal)}</span>
+              </div>
+              <div className="flex justify-between font-semibold">
+                <span className="text-gray-900 dark:text-white">Difference:</span>
+                <span className={difference === 0 ? 'text-green-600 dark:text-green-400' : 'text-yellow-600 dark:text-yellow-400'}>
+                  {formatCurrency(difference)}
+                </span>
+              </div>
+              {difference < 0 && selectedDocumentIds.size > 0 && (
+                <label className="flex items-center gap-2 pt-2 text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={writeOffShortfall}
+                    onChange={(e) => setWriteOffShortfall(e.target.checked)}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600"
+                  />
+                  Write off the shortfall as fees (otherwise the last document stays partially paid)
+                </label>
+              )}
+            </div>
+
+            {error && <div className="text-sm text-red-600 dark:text-red-400">{error}</div>}
+          </div>
+
+          {/* Footer */}
+          <div className="flex items-center justify-end gap-3 p-6 border-t border-gray-200 dark:border-gray-700 sticky bottom-0 bg-white dark:bg-gray-800">
+            <Button plain onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button color="blue" onClick={handleCreate} disabled={saving || selectedDocumentIds.size === 0}>
+              {saving ? 'Saving...' : 'Create Match Group'}
+            </Button>
+          </div>
+        </DialogPanel>
+      </div>
+    </Dialog>
+  )
+}
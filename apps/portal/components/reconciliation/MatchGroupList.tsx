@@ -0,0 +1,150 @@
+'use client'
+
+import { Button, Text } from '@/components/catalyst'
+import { ArrowUturnLeftIcon, BanknotesIcon, DocumentTextIcon } from '@heroicons/react/24/outline'
+
+export interface MatchGroupItem {
+  id: string
+  transaction_id: string | null
+  document_id: string | null
+  amount: number
+  transaction?: {
+    id: string
+    date: string
+    amount: number
+    original_description: string
+  } | null
+  document?: {
+    id: string
+    vendor_name?: string
+    original_filename: string
+    document_date?: string
+    total_amount?: number
+    amount_paid?: number
+    payment_status?: string
+  } | null
+}
+
+export interface MatchGroup {
+  id: string
+  status: 'active' | 'undone'
+  match_type: string
+  transactions_total: number
+  allocated_total: number
+  write_off_amount: number
+  source: 'manual' | 'auto'
+  notes?: string
+  created_at: string
+  items: MatchGroupItem[]
+}
+
+interface MatchGroupListProps {
+  groups: MatchGroup[]
+  undoingGroupId?: string | null
+  onUndo: (groupId: string) => void
+}
+
+const paymentStatusLabels: Record<string, string> = {
+  paid: 'Paid',
+  partially_paid: 'Partially paid',
+  unpaid: 'Unpaid',
+}
+
+export function MatchGroupList({ groups, undoingGroupId, onUndo }: MatchGroupListProps) {
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-GB', {
+      style: 'currency',
+      currency: 'GBP',
+    }).format(amount)
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-GB', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    })
+  }
+
+  if (groups.length === 0) return null
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+      <div className="divide-y divide-gray-200 dark:divide-gray-700">
+        {groups.map((group) => {
+          const transactionItems = group.items.filter(item => item.transaction_id)
+          const documentItems = group.items.filter(item => item.document_id)
+
+          return (
+            <div key={group.id} className="p-4">
+              <div className="flex items-start justify-between">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-3 mb-2">
+                    <span className="text-base font-medium text-gray-900 dark:text-white">
+                      {transactionItems.length} transaction{transactionItems.length === 1 ? '' : 's'} ↔{' '}
+                      {documentItems.length} document{documentItems.length === 1 ? '' : 's'}
+                    </span>
+                    <span className="text-sm text-gray-500 dark:text-gray-400">
+                      {formatDate(group.created_at)}
+                    </span>
+                    {group.source === 'auto' && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
+                        Auto
+                      </span>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <div className="space-y-1">
+                      {transactionItems.map((item) => (
+                        <div key={item.id} className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                          <BanknotesIcon className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                          <span className="truncate">{item.transaction?.original_description}</span>
+                          <span className="ml-auto font-medium">{formatCurrency(item.amount)}</span>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="space-y-1">
+                      {documentItems.map((item) => (
+                        <div key={item.id} className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                          <DocumentTextIcon className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                          <span className="truncate">
+                            {item.document?.vendor_name || item.document?.original_filename}
+                          </span>
+                          {item.document?.payment_status && item.document.payment_status !== 'paid' && (
+                            <span className="text-xs text-yellow-600 dark:text-yellow-400">
+                              {paymentStatusLabels[item.document.payment_status]}
+                            </span>
+                          )}
+                          <span className="ml-auto font-medium">{formatCurrency(item.amount)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  {group.write_off_amount > 0 && (
+                    <Text className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                      {formatCurrency(group.write_off_amount)} written off as fees
+                    </Text>
+                  )}
+                </div>
+
+                <div className="ml-4 flex-shrink-0">
+                  <Button
+                    plain
+                    onClick={() => onUndo(group.id)}
+                    disabled={undoingGroupId === group.id}
+                    className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                  >
+                    <ArrowUturnLeftIcon className="h-5 w-5" />
+                    Undo
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,260 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Button, Field, Label, Input, Select, Textarea } from '@/components/catalyst'
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline'
+import { VAT_CODES, type VatCode } from '@/lib/vat/codes'
+import {
+  SALES_VAT_CODES,
+  addDays,
+  calculateInvoiceTotals,
+  calculateLine,
+  type SalesInvoice,
+} from '@/lib/sales-invoices/invoices'
+
+interface LineDraft {
+  key: number
+  description: string
+  quantity: string
+  unit_price: string
+  vat_code: VatCode
+  vat_rate: string
+}
+
+interface SalesInvoiceEditorProps {
+  /** The draft being edited; omitted for a new invoice */
+  invoice?: SalesInvoice | null
+  defaultCurrency: string
+  paymentTermsDays: number
+  saving: boolean
+  /** Called with the request body; issue is true for "Save and issue" */
+  onSave: (body: Record<string, any>, issue: boolean) => void
+}
+
+let nextLineKey = 1
+
+function emptyLine(): LineDraft {
+  return { key: nextLineKey++, description: '', quantity: '1', unit_price: '', vat_code: 'standard', vat_rate: '' }
+}
+
+export function SalesInvoiceEditor({ invoice, defaultCurrency, paymentTermsDays, saving, onSave }: SalesInvoiceEditorProps) {
+  const today = new Date().toISOString().split('T')[0]
+  const [customerName, setCustomerName] = useState(invoice?.customer_name || '')
+  const [customerEmail, setCustomerEmail] = useState(invoice?.customer_email || '')
+  const [customerAddress, setCustomerAddress] = useState(invoice?.customer_address || '')
+  const [reference, setReference] = useState(invoice?.reference || '')
+  const [issueDate, setIssueDate] = useState(invoice?.issue_date || today)
+  const [dueDate, setDueDate] = useState(invoice?.due_date || '')
+  const [currency, setCurrency] = useState(invoice?.currency || defaultCurrency)
+  const [notes, setNotes] = useState(invoice?.notes || '')
+  const [lines, setLines] = useState<LineDraft[]>(() =>
+    invoice?.lines?.length
+      ? invoice.lines.map(line => ({
+          key: nextLineKey++,
+          description: line.description,
+          quantity: String(line.quantity),
+          unit_price: String(line.unit_price),
+          vat_code: line.vat_code,
+          vat_rate: line.vat_code === 'standard' || line.vat_code === 'reduced' || line.vat_code === 'reverse_charge'
+            ? String(line.vat_rate)
+            : '',
+        }))
+      : [emptyLine()]
+  )
+
+  const updateLine = (key: number, changes: Partial<LineDraft>) => {
+    setLines(current => current.map(line => (line.key === key ? { ...line, ...changes } : line)))
+  }
+
+  // Same calculation the server stores, so the preview matches the issued invoice
+  const calculated = useMemo(
+    () => lines.map((line, index) => calculateLine({
+      description: line.description,
+      quantity: Number(line.quantity) || 0,
+      unit_price: Number(line.unit_price) || 0,
+      vat_code: line.vat_code,
+      vat_rate: line.vat_rate === '' ? null : Number(line.vat_rate),
+    }, index + 1)),
+    [lines]
+  )
+  const totals = calculateInvoiceTotals(calculated)
+
+  const formatMoney = (amount: number) => {
+    try {
+      return new Intl.NumberFormat('en-GB', { style: 'currency', currency }).format(amount)
+    } catch {
+      return `${amount.toFixed(2)} ${currency}`
+    }
+  }
+
+  const handleSubmit = (issue: boolean) => (e?: React.FormEvent) => {
+    e?.preventDefault()
+    onSave({
+      customer_name: customerName,
+      customer_email: customerEmail,
+      customer_address: customerAddress,
+      reference,
+      issue_date: issueDate,
+      due_date: dueDate || null,
+      currency,
+      notes,
+      lines: lines.map(line => ({
+        description: line.description,
+        quantity: line.quantity,
+        unit_price: line.unit_price,
+        vat_code: line.vat_code,
+        vat_rate: line.vat_rate === '' ? null : line.vat_rate,
+      })),
+    }, issue)
+  }
+
+  return (
+    <form onSubmit={handleSubmit(false)} className="space-y-6">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Field>
+          <Label>Customer name</Label>
+          <Input value={customerName} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCustomerName(e.target.value)} required />
+        </Field>
+        <Field>
+          <Label>Customer email</Label>
+          <Input type="email" value={customerEmail} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCustomerEmail(e.target.value)} />
+        </Field>
+        <Field className="md:col-span-2">
+          <Label>Customer address</Label>
+          <Textarea rows={3} value={customerAddress} onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setCustomerAddress(e.target.value)} />
+        </Field>
+        <Field>
+          <Label>Issue date</Label>
+          <Input type="date" value={issueDate} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setIssueDate(e.target.value)} required />
+        </Field>
+        <Field>
+          <Label>Due date</Label>
+          <Input
+            type="date"
+            value={dueDate}
+            placeholder={issueDate ? addDays(issueDate, paymentTermsDays) : ''}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDueDate(e.target.value)}
+          />
+        </Field>
+        <Field>
+          <Label>Your reference / PO number</Label>
+          <Input value={reference} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setReference(e.target.value)} />
+        </Field>
+        <Field>
+          <Label>Currency</Label>
+          <Input
+            value={currency}
+            maxLength={3}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCurrency(e.target.value.toUpperCase())}
+          />
+        </Field>
+      </div>
+      {!dueDate && (
+        <p className="text-xs text-gray-500 dark:text-gray-400 -mt-4">
+          Without a due date the invoice falls due {paymentTermsDays} days after issue.
+        </p>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="py-2 pr-4 font-medium">Description</th>
+                <th className="py-2 pr-4 font-medium w-24">Qty</th>
+                <th className="py-2 pr-4 font-medium w-32">Unit price</th>
+                <th className="py-2 pr-4 font-medium w-52">VAT</th>
+                <th className="py-2 pr-4 font-medium w-24">Rate %</th>
+                <th className="py-2 pr-4 font-medium text-right w-32">Net</th>
+                <th className="py-2 w-10"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {lines.map((line, index) => (
+                <tr key={line.key} className="align-top">
+                  <td className="py-2 pr-4">
+                    <Input value={line.description} onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateLine(line.key, { description: e.target.value })} required />
+                  </td>
+                  <td className="py-2 pr-4">
+                    <Input type="number" step="any" min="0" value={line.quantity} onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateLine(line.key, { quantity: e.target.value })} />
+                  </td>
+                  <td className="py-2 pr-4">
+                    <Input type="number" step="0.01" value={line.unit_price} onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateLine(line.key, { unit_price: e.target.value })} required />
+                  </td>
+                  <td className="py-2 pr-4">
+                    <Select value={line.vat_code} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updateLine(line.key, { vat_code: e.target.value as VatCode, vat_rate: '' })}>
+                      {SALES_VAT_CODES.map(code => (
+                        <option key={code} value={code}>{VAT_CODES[code].label}</option>
+                      ))}
+                    </Select>
+                  </td>
+                  <td className="py-2 pr-4">
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      max="100"
+                      value={line.vat_rate}
+                      placeholder={String(calculated[index].vat_rate)}
+                      disabled={calculated[index].vat_rate === 0 && line.vat_rate === ''}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateLine(line.key, { vat_rate: e.target.value })}
+                    />
+                  </td>
+                  <td className="py-2 pr-4 text-right text-gray-900 dark:text-white pt-4">{formatMoney(calculated[index].net_amount)}</td>
+                  <td className="py-2 pt-3">
+                    {lines.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => setLines(current => current.filter(other => other.key !== line.key))}
+                        className="text-gray-400 hover:text-red-600"
+                        aria-label="Remove line"
+                      >
+                        <TrashIcon className="h-5 w-5" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <Button plain type="button" onClick={() => setLines(current => [...current, emptyLine()])}>
+          <PlusIcon className="h-5 w-5" />
+          Add line
+        </Button>
+
+        <div className="ml-auto w-64 space-y-1 text-sm">
+          <div className="flex justify-between text-gray-700 dark:text-gray-300">
+            <span>Subtotal</span>
+            <span>{formatMoney(totals.subtotal)}</span>
+          </div>
+          <div className="flex justify-between text-gray-700 dark:text-gray-300">
+            <span>VAT</span>
+            <span>{formatMoney(totals.tax)}</span>
+          </div>
+          <div className="flex justify-between font-semibold text-gray-900 dark:text-white border-t border-gray-200 dark:border-gray-700 pt-1">
+            <span>Total</span>
+            <span>{formatMoney(totals.total)}</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+        <Field>
+          <Label>Notes for the customer</Label>
+          <Textarea rows={3} value={notes} onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setNotes(e.target.value)} />
+        </Field>
+      </div>
+
+      <div className="flex gap-2">
+        <Button plain type="submit" disabled={saving}>
+          {saving ? 'Saving...' : 'Save draft'}
+        </Button>
+        <Button type="button" onClick={() => handleSubmit(true)()} disabled={saving || totals.total <= 0}>
+          Save and issue
+        </Button>
+      </div>
+    </form>
+  )
+}
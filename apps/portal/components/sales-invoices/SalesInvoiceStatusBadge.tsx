@@ -0,0 +1,18 @@
+'use client'
+
+import { Badge } from '@/components/catalyst'
+import { SALES_INVOICE_STATUS_LABELS, type SalesInvoiceDisplayStatus } from '@/lib/sales-invoices/invoices'
+
+const STATUS_COLORS: Record<SalesInvoiceDisplayStatus, 'zinc' | 'blue' | 'sky' | 'red' | 'amber' | 'green'> = {
+  draft: 'zinc',
+  issued: 'blue',
+  sent: 'sky',
+  overdue: 'red',
+  partially_paid: 'amber',
+  paid: 'green',
+  void: 'zinc',
+}
+
+export function SalesInvoiceStatusBadge({ status }: { status: SalesInvoiceDisplayStatus }) {
+  return <Badge color={STATUS_COLORS[status]}>{SALES_INVOICE_STATUS_LABELS[status]}</Badge>
+}
@@ -8,6 +8,7 @@ interface TaxSettingsFormProps {
     vatNumber: string
     vatScheme: 'standard' | 'flat_rate' | 'cash_accounting'
     flatRatePercentage: string
+    vatQuarterEndMonth: string
     financialYearEnd: string
     accountingBasis: 'cash' | 'accrual'
   }
@@ -90,6 +91,26 @@ export function TaxSettingsForm({ data, onChange }: TaxSettingsFormProps) {
                 </RadioGroup>
               </Field>
 
+              {/* VAT Quarters (stagger) */}
+              <Field>
+                <Label>VAT Quarters End In</Label>
+                <Select
+                  name="vatQuarterEndMonth"
+                  value={data.vatQuarterEndMonth}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                    onChange({ vatQuarterEndMonth: e.target.value })
+                  }
+                  className="mt-2"
+                >
+                  <option value="3">March, June, September, December</option>
+                  <option value="1">January, April, July, October</option>
+                  <option value="2">February, May, August, November</option>
+                </Select>
+                <Text className="mt-1 text-sm">
+                  Shown on your VAT registration certificate; used for return deadlines
+                </Text>
+              </Field>
+
               {/* Flat Rate Percentage (only if flat rate selected) */}
               {data.vatScheme === 'flat_rate' && (
                 <Field>
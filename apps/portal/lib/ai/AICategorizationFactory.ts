@@ -1,24 +1,141 @@
 import type { AICategorizationService } from "./AICategorizationService";
 import { VercelAICategorizationService, type AIInstructions } from "./VercelAICategorizationService";
-// Future: import { AbacusAICategorizationService } from "./AbacusAICategorizationService";
+import { OpenAICompatibleCategorizationService, type OpenAICompatibleConfig } from "./OpenAICompatibleCategorizationService";
+import { NearestNeighborCategorizationService, type TrainingExample } from "./NearestNeighborCategorizationService";
+import { FallbackCategorizationService } from "./FallbackCategorizationService";
+import { loadAICategorizationConfig } from "./provider-config";
 
-export type AIProvider = "vercel_ai_gateway" | "abacus_ai";
+export type AIProvider = "vercel_ai_gateway" | "openai_compatible" | "nearest_neighbor" | "abacus_ai";
+
+/**
+ * Everything a provider may need to build a service
+ */
+export interface AIProviderContext {
+  userMappings?: Array<{ pattern: string; category: string; subcategory?: string }>;
+  aiInstructions?: AIInstructions;
+  companyProfileId?: string;
+  openAICompatible?: OpenAICompatibleConfig;
+  trainingExamples?: TrainingExample[];
+}
+
+export type AIProviderBuilder = (context: AIProviderContext) => AICategorizationService;
 
 export class AICategorizationFactory {
+  private static registry = new Map<string, AIProviderBuilder>([
+    [
+      "vercel_ai_gateway",
+      (context) => new VercelAICategorizationService(context.userMappings, context.aiInstructions, context.companyProfileId),
+    ],
+    [
+      "openai_compatible",
+      (context) => {
+        if (!context.openAICompatible) {
+          throw new Error("OpenAI-compatible provider is not configured");
+        }
+        return new OpenAICompatibleCategorizationService(
+          context.openAICompatible,
+          context.userMappings,
+          context.aiInstructions,
+          context.companyProfileId
+        );
+      },
+    ],
+    [
+      "nearest_neighbor",
+      (context) => new NearestNeighborCategorizationService(context.trainingExamples || []),
+    ],
+  ]);
+
+  /**
+   * Register (or replace) a provider
+   */
+  static register(provider: string, builder: AIProviderBuilder): void {
+    this.registry.set(provider, builder);
+  }
+
+  static isRegistered(provider: string): boolean {
+    return this.registry.has(provider);
+  }
+
+  static getRegisteredProviders(): string[] {
+    return Array.from(this.registry.keys());
+  }
+
   static create(
-    provider: AIProvider,
+    provider: AIProvider | string,
     userMappings?: Array<{ pattern: string; category: string; subcategory?: string }>,
     aiInstructions?: AIInstructions,
-    companyProfileId?: string
+    companyProfileId?: string,
+    options: Pick<AIProviderContext, "openAICompatible" | "trainingExamples"> = {}
   ): AICategorizationService {
-    switch (provider) {
-      case "vercel_ai_gateway":
-        return new VercelAICategorizationService(userMappings, aiInstructions, companyProfileId);
-      // case "abacus_ai":
-      //   return new AbacusAICategorizationService(userMappings, aiInstructions, companyProfileId);
-      default:
-        throw new Error(`Unsupported AI provider: ${provider}`);
+    const builder = this.registry.get(provider);
+    if (!builder) {
+      throw new Error(`Unsupported AI provider: ${provider}`);
     }
+    return builder({ userMappings, aiInstructions, companyProfileId, ...options });
+  }
+
+  /**
+   * Build a service that tries each provider in order.
+   * Providers that cannot be built (unknown or unconfigured) are skipped.
+   */
+  static createChain(
+    providers: string[],
+    context: AIProviderContext,
+    minConfidence?: number
+  ): AICategorizationService {
+    const services: AICategorizationService[] = [];
+    for (const provider of providers) {
+      try {
+        services.push(
+          this.create(provider, context.userMappings, context.aiInstructions, context.companyProfileId, context)
+        );
+      } catch (error) {
+        console.warn(`Skipping categorization provider ${provider}:`, error);
+      }
+    }
+
+    if (services.length === 0) {
+      return this.create(this.getDefaultProvider(), context.userMappings, context.aiInstructions, context.companyProfileId, context);
+    }
+    return services.length === 1 ? services[0] : new FallbackCategorizationService(services, minConfidence);
+  }
+
+  /**
+   * Build the categorization service for a user, honouring their tenant's provider chain
+   */
+  static async createForUser(
+    supabase: any,
+    userId: string,
+    userMappings?: Array<{ pattern: string; category: string; subcategory?: string }>,
+    aiInstructions?: AIInstructions,
+    companyProfileId?: string
+  ): Promise<AICategorizationService> {
+    const { data: userData } = await supabase
+      .from("users")
+      .select("tenant_id")
+      .eq("id", userId)
+      .single();
+    const tenantId = userData?.tenant_id || null;
+
+    const config = await loadAICategorizationConfig(supabase, tenantId);
+    const chain = config.fallbackChain.length > 0 ? config.fallbackChain : [this.getDefaultProvider()];
+
+    const trainingExamples = chain.includes("nearest_neighbor")
+      ? await NearestNeighborCategorizationService.loadTrainingExamples(supabase, tenantId, companyProfileId)
+      : undefined;
+
+    return this.createChain(
+      chain,
+      {
+        userMappings,
+        aiInstructions,
+        companyProfileId,
+        openAICompatible: config.openAICompatible,
+        trainingExamples,
+      },
+      config.minConfidence
+    );
   }
 
   /**
@@ -0,0 +1,66 @@
+import type { AICategorizationService, Transaction, CategoryResult } from "./AICategorizationService";
+
+/** Results below this confidence (or Uncategorized) are passed to the next provider */
+const DEFAULT_MIN_CONFIDENCE = 0.5;
+
+function isResolved(result: CategoryResult | undefined, minConfidence: number): boolean {
+  return !!result && result.category !== "Uncategorized" && result.confidenceScore >= minConfidence;
+}
+
+/**
+ * Runs providers in order. Each provider only sees the transactions earlier providers could not
+ * categorize confidently; a provider that throws is skipped. Where nothing resolves a transaction,
+ * the most confident answer seen is kept.
+ */
+export class FallbackCategorizationService implements AICategorizationService {
+  private providers: AICategorizationService[];
+  private minConfidence: number;
+
+  constructor(providers: AICategorizationService[], minConfidence: number = DEFAULT_MIN_CONFIDENCE) {
+    if (providers.length === 0) {
+      throw new Error("Fallback chain needs at least one provider");
+    }
+    this.providers = providers;
+    this.minConfidence = minConfidence;
+  }
+
+  async categorizeTransaction(transaction: Transaction): Promise<CategoryResult> {
+    const results = await this.categorizeBatch([transaction]);
+    return results[0];
+  }
+
+  async categorizeBatch(transactions: Transaction[]): Promise<CategoryResult[]> {
+    const results: Array<CategoryResult | undefined> = new Array(transactions.length).fill(undefined);
+    let pending = transactions.map((_, index) => index);
+
+    for (const provider of this.providers) {
+      if (pending.length === 0) break;
+
+      let providerResults: CategoryResult[];
+      try {
+        providerResults = await provider.categorizeBatch(pending.map((index) => transactions[index]));
+      } catch (error) {
+        console.warn(`Categorization provider ${provider.getProviderName()} failed, trying next:`, error);
+        continue;
+      }
+
+      pending.forEach((index, position) => {
+        const result = providerResults[position];
+        if (result && (!results[index] || result.confidenceScore > results[index]!.confidenceScore)) {
+          results[index] = result;
+        }
+      });
+      pending = pending.filter((index) => !isResolved(results[index], this.minConfidence));
+    }
+
+    return results.map((result) => result || { category: "Uncategorized", confidenceScore: 0.3 });
+  }
+
+  getConfidenceScore(result: CategoryResult): number {
+    return result.confidenceScore;
+  }
+
+  getProviderName(): string {
+    return `fallback(${this.providers.map((provider) => provider.getProviderName()).join(",")})`;
+  }
+}
@@ -0,0 +1,190 @@
+import type { AICategorizationService, Transaction, CategoryResult } from "./AICategorizationService";
+
+/** A confirmed transaction the provider learns from */
+export interface TrainingExample {
+  description: string;
+  category: string;
+  subcategory?: string | null;
+  is_debit?: boolean | null;
+}
+
+export interface NearestNeighborOptions {
+  /** Neighbours that vote on each transaction */
+  k?: number;
+  /** Cosine similarity below which a neighbour is ignored */
+  minSimilarity?: number;
+}
+
+/** Dimensions of the hashed feature vector */
+const EMBEDDING_DIMENSIONS = 1024;
+const DEFAULT_K = 5;
+const DEFAULT_MIN_SIMILARITY = 0.35;
+
+/** Confirmed transactions loaded for training */
+const MAX_TRAINING_EXAMPLES = 5000;
+
+type Embedding = Map<number, number>;
+
+/** FNV-1a, so embeddings are identical across runs and machines */
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % EMBEDDING_DIMENSIONS;
+}
+
+/**
+ * Deterministic sparse embedding: hashed word unigrams/bigrams plus character trigrams, L2-normalized.
+ * Digits are dropped so store numbers and references don't split merchants.
+ */
+export function embedDescription(description: string): Embedding {
+  const text = (description || "").toLowerCase().replace(/[^a-z\s]/g, " ").replace(/\s+/g, " ").trim();
+  const words = text.split(" ").filter((word) => word.length > 1);
+  const vector: Embedding = new Map();
+
+  const add = (feature: string, weight: number) => {
+    const index = hashFeature(feature);
+    vector.set(index, (vector.get(index) || 0) + weight);
+  };
+
+  for (let i = 0; i < words.length; i++) {
+    add(`w:${words[i]}`, 2);
+    if (i + 1 < words.length) add(`b:${words[i]} ${words[i + 1]}`, 1.5);
+  }
+  const padded = ` ${words.join(" ")} `;
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    add(`c:${padded.slice(i, i + 3)}`, 0.5);
+  }
+
+  let norm = 0;
+  for (const value of vector.values()) norm += value * value;
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (const [index, value] of vector) vector.set(index, value / norm);
+  }
+  return vector;
+}
+
+function cosineSimilarity(a: Embedding, b: Embedding): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  for (const [index, value] of small) {
+    const other = large.get(index);
+    if (other !== undefined) dot += value * other;
+  }
+  return dot;
+}
+
+/**
+ * Offline categorization by nearest neighbours over the tenant's own confirmed transactions.
+ * Needs no network access; transactions without a close enough neighbour come back Uncategorized
+ * with zero confidence so a fallback chain can pass them on.
+ */
+export class NearestNeighborCategorizationService implements AICategorizationService {
+  private examples: Array<TrainingExample & { embedding: Embedding }>;
+  private k: number;
+  private minSimilarity: number;
+
+  constructor(examples: TrainingExample[], options: NearestNeighborOptions = {}) {
+    this.examples = examples
+      .filter((example) => example.description && example.category && example.category !== "Uncategorized")
+      .map((example) => ({ ...example, embedding: embedDescription(example.description) }));
+    this.k = options.k ?? DEFAULT_K;
+    this.minSimilarity = options.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+  }
+
+  /**
+   * Load training examples: confirmed transactions from the company's books, or the tenant's
+   * when no company is given
+   */
+  static async loadTrainingExamples(
+    supabase: any,
+    tenantId?: string | null,
+    companyProfileId?: string | null
+  ): Promise<TrainingExample[]> {
+    if (!companyProfileId && !tenantId) return [];
+
+    let query = supabase
+      .from("categorized_transactions")
+      .select("original_description, category, subcategory, is_debit")
+      .eq("user_confirmed", true)
+      .not("category", "is", null)
+      .order("created_at", { ascending: false })
+      .limit(MAX_TRAINING_EXAMPLES);
+
+    query = companyProfileId
+      ? query.eq("company_profile_id", companyProfileId)
+      : query.eq("tenant_id", tenantId);
+
+    const { data, error } = await query;
+    if (error) {
+      console.warn("Failed to load nearest-neighbour training examples:", error);
+      return [];
+    }
+
+    return (data || []).map((row: any) => ({
+      description: row.original_description,
+      category: row.category,
+      subcategory: row.subcategory,
+      is_debit: row.is_debit,
+    }));
+  }
+
+  async categorizeTransaction(transaction: Transaction): Promise<CategoryResult> {
+    const results = await this.categorizeBatch([transaction]);
+    return results[0];
+  }
+
+  async categorizeBatch(transactions: Transaction[]): Promise<CategoryResult[]> {
+    return transactions.map((transaction) => this.classify(transaction));
+  }
+
+  getConfidenceScore(result: CategoryResult): number {
+    return result.confidenceScore;
+  }
+
+  getProviderName(): string {
+    return "nearest_neighbor";
+  }
+
+  private classify(transaction: Transaction): CategoryResult {
+    const embedding = embedDescription(transaction.original_description);
+    const isDebit = (transaction as any).is_debit;
+
+    const neighbours = this.examples
+      // Money in and money out rarely share a category
+      .filter((example) => isDebit === undefined || example.is_debit == null || example.is_debit === isDebit)
+      .map((example) => ({ example, similarity: cosineSimilarity(embedding, example.embedding) }))
+      .filter((neighbour) => neighbour.similarity >= this.minSimilarity)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, this.k);
+
+    if (neighbours.length === 0) {
+      return { category: "Uncategorized", confidenceScore: 0 };
+    }
+
+    // Similarity-weighted vote over category/subcategory pairs
+    const votes = new Map<string, { category: string; subcategory?: string | null; weight: number }>();
+    let totalWeight = 0;
+    for (const { example, similarity } of neighbours) {
+      const key = `${example.category}\u0000${example.subcategory || ""}`;
+      const vote = votes.get(key) || { category: example.category, subcategory: example.subcategory, weight: 0 };
+      vote.weight += similarity;
+      votes.set(key, vote);
+      totalWeight += similarity;
+    }
+
+    const winner = [...votes.values()].sort((a, b) => b.weight - a.weight)[0];
+    const agreement = winner.weight / totalWeight;
+    const closeness = neighbours[0].similarity;
+
+    return {
+      category: winner.category,
+      subcategory: winner.subcategory || undefined,
+      confidenceScore: Math.round(agreement * closeness * 100) / 100,
+      reasoning: `Matched ${neighbours.length} similar confirmed transaction${neighbours.length === 1 ? "" : "s"}`,
+    };
+  }
+}
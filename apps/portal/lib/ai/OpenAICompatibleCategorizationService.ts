@@ -0,0 +1,132 @@
+import type { AICategorizationService, Transaction, CategoryResult } from "./AICategorizationService";
+import type { AIInstructions } from "./VercelAICategorizationService";
+import { buildCategorizationPrompt } from "./categorization-prompt";
+
+export interface OpenAICompatibleConfig {
+  /** Base URL of the API, e.g. http://localhost:11434/v1 for Ollama */
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  /** Request timeout in milliseconds */
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 60000;
+
+/**
+ * Categorization via any OpenAI-compatible chat completions endpoint
+ * (self-hosted models behind Ollama, vLLM, LM Studio, llama.cpp server, etc.)
+ *
+ * Unlike the gateway provider, failures are thrown so a fallback chain can move on.
+ */
+export class OpenAICompatibleCategorizationService implements AICategorizationService {
+  private config: OpenAICompatibleConfig;
+  private userMappings?: Array<{ pattern: string; category: string; subcategory?: string }>;
+  private aiInstructions?: AIInstructions;
+  private companyProfileId?: string;
+
+  constructor(
+    config: OpenAICompatibleConfig,
+    userMappings?: Array<{ pattern: string; category: string; subcategory?: string }>,
+    aiInstructions?: AIInstructions,
+    companyProfileId?: string
+  ) {
+    if (!config.baseUrl || !config.model) {
+      throw new Error("OpenAI-compatible provider requires a base URL and model");
+    }
+    this.config = config;
+    this.userMappings = userMappings;
+    this.aiInstructions = aiInstructions;
+    this.companyProfileId = companyProfileId;
+  }
+
+  async categorizeTransaction(transaction: Transaction): Promise<CategoryResult> {
+    const results = await this.categorizeBatch([transaction]);
+    return results[0];
+  }
+
+  async categorizeBatch(transactions: Transaction[]): Promise<CategoryResult[]> {
+    const prompt = buildCategorizationPrompt(transactions, {
+      userMappings: this.userMappings,
+      aiInstructions: this.aiInstructions,
+      companyProfileId: this.companyProfileId,
+    });
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.config.timeoutMs || DEFAULT_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(`${this.config.baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: this.config.model,
+          temperature: 0.3,
+          response_format: { type: "json_object" },
+          messages: [
+            {
+              role: "system",
+              content: 'Respond only with JSON of the form {"categorizations": [{"category": string, "subcategory": string | null, "confidenceScore": number, "reasoning": string}]}, one entry per transaction in order.',
+            },
+            { role: "user", content: prompt },
+          ],
+        }),
+        signal: controller.signal,
+        // Tenant endpoints are checked before use; a redirect could lead anywhere
+        redirect: "error",
+      });
+
+      if (!response.ok) {
+        throw new Error(`OpenAI-compatible endpoint returned ${response.status}`);
+      }
+
+      const data = await response.json();
+      const content = data?.choices?.[0]?.message?.content;
+      if (typeof content !== "string") {
+        throw new Error("OpenAI-compatible endpoint returned no content");
+      }
+
+      const categorizations = parseCategorizations(content);
+
+      return transactions.map((_, index) => {
+        const cat = categorizations[index];
+        if (!cat) {
+          return { category: "Uncategorized", confidenceScore: 0.3 };
+        }
+        const confidence = Number(cat.confidenceScore);
+        return {
+          category: cat.category || "Uncategorized",
+          subcategory: cat.subcategory || undefined,
+          confidenceScore: isNaN(confidence) ? 0.5 : Math.min(Math.max(confidence, 0), 1),
+          reasoning: cat.reasoning,
+        };
+      });
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  getConfidenceScore(result: CategoryResult): number {
+    return result.confidenceScore;
+  }
+
+  getProviderName(): string {
+    return "openai_compatible";
+  }
+}
+
+/**
+ * Extract the categorizations array, tolerating models that wrap JSON in prose or code fences
+ */
+function parseCategorizations(content: string): any[] {
+  const start = content.indexOf("{");
+  const end = content.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    throw new Error("OpenAI-compatible endpoint returned non-JSON content");
+  }
+  const parsed = JSON.parse(content.slice(start, end + 1));
+  return Array.isArray(parsed?.categorizations) ? parsed.categorizations : [];
+}
@@ -0,0 +1,159 @@
+import type { Transaction } from "./AICategorizationService";
+import type { AIInstructions } from "./VercelAICategorizationService";
+
+export interface CategorizationPromptContext {
+  userMappings?: Array<{ pattern: string; category: string; subcategory?: string }>;
+  aiInstructions?: AIInstructions;
+  companyProfileId?: string;
+}
+
+/**
+ * Build the categorization prompt shared by LLM-backed providers
+ */
+export function buildCategorizationPrompt(
+  transactions: Transaction[],
+  context: CategorizationPromptContext
+): string {
+  const commonCategories = [
+    "Food & Dining",
+    "Transportation",
+    "Shopping",
+    "Utilities",
+    "Office Supplies",
+    "Software & Subscriptions",
+    "Professional Services",
+    "Travel",
+    "Entertainment",
+    "Healthcare",
+    "Education",
+    "Business Services",
+    "Financial Services",
+    "Cost of Goods Sold",
+    "Operating Expenses",
+    "Uncategorized",
+  ];
+
+  // Start with system prompt (custom or default)
+  let prompt = context.aiInstructions?.systemPrompt || 
+    `You are a financial categorization assistant. Categorize the following transactions into appropriate categories for financial statement generation and accounting purposes.
+
+Common categories: ${commonCategories.join(", ")}
+
+`;
+
+  // Add category rules if available
+  if (context.aiInstructions?.categoryRules) {
+    prompt += `\nCategory Rules:\n${context.aiInstructions.categoryRules}\n`;
+  }
+
+  // Add exception rules if available
+  if (context.aiInstructions?.exceptionRules) {
+    prompt += `\nException Rules:\n${context.aiInstructions.exceptionRules}\n`;
+  }
+
+  // Add format preferences if available
+  if (context.aiInstructions?.formatPreferences) {
+    prompt += `\nFormat Preferences:\n${context.aiInstructions.formatPreferences}\n`;
+  }
+
+  // Add user mappings if available
+  if (context.userMappings && context.userMappings.length > 0) {
+    prompt += `\nUser-specific category mappings:\n`;
+    for (const mapping of context.userMappings) {
+      prompt += `- "${mapping.pattern}" → ${mapping.category}`;
+      if (mapping.subcategory) {
+        prompt += ` / ${mapping.subcategory}`;
+      }
+      prompt += `\n`;
+    }
+    prompt += `\n`;
+  }
+
+  // Add financial statement context if company profile is set
+  if (context.companyProfileId) {
+    prompt += `\nNote: These transactions are for financial statement generation and may be exported to XERO or filed with HMRC. Ensure proper categorization for tax and accounting compliance.\n\n`;
+  }
+
+  // Detect if transactions are from invoices
+  const hasInvoiceIndicators = transactions.some(tx => 
+    tx.original_description?.includes("Invoice #") || 
+    tx.original_description?.includes(" - ") ||
+    tx.original_description?.match(/\b(amazon|screwfix|office|supplies|equipment|printer|software|lodgify|british gas|electricity|gas|subscription)\b/i)
+  );
+  
+  if (hasInvoiceIndicators) {
+    prompt += `\nINVOICE TRANSACTION GUIDANCE:
+These transactions appear to be from invoices. Pay special attention to:
+- Vendor names and what type of business they are
+- Product descriptions in transaction descriptions
+- Invoice numbers help identify the source document
+
+VENDOR CATEGORY MAPPINGS:
+- SaaS/Subscription Services:
+  * Lodgify, Stripe, AWS, Google Cloud, Microsoft 365, Adobe, Dropbox, Slack, Zoom → Software & Subscriptions
+  * Monthly/yearly recurring charges are typically subscriptions
+- Utilities:
+  * British Gas, EDF, Scottish Power, Octopus Energy, SSE, E.ON → Utilities / Electricity or Gas
+  * Water companies → Utilities / Water
+  * BT, Virgin, Vodafone (business lines) → Utilities / Telecommunications
+- Construction & Trade:
+  * M&M Windows, glaziers, plumbers, electricians, builders → Professional Services / Construction
+  * Building materials suppliers → Office Supplies / Building Materials
+- Office & Equipment:
+  * Amazon (office items), Screwfix, Toolstation → Office Supplies
+  * Computer equipment, printers → Office Supplies / Equipment
+- Hospitality Specific:
+  * Linen suppliers, cleaning supplies → Operating Expenses / Housekeeping
+  * Food suppliers, wholesalers → Cost of Goods Sold / Food & Beverage
+
+CATEGORIZATION EXAMPLES:
+- "Lodgify - Starter Subscription - Invoice #LD-2024-1000105683" → Software & Subscriptions / SaaS
+- "Lodgify - Booking Fee - Invoice #LD-2024-1000122647" → Software & Subscriptions / Payment Processing
+- "British Gas - Electricity Bill - Invoice #827262908" → Utilities / Electricity
+- "M&M Windows (SW) Ltd - UPVC Door Installation - Invoice #SI-750" → Professional Services / Construction
+- "Amazon EU S.à r.l. - HP OfficeJet Pro printer - Invoice #203-7525121" → Office Supplies / Equipment
+- "Screwfix - Vapour Barrier Membrane - Invoice #LD-2024-1000105683" → Office Supplies / Building Materials
+
+\n`;
+  }
+
+  prompt += `Transactions to categorize:\n\n`;
+  transactions.forEach((tx, index) => {
+    const txAny = tx as any;
+    let txLine = `${index + 1}. ${tx.original_description} - $${tx.amount.toFixed(2)} (${tx.date})`;
+    
+    // Add transaction type if available
+    if (txAny.transaction_type) {
+      txLine += ` [Type: ${txAny.transaction_type}]`;
+    }
+    
+    // Add debit/credit indicator
+    if (txAny.is_debit !== undefined) {
+      txLine += ` [${txAny.is_debit ? 'Debit' : 'Credit'}]`;
+    }
+    
+    // Add reference number if available
+    if (txAny.reference_number) {
+      txLine += ` [Ref: ${txAny.reference_number}]`;
+    }
+    
+    // Add invoice number if present in description (extract it)
+    const invoiceMatch = tx.original_description?.match(/Invoice\s*#([A-Z0-9\-]+)/i);
+    if (invoiceMatch) {
+      txLine += ` [Invoice: ${invoiceMatch[1]}]`;
+    }
+    
+    txLine += `\n`;
+    prompt += txLine;
+  });
+
+  prompt += `\nFor each transaction, provide:
+- category: The most appropriate category from the list above
+- subcategory: Optional, more specific classification (use null if no subcategory applies, especially for "Uncategorized")
+- confidenceScore: Your confidence (0.0 to 1.0) that this category is correct
+- reasoning: Brief explanation of your categorization decision
+
+Consider the transaction description (especially vendor names and product descriptions), amount, transaction type (debit/credit/interest/fee), and any patterns. For invoice transactions, pay special attention to product descriptions and vendor names. Use user mappings when applicable.`;
+
+  return prompt;
+}
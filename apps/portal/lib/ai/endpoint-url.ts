@@ -0,0 +1,58 @@
+/**
+ * Tenant OpenAI-compatible endpoint URLs
+ *
+ * A tenant's base_url is called from the server, so in production its host has to resolve to
+ * public addresses only - never localhost, the private network or a cloud metadata service.
+ * The check runs when the settings are saved and again before each use, since DNS can change.
+ */
+
+import { lookup } from "dns/promises";
+import { isPrivateWebhookHost } from "@tinadmin/core/webhooks";
+
+/**
+ * Whether tenant endpoints may point at localhost and private networks. Allowed outside production
+ * so a local model server can be used; AI_CATEGORIZATION_ALLOW_PRIVATE_URLS=true allows it anywhere.
+ */
+export function privateAIEndpointsAllowed(): boolean {
+  return process.env.NODE_ENV !== "production" || process.env.AI_CATEGORIZATION_ALLOW_PRIVATE_URLS === "true";
+}
+
+/**
+ * Why a tenant base_url can't be used, or null when it can
+ */
+export async function getAIEndpointUrlError(
+  url: string,
+  allowPrivate: boolean = privateAIEndpointsAllowed()
+): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "base_url must be an http(s) URL";
+  }
+
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return "base_url must be an http(s) URL";
+  }
+  if (parsed.username || parsed.password) {
+    return "base_url must not contain credentials";
+  }
+  if (allowPrivate) return null;
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, "");
+  if (isPrivateWebhookHost(hostname)) {
+    return "base_url must not point at a local or private address";
+  }
+
+  let addresses: Array<{ address: string }>;
+  try {
+    addresses = await lookup(hostname, { all: true, verbatim: true });
+  } catch {
+    return "base_url host could not be resolved";
+  }
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateWebhookHost(address))) {
+    return "base_url must not point at a local or private address";
+  }
+
+  return null;
+}
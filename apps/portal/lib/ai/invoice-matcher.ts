@@ -81,6 +81,22 @@ function levenshteinDistance(str1: string, str2: string): number {
   return matrix[str2.length][str1.length];
 }
 
+/**
+ * Vendor similarity between a bank description and a vendor name (0-1).
+ * A vendor name contained in the description is a full match.
+ */
+export function calculateVendorMatch(description: string | null | undefined, vendorName: string | null | undefined): number {
+  if (!vendorName || !description) return 0;
+  
+  const desc = description.toLowerCase();
+  const vendor = vendorName.toLowerCase();
+  
+  // Check if vendor name appears in description
+  if (desc.includes(vendor)) return 1.0;
+  
+  return calculateStringSimilarity(desc, vendor);
+}
+
 /**
  * Calculate match score between invoice and transaction
  */
@@ -128,26 +144,13 @@ function calculateMatchScore(
   
   // Vendor name similarity (20% weight)
   let vendorScore = 0;
-  let vendorMatch = 0;
-  if (invoice.vendor_name && transaction.original_description) {
-    const description = transaction.original_description.toLowerCase();
-    const vendor = invoice.vendor_name.toLowerCase();
-    
-    // Check if vendor name appears in description
-    if (description.includes(vendor)) {
-      vendorScore = 20.0;
-      vendorMatch = 1.0;
-    } else {
-      // Calculate similarity
-      vendorMatch = calculateStringSimilarity(description, vendor);
-      if (vendorMatch >= 0.8) {
-        vendorScore = 20.0;
-      } else if (vendorMatch >= 0.6) {
-        vendorScore = 15.0;
-      } else if (vendorMatch >= 0.4) {
-        vendorScore = 10.0;
-      }
-    }
+  const vendorMatch = calculateVendorMatch(transaction.original_description, invoice.vendor_name);
+  if (vendorMatch >= 0.8) {
+    vendorScore = 20.0;
+  } else if (vendorMatch >= 0.6) {
+    vendorScore = 15.0;
+  } else if (vendorMatch >= 0.4) {
+    vendorScore = 10.0;
   }
   
   // Bank account context (10% weight)
@@ -0,0 +1,99 @@
+/**
+ * Per-tenant AI categorization provider configuration
+ *
+ * Stored in tenant_integration_settings under provider 'ai_categorization':
+ *   settings: { fallback_chain: [...], min_confidence, openai_compatible: { base_url, model, timeout_ms } }
+ * The OpenAI-compatible API key is only kept in the vault; the table's other secret columns belong to other
+ * integrations. The tenant's base_url must pass the endpoint URL check (see endpoint-url.ts).
+ * Environment variables provide platform-wide defaults.
+ */
+
+import { getSecret } from "@/lib/vault";
+import { getAIEndpointUrlError } from "./endpoint-url";
+import type { OpenAICompatibleConfig } from "./OpenAICompatibleCategorizationService";
+
+export const AI_CATEGORIZATION_SETTINGS_PROVIDER = "ai_categorization";
+
+export interface AICategorizationConfig {
+  /** Providers tried in order; empty means the platform default */
+  fallbackChain: string[];
+  minConfidence?: number;
+  openAICompatible?: OpenAICompatibleConfig;
+}
+
+function parseChain(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map((provider) => String(provider).trim()).filter(Boolean);
+  }
+  if (typeof value === "string") {
+    return value.split(",").map((provider) => provider.trim()).filter(Boolean);
+  }
+  return [];
+}
+
+/**
+ * Platform-wide configuration from environment variables
+ */
+export function getEnvAICategorizationConfig(): AICategorizationConfig {
+  const baseUrl = process.env.OPENAI_COMPATIBLE_BASE_URL;
+  const model = process.env.OPENAI_COMPATIBLE_MODEL;
+
+  return {
+    fallbackChain: parseChain(process.env.AI_CATEGORIZATION_FALLBACK_CHAIN),
+    openAICompatible: baseUrl && model
+      ? { baseUrl, model, apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || undefined }
+      : undefined,
+  };
+}
+
+/**
+ * Load a tenant's configuration, layered over the environment defaults
+ */
+export async function loadAICategorizationConfig(
+  supabase: any,
+  tenantId: string | null | undefined
+): Promise<AICategorizationConfig> {
+  const config = getEnvAICategorizationConfig();
+  if (!tenantId) return config;
+
+  const { data: row, error } = await supabase
+    .from("tenant_integration_settings")
+    .select("settings, is_enabled, api_key_vault_id")
+    .eq("tenant_id", tenantId)
+    .eq("provider", AI_CATEGORIZATION_SETTINGS_PROVIDER)
+    .maybeSingle();
+
+  if (error) {
+    console.warn("Failed to load AI categorization settings:", error);
+    return config;
+  }
+  if (!row || row.is_enabled === false) return config;
+
+  const settings = row.settings || {};
+  const chain = parseChain(settings.fallback_chain);
+  if (chain.length > 0) config.fallbackChain = chain;
+
+  const minConfidence = Number(settings.min_confidence);
+  if (!isNaN(minConfidence) && minConfidence > 0 && minConfidence <= 1) {
+    config.minConfidence = minConfidence;
+  }
+
+  const endpoint = settings.openai_compatible;
+  const urlError = endpoint?.base_url ? await getAIEndpointUrlError(endpoint.base_url) : null;
+  if (urlError) {
+    console.warn(`Ignoring tenant ${tenantId} OpenAI-compatible endpoint: ${urlError}`);
+  } else if (endpoint?.base_url && endpoint?.model) {
+    const apiKey = row.api_key_vault_id
+      ? await getSecret(supabase, tenantId, AI_CATEGORIZATION_SETTINGS_PROVIDER, "api_key")
+      : null;
+
+    config.openAICompatible = {
+      baseUrl: endpoint.base_url,
+      model: endpoint.model,
+      apiKey: apiKey || undefined,
+      timeoutMs: endpoint.timeout_ms ? Number(endpoint.timeout_ms) : undefined,
+    };
+  }
+
+  return config;
+}
@@ -0,0 +1,162 @@
+/**
+ * Public API v1 Authentication
+ *
+ * Requests carry a tenant API key as a bearer token. A key acts as the user who created it,
+ * limited to its scopes and to its companies, and stops working if that user loses API access.
+ * It never reaches further than its creator: only companies they can access, and for write
+ * scopes only companies they can edit.
+ */
+
+import { NextResponse } from "next/server";
+import { getBearerApiKey, hashApiKey } from "@tinadmin/core/api-keys/keys";
+import { getApiKeyStatus, hasApiKeyScope, type ApiKeyScope } from "@tinadmin/core/api-keys";
+import { parseApiInput } from "./schemas";
+
+export interface ApiKeyContext {
+  keyId: string;
+  tenantId: string;
+  /** The user who created the key; writes are made and logged as them */
+  userId: string;
+  scopes: ApiKeyScope[];
+  /**
+   * Companies the key reaches: the tenant's companies its creator can access (edit, for a
+   * write scope), narrowed by the key's list
+   */
+  companyProfileIds: string[];
+}
+
+export type ApiAuthResult =
+  | { key: ApiKeyContext }
+  | { error: string; status: number };
+
+/**
+ * Check the request's API key and that it has `scope`.
+ * Uses the admin client: keys are looked up by hash, outside any user session.
+ */
+export async function authenticateApiKey(
+  admin: any,
+  request: Request,
+  scope: ApiKeyScope
+): Promise<ApiAuthResult> {
+  const key = getBearerApiKey(request.headers.get("authorization"));
+  if (!key) {
+    return { error: "Missing API key. Send it as 'Authorization: Bearer <key>'.", status: 401 };
+  }
+
+  const { data: apiKey } = await admin
+    .from("api_keys")
+    .select("id, tenant_id, scopes, company_profile_ids, created_by, expires_at, revoked_at")
+    .eq("key_hash", hashApiKey(key))
+    .maybeSingle();
+
+  if (!apiKey || getApiKeyStatus(apiKey) !== "active") {
+    return { error: "Invalid or expired API key", status: 401 };
+  }
+
+  if (!hasApiKeyScope(apiKey.scopes, scope)) {
+    return { error: `This API key does not have the ${scope} scope`, status: 403 };
+  }
+
+  // The creator's access is checked on every request, so removing it disables their keys
+  if (!apiKey.created_by) {
+    return { error: "The user who created this API key no longer has API access", status: 403 };
+  }
+  const { data: hasAccess, error: accessError } = await admin.rpc("user_has_api_access", {
+    p_user_id: apiKey.created_by,
+    p_tenant_id: apiKey.tenant_id,
+  });
+  if (accessError) {
+    throw accessError;
+  }
+  if (!hasAccess) {
+    return { error: "The user who created this API key no longer has API access", status: 403 };
+  }
+
+  const { data: companies, error: companiesError } = await admin.rpc("user_company_profile_access", {
+    p_user_id: apiKey.created_by,
+    p_tenant_id: apiKey.tenant_id,
+  });
+  if (companiesError) {
+    throw companiesError;
+  }
+
+  const allowed: string[] | null = apiKey.company_profile_ids;
+  const writing = scope.endsWith(":write");
+  const companyProfileIds = ((companies || []) as Array<{ company_profile_id: string; can_edit: boolean }>)
+    .filter((company) => !writing || company.can_edit)
+    .map((company) => company.company_profile_id)
+    .filter((id) => !allowed || allowed.includes(id));
+
+  const { error: touchError } = await admin
+    .from("api_keys")
+    .update({ last_used_at: new Date().toISOString() })
+    .eq("id", apiKey.id);
+  if (touchError) {
+    console.error("Failed to record API key use:", touchError);
+  }
+
+  return {
+    key: {
+      keyId: apiKey.id,
+      tenantId: apiKey.tenant_id,
+      userId: apiKey.created_by,
+      scopes: apiKey.scopes,
+      companyProfileIds,
+    },
+  };
+}
+
+/**
+ * The company a single-company request is for: the one asked for, which must be in the
+ * key's reach, or the key's only company when none is given
+ */
+export function resolveApiCompany(
+  key: ApiKeyContext,
+  requested: string | undefined
+): { companyProfileId: string } | { error: string; status: number } {
+  if (requested) {
+    if (!key.companyProfileIds.includes(requested)) {
+      return { error: "This API key cannot access that company", status: 403 };
+    }
+    return { companyProfileId: requested };
+  }
+
+  if (key.companyProfileIds.length === 1) {
+    return { companyProfileId: key.companyProfileIds[0] };
+  }
+
+  return {
+    error: key.companyProfileIds.length === 0
+      ? "This API key cannot access any company"
+      : "company_profile_id is required: this API key can access more than one company",
+    status: 400,
+  };
+}
+
+/**
+ * The companies a list request covers: the one asked for, or every company the key reaches
+ */
+export function resolveApiCompanies(
+  key: ApiKeyContext,
+  requested: string | undefined
+): { companyProfileIds: string[] } | { error: string; status: number } {
+  if (requested && !key.companyProfileIds.includes(requested)) {
+    return { error: "This API key cannot access that company", status: 403 };
+  }
+
+  return { companyProfileIds: requested ? [requested] : key.companyProfileIds };
+}
+
+/**
+ * Query string of a request as a plain object, for schema validation
+ */
+export function getApiQuery(request: Request): Record<string, string> {
+  return Object.fromEntries(new URL(request.url).searchParams.entries());
+}
+
+/**
+ * JSON error response in the API's error shape
+ */
+export function apiError(error: string | ReturnType<typeof parseApiInput>["error"], status: number) {
+  return NextResponse.json(typeof error === "string" ? { error } : error, { status });
+}
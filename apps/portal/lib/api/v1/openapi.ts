@@ -0,0 +1,134 @@
+/**
+ * OpenAPI document for the public API v1, generated from the operation registry
+ */
+
+import { z } from "zod";
+import { API_KEY_SCOPES } from "@tinadmin/core/api-keys";
+import { API_V1_OPERATIONS, errorSchema, type ApiV1Operation } from "./schemas";
+
+const ERROR_RESPONSES: Record<string, string> = {
+  "400": "The request failed validation",
+  "401": "Missing, invalid, expired or revoked API key",
+  "403": "The key lacks the scope, or the company or record is outside its reach",
+  "404": "Not found",
+};
+
+function toJsonSchema(schema: z.ZodType): Record<string, unknown> {
+  const { $schema: _ignored, ...jsonSchema } = z.toJSONSchema(schema, { io: "input" }) as Record<string, unknown>;
+  return jsonSchema;
+}
+
+/**
+ * Path and query parameters of an operation, from the properties of its schemas
+ */
+function buildParameters(operation: ApiV1Operation) {
+  const parameters: Record<string, unknown>[] = [];
+  const sources: Array<["path" | "query", z.ZodObject | undefined]> = [
+    ["path", operation.params],
+    ["query", operation.query],
+  ];
+
+  for (const [location, schema] of sources) {
+    if (!schema) continue;
+    const jsonSchema = toJsonSchema(schema) as {
+      properties?: Record<string, Record<string, unknown>>;
+      required?: string[];
+    };
+
+    for (const [name, property] of Object.entries(jsonSchema.properties || {})) {
+      const { description, ...propertySchema } = property;
+      parameters.push({
+        name,
+        in: location,
+        required: location === "path" || (jsonSchema.required || []).includes(name),
+        ...(description ? { description } : {}),
+        schema: propertySchema,
+      });
+    }
+  }
+
+  return parameters;
+}
+
+function buildRequestBody(operation: ApiV1Operation) {
+  if (operation.form) {
+    const formSchema = toJsonSchema(operation.form) as { properties: Record<string, Record<string, unknown>> };
+    formSchema.properties.file = { ...formSchema.properties.file, type: "string", format: "binary" };
+    return {
+      required: true,
+      content: { "multipart/form-data": { schema: formSchema } },
+    };
+  }
+
+  if (operation.body) {
+    return {
+      required: true,
+      content: { "application/json": { schema: toJsonSchema(operation.body) } },
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Build the OpenAPI 3.1 document served at /api/v1/openapi.json
+ */
+export function buildOpenApiDocument(serverUrl: string) {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const operation of API_V1_OPERATIONS) {
+    const parameters = buildParameters(operation);
+    const requestBody = buildRequestBody(operation);
+    const errorResponses = Object.fromEntries(
+      Object.entries(ERROR_RESPONSES).map(([status, description]) => [
+        status,
+        {
+          description,
+          content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+        },
+      ])
+    );
+
+    paths[operation.path] = {
+      ...paths[operation.path],
+      [operation.method]: {
+        operationId: operation.operationId,
+        summary: operation.summary,
+        description: `Requires the \`${operation.scope}\` scope.`,
+        security: [{ bearerAuth: [] }],
+        ...(parameters.length > 0 ? { parameters } : {}),
+        ...(requestBody ? { requestBody } : {}),
+        responses: {
+          [String(operation.status || 200)]: {
+            description: "Success",
+            content: { "application/json": { schema: toJsonSchema(operation.response) } },
+          },
+          ...errorResponses,
+        },
+      },
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Books API",
+      version: "1.0.0",
+      description:
+        "Upload bank statements and read and correct your books. Authenticate with an API key " +
+        "from Settings > API Keys, sent as `Authorization: Bearer <key>`. Each key has scopes: " +
+        API_KEY_SCOPES.map((entry) => `\`${entry.scope}\` (${entry.description})`).join(", ") +
+        ".",
+    },
+    servers: [{ url: `${serverUrl}/api/v1` }],
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer" },
+      },
+      schemas: {
+        Error: toJsonSchema(errorSchema),
+      },
+    },
+    paths,
+  };
+}
@@ -0,0 +1,321 @@
+/**
+ * Public API v1 Schemas
+ *
+ * Request and response shapes for every /api/v1 operation. Routes validate requests against
+ * them and /api/v1/openapi.json is generated from API_V1_OPERATIONS, so the document always
+ * describes what the routes accept.
+ */
+
+import { z } from "zod";
+import type { ApiKeyScope } from "@tinadmin/core/api-keys";
+import { VAT_CODE_VALUES } from "@/lib/vat/codes";
+
+export const REVIEW_STATUSES = ["draft", "categorized", "reviewed", "approved", "locked"] as const;
+
+export const API_V1_REPORTS = [
+  "profit_and_loss",
+  "balance_sheet",
+  "trial_balance",
+  "aged_receivables",
+  "aged_payables",
+] as const;
+
+export type ApiV1Report = (typeof API_V1_REPORTS)[number];
+
+const MAX_PAGE_SIZE = 500;
+
+const companyProfileId = z
+  .uuid()
+  .optional()
+  .describe("Company whose books to use. Required when the key reaches more than one company.");
+
+const pagination = {
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+};
+
+export const idParamsSchema = z.object({
+  id: z.uuid(),
+});
+
+export const errorSchema = z.object({
+  error: z.string(),
+  issues: z
+    .array(z.object({ path: z.string(), message: z.string() }))
+    .optional()
+    .describe("Which fields failed validation"),
+});
+
+// ============================================================================
+// STATEMENTS
+// ============================================================================
+
+export const statementUploadSchema = z.object({
+  file: z.string().describe("Bank statement file, up to 10MB: CSV, XLSX or XLS, or OFX, QFX, QIF, CAMT.053 or MT940"),
+  bank_account_id: z.uuid().describe("Bank account the statement is for; sets the company"),
+  force: z
+    .enum(["true", "false"])
+    .optional()
+    .describe("Upload even if the same file has been uploaded before"),
+});
+
+export const statementJobSchema = z.object({
+  id: z.uuid(),
+  company_profile_id: z.uuid().nullable(),
+  bank_account_id: z.uuid().nullable(),
+  status: z.string().describe("queued, processing, reviewing (done, ready for review) or failed"),
+  status_message: z.string().nullable(),
+  error_message: z.string().nullable(),
+  original_filename: z.string().nullable(),
+  total_items: z.number().nullable(),
+  processed_items: z.number().nullable(),
+  created_at: z.string(),
+  completed_at: z.string().nullable(),
+});
+
+// ============================================================================
+// TRANSACTIONS
+// ============================================================================
+
+export const transactionListQuerySchema = z.object({
+  company_profile_id: companyProfileId,
+  from: z.iso.date().optional().describe("Earliest transaction date, inclusive"),
+  to: z.iso.date().optional().describe("Latest transaction date, inclusive"),
+  review_status: z.enum(REVIEW_STATUSES).optional(),
+  bank_account_id: z.uuid().optional(),
+  ...pagination,
+});
+
+export const transactionUpdateSchema = z
+  .object({
+    category: z.string().trim().min(1).nullable().optional(),
+    subcategory: z.string().trim().nullable().optional(),
+    supplier_id: z.uuid().nullable().optional(),
+    user_notes: z.string().nullable().optional(),
+    vat_code: z.enum(VAT_CODE_VALUES).nullable().optional(),
+    vat_rate: z.number().min(0).max(100).nullable().optional(),
+    vat_amount: z.number().nullable().optional(),
+  })
+  .strict()
+  .refine((body) => Object.keys(body).length > 0, { message: "Nothing to update" });
+
+export const transactionSchema = z.object({
+  id: z.uuid(),
+  company_profile_id: z.uuid().nullable(),
+  bank_account_id: z.uuid().nullable(),
+  job_id: z.uuid(),
+  date: z.string(),
+  original_description: z.string(),
+  amount: z.number().describe("Signed amount in the transaction currency; negative for money out"),
+  currency: z.string().nullable(),
+  base_amount: z.number().nullable().describe("Amount in the company's base currency"),
+  category: z.string().nullable(),
+  subcategory: z.string().nullable(),
+  supplier_id: z.uuid().nullable(),
+  vat_code: z.string().nullable(),
+  vat_rate: z.number().nullable(),
+  vat_amount: z.number().nullable(),
+  review_status: z.enum(REVIEW_STATUSES),
+  user_notes: z.string().nullable(),
+  matched_document_id: z.uuid().nullable(),
+  created_at: z.string(),
+  updated_at: z.string().nullable(),
+});
+
+export const TRANSACTION_COLUMNS = Object.keys(transactionSchema.shape).join(", ");
+
+// ============================================================================
+// DOCUMENTS
+// ============================================================================
+
+export const documentListQuerySchema = z.object({
+  company_profile_id: companyProfileId,
+  file_type: z.enum(["bank_statement", "receipt", "invoice", "tax_document", "other"]).optional(),
+  document_kind: z.enum(["bill", "sales_invoice"]).optional().describe("For invoices: bill or sales_invoice"),
+  from: z.iso.date().optional().describe("Earliest document date, inclusive"),
+  to: z.iso.date().optional().describe("Latest document date, inclusive"),
+  ...pagination,
+});
+
+export const documentSchema = z.object({
+  id: z.uuid(),
+  company_profile_id: z.uuid().nullable(),
+  file_type: z.string(),
+  document_kind: z.string().nullable(),
+  original_filename: z.string().nullable(),
+  mime_type: z.string().nullable(),
+  vendor_name: z.string().nullable(),
+  invoice_number: z.string().nullable(),
+  document_date: z.string().nullable(),
+  due_date: z.string().nullable(),
+  currency: z.string().nullable(),
+  total_amount: z.number().nullable(),
+  tax_amount: z.number().nullable(),
+  base_total_amount: z.number().nullable(),
+  ocr_status: z.string().nullable(),
+  created_at: z.string(),
+});
+
+export const DOCUMENT_COLUMNS = Object.keys(documentSchema.shape).join(", ");
+
+export const documentDetailSchema = documentSchema.extend({
+  download_url: z
+    .string()
+    .nullable()
+    .describe("Signed link to the file, valid for an hour; null when the file is archived"),
+});
+
+// ============================================================================
+// REPORTS
+// ============================================================================
+
+export const reportParamsSchema = z.object({
+  report: z.enum(API_V1_REPORTS),
+});
+
+export const reportQuerySchema = z.object({
+  company_profile_id: companyProfileId,
+  from: z.iso.date().optional().describe("Start of the period, for profit_and_loss; defaults to 1 January"),
+  to: z.iso.date().optional().describe("End of the period, for profit_and_loss; defaults to today"),
+  as_of: z.iso.date().optional().describe("Report date for the other reports; defaults to today"),
+  basis: z.enum(["cash", "accrual"]).optional().describe("profit_and_loss only; defaults to the company's basis"),
+});
+
+export const reportSchema = z.object({
+  report: z.enum(API_V1_REPORTS),
+  company_profile_id: z.uuid(),
+  data: z.record(z.string(), z.unknown()).describe("The report, as the portal's report endpoints return it"),
+});
+
+// ============================================================================
+// OPERATIONS
+// ============================================================================
+
+export interface ApiV1Operation {
+  method: "get" | "post" | "patch";
+  /** OpenAPI path, relative to /api/v1 */
+  path: string;
+  operationId: string;
+  summary: string;
+  scope: ApiKeyScope;
+  params?: z.ZodObject;
+  query?: z.ZodObject;
+  body?: z.ZodType;
+  /** multipart/form-data fields, for uploads */
+  form?: z.ZodObject;
+  response: z.ZodType;
+  /** Status of a successful response */
+  status?: number;
+}
+
+export const API_V1_OPERATIONS: ApiV1Operation[] = [
+  {
+    method: "post",
+    path: "/statements",
+    operationId: "uploadStatement",
+    summary: "Upload a bank statement. It is processed in the background; poll the job for progress.",
+    scope: "statements:write",
+    form: statementUploadSchema,
+    response: z.object({ job: statementJobSchema }),
+    status: 202,
+  },
+  {
+    method: "get",
+    path: "/statements/{id}",
+    operationId: "getStatementJob",
+    summary: "Progress of an uploaded statement",
+    scope: "statements:write",
+    params: idParamsSchema,
+    response: z.object({ job: statementJobSchema }),
+  },
+  {
+    method: "get",
+    path: "/transactions",
+    operationId: "listTransactions",
+    summary: "List categorized transactions, newest first",
+    scope: "transactions:read",
+    query: transactionListQuerySchema,
+    response: z.object({
+      transactions: z.array(transactionSchema),
+      total: z.number().describe("Transactions matching the filters, across all pages"),
+      limit: z.number(),
+      offset: z.number(),
+    }),
+  },
+  {
+    method: "get",
+    path: "/transactions/{id}",
+    operationId: "getTransaction",
+    summary: "Fetch a transaction",
+    scope: "transactions:read",
+    params: idParamsSchema,
+    response: z.object({ transaction: transactionSchema }),
+  },
+  {
+    method: "patch",
+    path: "/transactions/{id}",
+    operationId: "updateTransaction",
+    summary: "Change a transaction's category, supplier, VAT or notes. Category changes re-post it to the ledger.",
+    scope: "transactions:write",
+    params: idParamsSchema,
+    body: transactionUpdateSchema,
+    response: z.object({ transaction: transactionSchema }),
+  },
+  {
+    method: "get",
+    path: "/documents",
+    operationId: "listDocuments",
+    summary: "List documents - bills, sales invoices, receipts and statements - newest first",
+    scope: "documents:read",
+    query: documentListQuerySchema,
+    response: z.object({
+      documents: z.array(documentSchema),
+      total: z.number().describe("Documents matching the filters, across all pages"),
+      limit: z.number(),
+      offset: z.number(),
+    }),
+  },
+  {
+    method: "get",
+    path: "/documents/{id}",
+    operationId: "getDocument",
+    summary: "Fetch a document with a link to download its file",
+    scope: "documents:read",
+    params: idParamsSchema,
+    response: z.object({ document: documentDetailSchema }),
+  },
+  {
+    method: "get",
+    path: "/reports/{report}",
+    operationId: "getReport",
+    summary: "Profit and loss, balance sheet, trial balance, or aged receivables and payables",
+    scope: "reports:read",
+    params: reportParamsSchema,
+    query: reportQuerySchema,
+    response: reportSchema,
+  },
+];
+
+/**
+ * Validate a request part against its schema: the parsed value, or an error listing the
+ * fields at fault
+ */
+export function parseApiInput<T extends z.ZodType>(
+  schema: T,
+  value: unknown
+): { data: z.infer<T>; error?: undefined } | { data?: undefined; error: z.infer<typeof errorSchema> } {
+  const result = schema.safeParse(value);
+  if (result.success) {
+    return { data: result.data };
+  }
+
+  return {
+    error: {
+      error: "Invalid request",
+      issues: result.error.issues.map((issue) => ({
+        path: issue.path.join("."),
+        message: issue.message,
+      })),
+    },
+  };
+}
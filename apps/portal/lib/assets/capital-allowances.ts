@@ -0,0 +1,182 @@
+/**
+ * UK Capital Allowances (companies)
+ *
+ * Plant and machinery in the asset register is pooled for corporation tax: additions claim the
+ * annual investment allowance (AIA) first, special rate expenditure before main pool, and what
+ * AIA doesn't cover joins its pool. Each pool then claims a writing down allowance (WDA) on its
+ * balance - 18% main, 6% special rate - or is written off whole when it is £1,000 or less.
+ * Disposals take the lower of proceeds and cost out of the pool; a pool taken below nil gives a
+ * balancing charge. The AIA limit, WDA and small pool threshold are scaled to the length of the
+ * accounting period.
+ *
+ * Pools are rebuilt from the register each time, walking back in twelve-month periods ending on
+ * the anniversary of the period asked for, so earlier periods' claims are assumed to have been
+ * made in full. Full expensing is not modelled; the AIA covers most small companies' spending.
+ */
+
+export type AllowancePool = "main" | "special_rate" | "none";
+
+export const ALLOWANCE_POOL_LABELS: Record<AllowancePool, string> = {
+  main: "Main pool (18%)",
+  special_rate: "Special rate pool (6%)",
+  none: "No allowances",
+};
+
+/** Annual investment allowance per 12 months, from 1 January 2019 */
+export const AIA_ANNUAL_LIMIT = 1000000;
+
+export const WDA_RATES: Record<Exclude<AllowancePool, "none">, number> = {
+  main: 0.18,
+  special_rate: 0.06,
+};
+
+export const SMALL_POOL_LIMIT = 1000;
+
+export interface AllowanceAsset {
+  acquisition_date: string;
+  cost: number;
+  allowance_pool: AllowancePool;
+  claim_aia: boolean;
+  disposal_date?: string | null;
+  disposal_proceeds?: number | null;
+}
+
+export interface CapitalAllowancePoolSummary {
+  brought_forward: number;
+  additions: number;
+  aia: number;
+  disposals: number;
+  wda: number;
+  small_pool_allowance: number;
+  balancing_charge: number;
+  carried_forward: number;
+}
+
+export interface CapitalAllowanceComputation {
+  period_start: string;
+  period_end: string;
+  aia_limit: number;
+  main_pool: CapitalAllowancePoolSummary;
+  special_rate_pool: CapitalAllowancePoolSummary;
+  /** AIA, WDA and small pool allowances together */
+  total_allowances: number;
+  total_balancing_charges: number;
+}
+
+function roundPence(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function addDays(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+function addYears(date: string, years: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCFullYear(shifted.getUTCFullYear() + years);
+  return shifted.toISOString().slice(0, 10);
+}
+
+function periodDays(start: string, end: string): number {
+  return Math.round((Date.parse(`${end}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`)) / 86400000) + 1;
+}
+
+function computePeriod(
+  assets: AllowanceAsset[],
+  start: string,
+  end: string,
+  broughtForward: { main: number; special_rate: number }
+): CapitalAllowanceComputation {
+  const fraction = Math.min(periodDays(start, end) / 365, 1);
+  const aiaLimit = roundPence(AIA_ANNUAL_LIMIT * fraction);
+  const inPeriod = (date: string | null | undefined) => !!date && date >= start && date <= end;
+
+  const pools = {
+    special_rate: { brought_forward: broughtForward.special_rate, additions: 0, aia: 0, disposals: 0, wda: 0, small_pool_allowance: 0, balancing_charge: 0, carried_forward: 0 },
+    main: { brought_forward: broughtForward.main, additions: 0, aia: 0, disposals: 0, wda: 0, small_pool_allowance: 0, balancing_charge: 0, carried_forward: 0 },
+  };
+
+  // AIA goes to special rate expenditure first, where it saves the most
+  let aiaLeft = aiaLimit;
+  for (const poolName of ["special_rate", "main"] as const) {
+    const pool = pools[poolName];
+    for (const asset of assets) {
+      if (asset.allowance_pool !== poolName || !inPeriod(asset.acquisition_date)) continue;
+      const cost = Number(asset.cost) || 0;
+      pool.additions += cost;
+      if (asset.claim_aia) {
+        const aia = Math.min(cost, aiaLeft);
+        pool.aia += aia;
+        aiaLeft -= aia;
+      }
+    }
+    for (const asset of assets) {
+      if (asset.allowance_pool !== poolName || !inPeriod(asset.disposal_date)) continue;
+      pool.disposals += Math.min(Number(asset.disposal_proceeds) || 0, Number(asset.cost) || 0);
+    }
+  }
+
+  for (const poolName of ["special_rate", "main"] as const) {
+    const pool = pools[poolName];
+    const balance = roundPence(pool.brought_forward + pool.additions - pool.aia - pool.disposals);
+    if (balance < 0) {
+      pool.balancing_charge = -balance;
+    } else if (balance <= roundPence(SMALL_POOL_LIMIT * fraction)) {
+      pool.small_pool_allowance = balance;
+    } else {
+      pool.wda = roundPence(balance * WDA_RATES[poolName] * fraction);
+      pool.carried_forward = roundPence(balance - pool.wda);
+    }
+    pool.additions = roundPence(pool.additions);
+    pool.aia = roundPence(pool.aia);
+    pool.disposals = roundPence(pool.disposals);
+  }
+
+  const allowances = (pool: CapitalAllowancePoolSummary) => pool.aia + pool.wda + pool.small_pool_allowance;
+  return {
+    period_start: start,
+    period_end: end,
+    aia_limit: aiaLimit,
+    main_pool: pools.main,
+    special_rate_pool: pools.special_rate,
+    total_allowances: roundPence(allowances(pools.main) + allowances(pools.special_rate)),
+    total_balancing_charges: roundPence(pools.main.balancing_charge + pools.special_rate.balancing_charge),
+  };
+}
+
+/**
+ * Capital allowances for an accounting period, with pools brought forward from earlier years
+ */
+export function calculateCapitalAllowances(
+  assets: AllowanceAsset[],
+  periodStart: string,
+  periodEnd: string
+): CapitalAllowanceComputation {
+  const pooled = assets.filter((asset) => asset.allowance_pool !== "none");
+  const earliest = pooled.reduce<string | null>(
+    (first, asset) => (!first || asset.acquisition_date < first ? asset.acquisition_date : first),
+    null
+  );
+
+  // Earlier twelve-month periods back to the first acquisition, oldest first
+  const earlier: Array<{ start: string; end: string }> = [];
+  let end = addDays(periodStart, -1);
+  while (earliest && end >= earliest) {
+    const start = addDays(addYears(end, -1), 1);
+    earlier.unshift({ start, end });
+    end = addDays(start, -1);
+  }
+
+  let broughtForward = { main: 0, special_rate: 0 };
+  for (const period of earlier) {
+    const computation = computePeriod(pooled, period.start, period.end, broughtForward);
+    broughtForward = {
+      main: computation.main_pool.carried_forward,
+      special_rate: computation.special_rate_pool.carried_forward,
+    };
+  }
+
+  return computePeriod(pooled, periodStart, periodEnd, broughtForward);
+}
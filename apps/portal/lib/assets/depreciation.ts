@@ -0,0 +1,131 @@
+/**
+ * Fixed Asset Depreciation
+ *
+ * Assets depreciate monthly from the month they are acquired, up to the month before they are
+ * disposed of. Straight line spreads cost less residual value evenly over the useful life;
+ * reducing balance charges an annual rate (a twelfth a month) on the net book value, never
+ * below the residual value. Charges already posted are taken as given, so changing an asset's
+ * terms only changes what is charged from then on.
+ */
+
+export type DepreciationMethod = "straight_line" | "reducing_balance" | "none";
+
+export const DEPRECIATION_METHOD_LABELS: Record<DepreciationMethod, string> = {
+  straight_line: "Straight line",
+  reducing_balance: "Reducing balance",
+  none: "Not depreciated",
+};
+
+export interface DepreciableAsset {
+  acquisition_date: string;
+  cost: number;
+  residual_value: number;
+  depreciation_method: DepreciationMethod;
+  useful_life_months: number | null;
+  /** Annual percentage, for reducing balance */
+  reducing_balance_rate: number | null;
+  disposal_date?: string | null;
+}
+
+export interface DepreciationCharge {
+  /** Last day of the month charged */
+  period_end: string;
+  amount: number;
+  /** Net book value after the charge */
+  net_book_value: number;
+}
+
+/** Projections stop here for assets that never reach their residual value */
+const MAX_SCHEDULE_MONTHS = 600;
+
+function roundPence(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Last day of the month a date falls in, as YYYY-MM-DD
+ */
+export function monthEnd(date: string): string {
+  const [year, month] = date.slice(0, 10).split("-").map(Number);
+  return new Date(Date.UTC(year, month, 0)).toISOString().slice(0, 10);
+}
+
+function nextMonthEnd(periodEnd: string): string {
+  const [year, month] = periodEnd.split("-").map(Number);
+  return new Date(Date.UTC(year, month + 1, 0)).toISOString().slice(0, 10);
+}
+
+function monthsBetween(fromMonthEnd: string, toMonthEnd: string): number {
+  const [fromYear, fromMonth] = fromMonthEnd.split("-").map(Number);
+  const [toYear, toMonth] = toMonthEnd.split("-").map(Number);
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth);
+}
+
+/**
+ * Net book value after the charges posted so far
+ */
+export function netBookValue(asset: Pick<DepreciableAsset, "cost">, posted: Array<{ amount: number }>): number {
+  return roundPence(Number(asset.cost) - posted.reduce((sum, charge) => sum + Number(charge.amount), 0));
+}
+
+/**
+ * Charges due after those already posted, for every month up to and including the month of
+ * throughDate. Pass a far-off date for the full projected schedule.
+ */
+export function depreciationCharges(
+  asset: DepreciableAsset,
+  posted: Array<{ period_end: string; amount: number }>,
+  throughDate: string
+): DepreciationCharge[] {
+  if (asset.depreciation_method === "none") return [];
+
+  const firstMonth = monthEnd(asset.acquisition_date);
+  // The month of disposal is not charged
+  let lastMonth = monthEnd(throughDate);
+  if (asset.disposal_date) {
+    const [year, month] = asset.disposal_date.split("-").map(Number);
+    const beforeDisposal = new Date(Date.UTC(year, month - 1, 0)).toISOString().slice(0, 10);
+    if (beforeDisposal < lastMonth) lastMonth = beforeDisposal;
+  }
+
+  const lastPosted = posted.reduce<string | null>(
+    (latest, charge) => (!latest || charge.period_end > latest ? charge.period_end : latest),
+    null
+  );
+  let period = lastPosted ? nextMonthEnd(lastPosted) : firstMonth;
+  if (period < firstMonth) period = firstMonth;
+
+  const residual = Number(asset.residual_value) || 0;
+  let nbv = netBookValue(asset, posted);
+  const charges: DepreciationCharge[] = [];
+
+  while (period <= lastMonth && charges.length < MAX_SCHEDULE_MONTHS) {
+    const depreciable = roundPence(nbv - residual);
+    if (depreciable < 0.01) break;
+
+    let amount: number;
+    if (asset.depreciation_method === "straight_line") {
+      const life = Number(asset.useful_life_months) || 0;
+      const remainingMonths = life - monthsBetween(firstMonth, period);
+      if (remainingMonths <= 0) break;
+      amount = remainingMonths === 1 ? depreciable : roundPence(depreciable / remainingMonths);
+    } else {
+      const rate = Number(asset.reducing_balance_rate) || 0;
+      amount = Math.min(roundPence(nbv * rate / 100 / 12), depreciable);
+      if (amount < 0.01) break;
+    }
+
+    nbv = roundPence(nbv - amount);
+    charges.push({ period_end: period, amount, net_book_value: nbv });
+    period = nextMonthEnd(period);
+  }
+
+  return charges;
+}
+
+/**
+ * Gain (positive) or loss (negative) on disposing of an asset at its net book value
+ */
+export function disposalGain(netBookValueAtDisposal: number, proceeds: number): number {
+  return roundPence((Number(proceeds) || 0) - netBookValueAtDisposal);
+}
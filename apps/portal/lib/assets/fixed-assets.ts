@@ -0,0 +1,630 @@
+/**
+ * Fixed Asset Register
+ *
+ * A purchase - a bank transaction or an invoice - is capitalised as an asset: from then on it
+ * posts to the asset's balance sheet account instead of its category's expense account (see
+ * postTransactionsToLedger and postDocumentsToLedger). Depreciation is posted month by month as
+ * one journal per company and month: Dr Depreciation, Cr Accumulated Depreciation. Disposing of
+ * an asset removes its cost and accumulated depreciation and writes its net book value off to
+ * the disposals account, where the linked sale receipt is also posted, so the account's balance
+ * is the gain or loss.
+ */
+
+import {
+  ASSET_DISPOSAL_ACCOUNT_CODE,
+  postJournalEntry,
+  postTransactionsToLedger,
+  type JournalLineInput,
+} from "@/lib/ledger/journal";
+import { postDocumentsToLedger } from "@/lib/ledger/documents";
+import {
+  depreciationCharges,
+  disposalGain,
+  netBookValue,
+  type DepreciableAsset,
+  type DepreciationCharge,
+  type DepreciationMethod,
+} from "./depreciation";
+import type { AllowancePool } from "./capital-allowances";
+
+export type AssetClass = "equipment" | "computer" | "furniture" | "vehicle" | "car" | "building" | "intangible";
+
+export type FixedAssetStatus = "active" | "disposed";
+
+export const ASSET_CLASS_LABELS: Record<AssetClass, string> = {
+  equipment: "Plant and equipment",
+  computer: "Computer equipment",
+  furniture: "Furniture and fittings",
+  vehicle: "Vans and commercial vehicles",
+  car: "Cars",
+  building: "Land and buildings",
+  intangible: "Intangible assets",
+};
+
+/** Suggested terms for a new asset of each class */
+export const ASSET_CLASS_DEFAULTS: Record<AssetClass, {
+  depreciation_method: DepreciationMethod;
+  useful_life_months: number | null;
+  reducing_balance_rate: number | null;
+  allowance_pool: AllowancePool;
+  claim_aia: boolean;
+  asset_account_code: string;
+}> = {
+  equipment: { depreciation_method: "straight_line", useful_life_months: 60, reducing_balance_rate: null, allowance_pool: "main", claim_aia: true, asset_account_code: "1500" },
+  computer: { depreciation_method: "straight_line", useful_life_months: 36, reducing_balance_rate: null, allowance_pool: "main", claim_aia: true, asset_account_code: "1500" },
+  furniture: { depreciation_method: "straight_line", useful_life_months: 84, reducing_balance_rate: null, allowance_pool: "main", claim_aia: true, asset_account_code: "1500" },
+  vehicle: { depreciation_method: "reducing_balance", useful_life_months: null, reducing_balance_rate: 25, allowance_pool: "main", claim_aia: true, asset_account_code: "1500" },
+  car: { depreciation_method: "reducing_balance", useful_life_months: null, reducing_balance_rate: 25, allowance_pool: "main", claim_aia: false, asset_account_code: "1500" },
+  building: { depreciation_method: "straight_line", useful_life_months: 600, reducing_balance_rate: null, allowance_pool: "none", claim_aia: false, asset_account_code: "1500" },
+  intangible: { depreciation_method: "straight_line", useful_life_months: 60, reducing_balance_rate: null, allowance_pool: "none", claim_aia: false, asset_account_code: "1700" },
+};
+
+/** Balance sheet accounts assets may be held in */
+export const ASSET_ACCOUNT_CODES = ["1500", "1700"];
+
+/** Accounts in the default UK chart that depreciation posts to */
+export const ACCUMULATED_DEPRECIATION_ACCOUNT_CODE = "1600";
+export const DEPRECIATION_ACCOUNT_CODE = "6700";
+
+/** Gains and losses on disposal; added to the chart when missing */
+export const ASSET_DISPOSAL_ACCOUNT = {
+  account_code: ASSET_DISPOSAL_ACCOUNT_CODE,
+  account_name: "Gain/Loss on Disposal of Fixed Assets",
+  account_type: "expense",
+} as const;
+
+export interface FixedAsset extends DepreciableAsset {
+  id: string;
+  company_profile_id: string;
+  name: string;
+  description: string | null;
+  asset_class: AssetClass;
+  asset_account_code: string;
+  allowance_pool: AllowancePool;
+  claim_aia: boolean;
+  source_transaction_id: string | null;
+  source_document_id: string | null;
+  status: FixedAssetStatus;
+  disposal_date: string | null;
+  disposal_proceeds: number | null;
+  disposal_transaction_id: string | null;
+  disposal_entry_id: string | null;
+  notes: string | null;
+  created_at: string;
+  /** Depreciation posted to date */
+  accumulated_depreciation: number;
+  net_book_value: number;
+  /** Last month depreciated, or null */
+  depreciated_through: string | null;
+}
+
+export interface FixedAssetInput {
+  name: string;
+  description: string | null;
+  asset_class: AssetClass;
+  asset_account_code: string;
+  acquisition_date: string;
+  cost: number;
+  residual_value: number;
+  depreciation_method: DepreciationMethod;
+  useful_life_months: number | null;
+  reducing_balance_rate: number | null;
+  allowance_pool: AllowancePool;
+  claim_aia: boolean;
+  notes: string | null;
+}
+
+export interface DepreciationRunResult {
+  months: number;
+  charged: number;
+  entryIds: string[];
+  errors: Array<{ period_end: string; error: string }>;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const FIXED_ASSET_FIELDS = "id, company_profile_id, name, description, asset_class, asset_account_code, acquisition_date, cost, residual_value, depreciation_method, useful_life_months, reducing_balance_rate, allowance_pool, claim_aia, source_transaction_id, source_document_id, status, disposal_date, disposal_proceeds, disposal_transaction_id, disposal_entry_id, notes, created_at";
+
+function roundPence(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function optionalText(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function isAssetClass(value: unknown): value is AssetClass {
+  return typeof value === "string" && value in ASSET_CLASS_LABELS;
+}
+
+// ============================================================================
+// INPUT
+// ============================================================================
+
+/**
+ * Validate a create or update request body. Updates are merged over the current asset first,
+ * so the same rules apply to both.
+ */
+export function parseFixedAssetInput(
+  body: any,
+  current?: Partial<FixedAssetInput>
+): { input: FixedAssetInput; error?: undefined } | { input?: undefined; error: string } {
+  const merged = { ...current, ...body };
+
+  const name = optionalText(merged.name);
+  if (!name) return { error: "Asset name is required" };
+
+  const assetClass = merged.asset_class ?? "equipment";
+  if (!isAssetClass(assetClass)) return { error: "Unsupported asset class" };
+  const defaults = ASSET_CLASS_DEFAULTS[assetClass];
+
+  const assetAccountCode = optionalText(merged.asset_account_code) || defaults.asset_account_code;
+  if (!ASSET_ACCOUNT_CODES.includes(assetAccountCode)) {
+    return { error: `Asset account must be one of ${ASSET_ACCOUNT_CODES.join(", ")}` };
+  }
+
+  const acquisitionDate = optionalText(merged.acquisition_date);
+  if (!acquisitionDate || !DATE_PATTERN.test(acquisitionDate)) {
+    return { error: "acquisition_date must be a date (YYYY-MM-DD)" };
+  }
+
+  const cost = roundPence(Number(merged.cost));
+  if (!Number.isFinite(cost) || cost <= 0) return { error: "Cost must be greater than zero" };
+
+  const residualValue = roundPence(Number(merged.residual_value ?? 0));
+  if (!Number.isFinite(residualValue) || residualValue < 0 || residualValue >= cost) {
+    return { error: "Residual value must be at least zero and less than the cost" };
+  }
+
+  const method: DepreciationMethod = merged.depreciation_method ?? defaults.depreciation_method;
+  if (!["straight_line", "reducing_balance", "none"].includes(method)) {
+    return { error: "Unsupported depreciation method" };
+  }
+
+  let usefulLife: number | null = null;
+  let rate: number | null = null;
+  if (method === "straight_line") {
+    usefulLife = Number(merged.useful_life_months ?? defaults.useful_life_months);
+    if (!Number.isInteger(usefulLife) || usefulLife < 1 || usefulLife > 1200) {
+      return { error: "Useful life must be a whole number of months between 1 and 1200" };
+    }
+  } else if (method === "reducing_balance") {
+    rate = Number(merged.reducing_balance_rate ?? defaults.reducing_balance_rate);
+    if (!Number.isFinite(rate) || rate <= 0 || rate > 100) {
+      return { error: "Reducing balance rate must be between 0 and 100 percent" };
+    }
+  }
+
+  const pool: AllowancePool = merged.allowance_pool ?? defaults.allowance_pool;
+  if (!["main", "special_rate", "none"].includes(pool)) {
+    return { error: "Unsupported capital allowance pool" };
+  }
+  const claimAia = merged.claim_aia === undefined ? defaults.claim_aia : Boolean(merged.claim_aia);
+  if (claimAia && assetClass === "car") {
+    return { error: "Cars don't qualify for the annual investment allowance" };
+  }
+
+  return {
+    input: {
+      name,
+      description: optionalText(merged.description),
+      asset_class: assetClass,
+      asset_account_code: assetAccountCode,
+      acquisition_date: acquisitionDate,
+      cost,
+      residual_value: residualValue,
+      depreciation_method: method,
+      useful_life_months: usefulLife,
+      reducing_balance_rate: rate,
+      allowance_pool: pool,
+      claim_aia: pool !== "none" && claimAia,
+      notes: optionalText(merged.notes),
+    },
+  };
+}
+
+/**
+ * An invoice's net of VAT in base currency, which is what it posts to the ledger
+ */
+export function documentBaseCost(doc: { total_amount: unknown; tax_amount: unknown; base_total_amount?: unknown }): number {
+  const total = Math.abs(Number(doc.total_amount) || 0);
+  const baseTotal = Math.abs(Number(doc.base_total_amount ?? doc.total_amount) || 0);
+  const rate = total > 0 ? baseTotal / total : 1;
+  return roundPence(baseTotal - Math.abs(Number(doc.tax_amount) || 0) * rate);
+}
+
+/**
+ * The company, date, cost and a description of a purchase being capitalised. Cost is in base
+ * currency: a transaction's whole amount, or an invoice's net of reclaimable VAT.
+ */
+export async function loadAssetSource(
+  supabase: any,
+  source: { transactionId?: string | null; documentId?: string | null }
+): Promise<{ company_profile_id: string | null; date: string | null; cost: number; description: string } | null> {
+  if (source.transactionId) {
+    const { data: tx } = await supabase
+      .from("categorized_transactions")
+      .select("company_profile_id, date, amount, base_amount, original_description")
+      .eq("id", source.transactionId)
+      .single();
+    if (!tx) return null;
+    return {
+      company_profile_id: tx.company_profile_id,
+      date: tx.date,
+      cost: roundPence(Math.abs(Number(tx.base_amount ?? tx.amount) || 0)),
+      description: tx.original_description,
+    };
+  }
+
+  if (source.documentId) {
+    const { data: doc } = await supabase
+      .from("financial_documents")
+      .select("company_profile_id, document_date, total_amount, tax_amount, base_total_amount, vendor_name, original_filename")
+      .eq("id", source.documentId)
+      .single();
+    if (!doc) return null;
+    return {
+      company_profile_id: doc.company_profile_id,
+      date: doc.document_date,
+      cost: documentBaseCost(doc),
+      description: doc.vendor_name || doc.original_filename,
+    };
+  }
+
+  return null;
+}
+
+// ============================================================================
+// REGISTER
+// ============================================================================
+
+async function loadPostedDepreciation(
+  supabase: any,
+  assetIds: string[]
+): Promise<Map<string, Array<{ period_end: string; amount: number }>>> {
+  const posted = new Map<string, Array<{ period_end: string; amount: number }>>();
+  if (assetIds.length === 0) return posted;
+
+  const { data, error } = await supabase
+    .from("fixed_asset_depreciation")
+    .select("fixed_asset_id, period_end, amount")
+    .in("fixed_asset_id", assetIds)
+    .order("period_end", { ascending: true });
+
+  if (error) {
+    throw new Error(error.message || "Failed to load depreciation");
+  }
+
+  for (const row of data || []) {
+    if (!posted.has(row.fixed_asset_id)) posted.set(row.fixed_asset_id, []);
+    posted.get(row.fixed_asset_id)!.push({ period_end: row.period_end, amount: Number(row.amount) });
+  }
+  return posted;
+}
+
+function toFixedAsset(row: any, posted: Array<{ period_end: string; amount: number }>): FixedAsset {
+  const asset = {
+    ...row,
+    cost: Number(row.cost),
+    residual_value: Number(row.residual_value) || 0,
+    useful_life_months: row.useful_life_months === null ? null : Number(row.useful_life_months),
+    reducing_balance_rate: row.reducing_balance_rate === null ? null : Number(row.reducing_balance_rate),
+    disposal_proceeds: row.disposal_proceeds === null ? null : Number(row.disposal_proceeds),
+  };
+  const nbv = netBookValue(asset, posted);
+  return {
+    ...asset,
+    accumulated_depreciation: roundPence(asset.cost - nbv),
+    net_book_value: nbv,
+    depreciated_through: posted.length > 0 ? posted[posted.length - 1].period_end : null,
+  };
+}
+
+export async function listFixedAssets(supabase: any, companyProfileId: string): Promise<FixedAsset[]> {
+  const { data, error } = await supabase
+    .from("fixed_assets")
+    .select(FIXED_ASSET_FIELDS)
+    .eq("company_profile_id", companyProfileId)
+    .order("acquisition_date", { ascending: false });
+
+  if (error) {
+    throw new Error(error.message || "Failed to load fixed assets");
+  }
+
+  const posted = await loadPostedDepreciation(supabase, (data || []).map((row: any) => row.id));
+  return (data || []).map((row: any) => toFixedAsset(row, posted.get(row.id) || []));
+}
+
+/**
+ * One asset with its posted depreciation and the charges still to come
+ */
+export async function getFixedAsset(supabase: any, assetId: string): Promise<{
+  asset: FixedAsset;
+  posted: Array<{ period_end: string; amount: number }>;
+  schedule: DepreciationCharge[];
+} | null> {
+  const { data, error } = await supabase
+    .from("fixed_assets")
+    .select(FIXED_ASSET_FIELDS)
+    .eq("id", assetId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message || "Failed to load fixed asset");
+  }
+  if (!data) return null;
+
+  const posted = (await loadPostedDepreciation(supabase, [assetId])).get(assetId) || [];
+  const asset = toFixedAsset(data, posted);
+  return {
+    asset,
+    posted,
+    schedule: asset.status === "active" ? depreciationCharges(asset, posted, "2999-12-31") : [],
+  };
+}
+
+/**
+ * Re-post the purchase behind an asset (and its sale receipt) so the ledger follows the
+ * register. Failures are logged rather than thrown: the register change has been made.
+ */
+export async function repostAssetSources(
+  supabase: any,
+  companyProfileId: string,
+  asset: { source_transaction_id?: string | null; source_document_id?: string | null; disposal_transaction_id?: string | null },
+  postedBy: string | null
+): Promise<void> {
+  try {
+    if (asset.source_document_id) {
+      await postDocumentsToLedger(supabase, companyProfileId, [asset.source_document_id], postedBy);
+    }
+    const transactionIds = [asset.source_transaction_id, asset.disposal_transaction_id].filter(Boolean) as string[];
+    if (transactionIds.length > 0) {
+      await postTransactionsToLedger(supabase, companyProfileId, transactionIds, postedBy);
+    }
+  } catch (ledgerError) {
+    console.error("Fixed asset ledger re-post error:", ledgerError);
+  }
+}
+
+// ============================================================================
+// DEPRECIATION
+// ============================================================================
+
+async function loadAccountIds(supabase: any, companyProfileId: string, codes: string[]): Promise<Map<string, string>> {
+  const { data, error } = await supabase
+    .from("chart_of_accounts")
+    .select("id, account_code")
+    .eq("company_profile_id", companyProfileId)
+    .eq("is_active", true)
+    .in("account_code", codes);
+
+  if (error) {
+    throw new Error(error.message || "Failed to load chart of accounts");
+  }
+
+  return new Map((data || []).map((account: any) => [account.account_code, account.id]));
+}
+
+async function ensureDisposalAccount(supabase: any, companyProfileId: string): Promise<string> {
+  const { data: existing } = await supabase
+    .from("chart_of_accounts")
+    .select("id")
+    .eq("company_profile_id", companyProfileId)
+    .eq("account_code", ASSET_DISPOSAL_ACCOUNT.account_code)
+    .maybeSingle();
+
+  if (existing) return existing.id;
+
+  const { data: created, error } = await supabase
+    .from("chart_of_accounts")
+    .insert({ company_profile_id: companyProfileId, ...ASSET_DISPOSAL_ACCOUNT })
+    .select("id")
+    .single();
+
+  if (error || !created) {
+    throw new Error(error?.message || "Failed to create the disposals account");
+  }
+
+  return created.id;
+}
+
+/**
+ * Depreciation due but not yet posted for every month up to throughDate, by month end
+ */
+export async function getDueDepreciation(
+  supabase: any,
+  companyProfileId: string,
+  throughDate: string,
+  assetIds?: string[]
+): Promise<Map<string, Array<{ asset: FixedAsset; amount: number }>>> {
+  const byMonth = new Map<string, Array<{ asset: FixedAsset; amount: number }>>();
+
+  let query = supabase
+    .from("fixed_assets")
+    .select(FIXED_ASSET_FIELDS)
+    .eq("company_profile_id", companyProfileId)
+    .neq("depreciation_method", "none")
+    .lte("acquisition_date", throughDate);
+  if (assetIds) query = query.in("id", assetIds);
+  const { data: rows, error } = await query;
+
+  if (error) {
+    throw new Error(error.message || "Failed to load fixed assets");
+  }
+  if (!rows || rows.length === 0) return byMonth;
+
+  const posted = await loadPostedDepreciation(supabase, rows.map((row: any) => row.id));
+  for (const row of rows) {
+    const asset = toFixedAsset(row, posted.get(row.id) || []);
+    for (const charge of depreciationCharges(asset, posted.get(row.id) || [], throughDate)) {
+      if (!byMonth.has(charge.period_end)) byMonth.set(charge.period_end, []);
+      byMonth.get(charge.period_end)!.push({ asset, amount: charge.amount });
+    }
+  }
+  return byMonth;
+}
+
+/**
+ * Post depreciation for every month up to throughDate not yet charged, oldest month first.
+ * Each month is one journal entry for all the assets it covers. Stops at the first month that
+ * can't be posted (e.g. in a closed period) so months are never skipped.
+ */
+export async function runDepreciation(
+  supabase: any,
+  companyProfileId: string,
+  throughDate: string,
+  postedBy: string | null,
+  assetIds?: string[]
+): Promise<DepreciationRunResult> {
+  const result: DepreciationRunResult = { months: 0, charged: 0, entryIds: [], errors: [] };
+
+  const byMonth = await getDueDepreciation(supabase, companyProfileId, throughDate, assetIds);
+  if (byMonth.size === 0) return result;
+
+  const accounts = await loadAccountIds(supabase, companyProfileId, [ACCUMULATED_DEPRECIATION_ACCOUNT_CODE, DEPRECIATION_ACCOUNT_CODE]);
+  const accumulatedId = accounts.get(ACCUMULATED_DEPRECIATION_ACCOUNT_CODE);
+  const expenseId = accounts.get(DEPRECIATION_ACCOUNT_CODE);
+  if (!accumulatedId || !expenseId) {
+    throw new Error(
+      `The chart of accounts needs accounts ${DEPRECIATION_ACCOUNT_CODE} (Depreciation) and ${ACCUMULATED_DEPRECIATION_ACCOUNT_CODE} (Accumulated Depreciation)`
+    );
+  }
+
+  for (const periodEnd of Array.from(byMonth.keys()).sort()) {
+    const charges = byMonth.get(periodEnd)!;
+    const total = roundPence(charges.reduce((sum, charge) => sum + charge.amount, 0));
+    const month = new Date(`${periodEnd}T00:00:00Z`).toLocaleDateString("en-GB", { month: "long", year: "numeric", timeZone: "UTC" });
+    const description = `Depreciation for ${month}`;
+    const lines: JournalLineInput[] = [
+      { account_id: expenseId, bank_account_id: null, debit: total, credit: 0, description },
+      ...charges.map((charge) => ({
+        account_id: accumulatedId,
+        bank_account_id: null,
+        debit: 0,
+        credit: charge.amount,
+        description: `Depreciation - ${charge.asset.name}`,
+      })),
+    ];
+
+    try {
+      const entryId = await postJournalEntry(supabase, {
+        companyProfileId,
+        entryDate: periodEnd,
+        description,
+        sourceType: "depreciation",
+        lines,
+        postedBy,
+      });
+
+      const { error: insertError } = await supabase
+        .from("fixed_asset_depreciation")
+        .insert(charges.map((charge) => ({
+          fixed_asset_id: charge.asset.id,
+          period_end: periodEnd,
+          amount: charge.amount,
+          journal_entry_id: entryId,
+        })));
+      if (insertError) {
+        throw new Error(insertError.message || "Failed to record depreciation");
+      }
+
+      result.months++;
+      result.charged = roundPence(result.charged + total);
+      result.entryIds.push(entryId);
+    } catch (postError: any) {
+      result.errors.push({ period_end: periodEnd, error: postError.message });
+      break;
+    }
+  }
+
+  return result;
+}
+
+// ============================================================================
+// DISPOSAL
+// ============================================================================
+
+/**
+ * Dispose of an asset: charge any depreciation due before the disposal month, then post the
+ * disposal - Dr Accumulated Depreciation, Dr Disposals (net book value), Cr the asset's cost.
+ * The sale receipt, when linked, posts to the disposals account too.
+ */
+export async function disposeFixedAsset(
+  supabase: any,
+  asset: FixedAsset,
+  disposal: { disposal_date: string; proceeds: number; disposal_transaction_id: string | null },
+  postedBy: string | null
+): Promise<{ gain: number; net_book_value: number; entryId: string }> {
+  if (asset.status !== "active") {
+    throw new Error("Asset has already been disposed of");
+  }
+  if (disposal.disposal_date < asset.acquisition_date) {
+    throw new Error("An asset can't be disposed of before it was acquired");
+  }
+  if (asset.depreciated_through && asset.depreciated_through >= disposal.disposal_date.slice(0, 7) + "-01") {
+    throw new Error(`Depreciation is already posted through ${asset.depreciated_through}, after the disposal date`);
+  }
+
+  // Depreciation runs to the end of the month before disposal
+  const [year, month] = disposal.disposal_date.split("-").map(Number);
+  const monthBefore = new Date(Date.UTC(year, month - 1, 0)).toISOString().slice(0, 10);
+  if (monthBefore >= asset.acquisition_date) {
+    const run = await runDepreciation(supabase, asset.company_profile_id, monthBefore, postedBy, [asset.id]);
+    if (run.errors.length > 0) {
+      throw new Error(`Depreciation before disposal could not be posted: ${run.errors[0].error}`);
+    }
+  }
+
+  const posted = (await loadPostedDepreciation(supabase, [asset.id])).get(asset.id) || [];
+  const nbv = netBookValue(asset, posted);
+  const accumulated = roundPence(asset.cost - nbv);
+
+  const accounts = await loadAccountIds(supabase, asset.company_profile_id, [asset.asset_account_code, ACCUMULATED_DEPRECIATION_ACCOUNT_CODE]);
+  const assetAccountId = accounts.get(asset.asset_account_code);
+  const accumulatedId = accounts.get(ACCUMULATED_DEPRECIATION_ACCOUNT_CODE);
+  if (!assetAccountId || (accumulated > 0 && !accumulatedId)) {
+    throw new Error(`The chart of accounts needs accounts ${asset.asset_account_code} and ${ACCUMULATED_DEPRECIATION_ACCOUNT_CODE}`);
+  }
+  const disposalAccountId = await ensureDisposalAccount(supabase, asset.company_profile_id);
+
+  const description = `Disposal of ${asset.name}`;
+  const lines: JournalLineInput[] = [
+    { account_id: assetAccountId, bank_account_id: null, debit: 0, credit: asset.cost, description },
+  ];
+  if (accumulated > 0) {
+    lines.push({ account_id: accumulatedId!, bank_account_id: null, debit: accumulated, credit: 0, description });
+  }
+  if (nbv > 0) {
+    lines.push({ account_id: disposalAccountId, bank_account_id: null, debit: nbv, credit: 0, description });
+  }
+
+  const entryId = await postJournalEntry(supabase, {
+    companyProfileId: asset.company_profile_id,
+    entryDate: disposal.disposal_date,
+    description,
+    sourceType: "asset_disposal",
+    lines,
+    postedBy,
+  });
+
+  const { error } = await supabase
+    .from("fixed_assets")
+    .update({
+      status: "disposed",
+      disposal_date: disposal.disposal_date,
+      disposal_proceeds: disposal.proceeds,
+      disposal_transaction_id: disposal.disposal_transaction_id,
+      disposal_entry_id: entryId,
+    })
+    .eq("id", asset.id);
+
+  if (error) {
+    throw new Error(error.message || "Failed to record the disposal");
+  }
+
+  await repostAssetSources(supabase, asset.company_profile_id, { disposal_transaction_id: disposal.disposal_transaction_id }, postedBy);
+
+  return { gain: disposalGain(nbv, disposal.proceeds), net_book_value: nbv, entryId };
+}
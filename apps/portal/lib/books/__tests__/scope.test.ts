@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import {
+  canAccessCompanyProfile,
+  canEditCompanyProfile,
+  getEditableCompanyProfileIds,
+  scopeToBooks,
+} from '../scope';
+
+/** Answers can_edit_company_profile from a set of editable companies, counting the calls */
+function membershipClient(editable: string[]) {
+  const calls: string[] = [];
+  const client = {
+    async rpc(name: string, args: { p_company_profile_id: string }) {
+      expect(name).toBe('can_edit_company_profile');
+      calls.push(args.p_company_profile_id);
+      return { data: editable.includes(args.p_company_profile_id), error: null };
+    },
+  };
+  return { client, calls };
+}
+
+describe('books scope', () => {
+  it('restricts queries to the scope companies, or to none', () => {
+    const filters: Array<[string, string[]]> = [];
+    const query = { in: (column: string, values: string[]) => { filters.push([column, values]); return query; } };
+
+    scopeToBooks(query, { userId: 'u1', companyProfileIds: ['c1', 'c2'] });
+    scopeToBooks(query, { userId: 'u1', companyProfileIds: [] }, 'bank_accounts.company_profile_id');
+
+    expect(filters[0]).toEqual(['company_profile_id', ['c1', 'c2']]);
+    expect(filters[1][0]).toBe('bank_accounts.company_profile_id');
+    expect(filters[1][1]).toHaveLength(1);
+    expect(filters[1][1][0]).not.toBe('c1');
+  });
+
+  it('grants access only to companies in scope', () => {
+    const scope = { userId: 'u1', companyProfileIds: ['c1'] };
+    expect(canAccessCompanyProfile(scope, 'c1')).toBe(true);
+    expect(canAccessCompanyProfile(scope, 'c2')).toBe(false);
+    expect(canAccessCompanyProfile(scope, null)).toBe(false);
+  });
+
+  it('never grants edit access to rows without a company', async () => {
+    const { client, calls } = membershipClient(['c1']);
+    expect(await canEditCompanyProfile(client, null)).toBe(false);
+    expect(await canEditCompanyProfile(client, 'c1')).toBe(true);
+    expect(calls).toEqual(['c1']);
+  });
+
+  it('checks each company once for bulk actions', async () => {
+    const { client, calls } = membershipClient(['c1', 'c3']);
+    const editable = await getEditableCompanyProfileIds(client, ['c1', 'c2', 'c1', null, 'c3']);
+    expect(Array.from(editable).sort()).toEqual(['c1', 'c3']);
+    expect(calls).toEqual(['c1', 'c2', 'c3']);
+  });
+
+  it('surfaces membership lookup failures', async () => {
+    const client = { rpc: async () => ({ data: null, error: { message: 'boom' } }) };
+    await expect(canEditCompanyProfile(client, 'c1')).rejects.toThrow('boom');
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Books Change Log
+ *
+ * Every insert, edit and delete on categorized_transactions and financial_documents is
+ * recorded by a database trigger in books_change_log, field by field. Writers tag a change
+ * with its source (and, when writing with the service role, the user behind it) by spreading
+ * `auditContext()` into the insert or update payload.
+ */
+
+import { toCSV } from "@/lib/exports/accounting-export";
+
+export type ChangeSource = "ui" | "chat" | "sheets" | "rule" | "import" | "system" | "api";
+
+export type AuditedTable = "categorized_transactions" | "financial_documents";
+
+export interface FieldChange {
+  old: unknown;
+  new: unknown;
+}
+
+export interface ChangeLogEntry {
+  id: string;
+  company_profile_id: string | null;
+  table_name: AuditedTable;
+  record_id: string;
+  operation: "INSERT" | "UPDATE" | "DELETE";
+  changes: Record<string, FieldChange>;
+  source: ChangeSource;
+  changed_by: string | null;
+  changed_at: string;
+  /** Display name of changed_by, filled in by the API */
+  changed_by_name?: string | null;
+}
+
+export const CHANGE_SOURCE_LABELS: Record<ChangeSource, string> = {
+  ui: "Portal",
+  chat: "Chat assistant",
+  sheets: "Google Sheets",
+  rule: "Categorization rule",
+  import: "Import",
+  system: "System",
+  api: "API",
+};
+
+/**
+ * Payload fields that tag a write for the change log. The columns are write-only; the
+ * trigger clears them before the row is stored.
+ */
+export function auditContext(source: ChangeSource, actorId?: string | null) {
+  return {
+    audit_source: source,
+    audit_actor: actorId || null,
+  };
+}
+
+/**
+ * History of one record, newest first
+ */
+export async function loadRecordHistory(
+  supabase: any,
+  table: AuditedTable,
+  recordId: string
+): Promise<ChangeLogEntry[]> {
+  const { data, error } = await supabase
+    .from("books_change_log")
+    .select("*")
+    .eq("table_name", table)
+    .eq("record_id", recordId)
+    .order("changed_at", { ascending: false })
+    .limit(200);
+
+  if (error) {
+    throw new Error(error.message || "Failed to load change history");
+  }
+
+  return data || [];
+}
+
+const CHANGE_LOG_PAGE_SIZE = 1000;
+// Record IDs per lookup query; keeps the request URL short
+const LOOKUP_CHUNK_SIZE = 200;
+
+/**
+ * Every change to a company's books between two dates (inclusive), oldest first
+ */
+export async function loadCompanyChangeLog(
+  supabase: any,
+  companyProfileId: string,
+  startDate: string,
+  endDate: string
+): Promise<ChangeLogEntry[]> {
+  const entries: ChangeLogEntry[] = [];
+  for (let offset = 0; ; offset += CHANGE_LOG_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("books_change_log")
+      .select("*")
+      .eq("company_profile_id", companyProfileId)
+      .gte("changed_at", `${startDate}T00:00:00Z`)
+      .lte("changed_at", `${endDate}T23:59:59.999Z`)
+      .order("changed_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(offset, offset + CHANGE_LOG_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(error.message || "Failed to load change log");
+    }
+
+    entries.push(...(data || []));
+    if (!data || data.length < CHANGE_LOG_PAGE_SIZE) break;
+  }
+
+  return entries;
+}
+
+/**
+ * Human-readable names for logged records: the bank description of a transaction, the file
+ * name of a document. Deleted records fall back to the values logged when they were deleted.
+ */
+export async function loadRecordDescriptions(supabase: any, entries: ChangeLogEntry[]): Promise<Map<string, string>> {
+  const descriptions = new Map<string, string>();
+
+  for (const entry of entries) {
+    if (entry.operation !== "DELETE") continue;
+    const removed = entry.changes.original_description || entry.changes.original_filename;
+    if (removed?.old) descriptions.set(entry.record_id, String(removed.old));
+  }
+
+  const idsFor = (table: AuditedTable) =>
+    Array.from(new Set(entries.filter((entry) => entry.table_name === table).map((entry) => entry.record_id)));
+
+  const lookups: Array<[AuditedTable, string]> = [
+    ["categorized_transactions", "original_description"],
+    ["financial_documents", "original_filename"],
+  ];
+
+  for (const [table, column] of lookups) {
+    const ids = idsFor(table);
+    for (let i = 0; i < ids.length; i += LOOKUP_CHUNK_SIZE) {
+      const { data } = await supabase
+        .from(table)
+        .select(`id, ${column}`)
+        .in("id", ids.slice(i, i + LOOKUP_CHUNK_SIZE));
+      for (const row of data || []) {
+        if (row[column]) descriptions.set(row.id, row[column]);
+      }
+    }
+  }
+
+  return descriptions;
+}
+
+/**
+ * Fill in changed_by_name from the users table
+ */
+export async function attachChangedByNames(supabase: any, entries: ChangeLogEntry[]): Promise<ChangeLogEntry[]> {
+  const userIds = Array.from(new Set(entries.map((entry) => entry.changed_by).filter(Boolean)));
+  if (userIds.length === 0) return entries;
+
+  const { data: users } = await supabase
+    .from("users")
+    .select("id, email, full_name")
+    .in("id", userIds);
+
+  const names = new Map<string, string>(
+    (users || []).map((user: any) => [user.id, user.full_name || user.email])
+  );
+
+  return entries.map((entry) => ({
+    ...entry,
+    changed_by_name: entry.changed_by ? names.get(entry.changed_by) || null : null,
+  }));
+}
+
+/**
+ * Render a logged value for people: null as empty, objects as JSON
+ */
+export function formatChangeValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Audit report: one CSV line per changed field, oldest first
+ */
+export function buildAuditReportCsv(entries: ChangeLogEntry[], descriptions: Map<string, string> = new Map()): string {
+  const rows: Array<Array<string | null>> = [];
+
+  for (const entry of [...entries].sort((a, b) => a.changed_at.localeCompare(b.changed_at))) {
+    const base = [
+      entry.changed_at,
+      entry.changed_by_name || entry.changed_by || "",
+      CHANGE_SOURCE_LABELS[entry.source] || entry.source,
+      entry.table_name === "categorized_transactions" ? "Transaction" : "Document",
+      entry.record_id,
+      descriptions.get(entry.record_id) || "",
+      entry.operation,
+    ];
+
+    const fields = Object.entries(entry.changes || {});
+    if (fields.length === 0) {
+      rows.push([...base, "", "", ""]);
+      continue;
+    }
+
+    for (const [field, change] of fields) {
+      rows.push([...base, field, formatChangeValue(change.old), formatChangeValue(change.new)]);
+    }
+  }
+
+  return toCSV(
+    ["Changed At", "Changed By", "Source", "Record Type", "Record ID", "Description", "Action", "Field", "Old Value", "New Value"],
+    rows
+  );
+}
@@ -0,0 +1,98 @@
+/**
+ * Period Close
+ *
+ * A company's books can be closed through a date (usually a month or VAT quarter end once it
+ * has been filed or exported). Database triggers reject inserts, edits and deletes dated on or
+ * before the close date on transactions, documents and journal entries; corrections are
+ * posted as adjustment journal entries with a reason. Routes use these helpers to skip closed
+ * work up front and to turn trigger errors into 409s.
+ */
+
+export interface PeriodClose {
+  id: string;
+  company_profile_id: string;
+  close_date: string;
+  notes: string | null;
+  closed_by: string | null;
+  closed_at: string;
+  reopened_by: string | null;
+  reopened_at: string | null;
+  reopen_reason: string | null;
+}
+
+/**
+ * True for errors raised by the period close and bank reconciliation lock triggers
+ */
+export function isPeriodLockError(error: { message?: string } | null | undefined): boolean {
+  const message = error?.message || "";
+  return message.includes("is closed") || message.includes("is locked");
+}
+
+/**
+ * Last date of the company's closed books, or null when no period is closed
+ */
+export async function getBooksClosedThrough(supabase: any, companyProfileId: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc("books_closed_through", {
+    p_company_profile_id: companyProfileId,
+  });
+
+  if (error) {
+    throw new Error(error.message || "Failed to load period close");
+  }
+
+  return data || null;
+}
+
+/**
+ * Close dates for several companies at once, keyed by company profile id
+ */
+export async function getBooksClosedThroughByCompany(
+  supabase: any,
+  companyProfileIds: string[]
+): Promise<Map<string, string | null>> {
+  const unique = Array.from(new Set(companyProfileIds.filter(Boolean)));
+  const entries = await Promise.all(
+    unique.map(async (id) => [id, await getBooksClosedThrough(supabase, id)] as [string, string | null])
+  );
+  return new Map(entries);
+}
+
+/**
+ * Whether a date (YYYY-MM-DD) falls in a closed period
+ */
+export function isDateClosed(date: string | null | undefined, closedThrough: string | null | undefined): boolean {
+  return !!date && !!closedThrough && date.slice(0, 10) <= closedThrough;
+}
+
+/**
+ * Jobs among `jobIds` with transactions or documents in a closed period, mapped to the
+ * close date that blocks them
+ */
+export async function getJobsInClosedPeriods(supabase: any, jobIds: string[]): Promise<Map<string, string>> {
+  if (jobIds.length === 0) return new Map();
+
+  const { data, error } = await supabase.rpc("jobs_in_closed_periods", { p_job_ids: jobIds });
+
+  if (error) {
+    throw new Error(error.message || "Failed to check closed periods");
+  }
+
+  return new Map((data || []).map((row: any) => [row.job_id, row.closed_through]));
+}
+
+/**
+ * Close history for a company, newest first
+ */
+export async function listPeriodCloses(supabase: any, companyProfileId: string): Promise<PeriodClose[]> {
+  const { data, error } = await supabase
+    .from("period_closes")
+    .select("*")
+    .eq("company_profile_id", companyProfileId)
+    .order("closed_at", { ascending: false });
+
+  if (error) {
+    throw new Error(error.message || "Failed to load period closes");
+  }
+
+  return data || [];
+}
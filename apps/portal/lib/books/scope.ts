@@ -0,0 +1,148 @@
+/**
+ * Books Scope
+ *
+ * Transactions, documents, rules and bank accounts belong to a company profile rather than
+ * the user who uploaded them. A user works the books of every company they created, are a
+ * member of, or that belongs to one of their tenants (see accessible_company_profile_ids).
+ * Queries filter on company_profile_id so colleagues see the same ledger.
+ *
+ * Practice staff can reach dozens of client companies, so requests default to the user's
+ * active company (users.active_company_profile_id, set from the company switcher).
+ */
+
+export interface BooksScope {
+  userId: string;
+  /** Company profiles in scope; narrowed to one when a company is requested */
+  companyProfileIds: string[];
+}
+
+// Matches nothing; keeps `.in()` valid when the user has no accessible companies
+const NO_COMPANY_PROFILE = "00000000-0000-0000-0000-000000000000";
+
+/**
+ * Company profiles whose books the signed-in user can access
+ */
+export async function getAccessibleCompanyProfileIds(supabase: any): Promise<string[]> {
+  const { data, error } = await supabase.rpc("accessible_company_profile_ids");
+
+  if (error) {
+    throw new Error(error.message || "Failed to load accessible company profiles");
+  }
+
+  return (data || []).map((row: any) =>
+    typeof row === "string" ? row : row.accessible_company_profile_ids
+  );
+}
+
+/**
+ * The company the user last switched to, or null when they have not picked one
+ */
+export async function getActiveCompanyProfileId(supabase: any, userId: string): Promise<string | null> {
+  const { data } = await supabase
+    .from("users")
+    .select("active_company_profile_id")
+    .eq("id", userId)
+    .maybeSingle();
+
+  return data?.active_company_profile_id || null;
+}
+
+/**
+ * Switch the user's active company; null clears it so requests span every accessible company
+ */
+export async function setActiveCompanyProfileId(supabase: any, companyProfileId: string | null): Promise<void> {
+  const { error } = await supabase.rpc("set_active_company_profile", {
+    p_company_profile_id: companyProfileId,
+  });
+
+  if (error) {
+    throw new Error(error.message || "Failed to switch company");
+  }
+}
+
+/**
+ * Resolve the books a request may touch. With a companyProfileId the scope is that company
+ * alone, or empty when the user has no access to it. Without one it is the active company,
+ * falling back to every accessible company.
+ */
+export async function getBooksScope(
+  supabase: any,
+  userId: string,
+  companyProfileId?: string | null
+): Promise<BooksScope> {
+  const [accessible, activeCompanyProfileId] = await Promise.all([
+    getAccessibleCompanyProfileIds(supabase),
+    companyProfileId ? Promise.resolve(null) : getActiveCompanyProfileId(supabase, userId),
+  ]);
+
+  if (companyProfileId) {
+    return {
+      userId,
+      companyProfileIds: accessible.includes(companyProfileId) ? [companyProfileId] : [],
+    };
+  }
+
+  if (activeCompanyProfileId && accessible.includes(activeCompanyProfileId)) {
+    return { userId, companyProfileIds: [activeCompanyProfileId] };
+  }
+
+  return { userId, companyProfileIds: accessible };
+}
+
+/**
+ * Every company the user can access, ignoring the active company. For opening a single job
+ * or transaction by id, which links reach whichever company is active.
+ */
+export async function getAccessibleBooksScope(supabase: any, userId: string): Promise<BooksScope> {
+  return { userId, companyProfileIds: await getAccessibleCompanyProfileIds(supabase) };
+}
+
+/**
+ * Whether the signed-in user can change a company's books: any access except a viewer
+ * membership, as the RLS update policies check. Routes writing through the admin client
+ * check this themselves.
+ */
+export async function canEditCompanyProfile(supabase: any, companyProfileId: string | null | undefined): Promise<boolean> {
+  if (!companyProfileId) return false;
+
+  const { data, error } = await supabase.rpc("can_edit_company_profile", {
+    p_company_profile_id: companyProfileId,
+  });
+
+  if (error) {
+    throw new Error(error.message || "Failed to check company access");
+  }
+
+  return data === true;
+}
+
+/**
+ * The companies among `companyProfileIds` whose books the user can change, for bulk actions
+ * over jobs or transactions from several companies
+ */
+export async function getEditableCompanyProfileIds(
+  supabase: any,
+  companyProfileIds: Array<string | null | undefined>
+): Promise<Set<string>> {
+  const editable = new Set<string>();
+  for (const companyProfileId of new Set(companyProfileIds)) {
+    if (companyProfileId && (await canEditCompanyProfile(supabase, companyProfileId))) {
+      editable.add(companyProfileId);
+    }
+  }
+  return editable;
+}
+
+export function canAccessCompanyProfile(scope: BooksScope, companyProfileId: string | null | undefined): boolean {
+  return !!companyProfileId && scope.companyProfileIds.includes(companyProfileId);
+}
+
+/**
+ * Restrict a Supabase query to rows in the scope's company books
+ */
+export function scopeToBooks(query: any, scope: BooksScope, column: string = "company_profile_id"): any {
+  return query.in(
+    column,
+    scope.companyProfileIds.length > 0 ? scope.companyProfileIds : [NO_COMPANY_PROFILE]
+  );
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { detectCsvDelimiter, isCsvFileName, streamCsvRecords, streamCsvRows } from '../csv-stream';
+import { DEFAULT_IMPORT_PROFILE, streamTransactionsWithProfile, type ImportProfile } from '../import-profiles';
+import {
+  CSV_STATEMENT_MAX_FILE_SIZE,
+  STATEMENT_MAX_FILE_SIZE,
+  getStatementMaxFileSize,
+} from '../statement-uploads';
+
+/** A byte stream delivering the text in the given pieces, as a download arrives in chunks */
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+async function* recordsOf(records: string[][]): AsyncGenerator<string[]> {
+  yield* records;
+}
+
+describe('CSV streaming', () => {
+  it('picks the delimiter from the header line, ignoring quoted text', () => {
+    expect(detectCsvDelimiter('Date,Description,Amount')).toBe(',');
+    expect(detectCsvDelimiter('Date;Description;Amount')).toBe(';');
+    expect(detectCsvDelimiter('Date\tDescription\tAmount')).toBe('\t');
+    expect(detectCsvDelimiter('"Date; posted"|"Description, long"|Amount')).toBe('|');
+    expect(isCsvFileName('Statement.CSV')).toBe(true);
+    expect(isCsvFileName('statement.xlsx')).toBe(false);
+  });
+
+  it('reads quoted cells, CRLF and a BOM split across chunks', async () => {
+    const records = await collect(
+      streamCsvRecords(
+        streamOf('\uFEFFDate,Desc', 'ription,Amount\r', '\n2024-01-05,"Coffee, ""large""",-3.50\r\n', '\r\n2024-01-06,"Line\none",10')
+      )
+    );
+
+    expect(records).toEqual([
+      ['Date', 'Description', 'Amount'],
+      ['2024-01-05', 'Coffee, "large"', '-3.50'],
+      ['2024-01-06', 'Line\none', '10'],
+    ]);
+  });
+
+  it('keys rows by header like sheet_to_json', async () => {
+    const rows = await collect(streamCsvRows(streamOf('Date;Amount;;Amount\n2024-01-05; 12,50 ;;7\n')));
+
+    expect(rows).toEqual([{ Date: '2024-01-05', Amount: '12,50', Amount_1: '7' }]);
+  });
+});
+
+describe('import profiles on streamed CSV', () => {
+  const profile: ImportProfile = {
+    ...DEFAULT_IMPORT_PROFILE,
+    column_mapping: { date: 'Date', description: 'Details', amount: 'Amount' },
+    date_format: 'YYYY-MM-DD',
+    header_row_offset: 1,
+    skip_rows_after_header: 1,
+    skip_footer_rows: 1,
+  };
+
+  it('applies row offsets and holds back footer rows across batches', async () => {
+    const records = [
+      ['Account 1234', '', ''],
+      ['Date', 'Details', 'Amount'],
+      ['Opening balance', '', '100'],
+      ['', '', ''],
+      ['2024-01-05', 'Coffee', '-3.50'],
+      ['2024-01-06', 'Salary', '2000'],
+      ['2024-01-07', 'Rent', '-900'],
+      ['Closing balance', '', '1196.50'],
+    ];
+
+    const transactions = await collect(streamTransactionsWithProfile(recordsOf(records), profile, 2));
+
+    expect(transactions.map((tx) => [tx.date, tx.description, tx.amount, tx.is_debit])).toEqual([
+      ['2024-01-05', 'Coffee', 3.5, true],
+      ['2024-01-06', 'Salary', 2000, false],
+      ['2024-01-07', 'Rent', 900, true],
+    ]);
+  });
+
+  it('yields nothing when the file ends inside the preamble', async () => {
+    const transactions = await collect(
+      streamTransactionsWithProfile(recordsOf([['Account 1234'], ['Date', 'Details', 'Amount']]), profile, 2)
+    );
+
+    expect(transactions).toEqual([]);
+  });
+});
+
+describe('statement upload limits', () => {
+  it('lets streamed CSVs be larger than files parsed in memory', () => {
+    expect(getStatementMaxFileSize('statement.csv')).toBe(CSV_STATEMENT_MAX_FILE_SIZE);
+    expect(getStatementMaxFileSize('statement.xlsx')).toBe(STATEMENT_MAX_FILE_SIZE);
+    expect(getStatementMaxFileSize('statement.ofx')).toBe(STATEMENT_MAX_FILE_SIZE);
+    expect(CSV_STATEMENT_MAX_FILE_SIZE).toBeGreaterThan(STATEMENT_MAX_FILE_SIZE);
+  });
+});
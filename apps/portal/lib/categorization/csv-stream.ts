@@ -0,0 +1,167 @@
+/**
+ * Streaming CSV reader
+ *
+ * Reads a CSV statement a chunk at a time, so a multi-year export is never held in memory
+ * as a workbook. Rows come out keyed by header, the same shape XLSX's sheet_to_json gives
+ * extractTransactions, with cells kept as text.
+ */
+
+/** Delimiters tried on the header line; the most frequent one wins */
+const CSV_DELIMITERS = [",", ";", "\t", "|"];
+
+/**
+ * Whether a spreadsheet upload is a CSV file that can be streamed
+ */
+export function isCsvFileName(fileName: string): boolean {
+  return fileName.toLowerCase().endsWith(".csv");
+}
+
+/**
+ * Pick the delimiter used by a header line, ignoring anything inside quotes
+ */
+export function detectCsvDelimiter(line: string): string {
+  const counts = new Map(CSV_DELIMITERS.map((delimiter) => [delimiter, 0]));
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && counts.has(char)) {
+      counts.set(char, counts.get(char)! + 1);
+    }
+  }
+
+  let best = ",";
+  for (const [delimiter, count] of counts) {
+    if (count > counts.get(best)!) best = delimiter;
+  }
+  return best;
+}
+
+/**
+ * Yield each record of a CSV stream as its cells. Handles quoted cells (including
+ * delimiters, doubled quotes and line breaks inside them), CRLF and a UTF-8 BOM;
+ * blank lines are skipped.
+ */
+export async function* streamCsvRecords(stream: ReadableStream<Uint8Array>): AsyncGenerator<string[]> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder("utf-8");
+
+  let delimiter: string | null = null;
+  let head = "";
+  let field = "";
+  let record: string[] = [];
+  let inQuotes = false;
+  let quoteInQuotes = false;
+  let lastWasCR = false;
+  let records: string[][] = [];
+
+  const endRecord = () => {
+    record.push(field);
+    field = "";
+    if (record.length > 1 || record[0] !== "") records.push(record);
+    record = [];
+  };
+
+  const consume = (text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      const afterCR = lastWasCR;
+      lastWasCR = false;
+
+      if (inQuotes) {
+        if (quoteInQuotes) {
+          quoteInQuotes = false;
+          if (char === '"') {
+            field += '"';
+            continue;
+          }
+          inQuotes = false;
+        } else if (char === '"') {
+          quoteInQuotes = true;
+          continue;
+        } else {
+          field += char;
+          continue;
+        }
+      }
+
+      if (char === '"' && field === "") {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        record.push(field);
+        field = "";
+      } else if (char === "\n" || char === "\r") {
+        if (char === "\n" && afterCR) continue;
+        lastWasCR = char === "\r";
+        endRecord();
+      } else {
+        field += char;
+      }
+    }
+  };
+
+  // The delimiter comes from the header line, so text is held until that line is complete
+  const feed = (text: string, final: boolean) => {
+    if (delimiter === null) {
+      head += text;
+      const lineEnd = head.search(/[\r\n]/);
+      if (lineEnd === -1 && !final) return;
+      const content = head.replace(/^\uFEFF/, "");
+      delimiter = detectCsvDelimiter(lineEnd === -1 ? content : content.slice(0, content.search(/[\r\n]/)));
+      head = "";
+      consume(content);
+    } else {
+      consume(text);
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      feed(decoder.decode(value, { stream: true }), false);
+      if (records.length > 0) {
+        yield* records;
+        records = [];
+      }
+    }
+
+    feed(decoder.decode(), true);
+    if (field !== "" || record.length > 0) endRecord();
+    yield* records;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Yield each data row of a CSV stream keyed by its header, skipping empty cells.
+ * Blank headers become __EMPTY and repeated ones get a _1, _2... suffix, as in sheet_to_json.
+ */
+export async function* streamCsvRows(stream: ReadableStream<Uint8Array>): AsyncGenerator<Record<string, string>> {
+  let headers: string[] | null = null;
+
+  for await (const record of streamCsvRecords(stream)) {
+    if (!headers) {
+      headers = uniqueHeaders(record);
+      continue;
+    }
+
+    const row: Record<string, string> = {};
+    for (let i = 0; i < record.length && i < headers.length; i++) {
+      const value = record[i].trim();
+      if (value !== "") row[headers[i]] = value;
+    }
+    yield row;
+  }
+}
+
+function uniqueHeaders(record: string[]): string[] {
+  const seen = new Map<string, number>();
+  return record.map((cell) => {
+    const header = cell.trim() || "__EMPTY";
+    const count = seen.get(header) ?? 0;
+    seen.set(header, count + 1);
+    return count === 0 ? header : `${header}_${count}`;
+  });
+}
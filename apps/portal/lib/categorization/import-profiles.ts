@@ -0,0 +1,511 @@
+/**
+ * Spreadsheet import profiles
+ *
+ * A profile is a saved column-to-field mapping plus parsing options for one bank account's
+ * CSV/XLSX exports. When a profile exists it replaces the header heuristics in
+ * extractTransactions(), so banks with unusual headers, split debit/credit columns or
+ * day-first dates parse the same way every time.
+ */
+
+import type { Transaction } from "./process-spreadsheet";
+
+export type ImportField =
+  | 'date'
+  | 'posted_date'
+  | 'description'
+  | 'payee'
+  | 'amount'
+  | 'debit'
+  | 'credit'
+  | 'balance'
+  | 'reference'
+  | 'type'
+  | 'category'
+  | 'subcategory';
+
+export type ImportDateFormat =
+  | 'auto'
+  | 'DD/MM/YYYY'
+  | 'MM/DD/YYYY'
+  | 'YYYY-MM-DD'
+  | 'DD-MM-YYYY'
+  | 'DD.MM.YYYY'
+  | 'DD MMM YYYY';
+
+export type SignConvention = 'negative_is_debit' | 'positive_is_debit' | 'split_columns';
+
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportProfile {
+  id?: string;
+  bank_account_id?: string;
+  name?: string | null;
+  column_mapping: ColumnMapping;
+  date_format: ImportDateFormat;
+  decimal_separator: '.' | ',';
+  sign_convention: SignConvention;
+  header_row_offset: number;
+  skip_rows_after_header: number;
+  skip_footer_rows: number;
+  last_used_at?: string | null;
+}
+
+/** Fields shown in the mapping UI, in display order */
+export const IMPORT_FIELDS: Array<{ field: ImportField; label: string }> = [
+  { field: 'date', label: 'Date' },
+  { field: 'posted_date', label: 'Posted date' },
+  { field: 'description', label: 'Description' },
+  { field: 'payee', label: 'Payee / payer' },
+  { field: 'amount', label: 'Amount (signed)' },
+  { field: 'debit', label: 'Money out' },
+  { field: 'credit', label: 'Money in' },
+  { field: 'balance', label: 'Balance' },
+  { field: 'reference', label: 'Reference' },
+  { field: 'type', label: 'Transaction type' },
+  { field: 'category', label: 'Bank category' },
+  { field: 'subcategory', label: 'Bank subcategory' },
+];
+
+export const IMPORT_DATE_FORMATS: ImportDateFormat[] = [
+  'auto',
+  'DD/MM/YYYY',
+  'MM/DD/YYYY',
+  'YYYY-MM-DD',
+  'DD-MM-YYYY',
+  'DD.MM.YYYY',
+  'DD MMM YYYY',
+];
+
+export const SIGN_CONVENTIONS: SignConvention[] = ['negative_is_debit', 'positive_is_debit', 'split_columns'];
+
+export const DEFAULT_IMPORT_PROFILE: ImportProfile = {
+  column_mapping: {},
+  date_format: 'auto',
+  decimal_separator: '.',
+  sign_convention: 'negative_is_debit',
+  header_row_offset: 0,
+  skip_rows_after_header: 0,
+  skip_footer_rows: 0,
+};
+
+/** Upper bound for row offsets; bank preambles are a handful of lines */
+const MAX_ROW_OFFSET = 100;
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12,
+};
+
+/**
+ * Header patterns used to pre-fill the mapping for a first upload.
+ * Checked in order; the first header containing a pattern wins.
+ */
+const SUGGESTION_PATTERNS: Record<ImportField, string[]> = {
+  date: ["transaction date", "trans date", "txn date", "date"],
+  posted_date: ["posted date", "post date", "posting date", "cleared date"],
+  description: ["description", "narrative", "details", "memo", "particulars", "transaction"],
+  payee: ["payee", "payer", "counterparty", "merchant", "name"],
+  amount: ["amount", "value", "sum"],
+  debit: ["paid out", "money out", "debit", "withdrawal", "out"],
+  credit: ["paid in", "money in", "credit", "deposit", "in"],
+  balance: ["balance"],
+  reference: ["reference", "ref", "cheque", "check no"],
+  type: ["transaction type", "txn type", "type"],
+  category: ["category"],
+  subcategory: ["sub category", "subcategory"],
+};
+
+/**
+ * Apply the profile's row offsets and return the header row plus data rows keyed by header
+ */
+export function applyProfileToGrid(
+  grid: any[][],
+  profile: Pick<ImportProfile, 'header_row_offset' | 'skip_rows_after_header' | 'skip_footer_rows'>
+): { headers: string[]; rows: Record<string, any>[] } {
+  const headerRow = grid[profile.header_row_offset] || [];
+  const headers = headerRow.map((cell, index) => String(cell ?? "").trim() || `Column ${index + 1}`);
+
+  const start = profile.header_row_offset + 1 + profile.skip_rows_after_header;
+  const end = grid.length - profile.skip_footer_rows;
+  const rows: Record<string, any>[] = [];
+
+  for (let i = start; i < end; i++) {
+    const cells = grid[i] || [];
+    const row: Record<string, any> = {};
+    headers.forEach((header, index) => {
+      row[header] = cells[index] ?? "";
+    });
+    rows.push(row);
+  }
+
+  return { headers, rows };
+}
+
+/**
+ * Guess a mapping from header names. Each header is used for at most one field.
+ */
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+
+  // Specific fields first so e.g. "Posted Date" is not taken by "date" and "Sub Category" not by "category"
+  const order: ImportField[] = [
+    'posted_date', 'subcategory', 'type', 'balance', 'debit', 'credit',
+    'date', 'payee', 'description', 'reference', 'category', 'amount',
+  ];
+
+  for (const field of order) {
+    for (const pattern of SUGGESTION_PATTERNS[field]) {
+      const header = headers.find((h) => {
+        if (used.has(h)) return false;
+        const lower = h.toLowerCase();
+        // Short patterns ("in", "out", "ref") must match a whole word
+        return pattern.length <= 3
+          ? lower.split(/[^a-z]+/).includes(pattern)
+          : lower.includes(pattern);
+      });
+      if (header) {
+        mapping[field] = header;
+        used.add(header);
+        break;
+      }
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Suggest options alongside the mapping: split columns when money in/out are separate
+ */
+export function suggestImportProfile(grid: any[][]): ImportProfile {
+  // The header is the first row with at least two text cells and no date-like cells
+  let headerRowOffset = 0;
+  for (let i = 0; i < Math.min(grid.length, 20); i++) {
+    const cells = (grid[i] || []).filter((c) => c !== "" && c !== null && c !== undefined);
+    const textCells = cells.filter((c) => typeof c === "string" && !/\d/.test(c));
+    if (textCells.length >= 2 && textCells.length === cells.length) {
+      headerRowOffset = i;
+      break;
+    }
+  }
+
+  const { headers } = applyProfileToGrid(grid, { ...DEFAULT_IMPORT_PROFILE, header_row_offset: headerRowOffset });
+  const column_mapping = suggestColumnMapping(headers);
+
+  return {
+    ...DEFAULT_IMPORT_PROFILE,
+    header_row_offset: headerRowOffset,
+    column_mapping,
+    sign_convention: column_mapping.debit || column_mapping.credit ? 'split_columns' : 'negative_is_debit',
+  };
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) return null;
+  return date.toISOString().split("T")[0];
+}
+
+function expandYear(year: number): number {
+  return year < 100 ? (year < 70 ? 2000 + year : 1900 + year) : year;
+}
+
+/**
+ * Parse a date cell using the profile's date format.
+ * 'auto' accepts ISO dates and reads numeric dates day-first, unless only month-first
+ * is valid (12/31/2024).
+ */
+export function parseDateWithFormat(value: any, format: ImportDateFormat): string | null {
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return null;
+    return toIsoDate(value.getFullYear(), value.getMonth() + 1, value.getDate());
+  }
+
+  if (typeof value === "number") {
+    // Excel date serial number
+    const excelEpoch = Date.UTC(1899, 11, 30);
+    const date = new Date(excelEpoch + Math.round(value) * 24 * 60 * 60 * 1000);
+    const year = date.getUTCFullYear();
+    if (year <= 1900 || year >= 2100) return null;
+    return date.toISOString().split("T")[0];
+  }
+
+  if (typeof value !== "string") return null;
+  const text = value.trim();
+  if (!text) return null;
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso && (format === 'auto' || format === 'YYYY-MM-DD')) {
+    return toIsoDate(parseInt(iso[1], 10), parseInt(iso[2], 10), parseInt(iso[3], 10));
+  }
+
+  const named = text.match(/^(\d{1,2})[\s\-/.]+([A-Za-z]{3,9})[\s\-/.,]+(\d{2,4})$/);
+  if (named && (format === 'auto' || format === 'DD MMM YYYY')) {
+    const monthName = named[2].toLowerCase();
+    const month = MONTHS[monthName.slice(0, 4)] ?? MONTHS[monthName.slice(0, 3)];
+    if (!month) return null;
+    return toIsoDate(expandYear(parseInt(named[3], 10)), month, parseInt(named[1], 10));
+  }
+
+  const numeric = text.match(/^(\d{1,2})[/\-.](\d{1,2})[/\-.](\d{2,4})/);
+  if (!numeric) return null;
+
+  const first = parseInt(numeric[1], 10);
+  const second = parseInt(numeric[2], 10);
+  const year = expandYear(parseInt(numeric[3], 10));
+
+  switch (format) {
+    case 'MM/DD/YYYY':
+      return toIsoDate(year, first, second);
+    case 'DD/MM/YYYY':
+    case 'DD-MM-YYYY':
+    case 'DD.MM.YYYY':
+      return toIsoDate(year, second, first);
+    case 'auto':
+      return first <= 12 && second > 12 ? toIsoDate(year, first, second) : toIsoDate(year, second, first);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse an amount cell. Handles currency symbols, thousands separators,
+ * "(12.50)" and trailing-minus negatives, and CR/DR suffixes.
+ */
+export function parseAmountWithSeparator(value: any, decimalSeparator: '.' | ','): number | null {
+  if (typeof value === "number") return isNaN(value) ? null : value;
+  if (typeof value !== "string") return null;
+
+  let text = value.trim();
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (/-$/.test(text)) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+  if (/\bDR$/i.test(text)) {
+    negative = true;
+    text = text.replace(/\s*DR$/i, "");
+  }
+  text = text.replace(/\s*CR$/i, "");
+
+  text = text.replace(/[^\d,.\-+]/g, "");
+  text = decimalSeparator === ","
+    ? text.replace(/\./g, "").replace(",", ".")
+    : text.replace(/,/g, "");
+
+  const parsed = parseFloat(text);
+  if (isNaN(parsed)) return null;
+  return negative ? -Math.abs(parsed) : parsed;
+}
+
+function cellText(row: Record<string, any>, header: string | undefined): string | null {
+  if (!header) return null;
+  const value = row[header];
+  if (value === undefined || value === null || value === "") return null;
+  return value instanceof Date ? value.toISOString().split("T")[0] : String(value).trim() || null;
+}
+
+/**
+ * Extract transactions from a sheet grid using a saved profile
+ */
+export function extractTransactionsWithProfile(grid: any[][], profile: ImportProfile): Transaction[] {
+  const { rows } = applyProfileToGrid(grid, profile);
+  const mapping = profile.column_mapping;
+  const transactions: Transaction[] = [];
+
+  for (const row of rows) {
+    const date = mapping.date ? parseDateWithFormat(row[mapping.date], profile.date_format) : null;
+    if (!date) continue;
+
+    let signedAmount: number | null = null;
+    if (profile.sign_convention === 'split_columns') {
+      const out = mapping.debit ? parseAmountWithSeparator(row[mapping.debit], profile.decimal_separator) : null;
+      const inflow = mapping.credit ? parseAmountWithSeparator(row[mapping.credit], profile.decimal_separator) : null;
+      if (out) {
+        signedAmount = -Math.abs(out);
+      } else if (inflow) {
+        signedAmount = Math.abs(inflow);
+      }
+    } else if (mapping.amount) {
+      const amount = parseAmountWithSeparator(row[mapping.amount], profile.decimal_separator);
+      if (amount !== null) {
+        signedAmount = profile.sign_convention === 'positive_is_debit' ? -amount : amount;
+      }
+    }
+    if (signedAmount === null || signedAmount === 0) continue;
+
+    const description = cellText(row, mapping.description);
+    const payee = cellText(row, mapping.payee);
+    if (!description && !payee) continue;
+
+    const isDebit = signedAmount < 0;
+    const amount = Math.round(Math.abs(signedAmount) * 100) / 100;
+    const postedDate = mapping.posted_date
+      ? parseDateWithFormat(row[mapping.posted_date], profile.date_format)
+      : null;
+    const balance = mapping.balance
+      ? parseAmountWithSeparator(row[mapping.balance], profile.decimal_separator)
+      : null;
+    const reference = cellText(row, mapping.reference);
+
+    const transaction: Transaction = {
+      date,
+      description: [payee, description].filter(Boolean).join(" - "),
+      amount,
+      is_debit: isDebit,
+      transaction_type: isDebit ? 'debit' : 'credit',
+      payee_name: isDebit ? payee : null,
+      payer_name: isDebit ? null : payee,
+      payment_description_reference: description,
+      bank_transaction_type: cellText(row, mapping.type),
+      bank_category: cellText(row, mapping.category),
+      bank_subcategory: cellText(row, mapping.subcategory),
+      paid_in_amount: isDebit ? null : amount,
+      paid_out_amount: isDebit ? amount : null,
+    };
+
+    if (postedDate) transaction.posted_date = postedDate;
+    if (reference) transaction.reference_number = reference;
+    if (balance !== null) transaction.running_balance = balance;
+
+    transactions.push(transaction);
+  }
+
+  return transactions;
+}
+
+/**
+ * Extract transactions from a stream of CSV records using a saved profile, `batchSize` rows
+ * at a time. The profile's row offsets are applied as records arrive and footer rows are held
+ * back until the stream ends, so the file is never held as one grid.
+ */
+export async function* streamTransactionsWithProfile(
+  records: AsyncIterable<string[]>,
+  profile: ImportProfile,
+  batchSize: number
+): AsyncGenerator<Transaction> {
+  // Each batch is a grid of the header row plus data rows, with the offsets already applied
+  const batchProfile: ImportProfile = {
+    ...profile,
+    header_row_offset: 0,
+    skip_rows_after_header: 0,
+    skip_footer_rows: 0,
+  };
+  const firstDataRow = profile.header_row_offset + 1 + profile.skip_rows_after_header;
+
+  let headerRow: string[] = [];
+  let rows: string[][] = [];
+  const held: string[][] = [];
+  let position = 0;
+
+  for await (const record of records) {
+    // Rows of empty cells are blank rows, which the sheet grid leaves out too
+    if (record.every((cell) => cell.trim() === "")) continue;
+
+    const index = position++;
+    if (index === profile.header_row_offset) headerRow = record;
+    if (index < firstDataRow) continue;
+
+    held.push(record);
+    if (held.length <= profile.skip_footer_rows) continue;
+    rows.push(held.shift()!);
+    if (rows.length >= batchSize) {
+      yield* extractTransactionsWithProfile([headerRow, ...rows], batchProfile);
+      rows = [];
+    }
+  }
+
+  yield* extractTransactionsWithProfile([headerRow, ...rows], batchProfile);
+}
+
+/**
+ * Validate a profile from a request body. Returns the normalized profile or an error message.
+ */
+export function validateImportProfile(input: any): { profile?: ImportProfile; error?: string } {
+  if (!input || typeof input !== "object") {
+    return { error: "Import profile is required" };
+  }
+
+  const column_mapping: ColumnMapping = {};
+  const validFields = IMPORT_FIELDS.map((f) => f.field);
+  for (const [field, header] of Object.entries(input.column_mapping || {})) {
+    if (!validFields.includes(field as ImportField)) {
+      return { error: `Unknown import field: ${field}` };
+    }
+    if (typeof header === "string" && header.trim()) {
+      column_mapping[field as ImportField] = header.trim();
+    }
+  }
+
+  const profile: ImportProfile = {
+    ...DEFAULT_IMPORT_PROFILE,
+    name: typeof input.name === "string" ? input.name.trim() || null : null,
+    column_mapping,
+  };
+
+  if (input.date_format !== undefined) {
+    if (!IMPORT_DATE_FORMATS.includes(input.date_format)) {
+      return { error: `date_format must be one of: ${IMPORT_DATE_FORMATS.join(", ")}` };
+    }
+    profile.date_format = input.date_format;
+  }
+  if (input.decimal_separator !== undefined) {
+    if (input.decimal_separator !== "." && input.decimal_separator !== ",") {
+      return { error: "decimal_separator must be '.' or ','" };
+    }
+    profile.decimal_separator = input.decimal_separator;
+  }
+  if (input.sign_convention !== undefined) {
+    if (!SIGN_CONVENTIONS.includes(input.sign_convention)) {
+      return { error: `sign_convention must be one of: ${SIGN_CONVENTIONS.join(", ")}` };
+    }
+    profile.sign_convention = input.sign_convention;
+  }
+
+  for (const key of ['header_row_offset', 'skip_rows_after_header', 'skip_footer_rows'] as const) {
+    if (input[key] === undefined) continue;
+    const value = Number(input[key]);
+    if (!Number.isInteger(value) || value < 0 || value > MAX_ROW_OFFSET) {
+      return { error: `${key} must be a whole number between 0 and ${MAX_ROW_OFFSET}` };
+    }
+    profile[key] = value;
+  }
+
+  if (!column_mapping.date) {
+    return { error: "A date column must be mapped" };
+  }
+  if (!column_mapping.description && !column_mapping.payee) {
+    return { error: "A description or payee column must be mapped" };
+  }
+  if (profile.sign_convention === 'split_columns') {
+    if (!column_mapping.debit && !column_mapping.credit) {
+      return { error: "Map the money in and/or money out columns when amounts are split" };
+    }
+  } else if (!column_mapping.amount) {
+    return { error: "An amount column must be mapped" };
+  }
+
+  return { profile };
+}
+
+/**
+ * Load the saved profile for a bank account, or null when none exists
+ */
+export async function getImportProfile(supabase: any, bankAccountId: string): Promise<ImportProfile | null> {
+  const { data, error } = await supabase
+    .from("bank_account_import_profiles")
+    .select("*")
+    .eq("bank_account_id", bankAccountId)
+    .maybeSingle();
+
+  if (error || !data) return null;
+  return data as ImportProfile;
+}
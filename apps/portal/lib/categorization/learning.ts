@@ -0,0 +1,444 @@
+/**
+ * Learning categorization from user corrections
+ *
+ * Category edits and confirmations are recorded per normalized merchant. Once the most recent
+ * corrections for a merchant agree, a learned rule (or user_category_mappings entry) is proposed,
+ * or created automatically when the user has opted in.
+ */
+
+import { validateRule } from "./rule-engine";
+import { postTransactionsToLedger, resolveCompanyProfileForJob } from "@/lib/ledger/journal";
+import { auditContext } from "@/lib/books/change-log";
+import { scopeToBooks, type BooksScope } from "@/lib/books/scope";
+
+export type CorrectionSource = 'edit' | 'confirm';
+export type LearningAutoCreate = 'off' | 'rule' | 'mapping';
+
+export interface LearningSettings {
+  correction_threshold: number;
+  auto_create: LearningAutoCreate;
+}
+
+export interface LearningSuggestion {
+  merchant_key: string;
+  category: string;
+  subcategory: string | null;
+  correction_count: number;
+  /** Unconfirmed transactions for the same merchant that would change category */
+  similar_count: number;
+  /** Set when a rule or mapping was created automatically */
+  auto_created?: { type: 'rule' | 'mapping'; id: string };
+}
+
+export const DEFAULT_LEARNING_SETTINGS: LearningSettings = {
+  correction_threshold: 3,
+  auto_create: 'off',
+};
+
+/** Learned rules run after user-authored rules (default priority 100) */
+export const LEARNED_RULE_PRIORITY = 500;
+
+/** Upper bound on transactions scanned when looking for similar ones */
+const SIMILAR_SCAN_LIMIT = 5000;
+
+/** Bank boilerplate that precedes the merchant name */
+const DESCRIPTION_PREFIXES = [
+  "card payment to",
+  "card purchase",
+  "contactless payment",
+  "direct debit to",
+  "direct debit",
+  "standing order to",
+  "standing order",
+  "faster payment to",
+  "faster payment",
+  "bill payment to",
+  "bill payment",
+  "payment to",
+  "payment from",
+  "transfer to",
+  "transfer from",
+  "purchase",
+  "pos",
+  "visa",
+  "dd",
+  "so",
+  "fps",
+  "bgc",
+];
+
+/** Words kept in a merchant key */
+const MERCHANT_KEY_WORDS = 3;
+
+/**
+ * Reduce a transaction description to a stable merchant key,
+ * e.g. "CARD PAYMENT TO TESCO STORES 2341 ON 12/01" -> "tesco stores"
+ */
+export function normalizeMerchant(description: string | null | undefined): string {
+  let text = (description || "").toLowerCase();
+
+  // Strip dates and anything after an "on <date>" suffix
+  text = text.replace(/\bon\s+\d{1,2}[/\-.]\d{1,2}([/\-.]\d{2,4})?.*$/, "");
+  text = text.replace(/\d{1,4}[/\-.]\d{1,2}[/\-.]\d{1,4}/g, " ");
+
+  text = text.replace(/[^a-z0-9\s]/g, " ").replace(/\s+/g, " ").trim();
+
+  for (const prefix of DESCRIPTION_PREFIXES) {
+    if (text === prefix) return "";
+    if (text.startsWith(prefix + " ")) {
+      text = text.slice(prefix.length + 1);
+      break;
+    }
+  }
+
+  // Drop tokens containing digits (store numbers, references, card numbers)
+  const words = text
+    .split(" ")
+    .filter((word) => word.length > 1 && !/\d/.test(word));
+
+  return words.slice(0, MERCHANT_KEY_WORDS).join(" ");
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Description regex for a learned rule: the merchant key words in order, separated by
+ * anything that normalization would have removed
+ */
+export function merchantKeyToRegex(merchantKey: string): string {
+  return "\\b" + merchantKey.split(" ").map(escapeRegex).join("[^a-z]+") + "\\b";
+}
+
+/**
+ * Rule body for a learned merchant rule
+ */
+export function buildLearnedRule(merchantKey: string, category: string, subcategory: string | null) {
+  return validateRule({
+    name: `Learned: ${merchantKey}`,
+    description: "Created from consistent category corrections",
+    priority: LEARNED_RULE_PRIORITY,
+    conditions: { description_regex: merchantKeyToRegex(merchantKey) },
+    actions: { category, subcategory },
+  });
+}
+
+/**
+ * Load a user's learning settings, falling back to defaults
+ */
+export async function getLearningSettings(supabase: any, userId: string): Promise<LearningSettings> {
+  const { data } = await supabase
+    .from("categorization_learning_settings")
+    .select("correction_threshold, auto_create")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  return {
+    correction_threshold: data?.correction_threshold ?? DEFAULT_LEARNING_SETTINGS.correction_threshold,
+    auto_create: data?.auto_create ?? DEFAULT_LEARNING_SETTINGS.auto_create,
+  };
+}
+
+/**
+ * Find unconfirmed transactions in the scope's company books for a merchant whose category
+ * differs from the target
+ */
+export async function findSimilarTransactions(
+  supabase: any,
+  scope: BooksScope,
+  merchantKey: string,
+  category: string,
+  subcategory: string | null
+): Promise<Array<{ id: string; job_id: string }>> {
+  const { data: candidates, error } = await scopeToBooks(
+    supabase
+      .from("categorized_transactions")
+      .select("id, job_id, original_description, category, subcategory")
+      .eq("user_confirmed", false),
+    scope
+  )
+    .order("date", { ascending: false })
+    .limit(SIMILAR_SCAN_LIMIT);
+
+  if (error) {
+    console.warn("Failed to fetch similar transactions:", error);
+    return [];
+  }
+
+  return (candidates || [])
+    .filter((tx: any) =>
+      normalizeMerchant(tx.original_description) === merchantKey &&
+      (tx.category !== category || (tx.subcategory || null) !== (subcategory || null))
+    )
+    .map((tx: any) => ({ id: tx.id, job_id: tx.job_id }));
+}
+
+/**
+ * Whether an existing rule or mapping already produces this category for the merchant
+ */
+async function isAlreadyLearned(
+  supabase: any,
+  userId: string,
+  merchantKey: string,
+  category: string,
+  subcategory: string | null
+): Promise<boolean> {
+  const { data: rule } = await supabase
+    .from("categorization_rules")
+    .select("actions")
+    .eq("user_id", userId)
+    .eq("learned_merchant_key", merchantKey)
+    .maybeSingle();
+
+  if (rule && rule.actions?.category === category && (rule.actions?.subcategory || null) === subcategory) {
+    return true;
+  }
+
+  const { data: mapping } = await supabase
+    .from("user_category_mappings")
+    .select("id, subcategory")
+    .eq("user_id", userId)
+    .eq("pattern", merchantKey)
+    .eq("category", category)
+    .maybeSingle();
+
+  return !!mapping && (mapping.subcategory || null) === subcategory;
+}
+
+/**
+ * Create (or retarget) the learned rule for a merchant. Returns the rule id.
+ */
+export async function createLearnedRule(
+  supabase: any,
+  userId: string,
+  merchantKey: string,
+  category: string,
+  subcategory: string | null
+): Promise<string> {
+  const { rule, error: validationError } = buildLearnedRule(merchantKey, category, subcategory);
+  if (!rule) {
+    throw new Error(validationError || "Invalid learned rule");
+  }
+
+  const { data: userData } = await supabase
+    .from("users")
+    .select("tenant_id")
+    .eq("id", userId)
+    .single();
+
+  const { data, error } = await supabase
+    .from("categorization_rules")
+    .upsert({
+      ...rule,
+      user_id: userId,
+      tenant_id: userData?.tenant_id || null,
+      source: "learned",
+      learned_merchant_key: merchantKey,
+    }, {
+      onConflict: "user_id,learned_merchant_key",
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create learned rule: ${error.message}`);
+  }
+  return data.id;
+}
+
+/**
+ * Create a user_category_mappings entry for a merchant. Returns the mapping id.
+ */
+export async function createLearnedMapping(
+  supabase: any,
+  userId: string,
+  merchantKey: string,
+  category: string,
+  subcategory: string | null
+): Promise<string> {
+  const { data: userData } = await supabase
+    .from("users")
+    .select("tenant_id")
+    .eq("id", userId)
+    .single();
+
+  const { data, error } = await supabase
+    .from("user_category_mappings")
+    .upsert({
+      user_id: userId,
+      tenant_id: userData?.tenant_id || null,
+      pattern: merchantKey,
+      category,
+      subcategory,
+      updated_at: new Date().toISOString(),
+    }, {
+      onConflict: "user_id,pattern,category",
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create category mapping: ${error.message}`);
+  }
+  return data.id;
+}
+
+/**
+ * Re-categorize transactions and re-post them to the ledger. Returns the number updated.
+ */
+export async function applyCategoryToTransactions(
+  supabase: any,
+  userId: string,
+  transactions: Array<{ id: string; job_id: string }>,
+  category: string,
+  subcategory: string | null,
+  ruleId: string | null
+): Promise<number> {
+  if (transactions.length === 0) return 0;
+
+  const ids = transactions.map((tx) => tx.id);
+  const { error } = await supabase
+    .from("categorized_transactions")
+    .update({
+      category,
+      subcategory,
+      applied_rule_id: ruleId,
+      sync_status: "pending",
+      ...auditContext(ruleId ? "rule" : "ui", userId),
+    })
+    .in("id", ids);
+
+  if (error) {
+    throw new Error(`Failed to apply category: ${error.message}`);
+  }
+
+  const idsByJob = new Map<string, string[]>();
+  for (const tx of transactions) {
+    idsByJob.set(tx.job_id, [...(idsByJob.get(tx.job_id) || []), tx.id]);
+  }
+  for (const [jobId, jobTransactionIds] of idsByJob) {
+    try {
+      const companyProfileId = await resolveCompanyProfileForJob(supabase, jobId, userId);
+      if (companyProfileId) {
+        await postTransactionsToLedger(supabase, companyProfileId, jobTransactionIds, userId);
+      }
+    } catch (ledgerError) {
+      console.error("Ledger re-post error:", ledgerError);
+    }
+  }
+
+  return ids.length;
+}
+
+/**
+ * Record a correction and, once the latest corrections for the merchant agree, return a suggestion.
+ * Creates the rule or mapping straight away when the user's settings ask for it.
+ */
+export async function learnFromCorrection(
+  supabase: any,
+  params: {
+    userId: string;
+    transaction: {
+      id: string;
+      company_profile_id: string | null;
+      original_description: string | null;
+      category: string | null;
+      subcategory: string | null;
+      applied_rule_id?: string | null;
+    };
+    category: string;
+    subcategory: string | null;
+    source: CorrectionSource;
+  }
+): Promise<LearningSuggestion | null> {
+  const { userId, transaction, category, subcategory, source } = params;
+  const merchantKey = normalizeMerchant(transaction.original_description);
+  if (!merchantKey || !category || category === "Uncategorized") {
+    return null;
+  }
+
+  const { data: userData } = await supabase
+    .from("users")
+    .select("tenant_id")
+    .eq("id", userId)
+    .single();
+
+  const { error: insertError } = await supabase
+    .from("categorization_corrections")
+    .insert({
+      user_id: userId,
+      tenant_id: userData?.tenant_id || null,
+      transaction_id: transaction.id,
+      merchant_key: merchantKey,
+      previous_category: transaction.category,
+      previous_subcategory: transaction.subcategory,
+      category,
+      subcategory,
+      source,
+    });
+
+  if (insertError) {
+    console.warn("Failed to record categorization correction:", insertError);
+    return null;
+  }
+
+  // A rule-categorized transaction the user changed counts against that rule
+  if (source === 'edit' && transaction.applied_rule_id && transaction.category !== category) {
+    const { error: overrideError } = await supabase.rpc("record_categorization_rule_override", {
+      p_rule_id: transaction.applied_rule_id,
+    });
+    if (overrideError) {
+      console.warn("Failed to record rule override:", overrideError);
+    }
+  }
+
+  const settings = await getLearningSettings(supabase, userId);
+
+  const { data: recent } = await supabase
+    .from("categorization_corrections")
+    .select("category, subcategory, source")
+    .eq("user_id", userId)
+    .eq("merchant_key", merchantKey)
+    .order("created_at", { ascending: false })
+    .limit(settings.correction_threshold);
+
+  const corrections = recent || [];
+  const consistent =
+    corrections.length >= settings.correction_threshold &&
+    corrections.every((c: any) => c.category === category && (c.subcategory || null) === (subcategory || null)) &&
+    // Confirming the AI's answer alone is not a correction
+    corrections.some((c: any) => c.source === 'edit');
+
+  if (!consistent || await isAlreadyLearned(supabase, userId, merchantKey, category, subcategory)) {
+    return null;
+  }
+
+  const similar = await findSimilarTransactions(
+    supabase,
+    { userId, companyProfileIds: transaction.company_profile_id ? [transaction.company_profile_id] : [] },
+    merchantKey,
+    category,
+    subcategory
+  );
+  const suggestion: LearningSuggestion = {
+    merchant_key: merchantKey,
+    category,
+    subcategory,
+    correction_count: corrections.length,
+    similar_count: similar.length,
+  };
+
+  if (settings.auto_create !== 'off') {
+    try {
+      const id = settings.auto_create === 'rule'
+        ? await createLearnedRule(supabase, userId, merchantKey, category, subcategory)
+        : await createLearnedMapping(supabase, userId, merchantKey, category, subcategory);
+      suggestion.auto_created = { type: settings.auto_create, id };
+    } catch (error) {
+      console.error("Auto-create from corrections failed:", error);
+    }
+  }
+
+  return suggestion;
+}
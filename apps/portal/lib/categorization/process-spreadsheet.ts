@@ -2,6 +2,26 @@ import * as XLSX from "xlsx";
 import { TransactionMergeService, createMergeService } from "@/lib/sync/TransactionMergeService";
 import type { Transaction as SyncTransaction } from "@/lib/sync/types";
 import { generateTransactionFingerprint } from "@/lib/sync/fingerprint";
+import { isStatementFileName, parseStatementFile, type ParsedStatement } from "./statement-formats";
+import {
+  extractTransactionsWithProfile,
+  getImportProfile,
+  streamTransactionsWithProfile,
+} from "./import-profiles";
+import { findMatchingRule, loadActiveRules, recordRuleHits, type RuleSplit } from "./rule-engine";
+import { normalizeMerchant } from "./learning";
+import { isCsvFileName, streamCsvRecords, streamCsvRows } from "./csv-stream";
+import { STATEMENT_MAX_FILE_SIZE, describeStatementSizeLimit } from "./statement-uploads";
+import { setJobStage } from "@/lib/jobs/progress";
+
+/** Transactions categorized and inserted between checkpoints */
+const IMPORT_CHUNK_SIZE = 500;
+/** AI categorization batches in flight at once */
+const AI_BATCH_CONCURRENCY = 4;
+/** CSV rows handed to extractTransactions at a time while streaming */
+const CSV_ROW_BATCH = 200;
+/** How often the parsed row count is saved while a statement is first read */
+const PARSE_PROGRESS_INTERVAL = 5000;
 
 export interface Transaction {
   date: Date | string;
@@ -21,12 +41,20 @@ export interface Transaction {
   bank_subcategory?: string | null;
   paid_in_amount?: number | null;
   paid_out_amount?: number | null;
+  /** Bank-assigned unique id (OFX FITID, CAMT.053 AcctSvcrRef, MT940 bank reference) */
+  external_transaction_id?: string | null;
 }
 
 export interface CategorizedTransaction extends Transaction {
   category?: string;
   subcategory?: string;
   confidenceScore?: number;
+  /** Set when a categorization rule matched */
+  appliedRuleId?: string;
+  supplierId?: string | null;
+  vatRate?: number | null;
+  notes?: string | null;
+  splitAllocations?: RuleSplit[] | null;
 }
 
 export interface ProcessResult {
@@ -34,6 +62,8 @@ export interface ProcessResult {
   transactionCount?: number;
   insertedCount?: number;
   skippedCount?: number;
+  /** Transactions already stored by another upload, so not inserted again */
+  existingCount?: number;
   duplicateDetails?: Array<{
     fingerprint: string;
     existingTransactionId?: string;
@@ -41,6 +71,30 @@ export interface ProcessResult {
     similarity: number;
   }>;
   error?: string;
+  /** Stopped at the deadline with its checkpoint saved; process the file again with `resume` to finish */
+  paused?: boolean;
+}
+
+export interface ProcessSpreadsheetOptions {
+  /** Continue from the job's saved checkpoint instead of starting again */
+  resume?: boolean;
+  /** Pause between chunks once this time (ms since epoch) has passed */
+  deadline?: number;
+}
+
+/**
+ * Where a chunked import resumes, saved on categorization_jobs.processing_checkpoint.
+ * `offset` counts the statement's transactions, in file order, that have been imported.
+ */
+export interface ImportCheckpoint {
+  offset: number;
+  /** Repeats of a row earlier in the same file */
+  duplicates: number;
+  inserted: number;
+  /** Already stored by another upload */
+  skipped: number;
+  period_start: string | null;
+  period_end: string | null;
 }
 
 /**
@@ -68,6 +122,18 @@ function findColumnValue(row: any, patterns: string[]): any {
   return undefined;
 }
 
+/**
+ * Read the first sheet as a grid of cells for import-profile parsing.
+ * CSV cells are kept as text so the profile decides how dates and decimals are read;
+ * XLSX date and number cells keep their native types.
+ */
+export function readSheetGrid(buffer: ArrayBuffer | Uint8Array): any[][] {
+  const workbook = XLSX.read(buffer, { type: "array", raw: true, cellDates: true });
+  const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!worksheet) return [];
+  return XLSX.utils.sheet_to_json<any[]>(worksheet, { header: 1, raw: true, defval: "", blankrows: false });
+}
+
 /**
  * Extract transactions from spreadsheet data
  * Supports various bank statement formats with case-insensitive column matching
@@ -671,7 +737,64 @@ const debugLog = async (location: string, message: string, data: any) => {
   }
 };
 
+/**
+ * Categorize transactions: user rules first (deterministic), then user mappings and AI
+ * for anything a rule did not give a category.
+ */
 export async function categorizeTransactions(
+  transactions: Transaction[],
+  userId: string,
+  supabase: any,
+  options: { bankAccountId?: string | null } = {}
+): Promise<CategorizedTransaction[]> {
+  const rules = await loadActiveRules(supabase, userId);
+  const matches = transactions.map((tx) =>
+    rules.length > 0
+      ? findMatchingRule(rules, { ...tx, bank_account_id: options.bankAccountId })
+      : null
+  );
+
+  const pendingIndexes = transactions
+    .map((_, index) => index)
+    .filter((index) => !matches[index]?.actions.category);
+  const pendingResults = pendingIndexes.length > 0
+    ? await categorizeWithMappingsAndAI(pendingIndexes.map((index) => transactions[index]), userId, supabase)
+    : [];
+  const pendingByIndex = new Map(pendingIndexes.map((index, i) => [index, pendingResults[i]]));
+
+  const results = transactions.map((tx, index): CategorizedTransaction => {
+    const rule = matches[index];
+    const fallback = pendingByIndex.get(index);
+    if (!rule) {
+      return fallback || { ...tx, category: "Uncategorized", confidenceScore: 0.3 };
+    }
+
+    const { actions } = rule;
+    return {
+      ...tx,
+      category: actions.category || fallback?.category,
+      subcategory: actions.category ? actions.subcategory || undefined : fallback?.subcategory,
+      confidenceScore: actions.category ? 1 : fallback?.confidenceScore,
+      appliedRuleId: rule.id,
+      supplierId: actions.supplier_id ?? null,
+      vatRate: actions.vat_rate ?? null,
+      notes: actions.notes ?? null,
+      splitAllocations: actions.splits ?? null,
+    };
+  });
+
+  await recordRuleHits(
+    supabase,
+    matches.filter((rule): rule is NonNullable<typeof rule> => !!rule).map((rule) => rule.id)
+  );
+
+  return results;
+}
+
+/**
+ * Categorize using user category mappings and AI (when enabled), falling back to keywords
+ */
+async function categorizeWithMappingsAndAI(
   transactions: Transaction[],
   userId: string,
   supabase: any
@@ -759,14 +882,15 @@ export async function categorizeTransactions(
         subcategory: m.subcategory || undefined,
       }));
       
-      const aiService = AICategorizationFactory.create(
-        provider,
+      const aiService = await AICategorizationFactory.createForUser(
+        supabase,
+        userId,
         userMappings,
         aiInstructions,
         companyProfileId
       );
       
-      console.log('[DEBUG] AI service created', { hasService: !!aiService, provider });
+      console.log('[DEBUG] AI service created', { hasService: !!aiService, provider: aiService.getProviderName() });
       await debugLog('process-spreadsheet.ts:194', 'AI service created', { hasService: !!aiService });
       
       // Convert transactions to AI service format (include transaction type and other metadata)
@@ -780,72 +904,51 @@ export async function categorizeTransactions(
         posted_date: tx.posted_date ? (typeof tx.posted_date === "string" ? tx.posted_date : tx.posted_date.toISOString().split("T")[0]) : undefined,
       }));
 
-      // Categorize in batches (process 20 at a time to avoid token limits)
+      // Categorize in batches (process 20 at a time to avoid token limits), a few batches at once
       const BATCH_SIZE = 20;
-      const results: CategorizedTransaction[] = [];
-      const totalBatches = Math.ceil(aiTransactions.length / BATCH_SIZE);
+      const batchStarts: number[] = [];
+      for (let i = 0; i < aiTransactions.length; i += BATCH_SIZE) {
+        batchStarts.push(i);
+      }
+      const totalBatches = batchStarts.length;
       
       console.log('[DEBUG] Starting AI categorization batches', {
         totalTransactions: aiTransactions.length,
         batchSize: BATCH_SIZE,
-        totalBatches
+        totalBatches,
+        concurrency: AI_BATCH_CONCURRENCY
       });
       
-      for (let i = 0; i < aiTransactions.length; i += BATCH_SIZE) {
-        const batch = aiTransactions.slice(i, i + BATCH_SIZE);
-        
-        console.log('[DEBUG] Calling AI categorizeBatch', {
-          batchIndex: i,
-          batchSize: batch.length,
-          batchNumber: Math.floor(i / BATCH_SIZE) + 1,
-          totalBatches
-        });
+      const batchResults = await mapWithConcurrency(batchStarts, AI_BATCH_CONCURRENCY, async (start) => {
+        const batch = aiTransactions.slice(start, start + BATCH_SIZE);
         await debugLog('process-spreadsheet.ts:207', 'Calling AI categorizeBatch', {
-          batchIndex: i,
+          batchIndex: start,
           batchSize: batch.length,
           totalBatches
         });
-        
-        const batchResults = await aiService.categorizeBatch(batch);
-        
-        console.log('[DEBUG] AI categorizeBatch completed', {
-          batchIndex: i,
-          resultsCount: batchResults.length,
-          hasResults: batchResults.length > 0,
-          sampleResult: batchResults[0] ? {
-            category: batchResults[0].category,
-            subcategory: batchResults[0].subcategory,
-            confidenceScore: batchResults[0].confidenceScore
-          } : null
-        });
-        await debugLog('process-spreadsheet.ts:211', 'AI categorizeBatch completed', {
-          resultsCount: batchResults.length,
-          hasResults: batchResults.length > 0
-        });
-        
-        // Merge results back with original transactions
-        for (let j = 0; j < batch.length; j++) {
-          const originalTx = transactions[i + j];
-          const aiResult = batchResults[j];
-          // Handle case where AI returns fewer results than batch size
-          if (aiResult) {
-            results.push({
-              ...originalTx,
-              category: aiResult.category,
-              subcategory: aiResult.subcategory,
-              confidenceScore: aiResult.confidenceScore,
-            });
-          } else {
-            // Fallback for missing AI result
-            results.push({
-              ...originalTx,
-              category: "Uncategorized",
-              subcategory: undefined,
-              confidenceScore: 0.3,
-            });
-          }
+        return aiService.categorizeBatch(batch);
+      });
+
+      // Merge results back with original transactions
+      const results: CategorizedTransaction[] = transactions.map((originalTx, index) => {
+        const aiResult = batchResults[Math.floor(index / BATCH_SIZE)][index % BATCH_SIZE];
+        // Handle case where AI returns fewer results than batch size
+        if (aiResult) {
+          return {
+            ...originalTx,
+            category: aiResult.category,
+            subcategory: aiResult.subcategory,
+            confidenceScore: aiResult.confidenceScore,
+          };
         }
-      }
+        // Fallback for missing AI result
+        return {
+          ...originalTx,
+          category: "Uncategorized",
+          subcategory: undefined,
+          confidenceScore: 0.3,
+        };
+      });
       
       console.log('[DEBUG] AI categorization completed successfully', {
         totalResults: results.length,
@@ -888,7 +991,7 @@ export async function categorizeTransactions(
         const pattern = mapping.pattern.toLowerCase();
         const description = tx.description.toLowerCase();
 
-        if (description.includes(pattern)) {
+        if (description.includes(pattern) || normalizeMerchant(tx.description) === pattern) {
           category = mapping.category;
           subcategory = mapping.subcategory || undefined;
           confidenceScore = 0.9; // High confidence for user-defined mappings
@@ -941,25 +1044,61 @@ export async function categorizeTransactions(
   });
 }
 
+/**
+ * Run `fn` over items with at most `limit` calls in flight, keeping results in item order.
+ * Stops starting new calls once one has failed.
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index]);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
 /**
  * Process a spreadsheet file and return categorized transactions
  * Uses TransactionMergeService for duplicate detection
+ *
+ * Transactions are categorized and inserted IMPORT_CHUNK_SIZE at a time. After each chunk the
+ * job's progress and checkpoint are saved, so a large statement can pause at `deadline` and
+ * later resume from where it stopped.
  * @param adminClient - Optional admin client for inserts (bypasses RLS)
  */
 export async function processSpreadsheetFile(
-  fileBuffer: ArrayBuffer,
+  file: ArrayBuffer | Blob,
   jobId: string,
   userId: string,
   supabase: any,
-  adminClient?: any
+  adminClient?: any,
+  options: ProcessSpreadsheetOptions = {}
 ): Promise<ProcessResult> {
   await debugLog('process-spreadsheet.ts:294', 'processSpreadsheetFile entry', {
     jobId,
     userId,
-    fileSize: fileBuffer.byteLength
+    fileSize: file instanceof Blob ? file.size : file.byteLength
   });
   
   try {
+    const clientForUpdates = adminClient || supabase;
+
     // Get tenant_id for the user
     const { data: userData } = await supabase
       .from("users")
@@ -967,10 +1106,10 @@ export async function processSpreadsheetFile(
       .eq("id", userId)
       .single();
 
-    // Get bank_account_id and any extracted date range from job
+    // Get bank_account_id, any extracted date range and the saved checkpoint from job
     const { data: jobData } = await supabase
       .from("categorization_jobs")
-      .select("bank_account_id, extracted_date_start, extracted_date_end")
+      .select("bank_account_id, extracted_date_start, extracted_date_end, original_filename, rows_total, processing_checkpoint")
       .eq("id", jobId)
       .single();
 
@@ -983,203 +1122,297 @@ export async function processSpreadsheetFile(
       bankAccountId
     });
 
-    // Parse spreadsheet
-    const workbook = XLSX.read(fileBuffer, { type: "array" });
-    const sheetName = workbook.SheetNames[0];
-    const worksheet = workbook.Sheets[sheetName];
-    const data = XLSX.utils.sheet_to_json(worksheet, { raw: false });
+    const fileBlob = file instanceof Blob ? file : new Blob([file]);
+    const fileName: string = jobData?.original_filename || "";
 
-    await debugLog('process-spreadsheet.ts:323', 'Spreadsheet parsed', {
-      sheetName,
-      rowCount: data.length
-    });
-
-    // Extract transactions
-    const transactions = extractTransactions(data);
-
-    await debugLog('process-spreadsheet.ts:327', 'Transactions extracted', {
-      transactionCount: transactions.length
-    });
+    // Only CSVs are streamed; anything else is parsed whole, so it keeps the in-memory limit
+    if (!isCsvFileName(fileName) && fileBlob.size > STATEMENT_MAX_FILE_SIZE) {
+      return {
+        success: false,
+        error: `File is too large. ${describeStatementSizeLimit(fileName)}.`,
+      };
+    }
 
-    if (transactions.length === 0) {
+    // Native statement formats (OFX/QIF/CAMT.053/MT940) carry exact values; spreadsheets use column heuristics
+    const statement: ParsedStatement | null = isStatementFileName(fileName)
+      ? parseStatementFile(fileName, await fileBlob.arrayBuffer())
+      : null;
+    if (!statement && isStatementFileName(fileName)) {
+      // Not the format its extension stands for; never fall back to reading it as a spreadsheet
       return {
         success: false,
-        error: "No transactions found in spreadsheet",
+        error: `${fileName} is not a recognised bank statement file`,
       };
     }
 
-    // Convert to sync transaction format
-    const syncTransactions: SyncTransaction[] = transactions.map(tx => ({
-      original_description: tx.description,
-      amount: tx.amount,
-      date: typeof tx.date === "string" ? tx.date : tx.date.toISOString().split("T")[0],
-      transaction_type: tx.transaction_type,
-      is_debit: tx.is_debit,
-      posted_date: tx.posted_date ? (typeof tx.posted_date === "string" ? tx.posted_date : tx.posted_date.toISOString().split("T")[0]) : null,
-      reference_number: tx.reference_number || null,
-      merchant_category_code: tx.merchant_category_code || null,
-      running_balance: tx.running_balance ?? null,
-      payee_name: tx.payee_name || null,
-      payer_name: tx.payer_name || null,
-      payment_description_reference: tx.payment_description_reference || null,
-      bank_transaction_type: tx.bank_transaction_type || null,
-      bank_category: tx.bank_category || null,
-      bank_subcategory: tx.bank_subcategory || null,
-      paid_in_amount: tx.paid_in_amount ?? null,
-      paid_out_amount: tx.paid_out_amount ?? null,
-      category: undefined,
-      subcategory: undefined,
-    }));
+    // A saved import profile for the bank account replaces the header heuristics
+    const importProfile = !statement && bankAccountId
+      ? await getImportProfile(clientForUpdates, bankAccountId)
+      : null;
+
+    // Read twice: once to count and date the statement, then again to import it
+    let readTransactions: () => AsyncIterable<Transaction>;
+    if (statement) {
+      const parsed = statement.transactions;
+      readTransactions = () => replayTransactions(parsed);
+      await debugLog('process-spreadsheet.ts:323', 'Statement parsed', {
+        format: statement.format,
+        transactionCount: parsed.length
+      });
+    } else if (importProfile) {
+      if (isCsvFileName(fileName)) {
+        readTransactions = () =>
+          streamTransactionsWithProfile(streamCsvRecords(fileBlob.stream()), importProfile, CSV_ROW_BATCH);
+      } else {
+        const parsed = extractTransactionsWithProfile(readSheetGrid(await fileBlob.arrayBuffer()), importProfile);
+        readTransactions = () => replayTransactions(parsed);
+        await debugLog('process-spreadsheet.ts:323', 'Spreadsheet parsed with import profile', {
+          profileId: importProfile.id,
+          transactionCount: parsed.length
+        });
+      }
 
-    // Use TransactionMergeService for duplicate detection and insertion
-    // Use admin client if provided to bypass RLS for inserts
-    const clientForInserts = adminClient || supabase;
-    const mergeService = createMergeService(clientForInserts, userId, userData?.tenant_id || null);
-    
-    // Categorize transactions first
-    await debugLog('process-spreadsheet.ts:346', 'Starting categorization', {
-      transactionCount: transactions.length
-    });
-    
-    const categorizedTransactions = await categorizeTransactions(
-      transactions,
-      userId,
-      supabase
-    );
-
-    await debugLog('process-spreadsheet.ts:353', 'Categorization completed', {
-      categorizedCount: categorizedTransactions.length
-    });
+      await clientForUpdates
+        .from("bank_account_import_profiles")
+        .update({ last_used_at: new Date().toISOString() })
+        .eq("id", importProfile.id);
+    } else if (isCsvFileName(fileName)) {
+      // Streamed, so a multi-year export is never held in memory
+      readTransactions = () => streamCsvTransactions(fileBlob);
+    } else {
+      // Parse spreadsheet
+      const workbook = XLSX.read(await fileBlob.arrayBuffer(), { type: "array" });
+      const sheetName = workbook.SheetNames[0];
+      const worksheet = workbook.Sheets[sheetName];
+      const data = XLSX.utils.sheet_to_json(worksheet, { raw: false });
+
+      await debugLog('process-spreadsheet.ts:323', 'Spreadsheet parsed', {
+        sheetName,
+        rowCount: data.length
+      });
 
-    // Map categorized transactions back to sync format
-    const categorizedSyncTransactions: SyncTransaction[] = syncTransactions.map((tx, index) => {
-      const categorized = categorizedTransactions[index];
-      return {
-        ...tx,
-        category: categorized.category,
-        subcategory: categorized.subcategory,
-        confidence_score: categorized.confidenceScore,
-      };
-    });
+      // Extract transactions
+      const parsed = extractTransactions(data);
+      readTransactions = () => replayTransactions(parsed);
+    }
 
-    // Determine statement period (prefer filename-extracted range; fallback to min/max tx dates)
-    const txDates = categorizedSyncTransactions
-      .map((t) => (typeof t.date === "string" ? t.date : t.date.toISOString().split("T")[0]))
-      .filter(Boolean)
-      .sort();
-    const minTxDate = txDates[0];
-    const maxTxDate = txDates[txDates.length - 1];
+    let checkpoint: ImportCheckpoint | null = options.resume ? jobData?.processing_checkpoint || null : null;
+    let totalRows: number = jobData?.rows_total || 0;
+
+    if (!checkpoint) {
+      await setJobStage(clientForUpdates, jobId, "parsing");
+
+      // Count the transactions and find their date range without keeping them
+      let minTxDate: string | undefined;
+      let maxTxDate: string | undefined;
+      totalRows = 0;
+      for await (const tx of readTransactions()) {
+        totalRows++;
+        const dateStr = formatTransactionDate(tx.date);
+        if (dateStr && (!minTxDate || dateStr < minTxDate)) minTxDate = dateStr;
+        if (dateStr && (!maxTxDate || dateStr > maxTxDate)) maxTxDate = dateStr;
+        if (totalRows % PARSE_PROGRESS_INTERVAL === 0) {
+          await clientForUpdates.from("categorization_jobs").update({ rows_parsed: totalRows }).eq("id", jobId);
+        }
+      }
 
-    const periodStart = extractedDateStart || minTxDate;
-    const periodEnd = extractedDateEnd || maxTxDate;
+      await clientForUpdates
+        .from("categorization_jobs")
+        .update({
+          rows_total: totalRows,
+          rows_parsed: totalRows,
+          rows_categorized: 0,
+          rows_inserted: 0,
+          processing_checkpoint: null,
+          processing_stage: "categorizing",
+        })
+        .eq("id", jobId);
+
+      await debugLog('process-spreadsheet.ts:327', 'Transactions extracted', {
+        transactionCount: totalRows
+      });
 
-    // Persist computed period back to job if missing
-    try {
-      const clientForJobUpdate = adminClient || supabase;
-      const updatePayload: Record<string, string> = {};
-      if (!extractedDateStart && periodStart) updatePayload.extracted_date_start = periodStart;
-      if (!extractedDateEnd && periodEnd) updatePayload.extracted_date_end = periodEnd;
-      if (Object.keys(updatePayload).length > 0) {
-        await clientForJobUpdate.from("categorization_jobs").update(updatePayload).eq("id", jobId);
+      if (totalRows === 0) {
+        return {
+          success: false,
+          error: "No transactions found in spreadsheet",
+        };
       }
-    } catch {
-      // Non-fatal
-    }
 
-    // Replace-by-period: delete existing transactions for this bank account within the statement period
-    if (bankAccountId && periodStart && periodEnd) {
-      const clientForDeletes = adminClient || supabase;
+      // Determine statement period (prefer filename-extracted range; fallback to min/max tx dates)
+      const periodStart = statement?.metadata.period_start || extractedDateStart || minTxDate;
+      const periodEnd = statement?.metadata.period_end || extractedDateEnd || maxTxDate;
+
+      // Persist computed period back to job if missing
       try {
-        // Find all jobs for this user+bank account
-        const { data: jobsForAccount } = await clientForDeletes
-          .from("categorization_jobs")
-          .select("id")
-          .eq("user_id", userId)
-          .eq("bank_account_id", bankAccountId);
-
-        const jobIds = (jobsForAccount || []).map((j: any) => j.id).filter(Boolean);
-        if (jobIds.length > 0) {
-          // Batch deletes (avoid very large IN lists)
-          const CHUNK = 200;
-          for (let i = 0; i < jobIds.length; i += CHUNK) {
-            const chunk = jobIds.slice(i, i + CHUNK);
-            await clientForDeletes
-              .from("categorized_transactions")
-              .delete()
-              .in("job_id", chunk)
-              .gte("date", periodStart)
-              .lte("date", periodEnd);
-          }
+        const updatePayload: Record<string, string> = {};
+        if (!extractedDateStart && periodStart) updatePayload.extracted_date_start = periodStart;
+        if (!extractedDateEnd && periodEnd) updatePayload.extracted_date_end = periodEnd;
+        if (Object.keys(updatePayload).length > 0) {
+          await clientForUpdates.from("categorization_jobs").update(updatePayload).eq("id", jobId);
         }
-      } catch (e) {
-        console.warn("Replace-by-period deletion failed (continuing with insert):", e);
+      } catch {
+        // Non-fatal
+      }
+
+      // Replace-by-period: delete existing transactions for this bank account within the statement period.
+      // Only done before the first chunk; a resumed import keeps what it has inserted.
+      if (bankAccountId && periodStart && periodEnd) {
+        await replaceTransactionsInPeriod(clientForUpdates, userId, bankAccountId, periodStart, periodEnd);
       }
+
+      checkpoint = {
+        offset: 0,
+        duplicates: 0,
+        inserted: 0,
+        skipped: 0,
+        period_start: periodStart || null,
+        period_end: periodEnd || null,
+      };
+      await clientForUpdates
+        .from("categorization_jobs")
+        .update({ processing_checkpoint: checkpoint })
+        .eq("id", jobId);
     }
 
+    // Use TransactionMergeService for duplicate detection and insertion
+    // Use admin client if provided to bypass RLS for inserts
+    const mergeService = createMergeService(clientForUpdates, userId, userData?.tenant_id || null);
+
     // De-dupe within the upload itself (prevents duplicates if the spreadsheet repeats a row)
     const seen = new Set<string>();
-    let intraFileDuplicates = 0;
-    const uniqueCategorizedSyncTransactions: SyncTransaction[] = [];
-    for (const tx of categorizedSyncTransactions) {
-      const dateStr = typeof tx.date === "string" ? tx.date : tx.date.toISOString().split("T")[0];
-      const fp =
-        tx.transaction_fingerprint ||
-        generateTransactionFingerprint(tx.original_description, tx.amount, dateStr);
-      if (seen.has(fp)) {
-        intraFileDuplicates++;
+    let similarityScore = 0;
+
+    const importChunk = async (transactions: Transaction[], previous: ImportCheckpoint): Promise<ImportCheckpoint> => {
+      const categorizedTransactions = await categorizeTransactions(
+        transactions,
+        userId,
+        supabase,
+        { bankAccountId }
+      );
+
+      await clientForUpdates
+        .from("categorization_jobs")
+        .update({
+          rows_categorized: previous.offset + transactions.length,
+          processing_stage: "deduplicating",
+          status_message: `Categorized ${previous.offset + transactions.length} of ${totalRows} transactions...`,
+        })
+        .eq("id", jobId);
+
+      let duplicates = 0;
+      const uniqueSyncTransactions: SyncTransaction[] = [];
+      categorizedTransactions.forEach((categorized, index) => {
+        const fp = fingerprintTransaction(transactions[index]);
+        if (seen.has(fp)) {
+          duplicates++;
+          return;
+        }
+        seen.add(fp);
+        uniqueSyncTransactions.push({
+          ...toSyncTransaction(transactions[index]),
+          category: categorized.category,
+          subcategory: categorized.subcategory,
+          confidence_score: categorized.confidenceScore,
+          applied_rule_id: categorized.appliedRuleId ?? null,
+          supplier_id: categorized.supplierId ?? null,
+          vat_rate: categorized.vatRate ?? null,
+          user_notes: categorized.notes ?? null,
+          split_allocations: categorized.splitAllocations ?? null,
+          transaction_fingerprint: fp,
+        });
+      });
+
+      // Always run duplicate detection to prevent duplicate transactions across all uploads
+      // Even with period-replace (which deletes transactions in the period), we should still
+      // check for duplicates to avoid inserting transactions that already exist from other periods/jobs.
+      // It also catches rows a chunk inserted before an interrupted run could save its checkpoint.
+      const mergeResult = await mergeService.processUploadWithMerge(uniqueSyncTransactions, {
+        sourceType: "upload",
+        sourceIdentifier: `job_${jobId}`,
+        jobId: jobId,
+        createJob: false,
+        skipDuplicateCheck: false, // Always check for duplicates to prevent duplicate transactions
+        bankAccountId: bankAccountId,
+      });
+      similarityScore = Math.max(similarityScore, mergeResult.similarityScore || 0);
+
+      await debugLog('process-spreadsheet.ts:375', 'Merge service completed', {
+        offset: previous.offset,
+        inserted: mergeResult.inserted,
+        skipped: mergeResult.skipped
+      });
+
+      const next: ImportCheckpoint = {
+        ...previous,
+        offset: previous.offset + transactions.length,
+        duplicates: previous.duplicates + duplicates,
+        inserted: previous.inserted + mergeResult.inserted,
+        skipped: previous.skipped + mergeResult.skipped,
+      };
+      await clientForUpdates
+        .from("categorization_jobs")
+        .update({ rows_inserted: next.inserted, processing_checkpoint: next, processing_stage: "categorizing" })
+        .eq("id", jobId);
+      return next;
+    };
+
+    let position = 0;
+    let chunk: Transaction[] = [];
+    let chunksThisRun = 0;
+    let paused = false;
+    for await (const tx of readTransactions()) {
+      position++;
+      if (position <= checkpoint.offset) {
+        // Imported by an earlier run; remembered so later repeats of it still count as duplicates
+        seen.add(fingerprintTransaction(tx));
         continue;
       }
-      seen.add(fp);
-      uniqueCategorizedSyncTransactions.push({
-        ...tx,
-        transaction_fingerprint: fp,
-      });
+
+      chunk.push(tx);
+      if (chunk.length < IMPORT_CHUNK_SIZE) continue;
+
+      // Every run imports at least one chunk, so a resumed job always moves forward
+      if (options.deadline && chunksThisRun > 0 && Date.now() >= options.deadline) {
+        paused = true;
+        break;
+      }
+      checkpoint = await importChunk(chunk, checkpoint);
+      chunksThisRun++;
+      chunk = [];
     }
 
-    // Process with merge service (handles duplicate detection)
-    console.log('[DEBUG] Starting merge service', {
-      syncTransactionCount: uniqueCategorizedSyncTransactions.length,
-      jobId,
-      bankAccountId,
-      categorizedCount: uniqueCategorizedSyncTransactions.filter(tx => tx.category).length,
-      periodReplace: !!(bankAccountId && periodStart && periodEnd)
-    });
-    await debugLog('process-spreadsheet.ts:365', 'Starting merge service', {
-      syncTransactionCount: categorizedSyncTransactions.length
-    });
-    
-    // Always run duplicate detection to prevent duplicate transactions across all uploads
-    // Even with period-replace (which deletes transactions in the period), we should still
-    // check for duplicates to avoid inserting transactions that already exist from other periods/jobs
-    const mergeResult = await mergeService.processUploadWithMerge(uniqueCategorizedSyncTransactions, {
-      sourceType: "upload",
-      sourceIdentifier: `job_${jobId}`,
-      jobId: jobId,
-      createJob: false,
-      skipDuplicateCheck: false, // Always check for duplicates to prevent duplicate transactions
-      bankAccountId: bankAccountId,
-    });
+    if (paused) {
+      return {
+        success: true,
+        paused: true,
+        transactionCount: checkpoint.offset - checkpoint.duplicates,
+        insertedCount: checkpoint.inserted,
+        skippedCount: checkpoint.duplicates,
+        existingCount: checkpoint.skipped,
+      };
+    }
+    if (chunk.length > 0) {
+      checkpoint = await importChunk(chunk, checkpoint);
+    }
 
-    console.log('[DEBUG] Merge service completed', {
-      inserted: mergeResult.inserted,
-      skipped: mergeResult.skipped,
-      updated: mergeResult.updated,
-      mode: mergeResult.mode,
-      message: mergeResult.message,
-      jobId
-    });
-    await debugLog('process-spreadsheet.ts:375', 'Merge service completed', {
-      inserted: mergeResult.inserted,
-      skipped: mergeResult.skipped
-    });
+    const uniqueCount = checkpoint.offset - checkpoint.duplicates;
+
+    // Record statement balances for balance validation and the cash flow statement
+    if (statement) {
+      await saveStatementMetadata(clientForUpdates, jobId, bankAccountId, statement, {
+        periodStart: checkpoint.period_start || undefined,
+        periodEnd: checkpoint.period_end || undefined,
+      });
+    }
 
     // Update job with item counts
     await supabase
       .from("categorization_jobs")
       .update({
-        total_items: uniqueCategorizedSyncTransactions.length,
-        processed_items: mergeResult.inserted,
-        failed_items: intraFileDuplicates,
+        total_items: uniqueCount,
+        processed_items: checkpoint.inserted,
+        failed_items: checkpoint.duplicates,
       })
       .eq("id", jobId);
 
@@ -1192,20 +1425,21 @@ export async function processSpreadsheetFile(
     }> = [];
 
     // Get duplicate details from merge result
-    if (mergeResult.skipped > 0) {
+    if (checkpoint.skipped > 0) {
       // We can't get exact duplicate details from merge result, but we can indicate duplicates were found
       duplicateDetails.push({
         fingerprint: "multiple",
         matchType: "exact",
-        similarity: mergeResult.similarityScore || 0,
+        similarity: similarityScore,
       });
     }
 
     return {
       success: true,
-      transactionCount: uniqueCategorizedSyncTransactions.length,
-      insertedCount: mergeResult.inserted,
-      skippedCount: intraFileDuplicates,
+      transactionCount: uniqueCount,
+      insertedCount: checkpoint.inserted,
+      skippedCount: checkpoint.duplicates,
+      existingCount: checkpoint.skipped,
       duplicateDetails: duplicateDetails.length > 0 ? duplicateDetails : undefined,
     };
   } catch (error: any) {
@@ -1222,3 +1456,175 @@ export async function processSpreadsheetFile(
   }
 }
 
+async function* replayTransactions(transactions: Transaction[]): AsyncGenerator<Transaction> {
+  yield* transactions;
+}
+
+/**
+ * Stream a CSV statement's transactions, extracting CSV_ROW_BATCH rows at a time
+ */
+async function* streamCsvTransactions(file: Blob): AsyncGenerator<Transaction> {
+  let rows: Record<string, string>[] = [];
+  for await (const row of streamCsvRows(file.stream())) {
+    rows.push(row);
+    if (rows.length >= CSV_ROW_BATCH) {
+      yield* extractTransactions(rows);
+      rows = [];
+    }
+  }
+  yield* extractTransactions(rows);
+}
+
+function formatTransactionDate(date: Date | string): string {
+  return typeof date === "string" ? date : date.toISOString().split("T")[0];
+}
+
+function fingerprintTransaction(tx: Transaction): string {
+  return generateTransactionFingerprint(
+    tx.description,
+    tx.amount,
+    formatTransactionDate(tx.date),
+    tx.external_transaction_id || null
+  );
+}
+
+/**
+ * Convert to sync transaction format
+ */
+function toSyncTransaction(tx: Transaction): SyncTransaction {
+  return {
+    original_description: tx.description,
+    amount: tx.amount,
+    date: formatTransactionDate(tx.date),
+    transaction_type: tx.transaction_type,
+    is_debit: tx.is_debit,
+    posted_date: tx.posted_date ? formatTransactionDate(tx.posted_date) : null,
+    reference_number: tx.reference_number || null,
+    merchant_category_code: tx.merchant_category_code || null,
+    running_balance: tx.running_balance ?? null,
+    payee_name: tx.payee_name || null,
+    payer_name: tx.payer_name || null,
+    payment_description_reference: tx.payment_description_reference || null,
+    bank_transaction_type: tx.bank_transaction_type || null,
+    bank_category: tx.bank_category || null,
+    bank_subcategory: tx.bank_subcategory || null,
+    paid_in_amount: tx.paid_in_amount ?? null,
+    paid_out_amount: tx.paid_out_amount ?? null,
+    external_transaction_id: tx.external_transaction_id || null,
+    category: undefined,
+    subcategory: undefined,
+  };
+}
+
+/**
+ * Delete the user's transactions for a bank account within a statement period, so
+ * re-uploading a statement replaces it
+ */
+async function replaceTransactionsInPeriod(
+  client: any,
+  userId: string,
+  bankAccountId: string,
+  periodStart: string,
+  periodEnd: string
+): Promise<void> {
+  try {
+    // Find all jobs for this user+bank account
+    const { data: jobsForAccount } = await client
+      .from("categorization_jobs")
+      .select("id")
+      .eq("user_id", userId)
+      .eq("bank_account_id", bankAccountId);
+
+    const jobIds = (jobsForAccount || []).map((j: any) => j.id).filter(Boolean);
+    if (jobIds.length > 0) {
+      // Batch deletes (avoid very large IN lists)
+      const CHUNK = 200;
+      for (let i = 0; i < jobIds.length; i += CHUNK) {
+        const chunk = jobIds.slice(i, i + CHUNK);
+        await client
+          .from("categorized_transactions")
+          .delete()
+          .in("job_id", chunk)
+          .gte("date", periodStart)
+          .lte("date", periodEnd);
+      }
+    }
+  } catch (e) {
+    console.warn("Replace-by-period deletion failed (continuing with insert):", e);
+  }
+}
+
+
+/**
+ * Store opening/closing balances from a native statement on the job's financial_documents
+ * row and in bank_statement_metadata. Failures are logged and do not fail the job.
+ */
+async function saveStatementMetadata(
+  client: any,
+  jobId: string,
+  bankAccountId: string | null,
+  statement: ParsedStatement,
+  period: { periodStart?: string; periodEnd?: string }
+): Promise<void> {
+  try {
+    const { metadata, transactions } = statement;
+
+    const { data: document } = await client
+      .from("financial_documents")
+      .select("id")
+      .eq("job_id", jobId)
+      .limit(1)
+      .maybeSingle();
+
+    if (!document) return;
+
+    await client
+      .from("financial_documents")
+      .update({
+        opening_balance: metadata.opening_balance ?? null,
+        closing_balance: metadata.closing_balance ?? null,
+        statement_period_start: period.periodStart || null,
+        statement_period_end: period.periodEnd || null,
+        account_number: metadata.account_number || null,
+      })
+      .eq("id", document.id);
+
+    // bank_statement_metadata requires both balances; QIF has none
+    if (
+      metadata.opening_balance === undefined ||
+      metadata.closing_balance === undefined ||
+      !period.periodStart ||
+      !period.periodEnd
+    ) {
+      return;
+    }
+
+    const totalDebits = transactions
+      .filter((tx) => tx.is_debit)
+      .reduce((sum, tx) => sum + tx.amount, 0);
+    const totalCredits = transactions
+      .filter((tx) => !tx.is_debit)
+      .reduce((sum, tx) => sum + tx.amount, 0);
+
+    await client
+      .from("bank_statement_metadata")
+      .upsert(
+        {
+          financial_document_id: document.id,
+          bank_account_id: bankAccountId,
+          statement_number: metadata.statement_number || null,
+          opening_balance: metadata.opening_balance,
+          closing_balance: metadata.closing_balance,
+          period_start: period.periodStart,
+          period_end: period.periodEnd,
+          currency: metadata.currency || 'GBP',
+          transaction_count: transactions.length,
+          total_debits: Math.round(totalDebits * 100) / 100,
+          total_credits: Math.round(totalCredits * 100) / 100,
+        },
+        { onConflict: "financial_document_id" }
+      );
+  } catch (error) {
+    console.warn("Failed to save statement metadata (continuing):", error);
+  }
+}
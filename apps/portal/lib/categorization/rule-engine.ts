@@ -0,0 +1,317 @@
+/**
+ * Categorization rule engine
+ *
+ * Rules are evaluated in priority order (ascending) before user mappings and AI.
+ * Every condition present on a rule must match; the first matching rule wins.
+ */
+
+export type RuleDirection = 'in' | 'out';
+
+export interface RuleConditions {
+  /** Case-insensitive regular expression tested against the description */
+  description_regex?: string;
+  /** Case-insensitive substring of the payee/payer name (falls back to the description) */
+  payee?: string;
+  /** Inclusive bounds on the absolute amount */
+  amount_min?: number;
+  amount_max?: number;
+  direction?: RuleDirection;
+  bank_account_ids?: string[];
+  /** Merchant category codes */
+  mcc?: string[];
+  /** Inclusive YYYY-MM-DD bounds on the transaction date */
+  date_from?: string;
+  date_to?: string;
+}
+
+export interface RuleSplit {
+  category: string;
+  subcategory?: string | null;
+  percentage: number;
+}
+
+export interface RuleActions {
+  category?: string;
+  subcategory?: string | null;
+  supplier_id?: string | null;
+  vat_rate?: number | null;
+  notes?: string | null;
+  splits?: RuleSplit[];
+}
+
+export interface CategorizationRule {
+  id: string;
+  name: string;
+  description?: string | null;
+  priority: number;
+  is_active: boolean;
+  conditions: RuleConditions;
+  actions: RuleActions;
+  hit_count?: number;
+  last_matched_at?: string | null;
+}
+
+/** The transaction fields rules can match on */
+export interface RuleTransaction {
+  description: string;
+  amount: number;
+  is_debit?: boolean | null;
+  date: string | Date;
+  payee_name?: string | null;
+  payer_name?: string | null;
+  merchant_category_code?: string | null;
+  bank_account_id?: string | null;
+}
+
+/** Longest accepted description regex; keeps rule evaluation cheap */
+const MAX_REGEX_LENGTH = 500;
+
+const regexCache = new Map<string, RegExp | null>();
+
+function compileRegex(pattern: string): RegExp | null {
+  if (!regexCache.has(pattern)) {
+    try {
+      regexCache.set(pattern, new RegExp(pattern, "i"));
+    } catch {
+      regexCache.set(pattern, null);
+    }
+  }
+  return regexCache.get(pattern) ?? null;
+}
+
+function toDateString(date: string | Date): string {
+  return typeof date === "string" ? date.slice(0, 10) : date.toISOString().split("T")[0];
+}
+
+/**
+ * Whether every condition on the rule matches the transaction.
+ * A rule with no conditions matches nothing, so an empty rule cannot swallow every transaction.
+ */
+export function ruleMatches(rule: CategorizationRule, tx: RuleTransaction): boolean {
+  const c = rule.conditions || {};
+  let conditionCount = 0;
+
+  if (c.description_regex) {
+    conditionCount++;
+    const regex = compileRegex(c.description_regex);
+    if (!regex || !regex.test(tx.description || "")) return false;
+  }
+
+  if (c.payee) {
+    conditionCount++;
+    const name = (tx.payee_name || tx.payer_name || tx.description || "").toLowerCase();
+    if (!name.includes(c.payee.toLowerCase())) return false;
+  }
+
+  const amount = Math.abs(tx.amount || 0);
+  if (c.amount_min !== undefined && c.amount_min !== null) {
+    conditionCount++;
+    if (amount < c.amount_min) return false;
+  }
+  if (c.amount_max !== undefined && c.amount_max !== null) {
+    conditionCount++;
+    if (amount > c.amount_max) return false;
+  }
+
+  if (c.direction) {
+    conditionCount++;
+    const isMoneyOut = tx.is_debit ?? tx.amount < 0;
+    if ((c.direction === 'out') !== isMoneyOut) return false;
+  }
+
+  if (c.bank_account_ids && c.bank_account_ids.length > 0) {
+    conditionCount++;
+    if (!tx.bank_account_id || !c.bank_account_ids.includes(tx.bank_account_id)) return false;
+  }
+
+  if (c.mcc && c.mcc.length > 0) {
+    conditionCount++;
+    if (!tx.merchant_category_code || !c.mcc.includes(tx.merchant_category_code)) return false;
+  }
+
+  if (c.date_from || c.date_to) {
+    conditionCount++;
+    const date = toDateString(tx.date);
+    if (c.date_from && date < c.date_from) return false;
+    if (c.date_to && date > c.date_to) return false;
+  }
+
+  return conditionCount > 0;
+}
+
+/**
+ * Return the first active rule (by priority) that matches the transaction
+ */
+export function findMatchingRule(
+  rules: CategorizationRule[],
+  tx: RuleTransaction
+): CategorizationRule | null {
+  for (const rule of rules) {
+    if (rule.is_active && ruleMatches(rule, tx)) {
+      return rule;
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate and normalize a rule from a request body
+ */
+export function validateRule(input: any): {
+  rule?: Omit<CategorizationRule, 'id' | 'hit_count' | 'last_matched_at'>;
+  error?: string;
+} {
+  if (!input || typeof input !== "object") {
+    return { error: "Rule is required" };
+  }
+  if (!input.name || typeof input.name !== "string" || !input.name.trim()) {
+    return { error: "name is required" };
+  }
+
+  const rawConditions = input.conditions || {};
+  const conditions: RuleConditions = {};
+
+  if (rawConditions.description_regex) {
+    const pattern = String(rawConditions.description_regex);
+    if (pattern.length > MAX_REGEX_LENGTH) {
+      return { error: `description_regex must be at most ${MAX_REGEX_LENGTH} characters` };
+    }
+    if (!compileRegex(pattern)) {
+      return { error: "description_regex is not a valid regular expression" };
+    }
+    conditions.description_regex = pattern;
+  }
+  if (rawConditions.payee) {
+    conditions.payee = String(rawConditions.payee).trim();
+  }
+  for (const key of ['amount_min', 'amount_max'] as const) {
+    const value = rawConditions[key];
+    if (value === undefined || value === null || value === "") continue;
+    const parsed = Number(value);
+    if (isNaN(parsed) || parsed < 0) {
+      return { error: `${key} must be a non-negative number` };
+    }
+    conditions[key] = parsed;
+  }
+  if (
+    conditions.amount_min !== undefined &&
+    conditions.amount_max !== undefined &&
+    conditions.amount_min > conditions.amount_max
+  ) {
+    return { error: "amount_min cannot be greater than amount_max" };
+  }
+  if (rawConditions.direction) {
+    if (rawConditions.direction !== 'in' && rawConditions.direction !== 'out') {
+      return { error: "direction must be 'in' or 'out'" };
+    }
+    conditions.direction = rawConditions.direction;
+  }
+  if (Array.isArray(rawConditions.bank_account_ids) && rawConditions.bank_account_ids.length > 0) {
+    conditions.bank_account_ids = rawConditions.bank_account_ids.map(String);
+  }
+  if (Array.isArray(rawConditions.mcc) && rawConditions.mcc.length > 0) {
+    conditions.mcc = rawConditions.mcc.map((code: any) => String(code).trim()).filter(Boolean);
+  }
+  for (const key of ['date_from', 'date_to'] as const) {
+    const value = rawConditions[key];
+    if (!value) continue;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(String(value))) {
+      return { error: `${key} must be a YYYY-MM-DD date` };
+    }
+    conditions[key] = String(value);
+  }
+
+  if (Object.keys(conditions).length === 0) {
+    return { error: "A rule needs at least one condition" };
+  }
+
+  const rawActions = input.actions || {};
+  const actions: RuleActions = {};
+
+  if (rawActions.category) actions.category = String(rawActions.category).trim();
+  if (rawActions.subcategory) actions.subcategory = String(rawActions.subcategory).trim();
+  if (rawActions.supplier_id) actions.supplier_id = String(rawActions.supplier_id);
+  if (rawActions.notes) actions.notes = String(rawActions.notes);
+  if (rawActions.vat_rate !== undefined && rawActions.vat_rate !== null && rawActions.vat_rate !== "") {
+    const rate = Number(rawActions.vat_rate);
+    if (isNaN(rate) || rate < 0 || rate > 100) {
+      return { error: "vat_rate must be between 0 and 100" };
+    }
+    actions.vat_rate = rate;
+  }
+  if (Array.isArray(rawActions.splits) && rawActions.splits.length > 0) {
+    const splits: RuleSplit[] = [];
+    for (const split of rawActions.splits) {
+      const percentage = Number(split?.percentage);
+      if (!split?.category || isNaN(percentage) || percentage <= 0) {
+        return { error: "Each split needs a category and a positive percentage" };
+      }
+      splits.push({
+        category: String(split.category).trim(),
+        subcategory: split.subcategory ? String(split.subcategory).trim() : null,
+        percentage,
+      });
+    }
+    const total = splits.reduce((sum, s) => sum + s.percentage, 0);
+    if (Math.abs(total - 100) > 0.001) {
+      return { error: "Split percentages must add up to 100" };
+    }
+    actions.splits = splits;
+    // The largest share is the transaction's headline category
+    if (!actions.category) {
+      const largest = [...splits].sort((a, b) => b.percentage - a.percentage)[0];
+      actions.category = largest.category;
+      actions.subcategory = largest.subcategory;
+    }
+  }
+
+  if (Object.keys(actions).length === 0) {
+    return { error: "A rule needs at least one action" };
+  }
+
+  const priority = input.priority === undefined ? 100 : Number(input.priority);
+  if (!Number.isInteger(priority)) {
+    return { error: "priority must be a whole number" };
+  }
+
+  return {
+    rule: {
+      name: input.name.trim(),
+      description: input.description ? String(input.description) : null,
+      priority,
+      is_active: input.is_active === undefined ? true : !!input.is_active,
+      conditions,
+      actions,
+    },
+  };
+}
+
+/**
+ * Load a user's active rules in evaluation order
+ */
+export async function loadActiveRules(supabase: any, userId: string): Promise<CategorizationRule[]> {
+  const { data, error } = await supabase
+    .from("categorization_rules")
+    .select("id, name, priority, is_active, conditions, actions")
+    .eq("user_id", userId)
+    .eq("is_active", true)
+    .order("priority", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.warn("Failed to load categorization rules:", error);
+    return [];
+  }
+  return data || [];
+}
+
+/**
+ * Increment hit statistics for matched rules (one id per matched transaction)
+ */
+export async function recordRuleHits(supabase: any, ruleIds: string[]): Promise<void> {
+  if (ruleIds.length === 0) return;
+  const { error } = await supabase.rpc("record_categorization_rule_hits", { p_rule_ids: ruleIds });
+  if (error) {
+    console.warn("Failed to record rule hits:", error);
+  }
+}
@@ -0,0 +1,337 @@
+/**
+ * Line-item splits
+ *
+ * A bank transaction or document split into several categorized lines, each with its own
+ * category, VAT treatment and supplier. Categorization rules write percentage-only splits;
+ * the split editor writes a gross amount per line (from OCR line items, percentages or fixed
+ * amounts) and the lines must add up to the parent exactly, which the database enforces.
+ * The ledger, VAT return, exports and cash flow statement read the lines in place of the
+ * parent's single category.
+ */
+
+import { VAT_CODES, isVatCode, resolveVatCode, splitVatAmount, type VatCode } from "@/lib/vat/codes";
+
+export type SplitMode = "line_items" | "percentage" | "amount";
+
+export interface SplitLine {
+  category: string;
+  subcategory?: string | null;
+  /** Share of the parent, 0-100 */
+  percentage: number;
+  /** Gross amount in the parent's currency; absent on rule splits */
+  amount?: number;
+  description?: string | null;
+  /** Falls back to the parent's VAT code when unset */
+  vat_code?: VatCode | null;
+  vat_rate?: number | null;
+  /** VAT included in the amount, when known exactly (e.g. from the invoice) */
+  vat_amount?: number | null;
+  supplier_id?: string | null;
+  supplier_name?: string | null;
+}
+
+export const MAX_SPLIT_LINES = 50;
+
+function roundPence(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * The split lines stored on a row (split_allocations), or none
+ */
+export function getSplitLines(value: unknown): SplitLine[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((line) => line && typeof line.category === "string" && line.category.trim().length > 0);
+}
+
+/**
+ * Share a total out in proportion to weights, to the penny. Rounding goes to the last share,
+ * so the shares always add up to the total.
+ */
+export function allocateByWeight(total: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (weights.length === 0 || totalWeight === 0) return weights.map(() => 0);
+
+  let allocated = 0;
+  return weights.map((weight, index) => {
+    const share = index === weights.length - 1
+      ? roundPence(total - allocated)
+      : roundPence(total * weight / totalWeight);
+    allocated = roundPence(allocated + share);
+    return share;
+  });
+}
+
+/**
+ * What each line is weighted by: its amount when every line has one, else its percentage
+ */
+export function splitWeights(lines: SplitLine[]): number[] {
+  return lines.every((line) => typeof line.amount === "number")
+    ? lines.map((line) => Number(line.amount))
+    : lines.map((line) => Number(line.percentage) || 0);
+}
+
+/**
+ * Each line's share of a total - the parent's amount, or its base-currency value
+ */
+export function allocateSplit(total: number, lines: SplitLine[]): number[] {
+  return allocateByWeight(total, splitWeights(lines));
+}
+
+/**
+ * The largest line, whose category becomes the parent's headline category
+ */
+export function headlineSplitLine(lines: SplitLine[]): SplitLine | null {
+  if (lines.length === 0) return null;
+  const weights = splitWeights(lines);
+  let largest = 0;
+  weights.forEach((weight, index) => {
+    if (weight > weights[largest]) largest = index;
+  });
+  return lines[largest];
+}
+
+/**
+ * VAT included in a line of the given gross amount, or null when the line doesn't say.
+ * Self-accounted VAT (reverse charge) is on top of the amount, so none is included.
+ */
+export function splitLineVat(line: SplitLine, amount: number): number | null {
+  if (line.vat_amount !== null && line.vat_amount !== undefined) {
+    return Math.min(Math.abs(Number(line.vat_amount)), Math.abs(amount));
+  }
+  const code = resolveVatCode(line);
+  if (!code) return null;
+  if (VAT_CODES[code].selfAccounted) return 0;
+  return roundPence(splitVatAmount(amount, code, { vatRate: line.vat_rate }).vat);
+}
+
+/**
+ * Gross, net and VAT of each line of a split document. The lines' own VAT is used when every
+ * line states it; otherwise the document's tax is spread over them pro rata.
+ */
+export function splitNetAndVat(
+  total: number,
+  tax: number,
+  lines: SplitLine[]
+): Array<{ gross: number; net: number; vat: number }> {
+  const grosses = allocateSplit(Math.abs(total), lines);
+  const ownVat = lines.map((line, index) => splitLineVat(line, grosses[index]));
+  const vats = ownVat.every((vat) => vat !== null)
+    ? (ownVat as number[])
+    : allocateByWeight(Math.min(Math.abs(tax), Math.abs(total)), grosses);
+
+  return grosses.map((gross, index) => ({ gross, net: roundPence(gross - vats[index]), vat: vats[index] }));
+}
+
+/**
+ * Break a split row into one part per line, for code that works row by row (the VAT return,
+ * exports, the cash flow statement). Each part carries its line's share of the signed amount,
+ * its category and its VAT treatment; an unsplit row comes back as the only part.
+ */
+export function expandSplit<T extends {
+  amount: number;
+  category?: string | null;
+  subcategory?: string | null;
+  vat_code?: string | null;
+  vat_rate?: number | null;
+  vat_amount?: number | null;
+  split_allocations?: unknown;
+}>(row: T): Array<T & { split_line?: SplitLine }> {
+  const lines = getSplitLines(row.split_allocations);
+  if (lines.length === 0) return [row];
+
+  const amount = Number(row.amount) || 0;
+  const sign = amount < 0 ? -1 : 1;
+  const shares = allocateSplit(Math.abs(amount), lines);
+
+  return lines.map((line, index) => {
+    const ownVat = isVatCode(line.vat_code);
+    return {
+      ...row,
+      amount: sign * shares[index],
+      category: line.category,
+      subcategory: line.subcategory || null,
+      vat_code: ownVat ? line.vat_code : row.vat_code,
+      vat_rate: ownVat ? line.vat_rate ?? null : row.vat_rate,
+      // The parent's exact VAT belongs to the whole amount, so parts only keep their own
+      vat_amount: line.vat_amount ?? null,
+      split_line: line,
+    };
+  });
+}
+
+// ============================================================================
+// BUILDING SPLITS
+// ============================================================================
+
+function optionalText(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+/**
+ * Validate a split editor request against the parent's total (its absolute amount).
+ * Percentage lines take their share of the total; amount and line-item lines must add up to
+ * it exactly. Returns lines with both an amount and a percentage.
+ */
+export function parseSplitLines(
+  body: any,
+  parentTotal: number
+): { lines: SplitLine[]; error?: undefined } | { lines?: undefined; error: string } {
+  const mode: SplitMode = ["line_items", "percentage", "amount"].includes(body?.mode) ? body.mode : "amount";
+  const total = roundPence(Math.abs(parentTotal));
+  if (total === 0) return { error: "A zero amount can't be split" };
+
+  if (!Array.isArray(body?.lines) || body.lines.length < 2) {
+    return { error: "A split needs at least two lines" };
+  }
+  if (body.lines.length > MAX_SPLIT_LINES) {
+    return { error: `A split can have at most ${MAX_SPLIT_LINES} lines` };
+  }
+
+  const lines: SplitLine[] = [];
+  const weights: number[] = [];
+  for (const [index, raw] of body.lines.entries()) {
+    const position = `Line ${index + 1}`;
+    const category = optionalText(raw?.category);
+    if (!category) return { error: `${position}: choose a category` };
+
+    const weight = Number(mode === "percentage" ? raw?.percentage : raw?.amount);
+    if (!Number.isFinite(weight) || weight <= 0) {
+      return { error: `${position}: ${mode === "percentage" ? "percentage" : "amount"} must be greater than zero` };
+    }
+
+    let vatCode: VatCode | null = null;
+    if (raw?.vat_code) {
+      if (!isVatCode(raw.vat_code)) return { error: `${position}: unsupported VAT code ${raw.vat_code}` };
+      vatCode = raw.vat_code;
+    }
+
+    let vatRate: number | null = null;
+    if (raw?.vat_rate !== null && raw?.vat_rate !== undefined && raw?.vat_rate !== "") {
+      vatRate = Number(raw.vat_rate);
+      if (!Number.isFinite(vatRate) || vatRate < 0 || vatRate > 100) {
+        return { error: `${position}: VAT rate must be between 0 and 100` };
+      }
+    }
+
+    let vatAmount: number | null = null;
+    if (raw?.vat_amount !== null && raw?.vat_amount !== undefined && raw?.vat_amount !== "") {
+      vatAmount = Number(raw.vat_amount);
+      if (!Number.isFinite(vatAmount) || vatAmount < 0) {
+        return { error: `${position}: VAT amount can't be negative` };
+      }
+    }
+
+    weights.push(mode === "percentage" ? weight : roundPence(weight));
+    lines.push({
+      category,
+      subcategory: optionalText(raw?.subcategory),
+      percentage: 0,
+      description: optionalText(raw?.description),
+      vat_code: vatCode,
+      vat_rate: vatRate,
+      vat_amount: vatAmount,
+      supplier_id: optionalText(raw?.supplier_id),
+      supplier_name: optionalText(raw?.supplier_name),
+    });
+  }
+
+  const weightTotal = weights.reduce((sum, weight) => sum + weight, 0);
+  if (mode === "percentage") {
+    if (Math.abs(weightTotal - 100) > 0.001) {
+      return { error: `Percentages add up to ${roundPence(weightTotal)}, not 100` };
+    }
+  } else if (Math.abs(roundPence(weightTotal) - total) >= 0.005) {
+    return { error: `Lines add up to ${roundPence(weightTotal).toFixed(2)}, not ${total.toFixed(2)}` };
+  }
+
+  const amounts = mode === "percentage" ? allocateByWeight(total, weights) : weights;
+  for (const [index, line] of lines.entries()) {
+    line.amount = amounts[index];
+    line.percentage = Math.round(amounts[index] / total * 1000000) / 10000;
+    if (line.vat_amount !== null && line.vat_amount !== undefined && line.vat_amount > amounts[index]) {
+      return { error: `Line ${index + 1}: VAT can't be more than the line amount` };
+    }
+  }
+
+  return { lines };
+}
+
+/**
+ * A suggested split from a document's OCR line items. Item totals are net: the document's
+ * tax is spread over them pro rata and the gross amounts are scaled to the document total,
+ * so discounts and rounding end up shared across the lines.
+ */
+export function splitFromLineItems(
+  items: Array<{ description?: string | null; quantity?: number | null; unit_price?: number | null; total?: number | null }> | null | undefined,
+  document: {
+    total_amount?: number | null;
+    tax_amount?: number | null;
+    tax_rate?: number | null;
+    category?: string | null;
+    subcategory?: string | null;
+  }
+): SplitLine[] {
+  const usable = (items || []).filter((item) => Number(item?.total) > 0);
+  const total = roundPence(Math.abs(Number(document.total_amount) || 0));
+  if (usable.length < 2 || total === 0) return [];
+
+  const nets = usable.map((item) => Number(item.total));
+  const grosses = allocateByWeight(total, nets);
+  const tax = Math.min(roundPence(Math.abs(Number(document.tax_amount) || 0)), total);
+  const vats = allocateByWeight(tax, nets);
+  const vatCode = resolveVatCode({ vat_rate: document.tax_rate });
+
+  return usable.map((item, index) => ({
+    category: document.category || "",
+    subcategory: document.subcategory || null,
+    percentage: Math.round(grosses[index] / total * 1000000) / 10000,
+    amount: grosses[index],
+    description: optionalText(item.description),
+    vat_code: vatCode,
+    vat_rate: vatCode ? Number(document.tax_rate) : null,
+    vat_amount: vats[index],
+    supplier_id: null,
+    supplier_name: null,
+  }));
+}
+
+// ============================================================================
+// SAVING SPLITS
+// ============================================================================
+
+/**
+ * Check that the suppliers named on split lines belong to the user and fill in their names.
+ * Returns an error message when one doesn't.
+ */
+export async function attachSplitSuppliers(supabase: any, userId: string, lines: SplitLine[]): Promise<string | null> {
+  const supplierIds = Array.from(new Set(lines.map((line) => line.supplier_id).filter(Boolean))) as string[];
+  if (supplierIds.length === 0) return null;
+
+  const { data: suppliers, error } = await supabase
+    .from("suppliers")
+    .select("id, name")
+    .in("id", supplierIds)
+    .eq("user_id", userId);
+
+  if (error) {
+    throw new Error(error.message || "Failed to load suppliers");
+  }
+
+  const namesById = new Map<string, string>((suppliers || []).map((supplier: any) => [supplier.id, supplier.name]));
+  for (const line of lines) {
+    if (!line.supplier_id) continue;
+    if (!namesById.has(line.supplier_id)) return "Supplier not found";
+    line.supplier_name = namesById.get(line.supplier_id) || null;
+  }
+  return null;
+}
+
+/**
+ * True for the error raised when split lines don't add up to their parent
+ */
+export function isSplitTotalError(error: { code?: string } | null | undefined): boolean {
+  return error?.code === "23514";
+}
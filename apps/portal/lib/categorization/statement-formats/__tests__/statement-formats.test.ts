@@ -0,0 +1,210 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectStatementFormat,
+  isStatementFileName,
+  parseStatementFile,
+  validateStatementFile,
+} from '../index';
+import { parseOfx } from '../ofx';
+import { parseQif } from '../qif';
+import { parseCamt053 } from '../camt053';
+import { parseMt940 } from '../mt940';
+import { parseStatementAmount } from '../utils';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+const OFX_SGML = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>EUR
+<BANKACCTFROM><ACCTID>NL91ABNA0417164300</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20240101
+<DTEND>20240131
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240110120000[0:GMT]
+<TRNAMT>-1.234,56
+<FITID>TX-2
+<NAME>Acme &amp; Co
+<MEMO>Invoice 42
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240105
+<TRNAMT>2,500.00
+<FITID>TX-1
+<NAME>Client Ltd
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL><BALAMT>10265,44<DTASOF>20240131</LEDGERBAL>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+const CAMT = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+<BkToCstmrStmt><Stmt>
+<Id>STMT-1</Id>
+<FrToDt><FrDtTm>2024-01-01T00:00:00</FrDtTm><ToDtTm>2024-01-31T23:59:59</ToDtTm></FrToDt>
+<Acct><Id><IBAN>DE89370400440532013000</IBAN></Id><Ccy>EUR</Ccy></Acct>
+<Bal><Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp><Amt Ccy="EUR">100.00</Amt><CdtDbtInd>CRDT</CdtDbtInd></Bal>
+<Bal><Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp><Amt Ccy="EUR">70.00</Amt><CdtDbtInd>CRDT</CdtDbtInd></Bal>
+<Ntry>
+<Amt Ccy="EUR">30.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts>BOOK</Sts>
+<BookgDt><Dt>2024-01-12</Dt></BookgDt><ValDt><Dt>2024-01-11</Dt></ValDt>
+<AcctSvcrRef>BANK-1</AcctSvcrRef>
+<NtryDtls><TxDtls>
+<Refs><EndToEndId>E2E-1</EndToEndId></Refs>
+<RltdPties><Cdtr><Nm>Stationers</Nm></Cdtr></RltdPties>
+<RmtInf><Ustrd>Paper</Ustrd></RmtInf>
+</TxDtls></NtryDtls>
+</Ntry>
+<Ntry>
+<Amt Ccy="EUR">5.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts>PDNG</Sts>
+<BookgDt><Dt>2024-01-20</Dt></BookgDt>
+</Ntry>
+</Stmt></BkToCstmrStmt>
+</Document>`;
+
+const MT940 = `:20:STARTUMSE
+:25:10020030/1234567
+:28C:00001/001
+:60F:C240101EUR1000,00
+:61:2401150115D123,45NTRFREF123//BANKREF456
+:86:?20Rent January?32Landlord GmbH
+:61:2401200120C50,NMSCNONREF
+:86:Refund
+:62F:C240131EUR926,55
+-`;
+
+describe('statement amounts', () => {
+  it('reads decimal points and decimal commas with thousands separators', () => {
+    expect(parseStatementAmount('1,234.56')).toBe(1234.56);
+    expect(parseStatementAmount('1.234,56')).toBe(1234.56);
+    expect(parseStatementAmount('-1 234,56')).toBe(-1234.56);
+    expect(parseStatementAmount("1'234.50")).toBe(1234.5);
+    expect(parseStatementAmount('12,5')).toBe(12.5);
+    expect(parseStatementAmount('+25.00')).toBe(25);
+    expect(parseStatementAmount('£-7.10')).toBe(-7.1);
+  });
+
+  it('treats a repeated separator or three trailing digits as grouping', () => {
+    expect(parseStatementAmount('1,234')).toBe(1234);
+    expect(parseStatementAmount('1.234.567')).toBe(1234567);
+    expect(parseStatementAmount('0,125')).toBe(0.125);
+  });
+
+  it('rejects text that is not a number', () => {
+    expect(parseStatementAmount(undefined)).toBeNull();
+    expect(parseStatementAmount('')).toBeNull();
+    expect(parseStatementAmount('12abc')).toBeNull();
+    expect(parseStatementAmount('1.234,56,7')).toBeNull();
+  });
+});
+
+describe('OFX', () => {
+  it('parses SGML statements with European amounts in date order', () => {
+    const statement = parseOfx(OFX_SGML);
+
+    expect(statement.transactions.map((tx) => [tx.date, tx.amount, tx.is_debit, tx.external_transaction_id])).toEqual([
+      ['2024-01-05', 2500, false, 'TX-1'],
+      ['2024-01-10', 1234.56, true, 'TX-2'],
+    ]);
+    expect(statement.transactions[1].description).toBe('Acme & Co - Invoice 42');
+    expect(statement.metadata).toMatchObject({
+      account_number: 'NL91ABNA0417164300',
+      currency: 'EUR',
+      period_start: '2024-01-01',
+      period_end: '2024-01-31',
+      closing_balance: 10265.44,
+      opening_balance: 9000,
+    });
+    expect(statement.transactions[1].running_balance).toBe(10265.44);
+  });
+});
+
+describe('QIF', () => {
+  it('parses records with thousands separators and day-first dates', () => {
+    const statement = parseQif(
+      '!Type:Bank\nD25/01/2024\nT-1,234.50\nPSupplier\nMParts\nN1001\n^\nD02/02/2024\nT1.000,00\nPCustomer\n',
+      { dateOrder: 'DMY' }
+    );
+
+    expect(statement.transactions.map((tx) => [tx.date, tx.amount, tx.is_debit, tx.description])).toEqual([
+      ['2024-01-25', 1234.5, true, 'Supplier - Parts'],
+      ['2024-02-02', 1000, false, 'Customer'],
+    ]);
+    expect(statement.transactions[0].reference_number).toBe('1001');
+  });
+});
+
+describe('CAMT.053', () => {
+  it('parses booked entries and statement balances', () => {
+    const statement = parseCamt053(CAMT);
+
+    expect(statement.transactions).toHaveLength(1);
+    expect(statement.transactions[0]).toMatchObject({
+      date: '2024-01-11',
+      posted_date: '2024-01-12',
+      amount: 30,
+      is_debit: true,
+      description: 'Stationers - Paper',
+      reference_number: 'E2E-1',
+      external_transaction_id: 'BANK-1',
+      running_balance: 70,
+    });
+    expect(statement.metadata).toMatchObject({
+      account_number: 'DE89370400440532013000',
+      currency: 'EUR',
+      opening_balance: 100,
+      closing_balance: 70,
+      period_start: '2024-01-01',
+      period_end: '2024-01-31',
+    });
+  });
+});
+
+describe('MT940', () => {
+  it('parses statement lines, structured information and balances', () => {
+    const statement = parseMt940(MT940);
+
+    expect(statement.transactions.map((tx) => [tx.date, tx.amount, tx.is_debit, tx.description])).toEqual([
+      ['2024-01-15', 123.45, true, 'Landlord GmbH - Rent January'],
+      ['2024-01-20', 50, false, 'Refund'],
+    ]);
+    expect(statement.transactions[0]).toMatchObject({ reference_number: 'REF123', external_transaction_id: 'BANKREF456' });
+    expect(statement.metadata).toMatchObject({
+      account_number: '10020030/1234567',
+      opening_balance: 1000,
+      closing_balance: 926.55,
+      period_start: '2024-01-01',
+      period_end: '2024-01-31',
+    });
+  });
+});
+
+describe('statement file detection', () => {
+  it('only accepts statement extensions whose content is that format', () => {
+    expect(detectStatementFormat('export.ofx', OFX_SGML)).toBe('ofx');
+    expect(detectStatementFormat('export.xml', CAMT)).toBe('camt053');
+    expect(detectStatementFormat('export.txt', MT940)).toBe('mt940');
+    expect(detectStatementFormat('export.ofx', 'Date,Amount\n2024-01-01,5')).toBeNull();
+    expect(detectStatementFormat('config.xml', '<settings><theme>dark</theme></settings>')).toBeNull();
+    expect(detectStatementFormat('notes.txt', 'Remember to file VAT')).toBeNull();
+    // Content decides the format only within what the extension allows
+    expect(detectStatementFormat('export.xml', OFX_SGML)).toBeNull();
+    expect(isStatementFileName('statement.csv')).toBe(false);
+  });
+
+  it('explains why an upload is rejected and parses valid files', () => {
+    expect(validateStatementFile('notes.txt', encode('Remember to file VAT'))).toBe('notes.txt is not a valid MT940 statement');
+    expect(validateStatementFile('export.sta', encode(MT940))).toBeNull();
+    expect(validateStatementFile('statement.csv', encode('anything'))).toBeNull();
+
+    expect(parseStatementFile('notes.txt', encode('Remember to file VAT'))).toBeNull();
+    expect(parseStatementFile('export.xml', encode(CAMT))?.format).toBe('camt053');
+  });
+});
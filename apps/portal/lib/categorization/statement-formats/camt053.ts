@@ -0,0 +1,141 @@
+/**
+ * ISO 20022 CAMT.053 (Bank to Customer Statement) parser
+ *
+ * Reads the first <Stmt> of the document: OPBD/PRCD and CLBD balances, the reporting
+ * period and every <Ntry>. Namespace prefixes are ignored.
+ */
+
+import type { ParsedStatement } from "./types";
+import { applyRunningBalances, buildTransaction, roundAmount, transactionDateRange } from "./utils";
+
+/**
+ * Quick check used by format detection
+ */
+export function isCamt053(text: string): boolean {
+  const head = text.slice(0, 3000);
+  return /camt\.053/i.test(head) || /<(\w+:)?BkToCstmrStmt>/.test(head);
+}
+
+function element(xml: string, path: string[]): string | undefined {
+  let current: string | undefined = xml;
+  for (const tag of path) {
+    if (current === undefined) return undefined;
+    const match: RegExpMatchArray | null = current.match(
+      new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`)
+    );
+    current = match?.[1];
+  }
+  return current;
+}
+
+function text(xml: string, path: string[]): string | undefined {
+  const value = element(xml, path)?.trim();
+  return value ? decodeXml(value) : undefined;
+}
+
+function elements(xml: string, tag: string): string[] {
+  const regex = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, "g");
+  const results: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(xml)) !== null) {
+    results.push(match[1]);
+  }
+  return results;
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function amountCurrency(xml: string): string | undefined {
+  return xml.match(/<(?:\w+:)?Amt\s+Ccy="([A-Z]{3})"/)?.[1];
+}
+
+function signedAmount(xml: string): number | null {
+  const amount = parseFloat(text(xml, ["Amt"]) || "");
+  if (isNaN(amount)) return null;
+  return text(xml, ["CdtDbtInd"]) === "DBIT" ? -amount : amount;
+}
+
+function dateOf(xml: string | undefined): string | undefined {
+  if (!xml) return undefined;
+  return (text(xml, ["Dt"]) || text(xml, ["DtTm"]))?.slice(0, 10);
+}
+
+/**
+ * Parse a CAMT.053 XML statement
+ */
+export function parseCamt053(xml: string): ParsedStatement {
+  const statement = element(xml, ["Stmt"]) || xml;
+  const transactions: ParsedStatement["transactions"] = [];
+
+  for (const entry of elements(statement, "Ntry")) {
+    // Reversed/pending entries are not part of the booked balance
+    const status = text(entry, ["Sts", "Cd"]) || text(entry, ["Sts"]);
+    if (status && status !== "BOOK") continue;
+
+    const amount = signedAmount(entry);
+    const bookingDate = dateOf(element(entry, ["BookgDt"]));
+    const valueDate = dateOf(element(entry, ["ValDt"]));
+    const date = bookingDate || valueDate;
+    if (amount === null || !date) continue;
+
+    const details = element(entry, ["NtryDtls", "TxDtls"]) || "";
+    const isDebit = amount < 0;
+    const counterparty = isDebit
+      ? text(details, ["RltdPties", "Cdtr", "Nm"]) || text(details, ["RltdPties", "Cdtr", "Pty", "Nm"])
+      : text(details, ["RltdPties", "Dbtr", "Nm"]) || text(details, ["RltdPties", "Dbtr", "Pty", "Nm"]);
+    const remittance = elements(details, "Ustrd").map((u) => decodeXml(u.trim())).join(" ");
+    const additionalInfo = text(entry, ["AddtlNtryInf"]) || text(details, ["AddtlTxInf"]);
+    const endToEndId = text(details, ["Refs", "EndToEndId"]);
+
+    transactions.push(
+      buildTransaction({
+        date: valueDate || date,
+        postedDate: bookingDate,
+        signedAmount: amount,
+        description: [counterparty, remittance || additionalInfo].filter(Boolean).join(" - "),
+        counterparty,
+        reference: endToEndId && endToEndId !== "NOTPROVIDED" ? endToEndId : text(entry, ["NtryRef"]),
+        bankTransactionType:
+          text(entry, ["BkTxCd", "Domn", "Fmly", "SubFmlyCd"]) || text(entry, ["BkTxCd", "Prtry", "Cd"]),
+        externalId: text(entry, ["AcctSvcrRef"]) || text(details, ["Refs", "AcctSvcrRef"]),
+      })
+    );
+  }
+
+  const metadata: ParsedStatement["metadata"] = {
+    account_number: text(statement, ["Acct", "Id", "IBAN"]) || text(statement, ["Acct", "Id", "Othr", "Id"]),
+    statement_number: text(statement, ["ElctrncSeqNb"]) || text(statement, ["Id"]),
+    currency: text(statement, ["Acct", "Ccy"]),
+  };
+
+  for (const balance of elements(statement, "Bal")) {
+    const code = text(balance, ["Tp", "CdOrPrtry", "Cd"]);
+    const amount = signedAmount(balance);
+    if (amount === null) continue;
+    if ((code === "OPBD" || code === "PRCD") && metadata.opening_balance === undefined) {
+      metadata.opening_balance = roundAmount(amount);
+      metadata.currency = metadata.currency || amountCurrency(balance);
+    } else if (code === "CLBD") {
+      metadata.closing_balance = roundAmount(amount);
+      metadata.currency = metadata.currency || amountCurrency(balance);
+    }
+  }
+
+  const range = transactionDateRange(transactions);
+  const period = element(statement, ["FrToDt"]);
+  metadata.period_start = text(period || "", ["FrDtTm"])?.slice(0, 10) || range.start;
+  metadata.period_end = text(period || "", ["ToDtTm"])?.slice(0, 10) || range.end;
+
+  if (metadata.opening_balance !== undefined) {
+    applyRunningBalances(transactions, metadata.opening_balance);
+  }
+
+  return { format: 'camt053', transactions, metadata };
+}
@@ -0,0 +1,114 @@
+/**
+ * Native bank statement formats
+ *
+ * OFX/QFX, QIF, ISO 20022 CAMT.053 and SWIFT MT940 carry exact dates, signed amounts,
+ * bank transaction ids and balances, so they bypass the spreadsheet column heuristics.
+ */
+
+import { isCamt053, parseCamt053 } from "./camt053";
+import { isMt940, parseMt940 } from "./mt940";
+import { isOfx, parseOfx } from "./ofx";
+import { isQif, parseQif } from "./qif";
+import type { ParsedStatement, StatementFormat, StatementParseOptions } from "./types";
+
+export type { ParsedStatement, StatementBalances, StatementFormat, StatementParseOptions } from "./types";
+
+/**
+ * File extensions accepted for native statement import, each with the one format its content
+ * must be. A file is only parsed as that format once its content has been recognised.
+ */
+const STATEMENT_EXTENSION_FORMATS: Record<string, StatementFormat> = {
+  ".ofx": 'ofx',
+  ".qfx": 'ofx',
+  ".qif": 'qif',
+  ".xml": 'camt053',
+  ".sta": 'mt940',
+  ".mt940": 'mt940',
+  ".940": 'mt940',
+  ".txt": 'mt940',
+};
+
+export const STATEMENT_FILE_EXTENSIONS = Object.keys(STATEMENT_EXTENSION_FORMATS);
+
+const FORMAT_CHECKS: Record<StatementFormat, (text: string) => boolean> = {
+  ofx: isOfx,
+  qif: isQif,
+  camt053: isCamt053,
+  mt940: isMt940,
+};
+
+const FORMAT_LABELS: Record<StatementFormat, string> = {
+  ofx: "OFX/QFX",
+  qif: "QIF",
+  camt053: "CAMT.053",
+  mt940: "MT940",
+};
+
+function getFileExtension(fileName: string): string {
+  return fileName.substring(fileName.lastIndexOf(".")).toLowerCase();
+}
+
+/**
+ * Whether a file should be parsed as a native statement rather than a spreadsheet
+ */
+export function isStatementFileName(fileName: string): boolean {
+  return getFileExtension(fileName) in STATEMENT_EXTENSION_FORMATS;
+}
+
+/**
+ * Detect the statement format from the file name and content. Returns null for spreadsheets,
+ * and for statement files whose content is not the format their extension stands for.
+ */
+export function detectStatementFormat(fileName: string, content: string): StatementFormat | null {
+  const format = STATEMENT_EXTENSION_FORMATS[getFileExtension(fileName)];
+  return format && FORMAT_CHECKS[format](content) ? format : null;
+}
+
+/**
+ * Decode a statement file buffer. Most formats are ASCII/UTF-8, but older OFX and
+ * MT940 exports are often Windows-1252.
+ */
+export function decodeStatementBuffer(buffer: ArrayBuffer | Uint8Array): string {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder("windows-1252").decode(bytes);
+  }
+}
+
+/**
+ * Check an uploaded statement file before it is stored. Returns an error message when its
+ * content is not the format its extension stands for.
+ */
+export function validateStatementFile(fileName: string, buffer: ArrayBuffer | Uint8Array): string | null {
+  const format = STATEMENT_EXTENSION_FORMATS[getFileExtension(fileName)];
+  if (!format) return null;
+  if (FORMAT_CHECKS[format](decodeStatementBuffer(buffer))) return null;
+  return `${fileName} is not a valid ${FORMAT_LABELS[format]} statement`;
+}
+
+/**
+ * Parse a statement file in any supported native format
+ */
+export function parseStatementFile(
+  fileName: string,
+  buffer: ArrayBuffer | Uint8Array,
+  options: StatementParseOptions = {}
+): ParsedStatement | null {
+  const content = decodeStatementBuffer(buffer);
+  const format = detectStatementFormat(fileName, content);
+
+  switch (format) {
+    case 'ofx':
+      return parseOfx(content);
+    case 'qif':
+      return parseQif(content, options);
+    case 'camt053':
+      return parseCamt053(content);
+    case 'mt940':
+      return parseMt940(content);
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * SWIFT MT940 (Customer Statement Message) parser
+ *
+ * Field tags used:
+ * - :25:  account identification
+ * - :28C: statement/sequence number
+ * - :60F:/:60M: opening balance (C/D, YYMMDD, currency, amount with decimal comma)
+ * - :61:  statement line (value date, optional entry date, C/D/RC/RD, amount, type, references)
+ * - :86:  information to account owner for the preceding :61:
+ * - :62F:/:62M: closing balance
+ */
+
+import type { ParsedStatement } from "./types";
+import {
+  applyRunningBalances,
+  buildTransaction,
+  expandYear,
+  roundAmount,
+  toIsoDate,
+  transactionDateRange,
+} from "./utils";
+
+interface Mt940Field {
+  tag: string;
+  value: string;
+}
+
+/**
+ * Quick check used by format detection
+ */
+export function isMt940(text: string): boolean {
+  return /^:20:/m.test(text) && /^:60[FM]:/m.test(text) && /^:62[FM]:/m.test(text);
+}
+
+/**
+ * Split the message into tagged fields; continuation lines belong to the previous tag
+ */
+function readFields(text: string): Mt940Field[] {
+  const fields: Mt940Field[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/\s+$/, "");
+    const tagMatch = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (tagMatch) {
+      fields.push({ tag: tagMatch[1], value: tagMatch[2] });
+    } else if (fields.length > 0 && line && !/^-\}?$/.test(line) && !line.startsWith("{")) {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  }
+  return fields;
+}
+
+function parseMt940Amount(value: string): number | null {
+  const parsed = parseFloat(value.replace(",", "."));
+  return isNaN(parsed) ? null : parsed;
+}
+
+function parseYymmdd(value: string): string | null {
+  const match = value.match(/^(\d{2})(\d{2})(\d{2})$/);
+  if (!match) return null;
+  return toIsoDate(expandYear(parseInt(match[1], 10)), parseInt(match[2], 10), parseInt(match[3], 10));
+}
+
+/**
+ * Parse a :60F:/:62F: balance, e.g. "C240131GBP1234,56"
+ */
+function parseBalance(value: string): { amount: number; date: string | null; currency: string } | null {
+  const match = value.match(/^([CD])(\d{6})([A-Z]{3})([\d,]+)/);
+  if (!match) return null;
+  const amount = parseMt940Amount(match[4]);
+  if (amount === null) return null;
+  return {
+    amount: match[1] === "D" ? -amount : amount,
+    date: parseYymmdd(match[2]),
+    currency: match[3],
+  };
+}
+
+/**
+ * Parse a :61: statement line, e.g. "2401150115D123,45NTRFREF123//BANKREF456\nSupplementary"
+ */
+function parseStatementLine(value: string): {
+  date: string;
+  entryDate: string | null;
+  signedAmount: number;
+  typeCode: string;
+  customerReference: string | null;
+  bankReference: string | null;
+  supplementary: string | null;
+} | null {
+  const [firstLine, ...rest] = value.split("\n");
+  const match = firstLine.match(
+    /^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?([\d,]+)([NSF][A-Z0-9]{3})([^/]*)(?:\/\/(.*))?$/
+  );
+  if (!match) return null;
+
+  const date = parseYymmdd(match[1]);
+  const amount = parseMt940Amount(match[5]);
+  if (!date || amount === null) return null;
+
+  let entryDate: string | null = null;
+  if (match[2]) {
+    // Entry date has no year; take the value date's year, rolling over at year end
+    const year = parseInt(date.slice(0, 4), 10);
+    const month = parseInt(match[2].slice(0, 2), 10);
+    const day = parseInt(match[2].slice(2, 4), 10);
+    const valueMonth = parseInt(date.slice(5, 7), 10);
+    const entryYear = month < valueMonth - 6 ? year + 1 : month > valueMonth + 6 ? year - 1 : year;
+    entryDate = toIsoDate(entryYear, month, day);
+  }
+
+  // C = credit, D = debit; RC/RD are reversals of a credit/debit
+  const mark = match[3];
+  const isDebit = mark === "D" || mark === "RC";
+  const customerReference = match[7]?.trim();
+
+  return {
+    date,
+    entryDate,
+    signedAmount: isDebit ? -amount : amount,
+    typeCode: match[6],
+    customerReference: customerReference && customerReference !== "NONREF" ? customerReference : null,
+    bankReference: match[8]?.trim() || null,
+    supplementary: rest.join(" ").trim() || null,
+  };
+}
+
+/**
+ * Structured :86: fields (German/Dutch style "?20...?32...") or free text
+ */
+function parseInformation(value: string): { description: string; counterparty: string | null } {
+  const flat = value.replace(/\n/g, "");
+  if (!/\?\d{2}/.test(flat)) {
+    return { description: value.replace(/\n/g, " ").trim(), counterparty: null };
+  }
+
+  const parts = new Map<string, string>();
+  for (const match of flat.matchAll(/\?(\d{2})([^?]*)/g)) {
+    parts.set(match[1], (parts.get(match[1]) || "") + match[2]);
+  }
+  const remittance = ["20", "21", "22", "23", "24", "25", "26", "27", "28", "29", "60", "61", "62", "63"]
+    .map((code) => parts.get(code))
+    .filter(Boolean)
+    .join(" ")
+    .trim();
+  const counterparty = [parts.get("32"), parts.get("33")].filter(Boolean).join("").trim() || null;
+
+  return { description: remittance || parts.get("00") || "", counterparty };
+}
+
+/**
+ * Parse an MT940 file. Files containing several statements are concatenated;
+ * the opening balance comes from the first and the closing balance from the last.
+ */
+export function parseMt940(text: string): ParsedStatement {
+  const transactions: ParsedStatement["transactions"] = [];
+  const metadata: ParsedStatement["metadata"] = {};
+  const fields = readFields(text);
+
+  for (let i = 0; i < fields.length; i++) {
+    const field = fields[i];
+    switch (field.tag) {
+      case "25":
+        metadata.account_number = metadata.account_number || field.value.trim();
+        break;
+      case "28C":
+        metadata.statement_number = metadata.statement_number || field.value.trim();
+        break;
+      case "60F":
+      case "60M": {
+        const balance = parseBalance(field.value);
+        if (balance && metadata.opening_balance === undefined) {
+          metadata.opening_balance = roundAmount(balance.amount);
+          metadata.currency = balance.currency;
+          if (balance.date) metadata.period_start = balance.date;
+        }
+        break;
+      }
+      case "62F":
+      case "62M": {
+        const balance = parseBalance(field.value);
+        if (balance) {
+          metadata.closing_balance = roundAmount(balance.amount);
+          metadata.currency = metadata.currency || balance.currency;
+          if (balance.date) metadata.period_end = balance.date;
+        }
+        break;
+      }
+      case "61": {
+        const line = parseStatementLine(field.value);
+        if (!line) break;
+        const next = fields[i + 1];
+        const info = next?.tag === "86" ? parseInformation(next.value) : null;
+
+        transactions.push(
+          buildTransaction({
+            date: line.date,
+            postedDate: line.entryDate,
+            signedAmount: line.signedAmount,
+            description: [info?.counterparty, info?.description || line.supplementary]
+              .filter(Boolean)
+              .join(" - "),
+            counterparty: info?.counterparty,
+            reference: line.customerReference,
+            bankTransactionType: line.typeCode,
+            externalId: line.bankReference,
+          })
+        );
+        break;
+      }
+    }
+  }
+
+  const range = transactionDateRange(transactions);
+  metadata.period_start = metadata.period_start || range.start;
+  metadata.period_end = metadata.period_end || range.end;
+
+  if (metadata.opening_balance !== undefined) {
+    applyRunningBalances(transactions, metadata.opening_balance);
+  }
+
+  return { format: 'mt940', transactions, metadata };
+}
@@ -0,0 +1,116 @@
+/**
+ * OFX / QFX statement parser
+ *
+ * Handles both OFX 1.x (SGML, unclosed leaf elements) and OFX 2.x (XML).
+ * Aggregates such as <STMTTRN> are always closed in both versions, so we split on those
+ * and read leaf values up to the next tag or line break.
+ */
+
+import type { ParsedStatement } from "./types";
+import {
+  applyRunningBalances,
+  buildTransaction,
+  netMovement,
+  parseStatementAmount,
+  roundAmount,
+  toIsoDate,
+  transactionDateRange,
+} from "./utils";
+
+/**
+ * Quick check used by format detection
+ */
+export function isOfx(text: string): boolean {
+  const head = text.slice(0, 2000).toUpperCase();
+  return head.includes("OFXHEADER") || head.includes("<OFX>");
+}
+
+function readTag(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  const value = match?.[1]?.trim();
+  return value ? decodeEntities(value) : undefined;
+}
+
+function readBlocks(text: string, tag: string): string[] {
+  const regex = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, "gi");
+  const blocks: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    blocks.push(match[1]);
+  }
+  return blocks;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * OFX dates are YYYYMMDD[HHMMSS[.XXX]][[gmt offset:tz name]]
+ */
+export function parseOfxDate(value: string | undefined): string | null {
+  if (!value) return null;
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  return toIsoDate(parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10));
+}
+
+/**
+ * Parse an OFX/QFX bank or credit card statement
+ */
+export function parseOfx(text: string): ParsedStatement {
+  const transactions: ParsedStatement["transactions"] = [];
+
+  for (const block of readBlocks(text, "STMTTRN")) {
+    const postedDate = parseOfxDate(readTag(block, "DTPOSTED"));
+    const date = parseOfxDate(readTag(block, "DTUSER")) || postedDate;
+    const amount = parseStatementAmount(readTag(block, "TRNAMT"));
+    if (!date || amount === null) continue;
+
+    const name = readTag(block, "NAME") || readTag(block, "PAYEEID");
+    const memo = readTag(block, "MEMO");
+    const fitId = readTag(block, "FITID");
+    const reference = readTag(block, "CHECKNUM") || readTag(block, "REFNUM");
+
+    transactions.push(
+      buildTransaction({
+        date,
+        postedDate,
+        signedAmount: amount,
+        description: [name, memo].filter(Boolean).join(" - "),
+        counterparty: name,
+        reference,
+        bankTransactionType: readTag(block, "TRNTYPE"),
+        externalId: fitId,
+      })
+    );
+  }
+
+  // Banks export newest first as often as oldest first
+  transactions.sort((a, b) => String(a.date).localeCompare(String(b.date)));
+
+  const ledgerBalance = readBlocks(text, "LEDGERBAL")[0];
+  const closingBalance = ledgerBalance ? parseStatementAmount(readTag(ledgerBalance, "BALAMT")) : null;
+  const range = transactionDateRange(transactions);
+
+  const metadata: ParsedStatement["metadata"] = {
+    account_number: readTag(text, "ACCTID"),
+    currency: readTag(text, "CURDEF"),
+    period_start: parseOfxDate(readTag(text, "DTSTART")) || range.start,
+    period_end: parseOfxDate(readTag(text, "DTEND")) || range.end,
+  };
+
+  if (closingBalance !== null) {
+    // OFX only carries the ledger balance; derive the opening balance from the movement
+    metadata.closing_balance = roundAmount(closingBalance);
+    metadata.opening_balance = roundAmount(closingBalance - netMovement(transactions));
+    applyRunningBalances(transactions, metadata.opening_balance);
+  }
+
+  return { format: 'ofx', transactions, metadata };
+}
@@ -0,0 +1,86 @@
+/**
+ * QIF (Quicken Interchange Format) statement parser
+ *
+ * QIF records are line based: a one-letter field code followed by the value,
+ * with "^" terminating each record. QIF carries no balances and no unique ids.
+ */
+
+import type { ParsedStatement, StatementParseOptions } from "./types";
+import { buildTransaction, expandYear, parseStatementAmount, toIsoDate, transactionDateRange } from "./utils";
+
+/**
+ * Quick check used by format detection
+ */
+export function isQif(text: string): boolean {
+  return /^\s*!(Type|Account|Option)/im.test(text.slice(0, 500));
+}
+
+/**
+ * QIF dates come as M/D/YY, M/D'YY, M/D/YYYY or D/M/YYYY (and dashes or dots as separators).
+ * Day-first is assumed only when the options say so or the first part cannot be a month.
+ */
+export function parseQifDate(value: string, dateOrder: 'MDY' | 'DMY' = 'MDY'): string | null {
+  const match = value.trim().match(/^(\d{1,2})[/.\-](\s?\d{1,2})['/.\-]\s?(\d{2,4})$/);
+  if (!match) {
+    const iso = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    return iso ? toIsoDate(parseInt(iso[1], 10), parseInt(iso[2], 10), parseInt(iso[3], 10)) : null;
+  }
+
+  const first = parseInt(match[1], 10);
+  const second = parseInt(match[2].trim(), 10);
+  const year = expandYear(parseInt(match[3], 10));
+
+  const dayFirst = dateOrder === 'DMY' ? second <= 12 || first > 12 : first > 12;
+  return dayFirst ? toIsoDate(year, second, first) : toIsoDate(year, first, second);
+}
+
+/**
+ * Parse a QIF bank or credit card export
+ */
+export function parseQif(text: string, options: StatementParseOptions = {}): ParsedStatement {
+  const transactions: ParsedStatement["transactions"] = [];
+  let record: Record<string, string> = {};
+
+  const flush = () => {
+    const date = record.D ? parseQifDate(record.D, options.dateOrder) : null;
+    const amount = parseStatementAmount(record.T || record.U);
+    if (date && amount !== null) {
+      transactions.push(
+        buildTransaction({
+          date,
+          signedAmount: amount,
+          description: [record.P, record.M].filter(Boolean).join(" - "),
+          counterparty: record.P,
+          reference: record.N,
+        })
+      );
+    }
+    record = {};
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trimEnd();
+    if (!line || line.startsWith("!")) continue;
+    if (line.startsWith("^")) {
+      flush();
+      continue;
+    }
+    const code = line[0];
+    // Split lines (S/E/$) describe category splits; only the first value of each field is kept
+    if (record[code] === undefined) {
+      record[code] = line.slice(1).trim();
+    }
+  }
+  // Tolerate a missing terminator on the last record
+  if (Object.keys(record).length > 0) flush();
+
+  const range = transactionDateRange(transactions);
+  return {
+    format: 'qif',
+    transactions,
+    metadata: {
+      period_start: range.start,
+      period_end: range.end,
+    },
+  };
+}
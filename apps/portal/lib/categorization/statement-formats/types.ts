@@ -0,0 +1,28 @@
+/**
+ * Types shared by the native bank statement parsers (OFX/QFX, QIF, CAMT.053, MT940)
+ */
+
+import type { Transaction } from "../process-spreadsheet";
+
+export type StatementFormat = 'ofx' | 'qif' | 'camt053' | 'mt940';
+
+export interface StatementBalances {
+  account_number?: string;
+  statement_number?: string;
+  currency?: string;
+  period_start?: string;
+  period_end?: string;
+  opening_balance?: number;
+  closing_balance?: number;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  transactions: Transaction[];
+  metadata: StatementBalances;
+}
+
+export interface StatementParseOptions {
+  /** Date order for ambiguous QIF dates; QIF exports are US-ordered unless the bank says otherwise */
+  dateOrder?: 'MDY' | 'DMY';
+}
@@ -0,0 +1,139 @@
+/**
+ * Helpers shared by the statement format parsers
+ */
+
+import type { Transaction } from "../process-spreadsheet";
+
+/**
+ * Format year/month/day parts as YYYY-MM-DD, or null if they do not form a real date
+ */
+export function toIsoDate(year: number, month: number, day: number): string | null {
+  if (!year || month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) return null;
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Expand a two digit year (MT940, QIF) to four digits
+ */
+export function expandYear(year: number): number {
+  if (year >= 100) return year;
+  return year < 70 ? 2000 + year : 1900 + year;
+}
+
+/**
+ * Round to pennies to avoid floating point drift when summing
+ */
+export function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Parse an amount whose separators are not fixed by the format. When both "." and "," appear
+ * the later one is the decimal separator; a separator that repeats, or that is followed by
+ * exactly three digits, groups thousands. Returns null for anything that is not a number.
+ */
+export function parseStatementAmount(value: string | undefined): number | null {
+  if (!value) return null;
+  let text = value.replace(/[\s'£$€]/g, "");
+  if (!/^[+-]?[\d.,]+$/.test(text)) return null;
+
+  const lastDot = text.lastIndexOf(".");
+  const lastComma = text.lastIndexOf(",");
+  let decimal: string | null = null;
+  if (lastDot !== -1 && lastComma !== -1) {
+    decimal = lastDot > lastComma ? "." : ",";
+  } else if (lastDot !== -1 || lastComma !== -1) {
+    const separator = lastDot !== -1 ? "." : ",";
+    const position = Math.max(lastDot, lastComma);
+    const repeated = text.indexOf(separator) !== position;
+    const groupsThousands = text.length - position - 1 === 3 && !/^[+-]?0[.,]/.test(text);
+    decimal = repeated || groupsThousands ? null : separator;
+  }
+
+  // Drop the grouping separators, then make the decimal separator a point
+  const grouping = decimal === "." ? /,/g : decimal === "," ? /\./g : /[.,]/g;
+  text = text.replace(grouping, "");
+  if (decimal === ",") text = text.replace(",", ".");
+
+  if (!/^[+-]?\d+(\.\d+)?$/.test(text)) return null;
+  return parseFloat(text);
+}
+
+/**
+ * Build a statement Transaction from a signed amount (negative = money out)
+ */
+export function buildTransaction(fields: {
+  date: string;
+  signedAmount: number;
+  description: string;
+  counterparty?: string | null;
+  reference?: string | null;
+  bankTransactionType?: string | null;
+  externalId?: string | null;
+  postedDate?: string | null;
+}): Transaction {
+  const isDebit = fields.signedAmount < 0;
+  const amount = roundAmount(Math.abs(fields.signedAmount));
+  const counterparty = fields.counterparty?.trim() || null;
+  const description = fields.description.trim() || counterparty || fields.reference || "";
+
+  const transaction: Transaction = {
+    date: fields.date,
+    description,
+    amount,
+    is_debit: isDebit,
+    transaction_type: isDebit ? 'debit' : 'credit',
+    payee_name: isDebit ? counterparty : null,
+    payer_name: isDebit ? null : counterparty,
+    payment_description_reference: fields.reference || null,
+    bank_transaction_type: fields.bankTransactionType || null,
+    paid_in_amount: isDebit ? null : amount,
+    paid_out_amount: isDebit ? amount : null,
+  };
+
+  if (fields.reference) {
+    transaction.reference_number = fields.reference;
+  }
+  if (fields.externalId) {
+    transaction.external_transaction_id = fields.externalId;
+  }
+  if (fields.postedDate && fields.postedDate !== fields.date) {
+    transaction.posted_date = fields.postedDate;
+  }
+
+  return transaction;
+}
+
+/**
+ * Fill running_balance on each transaction from an opening balance, in statement order
+ */
+export function applyRunningBalances(transactions: Transaction[], openingBalance: number): void {
+  let balance = openingBalance;
+  for (const tx of transactions) {
+    balance = roundAmount(balance + (tx.is_debit ? -tx.amount : tx.amount));
+    if (tx.running_balance === undefined) {
+      tx.running_balance = balance;
+    }
+  }
+}
+
+/**
+ * Net movement of a set of transactions (credits minus debits)
+ */
+export function netMovement(transactions: Transaction[]): number {
+  return roundAmount(
+    transactions.reduce((sum, tx) => sum + (tx.is_debit ? -tx.amount : tx.amount), 0)
+  );
+}
+
+/**
+ * Min/max transaction dates as the statement period fallback
+ */
+export function transactionDateRange(transactions: Transaction[]): { start?: string; end?: string } {
+  const dates = transactions
+    .map((tx) => (typeof tx.date === "string" ? tx.date : tx.date.toISOString().split("T")[0]))
+    .sort();
+  return { start: dates[0], end: dates[dates.length - 1] };
+}
@@ -0,0 +1,30 @@
+/**
+ * Statement upload limits
+ *
+ * CSV statements are streamed from storage a chunk at a time (see csv-stream.ts), so their
+ * size only bounds storage. Workbooks (XLSX/XLS) and native statement formats (OFX, QIF,
+ * CAMT.053, MT940) are parsed whole in memory and keep a smaller limit, which the upload
+ * routes and the import worker both enforce.
+ */
+
+import { isCsvFileName } from "./csv-stream";
+
+/** Largest statement parsed whole in memory */
+export const STATEMENT_MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+
+/** Largest CSV statement; matches the categorization-uploads bucket limit */
+export const CSV_STATEMENT_MAX_FILE_SIZE = 100 * 1024 * 1024; // 100MB
+
+export function getStatementMaxFileSize(fileName: string): number {
+  return isCsvFileName(fileName) ? CSV_STATEMENT_MAX_FILE_SIZE : STATEMENT_MAX_FILE_SIZE;
+}
+
+/**
+ * Message for a statement over its limit, naming the limit that applies to it
+ */
+export function describeStatementSizeLimit(fileName: string): string {
+  const limitMb = getStatementMaxFileSize(fileName) / (1024 * 1024);
+  return isCsvFileName(fileName)
+    ? `CSV statements can be up to ${limitMb}MB`
+    : `Spreadsheet and statement files can be up to ${limitMb}MB; export a CSV for larger statements`;
+}
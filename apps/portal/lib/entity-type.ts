@@ -1,7 +1,9 @@
 /**
  * Entity Type Detection
  * 
- * Determines whether a user is an individual or company based on their profile
+ * Determines whether a user is an individual or company based on their profile.
+ * Users who can reach several companies (practice staff, shared books) get the company
+ * they last switched to, and its tenant becomes the tenant context for the request.
  */
 
 import { createClient } from '@/lib/database/server';
@@ -29,6 +31,9 @@ export interface CompanyProfile {
  * 
  * - Individual: user has no company profile OR company_type is 'individual'
  * - Company: user has a company profile with company_type other than 'individual'
+ *
+ * The profile is the user's active company when one is set and still accessible,
+ * otherwise the most recent profile they created.
  * 
  * @returns EntityInfo with type and profile details
  */
@@ -48,9 +53,16 @@ export async function getEntityInfo(): Promise<EntityInfo> {
   // Get user's tenant_id
   const { data: userData } = await supabase
     .from('users')
-    .select('tenant_id, email, full_name')
+    .select('tenant_id, email, full_name, active_company_profile_id')
     .eq('id', user.id)
-    .single() as { data: { tenant_id: string | null; email: string | null; full_name: string | null } | null };
+    .single() as {
+      data: {
+        tenant_id: string | null;
+        email: string | null;
+        full_name: string | null;
+        active_company_profile_id: string | null;
+      } | null;
+    };
   
   let tenantId = userData?.tenant_id || null;
   
@@ -117,15 +129,31 @@ export async function getEntityInfo(): Promise<EntityInfo> {
     setup_completed: boolean;
   };
   
-  const { data: profile, error: profileError } = await supabase
-    .from('company_profiles')
-    .select('id, user_id, tenant_id, company_name, company_type, vat_registered, setup_completed')
-    .eq('user_id', user.id)
-    .order('created_at', { ascending: false })
-    .limit(1)
-    .single() as { data: CompanyProfileRow | null; error: any };
+  const profileFields = 'id, user_id, tenant_id, company_name, company_type, vat_registered, setup_completed';
+  let profile: CompanyProfileRow | null = null;
+
+  // Active company first; RLS hides it if the user has since lost access
+  if (userData?.active_company_profile_id) {
+    const { data: activeProfile } = await supabase
+      .from('company_profiles')
+      .select(profileFields)
+      .eq('id', userData.active_company_profile_id)
+      .maybeSingle() as { data: CompanyProfileRow | null };
+    profile = activeProfile;
+  }
+
+  if (!profile) {
+    const { data: ownProfile } = await supabase
+      .from('company_profiles')
+      .select(profileFields)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle() as { data: CompanyProfileRow | null };
+    profile = ownProfile;
+  }
   
-  if (profileError || !profile) {
+  if (!profile) {
     // No company profile - treat as individual
     return {
       type: 'individual',
@@ -151,7 +179,8 @@ export async function getEntityInfo(): Promise<EntityInfo> {
   return {
     type: entityType,
     companyProfile,
-    tenantId,
+    // A client company switched to from a practice carries its own tenant context
+    tenantId: profile.tenant_id || tenantId,
   };
 }
 
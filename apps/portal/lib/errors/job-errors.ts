@@ -30,7 +30,7 @@ export interface JobError {
 export const JOB_ERRORS: Record<JobErrorCode, Omit<JobError, "code">> = {
   FILE_TOO_LARGE: {
     message: "File size exceeds maximum allowed size",
-    userMessage: "File is too large. Please upload a file smaller than 10MB.",
+    userMessage: "File is too large. Please upload a smaller file.",
     statusCode: 400,
     retryable: true,
     suggestedAction: "Try uploading a smaller file",
@@ -154,6 +154,43 @@ export function createJobErrorResponse(
   };
 }
 
+/**
+ * Codes the job queue retries automatically: the same file may well go through on another
+ * attempt. JOB_ERRORS.retryable says whether the user can try again, usually with another file.
+ */
+const TRANSIENT_JOB_ERRORS: ReadonlySet<JobErrorCode> = new Set<JobErrorCode>([
+  "UPLOAD_FAILED",
+  "DOWNLOAD_FAILED",
+  "OCR_FAILED",
+  "TIMEOUT",
+  "UNKNOWN_ERROR",
+  "STORAGE_ERROR",
+]);
+
+export function isTransientJobError(code: JobErrorCode): boolean {
+  return TRANSIENT_JOB_ERRORS.has(code);
+}
+
+/**
+ * Create an error carrying a job error code, for processors to throw
+ */
+export function createJobError(code: JobErrorCode, message?: string): Error & { code: JobErrorCode } {
+  const error = new Error(message || JOB_ERRORS[code].message) as Error & { code: JobErrorCode };
+  error.code = code;
+  return error;
+}
+
+/**
+ * The job error code for a thrown error: its own code when it carries one, otherwise mapped
+ * from the message
+ */
+export function getJobErrorCode(error: any): JobErrorCode {
+  if (typeof error?.code === "string" && error.code in JOB_ERRORS) {
+    return error.code as JobErrorCode;
+  }
+  return mapErrorToCode(error);
+}
+
 /**
  * Map an error to an appropriate error code
  */
@@ -0,0 +1,472 @@
+/**
+ * Accounting Software Export - shared model
+ *
+ * Loads bank lines, ledger journals and bills/sales invoices into a package-neutral
+ * shape that the Xero, QuickBooks Online, Sage 50 and FreeAgent formatters render
+ * into each package's own import template.
+ */
+
+import {
+  DEFAULT_BANK_ACCOUNT_CODE,
+  resolveCategoryAccountCode,
+  type CategoryAccountMapping,
+  type LedgerAccount,
+} from "@/lib/ledger/journal";
+import { VAT_CODES, resolveVatCode, splitVatAmount, type VatCode } from "@/lib/vat/codes";
+import { expandSplit, getSplitLines, splitNetAndVat } from "@/lib/categorization/splits";
+
+export interface ExportBankLine {
+  date: string;
+  /** Signed: negative for money out, positive for money in */
+  amount: number;
+  description: string;
+  payee: string | null;
+  reference: string | null;
+  /** Nominal account the line is categorized to */
+  accountCode: string;
+  /** Nominal account of the bank account itself */
+  bankAccountCode: string;
+  vatCode: VatCode | null;
+  /** VAT included in the amount (0 when the code carries none) */
+  vatAmount: number;
+  /** Categorized lines of a split transaction, adding up to the amount; empty when unsplit */
+  splits: ExportBankSplit[];
+}
+
+export interface ExportBankSplit {
+  /** Signed, like the line's amount */
+  amount: number;
+  description: string;
+  accountCode: string;
+  vatCode: VatCode | null;
+  vatAmount: number;
+}
+
+export interface ExportJournalLine {
+  accountCode: string;
+  accountName: string;
+  debit: number;
+  credit: number;
+  description: string | null;
+}
+
+export interface ExportJournal {
+  date: string;
+  reference: string;
+  narration: string;
+  lines: ExportJournalLine[];
+}
+
+export type ExportDocumentKind = 'bill' | 'sales_invoice';
+
+export interface ExportDocumentLine {
+  description: string;
+  quantity: number;
+  /** Net price per unit */
+  unitAmount: number;
+  netAmount: number;
+  taxAmount: number;
+  vatCode: VatCode | null;
+  vatRate: number;
+  accountCode: string;
+  accountName: string;
+}
+
+export interface ExportDocument {
+  kind: ExportDocumentKind;
+  contactName: string;
+  number: string;
+  reference: string | null;
+  date: string;
+  dueDate: string;
+  currency: string;
+  lines: ExportDocumentLine[];
+}
+
+const EXPORT_PAGE_SIZE = 1000;
+
+// ============================================================================
+// FORMATTING HELPERS
+// ============================================================================
+
+/**
+ * Build a CSV document. Pass null headers for header-less templates.
+ * Cells are quoted only when they contain a delimiter, quote or line break.
+ */
+export function toCSV(
+  headers: string[] | null,
+  rows: Array<Array<string | number | null | undefined>>
+): string {
+  const cell = (value: string | number | null | undefined): string => {
+    if (value === null || value === undefined) return '';
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const lines = headers ? [headers.map(cell).join(',')] : [];
+  for (const row of rows) {
+    lines.push(row.map(cell).join(','));
+  }
+  return lines.join('\n');
+}
+
+/** YYYY-MM-DD to DD/MM/YYYY, the date format all four UK templates accept */
+export function formatUKDate(isoDate: string): string {
+  const [year, month, day] = isoDate.split('T')[0].split('-');
+  return `${day}/${month}/${year}`;
+}
+
+/** Two-decimal amount string */
+export function formatAmount(amount: number): string {
+  return (Math.round(amount * 100) / 100).toFixed(2);
+}
+
+/** Round to pence */
+function roundPence(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// ============================================================================
+// LOADERS
+// ============================================================================
+
+interface CompanyAccounts {
+  chart: LedgerAccount[];
+  mappings: CategoryAccountMapping[];
+  accountsByCode: Map<string, LedgerAccount>;
+}
+
+async function loadCompanyAccounts(supabase: any, companyProfileId: string): Promise<CompanyAccounts> {
+  const { data: chartOfAccounts } = await supabase
+    .from("chart_of_accounts")
+    .select("id, account_code, account_name, account_type")
+    .eq("company_profile_id", companyProfileId)
+    .eq("is_active", true);
+
+  const { data: mappings } = await supabase
+    .from("category_account_mapping")
+    .select("category, subcategory, account_code")
+    .eq("company_profile_id", companyProfileId);
+
+  const chart: LedgerAccount[] = chartOfAccounts || [];
+  return {
+    chart,
+    mappings: mappings || [],
+    accountsByCode: new Map(chart.map((account) => [account.account_code, account])),
+  };
+}
+
+/**
+ * Load one bank account's transactions as signed statement lines.
+ * Invoice-derived rows and breakdown children are excluded - they never hit the bank.
+ */
+export async function loadBankStatementLines(
+  supabase: any,
+  companyProfileId: string,
+  bankAccountId: string,
+  startDate: string,
+  endDate: string
+): Promise<ExportBankLine[]> {
+  const { chart, mappings } = await loadCompanyAccounts(supabase, companyProfileId);
+
+  const { data: bankAccount } = await supabase
+    .from("bank_accounts")
+    .select("id, ledger_account_id")
+    .eq("id", bankAccountId)
+    .single();
+  const bankLedger = bankAccount?.ledger_account_id
+    ? chart.find((account) => account.id === bankAccount.ledger_account_id)
+    : null;
+  const bankAccountCode = bankLedger?.account_code || DEFAULT_BANK_ACCOUNT_CODE;
+
+  const lines: ExportBankLine[] = [];
+  for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+    const { data: transactions, error } = await supabase
+      .from("categorized_transactions")
+      .select(`
+        id,
+        date,
+        amount,
+        is_debit,
+        original_description,
+        category,
+        subcategory,
+        reference_number,
+        vat_code,
+        vat_rate,
+        vat_amount,
+        document_id,
+        is_breakdown_entry,
+        split_allocations,
+        suppliers (name)
+      `)
+      .eq("bank_account_id", bankAccountId)
+      .eq("company_profile_id", companyProfileId)
+      .gte("date", startDate)
+      .lte("date", endDate)
+      .order("date", { ascending: true })
+      .order("id", { ascending: true })
+      .range(offset, offset + EXPORT_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(error.message || "Failed to load bank transactions");
+    }
+
+    for (const tx of transactions || []) {
+      if (tx.is_breakdown_entry || tx.document_id) continue;
+
+      const gross = Math.abs(Number(tx.amount) || 0);
+      if (gross === 0) continue;
+      const isMoneyOut = tx.is_debit ?? Number(tx.amount) < 0;
+      const includedVat = (row: { amount: number; vat_rate?: number | null; vat_amount?: number | null }, vatCode: VatCode | null) =>
+        vatCode && !['reverse_charge', 'ec_acquisition'].includes(vatCode)
+          ? roundPence(splitVatAmount(Math.abs(row.amount), vatCode, { vatRate: row.vat_rate, vatAmount: row.vat_amount }).vat)
+          : 0;
+      const vatCode = resolveVatCode(tx);
+
+      const splits: ExportBankSplit[] = getSplitLines(tx.split_allocations).length === 0
+        ? []
+        : expandSplit({ ...tx, amount: isMoneyOut ? -gross : gross }).map((part) => {
+          const partVatCode = resolveVatCode(part);
+          const detail = [part.split_line?.description, part.split_line?.supplier_name].filter(Boolean).join(" - ");
+          return {
+            amount: part.amount,
+            description: detail || tx.original_description,
+            accountCode: resolveCategoryAccountCode(part.category, part.subcategory, mappings, chart),
+            vatCode: partVatCode,
+            vatAmount: includedVat(part, partVatCode),
+          };
+        });
+
+      lines.push({
+        date: tx.date,
+        amount: isMoneyOut ? -gross : gross,
+        description: tx.original_description,
+        payee: tx.suppliers?.name || null,
+        reference: tx.reference_number || null,
+        accountCode: resolveCategoryAccountCode(tx.category, tx.subcategory, mappings, chart),
+        bankAccountCode,
+        vatCode,
+        vatAmount: splits.length > 0
+          ? roundPence(splits.reduce((sum, split) => sum + split.vatAmount, 0))
+          : includedVat({ ...tx, amount: gross }, vatCode),
+        splits,
+      });
+    }
+
+    if (!transactions || transactions.length < EXPORT_PAGE_SIZE) break;
+  }
+
+  return lines;
+}
+
+/**
+ * Load posted ledger entries as balanced journals
+ */
+export async function loadManualJournals(
+  supabase: any,
+  companyProfileId: string,
+  startDate: string,
+  endDate: string
+): Promise<ExportJournal[]> {
+  const journals: ExportJournal[] = [];
+
+  for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+    const { data: entries, error } = await supabase
+      .from("journal_entries")
+      .select(`
+        id,
+        entry_date,
+        reference,
+        description,
+        journal_lines (
+          line_number,
+          debit,
+          credit,
+          description,
+          chart_of_accounts (account_code, account_name)
+        )
+      `)
+      .eq("company_profile_id", companyProfileId)
+      .eq("status", "posted")
+      .gte("entry_date", startDate)
+      .lte("entry_date", endDate)
+      .order("entry_date", { ascending: true })
+      .order("id", { ascending: true })
+      .range(offset, offset + EXPORT_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(error.message || "Failed to load journal entries");
+    }
+
+    for (const entry of entries || []) {
+      const lines = [...(entry.journal_lines || [])]
+        .sort((a: any, b: any) => a.line_number - b.line_number)
+        .map((line: any) => ({
+          accountCode: line.chart_of_accounts?.account_code || '',
+          accountName: line.chart_of_accounts?.account_name || '',
+          debit: Number(line.debit) || 0,
+          credit: Number(line.credit) || 0,
+          description: line.description || null,
+        }));
+      if (lines.length === 0) continue;
+
+      journals.push({
+        date: entry.entry_date,
+        reference: entry.reference || entry.id.slice(0, 8),
+        narration: entry.description || entry.reference || 'Journal',
+        lines,
+      });
+    }
+
+    if (!entries || entries.length < EXPORT_PAGE_SIZE) break;
+  }
+
+  return journals;
+}
+
+/**
+ * Load invoices and receipts of one kind (financial_documents.document_kind)
+ */
+export async function loadDocuments(
+  supabase: any,
+  companyProfileId: string,
+  kind: ExportDocumentKind,
+  startDate: string,
+  endDate: string
+): Promise<ExportDocument[]> {
+  const { chart, mappings, accountsByCode } = await loadCompanyAccounts(supabase, companyProfileId);
+
+  const { data: company } = await supabase
+    .from("company_profiles")
+    .select("default_currency")
+    .eq("id", companyProfileId)
+    .single();
+
+  const { data: documents, error } = await supabase
+    .from("financial_documents")
+    .select(`
+      id,
+      vendor_name,
+      invoice_number,
+      document_number,
+      po_number,
+      document_date,
+      due_date,
+      currency,
+      category,
+      subcategory,
+      description,
+      subtotal_amount,
+      tax_amount,
+      tax_rate,
+      total_amount,
+      line_items,
+      split_allocations
+    `)
+    .eq("company_profile_id", companyProfileId)
+    .eq("is_deleted", false)
+    .eq("document_kind", kind)
+    .in("file_type", ["invoice", "receipt"])
+    .gte("document_date", startDate)
+    .lte("document_date", endDate)
+    .order("document_date", { ascending: true });
+
+  if (error) {
+    throw new Error(error.message || "Failed to load documents");
+  }
+
+  const exported: ExportDocument[] = [];
+  for (const doc of documents || []) {
+    const accountCode = resolveCategoryAccountCode(doc.category, doc.subcategory, mappings, chart);
+    const accountName = accountsByCode.get(accountCode)?.account_name || doc.category || 'Uncategorized';
+    const vatCode = resolveVatCode({ vat_rate: doc.tax_rate });
+    const vatRate = doc.tax_rate !== null && doc.tax_rate !== undefined ? Number(doc.tax_rate) : 0;
+
+    const total = Math.abs(Number(doc.total_amount) || 0);
+    const tax = Math.abs(Number(doc.tax_amount) || 0);
+    const net = doc.subtotal_amount !== null && doc.subtotal_amount !== undefined
+      ? Math.abs(Number(doc.subtotal_amount))
+      : total - tax;
+
+    const items: Array<{ description: string; quantity?: number; unit_price?: number; total: number }> =
+      Array.isArray(doc.line_items) ? doc.line_items.filter((item: any) => Number(item?.total)) : [];
+    const itemsNet = items.reduce((sum, item) => sum + Math.abs(Number(item.total)), 0);
+
+    const splits = getSplitLines(doc.split_allocations);
+
+    let lines: ExportDocumentLine[];
+    if (splits.length > 0) {
+      // Split documents export one line per split, each with its own account and VAT
+      const parts = splitNetAndVat(total, tax, splits);
+      lines = splits.map((split, index) => {
+        const splitAccountCode = resolveCategoryAccountCode(split.category, split.subcategory || null, mappings, chart);
+        const ownVatCode = resolveVatCode(split);
+        const splitVatCode = ownVatCode || vatCode;
+        const splitVatRate = split.vat_rate !== null && split.vat_rate !== undefined
+          ? Number(split.vat_rate)
+          : ownVatCode ? VAT_CODES[ownVatCode].defaultRate : vatRate;
+        return {
+          description: [split.description, split.supplier_name].filter(Boolean).join(" - ") ||
+            doc.description || doc.vendor_name || split.category,
+          quantity: 1,
+          unitAmount: parts[index].net,
+          netAmount: parts[index].net,
+          taxAmount: parts[index].vat,
+          vatCode: splitVatCode,
+          vatRate: splitVatRate,
+          accountCode: splitAccountCode,
+          accountName: accountsByCode.get(splitAccountCode)?.account_name || split.category,
+        };
+      });
+    } else if (items.length > 0 && itemsNet > 0) {
+      // Line totals are net; document tax is spread pro rata, rounding onto the last line
+      let taxAllocated = 0;
+      lines = items.map((item, index) => {
+        const lineNet = roundPence(Math.abs(Number(item.total)));
+        const lineTax = index === items.length - 1
+          ? roundPence(tax - taxAllocated)
+          : roundPence(tax * lineNet / itemsNet);
+        taxAllocated += lineTax;
+        const quantity = Number(item.quantity) || 1;
+        return {
+          description: item.description || doc.description || doc.vendor_name || 'Item',
+          quantity,
+          unitAmount: roundPence(lineNet / quantity),
+          netAmount: lineNet,
+          taxAmount: lineTax,
+          vatCode,
+          vatRate,
+          accountCode,
+          accountName,
+        };
+      });
+    } else {
+      lines = [{
+        description: doc.description || doc.vendor_name || 'Document total',
+        quantity: 1,
+        unitAmount: roundPence(net),
+        netAmount: roundPence(net),
+        taxAmount: roundPence(tax),
+        vatCode,
+        vatRate,
+        accountCode,
+        accountName,
+      }];
+    }
+
+    exported.push({
+      kind,
+      contactName: doc.vendor_name || 'Unknown contact',
+      number: doc.invoice_number || doc.document_number || doc.id.slice(0, 8),
+      reference: doc.po_number || null,
+      date: doc.document_date,
+      // Documents without a captured due date fall due on their issue date
+      dueDate: doc.due_date || doc.document_date,
+      currency: doc.currency || company?.default_currency || 'GBP',
+      lines,
+    });
+  }
+
+  return exported;
+}
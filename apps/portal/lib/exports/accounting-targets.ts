@@ -0,0 +1,100 @@
+/**
+ * Accounting Software Export Targets
+ *
+ * Registry of the packages we export to and the import templates each one supports
+ */
+
+import type { ExportBankLine, ExportDocument, ExportJournal } from "./accounting-export";
+import {
+  exportXeroBankStatement,
+  exportXeroBills,
+  exportXeroManualJournals,
+  exportXeroSalesInvoices,
+} from "./xero-export";
+import {
+  exportQuickBooksBankStatement,
+  exportQuickBooksBills,
+  exportQuickBooksJournals,
+  exportQuickBooksSalesInvoices,
+} from "./quickbooks-export";
+import {
+  exportSageBankStatement,
+  exportSageBills,
+  exportSageJournals,
+  exportSageSalesInvoices,
+} from "./sage-export";
+import {
+  exportFreeAgentBankStatement,
+  exportFreeAgentBills,
+  exportFreeAgentJournals,
+  exportFreeAgentSalesInvoices,
+} from "./freeagent-export";
+
+export type AccountingExportTarget = 'xero' | 'quickbooks' | 'sage50' | 'freeagent';
+export type AccountingExportFormat = 'bank_statement' | 'manual_journal' | 'bills' | 'sales_invoices';
+
+export interface AccountingExporters {
+  bank_statement: (lines: ExportBankLine[]) => string;
+  manual_journal: (journals: ExportJournal[]) => string;
+  bills: (documents: ExportDocument[]) => string;
+  sales_invoices: (documents: ExportDocument[]) => string;
+}
+
+export interface AccountingTargetDefinition {
+  label: string;
+  exporters: AccountingExporters;
+}
+
+export const ACCOUNTING_EXPORT_FORMATS: Record<AccountingExportFormat, { label: string; requiresBankAccount: boolean }> = {
+  bank_statement: { label: 'Bank statement', requiresBankAccount: true },
+  manual_journal: { label: 'Manual journals', requiresBankAccount: false },
+  bills: { label: 'Bills', requiresBankAccount: false },
+  sales_invoices: { label: 'Sales invoices', requiresBankAccount: false },
+};
+
+export const ACCOUNTING_EXPORT_TARGETS: Record<AccountingExportTarget, AccountingTargetDefinition> = {
+  xero: {
+    label: 'Xero',
+    exporters: {
+      bank_statement: exportXeroBankStatement,
+      manual_journal: exportXeroManualJournals,
+      bills: exportXeroBills,
+      sales_invoices: exportXeroSalesInvoices,
+    },
+  },
+  quickbooks: {
+    label: 'QuickBooks Online',
+    exporters: {
+      bank_statement: exportQuickBooksBankStatement,
+      manual_journal: exportQuickBooksJournals,
+      bills: exportQuickBooksBills,
+      sales_invoices: exportQuickBooksSalesInvoices,
+    },
+  },
+  sage50: {
+    label: 'Sage 50',
+    exporters: {
+      bank_statement: exportSageBankStatement,
+      manual_journal: exportSageJournals,
+      bills: exportSageBills,
+      sales_invoices: exportSageSalesInvoices,
+    },
+  },
+  freeagent: {
+    label: 'FreeAgent',
+    exporters: {
+      bank_statement: exportFreeAgentBankStatement,
+      manual_journal: exportFreeAgentJournals,
+      bills: exportFreeAgentBills,
+      sales_invoices: exportFreeAgentSalesInvoices,
+    },
+  },
+};
+
+export function isAccountingExportTarget(value: unknown): value is AccountingExportTarget {
+  return typeof value === 'string' && value in ACCOUNTING_EXPORT_TARGETS;
+}
+
+export function isAccountingExportFormat(value: unknown): value is AccountingExportFormat {
+  return typeof value === 'string' && value in ACCOUNTING_EXPORT_FORMATS;
+}
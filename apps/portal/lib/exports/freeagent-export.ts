@@ -0,0 +1,97 @@
+/**
+ * FreeAgent Export Service
+ *
+ * Formats bank statements, journals, bills and invoices for FreeAgent's CSV imports
+ */
+
+import type { VatCode } from "@/lib/vat/codes";
+import {
+  formatAmount,
+  formatUKDate,
+  toCSV,
+  type ExportBankLine,
+  type ExportDocument,
+  type ExportJournal,
+} from "./accounting-export";
+
+/**
+ * FreeAgent takes a sales tax percentage; exempt and out-of-scope lines are flagged by name
+ */
+function freeAgentSalesTaxRate(vatCode: VatCode | null, vatRate: number): string {
+  if (vatCode === 'exempt') return 'Exempt';
+  if (vatCode === 'outside_scope' || vatCode === null) return 'Out Of Scope';
+  if (vatCode === 'zero') return '0';
+  return String(vatRate);
+}
+
+/**
+ * Bank statement import: three columns (date, signed amount, description) and no header row
+ */
+export function exportFreeAgentBankStatement(lines: ExportBankLine[]): string {
+  return toCSV(
+    null,
+    lines.map(line => [
+      formatUKDate(line.date),
+      formatAmount(line.amount),
+      line.payee ? `${line.payee} - ${line.description}` : line.description,
+    ])
+  );
+}
+
+/**
+ * Journal import against nominal codes; each journal's lines balance
+ */
+export function exportFreeAgentJournals(journals: ExportJournal[]): string {
+  return toCSV(
+    ['Date', 'Reference', 'Nominal Code', 'Description', 'Debit', 'Credit'],
+    journals.flatMap(journal => journal.lines.map(line => [
+      formatUKDate(journal.date),
+      journal.reference,
+      line.accountCode,
+      line.description || journal.narration,
+      line.debit > 0 ? formatAmount(line.debit) : null,
+      line.credit > 0 ? formatAmount(line.credit) : null,
+    ]))
+  );
+}
+
+/**
+ * Bills import, one row per bill line with VAT-inclusive values
+ */
+export function exportFreeAgentBills(documents: ExportDocument[]): string {
+  return toCSV(
+    ['Contact', 'Reference', 'Dated On', 'Due On', 'Category', 'Description', 'Total Value', 'Sales Tax Rate', 'Currency'],
+    documents.flatMap(doc => doc.lines.map(line => [
+      doc.contactName,
+      doc.number,
+      formatUKDate(doc.date),
+      formatUKDate(doc.dueDate),
+      line.accountCode,
+      line.description,
+      formatAmount(line.netAmount + line.taxAmount),
+      freeAgentSalesTaxRate(line.vatCode, line.vatRate),
+      doc.currency,
+    ]))
+  );
+}
+
+/**
+ * Invoices import, one row per invoice item with net prices
+ */
+export function exportFreeAgentSalesInvoices(documents: ExportDocument[]): string {
+  return toCSV(
+    ['Contact', 'Reference', 'Dated On', 'Due On', 'Description', 'Quantity', 'Price', 'Category', 'Sales Tax Rate', 'Currency'],
+    documents.flatMap(doc => doc.lines.map(line => [
+      doc.contactName,
+      doc.number,
+      formatUKDate(doc.date),
+      formatUKDate(doc.dueDate),
+      line.description,
+      line.quantity,
+      formatAmount(line.unitAmount),
+      line.accountCode,
+      freeAgentSalesTaxRate(line.vatCode, line.vatRate),
+      doc.currency,
+    ]))
+  );
+}
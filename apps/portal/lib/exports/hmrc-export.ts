@@ -7,20 +7,27 @@
  * - Corporation tax
  */
 
+import { calculateVATReturn, type VatAccountingBasis, type VatReturnCalculation, type VatScheme, type VatTransaction } from "@/lib/vat/vat-return";
+import type { VatCode } from "@/lib/vat/codes";
+import type { CapitalAllowanceComputation } from "@/lib/assets/capital-allowances";
+
 export interface VATReturn {
   period_start: Date;
   period_end: Date;
   vat_number: string;
-  vat_due_on_sales: number;
-  vat_due_on_acquisitions: number;
-  total_vat_due: number;
-  vat_reclaimed_on_purchases: number;
-  net_vat_due: number;
-  total_sales_excluding_vat: number;
-  total_purchases_excluding_vat: number;
-  total_supplies_made_at_standard_rate: number;
-  total_supplies_made_at_reduced_rate: number;
-  total_supplies_made_at_zero_rate: number;
+  vat_scheme: VatScheme;
+  accounting_basis: VatAccountingBasis;
+  vat_due_on_sales: number;                    // Box 1
+  vat_due_on_acquisitions: number;             // Box 2
+  total_vat_due: number;                       // Box 3
+  vat_reclaimed_on_purchases: number;          // Box 4
+  net_vat_due: number;                         // Box 5
+  total_sales_excluding_vat: number;           // Box 6
+  total_purchases_excluding_vat: number;       // Box 7
+  total_goods_supplied_excluding_vat: number;  // Box 8
+  total_acquisitions_excluding_vat: number;    // Box 9
+  warnings: string[];
+  calculation: VatReturnCalculation;
 }
 
 export interface SelfAssessmentData {
@@ -48,84 +55,52 @@ export interface CorporationTaxData {
   gross_profit: number;
   operating_expenses: number;
   operating_profit: number;
+  capital_allowances: number;
+  balancing_charges: number;
+  taxable_profit: number;
   tax_due: number;
+  capital_allowance_computation?: CapitalAllowanceComputation;
 }
 
 /**
  * Export VAT return data for HMRC
  */
 export async function exportVATReturn(
-  transactions: Array<{
-    date: string | Date;
-    amount: number;
-    category?: string;
-    is_debit: boolean;
-    vat_amount?: number;
-    vat_rate?: number;
-  }>,
+  transactions: VatTransaction[],
   vatNumber: string,
   periodStart: Date,
   periodEnd: Date,
-  vatScheme: 'standard' | 'flat_rate' | 'cash_accounting' = 'standard',
-  flatRatePercentage?: number
+  vatScheme: VatScheme = 'standard',
+  flatRatePercentage?: number,
+  options: { basis?: VatAccountingBasis; defaultVatCode?: VatCode } = {}
 ): Promise<VATReturn> {
-  let vatDueOnSales = 0;
-  let vatReclaimedOnPurchases = 0;
-  let totalSalesExcludingVAT = 0;
-  let totalPurchasesExcludingVAT = 0;
-  let totalSuppliesStandardRate = 0;
-  let totalSuppliesReducedRate = 0;
-  let totalSuppliesZeroRate = 0;
-
-  transactions.forEach(tx => {
-    const amount = Math.abs(tx.amount);
-    const vatAmount = tx.vat_amount || (tx.vat_rate ? amount * (tx.vat_rate / 100) : 0);
-    const netAmount = amount - vatAmount;
-
-    if (!tx.is_debit) {
-      // Sales/Income
-      totalSalesExcludingVAT += netAmount;
-      vatDueOnSales += vatAmount;
-      
-      // Categorize by VAT rate (simplified - would need actual VAT rate data)
-      if (tx.vat_rate === 20 || !tx.vat_rate) {
-        totalSuppliesStandardRate += netAmount;
-      } else if (tx.vat_rate === 5) {
-        totalSuppliesReducedRate += netAmount;
-      } else {
-        totalSuppliesZeroRate += netAmount;
-      }
-    } else {
-      // Purchases/Expenses
-      totalPurchasesExcludingVAT += netAmount;
-      vatReclaimedOnPurchases += vatAmount;
-    }
+  const calculation = calculateVATReturn(transactions, {
+    periodStart: periodStart.toISOString().split('T')[0],
+    periodEnd: periodEnd.toISOString().split('T')[0],
+    scheme: vatScheme,
+    basis: options.basis,
+    flatRatePercentage,
+    defaultVatCode: options.defaultVatCode,
   });
-
-  // Apply flat rate scheme if applicable
-  if (vatScheme === 'flat_rate' && flatRatePercentage) {
-    const flatRateVAT = totalSalesExcludingVAT * (flatRatePercentage / 100);
-    vatDueOnSales = flatRateVAT;
-    vatReclaimedOnPurchases = 0; // Flat rate scheme doesn't allow reclaiming VAT on purchases
-  }
-
-  const totalVATDue = vatDueOnSales;
-  const netVATDue = totalVATDue - vatReclaimedOnPurchases;
+  const { boxes } = calculation;
 
   return {
     period_start: periodStart,
     period_end: periodEnd,
     vat_number: vatNumber,
-    vat_due_on_sales: vatDueOnSales,
-    vat_due_on_acquisitions: 0, // Would need import data
-    total_vat_due: totalVATDue,
-    vat_reclaimed_on_purchases: vatReclaimedOnPurchases,
-    net_vat_due: netVATDue,
-    total_sales_excluding_vat: totalSalesExcludingVAT,
-    total_purchases_excluding_vat: totalPurchasesExcludingVAT,
-    total_supplies_made_at_standard_rate: totalSuppliesStandardRate,
-    total_supplies_made_at_reduced_rate: totalSuppliesReducedRate,
-    total_supplies_made_at_zero_rate: totalSuppliesZeroRate,
+    vat_scheme: calculation.scheme,
+    accounting_basis: calculation.basis,
+    vat_due_on_sales: boxes.box1,
+    vat_due_on_acquisitions: boxes.box2,
+    total_vat_due: boxes.box3,
+    vat_reclaimed_on_purchases: boxes.box4,
+    net_vat_due: boxes.box5,
+    total_sales_excluding_vat: boxes.box6,
+    total_purchases_excluding_vat: boxes.box7,
+    total_goods_supplied_excluding_vat: boxes.box8,
+    total_acquisitions_excluding_vat: boxes.box9,
+    warnings: calculation.warnings,
+    calculation,
   };
 }
 
@@ -138,6 +113,8 @@ export function exportVATReturnCSV(vatReturn: VATReturn): string {
     ['VAT Number', vatReturn.vat_number],
     ['Period Start', vatReturn.period_start.toISOString().split('T')[0]],
     ['Period End', vatReturn.period_end.toISOString().split('T')[0]],
+    ['VAT Scheme', vatReturn.vat_scheme],
+    ['Accounting Basis', vatReturn.accounting_basis],
     [''],
     ['Box 1 - VAT due on sales', vatReturn.vat_due_on_sales.toFixed(2)],
     ['Box 2 - VAT due on acquisitions', vatReturn.vat_due_on_acquisitions.toFixed(2)],
@@ -145,11 +122,11 @@ export function exportVATReturnCSV(vatReturn: VATReturn): string {
     ['Box 4 - VAT reclaimed on purchases', vatReturn.vat_reclaimed_on_purchases.toFixed(2)],
     ['Box 5 - Net VAT due', vatReturn.net_vat_due.toFixed(2)],
     [''],
-    ['Box 6 - Total sales excluding VAT', vatReturn.total_sales_excluding_vat.toFixed(2)],
-    ['Box 7 - Total purchases excluding VAT', vatReturn.total_purchases_excluding_vat.toFixed(2)],
-    ['Box 8 - Supplies at standard rate', vatReturn.total_supplies_made_at_standard_rate.toFixed(2)],
-    ['Box 9 - Supplies at reduced rate', vatReturn.total_supplies_made_at_reduced_rate.toFixed(2)],
-    ['Box 10 - Supplies at zero rate', vatReturn.total_supplies_made_at_zero_rate.toFixed(2)],
+    ['Box 6 - Total sales excluding VAT', vatReturn.total_sales_excluding_vat.toFixed(0)],
+    ['Box 7 - Total purchases excluding VAT', vatReturn.total_purchases_excluding_vat.toFixed(0)],
+    ['Box 8 - Goods supplied to EU excluding VAT', vatReturn.total_goods_supplied_excluding_vat.toFixed(0)],
+    ['Box 9 - Acquisitions from EU excluding VAT', vatReturn.total_acquisitions_excluding_vat.toFixed(0)],
+    ...(vatReturn.warnings.length > 0 ? [[''], ...vatReturn.warnings.map(warning => ['Warning', warning])] : []),
   ];
 
   return rows.map(row => row.map(cell => `"${cell}"`).join(',')).join('\n');
@@ -245,6 +222,8 @@ export function exportSelfAssessmentCSV(data: SelfAssessmentData): string {
 
 /**
  * Export corporation tax data
+ * Capitalised purchases should be left out of the transactions; they are relieved through
+ * the capital allowances instead.
  */
 export async function exportCorporationTax(
   transactions: Array<{
@@ -255,7 +234,8 @@ export async function exportCorporationTax(
   }>,
   companyNumber: string,
   accountingPeriodStart: Date,
-  accountingPeriodEnd: Date
+  accountingPeriodEnd: Date,
+  capitalAllowances?: CapitalAllowanceComputation
 ): Promise<CorporationTaxData> {
   let turnover = 0;
   let costOfSales = 0;
@@ -280,16 +260,19 @@ export async function exportCorporationTax(
 
   const grossProfit = turnover - costOfSales;
   const operatingProfit = grossProfit - operatingExpenses;
+  const allowances = capitalAllowances?.total_allowances || 0;
+  const balancingCharges = capitalAllowances?.total_balancing_charges || 0;
+  const taxableProfit = operatingProfit - allowances + balancingCharges;
   
   // UK corporation tax rate: 19% (2023-24) or 25% for profits over £250,000
   let taxDue = 0;
-  if (operatingProfit > 0) {
-    if (operatingProfit <= 50000) {
-      taxDue = operatingProfit * 0.19; // Small profits rate
-    } else if (operatingProfit <= 250000) {
-      taxDue = operatingProfit * 0.19; // Main rate
+  if (taxableProfit > 0) {
+    if (taxableProfit <= 50000) {
+      taxDue = taxableProfit * 0.19; // Small profits rate
+    } else if (taxableProfit <= 250000) {
+      taxDue = taxableProfit * 0.19; // Main rate
     } else {
-      taxDue = operatingProfit * 0.25; // Higher rate
+      taxDue = taxableProfit * 0.25; // Higher rate
     }
   }
 
@@ -302,7 +285,11 @@ export async function exportCorporationTax(
     gross_profit: grossProfit,
     operating_expenses: operatingExpenses,
     operating_profit: operatingProfit,
+    capital_allowances: allowances,
+    balancing_charges: balancingCharges,
+    taxable_profit: taxableProfit,
     tax_due: taxDue,
+    capital_allowance_computation: capitalAllowances,
   };
 }
 
@@ -321,9 +308,37 @@ export function exportCorporationTaxCSV(data: CorporationTaxData): string {
     ['Gross Profit', data.gross_profit.toFixed(2)],
     ['Operating Expenses', data.operating_expenses.toFixed(2)],
     ['Operating Profit', data.operating_profit.toFixed(2)],
+    ['Capital Allowances', data.capital_allowances.toFixed(2)],
+    ['Balancing Charges', data.balancing_charges.toFixed(2)],
+    ['Taxable Profit', data.taxable_profit.toFixed(2)],
     ['Corporation Tax Due', data.tax_due.toFixed(2)],
+    ...(data.capital_allowance_computation ? capitalAllowanceRows(data.capital_allowance_computation) : []),
   ];
 
   return rows.map(row => row.map(cell => `"${cell}"`).join(',')).join('\n');
 }
 
+function capitalAllowanceRows(computation: CapitalAllowanceComputation): string[][] {
+  const pools = [
+    ['Main Pool', computation.main_pool],
+    ['Special Rate Pool', computation.special_rate_pool],
+  ] as const;
+
+  return [
+    [''],
+    ['Capital Allowances', ''],
+    ['Annual Investment Allowance Limit', computation.aia_limit.toFixed(2)],
+    ...pools.flatMap(([label, pool]) => [
+      [''],
+      [label, ''],
+      ['Brought Forward', pool.brought_forward.toFixed(2)],
+      ['Additions', pool.additions.toFixed(2)],
+      ['Annual Investment Allowance', pool.aia.toFixed(2)],
+      ['Disposals', pool.disposals.toFixed(2)],
+      ['Writing Down Allowance', pool.wda.toFixed(2)],
+      ['Small Pool Allowance', pool.small_pool_allowance.toFixed(2)],
+      ['Balancing Charge', pool.balancing_charge.toFixed(2)],
+      ['Carried Forward', pool.carried_forward.toFixed(2)],
+    ]),
+  ];
+}
@@ -0,0 +1,112 @@
+/**
+ * QuickBooks Online Export Service
+ *
+ * Formats bank statements, journals, bills and invoices for the
+ * QuickBooks Online (UK) CSV import templates
+ */
+
+import type { VatCode } from "@/lib/vat/codes";
+import {
+  formatAmount,
+  formatUKDate,
+  toCSV,
+  type ExportBankLine,
+  type ExportDocument,
+  type ExportJournal,
+} from "./accounting-export";
+
+/**
+ * QuickBooks UK VAT code names
+ */
+const QUICKBOOKS_TAX_CODES: Record<VatCode, string> = {
+  standard: '20.0% S',
+  reduced: '5.0% R',
+  zero: '0.0% Z',
+  exempt: 'Exempt',
+  outside_scope: 'No VAT',
+  reverse_charge: '20.0% RC',
+  ec_acquisition: '20.0% ECG',
+};
+
+function quickbooksTaxCode(vatCode: VatCode | null): string {
+  return vatCode ? QUICKBOOKS_TAX_CODES[vatCode] : 'No VAT';
+}
+
+/**
+ * Bank statement import, three-column layout with signed amounts
+ */
+export function exportQuickBooksBankStatement(lines: ExportBankLine[]): string {
+  return toCSV(
+    ['Date', 'Description', 'Amount'],
+    lines.map(line => [
+      formatUKDate(line.date),
+      line.payee ? `${line.payee} - ${line.description}` : line.description,
+      formatAmount(line.amount),
+    ])
+  );
+}
+
+/**
+ * Journal entry import. Lines sharing a journal number form one balanced entry;
+ * QuickBooks matches accounts by name.
+ */
+export function exportQuickBooksJournals(journals: ExportJournal[]): string {
+  return toCSV(
+    ['Journal No', 'Journal Date', 'Account', 'Debits', 'Credits', 'Description', 'Memo'],
+    journals.flatMap(journal => journal.lines.map(line => [
+      journal.reference,
+      formatUKDate(journal.date),
+      line.accountName || line.accountCode,
+      line.debit > 0 ? formatAmount(line.debit) : null,
+      line.credit > 0 ? formatAmount(line.credit) : null,
+      line.description,
+      journal.narration,
+    ]))
+  );
+}
+
+/**
+ * Bill import, one row per bill line
+ */
+export function exportQuickBooksBills(documents: ExportDocument[]): string {
+  return toCSV(
+    ['Bill No', 'Supplier', 'Bill Date', 'Due Date', 'Memo', 'Account', 'Line Description', 'Line Amount', 'Line Tax Code', 'Line Tax Amount', 'Currency'],
+    documents.flatMap(doc => doc.lines.map(line => [
+      doc.number,
+      doc.contactName,
+      formatUKDate(doc.date),
+      formatUKDate(doc.dueDate),
+      doc.reference,
+      line.accountName || line.accountCode,
+      line.description,
+      formatAmount(line.netAmount),
+      quickbooksTaxCode(line.vatCode),
+      formatAmount(line.taxAmount),
+      doc.currency,
+    ]))
+  );
+}
+
+/**
+ * Invoice import, one row per invoice line
+ */
+export function exportQuickBooksSalesInvoices(documents: ExportDocument[]): string {
+  return toCSV(
+    ['Invoice No', 'Customer', 'Invoice Date', 'Due Date', 'Memo', 'Item(Product/Service)', 'Item Description', 'Item Quantity', 'Item Rate', 'Item Amount', 'Item Tax Code', 'Item Tax Amount', 'Currency'],
+    documents.flatMap(doc => doc.lines.map(line => [
+      doc.number,
+      doc.contactName,
+      formatUKDate(doc.date),
+      formatUKDate(doc.dueDate),
+      doc.reference,
+      line.accountName || line.accountCode,
+      line.description,
+      line.quantity,
+      formatAmount(line.unitAmount),
+      formatAmount(line.netAmount),
+      quickbooksTaxCode(line.vatCode),
+      formatAmount(line.taxAmount),
+      doc.currency,
+    ]))
+  );
+}
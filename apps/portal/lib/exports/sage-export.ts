@@ -0,0 +1,139 @@
+/**
+ * Sage 50 Accounts Export Service
+ *
+ * Formats data for the Sage 50 (UK) audit trail transaction import. Every format
+ * uses the same layout; the transaction type (BP, BR, JD, JC, PI, SI) carries the direction.
+ */
+
+import type { VatCode } from "@/lib/vat/codes";
+import {
+  formatAmount,
+  formatUKDate,
+  toCSV,
+  type ExportBankLine,
+  type ExportDocument,
+  type ExportJournal,
+} from "./accounting-export";
+
+const SAGE_HEADERS = [
+  'Type',
+  'Account Reference',
+  'Nominal A/C Ref',
+  'Department Code',
+  'Date',
+  'Reference',
+  'Details',
+  'Net Amount',
+  'Tax Code',
+  'Tax Amount',
+];
+
+/**
+ * Sage tax codes by VAT code (T9 = transactions not involving VAT)
+ */
+const SAGE_TAX_CODES: Record<VatCode, string> = {
+  standard: 'T1',
+  reduced: 'T5',
+  zero: 'T0',
+  exempt: 'T2',
+  outside_scope: 'T9',
+  reverse_charge: 'T20',
+  ec_acquisition: 'T8',
+};
+
+/** Sage limits Details to 60 characters */
+const SAGE_DETAILS_MAX_LENGTH = 60;
+
+function sageTaxCode(vatCode: VatCode | null): string {
+  return vatCode ? SAGE_TAX_CODES[vatCode] : 'T9';
+}
+
+function sageDetails(text: string | null): string {
+  return (text || '').slice(0, SAGE_DETAILS_MAX_LENGTH);
+}
+
+/**
+ * Sage supplier/customer account references are up to 8 upper-case alphanumerics
+ */
+export function sageAccountReference(contactName: string): string {
+  const reference = contactName.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 8);
+  return reference || 'UNKNOWN';
+}
+
+/**
+ * Bank payments (BP) and receipts (BR) against the bank account's nominal code
+ */
+export function exportSageBankStatement(lines: ExportBankLine[]): string {
+  return toCSV(
+    SAGE_HEADERS,
+    // Split transactions become one row per split, each to its own nominal code
+    lines.flatMap(line => (line.splits.length > 0 ? line.splits : [line]).map(part => {
+      const gross = Math.abs(part.amount);
+      return [
+        line.amount < 0 ? 'BP' : 'BR',
+        line.bankAccountCode,
+        part.accountCode,
+        '0',
+        formatUKDate(line.date),
+        line.reference,
+        sageDetails(line.payee ? `${line.payee} ${part.description}` : part.description),
+        formatAmount(gross - part.vatAmount),
+        sageTaxCode(part.vatCode),
+        formatAmount(part.vatAmount),
+      ];
+    }))
+  );
+}
+
+/**
+ * Journal debits (JD) and credits (JC); each journal's lines balance
+ */
+export function exportSageJournals(journals: ExportJournal[]): string {
+  return toCSV(
+    SAGE_HEADERS,
+    journals.flatMap(journal => journal.lines.map(line => [
+      line.debit > 0 ? 'JD' : 'JC',
+      line.accountCode,
+      line.accountCode,
+      '0',
+      formatUKDate(journal.date),
+      journal.reference,
+      sageDetails(line.description || journal.narration),
+      formatAmount(line.debit > 0 ? line.debit : line.credit),
+      'T9',
+      '0.00',
+    ]))
+  );
+}
+
+function exportSageInvoices(documents: ExportDocument[], type: 'PI' | 'SI'): string {
+  return toCSV(
+    SAGE_HEADERS,
+    documents.flatMap(doc => doc.lines.map(line => [
+      type,
+      sageAccountReference(doc.contactName),
+      line.accountCode,
+      '0',
+      formatUKDate(doc.date),
+      doc.number,
+      sageDetails(line.description),
+      formatAmount(line.netAmount),
+      sageTaxCode(line.vatCode),
+      formatAmount(line.taxAmount),
+    ]))
+  );
+}
+
+/**
+ * Purchase invoices (PI). Supplier accounts must already exist in Sage.
+ */
+export function exportSageBills(documents: ExportDocument[]): string {
+  return exportSageInvoices(documents, 'PI');
+}
+
+/**
+ * Sales invoices (SI). Customer accounts must already exist in Sage.
+ */
+export function exportSageSalesInvoices(documents: ExportDocument[]): string {
+  return exportSageInvoices(documents, 'SI');
+}
@@ -2,9 +2,20 @@
  * XERO Export Service
  * 
  * Formats transactions and accounts for XERO import
- * Supports CSV and JSON formats
+ * Supports CSV and JSON formats, plus Xero's bank statement, manual journal
+ * and bill/sales invoice import templates
  */
 
+import type { VatCode } from "@/lib/vat/codes";
+import {
+  formatAmount,
+  formatUKDate,
+  toCSV,
+  type ExportBankLine,
+  type ExportDocument,
+  type ExportJournal,
+} from "./accounting-export";
+
 export interface XeroTransaction {
   Date: string;
   Description: string;
@@ -44,9 +55,9 @@ export async function exportTransactionsToXero(
     const date = typeof tx.date === 'string' ? tx.date : tx.date.toISOString().split('T')[0];
     const account = accountMappings.get(tx.category || '') || { code: '8000', name: 'Uncategorized' };
     
-    // XERO expects positive amounts for both debits and credits
-    // Use Account Code to determine debit/credit
-    const amount = Math.abs(tx.amount);
+    // Signed so direction survives the export: negative for money out
+    const isMoneyOut = tx.is_debit ?? tx.amount < 0;
+    const amount = isMoneyOut ? -Math.abs(tx.amount) : Math.abs(tx.amount);
 
     const xeroTx: XeroTransaction = {
       Date: date,
@@ -191,3 +202,107 @@ export function exportContactsToXero(
   return csvRows.join('\n');
 }
 
+
+/**
+ * Xero UK tax rate names, by VAT code, for purchases and sales
+ */
+const XERO_TAX_TYPES: Record<VatCode, { expense: string; income: string }> = {
+  standard: { expense: '20% (VAT on Expenses)', income: '20% (VAT on Income)' },
+  reduced: { expense: '5% (VAT on Expenses)', income: '5% (VAT on Income)' },
+  zero: { expense: 'Zero Rated Expenses', income: 'Zero Rated Income' },
+  exempt: { expense: 'Exempt Expenses', income: 'Exempt Income' },
+  outside_scope: { expense: 'No VAT', income: 'No VAT' },
+  reverse_charge: { expense: 'Reverse Charge Expenses (20%)', income: 'No VAT' },
+  ec_acquisition: { expense: 'EC Acquisitions (20%)', income: 'No VAT' },
+};
+
+function xeroTaxType(vatCode: VatCode | null, side: 'expense' | 'income'): string {
+  return vatCode ? XERO_TAX_TYPES[vatCode][side] : 'No VAT';
+}
+
+/**
+ * Bank statement import (one file per bank account), signed amounts
+ */
+export function exportXeroBankStatement(lines: ExportBankLine[]): string {
+  return toCSV(
+    ['*Date', '*Amount', 'Payee', 'Description', 'Reference', 'Cheque Number'],
+    lines.map(line => [
+      formatUKDate(line.date),
+      formatAmount(line.amount),
+      line.payee,
+      line.description,
+      line.reference,
+      null,
+    ])
+  );
+}
+
+/**
+ * Manual journal import. Debits are positive and credits negative;
+ * lines sharing a narration and date form one journal.
+ */
+export function exportXeroManualJournals(journals: ExportJournal[]): string {
+  const rows: Array<Array<string | null>> = [];
+  for (const journal of journals) {
+    // Prefix the reference so journals with the same narration on the same day stay separate
+    const narration = `${journal.reference} - ${journal.narration}`;
+    for (const line of journal.lines) {
+      rows.push([
+        narration,
+        formatUKDate(journal.date),
+        line.description,
+        line.accountCode,
+        'No VAT',
+        formatAmount(line.debit - line.credit),
+      ]);
+    }
+  }
+
+  return toCSV(['*Narration', '*Date', 'Description', '*AccountCode', '*TaxRate', '*Amount'], rows);
+}
+
+/**
+ * Bills import (purchases template)
+ */
+export function exportXeroBills(documents: ExportDocument[]): string {
+  return toCSV(
+    ['*ContactName', '*InvoiceNumber', 'Reference', '*InvoiceDate', '*DueDate', 'Description', '*Quantity', '*UnitAmount', '*AccountCode', '*TaxType', 'TaxAmount', 'Currency'],
+    documents.flatMap(doc => doc.lines.map(line => [
+      doc.contactName,
+      doc.number,
+      doc.reference,
+      formatUKDate(doc.date),
+      formatUKDate(doc.dueDate),
+      line.description,
+      line.quantity,
+      formatAmount(line.unitAmount),
+      line.accountCode,
+      xeroTaxType(line.vatCode, 'expense'),
+      formatAmount(line.taxAmount),
+      doc.currency,
+    ]))
+  );
+}
+
+/**
+ * Sales invoices import
+ */
+export function exportXeroSalesInvoices(documents: ExportDocument[]): string {
+  return toCSV(
+    ['*ContactName', '*InvoiceNumber', 'Reference', '*InvoiceDate', '*DueDate', '*Description', '*Quantity', '*UnitAmount', '*AccountCode', '*TaxType', 'TaxAmount', 'Currency'],
+    documents.flatMap(doc => doc.lines.map(line => [
+      doc.contactName,
+      doc.number,
+      doc.reference,
+      formatUKDate(doc.date),
+      formatUKDate(doc.dueDate),
+      line.description,
+      line.quantity,
+      formatAmount(line.unitAmount),
+      line.accountCode,
+      xeroTaxType(line.vatCode, 'income'),
+      formatAmount(line.taxAmount),
+      doc.currency,
+    ]))
+  );
+}
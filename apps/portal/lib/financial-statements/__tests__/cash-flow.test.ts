@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { classifyCashFlows, type CashFlowJournalLine } from '../statement-generator';
+
+const BANK = 'acc-bank';
+
+function line(
+  account_id: string,
+  account_code: string,
+  account_type: CashFlowJournalLine['account_type'],
+  debit: number,
+  credit: number,
+  bank_account_id: string | null = null
+): CashFlowJournalLine {
+  return { account_id, account_code, account_name: `Account ${account_code}`, account_type, debit, credit, bank_account_id };
+}
+
+describe('classifyCashFlows', () => {
+  it('classifies cash by the accounts on the other side of each entry', () => {
+    const sections = classifyCashFlows(
+      [
+        // Sale received into the bank
+        [line(BANK, '1100', 'asset', 500, 0, 'bank-1'), line('acc-sales', '4000', 'income', 0, 500)],
+        // Office costs paid
+        [line('acc-office', '7500', 'expense', 120, 0), line(BANK, '1100', 'asset', 0, 120, 'bank-1')],
+        // Equipment bought
+        [line('acc-equipment', '1520', 'asset', 900, 0), line(BANK, '1100', 'asset', 0, 900, 'bank-1')],
+        // Loan drawn down
+        [line(BANK, '1100', 'asset', 2000, 0, 'bank-1'), line('acc-loan', '2600', 'liability', 0, 2000)],
+        // Owner's capital
+        [line(BANK, '1100', 'asset', 300, 0, 'bank-1'), line('acc-capital', '3000', 'equity', 0, 300)],
+      ],
+      new Set([BANK])
+    );
+
+    expect(sections.operating).toEqual([
+      { description: 'Account 4000', amount: 500 },
+      { description: 'Account 7500', amount: -120 },
+    ]);
+    expect(sections.investing).toEqual([{ description: 'Account 1520', amount: -900 }]);
+    expect(sections.financing).toEqual([
+      { description: 'Account 2600', amount: 2000 },
+      { description: 'Account 3000', amount: 300 },
+    ]);
+  });
+
+  it('ignores entries that do not move cash and transfers between bank accounts', () => {
+    const sections = classifyCashFlows(
+      [
+        // Invoice raised on credit
+        [line('acc-debtors', '1200', 'asset', 600, 0), line('acc-sales', '4000', 'income', 0, 600)],
+        // Transfer between two bank ledgers
+        [line('acc-savings', '1110', 'asset', 1000, 0, 'bank-2'), line(BANK, '1100', 'asset', 0, 1000, 'bank-1')],
+      ],
+      new Set([BANK, 'acc-savings'])
+    );
+
+    expect(sections).toEqual({ operating: [], investing: [], financing: [] });
+  });
+
+  it('treats manual journals to a bank ledger as cash and nets lines per account', () => {
+    const sections = classifyCashFlows(
+      [
+        [line(BANK, '1100', 'asset', 250, 0), line('acc-debtors', '1200', 'asset', 0, 250)],
+        [line(BANK, '1100', 'asset', 100.1, 0, 'bank-1'), line('acc-debtors', '1200', 'asset', 0, 100.1)],
+      ],
+      new Set([BANK])
+    );
+
+    expect(sections.operating).toEqual([{ description: 'Account 1200', amount: 350.1 }]);
+  });
+});
@@ -2,9 +2,17 @@
  * Financial Statement Generator
  * 
  * Generates financial statements (P&L, Balance Sheet, Cash Flow, Trial Balance)
- * from categorized transactions and company profile data
+ * from posted general ledger entries and company profile data. All amounts are in the
+ * company's base currency.
  */
 
+import {
+  getLedgerAccountBalances,
+  type AccountingBasis,
+  type LedgerAccountBalance,
+} from "@/lib/ledger/balances";
+import { DEFAULT_BANK_ACCOUNT_CODE, type LedgerAccountType } from "@/lib/ledger/journal";
+
 export interface ProfitAndLossStatement {
   period_start: Date;
   period_end: Date;
@@ -26,6 +34,7 @@ export interface ProfitAndLossStatement {
   };
   net_income: number;
   currency: string;
+  basis: AccountingBasis;
 }
 
 export interface BalanceSheet {
@@ -126,89 +135,67 @@ export interface TrialBalance {
   is_balanced: boolean;
 }
 
+type StatementLineItem = { account_code: string; account_name: string; amount: number };
+
+/** Fixed asset account codes in the default UK chart (fixed, depreciation, intangibles) */
+const FIXED_ASSET_CODE_RANGE = { from: 1500, to: 1999 };
+
+/** Long-term liability account codes in the default UK chart */
+const LONG_TERM_LIABILITY_CODE_RANGE = { from: 2500, to: 2999 };
+
+function isInCodeRange(accountCode: string, range: { from: number; to: number }): boolean {
+  const code = parseInt(accountCode, 10);
+  return !isNaN(code) && code >= range.from && code <= range.to;
+}
+
+function toLineItem(balance: LedgerAccountBalance): StatementLineItem {
+  return {
+    account_code: balance.account_code,
+    account_name: balance.account_name,
+    amount: balance.balance,
+  };
+}
+
+async function getCompanyCurrency(supabase: any, companyProfileId: string): Promise<string> {
+  const { data: companyProfile } = await supabase
+    .from("company_profiles")
+    .select("default_currency")
+    .eq("id", companyProfileId)
+    .single();
+
+  return companyProfile?.default_currency || 'GBP';
+}
+
+async function getCompanyAccountingBasis(supabase: any, companyProfileId: string): Promise<AccountingBasis> {
+  const { data: companyProfile } = await supabase
+    .from("company_profiles")
+    .select("accounting_basis")
+    .eq("id", companyProfileId)
+    .single();
+
+  return companyProfile?.accounting_basis === 'accrual' ? 'accrual' : 'cash';
+}
+
 /**
- * Generate Profit & Loss Statement
+ * Generate Profit & Loss Statement, on the company's accounting basis unless one is given
  */
 export async function generateProfitAndLoss(
   supabase: any,
   startDate: Date,
   endDate: Date,
-  companyProfileId: string
+  companyProfileId: string,
+  basis?: AccountingBasis
 ): Promise<ProfitAndLossStatement> {
-  // Get company profile for currency
-  const { data: companyProfile } = await supabase
-    .from("company_profiles")
-    .select("default_currency")
-    .eq("id", companyProfileId)
-    .single();
-
-  const currency = companyProfile?.default_currency || 'GBP';
-
-  // Get all transactions in the period
-  const { data: transactions } = await supabase
-    .from("categorized_transactions")
-    .select(`
-      amount,
-      is_debit,
-      category,
-      subcategory,
-      date,
-      job_id,
-      categorization_jobs!inner(user_id)
-    `)
-    .gte("date", startDate.toISOString().split("T")[0])
-    .lte("date", endDate.toISOString().split("T")[0])
-    .eq("categorization_jobs.user_id", (await supabase.auth.getUser()).data.user?.id);
-
-  // Get category to account mappings
-  const { data: accountMappings } = await supabase
-    .from("category_account_mapping")
-    .select(`
-      category,
-      subcategory,
-      account_code,
-      chart_of_accounts!inner(account_name, account_type)
-    `)
-    .eq("company_profile_id", companyProfileId);
-
-  // Get chart of accounts
-  const { data: chartOfAccounts } = await supabase
-    .from("chart_of_accounts")
-    .select("*")
-    .eq("company_profile_id", companyProfileId)
-    .eq("is_active", true);
-
-  // Map transactions to accounts
-  const revenueMap = new Map<string, { account_code: string; account_name: string; amount: number }>();
-  const expenseMap = new Map<string, { account_code: string; account_name: string; amount: number }>();
-
-  transactions?.forEach((tx: any) => {
-    // Find account mapping for this category
-    const mapping = accountMappings?.find(
-      (m: any) => m.category === tx.category && 
-      (m.subcategory === tx.subcategory || (!m.subcategory && !tx.subcategory))
-    );
-
-    const accountCode = mapping?.account_code || getDefaultAccountCode(tx.category, chartOfAccounts);
-    const account = chartOfAccounts?.find((a: any) => a.account_code === accountCode);
-
-    if (!account) return;
-
-    const amount = Math.abs(tx.amount || 0);
-
-    if (account.account_type === 'income') {
-      const existing = revenueMap.get(accountCode) || { account_code: accountCode, account_name: account.account_name, amount: 0 };
-      existing.amount += amount;
-      revenueMap.set(accountCode, existing);
-    } else if (account.account_type === 'expense') {
-      const existing = expenseMap.get(accountCode) || { account_code: accountCode, account_name: account.account_name, amount: 0 };
-      existing.amount += amount;
-      expenseMap.set(accountCode, existing);
-    }
-  });
+  const currency = await getCompanyCurrency(supabase, companyProfileId);
+  const reportBasis = basis || await getCompanyAccountingBasis(supabase, companyProfileId);
+  const balances = await getLedgerAccountBalances(supabase, companyProfileId, startDate, endDate, reportBasis);
 
-  const revenueItems = Array.from(revenueMap.values());
-  const expenseItems = Array.from(expenseMap.values());
+  const revenueItems = balances
+    .filter((b) => b.account_type === 'income' && b.balance !== 0)
+    .map(toLineItem);
+  const expenseItems = balances
+    .filter((b) => b.account_type === 'expense' && b.balance !== 0)
+    .map(toLineItem);
 
   const totalRevenue = revenueItems.reduce((sum, item) => sum + item.amount, 0);
   const totalExpenses = expenseItems.reduce((sum, item) => sum + item.amount, 0);
@@ -227,6 +214,7 @@ export async function generateProfitAndLoss(
     },
     net_income: netIncome,
     currency,
+    basis: reportBasis,
   };
 }
 
@@ -238,149 +226,67 @@ export async function generateBalanceSheet(
   asOfDate: Date,
   companyProfileId: string
 ): Promise<BalanceSheet> {
-  // Get company profile for currency
-  const { data: companyProfile } = await supabase
-    .from("company_profiles")
-    .select("default_currency")
-    .eq("id", companyProfileId)
-    .single();
-
-  const currency = companyProfile?.default_currency || 'GBP';
-
-  // Get all transactions up to the date
-  const { data: transactions } = await supabase
-    .from("categorized_transactions")
-    .select(`
-      amount,
-      is_debit,
-      category,
-      date,
-      job_id,
-      categorization_jobs!inner(user_id)
-    `)
-    .lte("date", asOfDate.toISOString().split("T")[0])
-    .eq("categorization_jobs.user_id", (await supabase.auth.getUser()).data.user?.id);
-
-  // Get bank account balances
-  const { data: bankAccounts } = await supabase
-    .from("bank_accounts")
-    .select(`
-      id,
-      account_name,
-      account_type,
-      company_profile_id
-    `)
-    .eq("company_profile_id", companyProfileId)
-    .eq("is_active", true);
-
-  // Get latest statement closing balances
-  const bankBalances = new Map<string, number>();
-  if (bankAccounts) {
-    for (const account of bankAccounts) {
-      const { data: latestStatement } = await supabase
-        .from("bank_statement_metadata")
-        .select("closing_balance, period_end")
-        .eq("bank_account_id", account.id)
-        .lte("period_end", asOfDate.toISOString().split("T")[0])
-        .order("period_end", { ascending: false })
-        .limit(1)
-        .single();
-
-      if (latestStatement) {
-        bankBalances.set(account.id, latestStatement.closing_balance || 0);
-      }
-    }
-  }
+  const currency = await getCompanyCurrency(supabase, companyProfileId);
+  const balances = await getLedgerAccountBalances(supabase, companyProfileId, null, asOfDate);
 
-  // Get chart of accounts
-  const { data: chartOfAccounts } = await supabase
-    .from("chart_of_accounts")
-    .select("*")
-    .eq("company_profile_id", companyProfileId)
-    .eq("is_active", true);
-
-  // Calculate account balances
-  const accountBalances = new Map<string, { code: string; name: string; type: string; amount: number }>();
-
-  // Initialize with chart of accounts
-  chartOfAccounts?.forEach((account: any) => {
-    accountBalances.set(account.account_code, {
-      code: account.account_code,
-      name: account.account_name,
-      type: account.account_type,
-      amount: 0,
-    });
-  });
-
-  // Add bank account balances
-  bankBalances.forEach((balance, accountId) => {
-    const account = bankAccounts?.find((a: any) => a.id === accountId);
-    if (account) {
-      const existing = accountBalances.get("1100") || { code: "1100", name: "Bank Account", type: "asset", amount: 0 };
-      existing.amount += balance;
-      accountBalances.set("1100", existing);
-    }
-  });
-
-  // Process transactions
-  transactions?.forEach((tx: any) => {
-    // Map transaction to account (simplified - would use category mappings in production)
-    const accountCode = getDefaultAccountCode(tx.category, chartOfAccounts);
-    const account = accountBalances.get(accountCode);
-    
-    if (account) {
-      if (account.type === 'asset' || account.type === 'expense') {
-        account.amount += tx.is_debit ? tx.amount : -tx.amount;
-      } else {
-        account.amount += tx.is_debit ? -tx.amount : tx.amount;
-      }
-      accountBalances.set(accountCode, account);
-    }
-  });
-
-  // Build balance sheet structure
   const assets = {
-    current: { total: 0, items: [] as Array<{ account_code: string; account_name: string; amount: number }> },
-    fixed: { total: 0, items: [] as Array<{ account_code: string; account_name: string; amount: number }> },
+    current: { total: 0, items: [] as StatementLineItem[] },
+    fixed: { total: 0, items: [] as StatementLineItem[] },
     total: 0,
   };
 
   const liabilities = {
-    current: { total: 0, items: [] as Array<{ account_code: string; account_name: string; amount: number }> },
-    long_term: { total: 0, items: [] as Array<{ account_code: string; account_name: string; amount: number }> },
+    current: { total: 0, items: [] as StatementLineItem[] },
+    long_term: { total: 0, items: [] as StatementLineItem[] },
     total: 0,
   };
 
   const equity = {
     total: 0,
-    items: [] as Array<{ account_code: string; account_name: string; amount: number }>,
+    items: [] as StatementLineItem[],
   };
 
-  accountBalances.forEach((account) => {
-    const item = { account_code: account.code, account_name: account.name, amount: account.amount };
+  let retainedProfit = 0;
 
-    if (account.type === 'asset') {
-      if (account.code.startsWith('1')) {
-        assets.current.items.push(item);
-        assets.current.total += account.amount;
-      } else {
+  balances.forEach((balance) => {
+    const item = toLineItem(balance);
+
+    if (balance.account_type === 'asset') {
+      if (isInCodeRange(balance.account_code, FIXED_ASSET_CODE_RANGE)) {
         assets.fixed.items.push(item);
-        assets.fixed.total += account.amount;
-      }
-    } else if (account.type === 'liability') {
-      if (account.code.startsWith('2')) {
-        liabilities.current.items.push(item);
-        liabilities.current.total += account.amount;
+        assets.fixed.total += item.amount;
       } else {
+        assets.current.items.push(item);
+        assets.current.total += item.amount;
+      }
+    } else if (balance.account_type === 'liability') {
+      if (isInCodeRange(balance.account_code, LONG_TERM_LIABILITY_CODE_RANGE)) {
         liabilities.long_term.items.push(item);
-        liabilities.long_term.total += account.amount;
+        liabilities.long_term.total += item.amount;
+      } else {
+        liabilities.current.items.push(item);
+        liabilities.current.total += item.amount;
       }
-    } else if (account.type === 'equity') {
+    } else if (balance.account_type === 'equity') {
       equity.items.push(item);
-      equity.total += account.amount;
+      equity.total += item.amount;
+    } else if (balance.account_type === 'income') {
+      retainedProfit += item.amount;
+    } else if (balance.account_type === 'expense') {
+      retainedProfit -= item.amount;
     }
   });
 
+  // Income and expense accounts are not closed to equity yet, so report their net as earnings
+  if (retainedProfit !== 0) {
+    equity.items.push({
+      account_code: "3300",
+      account_name: "Current Year Earnings",
+      amount: Math.round(retainedProfit * 100) / 100,
+    });
+    equity.total += retainedProfit;
+  }
+
   assets.total = assets.current.total + assets.fixed.total;
   liabilities.total = liabilities.current.total + liabilities.long_term.total;
   const totalLiabilitiesAndEquity = liabilities.total + equity.total;
@@ -395,8 +301,162 @@ export async function generateBalanceSheet(
   };
 }
 
+type StatementCashItem = { description: string; amount: number };
+
+/** A posted journal entry's lines, as read for the cash flow statement */
+export interface CashFlowJournalLine {
+  account_id: string;
+  account_code: string;
+  account_name: string;
+  account_type: LedgerAccountType;
+  debit: number;
+  credit: number;
+  bank_account_id: string | null;
+}
+
+export interface CashFlowSections {
+  operating: StatementCashItem[];
+  investing: StatementCashItem[];
+  financing: StatementCashItem[];
+}
+
+const JOURNAL_PAGE_SIZE = 1000;
+
+/**
+ * Classify cash movements by the accounts on the other side of each cash entry (direct
+ * method). Lines on a bank account are cash; in a balanced entry the remaining lines net to
+ * the cash moved, so each contributes its credit minus debit. Fixed assets are investing,
+ * equity and long-term liabilities are financing, and everything else is operating.
+ * Transfers between bank accounts have no other lines and drop out.
+ */
+export function classifyCashFlows(
+  entries: CashFlowJournalLine[][],
+  cashAccountIds: Set<string>
+): CashFlowSections {
+  const totals = new Map<string, { section: keyof CashFlowSections; description: string; amount: number }>();
+
+  for (const lines of entries) {
+    const isCash = (line: CashFlowJournalLine) => !!line.bank_account_id || cashAccountIds.has(line.account_id);
+    if (!lines.some(isCash)) continue;
+
+    for (const line of lines) {
+      if (isCash(line)) continue;
+
+      let section: keyof CashFlowSections = 'operating';
+      if (line.account_type === 'asset' && isInCodeRange(line.account_code, FIXED_ASSET_CODE_RANGE)) {
+        section = 'investing';
+      } else if (
+        line.account_type === 'equity' ||
+        (line.account_type === 'liability' && isInCodeRange(line.account_code, LONG_TERM_LIABILITY_CODE_RANGE))
+      ) {
+        section = 'financing';
+      }
+
+      const existing = totals.get(line.account_id);
+      const amount = line.credit - line.debit;
+      if (existing) {
+        existing.amount += amount;
+      } else {
+        totals.set(line.account_id, { section, description: line.account_name || line.account_code, amount });
+      }
+    }
+  }
+
+  const sections: CashFlowSections = { operating: [], investing: [], financing: [] };
+  totals.forEach(({ section, description, amount }) => {
+    const rounded = Math.round(amount * 100) / 100;
+    if (rounded !== 0) sections[section].push({ description, amount: rounded });
+  });
+  return sections;
+}
+
+/**
+ * Posted journal entries in a period, each as its lines
+ */
+async function loadPostedJournalLines(
+  supabase: any,
+  companyProfileId: string,
+  startDate: Date,
+  endDate: Date
+): Promise<CashFlowJournalLine[][]> {
+  const entries: CashFlowJournalLine[][] = [];
+
+  for (let offset = 0; ; offset += JOURNAL_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("journal_entries")
+      .select(`
+        id,
+        journal_lines (
+          account_id,
+          debit,
+          credit,
+          bank_account_id,
+          chart_of_accounts (account_code, account_name, account_type)
+        )
+      `)
+      .eq("company_profile_id", companyProfileId)
+      .eq("status", "posted")
+      .gte("entry_date", startDate.toISOString().split("T")[0])
+      .lte("entry_date", endDate.toISOString().split("T")[0])
+      .order("id", { ascending: true })
+      .range(offset, offset + JOURNAL_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(error.message || "Failed to load journal entries");
+    }
+
+    for (const entry of data || []) {
+      entries.push(
+        (entry.journal_lines || []).map((line: any) => ({
+          account_id: line.account_id,
+          account_code: line.chart_of_accounts?.account_code || '',
+          account_name: line.chart_of_accounts?.account_name || '',
+          account_type: line.chart_of_accounts?.account_type,
+          debit: Number(line.debit) || 0,
+          credit: Number(line.credit) || 0,
+          bank_account_id: line.bank_account_id || null,
+        }))
+      );
+    }
+
+    if (!data || data.length < JOURNAL_PAGE_SIZE) break;
+  }
+
+  return entries;
+}
+
+/**
+ * Ledger accounts holding cash: each bank account's ledger and the default bank account
+ */
+async function getCashAccountIds(supabase: any, companyProfileId: string): Promise<Set<string>> {
+  const [{ data: bankAccounts }, { data: defaultBankLedger }] = await Promise.all([
+    supabase
+      .from("bank_accounts")
+      .select("ledger_account_id")
+      .eq("company_profile_id", companyProfileId),
+    supabase
+      .from("chart_of_accounts")
+      .select("id")
+      .eq("company_profile_id", companyProfileId)
+      .eq("account_code", DEFAULT_BANK_ACCOUNT_CODE)
+      .maybeSingle(),
+  ]);
+
+  const ids = new Set<string>();
+  (bankAccounts || []).forEach((b: any) => b.ledger_account_id && ids.add(b.ledger_account_id));
+  if (defaultBankLedger?.id) ids.add(defaultBankLedger.id);
+  return ids;
+}
+
+function sumBalances(balances: LedgerAccountBalance[], accountIds: Set<string>): number {
+  const total = balances
+    .filter((b) => accountIds.has(b.account_id))
+    .reduce((sum, b) => sum + b.balance, 0);
+  return Math.round(total * 100) / 100;
+}
+
 /**
- * Generate Cash Flow Statement
+ * Generate Cash Flow Statement from posted journal lines that move cash
  */
 export async function generateCashFlowStatement(
   supabase: any,
@@ -407,105 +467,26 @@ export async function generateCashFlowStatement(
   // Get P&L for net income
   const pnl = await generateProfitAndLoss(supabase, startDate, endDate, companyProfileId);
 
-  // Get company profile for currency
-  const { data: companyProfile } = await supabase
-    .from("company_profiles")
-    .select("default_currency")
-    .eq("id", companyProfileId)
-    .single();
+  const currency = await getCompanyCurrency(supabase, companyProfileId);
+  const cashAccountIds = await getCashAccountIds(supabase, companyProfileId);
+  const entries = await loadPostedJournalLines(supabase, companyProfileId, startDate, endDate);
+  const sections = classifyCashFlows(entries, cashAccountIds);
 
-  const currency = companyProfile?.default_currency || 'GBP';
-
-  // Get bank account transactions
-  const { data: transactions } = await supabase
-    .from("categorized_transactions")
-    .select(`
-      amount,
-      is_debit,
-      transaction_type,
-      category,
-      date,
-      job_id,
-      categorization_jobs!inner(user_id)
-    `)
-    .gte("date", startDate.toISOString().split("T")[0])
-    .lte("date", endDate.toISOString().split("T")[0])
-    .eq("categorization_jobs.user_id", (await supabase.auth.getUser()).data.user?.id);
-
-  // Categorize cash flows
-  const operatingActivities: Array<{ description: string; amount: number }> = [];
-  const investingActivities: Array<{ description: string; amount: number }> = [];
-  const financingActivities: Array<{ description: string; amount: number }> = [];
-
-  transactions?.forEach((tx: any) => {
-    const amount = tx.is_debit ? -tx.amount : tx.amount;
-    
-    // Classify based on transaction type and category
-    if (tx.transaction_type === 'transfer' || tx.category?.includes('Investment')) {
-      investingActivities.push({
-        description: tx.category || 'Investment',
-        amount,
-      });
-    } else if (tx.transaction_type === 'deposit' || tx.transaction_type === 'withdrawal') {
-      financingActivities.push({
-        description: tx.category || 'Financing',
-        amount,
-      });
-    } else {
-      operatingActivities.push({
-        description: tx.category || 'Operating',
-        amount,
-      });
-    }
-  });
+  const operatingTotal = sections.operating.reduce((sum, item) => sum + item.amount, 0);
+  const investingTotal = sections.investing.reduce((sum, item) => sum + item.amount, 0);
+  const financingTotal = sections.financing.reduce((sum, item) => sum + item.amount, 0);
 
-  const operatingTotal = operatingActivities.reduce((sum, item) => sum + item.amount, 0);
-  const investingTotal = investingActivities.reduce((sum, item) => sum + item.amount, 0);
-  const financingTotal = financingActivities.reduce((sum, item) => sum + item.amount, 0);
-
-  // Get beginning and ending cash balances
-  const { data: bankAccounts } = await supabase
-    .from("bank_accounts")
-    .select("id")
-    .eq("company_profile_id", companyProfileId)
-    .eq("is_active", true);
-
-  let beginningCash = 0;
-  let endingCash = 0;
-
-  if (bankAccounts) {
-    for (const account of bankAccounts) {
-      // Beginning balance
-      const { data: startStatement } = await supabase
-        .from("bank_statement_metadata")
-        .select("opening_balance, period_start")
-        .eq("bank_account_id", account.id)
-        .lte("period_start", startDate.toISOString().split("T")[0])
-        .order("period_start", { ascending: false })
-        .limit(1)
-        .single();
-
-      if (startStatement) {
-        beginningCash += startStatement.opening_balance || 0;
-      }
+  // Cash balances are the bank ledger accounts before the period opens and at its end
+  const dayBeforeStart = new Date(startDate);
+  dayBeforeStart.setUTCDate(dayBeforeStart.getUTCDate() - 1);
+  const [openingBalances, closingBalances] = await Promise.all([
+    getLedgerAccountBalances(supabase, companyProfileId, null, dayBeforeStart),
+    getLedgerAccountBalances(supabase, companyProfileId, null, endDate),
+  ]);
+  const beginningCash = sumBalances(openingBalances, cashAccountIds);
+  const endingCash = sumBalances(closingBalances, cashAccountIds);
 
-      // Ending balance
-      const { data: endStatement } = await supabase
-        .from("bank_statement_metadata")
-        .select("closing_balance, period_end")
-        .eq("bank_account_id", account.id)
-        .lte("period_end", endDate.toISOString().split("T")[0])
-        .order("period_end", { ascending: false })
-        .limit(1)
-        .single();
-
-      if (endStatement) {
-        endingCash += endStatement.closing_balance || 0;
-      }
-    }
-  }
-
-  const netChangeInCash = operatingTotal + investingTotal + financingTotal;
+  const netChangeInCash = Math.round((operatingTotal + investingTotal + financingTotal) * 100) / 100;
 
   return {
     period_start: startDate,
@@ -518,11 +499,11 @@ export async function generateCashFlowStatement(
     },
     investing_activities: {
       total: investingTotal,
-      items: investingActivities,
+      items: sections.investing,
     },
     financing_activities: {
       total: financingTotal,
-      items: financingActivities,
+      items: sections.financing,
     },
     net_change_in_cash: netChangeInCash,
     beginning_cash: beginningCash,
@@ -539,64 +520,19 @@ export async function generateTrialBalance(
   asOfDate: Date,
   companyProfileId: string
 ): Promise<TrialBalance> {
-  // Get chart of accounts
-  const { data: chartOfAccounts } = await supabase
-    .from("chart_of_accounts")
-    .select("*")
-    .eq("company_profile_id", companyProfileId)
-    .eq("is_active", true);
-
-  // Get all transactions up to date
-  const { data: transactions } = await supabase
-    .from("categorized_transactions")
-    .select(`
-      amount,
-      is_debit,
-      category,
-      date,
-      job_id,
-      categorization_jobs!inner(user_id)
-    `)
-    .lte("date", asOfDate.toISOString().split("T")[0])
-    .eq("categorization_jobs.user_id", (await supabase.auth.getUser()).data.user?.id);
-
-  // Calculate account balances
-  const accountBalances = new Map<string, { code: string; name: string; type: string; debit: number; credit: number }>();
-
-  // Initialize accounts
-  chartOfAccounts?.forEach((account: any) => {
-    accountBalances.set(account.account_code, {
-      code: account.account_code,
-      name: account.account_name,
-      type: account.account_type,
-      debit: 0,
-      credit: 0,
-    });
-  });
-
-  // Process transactions
-  transactions?.forEach((tx: any) => {
-    const accountCode = getDefaultAccountCode(tx.category, chartOfAccounts);
-    const account = accountBalances.get(accountCode);
-    
-    if (account) {
-      if (tx.is_debit) {
-        account.debit += tx.amount;
-      } else {
-        account.credit += tx.amount;
-      }
-      accountBalances.set(accountCode, account);
-    }
+  const balances = await getLedgerAccountBalances(supabase, companyProfileId, null, asOfDate);
+
+  const accounts = balances.map((balance) => {
+    const net = Math.round((balance.total_debit - balance.total_credit) * 100) / 100;
+    return {
+      account_code: balance.account_code,
+      account_name: balance.account_name,
+      account_type: balance.account_type,
+      debit_balance: net > 0 ? net : 0,
+      credit_balance: net < 0 ? -net : 0,
+    };
   });
 
-  const accounts = Array.from(accountBalances.values()).map(acc => ({
-    account_code: acc.code,
-    account_name: acc.name,
-    account_type: acc.type as 'asset' | 'liability' | 'equity' | 'income' | 'expense',
-    debit_balance: acc.debit,
-    credit_balance: acc.credit,
-  }));
-
   const totalDebits = accounts.reduce((sum, acc) => sum + acc.debit_balance, 0);
   const totalCredits = accounts.reduce((sum, acc) => sum + acc.credit_balance, 0);
   const isBalanced = Math.abs(totalDebits - totalCredits) < 0.01;
@@ -609,39 +545,3 @@ export async function generateTrialBalance(
     is_balanced: isBalanced,
   };
 }
-
-/**
- * Helper: Get default account code for a category
- */
-function getDefaultAccountCode(category: string | null, chartOfAccounts: any[]): string {
-  if (!category) return "8000"; // Uncategorized expense
-
-  const categoryLower = category.toLowerCase();
-  
-  // Map common categories to account codes
-  if (chartOfAccounts) {
-    // Try to find matching account by name
-    const matching = chartOfAccounts.find((acc: any) => 
-      acc.account_name.toLowerCase().includes(categoryLower) ||
-      categoryLower.includes(acc.account_name.toLowerCase())
-    );
-    if (matching) return matching.account_code;
-  }
-
-  // Default mappings
-  if (categoryLower.includes("revenue") || categoryLower.includes("income") || categoryLower.includes("sales")) {
-    return "4100";
-  }
-  if (categoryLower.includes("office") || categoryLower.includes("supplies")) {
-    return "6100";
-  }
-  if (categoryLower.includes("travel")) {
-    return "6200";
-  }
-  if (categoryLower.includes("software") || categoryLower.includes("subscription")) {
-    return "6100";
-  }
-
-  return "8000"; // Default to uncategorized expense
-}
-
@@ -0,0 +1,191 @@
+/**
+ * FX Rate Files
+ *
+ * Reads the published rate files into base currency rates: the ECB reference rates (quoted
+ * against EUR), the HMRC monthly exchange rates (quoted against GBP), or a plain
+ * date,currency,rate file. Other base currencies are crossed through their own quote.
+ */
+
+import { readSheetGrid } from "@/lib/categorization/process-spreadsheet";
+import { parseDateWithFormat } from "@/lib/categorization/import-profiles";
+import type { FxRateInput, FxRateSource } from "./rates";
+
+export interface ParsedFxRateFile {
+  source: FxRateSource;
+  rates: FxRateInput[];
+  /** Rows or cells that could not be read */
+  skipped: number;
+}
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+const RATE_DECIMALS = 10;
+
+function roundRate(rate: number): number {
+  return Number(rate.toFixed(RATE_DECIMALS));
+}
+
+function readNumber(value: any): number | null {
+  if (typeof value === "number") return isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+  const text = value.replace(/,/g, "").trim();
+  if (!text || !/^-?\d*\.?\d+$/.test(text)) return null;
+  return Number(text);
+}
+
+function normalizeHeader(value: any): string {
+  return String(value ?? "").trim().toLowerCase();
+}
+
+/** "Currency Units per £1"; the pound sign does not survive every encoding */
+function isHmrcUnitsHeader(header: string): boolean {
+  return header.startsWith("currency units per") || header.includes("per gbp");
+}
+
+/**
+ * Convert "foreign units per one anchor unit" quotes (ECB quotes against EUR, HMRC against
+ * GBP) into base currency rates. When the base currency is not the anchor, rates are crossed
+ * through the base currency's own quote.
+ */
+function crossRates(
+  anchor: string,
+  baseCurrency: string,
+  date: string,
+  unitsPerAnchor: Map<string, number>
+): FxRateInput[] {
+  let basePerAnchor: number;
+  if (baseCurrency === anchor) {
+    basePerAnchor = 1;
+  } else {
+    const quote = unitsPerAnchor.get(baseCurrency);
+    if (!quote) return [];
+    basePerAnchor = quote;
+  }
+
+  const rates: FxRateInput[] = [];
+  if (baseCurrency !== anchor) {
+    rates.push({ currency: anchor, rate_date: date, rate: roundRate(basePerAnchor) });
+  }
+  for (const [currency, units] of unitsPerAnchor) {
+    if (currency === baseCurrency || units <= 0) continue;
+    rates.push({ currency, rate_date: date, rate: roundRate(basePerAnchor / units) });
+  }
+  return rates;
+}
+
+/**
+ * ECB reference rates (eurofxref.csv / eurofxref-hist.csv): one row per day, a column per
+ * currency holding units per EUR
+ */
+function parseEcbGrid(grid: any[][], baseCurrency: string): ParsedFxRateFile {
+  const header = grid[0].map((cell) => String(cell ?? "").trim().toUpperCase());
+  const rates: FxRateInput[] = [];
+  let skipped = 0;
+
+  for (const row of grid.slice(1)) {
+    const date = parseDateWithFormat(row[0], "auto");
+    if (!date) {
+      skipped++;
+      continue;
+    }
+
+    const quotes = new Map<string, number>();
+    header.forEach((currency, index) => {
+      if (index === 0 || !CURRENCY_PATTERN.test(currency)) return;
+      const units = readNumber(row[index]);
+      if (units !== null && units > 0) quotes.set(currency, units);
+    });
+
+    const converted = crossRates("EUR", baseCurrency, date, quotes);
+    if (converted.length === 0) skipped++;
+    rates.push(...converted);
+  }
+
+  return { source: "ecb", rates, skipped };
+}
+
+/**
+ * HMRC monthly exchange rates: one row per currency with its units per £1 and the first day
+ * of the month it applies to
+ */
+function parseHmrcGrid(grid: any[][], baseCurrency: string): ParsedFxRateFile {
+  const header = grid[0].map(normalizeHeader);
+  const codeIndex = header.indexOf("currency code");
+  const unitsIndex = header.findIndex(isHmrcUnitsHeader);
+  const startIndex = header.findIndex((h) => h.includes("start date") || h === "period start");
+
+  const quotesByDate = new Map<string, Map<string, number>>();
+  let skipped = 0;
+
+  for (const row of grid.slice(1)) {
+    const currency = String(row[codeIndex] ?? "").trim().toUpperCase();
+    const units = readNumber(row[unitsIndex]);
+    const date = parseDateWithFormat(row[startIndex], "DD/MM/YYYY");
+    if (!CURRENCY_PATTERN.test(currency) || units === null || units <= 0 || !date) {
+      skipped++;
+      continue;
+    }
+    if (!quotesByDate.has(date)) quotesByDate.set(date, new Map());
+    quotesByDate.get(date)!.set(currency, units);
+  }
+
+  const rates: FxRateInput[] = [];
+  for (const [date, quotes] of quotesByDate) {
+    rates.push(...crossRates("GBP", baseCurrency, date, quotes));
+  }
+
+  return { source: "hmrc", rates, skipped };
+}
+
+/**
+ * Plain rate file: date, currency, rate (base units per unit of currency)
+ */
+function parseSimpleGrid(grid: any[][], baseCurrency: string): ParsedFxRateFile {
+  const header = grid[0].map(normalizeHeader);
+  const dateIndex = header.indexOf("date");
+  const currencyIndex = header.indexOf("currency");
+  const rateIndex = header.indexOf("rate");
+
+  const rates: FxRateInput[] = [];
+  let skipped = 0;
+
+  for (const row of grid.slice(1)) {
+    const date = parseDateWithFormat(row[dateIndex], "auto");
+    const currency = String(row[currencyIndex] ?? "").trim().toUpperCase();
+    const rate = readNumber(row[rateIndex]);
+    if (!date || !CURRENCY_PATTERN.test(currency) || currency === baseCurrency || rate === null || rate <= 0) {
+      skipped++;
+      continue;
+    }
+    rates.push({ currency, rate_date: date, rate: roundRate(rate) });
+  }
+
+  return { source: "manual", rates, skipped };
+}
+
+/**
+ * Read an ECB, HMRC or plain rate file (CSV or XLSX) into base currency rates.
+ * The format is recognised from the header row.
+ */
+export function parseFxRateFile(buffer: ArrayBuffer | Uint8Array, baseCurrency: string): ParsedFxRateFile {
+  const base = baseCurrency.toUpperCase();
+  const grid = readSheetGrid(buffer).filter((row) => row.some((cell) => String(cell ?? "").trim() !== ""));
+  if (grid.length < 2) {
+    throw new Error("The rate file has no rows");
+  }
+
+  const header = grid[0].map(normalizeHeader);
+
+  if (header.includes("currency code") && header.some(isHmrcUnitsHeader)) {
+    return parseHmrcGrid(grid, base);
+  }
+  if (header.includes("date") && header.includes("currency") && header.includes("rate")) {
+    return parseSimpleGrid(grid, base);
+  }
+  if (header[0] === "date" && header.slice(1).some((h) => CURRENCY_PATTERN.test(h.toUpperCase()))) {
+    return parseEcbGrid(grid, base);
+  }
+
+  throw new Error(
+    "Unrecognised rate file. Use the ECB reference rates CSV, the HMRC monthly rates CSV, or columns date, currency, rate."
+  );
+}
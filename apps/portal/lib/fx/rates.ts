@@ -0,0 +1,148 @@
+/**
+ * FX Rates
+ *
+ * Exchange rates live in the fx_rates table, per company, as base currency units for one unit
+ * of a foreign currency. They are imported from the ECB and HMRC published rate files (see
+ * rate-files.ts), so conversion never depends on a live rate service. Transactions and
+ * documents are converted to the base currency by a database trigger.
+ */
+
+export type FxRateSource = "ecb" | "hmrc" | "manual";
+
+export interface FxRateInput {
+  currency: string;
+  rate_date: string;
+  /** Base currency units for one unit of currency */
+  rate: number;
+}
+
+export interface FxRate extends FxRateInput {
+  id: string;
+  company_profile_id: string;
+  base_currency: string;
+  source: FxRateSource;
+  imported_by: string | null;
+  created_at: string;
+}
+
+export const FX_RATE_SOURCE_LABELS: Record<FxRateSource, string> = {
+  ecb: "European Central Bank",
+  hmrc: "HMRC monthly rates",
+  manual: "Manual",
+};
+
+const IMPORT_BATCH_SIZE = 500;
+
+/**
+ * Save rates for a company, replacing any existing rate for the same currency and date
+ */
+export async function importFxRates(
+  supabase: any,
+  companyProfileId: string,
+  baseCurrency: string,
+  rates: FxRateInput[],
+  source: FxRateSource,
+  importedBy: string | null
+): Promise<number> {
+  const rows = rates.map((rate) => ({
+    company_profile_id: companyProfileId,
+    base_currency: baseCurrency.toUpperCase(),
+    currency: rate.currency,
+    rate_date: rate.rate_date,
+    rate: rate.rate,
+    source,
+    imported_by: importedBy,
+  }));
+
+  for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+    const { error } = await supabase
+      .from("fx_rates")
+      .upsert(rows.slice(i, i + IMPORT_BATCH_SIZE), {
+        onConflict: "company_profile_id,base_currency,currency,rate_date",
+      });
+
+    if (error) {
+      throw new Error(error.message || "Failed to save FX rates");
+    }
+  }
+
+  return rows.length;
+}
+
+/**
+ * The most recent rate per currency for a company's base currency
+ */
+export async function getLatestFxRates(
+  supabase: any,
+  companyProfileId: string,
+  baseCurrency: string
+): Promise<FxRate[]> {
+  const { data, error } = await supabase
+    .from("fx_rates")
+    .select("*")
+    .eq("company_profile_id", companyProfileId)
+    .eq("base_currency", baseCurrency.toUpperCase())
+    .order("rate_date", { ascending: false })
+    .limit(2000);
+
+  if (error) {
+    throw new Error(error.message || "Failed to load FX rates");
+  }
+
+  const latest = new Map<string, FxRate>();
+  for (const rate of data || []) {
+    if (!latest.has(rate.currency)) latest.set(rate.currency, rate);
+  }
+  return Array.from(latest.values()).sort((a, b) => a.currency.localeCompare(b.currency));
+}
+
+/**
+ * Rate in force for a currency on a date: 1 for the base currency, null when no rate is known
+ */
+export async function getFxRate(
+  supabase: any,
+  companyProfileId: string,
+  currency: string,
+  date: string
+): Promise<number | null> {
+  const { data, error } = await supabase.rpc("fx_rate_on", {
+    p_company_profile_id: companyProfileId,
+    p_currency: currency,
+    p_date: date,
+  });
+
+  if (error) {
+    throw new Error(error.message || "Failed to look up FX rate");
+  }
+
+  return data === null || data === undefined ? null : Number(data);
+}
+
+/**
+ * The company's base (reporting) currency
+ */
+export async function getBaseCurrency(supabase: any, companyProfileId: string): Promise<string> {
+  const { data: company } = await supabase
+    .from("company_profiles")
+    .select("default_currency")
+    .eq("id", companyProfileId)
+    .single();
+
+  return (company?.default_currency || "GBP").toUpperCase();
+}
+
+/**
+ * Convert transactions and documents that were waiting for a rate.
+ * Returns the IDs of transactions that now have a base amount.
+ */
+export async function applyFxRates(supabase: any, companyProfileId: string): Promise<string[]> {
+  const { data, error } = await supabase.rpc("apply_fx_rates", {
+    p_company_profile_id: companyProfileId,
+  });
+
+  if (error) {
+    throw new Error(error.message || "Failed to apply FX rates");
+  }
+
+  return data || [];
+}
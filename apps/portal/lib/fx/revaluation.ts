@@ -0,0 +1,307 @@
+/**
+ * FX Gains and Revaluation
+ *
+ * Each bank transaction posts to the ledger at its own day's rate, so the base-currency value of
+ * a foreign bank account drifts from what its balance is worth today. Realised gains and losses
+ * are worked out on average cost: when currency leaves the account, its value at the day's rate
+ * is compared with what it cost when it came in. What remains (the balance at the closing rate
+ * against its average cost) is unrealised. A revaluation entry brings the account's ledger value
+ * to its balance at the closing rate.
+ */
+
+import {
+  DEFAULT_BANK_ACCOUNT_CODE,
+  postJournalEntry,
+  type JournalLineInput,
+} from "@/lib/ledger/journal";
+import { getBaseCurrency, getFxRate } from "./rates";
+
+/** Ledger account for exchange differences; added to the chart when missing */
+export const FX_GAIN_LOSS_ACCOUNT = {
+  account_code: "7200",
+  account_name: "Foreign Exchange Gains/Losses",
+  account_type: "expense",
+} as const;
+
+export interface FxMovement {
+  date: string;
+  /** Signed amount in the account currency (money in positive) */
+  amount: number;
+  /** Signed amount in the base currency */
+  base_amount: number;
+}
+
+export interface FxGainCalculation {
+  foreign_balance: number;
+  /** Average base-currency cost of the remaining balance */
+  base_cost: number;
+  realised_gain: number;
+  unrealised_gain: number;
+}
+
+export interface ForeignBankAccountGain extends FxGainCalculation {
+  bank_account_id: string;
+  account_name: string;
+  currency: string;
+  /** Closing rate, or null when no rate is known for the end date */
+  closing_rate: number | null;
+  /** Balance at the closing rate */
+  base_value: number | null;
+  /** Base-currency value currently posted to the ledger */
+  ledger_value: number;
+  /** Amount a revaluation entry would post to bring the ledger to base_value */
+  revaluation: number | null;
+  /** Transactions still waiting for a rate; gains are incomplete until they are converted */
+  unconverted_count: number;
+}
+
+const MOVEMENT_PAGE_SIZE = 1000;
+
+function roundPence(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Realised gains between two dates and unrealised gains at the end date, on average cost.
+ * Movements must be in date order and end on or before endDate.
+ */
+export function calculateFxGains(
+  movements: FxMovement[],
+  startDate: string,
+  closingRate: number
+): FxGainCalculation {
+  let balance = 0;
+  let cost = 0;
+  let realised = 0;
+
+  for (const movement of movements) {
+    const amount = movement.amount;
+    const baseAmount = movement.base_amount;
+
+    if (amount >= 0 || balance <= 0) {
+      balance += amount;
+      cost += baseAmount;
+      continue;
+    }
+
+    // Money out: the part covered by the balance is realised against its average cost,
+    // anything beyond it (an overdraft) is carried at the day's rate
+    const spent = Math.min(-amount, balance);
+    const costOfSpent = cost * (spent / balance);
+    const valueOfSpent = -baseAmount * (spent / -amount);
+
+    if (movement.date >= startDate) {
+      realised += valueOfSpent - costOfSpent;
+    }
+
+    balance += amount;
+    cost -= costOfSpent + (-baseAmount - valueOfSpent);
+  }
+
+  return {
+    foreign_balance: roundPence(balance),
+    base_cost: roundPence(cost),
+    realised_gain: roundPence(realised),
+    unrealised_gain: roundPence(balance * closingRate - cost),
+  };
+}
+
+async function loadMovements(
+  supabase: any,
+  bankAccountId: string,
+  endDate: string
+): Promise<{ movements: FxMovement[]; unconverted: number }> {
+  const movements: FxMovement[] = [];
+  let unconverted = 0;
+
+  for (let offset = 0; ; offset += MOVEMENT_PAGE_SIZE) {
+    const { data: transactions, error } = await supabase
+      .from("categorized_transactions")
+      .select("id, date, amount, is_debit, base_amount, is_breakdown_entry")
+      .eq("bank_account_id", bankAccountId)
+      .lte("date", endDate)
+      .order("date", { ascending: true })
+      .order("id", { ascending: true })
+      .range(offset, offset + MOVEMENT_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(error.message || "Failed to load bank transactions");
+    }
+
+    for (const tx of transactions || []) {
+      if (tx.is_breakdown_entry) continue;
+      if (tx.base_amount === null || tx.base_amount === undefined) {
+        unconverted++;
+        continue;
+      }
+
+      const isMoneyOut = tx.is_debit ?? Number(tx.amount) < 0;
+      const sign = isMoneyOut ? -1 : 1;
+      movements.push({
+        date: tx.date,
+        amount: sign * Math.abs(Number(tx.amount) || 0),
+        base_amount: sign * Math.abs(Number(tx.base_amount) || 0),
+      });
+    }
+
+    if (!transactions || transactions.length < MOVEMENT_PAGE_SIZE) break;
+  }
+
+  return { movements, unconverted };
+}
+
+/**
+ * Realised and unrealised gains for every bank account of a company held in a foreign currency
+ */
+export async function getForeignBankAccountGains(
+  supabase: any,
+  companyProfileId: string,
+  startDate: string,
+  endDate: string
+): Promise<ForeignBankAccountGain[]> {
+  const baseCurrency = await getBaseCurrency(supabase, companyProfileId);
+
+  const { data: bankAccounts, error } = await supabase
+    .from("bank_accounts")
+    .select("id, account_name, currency")
+    .eq("company_profile_id", companyProfileId)
+    .eq("is_active", true)
+    .order("account_name");
+
+  if (error) {
+    throw new Error(error.message || "Failed to load bank accounts");
+  }
+
+  const foreign = (bankAccounts || []).filter(
+    (account: any) => (account.currency || baseCurrency).toUpperCase() !== baseCurrency
+  );
+
+  const gains: ForeignBankAccountGain[] = [];
+  for (const account of foreign) {
+    const currency = account.currency.toUpperCase();
+    const [closingRate, { movements, unconverted }, ledgerValueResult] = await Promise.all([
+      getFxRate(supabase, companyProfileId, currency, endDate),
+      loadMovements(supabase, account.id, endDate),
+      supabase.rpc("bank_account_ledger_value", { p_bank_account_id: account.id, p_as_of: endDate }),
+    ]);
+
+    if (ledgerValueResult.error) {
+      throw new Error(ledgerValueResult.error.message || "Failed to load ledger value");
+    }
+
+    const ledgerValue = roundPence(Number(ledgerValueResult.data) || 0);
+    const calculation = calculateFxGains(movements, startDate, closingRate ?? 0);
+    const baseValue = closingRate === null ? null : roundPence(calculation.foreign_balance * closingRate);
+
+    gains.push({
+      bank_account_id: account.id,
+      account_name: account.account_name,
+      currency,
+      closing_rate: closingRate,
+      ...calculation,
+      unrealised_gain: closingRate === null ? 0 : calculation.unrealised_gain,
+      base_value: baseValue,
+      ledger_value: ledgerValue,
+      revaluation: baseValue === null ? null : roundPence(baseValue - ledgerValue),
+      unconverted_count: unconverted,
+    });
+  }
+
+  return gains;
+}
+
+async function ensureFxGainLossAccount(supabase: any, companyProfileId: string): Promise<string> {
+  const { data: existing } = await supabase
+    .from("chart_of_accounts")
+    .select("id")
+    .eq("company_profile_id", companyProfileId)
+    .eq("account_code", FX_GAIN_LOSS_ACCOUNT.account_code)
+    .maybeSingle();
+
+  if (existing) return existing.id;
+
+  const { data: created, error } = await supabase
+    .from("chart_of_accounts")
+    .insert({ company_profile_id: companyProfileId, ...FX_GAIN_LOSS_ACCOUNT })
+    .select("id")
+    .single();
+
+  if (error || !created) {
+    throw new Error(error?.message || "Failed to create the foreign exchange account");
+  }
+
+  return created.id;
+}
+
+/**
+ * Post one revaluation entry per foreign bank account whose ledger value differs from its
+ * balance at the closing rate. Gains credit (and losses debit) the exchange account.
+ */
+export async function postFxRevaluation(
+  supabase: any,
+  companyProfileId: string,
+  asOfDate: string,
+  gains: ForeignBankAccountGain[],
+  postedBy: string | null
+): Promise<{ posted: number; entryIds: string[] }> {
+  const toPost = gains.filter((gain) => gain.revaluation !== null && gain.revaluation !== 0);
+  if (toPost.length === 0) return { posted: 0, entryIds: [] };
+
+  const fxAccountId = await ensureFxGainLossAccount(supabase, companyProfileId);
+
+  const { data: bankAccounts } = await supabase
+    .from("bank_accounts")
+    .select("id, ledger_account_id")
+    .in("id", toPost.map((gain) => gain.bank_account_id));
+  const { data: defaultBankLedger } = await supabase
+    .from("chart_of_accounts")
+    .select("id")
+    .eq("company_profile_id", companyProfileId)
+    .eq("account_code", DEFAULT_BANK_ACCOUNT_CODE)
+    .maybeSingle();
+
+  const ledgerByBankAccount = new Map<string, string | null>(
+    (bankAccounts || []).map((account: any) => [account.id, account.ledger_account_id])
+  );
+
+  const entryIds: string[] = [];
+  for (const gain of toPost) {
+    const bankLedgerId = ledgerByBankAccount.get(gain.bank_account_id) || defaultBankLedger?.id;
+    if (!bankLedgerId) {
+      throw new Error(`No ledger account for ${gain.account_name}`);
+    }
+
+    const amount = Math.abs(gain.revaluation!);
+    const isGain = gain.revaluation! > 0;
+    const description = `FX revaluation of ${gain.account_name} (${gain.currency} ${gain.foreign_balance.toFixed(2)} at ${gain.closing_rate})`;
+    const lines: JournalLineInput[] = [
+      {
+        account_id: bankLedgerId,
+        bank_account_id: gain.bank_account_id,
+        debit: isGain ? amount : 0,
+        credit: isGain ? 0 : amount,
+        description,
+      },
+      {
+        account_id: fxAccountId,
+        bank_account_id: null,
+        debit: isGain ? 0 : amount,
+        credit: isGain ? amount : 0,
+        description,
+      },
+    ];
+
+    entryIds.push(
+      await postJournalEntry(supabase, {
+        companyProfileId,
+        entryDate: asOfDate,
+        description,
+        sourceType: "fx_revaluation",
+        lines,
+        postedBy,
+      })
+    );
+  }
+
+  return { posted: entryIds.length, entryIds };
+}
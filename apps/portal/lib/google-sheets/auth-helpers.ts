@@ -81,10 +81,11 @@ export function encryptToken(plaintext: string): string {
 
 /**
  * Retrieve and decrypt OAuth tokens for a user
- * Checks both cloud_storage_connections and user_integrations tables
+ * Checks both cloud_storage_connections and user_integrations tables. Background work without a
+ * request session passes the admin client.
  */
-export async function getUserOAuthTokens(userId: string): Promise<OAuthTokens | null> {
-  const supabase = await createClient();
+export async function getUserOAuthTokens(userId: string, client?: any): Promise<OAuthTokens | null> {
+  const supabase = client || await createClient();
   
   // Try cloud_storage_connections table first
   const { data: connection } = await supabase
@@ -0,0 +1,251 @@
+/**
+ * Job Sheet Sync
+ *
+ * Writes a categorization job's transactions to its linked Google Sheet, either as a full
+ * refresh of the job's tab or incrementally for changed transactions. Used by the
+ * sync-sheets route and by queued sheets_sync jobs, so callers authorise the job first and
+ * pass Google clients for the acting user.
+ */
+
+import { addUploadTab, syncUploadTab, TransactionRow, findExistingJobTab } from "./master-spreadsheet";
+import { syncTransactionsToSheet, getSheetId } from "./incremental-sync";
+import type { TenantGoogleClients } from "./tenant-clients";
+import { generateTransactionFingerprint } from "@/lib/sync/fingerprint";
+import { setJobStage } from "@/lib/jobs/progress";
+
+export type SheetSyncMode = "incremental" | "full_refresh";
+
+export interface JobSheetSyncResult {
+  success: boolean;
+  mode: SheetSyncMode;
+  transactionsSynced: number;
+  message?: string;
+  errors: string[];
+  /** Why the sync could not run, with the HTTP status the route answers with */
+  failure?: { status: number; error: string; errorCode?: string };
+}
+
+function toTransactionRow(tx: any): TransactionRow {
+  return {
+    date: tx.date,
+    description: tx.original_description || tx.description || "",
+    amount: tx.amount,
+    category: tx.category || "",
+    subcategory: tx.subcategory || "",
+    confidence: tx.confidence_score || 0.5,
+    status: tx.user_confirmed ? "Confirmed" : "Pending",
+    fingerprint: generateTransactionFingerprint(
+      tx.original_description || tx.description || "",
+      tx.amount,
+      tx.date
+    ),
+  };
+}
+
+function failed(mode: SheetSyncMode, status: number, error: string, errorCode?: string): JobSheetSyncResult {
+  return { success: false, mode, transactionsSynced: 0, errors: [], failure: { status, error, errorCode } };
+}
+
+async function markSynced(admin: any, filter: { jobId?: string; ids?: string[] }) {
+  let query = admin
+    .from("categorized_transactions")
+    .update({
+      sync_status: "synced",
+      last_synced_at: new Date().toISOString(),
+      sync_error: null,
+    });
+  query = filter.ids ? query.in("id", filter.ids) : query.eq("job_id", filter.jobId);
+  await query;
+}
+
+/**
+ * Sync a job's transactions to its spreadsheet. Incremental syncs send `transactionIds`, or
+ * every pending transaction when none are given.
+ */
+export async function syncJobToSheets(
+  admin: any,
+  job: { id: string; spreadsheet_id?: string | null; bank_account_id?: string | null },
+  options: {
+    mode: SheetSyncMode;
+    transactionIds?: string[];
+    getGoogleClients: () => Promise<TenantGoogleClients>;
+  }
+): Promise<JobSheetSyncResult> {
+  const { mode, transactionIds } = options;
+  const jobId = job.id;
+
+  // Get spreadsheet ID from job or bank account
+  let spreadsheetId: string | null = null;
+  let tabName: string | null = null;
+
+  if (job.spreadsheet_id) {
+    spreadsheetId = job.spreadsheet_id;
+  } else if (job.bank_account_id) {
+    const { data: bankAccount } = await admin
+      .from("bank_accounts")
+      .select("default_spreadsheet_id, spreadsheet_tab_name")
+      .eq("id", job.bank_account_id)
+      .single();
+
+    if (bankAccount?.default_spreadsheet_id) {
+      spreadsheetId = bankAccount.default_spreadsheet_id;
+      tabName = bankAccount.spreadsheet_tab_name || null;
+    }
+  }
+
+  if (!spreadsheetId) {
+    return failed(mode, 400, "No spreadsheet linked to this job", "NO_SPREADSHEET");
+  }
+
+  let query = admin
+    .from("categorized_transactions")
+    .select("*")
+    .eq("job_id", jobId);
+
+  if (mode === "incremental" && transactionIds && transactionIds.length > 0) {
+    // Sync specific transactions
+    query = query.in("id", transactionIds);
+  } else if (mode === "incremental") {
+    // Sync all pending transactions
+    query = query.or("sync_status.is.null,sync_status.eq.pending");
+  }
+
+  const { data: transactions, error: transactionsError } = await query.order("date", { ascending: false });
+
+  if (transactionsError || !transactions || transactions.length === 0) {
+    // For incremental sync with no pending transactions, this is a success (everything is synced)
+    if (mode === "incremental") {
+      return {
+        success: true,
+        mode,
+        transactionsSynced: 0,
+        errors: [],
+        message: "No pending transactions to sync - all transactions are already synced",
+      };
+    }
+    // For full refresh with no transactions, this is an error
+    return failed(mode, 400, "No transactions found");
+  }
+
+  await setJobStage(admin, jobId, "syncing");
+
+  try {
+    // Tier-aware Google clients (consumer vs business standard vs enterprise BYO)
+    const { auth, sheets } = await options.getGoogleClients();
+
+    // Find or determine tab name
+    let sheetId: number | null = null;
+    if (!tabName) {
+      const existingTab = await findExistingJobTab(auth, spreadsheetId, jobId);
+      if (existingTab) {
+        tabName = existingTab.tabName;
+        sheetId = existingTab.sheetId;
+      } else if (job.bank_account_id) {
+        // Use bank account tab name or generate from job
+        const { data: bankAccount } = await admin
+          .from("bank_accounts")
+          .select("spreadsheet_tab_name, account_name")
+          .eq("id", job.bank_account_id)
+          .single();
+        tabName = bankAccount?.spreadsheet_tab_name || bankAccount?.account_name || `Job ${jobId.substring(0, 8)}`;
+      } else {
+        tabName = `Job ${jobId.substring(0, 8)}`;
+      }
+    }
+
+    if (!tabName) {
+      return failed(mode, 500, "Unable to determine spreadsheet tab name");
+    }
+
+    // Get sheet ID if not already found
+    if (!sheetId) {
+      sheetId = await getSheetId(sheets, spreadsheetId, tabName);
+    }
+
+    // If tab doesn't exist:
+    // - Full refresh: tab must exist (error)
+    // - Incremental: create the tab and do an initial full write (otherwise all rows would fail)
+    if (mode === "full_refresh") {
+      if (!sheetId) {
+        return failed(mode, 404, `Tab "${tabName}" not found in spreadsheet`);
+      }
+
+      // Full refresh: clear and rewrite entire tab
+      await syncUploadTab(auth, spreadsheetId, tabName, sheetId, transactions.map(toTransactionRow), jobId);
+      await markSynced(admin, { jobId });
+
+      return { success: true, mode, transactionsSynced: transactions.length, errors: [] };
+    }
+
+    if (!sheetId) {
+      // Re-fetch ALL transactions for initial tab creation so the sheet is complete.
+      const { data: allTransactions, error: allTxError } = await admin
+        .from("categorized_transactions")
+        .select("*")
+        .eq("job_id", jobId)
+        .order("date", { ascending: false });
+
+      if (allTxError || !allTransactions || allTransactions.length === 0) {
+        return failed(mode, 400, "No transactions found to initialize sheet");
+      }
+
+      const created = await addUploadTab(auth, spreadsheetId, tabName, allTransactions.map(toTransactionRow), jobId);
+      await markSynced(admin, { jobId });
+
+      return {
+        success: true,
+        mode,
+        transactionsSynced: allTransactions.length,
+        errors: [],
+        message: `Created tab "${created.tabName}" and synced ${allTransactions.length} transaction(s)`,
+      };
+    }
+
+    // Incremental sync: update only changed transactions
+    const transactionRows = transactions.map(toTransactionRow);
+    const syncResult = await syncTransactionsToSheet(sheets, spreadsheetId, tabName, transactionRows);
+
+    // Create fingerprint to transaction ID mapping
+    const fingerprintToTxId = new Map<string, string>();
+    transactionRows.forEach((row: TransactionRow, index: number) => {
+      if (transactions[index]) {
+        fingerprintToTxId.set(row.fingerprint, transactions[index].id);
+      }
+    });
+
+    // Update sync status for successfully synced transactions
+    const syncedIds = syncResult.syncedFingerprints
+      .map((fp) => fingerprintToTxId.get(fp))
+      .filter((id): id is string => !!id);
+
+    if (syncedIds.length > 0) {
+      await markSynced(admin, { ids: syncedIds });
+    }
+
+    // Update failed transactions
+    const failedIds = syncResult.failedFingerprints
+      .map((fp) => fingerprintToTxId.get(fp))
+      .filter((id): id is string => !!id);
+
+    if (failedIds.length > 0) {
+      await admin
+        .from("categorized_transactions")
+        .update({
+          sync_status: "failed",
+          sync_error: syncResult.errors.join("; "),
+        })
+        .in("id", failedIds);
+    }
+
+    return {
+      success: syncResult.errors.length === 0,
+      mode,
+      transactionsSynced: syncResult.transactionsUpdated + syncResult.transactionsAppended,
+      errors: syncResult.errors,
+    };
+  } finally {
+    await setJobStage(admin, jobId, "done").catch((stageError) => {
+      console.error("Failed to reset job stage after sync:", stageError);
+    });
+  }
+}
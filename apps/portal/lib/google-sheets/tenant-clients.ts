@@ -2,7 +2,12 @@ import { createClient } from "@/lib/database/server";
 import { createAdminClient } from "@/lib/database/admin-client";
 import { google } from "googleapis";
 import { getCredentialManager } from "@/lib/credentials/VercelCredentialManager";
-import { getTenantGoogleIntegrationConfig, getTenantGoogleAdminOAuthConnection } from "@/lib/google-sheets/tier-config";
+import {
+  getTenantGoogleAdminOAuthConnection,
+  getTenantGoogleIntegrationConfig,
+  getTenantGoogleIntegrationConfigForCompany,
+  type TenantGoogleIntegrationConfig,
+} from "@/lib/google-sheets/tier-config";
 import { decryptToken, encryptToken, getUserOAuthTokens, refreshOAuthToken } from "@/lib/google-sheets/auth-helpers";
 
 export type TenantGoogleAuthMethod = "oauth_user" | "oauth_tenant_admin" | "dwd_service_account";
@@ -188,20 +193,46 @@ export async function createTenantGoogleClientsForRequestUser(): Promise<TenantG
     throw new Error("No tenant associated with user");
   }
 
+  return createTenantGoogleClients(user.id, cfg, "user");
+}
+
+/**
+ * Create Drive + Sheets clients on behalf of a user outside a request (queued jobs), for the
+ * tenant of the company being worked on. Tokens are read and refreshed through the admin client.
+ */
+export async function createTenantGoogleClientsForUser(
+  userId: string,
+  companyProfileId: string | null
+): Promise<TenantGoogleClients> {
+  const cfg = await getTenantGoogleIntegrationConfigForCompany(userId, companyProfileId);
+  if (!cfg?.tenantId) {
+    throw new Error("No tenant associated with user");
+  }
+
+  return createTenantGoogleClients(userId, cfg, "admin");
+}
+
+async function createTenantGoogleClients(
+  userId: string,
+  cfg: TenantGoogleIntegrationConfig,
+  persistAs: "user" | "admin"
+): Promise<TenantGoogleClients> {
+  const loadUserTokens = () => getUserOAuthTokens(userId, persistAs === "admin" ? createAdminClient() : undefined);
+
   if (cfg.tier === "enterprise_byo") {
     if (!cfg.dwdSubjectEmail) {
       // Fall back to user OAuth if enterprise_byo is configured but dwdSubjectEmail is missing
       console.warn("Enterprise BYO tier detected but dwdSubjectEmail not set, falling back to user OAuth");
-      const tokens = await getUserOAuthTokens(user.id);
+      const tokens = await loadUserTokens();
       if (!tokens) {
         throw new Error("No Google Sheets connection found. Please connect your Google account in Settings > Integrations > Google Sheets.");
       }
 
       const { auth, drive, sheets } = await createOAuthClients({
-        userId: user.id,
+        userId,
         tenantId: cfg.tenantId,
         tokens,
-        persistAs: "user",
+        persistAs,
       });
 
       return {
@@ -237,16 +268,16 @@ export async function createTenantGoogleClientsForRequestUser(): Promise<TenantG
     if (!adminConn) {
       // Fall back to user OAuth if business_standard is configured but admin connection is missing
       console.warn("Business Standard tier detected but no admin OAuth connection found, falling back to user OAuth");
-      const tokens = await getUserOAuthTokens(user.id);
+      const tokens = await loadUserTokens();
       if (!tokens) {
         throw new Error("No Google Sheets connection found. Please connect your Google account in Settings > Integrations > Google Sheets.");
       }
 
       const { auth, drive, sheets } = await createOAuthClients({
-        userId: user.id,
+        userId,
         tenantId: cfg.tenantId,
         tokens,
-        persistAs: "user",
+        persistAs,
       });
 
       return {
@@ -284,16 +315,16 @@ export async function createTenantGoogleClientsForRequestUser(): Promise<TenantG
   }
 
   // consumer: user OAuth
-  const tokens = await getUserOAuthTokens(user.id);
+  const tokens = await loadUserTokens();
   if (!tokens) {
     throw new Error("No Google Sheets connection found. Please connect your Google account.");
   }
 
   const { auth, drive, sheets } = await createOAuthClients({
-    userId: user.id,
+    userId,
     tenantId: cfg.tenantId,
     tokens,
-    persistAs: "user",
+    persistAs,
   });
 
   return {
@@ -51,27 +51,64 @@ export async function getTenantGoogleIntegrationConfig(): Promise<TenantGoogleIn
 
   if (!entityInfo.tenantId) return null;
 
+  return resolveTenantGoogleIntegrationConfig(supabase, user.id, entityInfo.tenantId, entityInfo.type);
+}
+
+/**
+ * The same configuration for background work with no request user, such as a queued sheet
+ * sync: the tenant and entity type come from the company whose books are synced.
+ */
+export async function getTenantGoogleIntegrationConfigForCompany(
+  userId: string,
+  companyProfileId: string | null
+): Promise<TenantGoogleIntegrationConfig | null> {
+  const adminClient = createAdminClient();
+
+  const [{ data: userRow }, { data: profile }] = await Promise.all([
+    adminClient.from("users").select("tenant_id").eq("id", userId).maybeSingle(),
+    companyProfileId
+      ? adminClient
+          .from("company_profiles")
+          .select("tenant_id, company_type")
+          .eq("id", companyProfileId)
+          .maybeSingle()
+      : Promise.resolve({ data: null }),
+  ]);
+
+  const tenantId: string | null = (profile as any)?.tenant_id || (userRow as any)?.tenant_id || null;
+  if (!tenantId) return null;
+
+  const entityType = profile && (profile as any).company_type !== "individual" ? "company" : "individual";
+  return resolveTenantGoogleIntegrationConfig(adminClient, userId, tenantId, entityType);
+}
+
+async function resolveTenantGoogleIntegrationConfig(
+  supabase: any,
+  userId: string,
+  tenantId: string,
+  profileEntityType: "individual" | "company"
+): Promise<TenantGoogleIntegrationConfig> {
   // IMPORTANT: entity type should be tenant-driven for multi-user tenants.
   // company_profiles is per-user; other users in the same tenant may not have a profile row.
-  let entityType: "individual" | "company" = entityInfo.type;
+  let entityType: "individual" | "company" = profileEntityType;
   try {
     const { data: userRow } = await supabase
       .from("users")
       .select("tenant_id, tenants:tenant_id(tenant_type)")
-      .eq("id", user.id)
+      .eq("id", userId)
       .maybeSingle();
 
     const tenantType = (userRow as any)?.tenants?.tenant_type || null;
     if (tenantType === "company") entityType = "company";
     if (tenantType === "individual") entityType = "individual";
   } catch {
-    // Fall back to profile-based entityInfo.type
+    // Fall back to the profile-based entity type
   }
 
   const { data: setting } = await (supabase as any)
     .from("tenant_integration_settings")
     .select("tenant_id, provider, use_custom_credentials, default_sharing_permission, settings")
-    .eq("tenant_id", entityInfo.tenantId)
+    .eq("tenant_id", tenantId)
     .eq("provider", "google_sheets")
     .maybeSingle();
 
@@ -98,7 +135,7 @@ export async function getTenantGoogleIntegrationConfig(): Promise<TenantGoogleIn
   const folders = settings.googleSharedDriveFolders || {};
 
   return {
-    tenantId: entityInfo.tenantId,
+    tenantId,
     entityType,
     tier,
     sharedDriveId: sharedDrive.id ?? null,
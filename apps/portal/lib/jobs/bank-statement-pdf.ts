@@ -0,0 +1,257 @@
+/**
+ * PDF bank statement jobs
+ *
+ * OCRs an uploaded PDF statement, stores its transactions, tries to reconcile them with the
+ * user's unmatched documents and posts them to the ledger. Run by the job queue worker with the
+ * admin client; the upload route only stores the file and queues the job.
+ */
+
+import type { QueueJob } from "@tinadmin/core/job-queue";
+import { createJobError, mapErrorToCode } from "@/lib/errors/job-errors";
+import { processBankStatementOCR } from "@/lib/ocr/bank-statement-ocr";
+import { postJobToLedger } from "@/lib/ledger/journal";
+import { clearPreviousAttempt } from "./spreadsheet";
+
+export async function processBankStatementPdfJob(admin: any, queueJob: QueueJob): Promise<void> {
+  // Upload jobs always have a categorization job (job_queue check)
+  const jobId = queueJob.categorization_job_id as string;
+  const documentId = queueJob.payload.document_id as string | undefined;
+
+  await admin
+    .from("categorization_jobs")
+    .update({
+      status: "processing",
+      status_message: "Reading bank statement...",
+      processing_stage: "ocr",
+      started_at: new Date().toISOString(),
+    })
+    .eq("id", jobId);
+
+  const { data: document } = documentId
+    ? await admin
+        .from("financial_documents")
+        .select("id, user_id, original_filename, supabase_path, bank_account_id")
+        .eq("id", documentId)
+        .maybeSingle()
+    : { data: null };
+  if (!document) {
+    throw createJobError("PROCESSING_FAILED", "Bank statement document not found");
+  }
+
+  await clearPreviousAttempt(admin, queueJob);
+
+  await admin
+    .from("financial_documents")
+    .update({ ocr_status: "processing" })
+    .eq("id", document.id);
+
+  const { data: fileData, error: downloadError } = await admin.storage
+    .from("categorization-uploads")
+    .download(document.supabase_path);
+  if (downloadError || !fileData) {
+    const error = downloadError || new Error("Failed to download file");
+    throw createJobError(mapErrorToCode(error), downloadError?.message || "Failed to download file");
+  }
+
+  // Process OCR to extract transactions
+  const bankStatementData = await processBankStatementOCR(fileData, document.original_filename);
+
+  // Update document with extracted data
+  await admin
+    .from("financial_documents")
+    .update({
+      ocr_status: bankStatementData.transactions.length > 0 ? "completed" : "failed",
+      ocr_confidence_score: bankStatementData.confidence_score || 0.5,
+      extracted_text: bankStatementData.extracted_text || null,
+      document_date: bankStatementData.statement_period_end || null,
+      period_start: bankStatementData.statement_period_start || null,
+      period_end: bankStatementData.statement_period_end || null,
+      vendor_name: bankStatementData.account_holder || null,
+      document_number: bankStatementData.account_number || null,
+    })
+    .eq("id", document.id);
+
+  if (bankStatementData.transactions.length === 0) {
+    throw createJobError("PARSING_ERROR", "No transactions extracted from bank statement");
+  }
+
+  // Convert extracted transactions to categorized_transactions format
+  const transactions = bankStatementData.transactions.map((tx) => ({
+    job_id: jobId,
+    original_description: tx.description,
+    amount: tx.type === "debit" ? -Math.abs(tx.amount) : Math.abs(tx.amount), // Negative for debits
+    date: tx.date,
+    category: null,
+    subcategory: null,
+    confidence_score: bankStatementData.confidence_score || 0.5,
+    user_confirmed: false,
+    bank_account_id: document.bank_account_id,
+    source_type: "bank_statement_pdf",
+    source_identifier: document.original_filename,
+  }));
+
+  const { data: insertedTransactions, error: txError } = await admin
+    .from("categorized_transactions")
+    .insert(transactions)
+    .select("id");
+  if (txError) throw txError;
+
+  const insertedTransactionIds: string[] = insertedTransactions?.map((t: any) => t.id) || [];
+
+  await admin
+    .from("categorization_jobs")
+    .update({
+      total_items: transactions.length,
+      processed_items: insertedTransactionIds.length,
+      status: "reviewing",
+      processing_stage: "done",
+      status_message: `Extracted ${transactions.length} transaction(s) from bank statement. Ready for review.`,
+      completed_at: new Date().toISOString(),
+    })
+    .eq("id", jobId);
+
+  // Attempt automatic reconciliation
+  if (insertedTransactionIds.length > 0) {
+    await attemptReconciliationForTransactions(
+      insertedTransactionIds,
+      document.id,
+      document.user_id,
+      admin
+    );
+  }
+
+  // Post after reconciliation, so payments matched to posted invoices clear the control account
+  try {
+    const posting = await postJobToLedger(admin, jobId, queueJob.user_id);
+    if (posting && posting.errors.length > 0) {
+      console.warn(`Ledger posting: ${posting.errors.length} transaction(s) could not be posted for job ${jobId}`);
+    }
+  } catch (ledgerError) {
+    console.error("Ledger posting failed:", ledgerError);
+    // Don't fail the job if ledger posting fails; it can be re-run from /api/ledger/post
+  }
+}
+
+/**
+ * Attempt to reconcile extracted transactions with existing invoices/documents
+ */
+async function attemptReconciliationForTransactions(
+  transactionIds: string[],
+  bankStatementDocumentId: string,
+  userId: string,
+  supabase: any
+): Promise<void> {
+  try {
+    let matchedCount = 0;
+
+    // Get all transactions
+    const { data: transactions, error: txError } = await supabase
+      .from("categorized_transactions")
+      .select("*")
+      .in("id", transactionIds);
+
+    if (txError || !transactions) return;
+
+    // Get unreconciled invoices/documents for this user
+    const { data: documents, error: docError } = await supabase
+      .from("financial_documents")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("reconciliation_status", "unreconciled")
+      .is("matched_transaction_id", null)
+      .neq("id", bankStatementDocumentId) // Exclude the bank statement itself
+      .order("document_date", { ascending: false });
+
+    if (docError || !documents) return;
+
+    // Try to match each transaction
+    for (const tx of transactions) {
+      if (tx.matched_document_id) continue;
+
+      const txAmount = Math.abs(tx.amount || 0);
+      const txDate = tx.date;
+
+      for (const doc of documents) {
+        if (doc.matched_transaction_id) continue;
+
+        const docAmount = doc.total_amount || 0;
+        const docDate = doc.document_date;
+
+        const amountDiff = Math.abs(txAmount - docAmount);
+        const dateDiff = txDate && docDate
+          ? Math.abs(
+              (new Date(txDate).getTime() - new Date(docDate).getTime()) /
+                (1000 * 60 * 60 * 24)
+            )
+          : 999;
+
+        // High confidence match: exact amount within 7 days
+        if (amountDiff < 0.01 && dateDiff <= 7) {
+          const descriptionScore = calculateDescriptionMatch(
+            tx.original_description,
+            doc.vendor_name || doc.original_filename
+          );
+
+          const totalScore =
+            (100 - amountDiff) * 0.5 + (100 - dateDiff) * 0.3 + descriptionScore * 0.2;
+
+          if (totalScore >= 80) {
+            // Attempt to match
+            const { error: matchError } = await supabase.rpc(
+              "match_transaction_with_document",
+              {
+                p_transaction_id: tx.id,
+                p_document_id: doc.id,
+              }
+            );
+
+            if (!matchError) {
+              matchedCount++;
+              break; // Transaction matched, move to next
+            }
+          }
+        }
+      }
+    }
+
+    if (matchedCount > 0) {
+      console.log(
+        `[Reconciliation] Auto-matched ${matchedCount} transaction(s) from PDF bank statement`
+      );
+    }
+  } catch (error: any) {
+    console.error("[Reconciliation] Error during auto-reconciliation:", error);
+    // Don't throw - reconciliation failure shouldn't fail processing
+  }
+}
+
+// Helper function to calculate description similarity
+function calculateDescriptionMatch(description: string, vendor: string): number {
+  if (!description || !vendor) return 0;
+
+  const desc = description.toLowerCase();
+  const vend = vendor.toLowerCase();
+
+  // Check if vendor name appears in description
+  if (desc.includes(vend) || vend.includes(desc)) {
+    return 100;
+  }
+
+  // Check for word overlap
+  const descWords = desc.split(/\s+/).filter((w) => w.length > 3);
+  const vendWords = vend.split(/\s+/).filter((w) => w.length > 3);
+
+  let matchCount = 0;
+  for (const dw of descWords) {
+    for (const vw of vendWords) {
+      if (dw.includes(vw) || vw.includes(dw)) {
+        matchCount++;
+      }
+    }
+  }
+
+  const maxWords = Math.max(descWords.length, vendWords.length);
+  if (maxWords === 0) return 0;
+
+  return (matchCount / maxWords) * 100;
+}
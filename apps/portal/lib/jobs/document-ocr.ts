@@ -0,0 +1,217 @@
+/**
+ * Document OCR jobs
+ *
+ * OCRs a single uploaded financial document, fills in its extracted fields, posts it to the
+ * ledger and asks for it to be matched against transactions. Queued by the document upload
+ * route and run by the job queue worker; the process-ocr route runs it directly on request.
+ */
+
+import type { QueueJob } from '@tinadmin/core/job-queue';
+import { createJobError } from '@/lib/errors/job-errors';
+import { postDocumentsToLedger } from '@/lib/ledger/documents';
+
+export interface DocumentOcrResult {
+  documentId: string;
+  alreadyProcessed?: boolean;
+  extracted?: {
+    vendor?: string;
+    date?: string;
+    invoiceNumber?: string;
+    total?: number;
+    subtotal?: number;
+    tax?: number;
+    currency?: string;
+    lineItems: number;
+    confidence?: number;
+    needsReview?: boolean;
+  };
+}
+
+/**
+ * OCR a document and store what was extracted. Marks the document failed and rethrows when
+ * processing fails.
+ */
+export async function processDocumentOcr(admin: any, document: any, userId: string): Promise<DocumentOcrResult> {
+  const documentId = document.id;
+
+  // Check if already processed
+  if (document.ocr_status === 'completed') {
+    return { documentId, alreadyProcessed: true };
+  }
+
+  // Update status to processing
+  await admin
+    .from('financial_documents')
+    .update({ ocr_status: 'processing' })
+    .eq('id', documentId);
+
+  try {
+    // Download file from storage
+    const storagePath = document.supabase_path || document.storage_path;
+    const storageBucket = document.storage_bucket || 'financial-documents';
+
+    if (!storagePath) {
+      throw new Error('Document has no storage path');
+    }
+
+    const { data: fileData, error: downloadError } = await admin.storage
+      .from(storageBucket)
+      .download(storagePath);
+
+    if (downloadError || !fileData) {
+      throw createJobError('DOWNLOAD_FAILED', `Failed to download file: ${downloadError?.message}`);
+    }
+
+    // Process with comprehensive invoice OCR
+    const { processInvoiceOCR, verifyOCRSource } = await import('@/lib/ocr/google-document-ai');
+    const fileName = document.original_filename || storagePath.split('/').pop() || 'invoice.pdf';
+    const invoiceData = await processInvoiceOCR(fileData, fileName);
+
+    // Verify OCR source
+    const ocrVerification = verifyOCRSource();
+
+    // Build update object with all extracted fields
+    const updateData: Record<string, any> = {
+      ocr_status: invoiceData.ocr_failed ? 'failed' : 'completed',
+      ocr_processed_at: new Date().toISOString(),
+      ocr_confidence_score: invoiceData.confidence_score || 0,
+      ocr_provider: ocrVerification.provider,
+      extracted_text: invoiceData.extracted_text || '',
+    };
+
+    // Map extracted fields correctly
+    if (invoiceData.vendor_name) {
+      updateData.vendor_name = invoiceData.vendor_name;
+    }
+
+    if (invoiceData.invoice_date) {
+      updateData.document_date = invoiceData.invoice_date;
+    }
+
+    if (invoiceData.invoice_number) {
+      updateData.invoice_number = invoiceData.invoice_number;
+    }
+
+    if (invoiceData.total !== undefined) {
+      updateData.total_amount = invoiceData.total;
+    }
+
+    if (invoiceData.subtotal !== undefined) {
+      updateData.subtotal_amount = invoiceData.subtotal;
+    }
+
+    if (invoiceData.tax !== undefined) {
+      updateData.tax_amount = invoiceData.tax;
+    }
+
+    if (invoiceData.line_items && invoiceData.line_items.length > 0) {
+      updateData.line_items = invoiceData.line_items;
+    }
+
+    if (invoiceData.currency) {
+      updateData.currency = invoiceData.currency;
+    }
+
+    // Store additional metadata
+    if (invoiceData.field_confidence) {
+      updateData.ocr_field_confidence = invoiceData.field_confidence;
+    }
+
+    if (invoiceData.extraction_methods) {
+      updateData.ocr_extraction_methods = invoiceData.extraction_methods;
+    }
+
+    if (invoiceData.needs_review !== undefined) {
+      updateData.ocr_needs_review = invoiceData.needs_review;
+    }
+
+    if (invoiceData.shipping_amount !== undefined) {
+      updateData.shipping_amount = invoiceData.shipping_amount;
+    }
+
+    // Calculate net amount if not provided
+    if (updateData.total_amount && updateData.tax_amount !== undefined) {
+      updateData.net_amount = updateData.total_amount - updateData.tax_amount;
+    }
+
+    // Handle OCR errors
+    if (invoiceData.ocr_error) {
+      updateData.ocr_error = invoiceData.ocr_error;
+    }
+
+    // Update document with extracted data
+    const { error: updateError } = await admin
+      .from('financial_documents')
+      .update(updateData)
+      .eq('id', documentId);
+
+    if (updateError) {
+      throw new Error(`Failed to update document: ${updateError.message}`);
+    }
+
+    // Invoices go into the ledger as soon as their amounts are known
+    if (document.company_profile_id && !invoiceData.ocr_failed) {
+      try {
+        await postDocumentsToLedger(admin, document.company_profile_id, [documentId], userId);
+      } catch (ledgerError) {
+        console.error('Document ledger post error:', ledgerError);
+      }
+    }
+
+    // Trigger auto-match with transactions
+    if (process.env.NEXT_PUBLIC_APP_URL && !invoiceData.ocr_failed) {
+      fetch(`${process.env.NEXT_PUBLIC_APP_URL}/api/reconciliation/auto-match`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ documentId }),
+      }).catch(err => console.error('Auto-match trigger error:', err));
+    }
+
+    return {
+      documentId,
+      extracted: {
+        vendor: invoiceData.vendor_name,
+        date: invoiceData.invoice_date,
+        invoiceNumber: invoiceData.invoice_number,
+        total: invoiceData.total,
+        subtotal: invoiceData.subtotal,
+        tax: invoiceData.tax,
+        currency: invoiceData.currency,
+        lineItems: invoiceData.line_items?.length || 0,
+        confidence: invoiceData.confidence_score,
+        needsReview: invoiceData.needs_review,
+      },
+    };
+  } catch (error: any) {
+    console.error('OCR processing error:', error);
+
+    // Update status to failed
+    await admin
+      .from('financial_documents')
+      .update({
+        ocr_status: 'failed',
+        ocr_error: error.message || 'Unknown error',
+      })
+      .eq('id', documentId);
+
+    throw error;
+  }
+}
+
+export async function processDocumentOcrJob(admin: any, queueJob: QueueJob): Promise<void> {
+  const { data: document, error } = await admin
+    .from('financial_documents')
+    .select('*')
+    .eq('id', queueJob.financial_document_id)
+    .maybeSingle();
+
+  if (error) throw error;
+  // Deleted since it was uploaded
+  if (!document) return;
+
+  try {
+    await processDocumentOcr(admin, document, queueJob.user_id);
+  } catch (ocrError: any) {
+    throw ocrError?.code ? ocrError : createJobError('OCR_FAILED', ocrError?.message);
+  }
+}
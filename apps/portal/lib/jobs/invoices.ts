@@ -1,204 +1,132 @@
-import { waitUntil } from "@vercel/functions";
-import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/lib/database/server";
-import { createAdminClient } from "@/lib/database/admin-client";
-import { createJobErrorResponse, mapErrorToCode } from "@/lib/errors/job-errors";
+/**
+ * Invoice and receipt OCR jobs
+ *
+ * OCRs a job's uploaded invoices and receipts in small parallel batches, turns each into
+ * transactions, categorizes and reconciles them, and optionally copies the file to the tenant's
+ * Shared Drive. Run by the job queue worker with the admin client. Only documents still pending
+ * or failed are picked up, so a retry carries on where the last attempt stopped.
+ */
+
+import type { QueueJob } from "@tinadmin/core/job-queue";
+import { createJobError, getJobErrorCode, mapErrorToCode } from "@/lib/errors/job-errors";
 import { google } from "googleapis";
 import { getCredentialManager } from "@/lib/credentials/VercelCredentialManager";
 import { getTenantGoogleAdminOAuthConnection } from "@/lib/google-sheets/tier-config";
 import { encryptToken, refreshOAuthToken } from "@/lib/google-sheets/auth-helpers";
 
-export async function POST(request: NextRequest) {
-  try {
-    const supabase = await createClient();
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
+export async function processInvoiceJob(admin: any, queueJob: QueueJob): Promise<void> {
+  // Upload jobs always have a categorization job (job_queue check)
+  const jobId = queueJob.categorization_job_id as string;
+  const userId = queueJob.user_id;
+  const BATCH_SIZE = 10; // Process 10 invoices at a time
 
-    if (authError || !user) {
-      return NextResponse.json(
-        { error: "Unauthorized" },
-        { status: 401 }
-      );
-    }
+  await admin
+    .from("categorization_jobs")
+    .update({
+      status: "processing",
+      status_message: "Processing invoices...",
+      processing_stage: "ocr",
+      started_at: new Date().toISOString(),
+    })
+    .eq("id", jobId);
 
-    const { jobId } = await request.json();
-    if (!jobId) {
-      return NextResponse.json(
-        { error: "Job ID is required" },
-        { status: 400 }
-      );
+  // Get documents for this job from financial_documents table
+  const { data: documents, error: docsError } = await admin
+    .from("financial_documents")
+    .select("*")
+    .eq("job_id", jobId)
+    .in("ocr_status", ["pending", "failed"])
+    .in("file_type", ["receipt", "invoice"]);
+  if (docsError) throw docsError;
+
+  if (!documents || documents.length === 0) {
+    // A retry may find every document already done by the attempt before
+    const { count } = await admin
+      .from("financial_documents")
+      .select("id", { count: "exact", head: true })
+      .eq("job_id", jobId)
+      .in("file_type", ["receipt", "invoice"]);
+    if (!count) {
+      throw createJobError("PROCESSING_FAILED", "No documents found");
     }
+  }
 
-    // Verify job belongs to user
-    const { data: job, error: jobError } = await supabase
-      .from("categorization_jobs")
-      .select("*")
-      .eq("id", jobId)
-      .eq("user_id", user.id)
-      .single();
+  const pending = documents || [];
+  let processedCount = 0;
+  let failedCount = 0;
+  let firstFailure: unknown = null;
 
-    if (jobError || !job) {
-      return NextResponse.json(
-        { error: "Job not found" },
-        { status: 404 }
-      );
-    }
+  // Process in batches
+  for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+    const batch = pending.slice(i, i + BATCH_SIZE);
 
-    // Start background processing
-    waitUntil(
-      processInvoicesBatch(jobId, user.id, supabase).catch((err) => {
-        console.error("Background batch processing failed:", err);
-      })
+    // Process batch in parallel
+    const results = await Promise.allSettled(
+      batch.map((doc: any) => processSingleInvoice(doc, jobId, userId, admin, admin))
     );
 
-    return NextResponse.json({
-      success: true,
-      jobId,
-      message: "Processing started in background",
-    });
-  } catch (error: any) {
-    console.error("Background processing error:", error);
-    return NextResponse.json(
-      { error: error.message || "Internal server error" },
-      { status: 500 }
-    );
-  }
-}
+    // Count successes and failures
+    for (const result of results) {
+      if (result.status === "fulfilled") {
+        processedCount++;
+      } else {
+        failedCount++;
+        firstFailure = firstFailure || result.reason;
+        console.error("Invoice processing failed:", result.reason);
+      }
+    }
 
-async function processInvoicesBatch(
-  jobId: string,
-  userId: string,
-  supabase: any
-) {
-  const adminClient = createAdminClient();
-  const BATCH_SIZE = 10; // Process 10 invoices at a time
-  try {
-    // Update job status
-    await supabase
+    // Update progress
+    const progressMessage = `Processing ${processedCount + failedCount} of ${pending.length} invoices...`;
+    await admin
       .from("categorization_jobs")
-      .update({ 
-        status: "processing",
-        status_message: "Processing invoices...",
-        started_at: new Date().toISOString(),
+      .update({
+        processed_items: processedCount,
+        failed_items: failedCount,
+        status_message: progressMessage,
       })
       .eq("id", jobId);
 
-    // Get documents for this job from financial_documents table
-    const { data: documents, error: docsError } = await supabase
-      .from("financial_documents")
-      .select("*")
-      .eq("job_id", jobId)
-      .in("ocr_status", ["pending", "failed"])
-      .in("file_type", ["receipt", "invoice"]);
-    if (!documents || documents.length === 0) {      const errorResponse = createJobErrorResponse("PROCESSING_FAILED", "No documents found");
-      await supabase
-        .from("categorization_jobs")
-        .update({ 
-          status: "failed",
-          error_code: errorResponse.error_code,
-          error_message: errorResponse.error_message,
-          status_message: errorResponse.status_message,
-        })
-        .eq("id", jobId);
-      return;
+    // Small delay between batches to avoid rate limits
+    if (i + BATCH_SIZE < pending.length) {
+      await new Promise(resolve => setTimeout(resolve, 1000));
     }
+  }
 
-    let processedCount = 0;
-    let failedCount = 0;
-
-    // Process in batches
-    for (let i = 0; i < documents.length; i += BATCH_SIZE) {
-      const batch = documents.slice(i, i + BATCH_SIZE);
-      
-      // Process batch in parallel
-      const results = await Promise.allSettled(
-        batch.map((doc: any) => processSingleInvoice(doc, jobId, userId, supabase, adminClient))
-      );
+  // Nothing went through: fail the attempt so the queue retries the failed documents
+  if (pending.length > 0 && failedCount === pending.length) {
+    throw createJobError(
+      getJobErrorCode(firstFailure),
+      `All invoices failed to process: ${(firstFailure as any)?.message || "Unknown error"}`
+    );
+  }
 
-      // Count successes and failures
-      for (const result of results) {
-        if (result.status === "fulfilled") {
-          processedCount++;
-        } else {
-          failedCount++;
-          console.error("Invoice processing failed:", result.reason);
-        }
-      }
+  // Check if any documents need manual review (OCR failed or no data extracted)
+  const { data: docsNeedingReview } = await admin
+    .from("financial_documents")
+    .select("id")
+    .eq("job_id", jobId)
+    .eq("ocr_status", "needs_manual_review");
 
-      // Update progress
-      const progressMessage = `Processing ${processedCount + failedCount} of ${documents.length} invoices...`;
-      await supabase
-        .from("categorization_jobs")
-        .update({ 
-          processed_items: processedCount,
-          failed_items: failedCount,
-          status_message: progressMessage,
-        })
-        .eq("id", jobId);
-
-      // Small delay between batches to avoid rate limits
-      if (i + BATCH_SIZE < documents.length) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
-    }
+  const needsManualReviewCount = docsNeedingReview?.length || 0;
 
-    // Check if any documents need manual review (OCR failed or no data extracted)
-    const { data: docsNeedingReview } = await supabase
-      .from("financial_documents")
-      .select("id")
-      .eq("job_id", jobId)
-      .eq("ocr_status", "needs_manual_review");
-    
-    const needsManualReviewCount = docsNeedingReview?.length || 0;
+  let finalMessage = `Processing complete. ${processedCount} invoice${processedCount !== 1 ? "s" : ""} ready for review.`;
+  // Add note about manual review needed
+  if (needsManualReviewCount > 0) {
+    finalMessage += ` (${needsManualReviewCount} need${needsManualReviewCount === 1 ? "s" : ""} manual entry)`;
+  }
 
-    // Mark job as complete
-    const finalStatus = failedCount === documents.length ? "failed" : "reviewing";
-    let finalMessage = failedCount === documents.length 
-      ? "Processing failed for all invoices"
-      : `Processing complete. ${processedCount} invoice${processedCount !== 1 ? "s" : ""} ready for review.`;
-    
-    // Add note about manual review needed
-    if (needsManualReviewCount > 0 && finalStatus !== "failed") {
-      finalMessage += ` (${needsManualReviewCount} need${needsManualReviewCount === 1 ? "s" : ""} manual entry)`;
-    }
-    
-    if (finalStatus === "failed") {
-      const errorResponse = createJobErrorResponse("PROCESSING_FAILED", "All invoices failed to process");
-      await supabase
-        .from("categorization_jobs")
-        .update({ 
-          status: finalStatus,
-          error_code: errorResponse.error_code,
-          error_message: errorResponse.error_message,
-          status_message: finalMessage,
-          completed_at: new Date().toISOString(),
-        })
-        .eq("id", jobId);
-    } else {
-      await supabase
-        .from("categorization_jobs")
-        .update({ 
-          status: finalStatus,
-          status_message: finalMessage,
-          completed_at: new Date().toISOString(),
-        })
-        .eq("id", jobId);
-    }
+  await admin
+    .from("categorization_jobs")
+    .update({
+      status: "reviewing",
+      processing_stage: "done",
+      status_message: finalMessage,
+      completed_at: new Date().toISOString(),
+    })
+    .eq("id", jobId);
 
-    console.log(`Job ${jobId} completed: ${processedCount} processed, ${failedCount} failed, ${needsManualReviewCount} need manual review`);
-  } catch (error: any) {
-    console.error(`Error processing batch for job ${jobId}:`, error);
-    const errorCode = mapErrorToCode(error);
-    const errorResponse = createJobErrorResponse(errorCode, error.message);
-    await supabase
-      .from("categorization_jobs")
-      .update({ 
-        status: "failed",
-        error_code: errorResponse.error_code,
-        error_message: errorResponse.error_message,
-        status_message: errorResponse.status_message,
-      })
-      .eq("id", jobId);
-  }
+  console.log(`Job ${jobId} completed: ${processedCount} processed, ${failedCount} failed, ${needsManualReviewCount} need manual review`);
 }
 
 async function processSingleInvoice(
@@ -763,7 +691,6 @@ async function categorizeInvoiceTransactions(
     try {
       const { AICategorizationFactory } = await import("@/lib/ai/AICategorizationFactory");
       const { VercelAICategorizationService } = await import("@/lib/ai/VercelAICategorizationService");
-      const provider = AICategorizationFactory.getDefaultProvider();
       
       // Get company profile ID if available
       const { data: companyProfile } = await adminClient
@@ -789,8 +716,9 @@ async function categorizeInvoiceTransactions(
         subcategory: m.subcategory || undefined,
       }));
       
-      const aiService = AICategorizationFactory.create(
-        provider,
+      const aiService = await AICategorizationFactory.createForUser(
+        adminClient,
+        userId,
         userMappings,
         aiInstructions,
         companyProfileId
@@ -952,17 +880,11 @@ async function reconcileInvoiceAfterProcessing(
     let matchedCount = 0;
 
     // Try to match invoice document with existing bank transactions
-    // Search across ALL account types (remove account filter)
+    // Search across ALL account types in the invoice's company books
     const { data: transactions, error: txError } = await adminClient
       .from("categorized_transactions")
-      .select(`
-        *,
-        job:categorization_jobs!inner(
-          id,
-          user_id
-        )
-      `)
-      .eq("job.user_id", userId)
+      .select("*")
+      .eq("company_profile_id", invoiceDoc.company_profile_id)
       .eq("reconciliation_status", "unreconciled")
       .is("matched_document_id", null)
       .neq("id", invoiceTransactionIds[0] || "") // Exclude transactions we just created
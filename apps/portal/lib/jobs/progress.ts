@@ -0,0 +1,133 @@
+/**
+ * Job progress
+ *
+ * The stage, counts and error of a categorization job as pushed to the browser by
+ * /api/categorization/jobs/[jobId]/events. Shared by the route, the processors that record
+ * stage transitions and the components that follow a job, so it has no server-only imports.
+ */
+
+import { JOB_ERRORS, type JobErrorCode } from "@/lib/errors/job-errors";
+
+export type JobStage = "uploaded" | "parsing" | "ocr" | "categorizing" | "deduplicating" | "syncing" | "done";
+
+/** Stages in the order a job moves through them */
+export const JOB_STAGES: Array<{ value: JobStage; label: string }> = [
+  { value: "uploaded", label: "Uploaded" },
+  { value: "parsing", label: "Reading file" },
+  { value: "ocr", label: "Extracting text" },
+  { value: "categorizing", label: "Categorizing" },
+  { value: "deduplicating", label: "Removing duplicates" },
+  { value: "syncing", label: "Syncing to Sheets" },
+  { value: "done", label: "Done" },
+];
+
+/**
+ * Stages a job goes through, by categorization job type. PDF statements and invoices are
+ * read and categorized in one OCR pass; Sheets sync happens on request after review, so it
+ * isn't part of processing.
+ */
+export function getJobStages(jobType: string | null): JobStage[] {
+  if (!jobType || jobType === "spreadsheet") {
+    return ["uploaded", "parsing", "categorizing", "deduplicating", "done"];
+  }
+  return ["uploaded", "ocr", "done"];
+}
+
+/** Columns of categorization_jobs a progress event is built from */
+export const JOB_PROGRESS_COLUMNS =
+  "id, job_type, status, status_message, processing_stage, total_items, processed_items, failed_items, rows_total, rows_parsed, rows_categorized, rows_inserted, error_code, error_message, updated_at";
+
+export interface JobProgressError {
+  code: string;
+  message: string;
+  userMessage: string;
+  suggestedAction?: string;
+  retryable: boolean;
+}
+
+export interface JobProgressEvent {
+  jobId: string;
+  jobType: string | null;
+  status: string;
+  stage: JobStage;
+  stageLabel: string;
+  statusMessage: string | null;
+  counts: {
+    total: number | null;
+    processed: number;
+    failed: number;
+    rowsTotal: number | null;
+    rowsParsed: number;
+    rowsCategorized: number;
+    rowsInserted: number;
+  };
+  error: JobProgressError | null;
+  updatedAt: string | null;
+}
+
+/**
+ * Whether a job has stopped processing, so its progress stream can close
+ */
+export function isFinishedJobStatus(status: string): boolean {
+  return status === "reviewing" || status === "completed" || status === "failed";
+}
+
+export function getJobStageLabel(stage: JobStage): string {
+  return JOB_STAGES.find((s) => s.value === stage)?.label || stage;
+}
+
+/**
+ * Build a progress event from a categorization_jobs row selected with JOB_PROGRESS_COLUMNS.
+ * A failed job's error carries the JOB_ERRORS message meant for the user.
+ */
+export function toJobProgressEvent(job: any): JobProgressEvent {
+  const stage: JobStage = job.processing_stage || "uploaded";
+  const known = job.error_code ? JOB_ERRORS[job.error_code as JobErrorCode] : undefined;
+
+  let error: JobProgressError | null = null;
+  if (job.status === "failed") {
+    error = {
+      code: job.error_code || "UNKNOWN_ERROR",
+      message: job.error_message || known?.message || "Processing failed",
+      userMessage: known?.userMessage || job.error_message || JOB_ERRORS.UNKNOWN_ERROR.userMessage,
+      suggestedAction: known?.suggestedAction,
+      retryable: known?.retryable ?? true,
+    };
+  }
+
+  return {
+    jobId: job.id,
+    jobType: job.job_type || null,
+    status: job.status,
+    stage,
+    stageLabel: getJobStageLabel(stage),
+    statusMessage: job.status_message || null,
+    counts: {
+      total: job.total_items ?? null,
+      processed: job.processed_items || 0,
+      failed: job.failed_items || 0,
+      rowsTotal: job.rows_total ?? null,
+      rowsParsed: job.rows_parsed || 0,
+      rowsCategorized: job.rows_categorized || 0,
+      rowsInserted: job.rows_inserted || 0,
+    },
+    error,
+    updatedAt: job.updated_at || null,
+  };
+}
+
+/**
+ * Record the stage a job has reached, with any other columns to update alongside it
+ */
+export async function setJobStage(
+  client: any,
+  jobId: string,
+  stage: JobStage,
+  update: Record<string, unknown> = {}
+): Promise<void> {
+  const { error } = await client
+    .from("categorization_jobs")
+    .update({ ...update, processing_stage: stage })
+    .eq("id", jobId);
+  if (error) throw error;
+}
@@ -0,0 +1,39 @@
+/**
+ * Google Sheets sync job
+ *
+ * Queued after transaction edits so the sheet linked to a categorization job catches up
+ * without holding the request open. Syncs every pending transaction in the job, so one queued
+ * sync covers any edits made while it waits.
+ */
+
+import type { QueueJob } from "@tinadmin/core/job-queue";
+import { createJobError } from "@/lib/errors/job-errors";
+import { syncJobToSheets, type SheetSyncMode } from "@/lib/google-sheets/job-sync";
+import { createTenantGoogleClientsForUser } from "@/lib/google-sheets/tenant-clients";
+
+export async function processSheetsSyncJob(admin: any, queueJob: QueueJob): Promise<void> {
+  const { data: job, error } = await admin
+    .from("categorization_jobs")
+    .select("id, spreadsheet_id, bank_account_id, company_profile_id")
+    .eq("id", queueJob.categorization_job_id)
+    .maybeSingle();
+
+  if (error) throw error;
+  // Deleted since the sync was queued
+  if (!job) return;
+
+  const mode = (queueJob.payload?.mode as SheetSyncMode | undefined) || "incremental";
+  const result = await syncJobToSheets(admin, job, {
+    mode,
+    getGoogleClients: () => createTenantGoogleClientsForUser(queueJob.user_id, job.company_profile_id),
+  });
+
+  if (result.failure) {
+    // Nothing to sync to, or the tab is gone; trying again won't change that
+    throw createJobError("PROCESSING_FAILED", result.failure.error);
+  }
+  if (result.errors.length > 0) {
+    // Rows that failed are marked on the transactions for the next sync
+    console.warn(`Sheets sync for job ${job.id}: ${result.errors.join("; ")}`);
+  }
+}
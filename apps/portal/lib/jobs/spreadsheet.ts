@@ -0,0 +1,140 @@
+/**
+ * Spreadsheet statement jobs
+ *
+ * Downloads an uploaded spreadsheet or CSV statement, turns it into transactions, skips any the
+ * books already hold, marks the job ready for review and posts it to the ledger. Run by the job
+ * queue worker with the admin client.
+ * Imports are checkpointed: one that reaches the worker's deadline pauses, and any later run,
+ * including a retry after a failure, carries on from the last chunk it finished.
+ */
+
+import type { QueueJob } from "@tinadmin/core/job-queue";
+import { processSpreadsheetFile } from "@/lib/categorization/process-spreadsheet";
+import { createJobError, mapErrorToCode } from "@/lib/errors/job-errors";
+import { postJobToLedger } from "@/lib/ledger/journal";
+
+/**
+ * Storage path of a job's file from its file_url. Public URLs look like
+ * https://<project>.supabase.co/storage/v1/object/public/categorization-uploads/<userId>/<timestamp>-<filename>
+ */
+function getJobFilePath(job: { file_url: string | null; original_filename: string | null }, userId: string): string {
+  if (!job.file_url) {
+    // Fallback: construct path from filename (less reliable)
+    return `${userId}/${Date.now()}-${job.original_filename || ""}`;
+  }
+
+  const urlParts = job.file_url.split("/object/public/categorization-uploads/");
+  if (urlParts.length === 2) {
+    // Decode URL-encoded characters (spaces as %20, special chars, etc.)
+    return decodeURIComponent(urlParts[1].split("?")[0]);
+  }
+  if (job.file_url.includes("http")) {
+    const pathMatch = job.file_url.match(/categorization-uploads\/(.+)/);
+    const rawPath = pathMatch ? pathMatch[1].split("?")[0] : job.file_url.split("/").slice(-2).join("/");
+    return decodeURIComponent(rawPath);
+  }
+  // Already a path
+  return decodeURIComponent(job.file_url);
+}
+
+/**
+ * Remove transactions an earlier, failed attempt inserted, so a retry starts from a clean job.
+ * Spreadsheet imports resume from their checkpoint instead.
+ */
+export async function clearPreviousAttempt(admin: any, queueJob: QueueJob): Promise<void> {
+  if (queueJob.attempts <= 1 && (queueJob.error_history || []).length === 0) return;
+
+  const { error } = await admin
+    .from("categorized_transactions")
+    .delete()
+    .eq("job_id", queueJob.categorization_job_id);
+  if (error) throw error;
+}
+
+export async function processSpreadsheetJob(
+  admin: any,
+  queueJob: QueueJob,
+  options: { deadline?: number } = {}
+): Promise<{ paused: boolean }> {
+  // Upload jobs always have a categorization job (job_queue check)
+  const jobId = queueJob.categorization_job_id as string;
+  const userId = queueJob.user_id;
+
+  await admin
+    .from("categorization_jobs")
+    .update({
+      status: "processing",
+      status_message: "Processing spreadsheet...",
+    })
+    .eq("id", jobId);
+
+  const { data: job, error: jobError } = await admin
+    .from("categorization_jobs")
+    .select("file_url, original_filename, started_at")
+    .eq("id", jobId)
+    .single();
+  if (jobError || !job) {
+    throw createJobError("PROCESSING_FAILED", "Job not found");
+  }
+  if (!job.started_at) {
+    await admin.from("categorization_jobs").update({ started_at: new Date().toISOString() }).eq("id", jobId);
+  }
+
+  const filePath = getJobFilePath(job, userId);
+  const { data: fileData, error: downloadError } = await admin.storage
+    .from("categorization-uploads")
+    .download(filePath);
+  if (downloadError || !fileData) {
+    const error = downloadError || new Error("Failed to download file");
+    throw createJobError(mapErrorToCode(error), downloadError?.message || "Failed to download file");
+  }
+
+  const result = await processSpreadsheetFile(fileData, jobId, userId, admin, admin, {
+    resume: true,
+    deadline: options.deadline,
+  });
+  if (!result.success) {
+    const message = result.error || "Processing failed";
+    throw createJobError(mapErrorToCode(new Error(message)), message);
+  }
+
+  if (result.paused) {
+    await admin
+      .from("categorization_jobs")
+      .update({
+        status_message: `Processed ${(result.transactionCount || 0) + (result.skippedCount || 0)} transactions so far. Continuing shortly...`,
+      })
+      .eq("id", jobId);
+    return { paused: true };
+  }
+
+  // Repeats within the file plus transactions another upload already stored
+  const duplicatesSkipped = (result.skippedCount || 0) + (result.existingCount || 0);
+  await admin
+    .from("categorization_jobs")
+    .update({
+      status: "reviewing",
+      processing_stage: "done",
+      status_message: duplicatesSkipped > 0
+        ? `Processing complete. ${result.insertedCount || 0} new transactions added, ${duplicatesSkipped} duplicates skipped.`
+        : "Processing complete. Ready for review.",
+      processed_items: result.insertedCount || result.transactionCount || 0,
+      total_items: result.transactionCount || 0,
+      failed_items: result.skippedCount || 0,
+      completed_at: new Date().toISOString(),
+    })
+    .eq("id", jobId);
+
+  // Post the job's transactions to the general ledger
+  try {
+    const posting = await postJobToLedger(admin, jobId, userId);
+    if (posting && posting.errors.length > 0) {
+      console.warn(`Ledger posting: ${posting.errors.length} transaction(s) could not be posted for job ${jobId}`);
+    }
+  } catch (ledgerError) {
+    console.error("Ledger posting failed:", ledgerError);
+    // Don't fail the job if ledger posting fails; it can be re-run from /api/ledger/post
+  }
+
+  return { paused: false };
+}
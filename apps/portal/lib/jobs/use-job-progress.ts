@@ -0,0 +1,49 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { JobProgressEvent } from "./progress";
+
+export interface JobProgressState {
+  progress: JobProgressEvent | null;
+  /** The job has finished and its stream is closed */
+  finished: boolean;
+  connected: boolean;
+}
+
+/**
+ * Follow a job's progress over /api/categorization/jobs/[jobId]/events. The browser's
+ * EventSource reconnects on its own if the stream drops; it is closed once the job finishes.
+ */
+export function useJobProgress(jobId: string | null): JobProgressState {
+  const [state, setState] = useState<JobProgressState>({ progress: null, finished: false, connected: false });
+
+  useEffect(() => {
+    setState({ progress: null, finished: false, connected: false });
+    if (!jobId) return;
+
+    const source = new EventSource(`/api/categorization/jobs/${jobId}/events`);
+
+    source.onopen = () => {
+      setState((prev) => ({ ...prev, connected: true }));
+    };
+    source.onerror = () => {
+      setState((prev) => ({ ...prev, connected: false }));
+    };
+    source.addEventListener("progress", (event) => {
+      try {
+        const progress = JSON.parse((event as MessageEvent).data) as JobProgressEvent;
+        setState((prev) => ({ ...prev, progress }));
+      } catch (error) {
+        console.error("Invalid job progress event:", error);
+      }
+    });
+    source.addEventListener("done", () => {
+      source.close();
+      setState((prev) => ({ ...prev, finished: true, connected: false }));
+    });
+
+    return () => source.close();
+  }, [jobId]);
+
+  return state;
+}
@@ -0,0 +1,160 @@
+/**
+ * Job queue worker
+ *
+ * Claims queued jobs (uploads, sheet syncs, document OCR) one at a time and runs them, keeping
+ * each lease alive with heartbeats. Failures with a transient error code go back on the queue
+ * with backoff; anything else, or a job out of attempts, is dead-lettered and an upload's
+ * categorization job marked failed.
+ * A large import that runs out of time pauses at a checkpoint and goes back on the queue to
+ * resume, without using up an attempt.
+ * Runs from the process-job-queue cron, and straight after queuing so new work doesn't wait
+ * for the next cron run.
+ */
+
+import { randomUUID } from "crypto";
+import { waitUntil } from "@vercel/functions";
+import {
+  QUEUE_HEARTBEAT_SECONDS,
+  isUploadQueueJobType,
+  type QueueJob,
+  type QueueJobType,
+} from "@tinadmin/core/job-queue";
+import {
+  claimQueueJobs,
+  completeQueueJob,
+  failQueueJob,
+  heartbeatQueueJob,
+  releaseQueueJob,
+} from "@tinadmin/core/job-queue/queue";
+import { createJobErrorResponse, getJobErrorCode, isTransientJobError } from "@/lib/errors/job-errors";
+import { processBankStatementPdfJob } from "./bank-statement-pdf";
+import { processDocumentOcrJob } from "./document-ocr";
+import { processInvoiceJob } from "./invoices";
+import { processSheetsSyncJob } from "./sheets-sync";
+import { processSpreadsheetJob } from "./spreadsheet";
+
+/**
+ * Runs a queue job. Processors that checkpoint their work may stop once `deadline` has passed
+ * and report `paused`; the worker then queues the job again to continue.
+ */
+export type QueueJobProcessor = (
+  admin: any,
+  job: QueueJob,
+  options: { deadline: number }
+) => Promise<{ paused?: boolean } | void>;
+
+const PROCESSORS: Record<QueueJobType, QueueJobProcessor> = {
+  spreadsheet: processSpreadsheetJob,
+  bank_statement_pdf: processBankStatementPdfJob,
+  invoice_ocr: processInvoiceJob,
+  sheets_sync: processSheetsSyncJob,
+  document_ocr: processDocumentOcrJob,
+};
+
+export interface JobQueueRunResult {
+  processed: number;
+  completed: number;
+  retrying: number;
+  dead: number;
+  paused: number;
+}
+
+/**
+ * Run queued jobs until the queue is empty, `limit` jobs have run or the time budget is used.
+ * A job is only started inside the budget; one that overruns the function is reclaimed once
+ * its lease expires.
+ */
+export async function runJobQueue(
+  admin: any,
+  options: { limit?: number; timeBudgetMs?: number } = {}
+): Promise<JobQueueRunResult> {
+  const workerId = `worker-${randomUUID()}`;
+  const limit = options.limit ?? 10;
+  const deadline = Date.now() + (options.timeBudgetMs ?? 240_000);
+  const summary: JobQueueRunResult = { processed: 0, completed: 0, retrying: 0, dead: 0, paused: 0 };
+
+  while (summary.processed < limit && Date.now() < deadline) {
+    const [job] = await claimQueueJobs(admin, workerId, { limit: 1 });
+    if (!job) break;
+
+    const outcome = await runQueueJob(admin, job, deadline);
+    summary.processed++;
+    summary[outcome]++;
+  }
+
+  return summary;
+}
+
+/**
+ * Start the worker in the background of the current request, after queuing a job. The background
+ * run shares the request's maxDuration, so callers pass a budget that leaves room for the request
+ * itself and for the job started last.
+ */
+export function runJobQueueInBackground(admin: any, options: { timeBudgetMs: number }): void {
+  waitUntil(
+    runJobQueue(admin, { limit: 1, timeBudgetMs: options.timeBudgetMs }).catch((error) => {
+      // The cron picks the job up instead
+      console.error("Job queue run failed:", error);
+    })
+  );
+}
+
+async function runQueueJob(
+  admin: any,
+  job: QueueJob,
+  deadline: number
+): Promise<"completed" | "retrying" | "dead" | "paused"> {
+  const heartbeat = setInterval(() => {
+    heartbeatQueueJob(admin, job)
+      .then((held) => {
+        if (!held) console.warn(`Queue job ${job.id} lease lost; another worker may run it again`);
+      })
+      .catch((error) => console.error(`Queue job ${job.id} heartbeat failed:`, error));
+  }, QUEUE_HEARTBEAT_SECONDS * 1000);
+
+  try {
+    const result = await PROCESSORS[job.job_type](admin, job, { deadline });
+    if (result?.paused) {
+      await releaseQueueJob(admin, job);
+      return "paused";
+    }
+    await completeQueueJob(admin, job);
+    return "completed";
+  } catch (error: any) {
+    console.error(`Queue job ${job.id} (${job.job_type}) attempt ${job.attempts} failed:`, error);
+
+    const code = getJobErrorCode(error);
+    const message = error?.message || "Processing failed";
+    const result = await failQueueJob(admin, job, { code, message, retryable: isTransientJobError(code) });
+
+    // Syncs and document OCR have no categorization job status to keep in step
+    if (!isUploadQueueJobType(job.job_type)) {
+      return result.status === "queued" ? "retrying" : "dead";
+    }
+
+    if (result.status === "queued") {
+      await admin
+        .from("categorization_jobs")
+        .update({
+          status: "queued",
+          status_message: `Attempt ${job.attempts} of ${job.max_attempts} failed. Retrying shortly...`,
+        })
+        .eq("id", job.categorization_job_id);
+      return "retrying";
+    }
+
+    const errorResponse = createJobErrorResponse(code, message);
+    await admin
+      .from("categorization_jobs")
+      .update({
+        status: "failed",
+        error_code: errorResponse.error_code,
+        error_message: errorResponse.error_message,
+        status_message: errorResponse.status_message,
+      })
+      .eq("id", job.categorization_job_id);
+    return "dead";
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import {
+  UNCATEGORIZED_ACCOUNT_CODE,
+  buildBankTransactionLines,
+  isBalanced,
+  postJournalEntry,
+  resolveCategoryAccountCode,
+  type LedgerAccount,
+} from '../journal';
+
+const chart: LedgerAccount[] = [
+  { id: 'a-4000', account_code: '4000', account_name: 'Sales', account_type: 'income' },
+  { id: 'a-6300', account_code: '6300', account_name: 'Marketing', account_type: 'expense' },
+];
+
+describe('category account mapping', () => {
+  const mappings = [
+    { category: 'Travel', subcategory: null, account_code: '6200' },
+    { category: 'Travel', subcategory: 'Rail', account_code: '6210' },
+  ];
+
+  it('prefers the subcategory mapping, then the category mapping', () => {
+    expect(resolveCategoryAccountCode('Travel', 'Rail', mappings, chart)).toBe('6210');
+    expect(resolveCategoryAccountCode('Travel', 'Taxi', mappings, chart)).toBe('6200');
+  });
+
+  it('falls back to chart names, keywords and the uncategorized account', () => {
+    expect(resolveCategoryAccountCode('Marketing', null, mappings, chart)).toBe('6300');
+    expect(resolveCategoryAccountCode('Software subscriptions', null, [], [])).toBe('6100');
+    expect(resolveCategoryAccountCode('Mystery', null, [], [])).toBe(UNCATEGORIZED_ACCOUNT_CODE);
+    expect(resolveCategoryAccountCode(null, null, mappings, chart)).toBe(UNCATEGORIZED_ACCOUNT_CODE);
+  });
+});
+
+describe('bank transaction lines', () => {
+  it('debits the nominal account and credits the bank for money out', () => {
+    const lines = buildBankTransactionLines(
+      { amount: 42.5, is_debit: true, original_description: 'Train', bank_account_id: 'bank-1' },
+      'ledger-bank',
+      'ledger-travel'
+    );
+
+    expect(lines).toEqual([
+      { account_id: 'ledger-travel', bank_account_id: null, debit: 42.5, credit: 0, description: 'Train' },
+      { account_id: 'ledger-bank', bank_account_id: 'bank-1', debit: 0, credit: 42.5, description: 'Train' },
+    ]);
+    expect(isBalanced(lines)).toBe(true);
+  });
+
+  it('debits the bank for money in and falls back to the sign when is_debit is unknown', () => {
+    const moneyIn = buildBankTransactionLines(
+      { amount: 100, is_debit: false, original_description: 'Invoice 7' },
+      'ledger-bank',
+      'ledger-sales'
+    );
+    const signed = buildBankTransactionLines(
+      { amount: -10, is_debit: null, original_description: 'Fee' },
+      'ledger-bank',
+      'ledger-fees'
+    );
+
+    expect(moneyIn[0]).toMatchObject({ account_id: 'ledger-bank', debit: 100, credit: 0 });
+    expect(moneyIn[1]).toMatchObject({ account_id: 'ledger-sales', debit: 0, credit: 100 });
+    expect(signed[1]).toMatchObject({ account_id: 'ledger-bank', debit: 0, credit: 10 });
+  });
+
+  it('shares a split across nominal lines to the penny', () => {
+    const lines = buildBankTransactionLines(
+      { amount: 100, is_debit: true, original_description: 'Supplies' },
+      'ledger-bank',
+      [
+        { accountId: 'ledger-office', weight: 1, description: 'Paper' },
+        { accountId: 'ledger-travel', weight: 1 },
+        { accountId: 'ledger-other', weight: 1 },
+      ]
+    );
+
+    expect(lines.map((line) => [line.account_id, line.debit, line.credit, line.description])).toEqual([
+      ['ledger-office', 33.33, 0, 'Paper'],
+      ['ledger-travel', 33.33, 0, 'Supplies'],
+      ['ledger-other', 33.34, 0, 'Supplies'],
+      ['ledger-bank', 0, 100, 'Supplies'],
+    ]);
+    expect(isBalanced(lines)).toBe(true);
+  });
+
+  it('posts nothing for a zero amount', () => {
+    expect(buildBankTransactionLines({ amount: 0, is_debit: true, original_description: '' }, 'b', 'n')).toEqual([]);
+    expect(isBalanced([])).toBe(false);
+  });
+});
+
+describe('posting journal entries', () => {
+  it('refuses unbalanced entries before calling the database', async () => {
+    const client = {
+      rpc: () => {
+        throw new Error('should not be called');
+      },
+    };
+
+    await expect(
+      postJournalEntry(client, {
+        companyProfileId: 'c1',
+        entryDate: '2024-01-31',
+        description: 'Broken',
+        sourceType: 'manual',
+        lines: [
+          { account_id: 'a', debit: 10, credit: 0 },
+          { account_id: 'b', debit: 0, credit: 9.99 },
+        ],
+      })
+    ).rejects.toThrow('Journal entry is not balanced');
+  });
+
+  it('passes the entry and its poster to post_journal_entry', async () => {
+    const calls: Array<[string, Record<string, unknown>]> = [];
+    const client = {
+      async rpc(name: string, args: Record<string, unknown>) {
+        calls.push([name, args]);
+        return { data: 'entry-1', error: null };
+      },
+    };
+    const lines = [
+      { account_id: 'a', debit: 10, credit: 0 },
+      { account_id: 'b', debit: 0, credit: 10 },
+    ];
+
+    const entryId = await postJournalEntry(client, {
+      companyProfileId: 'c1',
+      entryDate: '2024-01-31',
+      description: 'Accrual',
+      sourceType: 'manual',
+      lines,
+      postedBy: 'u1',
+    });
+
+    expect(entryId).toBe('entry-1');
+    expect(calls).toEqual([
+      [
+        'post_journal_entry',
+        expect.objectContaining({
+          p_company_profile_id: 'c1',
+          p_entry_date: '2024-01-31',
+          p_source_type: 'manual',
+          p_lines: lines,
+          p_posted_by: 'u1',
+          p_adjustment_reason: null,
+        }),
+      ],
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Aged Receivables and Payables
+ *
+ * Open sales invoices (what customers owe) and bills (what is owed to suppliers) as of a date,
+ * bucketed by how many days past due they are. Invoices without a due date are aged from
+ * their document date. Payments dated after the as-of date are ignored, so a past date shows
+ * what was outstanding then.
+ */
+
+import type { DocumentKind } from "./documents";
+
+export type AgeingBucket = "current" | "days_1_30" | "days_31_60" | "days_61_90" | "days_over_90";
+
+export const AGEING_BUCKETS: AgeingBucket[] = ["current", "days_1_30", "days_31_60", "days_61_90", "days_over_90"];
+
+export const AGEING_BUCKET_LABELS: Record<AgeingBucket, string> = {
+  current: "Current",
+  days_1_30: "1-30 days",
+  days_31_60: "31-60 days",
+  days_61_90: "61-90 days",
+  days_over_90: "90+ days",
+};
+
+export type AgeingTotals = Record<AgeingBucket, number> & { total: number };
+
+export interface OpenInvoice {
+  document_id: string;
+  contact_name: string;
+  invoice_number: string | null;
+  document_date: string;
+  due_date: string | null;
+  currency: string | null;
+  total_amount: number;
+  outstanding_amount: number;
+  /** Outstanding in the base currency; null while the invoice waits for an FX rate */
+  base_outstanding_amount: number | null;
+  days_overdue: number;
+  bucket: AgeingBucket;
+}
+
+export interface AgedContact extends AgeingTotals {
+  contact_name: string;
+  invoices: OpenInvoice[];
+}
+
+export interface AgedBalancesReport {
+  document_kind: DocumentKind;
+  as_of: string;
+  contacts: AgedContact[];
+  totals: AgeingTotals;
+  /** Open invoices left out of the totals because they have no base-currency value yet */
+  unconverted_count: number;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+function roundPence(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function emptyTotals(): AgeingTotals {
+  return { current: 0, days_1_30: 0, days_31_60: 0, days_61_90: 0, days_over_90: 0, total: 0 };
+}
+
+/**
+ * Days between the due date and the as-of date (negative when not yet due) and its bucket
+ */
+export function ageInvoice(dueDate: string, asOf: string): { days_overdue: number; bucket: AgeingBucket } {
+  const days = Math.round((Date.parse(asOf) - Date.parse(dueDate)) / DAY_MS);
+  let bucket: AgeingBucket = "current";
+  if (days > 90) bucket = "days_over_90";
+  else if (days > 60) bucket = "days_61_90";
+  else if (days > 30) bucket = "days_31_60";
+  else if (days > 0) bucket = "days_1_30";
+  return { days_overdue: days, bucket };
+}
+
+/**
+ * Group open invoices by contact with bucket totals, largest balance first
+ */
+export function buildAgedBalances(invoices: OpenInvoice[]): { contacts: AgedContact[]; totals: AgeingTotals } {
+  const byContact = new Map<string, AgedContact>();
+  const totals = emptyTotals();
+
+  for (const invoice of invoices) {
+    const key = invoice.contact_name.toLowerCase();
+    if (!byContact.has(key)) {
+      byContact.set(key, { contact_name: invoice.contact_name, invoices: [], ...emptyTotals() });
+    }
+    const contact = byContact.get(key)!;
+    contact.invoices.push(invoice);
+
+    if (invoice.base_outstanding_amount === null) continue;
+    const amount = invoice.base_outstanding_amount;
+    contact[invoice.bucket] = roundPence(contact[invoice.bucket] + amount);
+    contact.total = roundPence(contact.total + amount);
+    totals[invoice.bucket] = roundPence(totals[invoice.bucket] + amount);
+    totals.total = roundPence(totals.total + amount);
+  }
+
+  const contacts = Array.from(byContact.values()).sort((a, b) => b.total - a.total);
+  return { contacts, totals };
+}
+
+/**
+ * Aged receivables (sales invoices) or payables (bills) for a company as of a date
+ */
+export async function getAgedBalances(
+  supabase: any,
+  companyProfileId: string,
+  kind: DocumentKind,
+  asOf: string
+): Promise<AgedBalancesReport> {
+  const { data, error } = await supabase.rpc("get_open_invoices", {
+    p_company_profile_id: companyProfileId,
+    p_document_kind: kind,
+    p_as_of: asOf,
+  });
+
+  if (error) {
+    throw new Error(error.message || "Failed to load open invoices");
+  }
+
+  const invoices: OpenInvoice[] = (data || []).map((row: any) => {
+    const ageing = ageInvoice(row.due_date || row.document_date, asOf);
+    return {
+      document_id: row.document_id,
+      contact_name: row.vendor_name || "Unknown",
+      invoice_number: row.invoice_number,
+      document_date: row.document_date,
+      due_date: row.due_date,
+      currency: row.currency,
+      total_amount: Number(row.total_amount) || 0,
+      outstanding_amount: Number(row.outstanding_amount) || 0,
+      base_outstanding_amount:
+        row.base_outstanding_amount === null || row.base_outstanding_amount === undefined
+          ? null
+          : Number(row.base_outstanding_amount),
+      ...ageing,
+    };
+  });
+
+  const { contacts, totals } = buildAgedBalances(invoices);
+
+  return {
+    document_kind: kind,
+    as_of: asOf,
+    contacts,
+    totals,
+    unconverted_count: invoices.filter((invoice) => invoice.base_outstanding_amount === null).length,
+  };
+}
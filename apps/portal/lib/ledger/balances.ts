@@ -0,0 +1,71 @@
+/**
+ * General Ledger - Account Balances
+ *
+ * Reads posted journal lines (via get_ledger_account_balances) and
+ * turns them into signed balances per account.
+ */
+
+import type { LedgerAccountType } from "./journal";
+
+/** Accrual counts invoices when issued; cash counts them when paid */
+export type AccountingBasis = "cash" | "accrual";
+
+export interface LedgerAccountBalance {
+  account_id: string;
+  account_code: string;
+  account_name: string;
+  account_type: LedgerAccountType;
+  total_debit: number;
+  total_credit: number;
+  /** Balance in the account's normal direction (debit for assets/expenses, credit otherwise) */
+  balance: number;
+}
+
+/**
+ * Whether an account type carries a debit balance in normal use
+ */
+export function isDebitNormal(accountType: LedgerAccountType): boolean {
+  return accountType === 'asset' || accountType === 'expense';
+}
+
+/**
+ * Get posted balances per account for a company.
+ * @param startDate - Inclusive start date, or null to include everything up to endDate
+ * @param endDate - Inclusive end date
+ * @param basis - Cash basis is only meaningful for income and expense accounts
+ */
+export async function getLedgerAccountBalances(
+  supabase: any,
+  companyProfileId: string,
+  startDate: Date | null,
+  endDate: Date,
+  basis: AccountingBasis = "accrual"
+): Promise<LedgerAccountBalance[]> {
+  const { data, error } = await supabase.rpc("get_ledger_account_balances", {
+    p_company_profile_id: companyProfileId,
+    p_start_date: startDate ? startDate.toISOString().split("T")[0] : null,
+    p_end_date: endDate.toISOString().split("T")[0],
+    p_basis: basis,
+  });
+
+  if (error) {
+    throw new Error(error.message || "Failed to load ledger balances");
+  }
+
+  return (data || []).map((row: any) => {
+    const totalDebit = Number(row.total_debit) || 0;
+    const totalCredit = Number(row.total_credit) || 0;
+    const accountType = row.account_type as LedgerAccountType;
+    const net = isDebitNormal(accountType) ? totalDebit - totalCredit : totalCredit - totalDebit;
+
+    return {
+      account_id: row.account_id,
+      account_code: row.account_code,
+      account_name: row.account_name,
+      account_type: accountType,
+      total_debit: totalDebit,
+      total_credit: totalCredit,
+      balance: Math.round(net * 100) / 100,
+    };
+  });
+}
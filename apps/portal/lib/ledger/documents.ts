@@ -0,0 +1,329 @@
+/**
+ * General Ledger - Invoice Posting
+ *
+ * Invoices post on their document date, before any money moves: a bill debits the expense
+ * and input VAT and credits accounts payable; a sales invoice debits accounts receivable and
+ * credits income and output VAT. Bank payments matched to a posted invoice then clear the
+ * control account (see postTransactionsToLedger), which is what puts the books on an accrual
+ * basis. Receipts are not posted; they record money already spent through the bank.
+ */
+
+import {
+  PAYABLES_ACCOUNT_CODE,
+  RECEIVABLES_ACCOUNT_CODE,
+  UNCATEGORIZED_ACCOUNT_CODE,
+  loadCapitalisedAccounts,
+  postJournalEntry,
+  postTransactionsToLedger,
+  resolveCategoryAccountCode,
+  splitLineDescription,
+  type JournalLineInput,
+  type LedgerAccount,
+} from "./journal";
+import { allocateByWeight, getSplitLines, splitNetAndVat } from "@/lib/categorization/splits";
+
+export type DocumentKind = "bill" | "sales_invoice";
+
+export const DOCUMENT_KIND_LABELS: Record<DocumentKind, string> = {
+  bill: "Bill",
+  sales_invoice: "Sales invoice",
+};
+
+export interface DocumentPostingResult {
+  posted: number;
+  voided: number;
+  errors: Array<{ documentId: string; error: string }>;
+}
+
+/** Output and input VAT share one account in the default UK chart */
+export const VAT_ACCOUNT_CODE = "2300";
+
+/** Income account for sales invoices with no mapped category */
+export const DEFAULT_SALES_ACCOUNT_CODE = "4100";
+
+const POSTING_BATCH_SIZE = 200;
+
+function roundPence(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Build the balanced journal lines for an invoice, in base currency.
+ * Tax is taken at its base value and the net is whatever remains of the base total. A split
+ * invoice shares the net out over its lines' nominal accounts by weight (each line's net).
+ */
+export function buildDocumentLines(
+  doc: { document_kind: DocumentKind; base_total: number; base_tax: number; description: string },
+  accounts: {
+    control: string;
+    nominal: string | Array<{ accountId: string; weight: number; description?: string | null }>;
+    vat: string;
+  }
+): JournalLineInput[] {
+  const total = roundPence(Math.abs(doc.base_total));
+  if (total === 0) return [];
+  const tax = Math.min(roundPence(Math.abs(doc.base_tax)), total);
+  const net = roundPence(total - tax);
+  const isSale = doc.document_kind === "sales_invoice";
+
+  const line = (accountId: string, amount: number, debit: boolean, description?: string | null): JournalLineInput => ({
+    account_id: accountId,
+    bank_account_id: null,
+    debit: debit ? amount : 0,
+    credit: debit ? 0 : amount,
+    description: description || doc.description,
+  });
+
+  const nominal = typeof accounts.nominal === "string"
+    ? [{ accountId: accounts.nominal, weight: 1, description: null }]
+    : accounts.nominal;
+  const shares = allocateByWeight(net, nominal.map((allocation) => allocation.weight));
+
+  const lines = [line(accounts.control, total, isSale)];
+  nominal.forEach((allocation, index) => {
+    if (shares[index] > 0) lines.push(line(allocation.accountId, shares[index], !isSale, allocation.description));
+  });
+  if (tax > 0) lines.push(line(accounts.vat, tax, !isSale));
+  return lines;
+}
+
+/**
+ * Void the posted entry of documents that should no longer be in the ledger
+ */
+async function voidDocumentEntries(supabase: any, documentIds: string[], voidedBy: string | null): Promise<number> {
+  if (documentIds.length === 0) return 0;
+
+  const { data, error } = await supabase
+    .from("journal_entries")
+    .update({
+      status: "void",
+      voided_at: new Date().toISOString(),
+      voided_by: voidedBy,
+      void_reason: "Source document removed from the ledger",
+    })
+    .in("source_document_id", documentIds)
+    .is("source_transaction_id", null)
+    .eq("status", "posted")
+    .select("id");
+
+  if (error) {
+    throw new Error(error.message || "Failed to void document entries");
+  }
+
+  return (data || []).length;
+}
+
+/**
+ * Post (or re-post) invoices to the ledger of a company profile.
+ * Documents that are deleted, not invoices, or have no date or amount have their entry voided.
+ */
+export async function postDocumentsToLedger(
+  supabase: any,
+  companyProfileId: string,
+  documentIds: string[],
+  postedBy: string | null = null
+): Promise<DocumentPostingResult> {
+  const result: DocumentPostingResult = { posted: 0, voided: 0, errors: [] };
+  if (documentIds.length === 0) return result;
+
+  const { data: chartOfAccounts } = await supabase
+    .from("chart_of_accounts")
+    .select("id, account_code, account_name, account_type")
+    .eq("company_profile_id", companyProfileId)
+    .eq("is_active", true);
+
+  const accounts: LedgerAccount[] = chartOfAccounts || [];
+  if (accounts.length === 0) {
+    throw new Error("Company has no chart of accounts. Create one before posting to the ledger.");
+  }
+
+  const { data: mappings } = await supabase
+    .from("category_account_mapping")
+    .select("category, subcategory, account_code")
+    .eq("company_profile_id", companyProfileId);
+
+  const accountsByCode = new Map(accounts.map((a) => [a.account_code, a]));
+  const receivables = accountsByCode.get(RECEIVABLES_ACCOUNT_CODE);
+  const payables = accountsByCode.get(PAYABLES_ACCOUNT_CODE);
+  const vat = accountsByCode.get(VAT_ACCOUNT_CODE);
+
+  for (let i = 0; i < documentIds.length; i += POSTING_BATCH_SIZE) {
+    const chunk = documentIds.slice(i, i + POSTING_BATCH_SIZE);
+    const { data: documents } = await supabase
+      .from("financial_documents")
+      .select("id, company_profile_id, file_type, document_kind, is_deleted, document_date, vendor_name, invoice_number, document_number, currency, category, subcategory, split_allocations, total_amount, tax_amount, base_total_amount")
+      .in("id", chunk);
+
+    const capitalised = await loadCapitalisedAccounts(supabase, "document", chunk);
+    const toVoid: string[] = [];
+    for (const doc of documents || []) {
+      const total = Math.abs(Number(doc.total_amount) || 0);
+      if (
+        doc.company_profile_id !== companyProfileId ||
+        doc.file_type !== "invoice" ||
+        doc.is_deleted ||
+        !doc.document_date ||
+        total === 0
+      ) {
+        toVoid.push(doc.id);
+        continue;
+      }
+
+      // Foreign-currency invoices wait for an FX rate, as transactions do
+      if (doc.base_total_amount === null || doc.base_total_amount === undefined) {
+        result.errors.push({ documentId: doc.id, error: `No ${doc.currency} exchange rate for ${doc.document_date}` });
+        continue;
+      }
+
+      const kind: DocumentKind = doc.document_kind === "sales_invoice" ? "sales_invoice" : "bill";
+      const control = kind === "sales_invoice" ? receivables : payables;
+      const nominalCode = kind === "sales_invoice" && !doc.category
+        ? DEFAULT_SALES_ACCOUNT_CODE
+        : resolveCategoryAccountCode(doc.category, doc.subcategory, mappings || [], accounts);
+      const nominal = accountsByCode.get(nominalCode) || accountsByCode.get(UNCATEGORIZED_ACCOUNT_CODE);
+
+      if (!control || !nominal || !vat) {
+        result.errors.push({ documentId: doc.id, error: "No ledger account could be resolved" });
+        continue;
+      }
+
+      const baseTotal = Math.abs(Number(doc.base_total_amount));
+      const rate = baseTotal / total;
+      const reference = doc.invoice_number || doc.document_number || null;
+      const description = [DOCUMENT_KIND_LABELS[kind], doc.vendor_name, reference].filter(Boolean).join(" - ");
+
+      // A capitalised bill posts its net to the fixed asset's account rather than an expense
+      const assetCode = capitalised.get(doc.id);
+      const assetAccount = assetCode ? accountsByCode.get(assetCode) : undefined;
+      if (assetCode && !assetAccount) {
+        result.errors.push({ documentId: doc.id, error: `No account ${assetCode} in the chart of accounts for this fixed asset` });
+        continue;
+      }
+
+      // Split invoices post each line's net to its own account, and their VAT is the lines' VAT
+      const splits = assetAccount ? [] : getSplitLines(doc.split_allocations);
+      let tax = Math.abs(Number(doc.tax_amount) || 0);
+      let nominalAccounts: string | Array<{ accountId: string; weight: number; description?: string | null }> =
+        assetAccount ? assetAccount.id : nominal.id;
+      if (splits.length > 0) {
+        const parts = splitNetAndVat(total, tax, splits);
+        tax = parts.reduce((sum, part) => sum + part.vat, 0);
+        nominalAccounts = splits.map((line, index) => {
+          const code = resolveCategoryAccountCode(line.category, line.subcategory || null, mappings || [], accounts);
+          const account = accountsByCode.get(code) || nominal;
+          return { accountId: account.id, weight: parts[index].net, description: splitLineDescription(line, description) };
+        });
+      }
+
+      const lines = buildDocumentLines(
+        {
+          document_kind: kind,
+          base_total: baseTotal,
+          base_tax: tax * rate,
+          description,
+        },
+        { control: control.id, nominal: nominalAccounts, vat: vat.id }
+      );
+
+      try {
+        await postJournalEntry(supabase, {
+          companyProfileId,
+          entryDate: doc.document_date,
+          description,
+          sourceType: "document",
+          lines,
+          sourceDocumentId: doc.id,
+          reference,
+          postedBy,
+        });
+        result.posted++;
+      } catch (error: any) {
+        result.errors.push({ documentId: doc.id, error: error.message });
+      }
+    }
+
+    try {
+      result.voided += await voidDocumentEntries(supabase, toVoid, postedBy);
+    } catch (error: any) {
+      toVoid.forEach((documentId) => result.errors.push({ documentId, error: error.message }));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Re-post the transactions of a reconciliation after a match is made or undone, so payments
+ * clear (or stop clearing) receivables and payables. Invoices not yet in the ledger are posted
+ * first so their payments can find them.
+ */
+export async function postReconciliationToLedger(
+  supabase: any,
+  transactionIds: string[],
+  documentIds: string[],
+  postedBy: string | null = null
+): Promise<void> {
+  const companies = new Map<string, { transactionIds: string[]; documentIds: string[] }>();
+  const forCompany = (companyProfileId: string) => {
+    if (!companies.has(companyProfileId)) companies.set(companyProfileId, { transactionIds: [], documentIds: [] });
+    return companies.get(companyProfileId)!;
+  };
+
+  if (documentIds.length > 0) {
+    const { data: postedEntries } = await supabase
+      .from("journal_entries")
+      .select("source_document_id")
+      .in("source_document_id", documentIds)
+      .eq("source_type", "document")
+      .eq("status", "posted");
+    const postedIds = new Set((postedEntries || []).map((entry: any) => entry.source_document_id));
+
+    const { data: documents } = await supabase
+      .from("financial_documents")
+      .select("id, company_profile_id")
+      .in("id", documentIds);
+    for (const doc of documents || []) {
+      if (doc.company_profile_id && !postedIds.has(doc.id)) forCompany(doc.company_profile_id).documentIds.push(doc.id);
+    }
+  }
+
+  if (transactionIds.length > 0) {
+    const { data: transactions } = await supabase
+      .from("categorized_transactions")
+      .select("id, company_profile_id")
+      .in("id", transactionIds);
+    for (const tx of transactions || []) {
+      if (tx.company_profile_id) forCompany(tx.company_profile_id).transactionIds.push(tx.id);
+    }
+  }
+
+  for (const [companyProfileId, ids] of companies) {
+    await postDocumentsToLedger(supabase, companyProfileId, ids.documentIds, postedBy);
+    await postTransactionsToLedger(supabase, companyProfileId, ids.transactionIds, postedBy);
+  }
+}
+
+/**
+ * Re-post everything in a match group, e.g. after it is undone
+ */
+export async function postMatchGroupToLedger(
+  supabase: any,
+  groupId: string,
+  postedBy: string | null = null
+): Promise<void> {
+  const { data: items, error } = await supabase
+    .from("reconciliation_match_group_items")
+    .select("transaction_id, document_id")
+    .eq("group_id", groupId);
+
+  if (error) {
+    throw new Error(error.message || "Failed to load match group");
+  }
+
+  await postReconciliationToLedger(
+    supabase,
+    (items || []).map((item: any) => item.transaction_id).filter(Boolean),
+    (items || []).map((item: any) => item.document_id).filter(Boolean),
+    postedBy
+  );
+}
@@ -0,0 +1,547 @@
+/**
+ * General Ledger - Journal Posting
+ *
+ * Posts categorized bank transactions to the double-entry ledger.
+ * Each bank transaction becomes one balanced journal entry: one line against the
+ * bank account's ledger account and one against the mapped nominal account.
+ * The ledger is kept in the company's base currency, so entries use each transaction's
+ * converted base_amount. A transaction reconciled to an invoice already in the ledger
+ * (see documents.ts) clears accounts receivable or payable instead of a nominal account.
+ */
+
+import { allocateByWeight, getSplitLines, splitWeights, type SplitLine } from "@/lib/categorization/splits";
+
+export type LedgerAccountType = 'asset' | 'liability' | 'equity' | 'income' | 'expense';
+
+export interface LedgerAccount {
+  id: string;
+  account_code: string;
+  account_name: string;
+  account_type: LedgerAccountType;
+}
+
+export interface CategoryAccountMapping {
+  category: string;
+  subcategory: string | null;
+  account_code: string;
+}
+
+export interface JournalLineInput {
+  account_id: string;
+  bank_account_id?: string | null;
+  debit: number;
+  credit: number;
+  description?: string | null;
+}
+
+export interface PostingResult {
+  posted: number;
+  skipped: number;
+  errors: Array<{ transactionId: string; error: string }>;
+}
+
+/** Default bank ledger account when a bank account has no ledger_account_id */
+export const DEFAULT_BANK_ACCOUNT_CODE = "1100";
+
+/** Default nominal account for transactions that cannot be mapped */
+export const UNCATEGORIZED_ACCOUNT_CODE = "8000";
+
+/** Control accounts for invoices posted on an accrual basis */
+export const RECEIVABLES_ACCOUNT_CODE = "1200";
+export const PAYABLES_ACCOUNT_CODE = "2100";
+
+/** Shortfalls written off when a match group settles an invoice (card fees, discounts) */
+export const WRITE_OFF_ACCOUNT_CODE = "7000";
+
+/** Gains and losses on disposing of fixed assets, where an asset's sale receipt posts */
+export const ASSET_DISPOSAL_ACCOUNT_CODE = "6750";
+
+const POSTING_BATCH_SIZE = 200;
+
+/** Transaction ids read per page when posting a whole job; PostgREST caps responses at 1000 rows */
+const JOB_TRANSACTION_PAGE_SIZE = 1000;
+
+/**
+ * Resolve the nominal account code for a category.
+ * Explicit category_account_mapping rows win; otherwise fall back to name matching.
+ */
+export function resolveCategoryAccountCode(
+  category: string | null,
+  subcategory: string | null,
+  mappings: CategoryAccountMapping[],
+  chartOfAccounts: LedgerAccount[]
+): string {
+  const mapping =
+    mappings.find(
+      (m) => m.category === category && (m.subcategory || null) === (subcategory || null)
+    ) || mappings.find((m) => m.category === category && !m.subcategory);
+
+  if (mapping) return mapping.account_code;
+
+  return getDefaultAccountCode(category, chartOfAccounts);
+}
+
+/**
+ * Get default account code for a category
+ */
+export function getDefaultAccountCode(category: string | null, chartOfAccounts: LedgerAccount[]): string {
+  if (!category) return UNCATEGORIZED_ACCOUNT_CODE;
+
+  const categoryLower = category.toLowerCase();
+
+  // Try to find matching account by name
+  const matching = chartOfAccounts.find((acc) =>
+    acc.account_name.toLowerCase().includes(categoryLower) ||
+    categoryLower.includes(acc.account_name.toLowerCase())
+  );
+  if (matching) return matching.account_code;
+
+  // Default mappings
+  if (categoryLower.includes("revenue") || categoryLower.includes("income") || categoryLower.includes("sales")) {
+    return "4100";
+  }
+  if (categoryLower.includes("office") || categoryLower.includes("supplies")) {
+    return "6100";
+  }
+  if (categoryLower.includes("travel")) {
+    return "6200";
+  }
+  if (categoryLower.includes("software") || categoryLower.includes("subscription")) {
+    return "6100";
+  }
+
+  return UNCATEGORIZED_ACCOUNT_CODE;
+}
+
+/**
+ * Build the balanced journal lines for a bank transaction.
+ * Money out: Dr nominal, Cr bank. Money in: Dr bank, Cr nominal.
+ * A split transaction gets one nominal line per allocation, shared out by weight (a split
+ * line's amount or percentage); rounding goes to the last line.
+ */
+export function buildBankTransactionLines(
+  tx: { amount: number; is_debit: boolean | null; original_description: string; bank_account_id?: string | null },
+  bankLedgerAccountId: string,
+  nominal: string | Array<{ accountId: string; weight: number; description?: string | null }>
+): JournalLineInput[] {
+  const amount = Math.round(Math.abs(tx.amount || 0) * 100) / 100;
+  if (amount === 0) return [];
+
+  const isMoneyOut = tx.is_debit ?? tx.amount < 0;
+  const bankAccountId = tx.bank_account_id || null;
+
+  const bankLine: JournalLineInput = {
+    account_id: bankLedgerAccountId,
+    bank_account_id: bankAccountId,
+    debit: isMoneyOut ? 0 : amount,
+    credit: isMoneyOut ? amount : 0,
+    description: tx.original_description,
+  };
+
+  const allocations = typeof nominal === "string" ? [{ accountId: nominal, weight: 1, description: null }] : nominal;
+  const shares = allocateByWeight(amount, allocations.map((allocation) => allocation.weight));
+  const nominalLines: JournalLineInput[] = [];
+
+  allocations.forEach((allocation, index) => {
+    const share = shares[index];
+    if (share === 0) return;
+
+    nominalLines.push({
+      account_id: allocation.accountId,
+      bank_account_id: null,
+      debit: isMoneyOut ? share : 0,
+      credit: isMoneyOut ? 0 : share,
+      description: allocation.description || tx.original_description,
+    });
+  });
+
+  return isMoneyOut ? [...nominalLines, bankLine] : [bankLine, ...nominalLines];
+}
+
+/**
+ * Narration for the ledger line of one split line
+ */
+export function splitLineDescription(line: SplitLine, parentDescription: string): string {
+  const detail = [line.description, line.supplier_name].filter(Boolean).join(" - ");
+  return detail ? `${parentDescription} - ${detail}` : parentDescription;
+}
+
+/**
+ * Check that a set of journal lines balances to the penny
+ */
+export function isBalanced(lines: JournalLineInput[]): boolean {
+  const debits = lines.reduce((sum, line) => sum + Math.round(line.debit * 100), 0);
+  const credits = lines.reduce((sum, line) => sum + Math.round(line.credit * 100), 0);
+  return lines.length > 0 && debits === credits;
+}
+
+/**
+ * Post a balanced journal entry through the post_journal_entry RPC
+ */
+export async function postJournalEntry(
+  supabase: any,
+  entry: {
+    companyProfileId: string;
+    entryDate: string;
+    description: string | null;
+    sourceType: 'bank_transaction' | 'document' | 'manual' | 'adjustment' | 'opening_balance' | 'fx_revaluation' | 'depreciation' | 'asset_disposal';
+    lines: JournalLineInput[];
+    sourceTransactionId?: string | null;
+    sourceDocumentId?: string | null;
+    reference?: string | null;
+    postedBy?: string | null;
+    /** Required when the entry date falls in a closed period */
+    adjustmentReason?: string | null;
+  }
+): Promise<string> {
+  if (!isBalanced(entry.lines)) {
+    throw new Error("Journal entry is not balanced");
+  }
+
+  const { data, error } = await supabase.rpc("post_journal_entry", {
+    p_company_profile_id: entry.companyProfileId,
+    p_entry_date: entry.entryDate,
+    p_description: entry.description,
+    p_source_type: entry.sourceType,
+    p_lines: entry.lines,
+    p_source_transaction_id: entry.sourceTransactionId || null,
+    p_source_document_id: entry.sourceDocumentId || null,
+    p_reference: entry.reference || null,
+    p_posted_by: entry.postedBy || null,
+    p_adjustment_reason: entry.adjustmentReason || null,
+  });
+
+  if (error) {
+    throw new Error(error.message || "Failed to post journal entry");
+  }
+
+  return data as string;
+}
+
+/**
+ * Post (or re-post) bank transactions to the ledger of a company profile.
+ * Re-posting a transaction voids its previous entry, so this is safe to call after every edit.
+ */
+export async function postTransactionsToLedger(
+  supabase: any,
+  companyProfileId: string,
+  transactionIds: string[],
+  postedBy: string | null = null
+): Promise<PostingResult> {
+  const result: PostingResult = { posted: 0, skipped: 0, errors: [] };
+  if (transactionIds.length === 0) return result;
+
+  const { data: chartOfAccounts } = await supabase
+    .from("chart_of_accounts")
+    .select("id, account_code, account_name, account_type")
+    .eq("company_profile_id", companyProfileId)
+    .eq("is_active", true);
+
+  const accounts: LedgerAccount[] = chartOfAccounts || [];
+  if (accounts.length === 0) {
+    throw new Error("Company has no chart of accounts. Create one before posting to the ledger.");
+  }
+
+  const { data: mappings } = await supabase
+    .from("category_account_mapping")
+    .select("category, subcategory, account_code")
+    .eq("company_profile_id", companyProfileId);
+
+  const { data: bankAccounts } = await supabase
+    .from("bank_accounts")
+    .select("id, ledger_account_id")
+    .eq("company_profile_id", companyProfileId);
+
+  const accountsByCode = new Map(accounts.map((a) => [a.account_code, a]));
+  const accountIds = new Set(accounts.map((a) => a.id));
+  const bankLedgerById = new Map<string, string | null>(
+    (bankAccounts || []).map((b: any) => [b.id, b.ledger_account_id])
+  );
+  const defaultBankLedger = accountsByCode.get(DEFAULT_BANK_ACCOUNT_CODE);
+
+  for (let i = 0; i < transactionIds.length; i += POSTING_BATCH_SIZE) {
+    const chunk = transactionIds.slice(i, i + POSTING_BATCH_SIZE);
+    const { data: transactions } = await supabase
+      .from("categorized_transactions")
+      .select("id, date, amount, currency, base_amount, is_debit, original_description, category, subcategory, bank_account_id, reference_number, is_breakdown_entry, split_allocations, matched_document_id, match_group_id")
+      .in("id", chunk);
+
+    const clearing = await loadInvoiceClearing(supabase, transactions || []);
+    const capitalised = await loadCapitalisedAccounts(supabase, "transaction", chunk);
+
+    for (const tx of transactions || []) {
+      // Breakdown children are informational; the parent carries the bank movement
+      if (tx.is_breakdown_entry) {
+        result.skipped++;
+        continue;
+      }
+
+      // Foreign-currency transactions wait for an FX rate before they can be posted
+      if (tx.base_amount === null || tx.base_amount === undefined) {
+        result.errors.push({ transactionId: tx.id, error: `No ${tx.currency} exchange rate for ${tx.date}` });
+        continue;
+      }
+
+      const bankLedgerId =
+        (tx.bank_account_id && bankLedgerById.get(tx.bank_account_id)) || defaultBankLedger?.id;
+      const nominalCode = resolveCategoryAccountCode(tx.category, tx.subcategory, mappings || [], accounts);
+      const nominalAccount =
+        accountsByCode.get(nominalCode) || accountsByCode.get(UNCATEGORIZED_ACCOUNT_CODE);
+
+      if (!bankLedgerId || !accountIds.has(bankLedgerId) || !nominalAccount) {
+        result.errors.push({ transactionId: tx.id, error: "No ledger account could be resolved" });
+        continue;
+      }
+
+      // Split transactions spread the amount across several nominal accounts
+      const splits = getSplitLines(tx.split_allocations);
+      const weights = splitWeights(splits);
+      const allocations = splits.map((split, index) => {
+        const code = resolveCategoryAccountCode(split.category, split.subcategory || null, mappings || [], accounts);
+        const account = accountsByCode.get(code) || nominalAccount;
+        return { accountId: account.id, weight: weights[index], description: splitLineDescription(split, tx.original_description) };
+      });
+
+      // Payments of posted invoices clear the control account; the invoice carries the nominal split
+      const invoice = tx.matched_document_id ? clearing.invoices.get(tx.matched_document_id) : undefined;
+      const controlAccount = invoice
+        ? accountsByCode.get(invoice.document_kind === "sales_invoice" ? RECEIVABLES_ACCOUNT_CODE : PAYABLES_ACCOUNT_CODE)
+        : undefined;
+      if (invoice && !controlAccount) {
+        result.errors.push({ transactionId: tx.id, error: "No receivables or payables account in the chart of accounts" });
+        continue;
+      }
+
+      // Capitalised purchases and fixed asset sale receipts post to the balance sheet instead
+      const assetCode = capitalised.get(tx.id);
+      const assetAccount = assetCode ? accountsByCode.get(assetCode) : undefined;
+      if (assetCode && !assetAccount && !controlAccount) {
+        result.errors.push({ transactionId: tx.id, error: `No account ${assetCode} in the chart of accounts for this fixed asset` });
+        continue;
+      }
+
+      const baseAmount = Math.abs(Number(tx.base_amount));
+      const lines = buildBankTransactionLines(
+        { ...tx, amount: tx.amount < 0 ? -baseAmount : baseAmount },
+        bankLedgerId,
+        controlAccount
+          ? controlAccount.id
+          : assetAccount
+            ? assetAccount.id
+            : allocations.length > 0 ? allocations : nominalAccount.id
+      );
+
+      // A match group's write-off is booked once, with its first transaction
+      const writeOff = controlAccount ? clearing.writeOffs.get(tx.id) : undefined;
+      if (controlAccount && writeOff && lines.length > 0) {
+        const writeOffAccount = accountsByCode.get(WRITE_OFF_ACCOUNT_CODE) || nominalAccount;
+        const rate = Math.abs(Number(tx.amount)) > 0 ? baseAmount / Math.abs(Number(tx.amount)) : 1;
+        const amount = Math.round(writeOff * rate * 100) / 100;
+        const isSale = invoice!.document_kind === "sales_invoice";
+        const description = `Written off: ${tx.original_description}`;
+        if (amount > 0) {
+          lines.push(
+            {
+              account_id: writeOffAccount.id,
+              bank_account_id: null,
+              debit: isSale ? amount : 0,
+              credit: isSale ? 0 : amount,
+              description,
+            },
+            {
+              account_id: controlAccount.id,
+              bank_account_id: null,
+              debit: isSale ? 0 : amount,
+              credit: isSale ? amount : 0,
+              description,
+            }
+          );
+        }
+      }
+
+      if (lines.length === 0) {
+        result.skipped++;
+        continue;
+      }
+
+      try {
+        await postJournalEntry(supabase, {
+          companyProfileId,
+          entryDate: tx.date,
+          description: tx.original_description,
+          sourceType: "bank_transaction",
+          lines,
+          sourceTransactionId: tx.id,
+          reference: tx.reference_number,
+          postedBy,
+        });
+        result.posted++;
+      } catch (error: any) {
+        result.errors.push({ transactionId: tx.id, error: error.message });
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Accounts that capitalised purchases post to: the asset's account for the transaction or
+ * invoice it was capitalised from, and the disposals account for its sale receipt
+ */
+export async function loadCapitalisedAccounts(
+  supabase: any,
+  source: "transaction" | "document",
+  ids: string[]
+): Promise<Map<string, string>> {
+  const accounts = new Map<string, string>();
+  if (ids.length === 0) return accounts;
+
+  const sourceColumn = source === "transaction" ? "source_transaction_id" : "source_document_id";
+  const { data: assets } = await supabase
+    .from("fixed_assets")
+    .select("asset_account_code, source_transaction_id, source_document_id")
+    .in(sourceColumn, ids);
+  for (const asset of assets || []) {
+    accounts.set(asset[sourceColumn], asset.asset_account_code);
+  }
+
+  if (source === "transaction") {
+    const { data: disposals } = await supabase
+      .from("fixed_assets")
+      .select("disposal_transaction_id")
+      .in("disposal_transaction_id", ids);
+    for (const asset of disposals || []) {
+      accounts.set(asset.disposal_transaction_id, ASSET_DISPOSAL_ACCOUNT_CODE);
+    }
+  }
+
+  return accounts;
+}
+
+/**
+ * Find which transactions pay an invoice that is posted to the ledger, and the write-off
+ * each match group books with its first transaction
+ */
+async function loadInvoiceClearing(
+  supabase: any,
+  transactions: Array<{ id: string; matched_document_id?: string | null; match_group_id?: string | null }>
+): Promise<{
+  invoices: Map<string, { document_kind: "bill" | "sales_invoice" }>;
+  writeOffs: Map<string, number>;
+}> {
+  const invoices = new Map<string, { document_kind: "bill" | "sales_invoice" }>();
+  const writeOffs = new Map<string, number>();
+
+  const documentIds = Array.from(
+    new Set(transactions.map((tx) => tx.matched_document_id).filter(Boolean) as string[])
+  );
+  if (documentIds.length === 0) return { invoices, writeOffs };
+
+  const { data: postedEntries } = await supabase
+    .from("journal_entries")
+    .select("source_document_id")
+    .in("source_document_id", documentIds)
+    .eq("source_type", "document")
+    .eq("status", "posted");
+  const postedIds = new Set((postedEntries || []).map((entry: any) => entry.source_document_id));
+  if (postedIds.size === 0) return { invoices, writeOffs };
+
+  const { data: documents } = await supabase
+    .from("financial_documents")
+    .select("id, document_kind")
+    .in("id", Array.from(postedIds));
+  for (const doc of documents || []) {
+    invoices.set(doc.id, { document_kind: doc.document_kind || "bill" });
+  }
+
+  const groupIds = Array.from(
+    new Set(
+      transactions
+        .filter((tx) => tx.match_group_id && tx.matched_document_id && invoices.has(tx.matched_document_id))
+        .map((tx) => tx.match_group_id) as string[]
+    )
+  );
+  if (groupIds.length === 0) return { invoices, writeOffs };
+
+  const { data: groups } = await supabase
+    .from("reconciliation_match_groups")
+    .select("id, write_off_amount, items:reconciliation_match_group_items (transaction_id)")
+    .in("id", groupIds)
+    .gt("write_off_amount", 0);
+  for (const group of groups || []) {
+    const firstTransactionId = (group.items || [])
+      .map((item: any) => item.transaction_id)
+      .filter(Boolean)
+      .sort()[0];
+    if (firstTransactionId) writeOffs.set(firstTransactionId, Number(group.write_off_amount));
+  }
+
+  return { invoices, writeOffs };
+}
+
+/**
+ * Resolve which company profile a categorization job posts to:
+ * the job's bank account company, else the user's completed company profile.
+ */
+export async function resolveCompanyProfileForJob(
+  supabase: any,
+  jobId: string,
+  userId: string
+): Promise<string | null> {
+  const { data: job } = await supabase
+    .from("categorization_jobs")
+    .select("bank_account_id, bank_accounts(company_profile_id)")
+    .eq("id", jobId)
+    .single();
+
+  const bankCompanyId = (job?.bank_accounts as any)?.company_profile_id;
+  if (bankCompanyId) return bankCompanyId;
+
+  const { data: companyProfile } = await supabase
+    .from("company_profiles")
+    .select("id")
+    .eq("user_id", userId)
+    .eq("setup_completed", true)
+    .limit(1)
+    .maybeSingle();
+
+  return companyProfile?.id || null;
+}
+
+/**
+ * Post every transaction of a categorization job to the ledger, a page of ids at a time
+ */
+export async function postJobToLedger(
+  supabase: any,
+  jobId: string,
+  userId: string
+): Promise<PostingResult | null> {
+  const companyProfileId = await resolveCompanyProfileForJob(supabase, jobId, userId);
+  if (!companyProfileId) return null;
+
+  const result: PostingResult = { posted: 0, skipped: 0, errors: [] };
+
+  for (let offset = 0; ; offset += JOB_TRANSACTION_PAGE_SIZE) {
+    const { data: transactions, error } = await supabase
+      .from("categorized_transactions")
+      .select("id")
+      .eq("job_id", jobId)
+      .order("id", { ascending: true })
+      .range(offset, offset + JOB_TRANSACTION_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(error.message || "Failed to load job transactions");
+    }
+
+    const ids = (transactions || []).map((t: any) => t.id);
+    const page = await postTransactionsToLedger(supabase, companyProfileId, ids, userId);
+    result.posted += page.posted;
+    result.skipped += page.skipped;
+    result.errors.push(...page.errors);
+
+    if (ids.length < JOB_TRANSACTION_PAGE_SIZE) break;
+  }
+
+  return result;
+}
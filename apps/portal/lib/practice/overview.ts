@@ -0,0 +1,130 @@
+/**
+ * Practice Overview
+ *
+ * Work queue for an accounting practice: for each client company the practice can reach,
+ * how many transactions still need review, what is left to reconcile and when the next
+ * VAT return is due.
+ */
+
+import { getAccessibleCompanyProfileIds, getActiveCompanyProfileId } from '@/lib/books/scope';
+import { getUpcomingVatDeadlines, type VatDeadline } from '@/lib/vat/deadlines';
+
+export interface PracticeClientSummary {
+  company_profile_id: string;
+  company_name: string;
+  company_type: string;
+  tenant_id: string | null;
+  /** True when the company belongs to a client tenant linked to the practice */
+  is_client: boolean;
+  unreviewed_transactions: number;
+  unreconciled_transactions: number;
+  unreconciled_documents: number;
+  vat_registered: boolean;
+  next_vat_deadline: VatDeadline | null;
+}
+
+export interface PracticeOverview {
+  clients: PracticeClientSummary[];
+  active_company_profile_id: string | null;
+}
+
+// Deadlines this close are flagged on the dashboard
+export const VAT_DEADLINE_WARNING_DAYS = 14;
+
+async function countRows(query: any): Promise<number> {
+  const { count, error } = await query;
+  if (error) {
+    console.warn('Practice overview count failed:', error);
+    return 0;
+  }
+  return count || 0;
+}
+
+async function summarizeCompany(
+  supabase: any,
+  company: any,
+  clientTenantIds: Set<string>,
+  today: string
+): Promise<PracticeClientSummary> {
+  const transactions = () => supabase
+    .from('categorized_transactions')
+    .select('id', { count: 'exact', head: true })
+    .eq('company_profile_id', company.id)
+    .not('is_breakdown_entry', 'is', true);
+
+  const [unreviewed, unreconciledTransactions, unreconciledDocuments] = await Promise.all([
+    countRows(transactions().eq('user_confirmed', false)),
+    countRows(transactions().eq('reconciliation_status', 'unreconciled')),
+    countRows(
+      supabase
+        .from('financial_documents')
+        .select('id', { count: 'exact', head: true })
+        .eq('company_profile_id', company.id)
+        .eq('reconciliation_status', 'unreconciled')
+        .eq('is_deleted', false)
+    ),
+  ]);
+
+  return {
+    company_profile_id: company.id,
+    company_name: company.company_name,
+    company_type: company.company_type,
+    tenant_id: company.tenant_id,
+    is_client: !!company.tenant_id && clientTenantIds.has(company.tenant_id),
+    unreviewed_transactions: unreviewed,
+    unreconciled_transactions: unreconciledTransactions,
+    unreconciled_documents: unreconciledDocuments,
+    vat_registered: !!company.vat_registered,
+    next_vat_deadline: company.vat_registered
+      ? getUpcomingVatDeadlines(company.vat_quarter_end_month, today)[0]
+      : null,
+  };
+}
+
+/**
+ * Summaries for every company the signed-in user can access, clients first and the most
+ * pressing VAT deadline at the top.
+ */
+export async function loadPracticeOverview(supabase: any, userId: string): Promise<PracticeOverview> {
+  const companyProfileIds = await getAccessibleCompanyProfileIds(supabase);
+
+  const [{ data: companies, error }, { data: clientTenants }, activeCompanyProfileId] = await Promise.all([
+    companyProfileIds.length > 0
+      ? supabase
+          .from('company_profiles')
+          .select('id, company_name, company_type, tenant_id, vat_registered, vat_quarter_end_month')
+          .in('id', companyProfileIds)
+      : Promise.resolve({ data: [], error: null }),
+    supabase.rpc('current_user_client_tenant_ids'),
+    getActiveCompanyProfileId(supabase, userId),
+  ]);
+
+  if (error) {
+    throw new Error(error.message || 'Failed to load client companies');
+  }
+
+  const clientTenantIds = new Set<string>(
+    (clientTenants || []).map((row: any) =>
+      typeof row === 'string' ? row : row.current_user_client_tenant_ids
+    )
+  );
+  const today = new Date().toISOString().split('T')[0];
+
+  const clients: PracticeClientSummary[] = [];
+  for (const company of companies || []) {
+    clients.push(await summarizeCompany(supabase, company, clientTenantIds, today));
+  }
+
+  clients.sort((a, b) => {
+    if (a.is_client !== b.is_client) return a.is_client ? -1 : 1;
+    const aDue = a.next_vat_deadline?.days_until_due ?? Infinity;
+    const bDue = b.next_vat_deadline?.days_until_due ?? Infinity;
+    if (aDue !== bDue) return aDue - bDue;
+    return a.company_name.localeCompare(b.company_name);
+  });
+
+  return {
+    clients,
+    active_company_profile_id: activeCompanyProfileId,
+  };
+}
@@ -0,0 +1,406 @@
+/**
+ * Bank Balance Reconciliation
+ *
+ * Chains a bank account's statements by period and checks each one against the
+ * transactions on file: opening balance continuity with the previous statement, gaps
+ * and overlaps between periods, and the computed closing balance against the stated one.
+ * Where the bank supplied running balances, the first transaction that disagrees is
+ * pinpointed; otherwise transactions whose amount explains the difference are suggested.
+ */
+
+export interface StatementBalance {
+  id: string;
+  financial_document_id: string;
+  statement_number: string | null;
+  period_start: string;
+  period_end: string;
+  opening_balance: number;
+  closing_balance: number;
+}
+
+export interface BalanceTransaction {
+  id: string;
+  date: string;
+  amount: number;
+  is_debit: boolean | null;
+  original_description: string;
+  running_balance: number | null;
+}
+
+export interface BankReconciliationLock {
+  id: string;
+  period_start: string;
+  period_end: string;
+  statement_metadata_id: string | null;
+  opening_balance: number;
+  closing_balance: number;
+  notes: string | null;
+  locked_by: string | null;
+  locked_at: string;
+}
+
+export interface BalanceDivergence {
+  transaction_id: string;
+  date: string;
+  description: string;
+  computed_balance: number;
+  reported_balance: number;
+  difference: number;
+}
+
+export interface PeriodGap {
+  start: string;
+  end: string;
+  transaction_count: number;
+  net_movement: number;
+}
+
+export interface StatementReconciliation {
+  statement: StatementBalance;
+  /** Previous statement's closing balance plus any movement in the gap between them */
+  expected_opening_balance: number | null;
+  opening_difference: number;
+  transaction_count: number;
+  total_in: number;
+  total_out: number;
+  computed_closing_balance: number;
+  /** Computed minus stated closing balance */
+  closing_difference: number;
+  reconciled: boolean;
+  gap_before: PeriodGap | null;
+  /** Days this statement shares with the previous one */
+  overlap_days: number;
+  first_divergence: BalanceDivergence | null;
+  /** Transactions whose amount (or double it, for a sign error) equals the difference */
+  suspect_transaction_ids: string[];
+  lock: BankReconciliationLock | null;
+}
+
+export interface BankBalanceReconciliation {
+  bank_account_id: string;
+  statements: StatementReconciliation[];
+  locks: BankReconciliationLock[];
+  /** Transactions dated before the first statement or after the last one */
+  uncovered_before: number;
+  uncovered_after: number;
+  summary: {
+    statement_count: number;
+    reconciled_count: number;
+    gap_count: number;
+    overlap_count: number;
+    first_unreconciled_statement_id: string | null;
+  };
+}
+
+export const BALANCE_TOLERANCE = 0.01;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const PAGE_SIZE = 1000;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function dayNumber(date: string): number {
+  return Math.floor(new Date(`${date.slice(0, 10)}T00:00:00Z`).getTime() / DAY_MS);
+}
+
+function dateFromDayNumber(day: number): string {
+  return new Date(day * DAY_MS).toISOString().split('T')[0];
+}
+
+/**
+ * Signed effect of a transaction on the account balance (money out is negative)
+ */
+export function signedTransactionAmount(tx: Pick<BalanceTransaction, 'amount' | 'is_debit'>): number {
+  const amount = Math.abs(Number(tx.amount) || 0);
+  const isMoneyOut = tx.is_debit ?? Number(tx.amount) < 0;
+  return isMoneyOut ? -amount : amount;
+}
+
+/**
+ * Walk a statement's transactions from its opening balance and return the first one whose
+ * reported running balance disagrees with the computed one
+ */
+function findFirstDivergence(
+  openingBalance: number,
+  transactions: BalanceTransaction[],
+  tolerance: number
+): BalanceDivergence | null {
+  let balance = openingBalance;
+
+  for (const tx of transactions) {
+    balance = round2(balance + signedTransactionAmount(tx));
+    if (tx.running_balance === null || tx.running_balance === undefined) continue;
+
+    const reported = Number(tx.running_balance);
+    if (Math.abs(balance - reported) > tolerance) {
+      return {
+        transaction_id: tx.id,
+        date: tx.date,
+        description: tx.original_description,
+        computed_balance: balance,
+        reported_balance: reported,
+        difference: round2(balance - reported),
+      };
+    }
+  }
+
+  return null;
+}
+
+function findSuspects(transactions: BalanceTransaction[], difference: number, tolerance: number): string[] {
+  const target = Math.abs(difference);
+  if (target <= tolerance) return [];
+
+  return transactions
+    .filter((tx) => {
+      const amount = Math.abs(Number(tx.amount) || 0);
+      return Math.abs(amount - target) <= tolerance || Math.abs(amount * 2 - target) <= tolerance;
+    })
+    .map((tx) => tx.id);
+}
+
+/**
+ * Reconcile a chain of statements against the account's transactions.
+ * Transactions must be in statement order (date, then import order).
+ */
+export function reconcileStatementChain(
+  bankAccountId: string,
+  statements: StatementBalance[],
+  transactions: BalanceTransaction[],
+  locks: BankReconciliationLock[] = [],
+  tolerance: number = BALANCE_TOLERANCE
+): BankBalanceReconciliation {
+  const ordered = [...statements].sort(
+    (a, b) => a.period_start.localeCompare(b.period_start) || a.period_end.localeCompare(b.period_end)
+  );
+
+  const results: StatementReconciliation[] = [];
+  // First day not yet covered by an earlier statement, so overlapping days aren't counted twice
+  let nextUncoveredDay: number | null = null;
+  let previousClosing: number | null = null;
+  let txIndex = 0;
+
+  const firstStart = ordered.length > 0 ? dayNumber(ordered[0].period_start) : null;
+  let uncoveredBefore = 0;
+  while (firstStart !== null && txIndex < transactions.length && dayNumber(transactions[txIndex].date) < firstStart) {
+    uncoveredBefore++;
+    txIndex++;
+  }
+
+  for (const statement of ordered) {
+    const startDay = dayNumber(statement.period_start);
+    const endDay = dayNumber(statement.period_end);
+
+    let gapBefore: PeriodGap | null = null;
+    let overlapDays = 0;
+    let gapMovement = 0;
+
+    if (nextUncoveredDay !== null) {
+      if (startDay > nextUncoveredDay) {
+        const gapTransactions: BalanceTransaction[] = [];
+        while (txIndex < transactions.length && dayNumber(transactions[txIndex].date) < startDay) {
+          gapTransactions.push(transactions[txIndex]);
+          txIndex++;
+        }
+        gapMovement = round2(gapTransactions.reduce((sum, tx) => sum + signedTransactionAmount(tx), 0));
+        gapBefore = {
+          start: dateFromDayNumber(nextUncoveredDay),
+          end: dateFromDayNumber(startDay - 1),
+          transaction_count: gapTransactions.length,
+          net_movement: gapMovement,
+        };
+      } else if (startDay < nextUncoveredDay) {
+        overlapDays = Math.min(nextUncoveredDay, endDay + 1) - startDay;
+      }
+    }
+
+    const statementTransactions: BalanceTransaction[] = [];
+    while (txIndex < transactions.length && dayNumber(transactions[txIndex].date) <= endDay) {
+      statementTransactions.push(transactions[txIndex]);
+      txIndex++;
+    }
+
+    const opening = Number(statement.opening_balance);
+    const closing = Number(statement.closing_balance);
+    const totalIn = statementTransactions
+      .map(signedTransactionAmount)
+      .filter((amount) => amount > 0)
+      .reduce((sum, amount) => sum + amount, 0);
+    const totalOut = statementTransactions
+      .map(signedTransactionAmount)
+      .filter((amount) => amount < 0)
+      .reduce((sum, amount) => sum - amount, 0);
+    const computedClosing = round2(opening + totalIn - totalOut);
+    const closingDifference = round2(computedClosing - closing);
+
+    const expectedOpening = previousClosing === null ? null : round2(previousClosing + gapMovement);
+    const openingDifference = expectedOpening === null ? 0 : round2(opening - expectedOpening);
+
+    const reconciled =
+      Math.abs(closingDifference) <= tolerance &&
+      Math.abs(openingDifference) <= tolerance &&
+      overlapDays === 0;
+
+    const lock = locks.find(
+      (l) => l.period_start <= statement.period_start && l.period_end >= statement.period_end
+    ) || null;
+
+    results.push({
+      statement,
+      expected_opening_balance: expectedOpening,
+      opening_difference: openingDifference,
+      transaction_count: statementTransactions.length,
+      total_in: round2(totalIn),
+      total_out: round2(totalOut),
+      computed_closing_balance: computedClosing,
+      closing_difference: closingDifference,
+      reconciled,
+      gap_before: gapBefore,
+      overlap_days: overlapDays,
+      first_divergence: Math.abs(closingDifference) > tolerance
+        ? findFirstDivergence(opening, statementTransactions, tolerance)
+        : null,
+      suspect_transaction_ids: findSuspects(statementTransactions, closingDifference, tolerance),
+      lock,
+    });
+
+    previousClosing = closing;
+    nextUncoveredDay = Math.max(nextUncoveredDay ?? endDay + 1, endDay + 1);
+  }
+
+  const uncoveredAfter = transactions.length - txIndex;
+  const firstUnreconciled = results.find((r) => !r.reconciled);
+
+  return {
+    bank_account_id: bankAccountId,
+    statements: results,
+    locks,
+    uncovered_before: uncoveredBefore,
+    uncovered_after: uncoveredAfter,
+    summary: {
+      statement_count: results.length,
+      reconciled_count: results.filter((r) => r.reconciled).length,
+      gap_count: results.filter((r) => r.gap_before).length,
+      overlap_count: results.filter((r) => r.overlap_days > 0).length,
+      first_unreconciled_statement_id: firstUnreconciled?.statement.id || null,
+    },
+  };
+}
+
+/**
+ * Load a bank account's statements, transactions and locks and reconcile them.
+ * Breakdown entries and invoice-derived rows are excluded - they never hit the bank.
+ */
+export async function loadBankBalanceReconciliation(
+  supabase: any,
+  bankAccountId: string,
+  tolerance: number = BALANCE_TOLERANCE
+): Promise<BankBalanceReconciliation> {
+  const { data: statements, error: statementError } = await supabase
+    .from('bank_statement_metadata')
+    .select('id, financial_document_id, statement_number, period_start, period_end, opening_balance, closing_balance')
+    .eq('bank_account_id', bankAccountId)
+    .order('period_start', { ascending: true });
+
+  if (statementError) {
+    throw new Error(statementError.message || 'Failed to load bank statements');
+  }
+
+  const { data: locks, error: lockError } = await supabase
+    .from('bank_reconciliation_locks')
+    .select('id, period_start, period_end, statement_metadata_id, opening_balance, closing_balance, notes, locked_by, locked_at')
+    .eq('bank_account_id', bankAccountId)
+    .order('period_start', { ascending: true });
+
+  if (lockError) {
+    throw new Error(lockError.message || 'Failed to load reconciliation locks');
+  }
+
+  const transactions: BalanceTransaction[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('categorized_transactions')
+      .select('id, date, amount, is_debit, original_description, running_balance, document_id, is_breakdown_entry')
+      .eq('bank_account_id', bankAccountId)
+      .order('date', { ascending: true })
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(error.message || 'Failed to load bank transactions');
+    }
+
+    for (const tx of data || []) {
+      if (tx.is_breakdown_entry || tx.document_id) continue;
+      transactions.push({
+        id: tx.id,
+        date: tx.date,
+        amount: Number(tx.amount),
+        is_debit: tx.is_debit,
+        original_description: tx.original_description,
+        running_balance: tx.running_balance === null ? null : Number(tx.running_balance),
+      });
+    }
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return reconcileStatementChain(
+    bankAccountId,
+    (statements || []).map((s: any) => ({
+      ...s,
+      opening_balance: Number(s.opening_balance),
+      closing_balance: Number(s.closing_balance),
+    })),
+    transactions,
+    locks || [],
+    tolerance
+  );
+}
+
+/**
+ * Why a period can't be locked yet, or null when every statement in it reconciles
+ * and the statements cover it without gaps
+ */
+export function getLockBlocker(
+  reconciliation: BankBalanceReconciliation,
+  periodStart: string,
+  periodEnd: string
+): string | null {
+  const inPeriod = reconciliation.statements.filter(
+    (r) => r.statement.period_start >= periodStart && r.statement.period_end <= periodEnd
+  );
+
+  if (inPeriod.length === 0) {
+    return 'No statements fall within this period';
+  }
+  if (inPeriod[0].statement.period_start !== periodStart || inPeriod[inPeriod.length - 1].statement.period_end !== periodEnd) {
+    return 'The period must start and end on statement boundaries';
+  }
+
+  for (const [index, result] of inPeriod.entries()) {
+    const label = result.statement.statement_number || `${result.statement.period_start} to ${result.statement.period_end}`;
+    if (index > 0 && result.gap_before) {
+      return `Statements are missing between ${result.gap_before.start} and ${result.gap_before.end}`;
+    }
+    // The first statement's opening is agreed on its own; continuity before the period is not required
+    const balances = index === 0
+      ? Math.abs(result.closing_difference) <= BALANCE_TOLERANCE
+      : result.reconciled;
+    if (!balances) {
+      return `Statement ${label} does not reconcile`;
+    }
+  }
+
+  const overlapping = reconciliation.locks.find(
+    (lock) => lock.period_start <= periodEnd && lock.period_end >= periodStart
+  );
+  if (overlapping) {
+    return `Period overlaps an existing lock (${overlapping.period_start} to ${overlapping.period_end})`;
+  }
+
+  return null;
+}
@@ -0,0 +1,110 @@
+/**
+ * Sales Invoice Payment Matching
+ *
+ * Customers pay on their own terms, often weeks after the invoice, so the date-window matching
+ * used for bills misses most receipts. Money received is matched to an open sales invoice when
+ * its description quotes the invoice number (the payment may be partial), or when it is exactly
+ * the amount still owed and mentions the customer's name. Ambiguous receipts are left alone.
+ */
+
+import { calculateVendorMatch } from '@/lib/ai/invoice-matcher';
+import { DEFAULT_MATCH_TOLERANCE, documentOutstanding, type MatchableDocument, type MatchableTransaction } from './match-groups';
+
+export interface OpenSalesInvoice extends MatchableDocument {
+  invoice_number?: string | null;
+  document_number?: string | null;
+}
+
+export interface InvoicePaymentMatch {
+  transaction_id: string;
+  document_id: string;
+  reason: 'invoice_number' | 'amount_and_customer';
+}
+
+/** Customer name similarity needed when only the amount ties a receipt to an invoice */
+const CUSTOMER_MATCH_THRESHOLD = 0.8;
+
+function normalise(text: string): string {
+  return text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Whether text quotes an invoice number, ignoring spacing and punctuation
+ * ("INV 0042" and "inv-0042" both quote INV-0042, but "INV-00421" does not)
+ */
+export function mentionsInvoiceNumber(text: string | null | undefined, invoiceNumber: string | null | undefined): boolean {
+  if (!text || !invoiceNumber) return false;
+  const needle = normalise(invoiceNumber);
+  // Bare short numbers like "12" turn up in too many descriptions to mean anything
+  if (needle.length < 4) return false;
+
+  const haystack = normalise(text);
+  const isDigit = (char: string | undefined) => char !== undefined && char >= '0' && char <= '9';
+  for (let index = haystack.indexOf(needle); index !== -1; index = haystack.indexOf(needle, index + 1)) {
+    const before = haystack[index - 1];
+    const after = haystack[index + needle.length];
+    if (isDigit(after)) continue;
+    if (isDigit(needle[0]) && isDigit(before)) continue;
+    return true;
+  }
+  return false;
+}
+
+/**
+ * The single open invoice a receipt pays, or null when none or several fit
+ */
+export function findInvoiceForPayment(
+  transaction: MatchableTransaction & { reference_number?: string | null },
+  invoices: OpenSalesInvoice[],
+  tolerance: number = DEFAULT_MATCH_TOLERANCE
+): { document_id: string; reason: InvoicePaymentMatch['reason'] } | null {
+  const received = Math.abs(Number(transaction.amount) || 0);
+  if (received === 0) return null;
+
+  // Paid no earlier than invoiced, and for no more than is still owed
+  const eligible = invoices.filter((invoice) =>
+    (!invoice.document_date || invoice.document_date <= transaction.date) &&
+    documentOutstanding(invoice) > 0 &&
+    received <= documentOutstanding(invoice) + tolerance
+  );
+
+  const text = [transaction.original_description, transaction.reference_number].filter(Boolean).join(' ');
+  const byNumber = eligible.filter((invoice) =>
+    mentionsInvoiceNumber(text, invoice.invoice_number || invoice.document_number)
+  );
+  if (byNumber.length === 1) return { document_id: byNumber[0].id, reason: 'invoice_number' };
+  if (byNumber.length > 1) return null;
+
+  const byAmount = eligible.filter((invoice) =>
+    Math.abs(documentOutstanding(invoice) - received) <= tolerance &&
+    calculateVendorMatch(transaction.original_description, invoice.vendor_name) >= CUSTOMER_MATCH_THRESHOLD
+  );
+  if (byAmount.length === 1) return { document_id: byAmount[0].id, reason: 'amount_and_customer' };
+
+  return null;
+}
+
+/**
+ * Match receipts to open invoices, oldest receipt first. Each match reduces what is still owed,
+ * so several instalments can settle one invoice without over-paying it.
+ */
+export function matchPaymentsToInvoices(
+  transactions: Array<MatchableTransaction & { reference_number?: string | null }>,
+  invoices: OpenSalesInvoice[],
+  tolerance: number = DEFAULT_MATCH_TOLERANCE
+): InvoicePaymentMatch[] {
+  const open = invoices.map((invoice) => ({ ...invoice, amount_paid: Number(invoice.amount_paid) || 0 }));
+  const matches: InvoicePaymentMatch[] = [];
+
+  const ordered = [...transactions].sort((a, b) => a.date.localeCompare(b.date));
+  for (const transaction of ordered) {
+    const match = findInvoiceForPayment(transaction, open, tolerance);
+    if (!match) continue;
+
+    const invoice = open.find((candidate) => candidate.id === match.document_id)!;
+    invoice.amount_paid += Math.abs(Number(transaction.amount) || 0);
+    matches.push({ transaction_id: transaction.id, ...match });
+  }
+
+  return matches;
+}
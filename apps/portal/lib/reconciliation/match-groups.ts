@@ -0,0 +1,411 @@
+/**
+ * Reconciliation Match Groups
+ *
+ * Many-to-many reconciliation: a group ties M bank transactions to N documents whose
+ * allocations balance within a tolerance. Covers one payment settling several invoices,
+ * an invoice paid in instalments, and an invoice paid net of card fees (written off).
+ */
+
+import { calculateVendorMatch } from '@/lib/ai/invoice-matcher';
+import { scopeToBooks, type BooksScope } from '@/lib/books/scope';
+
+export interface MatchableTransaction {
+  id: string;
+  date: string;
+  amount: number;
+  original_description: string;
+  bank_account_id?: string | null;
+}
+
+export interface MatchableDocument {
+  id: string;
+  document_date: string | null;
+  total_amount: number | null;
+  amount_paid?: number | null;
+  vendor_name?: string | null;
+  original_filename?: string | null;
+  bank_account_id?: string | null;
+}
+
+export interface DocumentAllocation {
+  document_id: string;
+  amount: number;
+}
+
+export interface MatchGroupPlan {
+  transactionsTotal: number;
+  outstandingTotal: number;
+  allocations: DocumentAllocation[];
+  /** Shortfall accepted as paid (card fees etc.); booked against the last document */
+  writeOffAmount: number;
+  /** True when at least one document is left partly unpaid */
+  partial: boolean;
+}
+
+export interface MatchGroupCandidate {
+  transaction_ids: string[];
+  document_ids: string[];
+  transactions_total: number;
+  documents_total: number;
+  /** Transactions minus documents; negative means a shortfall (e.g. fees deducted) */
+  difference: number;
+  score: number;
+}
+
+export interface CandidateSearchOptions {
+  tolerance?: number;
+  /** Largest shortfall (percent of the target) still offered, for payments net of card fees */
+  maxShortfallPercent?: number;
+  /** How far from the anchor's date the other side may be */
+  dateWindowDays?: number;
+  maxGroupSize?: number;
+  maxResults?: number;
+}
+
+export const DEFAULT_MATCH_TOLERANCE = 0.01;
+
+const DEFAULT_DATE_WINDOW_DAYS = 60;
+const DEFAULT_MAX_GROUP_SIZE = 6;
+const DEFAULT_MAX_RESULTS = 5;
+/** Node budget for one subset-sum search, so pathological inputs can't stall a request */
+const SUBSET_SEARCH_NODE_LIMIT = 50000;
+/** Candidate pool per search; the closest items by date are kept */
+const SUBSET_SEARCH_POOL_SIZE = 40;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+function toPence(amount: number): number {
+  return Math.round(Math.abs(amount) * 100);
+}
+
+function fromPence(pence: number): number {
+  return pence / 100;
+}
+
+function daysBetween(a: string | null, b: string | null): number | null {
+  if (!a || !b) return null;
+  return Math.abs(Math.round((new Date(a).getTime() - new Date(b).getTime()) / DAY_MS));
+}
+
+/**
+ * Amount still to be paid on a document
+ */
+export function documentOutstanding(doc: MatchableDocument): number {
+  const total = Math.abs(Number(doc.total_amount) || 0);
+  const paid = Math.abs(Number(doc.amount_paid) || 0);
+  return Math.max(0, Math.round((total - paid) * 100) / 100);
+}
+
+/**
+ * Find subsets of items whose amounts sum into [minTarget, maxTarget] (in pence).
+ * Depth-first over amounts sorted descending, pruned by running and remaining sums.
+ */
+export function findSubsetSums(
+  items: Array<{ id: string; pence: number }>,
+  minTarget: number,
+  maxTarget: number,
+  options: { maxSize?: number; maxResults?: number } = {}
+): string[][] {
+  const maxSize = options.maxSize ?? DEFAULT_MAX_GROUP_SIZE;
+  const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+  const sorted = items.filter((item) => item.pence > 0 && item.pence <= maxTarget)
+    .sort((a, b) => b.pence - a.pence);
+
+  // remaining[i] = sum of sorted[i..]
+  const remaining = new Array<number>(sorted.length + 1).fill(0);
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    remaining[i] = remaining[i + 1] + sorted[i].pence;
+  }
+
+  const results: string[][] = [];
+  const chosen: string[] = [];
+  let nodes = 0;
+
+  const search = (start: number, sum: number) => {
+    if (results.length >= maxResults || nodes++ > SUBSET_SEARCH_NODE_LIMIT) return;
+    if (sum >= minTarget && sum <= maxTarget && chosen.length > 0) {
+      results.push([...chosen]);
+      return;
+    }
+    if (chosen.length >= maxSize) return;
+
+    for (let i = start; i < sorted.length; i++) {
+      // Even taking everything left cannot reach the target
+      if (sum + remaining[i] < minTarget) return;
+      const next = sum + sorted[i].pence;
+      if (next > maxTarget) continue;
+      // Skip equal amounts already tried at this depth (same subset sums)
+      if (i > start && sorted[i].pence === sorted[i - 1].pence) continue;
+
+      chosen.push(sorted[i].id);
+      search(i + 1, next);
+      chosen.pop();
+      if (results.length >= maxResults) return;
+    }
+  };
+
+  search(0, 0);
+  return results;
+}
+
+/**
+ * Allocate transactions across documents (oldest first).
+ * Without a write-off, any shortfall leaves the last documents partly paid.
+ */
+export function planMatchGroup(
+  transactions: MatchableTransaction[],
+  documents: MatchableDocument[],
+  options: { tolerance?: number; writeOffShortfall?: boolean } = {}
+): { plan: MatchGroupPlan; error?: undefined } | { plan?: undefined; error: string } {
+  const tolerance = options.tolerance ?? DEFAULT_MATCH_TOLERANCE;
+
+  if (transactions.length === 0 || documents.length === 0) {
+    return { error: 'Select at least one transaction and one document' };
+  }
+
+  const transactionsPence = transactions.reduce((sum, tx) => sum + toPence(tx.amount), 0);
+  const ordered = [...documents].sort((a, b) =>
+    (a.document_date || '').localeCompare(b.document_date || '')
+  );
+  const outstanding = ordered.map((doc) => toPence(documentOutstanding(doc)));
+  const outstandingPence = outstanding.reduce((sum, value) => sum + value, 0);
+  const tolerancePence = Math.round(tolerance * 100);
+
+  const unpaid = ordered.find((_, index) => outstanding[index] === 0);
+  if (unpaid) {
+    return { error: `${unpaid.vendor_name || unpaid.original_filename || 'A document'} is already paid in full` };
+  }
+  if (transactionsPence > outstandingPence + tolerancePence) {
+    return {
+      error: `Transactions exceed the documents' outstanding total by ${fromPence(transactionsPence - outstandingPence).toFixed(2)}`,
+    };
+  }
+
+  const allocations: DocumentAllocation[] = [];
+  let remainingPence = transactionsPence;
+  ordered.forEach((doc, index) => {
+    // The last document absorbs any difference inside the tolerance
+    const amount = index === ordered.length - 1 ? remainingPence : Math.min(outstanding[index], remainingPence);
+    remainingPence -= amount;
+    allocations.push({ document_id: doc.id, amount: fromPence(amount) });
+  });
+
+  const empty = allocations.find((allocation) => allocation.amount <= 0);
+  if (empty) {
+    return { error: 'The transactions do not reach every selected document; remove the documents left with nothing allocated' };
+  }
+
+  // Earlier documents are paid in full, so any shortfall sits on the last one
+  const shortfallPence = outstandingPence - transactionsPence;
+  const writeOffPence = options.writeOffShortfall && shortfallPence > tolerancePence ? shortfallPence : 0;
+
+  return {
+    plan: {
+      transactionsTotal: fromPence(transactionsPence),
+      outstandingTotal: fromPence(outstandingPence),
+      allocations,
+      writeOffAmount: fromPence(writeOffPence),
+      partial: shortfallPence > tolerancePence && writeOffPence === 0,
+    },
+  };
+}
+
+function scoreCandidate(
+  transactions: MatchableTransaction[],
+  documents: MatchableDocument[],
+  differencePence: number,
+  targetPence: number
+): number {
+  // Amount (50): exact scores full marks, shortfalls lose marks proportionally
+  const amountScore = 50 * (1 - Math.min(1, Math.abs(differencePence) / Math.max(targetPence * 0.05, 1)));
+
+  // Dates (30): how tightly the documents and transactions cluster
+  const dates = [...transactions.map((tx) => tx.date), ...documents.map((doc) => doc.document_date)]
+    .filter(Boolean) as string[];
+  const times = dates.map((date) => new Date(date).getTime());
+  const spreadDays = times.length > 1 ? (Math.max(...times) - Math.min(...times)) / DAY_MS : 0;
+  const dateScore = spreadDays <= 7 ? 30 : spreadDays <= 30 ? 20 : spreadDays <= 60 ? 10 : 0;
+
+  // Vendor (20): average best similarity of each document to any transaction
+  const vendorMatches = documents.map((doc) =>
+    Math.max(...transactions.map((tx) => calculateVendorMatch(tx.original_description, doc.vendor_name)))
+  );
+  const vendorScore = 20 * (vendorMatches.reduce((sum, value) => sum + value, 0) / vendorMatches.length);
+
+  // Smaller groups are more plausible than large coincidental sums
+  const sizePenalty = (transactions.length + documents.length - 2) * 2;
+
+  return Math.max(0, Math.round((amountScore + dateScore + vendorScore - sizePenalty) * 10) / 10);
+}
+
+function searchLimits(targetPence: number, options: CandidateSearchOptions): { tolerancePence: number; shortfallPence: number } {
+  const tolerancePence = Math.round((options.tolerance ?? DEFAULT_MATCH_TOLERANCE) * 100);
+  const shortfallPence = Math.round(targetPence * (options.maxShortfallPercent ?? 0) / 100);
+  return { tolerancePence, shortfallPence: Math.max(tolerancePence, shortfallPence) };
+}
+
+/**
+ * One payment settling several documents: subsets of documents summing to the transaction
+ */
+export function findDocumentGroupsForTransaction(
+  transaction: MatchableTransaction,
+  documents: MatchableDocument[],
+  options: CandidateSearchOptions = {}
+): MatchGroupCandidate[] {
+  const windowDays = options.dateWindowDays ?? DEFAULT_DATE_WINDOW_DAYS;
+  const targetPence = toPence(transaction.amount);
+  if (targetPence === 0) return [];
+
+  const pool = documents
+    .map((doc) => ({ doc, days: daysBetween(doc.document_date, transaction.date) }))
+    .filter(({ doc, days }) => documentOutstanding(doc) > 0 && (days === null || days <= windowDays))
+    .sort((a, b) => (a.days ?? windowDays) - (b.days ?? windowDays))
+    .slice(0, SUBSET_SEARCH_POOL_SIZE)
+    .map(({ doc }) => doc);
+  const byId = new Map(pool.map((doc) => [doc.id, doc]));
+
+  // Documents are the side that may exceed the payment (fees deducted), so search up to target + shortfall
+  const { tolerancePence, shortfallPence } = searchLimits(targetPence, options);
+  const subsets = findSubsetSums(
+    pool.map((doc) => ({ id: doc.id, pence: toPence(documentOutstanding(doc)) })),
+    targetPence - tolerancePence,
+    targetPence + shortfallPence,
+    { maxSize: options.maxGroupSize, maxResults: options.maxResults }
+  );
+
+  return subsets
+    .map((ids) => {
+      const docs = ids.map((id) => byId.get(id)!);
+      const documentsPence = docs.reduce((sum, doc) => sum + toPence(documentOutstanding(doc)), 0);
+      const differencePence = targetPence - documentsPence;
+      return {
+        transaction_ids: [transaction.id],
+        document_ids: ids,
+        transactions_total: fromPence(targetPence),
+        documents_total: fromPence(documentsPence),
+        difference: fromPence(differencePence),
+        score: scoreCandidate([transaction], docs, differencePence, targetPence),
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Instalments or split payments: subsets of transactions summing to a document's outstanding amount
+ */
+export function findTransactionGroupsForDocument(
+  document: MatchableDocument,
+  transactions: MatchableTransaction[],
+  options: CandidateSearchOptions = {}
+): MatchGroupCandidate[] {
+  const windowDays = options.dateWindowDays ?? DEFAULT_DATE_WINDOW_DAYS;
+  const targetPence = toPence(documentOutstanding(document));
+  if (targetPence === 0) return [];
+
+  const pool = transactions
+    .map((tx) => ({ tx, days: daysBetween(tx.date, document.document_date) }))
+    .filter(({ tx, days }) => toPence(tx.amount) > 0 && (days === null || days <= windowDays))
+    .sort((a, b) => (a.days ?? windowDays) - (b.days ?? windowDays))
+    .slice(0, SUBSET_SEARCH_POOL_SIZE)
+    .map(({ tx }) => tx);
+  const byId = new Map(pool.map((tx) => [tx.id, tx]));
+
+  const { tolerancePence, shortfallPence } = searchLimits(targetPence, options);
+  const subsets = findSubsetSums(
+    pool.map((tx) => ({ id: tx.id, pence: toPence(tx.amount) })),
+    targetPence - shortfallPence,
+    targetPence + tolerancePence,
+    { maxSize: options.maxGroupSize, maxResults: options.maxResults }
+  );
+
+  return subsets
+    .map((ids) => {
+      const txs = ids.map((id) => byId.get(id)!);
+      const transactionsPence = txs.reduce((sum, tx) => sum + toPence(tx.amount), 0);
+      const differencePence = transactionsPence - targetPence;
+      return {
+        transaction_ids: ids,
+        document_ids: [document.id],
+        transactions_total: fromPence(transactionsPence),
+        documents_total: fromPence(targetPence),
+        difference: fromPence(differencePence),
+        score: scoreCandidate(txs, [document], differencePence, targetPence),
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Load the selected transactions and documents, plan the allocation and create the group.
+ * Validation problems come back as an error message; the RPC re-checks everything atomically.
+ */
+export async function createMatchGroup(
+  supabase: any,
+  scope: BooksScope,
+  transactionIds: string[],
+  documentIds: string[],
+  options: { tolerance?: number; writeOffShortfall?: boolean; source?: 'manual' | 'auto'; notes?: string | null } = {}
+): Promise<{ groupId: string; plan: MatchGroupPlan; error?: undefined } | { groupId?: undefined; plan?: undefined; error: string }> {
+  const { data: transactions, error: txError } = await scopeToBooks(
+    supabase
+      .from('categorized_transactions')
+      .select('id, date, amount, original_description, bank_account_id, company_profile_id, reconciliation_status, match_group_id')
+      .in('id', transactionIds),
+    scope
+  );
+
+  if (txError) {
+    throw new Error(txError.message || 'Failed to load transactions');
+  }
+  if (!transactions || transactions.length !== new Set(transactionIds).size) {
+    return { error: 'Some transactions were not found' };
+  }
+  const reconciled = transactions.find((tx: any) => tx.reconciliation_status !== 'unreconciled' || tx.match_group_id);
+  if (reconciled) {
+    return { error: `"${reconciled.original_description}" is already reconciled` };
+  }
+
+  const { data: documents, error: docError } = await scopeToBooks(
+    supabase
+      .from('financial_documents')
+      .select('id, document_date, total_amount, amount_paid, vendor_name, original_filename, bank_account_id, company_profile_id')
+      .in('id', documentIds),
+    scope
+  );
+
+  if (docError) {
+    throw new Error(docError.message || 'Failed to load documents');
+  }
+  if (!documents || documents.length !== new Set(documentIds).size) {
+    return { error: 'Some documents were not found' };
+  }
+
+  const companies = new Set([...transactions, ...documents].map((row: any) => row.company_profile_id));
+  if (companies.size > 1) {
+    return { error: 'Transactions and documents must belong to the same company' };
+  }
+
+  const tolerance = options.tolerance ?? DEFAULT_MATCH_TOLERANCE;
+  const { plan, error } = planMatchGroup(transactions, documents, {
+    tolerance,
+    writeOffShortfall: options.writeOffShortfall,
+  });
+  if (!plan) {
+    return { error };
+  }
+
+  const { data: groupId, error: rpcError } = await supabase.rpc('create_reconciliation_match_group', {
+    p_transaction_ids: transactions.map((tx: any) => tx.id),
+    p_document_allocations: plan.allocations,
+    p_tolerance: tolerance,
+    p_write_off_amount: plan.writeOffAmount,
+    p_source: options.source || 'manual',
+    p_notes: options.notes || null,
+  });
+
+  if (rpcError) {
+    return { error: rpcError.message || 'Failed to create match group' };
+  }
+
+  return { groupId, plan };
+}
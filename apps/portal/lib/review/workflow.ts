@@ -0,0 +1,102 @@
+/**
+ * Transaction Review Workflow
+ *
+ * Transactions move draft -> categorized -> reviewed -> approved -> locked. Editing sends
+ * reviewed or approved work back to categorized, and the approver must be someone other than
+ * whoever last edited or reviewed the transaction (maker/checker). The rules are enforced in
+ * the database by transition_transaction_review(); this module is the typed wrapper.
+ */
+
+export const REVIEW_STATUSES = ['draft', 'categorized', 'reviewed', 'approved', 'locked'] as const;
+
+export type ReviewStatus = typeof REVIEW_STATUSES[number];
+
+/** Statuses a transition can move transactions to; 'categorized' sends work back */
+export type ReviewTransition = 'reviewed' | 'approved' | 'locked' | 'categorized';
+
+export type BooksPermission =
+  | 'transactions.read'
+  | 'transactions.write'
+  | 'transactions.review'
+  | 'transactions.approve'
+  | 'periods.lock';
+
+export type ReviewSkipReason =
+  | 'not_found'
+  | 'permission_denied'
+  | 'invalid_transition'
+  | 'approver_is_editor';
+
+export interface ReviewTransitionResult {
+  updated: number;
+  skipped: { id: string; reason: ReviewSkipReason }[];
+}
+
+export const REVIEW_SKIP_MESSAGES: Record<ReviewSkipReason, string> = {
+  not_found: 'Transaction not found',
+  permission_denied: 'You do not have permission to do this',
+  invalid_transition: 'Transaction is not in a state that allows this',
+  approver_is_editor: 'You edited or reviewed this transaction, so someone else must approve it',
+};
+
+/**
+ * Move transactions to a review status. Transactions the user cannot move are reported in
+ * `skipped` rather than failing the whole batch.
+ */
+export async function transitionTransactionReview(
+  supabase: any,
+  transactionIds: string[],
+  status: ReviewTransition,
+  note?: string | null
+): Promise<ReviewTransitionResult> {
+  const { data, error } = await supabase.rpc('transition_transaction_review', {
+    p_transaction_ids: transactionIds,
+    p_status: status,
+    p_note: note || null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to update review status: ${error.message}`);
+  }
+
+  return {
+    updated: data?.updated || 0,
+    skipped: data?.skipped || [],
+  };
+}
+
+/**
+ * Bookkeeping permissions the current user holds on a company's books
+ */
+export async function getBooksPermissions(
+  supabase: any,
+  companyProfileId: string
+): Promise<BooksPermission[]> {
+  const { data, error } = await supabase.rpc('books_permissions', {
+    p_company_profile_id: companyProfileId,
+  });
+
+  if (error) {
+    console.warn('Failed to load books permissions:', error);
+    return [];
+  }
+
+  return (data || []) as BooksPermission[];
+}
+
+/**
+ * Whether `userId` may approve a transaction: they hold transactions.approve and did not
+ * make or review the change themselves.
+ */
+export function canApproveTransaction(
+  transaction: { review_status: string; last_edited_by: string | null; reviewed_by: string | null },
+  userId: string,
+  permissions: BooksPermission[]
+): boolean {
+  return (
+    transaction.review_status === 'reviewed' &&
+    permissions.includes('transactions.approve') &&
+    transaction.last_edited_by !== userId &&
+    transaction.reviewed_by !== userId
+  );
+}
@@ -0,0 +1,77 @@
+/**
+ * Sales Invoice Branding
+ *
+ * Who the invoice is from and how it looks: the company's legal details from its profile, with
+ * colours and email sender settings from its tenant's white-label settings (tenants.branding,
+ * theme_settings and email_settings). The white-label server actions in @tinadmin/core resolve
+ * the signed-in user's tenant, so the columns are read here for the invoicing company's tenant.
+ */
+
+export interface InvoiceBranding {
+  tenantId: string | null;
+  companyName: string;
+  addressLines: string[];
+  email: string | null;
+  phone: string | null;
+  website: string | null;
+  vatNumber: string | null;
+  companyNumber: string | null;
+  /** Hex colour for the invoice header and email accents */
+  primaryColor: string;
+  fromName: string;
+  fromEmail: string | null;
+  replyTo: string | null;
+  emailFooter: string | null;
+}
+
+export const DEFAULT_INVOICE_COLOR = "#2563eb";
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+function addressLines(address: any): string[] {
+  if (!address || typeof address !== "object") return [];
+  return [address.street, address.line1, address.line2, address.city, address.postcode, address.country]
+    .filter((part) => typeof part === "string" && part.trim().length > 0)
+    .map((part: string) => part.trim());
+}
+
+export async function getInvoiceBranding(supabase: any, companyProfileId: string): Promise<InvoiceBranding> {
+  const { data: company, error } = await supabase
+    .from("company_profiles")
+    .select("company_name, company_number, vat_registered, vat_number, address, contact_details, tenant_id")
+    .eq("id", companyProfileId)
+    .single();
+
+  if (error || !company) {
+    throw new Error(error?.message || "Company not found");
+  }
+
+  let tenant: any = null;
+  if (company.tenant_id) {
+    const { data } = await supabase
+      .from("tenants")
+      .select("branding, theme_settings, email_settings")
+      .eq("id", company.tenant_id)
+      .maybeSingle();
+    tenant = data;
+  }
+
+  const contact = company.contact_details || {};
+  const color = tenant?.branding?.primaryColor || tenant?.theme_settings?.primaryColor;
+
+  return {
+    tenantId: company.tenant_id || null,
+    companyName: company.company_name,
+    addressLines: addressLines(company.address),
+    email: contact.email || null,
+    phone: contact.phone || null,
+    website: contact.website || null,
+    vatNumber: company.vat_registered ? company.vat_number || null : null,
+    companyNumber: company.company_number || null,
+    primaryColor: typeof color === "string" && HEX_COLOR.test(color) ? color : DEFAULT_INVOICE_COLOR,
+    fromName: tenant?.email_settings?.fromName || company.company_name,
+    fromEmail: tenant?.email_settings?.fromEmail || null,
+    replyTo: tenant?.email_settings?.replyTo || contact.email || tenant?.branding?.supportEmail || null,
+    emailFooter: tenant?.email_settings?.footerText || null,
+  };
+}
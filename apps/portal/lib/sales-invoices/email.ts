@@ -0,0 +1,110 @@
+/**
+ * Sales Invoice Email
+ *
+ * Sends an issued invoice to the customer through the platform email service, with the PDF
+ * attached. The sender name, reply-to address and footer follow the tenant's white-label
+ * email settings; the service itself applies the tenant's custom sending domain.
+ */
+
+import { sendEmail, type SendEmailResult } from "@tinadmin/core/email";
+import type { InvoiceBranding } from "./branding";
+import { formatInvoiceMoney } from "./pdf";
+import type { SalesInvoice } from "./invoices";
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export function buildInvoiceEmail(
+  invoice: SalesInvoice,
+  branding: InvoiceBranding,
+  message: string | null
+): { subject: string; html: string; text: string } {
+  const number = invoice.invoice_number || "";
+  const total = formatInvoiceMoney(invoice.total_amount, invoice.currency);
+  const due = invoice.due_date ? formatDate(invoice.due_date) : null;
+  const intro = message?.trim() || `Please find attached invoice ${number} for ${total}.`;
+
+  const summary: Array<[string, string]> = [
+    ["Invoice number", number],
+    ["Amount due", total],
+  ];
+  if (due) summary.push(["Due date", due]);
+  if (invoice.reference) summary.push(["Reference", invoice.reference]);
+
+  const html = `
+    <div style="font-family: Helvetica, Arial, sans-serif; color: #1f2937; max-width: 560px;">
+      <div style="border-top: 6px solid ${branding.primaryColor}; padding-top: 16px;">
+        <h2 style="margin: 0 0 16px; color: ${branding.primaryColor};">${escapeHtml(branding.companyName)}</h2>
+      </div>
+      <p>Dear ${escapeHtml(invoice.customer_name)},</p>
+      ${intro.split(/\r?\n/).map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`).join("")}
+      <table style="border-collapse: collapse; margin: 16px 0;">
+        ${summary.map(([label, value]) =>
+          `<tr><td style="padding: 2px 16px 2px 0; color: #6b7280;">${escapeHtml(label)}</td><td style="padding: 2px 0; font-weight: bold;">${escapeHtml(value)}</td></tr>`
+        ).join("")}
+      </table>
+      <p>Kind regards,<br />${escapeHtml(branding.companyName)}</p>
+      ${branding.emailFooter ? `<p style="font-size: 12px; color: #6b7280;">${escapeHtml(branding.emailFooter)}</p>` : ""}
+    </div>
+  `;
+
+  const text = [
+    `Dear ${invoice.customer_name},`,
+    "",
+    intro,
+    "",
+    ...summary.map(([label, value]) => `${label}: ${value}`),
+    "",
+    "Kind regards,",
+    branding.companyName,
+    ...(branding.emailFooter ? ["", branding.emailFooter] : []),
+  ].join("\n");
+
+  return { subject: `Invoice ${number} from ${branding.companyName}`, html, text };
+}
+
+/**
+ * Email an issued invoice with its PDF attached
+ */
+export async function sendSalesInvoiceEmail(
+  invoice: SalesInvoice,
+  branding: InvoiceBranding,
+  pdf: Buffer,
+  options: { to: string; message?: string | null }
+): Promise<SendEmailResult> {
+  const { subject, html, text } = buildInvoiceEmail(invoice, branding, options.message || null);
+  const fromEmail = branding.fromEmail || process.env.EMAIL_FROM_ADDRESS || "noreply@example.com";
+
+  return sendEmail({
+    to: options.to,
+    from: { email: fromEmail, name: branding.fromName },
+    replyTo: branding.replyTo || undefined,
+    subject,
+    html,
+    text,
+    attachments: [
+      {
+        filename: `${invoice.invoice_number}.pdf`,
+        content: pdf,
+        contentType: "application/pdf",
+      },
+    ],
+    tags: { type: "sales_invoice" },
+    metadata: { sales_invoice_id: invoice.id },
+    tenantId: branding.tenantId || undefined,
+  });
+}
@@ -0,0 +1,479 @@
+/**
+ * Sales Invoicing
+ *
+ * Outgoing invoices raised in the app. Drafts can be edited freely and have no number. Issuing
+ * takes the next number from the company's sequence (issue_sales_invoice) and creates a sales
+ * invoice document, which from then on carries the ledger posting, ageing and payment status.
+ */
+
+import { VAT_CODES, type VatCode } from "@/lib/vat/codes";
+
+export type SalesInvoiceStatus = "draft" | "issued" | "void";
+
+/** Status as shown to users: issued invoices are refined by delivery, payment and due date */
+export type SalesInvoiceDisplayStatus =
+  | "draft"
+  | "issued"
+  | "sent"
+  | "overdue"
+  | "partially_paid"
+  | "paid"
+  | "void";
+
+export const SALES_INVOICE_STATUS_LABELS: Record<SalesInvoiceDisplayStatus, string> = {
+  draft: "Draft",
+  issued: "Issued",
+  sent: "Sent",
+  overdue: "Overdue",
+  partially_paid: "Part paid",
+  paid: "Paid",
+  void: "Void",
+};
+
+/** VAT codes that make sense on a sale; EC acquisitions only arise on purchases */
+export const SALES_VAT_CODES: VatCode[] = ["standard", "reduced", "zero", "exempt", "outside_scope", "reverse_charge"];
+
+export interface SalesInvoiceLineInput {
+  description: string;
+  quantity: number;
+  unit_price: number;
+  vat_code: VatCode;
+  /** Defaults to the code's standard rate */
+  vat_rate?: number | null;
+}
+
+export interface SalesInvoiceLine {
+  line_number: number;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  vat_code: VatCode;
+  vat_rate: number;
+  net_amount: number;
+  vat_amount: number;
+}
+
+export interface SalesInvoiceInput {
+  customer_name: string;
+  customer_email: string | null;
+  customer_address: string | null;
+  reference: string | null;
+  issue_date: string;
+  due_date: string | null;
+  currency: string;
+  category: string | null;
+  subcategory: string | null;
+  notes: string | null;
+  lines: SalesInvoiceLineInput[];
+}
+
+export interface SalesInvoice extends Omit<SalesInvoiceInput, "lines"> {
+  id: string;
+  company_profile_id: string;
+  status: SalesInvoiceStatus;
+  invoice_number: string | null;
+  subtotal_amount: number;
+  tax_amount: number;
+  total_amount: number;
+  document_id: string | null;
+  issued_at: string | null;
+  sent_at: string | null;
+  sent_to: string | null;
+  send_count: number;
+  voided_at: string | null;
+  void_reason: string | null;
+  created_at: string;
+  /** Paid so far, from the linked document's reconciliation */
+  amount_paid: number;
+  payment_status: "unpaid" | "partially_paid" | "paid";
+  lines: SalesInvoiceLine[];
+}
+
+export interface SalesInvoiceSettings {
+  number_prefix: string;
+  next_number: number;
+  number_padding: number;
+  payment_terms_days: number;
+  payment_details: string | null;
+  footer_text: string | null;
+}
+
+export const DEFAULT_SALES_INVOICE_SETTINGS: SalesInvoiceSettings = {
+  number_prefix: "INV-",
+  next_number: 1,
+  number_padding: 4,
+  payment_terms_days: 30,
+  payment_details: null,
+  footer_text: null,
+};
+
+const MAX_LINES = 200;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const INVOICE_COLUMNS =
+  "*, sales_invoice_lines(*), document:financial_documents(amount_paid, payment_status, matched_transaction_id)";
+
+function roundPence(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/**
+ * Net and VAT for a line. VAT is rounded per line. Reverse-charge sales show the rate but
+ * charge no VAT - the customer accounts for it.
+ */
+export function calculateLine(line: SalesInvoiceLineInput, lineNumber: number): SalesInvoiceLine {
+  const definition = VAT_CODES[line.vat_code];
+  const chargesNoVat = ["zero", "exempt", "outside_scope"].includes(line.vat_code);
+  const rate = chargesNoVat
+    ? 0
+    : line.vat_rate !== null && line.vat_rate !== undefined
+      ? Number(line.vat_rate)
+      : definition.defaultRate;
+  const net = roundPence(line.quantity * line.unit_price);
+  const vat = definition.selfAccounted ? 0 : roundPence(net * rate / 100);
+
+  return {
+    line_number: lineNumber,
+    description: line.description,
+    quantity: line.quantity,
+    unit_price: line.unit_price,
+    vat_code: line.vat_code,
+    vat_rate: rate,
+    net_amount: net,
+    vat_amount: vat,
+  };
+}
+
+export function calculateInvoiceTotals(lines: SalesInvoiceLine[]): { subtotal: number; tax: number; total: number } {
+  const subtotal = roundPence(lines.reduce((sum, line) => sum + line.net_amount, 0));
+  const tax = roundPence(lines.reduce((sum, line) => sum + line.vat_amount, 0));
+  return { subtotal, tax, total: roundPence(subtotal + tax) };
+}
+
+/**
+ * VAT per rate, for the totals block. Reverse-charge lines are listed separately.
+ */
+export function summariseVat(lines: SalesInvoiceLine[]): Array<{ label: string; net: number; vat: number }> {
+  const byRate = new Map<string, { label: string; net: number; vat: number }>();
+  for (const line of lines) {
+    const key = line.vat_code === "reverse_charge" ? "reverse_charge" : line.vat_amount === 0 ? "none" : String(line.vat_rate);
+    const label = key === "reverse_charge"
+      ? "Reverse charge"
+      : key === "none"
+        ? "No VAT"
+        : `VAT at ${line.vat_rate}%`;
+    const entry = byRate.get(key) || { label, net: 0, vat: 0 };
+    entry.net = roundPence(entry.net + line.net_amount);
+    entry.vat = roundPence(entry.vat + line.vat_amount);
+    byRate.set(key, entry);
+  }
+  return Array.from(byRate.values());
+}
+
+/**
+ * Number an invoice would take, e.g. INV-0042
+ */
+export function formatInvoiceNumber(settings: Pick<SalesInvoiceSettings, "number_prefix" | "number_padding">, number: number): string {
+  return `${settings.number_prefix}${String(number).padStart(settings.number_padding, "0")}`;
+}
+
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split("T")[0];
+}
+
+export function getDisplayStatus(
+  invoice: Pick<SalesInvoice, "status" | "payment_status" | "due_date" | "issue_date" | "sent_at">,
+  today: string = new Date().toISOString().split("T")[0]
+): SalesInvoiceDisplayStatus {
+  if (invoice.status !== "issued") return invoice.status;
+  if (invoice.payment_status === "paid") return "paid";
+  if ((invoice.due_date || invoice.issue_date) < today) return "overdue";
+  if (invoice.payment_status === "partially_paid") return "partially_paid";
+  return invoice.sent_at ? "sent" : "issued";
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function optionalText(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+/**
+ * Validate a create or update request body
+ */
+export function parseSalesInvoiceInput(
+  body: any,
+  defaults: { currency: string; payment_terms_days: number }
+): { input: SalesInvoiceInput; error?: undefined } | { input?: undefined; error: string } {
+  const customerName = optionalText(body?.customer_name);
+  if (!customerName) return { error: "Customer name is required" };
+
+  const customerEmail = optionalText(body?.customer_email);
+  if (customerEmail && !EMAIL_PATTERN.test(customerEmail)) {
+    return { error: "Customer email is not a valid email address" };
+  }
+
+  const issueDate = optionalText(body?.issue_date) || new Date().toISOString().split("T")[0];
+  if (!DATE_PATTERN.test(issueDate)) return { error: "issue_date must be a date (YYYY-MM-DD)" };
+
+  const dueDate = optionalText(body?.due_date) || addDays(issueDate, defaults.payment_terms_days);
+  if (!DATE_PATTERN.test(dueDate)) return { error: "due_date must be a date (YYYY-MM-DD)" };
+  if (dueDate < issueDate) return { error: "The due date cannot be before the issue date" };
+
+  const currency = (optionalText(body?.currency) || defaults.currency).toUpperCase();
+  if (!/^[A-Z]{3}$/.test(currency)) return { error: "currency must be a three-letter ISO code" };
+
+  if (!Array.isArray(body?.lines) || body.lines.length === 0) {
+    return { error: "Add at least one line" };
+  }
+  if (body.lines.length > MAX_LINES) {
+    return { error: `An invoice can have at most ${MAX_LINES} lines` };
+  }
+
+  const lines: SalesInvoiceLineInput[] = [];
+  for (const [index, raw] of body.lines.entries()) {
+    const position = `Line ${index + 1}`;
+    const description = optionalText(raw?.description);
+    if (!description) return { error: `${position}: description is required` };
+
+    const quantity = Number(raw?.quantity ?? 1);
+    if (!Number.isFinite(quantity) || quantity <= 0) return { error: `${position}: quantity must be greater than zero` };
+
+    const unitPrice = Number(raw?.unit_price);
+    if (!Number.isFinite(unitPrice)) return { error: `${position}: unit price must be a number` };
+
+    const vatCode = raw?.vat_code || "standard";
+    if (!SALES_VAT_CODES.includes(vatCode)) return { error: `${position}: unsupported VAT code ${vatCode}` };
+
+    let vatRate: number | null = null;
+    if (raw?.vat_rate !== null && raw?.vat_rate !== undefined && raw?.vat_rate !== "") {
+      vatRate = Number(raw.vat_rate);
+      if (!Number.isFinite(vatRate) || vatRate < 0 || vatRate > 100) {
+        return { error: `${position}: VAT rate must be between 0 and 100` };
+      }
+    }
+
+    lines.push({ description, quantity, unit_price: unitPrice, vat_code: vatCode, vat_rate: vatRate });
+  }
+
+  return {
+    input: {
+      customer_name: customerName,
+      customer_email: customerEmail,
+      customer_address: optionalText(body?.customer_address),
+      reference: optionalText(body?.reference),
+      issue_date: issueDate,
+      due_date: dueDate,
+      currency,
+      category: optionalText(body?.category),
+      subcategory: optionalText(body?.subcategory),
+      notes: optionalText(body?.notes),
+      lines,
+    },
+  };
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+function toSalesInvoice(row: any): SalesInvoice {
+  const { sales_invoice_lines: lineRows, document, ...invoice } = row;
+  // One-to-one matches made before match groups record no amount_paid but settle the invoice
+  const legacyPaid = document?.matched_transaction_id && !Number(document?.amount_paid);
+  const total = Number(invoice.total_amount) || 0;
+
+  return {
+    ...invoice,
+    subtotal_amount: Number(invoice.subtotal_amount) || 0,
+    tax_amount: Number(invoice.tax_amount) || 0,
+    total_amount: total,
+    amount_paid: legacyPaid ? total : Number(document?.amount_paid) || 0,
+    payment_status: legacyPaid ? "paid" : document?.payment_status || "unpaid",
+    lines: (lineRows || [])
+      .map((line: any) => ({
+        line_number: line.line_number,
+        description: line.description,
+        quantity: Number(line.quantity),
+        unit_price: Number(line.unit_price),
+        vat_code: line.vat_code,
+        vat_rate: Number(line.vat_rate),
+        net_amount: Number(line.net_amount),
+        vat_amount: Number(line.vat_amount),
+      }))
+      .sort((a: SalesInvoiceLine, b: SalesInvoiceLine) => a.line_number - b.line_number),
+  };
+}
+
+export async function getSalesInvoiceSettings(supabase: any, companyProfileId: string): Promise<SalesInvoiceSettings> {
+  const { data, error } = await supabase
+    .from("sales_invoice_settings")
+    .select("number_prefix, next_number, number_padding, payment_terms_days, payment_details, footer_text")
+    .eq("company_profile_id", companyProfileId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message || "Failed to load invoice settings");
+  }
+
+  return data ? { ...DEFAULT_SALES_INVOICE_SETTINGS, ...data } : { ...DEFAULT_SALES_INVOICE_SETTINGS };
+}
+
+export async function saveSalesInvoiceSettings(
+  supabase: any,
+  companyProfileId: string,
+  settings: SalesInvoiceSettings
+): Promise<void> {
+  const { error } = await supabase
+    .from("sales_invoice_settings")
+    .upsert({ company_profile_id: companyProfileId, ...settings }, { onConflict: "company_profile_id" });
+
+  if (error) {
+    throw new Error(error.message || "Failed to save invoice settings");
+  }
+}
+
+export async function listSalesInvoices(supabase: any, companyProfileId: string): Promise<SalesInvoice[]> {
+  const { data, error } = await supabase
+    .from("sales_invoices")
+    .select(INVOICE_COLUMNS)
+    .eq("company_profile_id", companyProfileId)
+    .order("issue_date", { ascending: false })
+    .order("created_at", { ascending: false })
+    .limit(1000);
+
+  if (error) {
+    throw new Error(error.message || "Failed to load invoices");
+  }
+
+  return (data || []).map(toSalesInvoice);
+}
+
+export async function getSalesInvoice(supabase: any, invoiceId: string): Promise<SalesInvoice | null> {
+  const { data, error } = await supabase
+    .from("sales_invoices")
+    .select(INVOICE_COLUMNS)
+    .eq("id", invoiceId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message || "Failed to load invoice");
+  }
+
+  return data ? toSalesInvoice(data) : null;
+}
+
+/**
+ * Create a draft, or replace the contents of an existing draft (header and every line)
+ */
+export async function saveDraftSalesInvoice(
+  supabase: any,
+  companyProfileId: string,
+  input: SalesInvoiceInput,
+  options: { invoiceId?: string; createdBy?: string | null } = {}
+): Promise<string> {
+  const lines = input.lines.map((line, index) => calculateLine(line, index + 1));
+  const totals = calculateInvoiceTotals(lines);
+  const header = {
+    customer_name: input.customer_name,
+    customer_email: input.customer_email,
+    customer_address: input.customer_address,
+    reference: input.reference,
+    issue_date: input.issue_date,
+    due_date: input.due_date,
+    currency: input.currency,
+    category: input.category,
+    subcategory: input.subcategory,
+    notes: input.notes,
+    subtotal_amount: totals.subtotal,
+    tax_amount: totals.tax,
+    total_amount: totals.total,
+  };
+
+  let invoiceId = options.invoiceId;
+  if (invoiceId) {
+    const { data, error } = await supabase
+      .from("sales_invoices")
+      .update(header)
+      .eq("id", invoiceId)
+      .eq("status", "draft")
+      .select("id");
+
+    if (error) {
+      throw new Error(error.message || "Failed to save invoice");
+    }
+    if (!data || data.length === 0) {
+      throw new Error("Only draft invoices can be edited");
+    }
+
+    const { error: deleteError } = await supabase
+      .from("sales_invoice_lines")
+      .delete()
+      .eq("sales_invoice_id", invoiceId);
+
+    if (deleteError) {
+      throw new Error(deleteError.message || "Failed to save invoice lines");
+    }
+  } else {
+    const { data, error } = await supabase
+      .from("sales_invoices")
+      .insert({ ...header, company_profile_id: companyProfileId, created_by: options.createdBy || null })
+      .select("id")
+      .single();
+
+    if (error) {
+      throw new Error(error.message || "Failed to create invoice");
+    }
+    invoiceId = data.id as string;
+  }
+
+  const { error: linesError } = await supabase
+    .from("sales_invoice_lines")
+    .insert(lines.map((line) => ({ ...line, sales_invoice_id: invoiceId })));
+
+  if (linesError) {
+    throw new Error(linesError.message || "Failed to save invoice lines");
+  }
+
+  return invoiceId;
+}
+
+/**
+ * Number the invoice and create its sales invoice document. Returns the document id.
+ */
+export async function issueSalesInvoice(supabase: any, invoiceId: string): Promise<string> {
+  const { data, error } = await supabase.rpc("issue_sales_invoice", { p_invoice_id: invoiceId });
+
+  if (error) {
+    throw new Error(error.message || "Failed to issue invoice");
+  }
+
+  return data as string;
+}
+
+/**
+ * Void an issued invoice. Returns the id of its (now deleted) document, if any.
+ */
+export async function voidSalesInvoice(supabase: any, invoiceId: string, reason: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc("void_sales_invoice", {
+    p_invoice_id: invoiceId,
+    p_reason: reason,
+  });
+
+  if (error) {
+    throw new Error(error.message || "Failed to void invoice");
+  }
+
+  return (data as string) || null;
+}
@@ -0,0 +1,395 @@
+/**
+ * Sales Invoice PDF
+ *
+ * Writes the PDF directly using the standard Helvetica fonts every reader ships with, so no
+ * PDF library or headless browser is needed on the server. Text is WinAnsi-encoded (which
+ * covers £ and €); long invoices flow onto further pages with the table header repeated.
+ */
+
+import { VAT_CODES } from "@/lib/vat/codes";
+import type { InvoiceBranding } from "./branding";
+import {
+  SALES_INVOICE_STATUS_LABELS,
+  summariseVat,
+  type SalesInvoice,
+  type SalesInvoiceSettings,
+} from "./invoices";
+
+type Font = "regular" | "bold";
+type Rgb = [number, number, number];
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_SPACE = 60;
+
+const BLACK: Rgb = [0.1, 0.1, 0.12];
+const GREY: Rgb = [0.42, 0.44, 0.48];
+const LIGHT: Rgb = [0.95, 0.96, 0.97];
+
+// Helvetica and Helvetica-Bold advance widths (1/1000 em) for ASCII 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding places in 0x80-0x9F
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "„": 0x84, "…": 0x85, "‘": 0x91, "’": 0x92,
+  "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "™": 0x99,
+};
+
+function winAnsiCode(char: string): number | null {
+  if (char in WIN_ANSI_EXTRAS) return WIN_ANSI_EXTRAS[char];
+  const code = char.charCodeAt(0);
+  if (code >= 32 && code <= 126) return code;
+  if (code >= 160 && code <= 255) return code;
+  return null;
+}
+
+function canEncode(text: string): boolean {
+  return Array.from(text).every((char) => winAnsiCode(char) !== null);
+}
+
+/** PDF string literal body: escapes delimiters, writes non-ASCII as octal, drops the unencodable */
+function encodeText(text: string): string {
+  let encoded = "";
+  for (const char of Array.from(text.replace(/[\r\n\t]+/g, " "))) {
+    const code = winAnsiCode(char);
+    if (code === null) encoded += "?";
+    else if (char === "(" || char === ")" || char === "\\") encoded += `\\${char}`;
+    else if (code > 126) encoded += `\\${code.toString(8).padStart(3, "0")}`;
+    else encoded += char;
+  }
+  return encoded;
+}
+
+function textWidth(text: string, font: Font, size: number): number {
+  const widths = font === "bold" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let units = 0;
+  for (const char of Array.from(text)) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+  }
+  return (units * size) / 1000;
+}
+
+/** Break text into lines no wider than maxWidth, splitting overlong words */
+export function wrapText(text: string, font: Font, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let current = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (textWidth(candidate, font, size) <= maxWidth) {
+        current = candidate;
+        continue;
+      }
+      if (current) lines.push(current);
+      current = word;
+      while (textWidth(current, font, size) > maxWidth && current.length > 1) {
+        let cut = current.length - 1;
+        while (cut > 1 && textWidth(current.slice(0, cut), font, size) > maxWidth) cut--;
+        lines.push(current.slice(0, cut));
+        current = current.slice(cut);
+      }
+    }
+    lines.push(current);
+  }
+  return lines;
+}
+
+function hexToRgb(hex: string): Rgb {
+  const value = parseInt(hex.replace("#", ""), 16);
+  return [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255];
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(4)).toString();
+}
+
+/** Currency amount in a form the fonts can show; falls back to the ISO code for other symbols */
+export function formatInvoiceMoney(amount: number, currency: string): string {
+  const formatted = new Intl.NumberFormat("en-GB", { style: "currency", currency }).format(amount);
+  if (canEncode(formatted)) return formatted;
+  return `${currency} ${new Intl.NumberFormat("en-GB", { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(amount)}`;
+}
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+// ============================================================================
+// PAGE BUILDER
+// ============================================================================
+
+interface PageWriter {
+  pages: string[][];
+  y: number;
+}
+
+function ops(writer: PageWriter): string[] {
+  return writer.pages[writer.pages.length - 1];
+}
+
+function drawText(writer: PageWriter, text: string, x: number, y: number, options: { font?: Font; size?: number; color?: Rgb; align?: "left" | "right" } = {}) {
+  const font = options.font || "regular";
+  const size = options.size || 9;
+  const [r, g, b] = options.color || BLACK;
+  const left = options.align === "right" ? x - textWidth(text, font, size) : x;
+  ops(writer).push(
+    `BT /${font === "bold" ? "F2" : "F1"} ${size} Tf ${r.toFixed(3)} ${g.toFixed(3)} ${b.toFixed(3)} rg ` +
+    `${left.toFixed(2)} ${y.toFixed(2)} Td (${encodeText(text)}) Tj ET`
+  );
+}
+
+function fillRect(writer: PageWriter, x: number, y: number, width: number, height: number, color: Rgb) {
+  const [r, g, b] = color;
+  ops(writer).push(`${r.toFixed(3)} ${g.toFixed(3)} ${b.toFixed(3)} rg ${x.toFixed(2)} ${y.toFixed(2)} ${width.toFixed(2)} ${height.toFixed(2)} re f`);
+}
+
+function drawLine(writer: PageWriter, x1: number, y: number, x2: number, color: Rgb = GREY) {
+  const [r, g, b] = color;
+  ops(writer).push(`${r.toFixed(3)} ${g.toFixed(3)} ${b.toFixed(3)} RG 0.5 w ${x1.toFixed(2)} ${y.toFixed(2)} m ${x2.toFixed(2)} ${y.toFixed(2)} l S`);
+}
+
+/**
+ * Assemble the page content streams into a PDF file
+ */
+function buildPdf(pageContents: string[], title: string): Buffer {
+  const objects: string[] = [];
+  const pageIds = pageContents.map((_, index) => 5 + index * 2);
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+  pageContents.forEach((content, index) => {
+    const pageId = pageIds[index];
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`;
+  });
+  const infoId = objects.length;
+  objects[infoId] = `<< /Title (${encodeText(title)}) /Producer (FinCat) >>`;
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(pdf, "latin1");
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(pdf, "latin1");
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, "latin1");
+}
+
+// ============================================================================
+// INVOICE LAYOUT
+// ============================================================================
+
+// Table columns: right edges for the numeric columns
+const COLUMN_QTY = MARGIN + 320;
+const COLUMN_PRICE = MARGIN + 390;
+const COLUMN_VAT = MARGIN + 430;
+const COLUMN_NET = MARGIN + CONTENT_WIDTH;
+const DESCRIPTION_WIDTH = 260;
+
+/**
+ * Render an invoice. Drafts and void invoices are stamped so they can't pass for the real thing.
+ */
+export function renderSalesInvoicePdf(
+  invoice: SalesInvoice,
+  branding: InvoiceBranding,
+  settings: Pick<SalesInvoiceSettings, "payment_details" | "footer_text">
+): Buffer {
+  const brand = hexToRgb(branding.primaryColor);
+  const writer: PageWriter = { pages: [[]], y: PAGE_HEIGHT - MARGIN };
+  const money = (amount: number) => formatInvoiceMoney(amount, invoice.currency);
+
+  const tableHeader = () => {
+    fillRect(writer, MARGIN, writer.y - 6, CONTENT_WIDTH, 20, LIGHT);
+    drawText(writer, "Description", MARGIN + 6, writer.y, { font: "bold" });
+    drawText(writer, "Qty", COLUMN_QTY, writer.y, { font: "bold", align: "right" });
+    drawText(writer, "Unit price", COLUMN_PRICE, writer.y, { font: "bold", align: "right" });
+    drawText(writer, "VAT", COLUMN_VAT, writer.y, { font: "bold", align: "right" });
+    drawText(writer, "Net", COLUMN_NET - 6, writer.y, { font: "bold", align: "right" });
+    writer.y -= 22;
+  };
+
+  const ensureSpace = (height: number, repeatHeader: boolean) => {
+    if (writer.y - height >= MARGIN + FOOTER_SPACE) return;
+    writer.pages.push([]);
+    writer.y = PAGE_HEIGHT - MARGIN;
+    if (repeatHeader) tableHeader();
+  };
+
+  // Header band and titles
+  fillRect(writer, 0, PAGE_HEIGHT - 8, PAGE_WIDTH, 8, brand);
+  drawText(writer, branding.companyName, MARGIN, writer.y - 10, { font: "bold", size: 18 });
+  drawText(writer, "INVOICE", MARGIN + CONTENT_WIDTH, writer.y - 10, { font: "bold", size: 22, color: brand, align: "right" });
+  if (invoice.status !== "issued") {
+    drawText(writer, SALES_INVOICE_STATUS_LABELS[invoice.status].toUpperCase(), MARGIN + CONTENT_WIDTH, writer.y - 30, {
+      font: "bold",
+      size: 12,
+      color: [0.8, 0.1, 0.1],
+      align: "right",
+    });
+  }
+  writer.y -= 32;
+
+  const sellerLines = [
+    ...branding.addressLines,
+    branding.email,
+    branding.phone,
+    branding.website,
+    branding.vatNumber ? `VAT number: ${branding.vatNumber}` : null,
+    branding.companyNumber ? `Company number: ${branding.companyNumber}` : null,
+  ].filter(Boolean) as string[];
+  let sellerY = writer.y;
+  for (const line of sellerLines) {
+    drawText(writer, line, MARGIN, sellerY, { color: GREY });
+    sellerY -= 12;
+  }
+
+  const details: Array<[string, string]> = [
+    ["Invoice number", invoice.invoice_number || "Not yet issued"],
+    ["Invoice date", formatDate(invoice.issue_date)],
+  ];
+  if (invoice.due_date) details.push(["Due date", formatDate(invoice.due_date)]);
+  if (invoice.reference) details.push(["Reference", invoice.reference]);
+  let detailsY = writer.y - 10;
+  for (const [label, value] of details) {
+    drawText(writer, label, COLUMN_PRICE - 40, detailsY, { color: GREY, align: "right" });
+    drawText(writer, value, COLUMN_NET, detailsY, { font: "bold", align: "right" });
+    detailsY -= 14;
+  }
+
+  writer.y = Math.min(sellerY, detailsY) - 18;
+
+  // Customer
+  drawText(writer, "BILL TO", MARGIN, writer.y, { font: "bold", size: 8, color: brand });
+  writer.y -= 14;
+  drawText(writer, invoice.customer_name, MARGIN, writer.y, { font: "bold", size: 10 });
+  writer.y -= 13;
+  const customerLines = [
+    ...(invoice.customer_address ? wrapText(invoice.customer_address, "regular", 9, 260) : []),
+    invoice.customer_email,
+  ].filter(Boolean) as string[];
+  for (const line of customerLines) {
+    drawText(writer, line, MARGIN, writer.y, { color: GREY });
+    writer.y -= 12;
+  }
+  writer.y -= 18;
+
+  // Lines
+  tableHeader();
+  for (const line of invoice.lines) {
+    const descriptionLines = wrapText(line.description, "regular", 9, DESCRIPTION_WIDTH);
+    ensureSpace(descriptionLines.length * 12 + 8, true);
+    const rowTop = writer.y;
+    descriptionLines.forEach((text, index) => {
+      drawText(writer, text, MARGIN + 6, rowTop - index * 12);
+    });
+    const vatLabel = line.vat_code === "standard" || line.vat_code === "reduced"
+      ? `${formatNumber(line.vat_rate)}%`
+      : line.vat_code === "reverse_charge"
+        ? "RC"
+        : VAT_CODES[line.vat_code].label.split(" ")[0];
+    drawText(writer, formatNumber(line.quantity), COLUMN_QTY, rowTop, { align: "right" });
+    drawText(writer, formatInvoiceMoney(line.unit_price, invoice.currency), COLUMN_PRICE, rowTop, { align: "right" });
+    drawText(writer, vatLabel, COLUMN_VAT, rowTop, { align: "right" });
+    drawText(writer, money(line.net_amount), COLUMN_NET - 6, rowTop, { align: "right" });
+    writer.y = rowTop - descriptionLines.length * 12 - 6;
+    drawLine(writer, MARGIN, writer.y + 2, MARGIN + CONTENT_WIDTH, LIGHT);
+    writer.y -= 10;
+  }
+
+  // Totals
+  const vatSummary = summariseVat(invoice.lines);
+  ensureSpace(40 + vatSummary.length * 14, false);
+  writer.y -= 4;
+  const labelX = COLUMN_VAT;
+  drawText(writer, "Subtotal", labelX, writer.y, { align: "right", color: GREY });
+  drawText(writer, money(invoice.subtotal_amount), COLUMN_NET - 6, writer.y, { align: "right" });
+  writer.y -= 14;
+  for (const entry of vatSummary) {
+    if (entry.vat === 0 && entry.label !== "Reverse charge") continue;
+    drawText(writer, entry.label, labelX, writer.y, { align: "right", color: GREY });
+    drawText(writer, money(entry.vat), COLUMN_NET - 6, writer.y, { align: "right" });
+    writer.y -= 14;
+  }
+  drawLine(writer, labelX - 80, writer.y + 8, MARGIN + CONTENT_WIDTH);
+  writer.y -= 6;
+  drawText(writer, `Total ${invoice.currency}`, labelX, writer.y, { font: "bold", size: 11, align: "right" });
+  drawText(writer, money(invoice.total_amount), COLUMN_NET - 6, writer.y, { font: "bold", size: 11, align: "right" });
+  writer.y -= 28;
+
+  // Notes and payment details
+  const paragraphs: Array<[string, string]> = [];
+  if (invoice.lines.some((line) => line.vat_code === "reverse_charge")) {
+    paragraphs.push([
+      "Reverse charge",
+      "Customer to account for the VAT on this supply to HMRC under the reverse charge.",
+    ]);
+  }
+  if (invoice.notes) paragraphs.push(["Notes", invoice.notes]);
+  if (settings.payment_details) paragraphs.push(["How to pay", settings.payment_details]);
+
+  for (const [heading, body] of paragraphs) {
+    const bodyLines = wrapText(body, "regular", 9, CONTENT_WIDTH);
+    ensureSpace(16 + bodyLines.length * 12, false);
+    drawText(writer, heading.toUpperCase(), MARGIN, writer.y, { font: "bold", size: 8, color: brand });
+    writer.y -= 13;
+    for (const text of bodyLines) {
+      drawText(writer, text, MARGIN, writer.y);
+      writer.y -= 12;
+    }
+    writer.y -= 10;
+  }
+
+  // Footer on every page
+  const pageCount = writer.pages.length;
+  writer.pages.forEach((page, index) => {
+    const footer: PageWriter = { pages: [page], y: MARGIN };
+    if (settings.footer_text) {
+      const footerLines = wrapText(settings.footer_text, "regular", 8, CONTENT_WIDTH - 60).slice(0, 3);
+      footerLines.forEach((text, lineIndex) => {
+        drawText(footer, text, MARGIN, MARGIN + 12 - lineIndex * 10, { size: 8, color: GREY });
+      });
+    }
+    if (pageCount > 1) {
+      drawText(footer, `Page ${index + 1} of ${pageCount}`, MARGIN + CONTENT_WIDTH, MARGIN - 8, { size: 8, color: GREY, align: "right" });
+    }
+  });
+
+  return buildPdf(
+    writer.pages.map((page) => page.join("\n")),
+    `Invoice ${invoice.invoice_number || "draft"} - ${branding.companyName}`
+  );
+}
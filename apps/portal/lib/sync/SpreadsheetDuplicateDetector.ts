@@ -56,10 +56,11 @@ export class SpreadsheetDuplicateDetector {
         : tx.date?.toISOString().split('T')[0] || '';
       return {
         transaction: tx,
-        fingerprint: generateTransactionFingerprint(
+        fingerprint: tx.transaction_fingerprint || generateTransactionFingerprint(
           tx.original_description,
           tx.amount,
-          dateStr
+          dateStr,
+          tx.external_transaction_id
         ),
       };
     });
@@ -176,7 +176,8 @@ export class TransactionMergeService {
       const fingerprint = tx.transaction_fingerprint || generateTransactionFingerprint(
         tx.original_description,
         tx.amount,
-        dateStr
+        dateStr,
+        tx.external_transaction_id
       );
 
       return {
@@ -198,9 +199,16 @@ export class TransactionMergeService {
         bank_subcategory: tx.bank_subcategory ?? null,
         paid_in_amount: tx.paid_in_amount ?? null,
         paid_out_amount: tx.paid_out_amount ?? null,
+        external_transaction_id: tx.external_transaction_id ?? null,
+        bank_account_id: options.bankAccountId ?? null,
         category: tx.category || null,
         subcategory: tx.subcategory || null,
         confidence_score: tx.confidence_score || 0.5,
+        applied_rule_id: tx.applied_rule_id ?? null,
+        supplier_id: tx.supplier_id ?? null,
+        vat_rate: tx.vat_rate ?? null,
+        user_notes: tx.user_notes ?? null,
+        split_allocations: tx.split_allocations ?? null,
         user_confirmed: false,
         transaction_fingerprint: fingerprint,
         source_type: options.sourceType,
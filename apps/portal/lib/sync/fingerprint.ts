@@ -6,12 +6,15 @@ import crypto from 'crypto';
 import type { Transaction } from './types';
 
 /**
- * Generate a fingerprint for a transaction based on description, amount, and date
+ * Generate a fingerprint for a transaction based on description, amount, and date.
+ * When the bank supplies a unique transaction id (FITID etc.) it replaces the description,
+ * so re-exports with edited narratives still match.
  */
 export function generateTransactionFingerprint(
   description: string,
   amount: number,
-  date: string | Date
+  date: string | Date,
+  externalTransactionId?: string | null
 ): string {
   // Normalize values
   const normalizedDescription = (description || '').toLowerCase().trim();
@@ -20,7 +23,9 @@ export function generateTransactionFingerprint(
     ? date 
     : date?.toISOString().split('T')[0] || '';
 
-  const input = `${normalizedDescription}|${normalizedAmount}|${normalizedDate}`;
+  const input = externalTransactionId
+    ? `ext:${externalTransactionId.trim()}|${normalizedAmount}|${normalizedDate}`
+    : `${normalizedDescription}|${normalizedAmount}|${normalizedDate}`;
   
   return crypto.createHash('sha256').update(input).digest('hex');
 }
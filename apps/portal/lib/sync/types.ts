@@ -22,11 +22,16 @@ export interface Transaction {
   bank_subcategory?: string | null;
   paid_in_amount?: number | null;
   paid_out_amount?: number | null;
+  external_transaction_id?: string | null;
   category?: string | null;
   subcategory?: string | null;
   confidence_score?: number;
   user_confirmed?: boolean;
   user_notes?: string | null;
+  applied_rule_id?: string | null;
+  supplier_id?: string | null;
+  vat_rate?: number | null;
+  split_allocations?: Array<{ category: string; subcategory?: string | null; percentage: number }> | null;
   transaction_fingerprint?: string;
   source_type?: SourceType;
   source_identifier?: string | null;
@@ -0,0 +1,20 @@
+import { createHash } from "crypto";
+
+/**
+ * SHA-256 of an uploaded file, read as a stream so large statements are not copied into
+ * one buffer
+ */
+export async function hashFile(file: Blob): Promise<string> {
+  const hash = createHash("sha256");
+  const reader = file.stream().getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      hash.update(value);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+  return hash.digest("hex");
+}
@@ -0,0 +1,201 @@
+import { describe, expect, it } from 'vitest';
+import { resolveVatCode, splitVatAmount } from '../codes';
+import { calculateVATReturn, getTaxPoint, type VatTransaction } from '../vat-return';
+import { buildMTDVatReturn, validateMTDVatReturn } from '../mtd';
+import { loadVatTransactions } from '../transactions';
+
+const period = { periodStart: '2024-01-01', periodEnd: '2024-03-31' };
+
+describe('VAT codes', () => {
+  it('resolves an explicit code, else a UK rate, else nothing', () => {
+    expect(resolveVatCode({ vat_code: 'exempt', vat_rate: 20 })).toBe('exempt');
+    expect(resolveVatCode({ vat_rate: 20 })).toBe('standard');
+    expect(resolveVatCode({ vat_rate: 5 })).toBe('reduced');
+    expect(resolveVatCode({ vat_rate: 0 })).toBe('zero');
+    expect(resolveVatCode({ vat_rate: 17.5 })).toBeNull();
+    expect(resolveVatCode({ vat_code: 'bogus' })).toBeNull();
+  });
+
+  it('splits inclusive amounts, and adds VAT on top for self-accounted codes', () => {
+    expect(splitVatAmount(120, 'standard')).toEqual({ net: 100, vat: 20, rate: 20 });
+    expect(splitVatAmount(-105, 'reduced')).toEqual({ net: 100, vat: 5, rate: 5 });
+    expect(splitVatAmount(50, 'exempt')).toEqual({ net: 50, vat: 0, rate: 0 });
+    expect(splitVatAmount(100, 'reverse_charge')).toEqual({ net: 100, vat: 20, rate: 20 });
+    expect(splitVatAmount(120, 'standard', { vatAmount: 19.5 })).toEqual({ net: 100.5, vat: 19.5, rate: 20 });
+  });
+});
+
+describe('tax points', () => {
+  const invoiceRow: VatTransaction = {
+    date: '2024-04-02',
+    amount: 120,
+    is_debit: false,
+    document_id: 'doc-1',
+    document: { document_date: '2024-03-28', paid_date: null },
+  };
+
+  it('uses the invoice date on invoice basis and the payment date on cash basis', () => {
+    expect(getTaxPoint(invoiceRow, 'invoice')).toBe('2024-03-28');
+    expect(getTaxPoint(invoiceRow, 'cash')).toBeNull();
+    expect(getTaxPoint({ ...invoiceRow, document: { paid_date: '2024-04-10' } }, 'cash')).toBe('2024-04-10');
+    expect(getTaxPoint({ date: '2024-02-01', amount: 1, is_debit: true }, 'cash')).toBe('2024-02-01');
+  });
+});
+
+describe('VAT return', () => {
+  it('fills the nine boxes on the standard scheme', () => {
+    const calculation = calculateVATReturn(
+      [
+        { id: 'sale', date: '2024-01-10', amount: 1200, is_debit: false, vat_code: 'standard' },
+        { id: 'purchase', date: '2024-02-10', amount: 240, is_debit: true, vat_code: 'standard' },
+        { id: 'acquisition', date: '2024-02-11', amount: 500, is_debit: true, vat_code: 'ec_acquisition' },
+        { id: 'services', date: '2024-02-12', amount: 100, is_debit: true, vat_code: 'reverse_charge' },
+        { id: 'wages', date: '2024-03-01', amount: 3000, is_debit: true, vat_code: 'outside_scope' },
+        { id: 'later', date: '2024-04-01', amount: 999, is_debit: false, vat_code: 'standard' },
+      ],
+      period
+    );
+
+    expect(calculation.boxes).toEqual({
+      box1: 220, // 200 on the sale + 20 reverse charge
+      box2: 100,
+      box3: 320,
+      box4: 160, // 40 + 100 + 20
+      box5: 160,
+      box6: 1100,
+      box7: 800, // 200 + 500 + 100
+      box8: 0,
+      box9: 500,
+    });
+    expect(calculation.excluded.outside_scope).toBe(1);
+    expect(calculation.entries.find((entry) => entry.transaction_id === 'sale')?.boxes).toEqual({ box1: 200, box6: 1000 });
+  });
+
+  it('charges the flat rate on gross turnover with no input tax', () => {
+    const calculation = calculateVATReturn(
+      [
+        { id: 'sale', date: '2024-01-10', amount: 1200, is_debit: false, vat_code: 'standard' },
+        { id: 'purchase', date: '2024-02-10', amount: 240, is_debit: true, vat_code: 'standard' },
+      ],
+      { ...period, scheme: 'flat_rate', flatRatePercentage: 12.5 }
+    );
+
+    expect(calculation.boxes).toMatchObject({ box1: 150, box4: 0, box5: 150, box6: 1200, box7: 240 });
+  });
+
+  it('leaves unpaid invoices off a cash accounting return', () => {
+    const calculation = calculateVATReturn(
+      [
+        {
+          id: 'unpaid',
+          date: '2024-02-01',
+          amount: 600,
+          is_debit: false,
+          vat_code: 'standard',
+          document_id: 'doc-1',
+          document: { document_date: '2024-02-01', paid_date: null },
+        },
+        { id: 'paid', date: '2024-02-05', amount: 120, is_debit: false, vat_code: 'standard' },
+      ],
+      { ...period, scheme: 'cash_accounting' }
+    );
+
+    expect(calculation.basis).toBe('cash');
+    expect(calculation.boxes.box1).toBe(20);
+    expect(calculation.excluded.unpaid).toBe(1);
+    expect(calculation.warnings).toContain('1 unpaid invoice excluded under cash accounting.');
+  });
+
+  it('counts a payment matched to an invoice row once, and reports rows without a code', () => {
+    const calculation = calculateVATReturn(
+      [
+        { id: 'invoice', date: '2024-01-05', amount: 120, is_debit: true, vat_code: 'standard', document_id: 'doc-1' },
+        { id: 'payment', date: '2024-01-20', amount: 120, is_debit: true, vat_code: 'standard', matched_document_id: 'doc-1' },
+        { id: 'unknown', date: '2024-01-21', amount: 50, is_debit: true },
+      ],
+      period
+    );
+
+    expect(calculation.boxes.box4).toBe(20);
+    expect(calculation.excluded.duplicate_of_document).toBe(1);
+    expect(calculation.unclassified.map((row) => row.transaction_id)).toEqual(['unknown']);
+  });
+
+  it('puts each split line on the return with its own VAT code', () => {
+    const calculation = calculateVATReturn(
+      [
+        {
+          id: 'split',
+          date: '2024-03-01',
+          amount: 200,
+          is_debit: true,
+          vat_code: 'standard',
+          split_allocations: [
+            { category: 'Office', percentage: 60, amount: 120 },
+            { category: 'Insurance', percentage: 40, amount: 80, vat_code: 'exempt' },
+          ],
+        },
+      ],
+      period
+    );
+
+    expect(calculation.entries.map((entry) => [entry.category, entry.vat_code, entry.vat])).toEqual([
+      ['Office', 'standard', 20],
+      ['Insurance', 'exempt', 0],
+    ]);
+    expect(calculation.boxes).toMatchObject({ box4: 20, box7: 180 });
+  });
+
+  it('maps to a valid MTD submission', () => {
+    const calculation = calculateVATReturn(
+      [{ id: 'sale', date: '2024-01-10', amount: 1200, is_debit: false, vat_code: 'standard' }],
+      period
+    );
+    const body = buildMTDVatReturn(calculation, '24A1', true);
+
+    expect(body).toMatchObject({ vatDueSales: 200, totalVatDue: 200, netVatDue: 200, totalValueSalesExVAT: 1000 });
+    expect(validateMTDVatReturn(body)).toEqual([]);
+    expect(validateMTDVatReturn({ ...body, periodKey: 'too-long' })).not.toEqual([]);
+  });
+});
+
+describe('loading VAT transactions', () => {
+  it('reads every page of transactions and attaches linked documents', async () => {
+    const rows = Array.from({ length: 1001 }, (_, i) => ({
+      id: `tx-${String(i).padStart(4, '0')}`,
+      date: '2024-02-01',
+      amount: 12,
+      is_debit: true,
+      document_id: i === 1000 ? 'doc-1' : null,
+    }));
+    const ranges: Array<[number, number]> = [];
+    const client = {
+      from(table: string) {
+        const query: any = {
+          select: () => query,
+          in: () => query,
+          gte: () => query,
+          lte: () => query,
+          order: () => query,
+          async range(from: number, to: number) {
+            ranges.push([from, to]);
+            return { data: rows.slice(from, to + 1), error: null };
+          },
+        };
+        if (table === 'financial_documents') {
+          query.in = async () => ({ data: [{ id: 'doc-1', document_date: '2024-01-28', paid_date: null }], error: null });
+        }
+        return query;
+      },
+    };
+
+    const transactions = await loadVatTransactions(client, { userId: 'u1', companyProfileIds: ['c1'] }, '2024-01-01', '2024-03-31');
+
+    expect(ranges).toEqual([
+      [0, 999],
+      [1000, 1999],
+    ]);
+    expect(transactions).toHaveLength(1001);
+    expect(transactions[1000].document).toEqual({ document_date: '2024-01-28', paid_date: null });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * UK VAT codes
+ *
+ * Each categorized transaction carries a VAT code describing its VAT treatment. The code decides
+ * which VAT return boxes the transaction feeds and how its VAT is derived from the amount.
+ */
+
+export type VatCode =
+  | 'standard'
+  | 'reduced'
+  | 'zero'
+  | 'exempt'
+  | 'outside_scope'
+  | 'reverse_charge'
+  | 'ec_acquisition';
+
+export interface VatCodeDefinition {
+  code: VatCode;
+  label: string;
+  /** Default rate (percent) when the transaction doesn't carry one */
+  defaultRate: number;
+  /**
+   * True when the supplier charged no VAT and the business self-accounts for it
+   * (amount is net; VAT is added on top, as both output and input tax)
+   */
+  selfAccounted: boolean;
+  /** False for transactions that stay off the VAT return entirely */
+  onReturn: boolean;
+}
+
+export const VAT_CODES: Record<VatCode, VatCodeDefinition> = {
+  standard: { code: 'standard', label: 'Standard rate (20%)', defaultRate: 20, selfAccounted: false, onReturn: true },
+  reduced: { code: 'reduced', label: 'Reduced rate (5%)', defaultRate: 5, selfAccounted: false, onReturn: true },
+  zero: { code: 'zero', label: 'Zero rated', defaultRate: 0, selfAccounted: false, onReturn: true },
+  exempt: { code: 'exempt', label: 'Exempt', defaultRate: 0, selfAccounted: false, onReturn: true },
+  outside_scope: { code: 'outside_scope', label: 'Outside the scope of VAT', defaultRate: 0, selfAccounted: false, onReturn: false },
+  reverse_charge: { code: 'reverse_charge', label: 'Reverse charge', defaultRate: 20, selfAccounted: true, onReturn: true },
+  ec_acquisition: { code: 'ec_acquisition', label: 'EC acquisition of goods', defaultRate: 20, selfAccounted: true, onReturn: true },
+};
+
+export const VAT_CODE_VALUES = Object.keys(VAT_CODES) as VatCode[];
+
+export function isVatCode(value: unknown): value is VatCode {
+  return typeof value === 'string' && value in VAT_CODES;
+}
+
+/**
+ * Resolve a transaction's VAT code. An explicit code wins; otherwise a recorded UK rate implies one.
+ * Returns null when the treatment is unknown - callers must not guess a rate.
+ */
+export function resolveVatCode(tx: { vat_code?: string | null; vat_rate?: number | null }): VatCode | null {
+  if (isVatCode(tx.vat_code)) return tx.vat_code;
+
+  if (tx.vat_rate === null || tx.vat_rate === undefined) return null;
+  const rate = Number(tx.vat_rate);
+  if (rate === 20) return 'standard';
+  if (rate === 5) return 'reduced';
+  if (rate === 0) return 'zero';
+  return null;
+}
+
+/**
+ * Split a transaction amount into net and VAT for its code.
+ * Ordinary codes treat the amount as VAT-inclusive; self-accounted codes treat it as net.
+ */
+export function splitVatAmount(
+  amount: number,
+  code: VatCode,
+  options: { vatRate?: number | null; vatAmount?: number | null } = {}
+): { net: number; vat: number; rate: number } {
+  const definition = VAT_CODES[code];
+  const gross = Math.abs(amount);
+  const rate = options.vatRate !== null && options.vatRate !== undefined
+    ? Number(options.vatRate)
+    : definition.defaultRate;
+
+  if (code === 'zero' || code === 'exempt' || code === 'outside_scope') {
+    return { net: gross, vat: 0, rate: 0 };
+  }
+
+  if (definition.selfAccounted) {
+    const vat = options.vatAmount !== null && options.vatAmount !== undefined
+      ? Math.abs(Number(options.vatAmount))
+      : gross * (rate / 100);
+    return { net: gross, vat, rate };
+  }
+
+  // VAT fraction of a VAT-inclusive amount, unless the exact VAT is known
+  const vat = options.vatAmount !== null && options.vatAmount !== undefined
+    ? Math.abs(Number(options.vatAmount))
+    : gross * rate / (100 + rate);
+  return { net: gross - vat, vat, rate };
+}
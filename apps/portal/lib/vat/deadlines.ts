@@ -0,0 +1,75 @@
+/**
+ * VAT return deadlines
+ *
+ * Quarterly returns follow the company's VAT stagger (the months its quarters end in). A return and
+ * its payment are due one calendar month and seven days after the quarter ends.
+ */
+
+export interface VatDeadline {
+  period_start: string;
+  period_end: string;
+  due_date: string;
+  days_until_due: number;
+}
+
+// Calendar quarters (Mar/Jun/Sep/Dec) when the company has not recorded its stagger
+const DEFAULT_QUARTER_END_MONTH = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toISODate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+// Last day of a 1-based month
+function monthEnd(year: number, month: number): Date {
+  return new Date(Date.UTC(year, month, 0));
+}
+
+function quarterDeadline(year: number, endMonth: number, today: Date): VatDeadline {
+  const periodEnd = monthEnd(year, endMonth);
+  const periodStart = new Date(Date.UTC(year, endMonth - 3, 1));
+  const due = new Date(Date.UTC(year, endMonth + 1, 7));
+
+  return {
+    period_start: toISODate(periodStart),
+    period_end: toISODate(periodEnd),
+    due_date: toISODate(due),
+    days_until_due: Math.round((due.getTime() - today.getTime()) / DAY_MS),
+  };
+}
+
+/**
+ * The next VAT returns not yet past their due date, oldest first. A quarter that has ended but is
+ * not yet due comes before the quarter in progress.
+ */
+export function getUpcomingVatDeadlines(
+  quarterEndMonth: number | null | undefined,
+  todayISO: string = toISODate(new Date()),
+  count: number = 1
+): VatDeadline[] {
+  const today = new Date(`${todayISO}T00:00:00Z`);
+  const stagger = ((quarterEndMonth || DEFAULT_QUARTER_END_MONTH) - 1) % 3;
+
+  // Start from the quarter that ended most recently before today's month
+  let year = today.getUTCFullYear();
+  let month = today.getUTCMonth() + 1 - 3;
+  while ((month - 1 - stagger + 12) % 3 !== 0) month--;
+  if (month < 1) {
+    month += 12;
+    year--;
+  }
+
+  const deadlines: VatDeadline[] = [];
+  while (deadlines.length < count) {
+    const deadline = quarterDeadline(year, month, today);
+    if (deadline.days_until_due >= 0) deadlines.push(deadline);
+
+    month += 3;
+    if (month > 12) {
+      month -= 12;
+      year++;
+    }
+  }
+
+  return deadlines;
+}
@@ -0,0 +1,119 @@
+/**
+ * HMRC Making Tax Digital (MTD) VAT return payload
+ *
+ * Builds the nine-box JSON body for POST /organisations/vat/{vrn}/returns and validates it against
+ * the constraints of HMRC's VAT return schema before anything is submitted.
+ */
+
+import type { VatReturnCalculation } from "./vat-return";
+
+export interface MTDVatReturnBody {
+  periodKey: string;
+  vatDueSales: number;
+  vatDueAcquisitions: number;
+  totalVatDue: number;
+  vatReclaimedCurrPeriod: number;
+  netVatDue: number;
+  totalValueSalesExVAT: number;
+  totalValuePurchasesExVAT: number;
+  totalValueGoodsSuppliedExVAT: number;
+  totalAcquisitionsExVAT: number;
+  finalised: boolean;
+}
+
+type MonetaryField = Exclude<keyof MTDVatReturnBody, 'periodKey' | 'finalised'>;
+
+interface FieldRule {
+  min: number;
+  max: number;
+  /** Decimal places allowed (2 for pounds and pence, 0 for whole pounds) */
+  decimals: 0 | 2;
+}
+
+/** Field constraints from the HMRC VAT (MTD) return schema */
+export const MTD_VAT_RETURN_SCHEMA: Record<MonetaryField, FieldRule> = {
+  vatDueSales: { min: -9999999999999.99, max: 9999999999999.99, decimals: 2 },
+  vatDueAcquisitions: { min: -9999999999999.99, max: 9999999999999.99, decimals: 2 },
+  totalVatDue: { min: -9999999999999.99, max: 9999999999999.99, decimals: 2 },
+  vatReclaimedCurrPeriod: { min: -9999999999999.99, max: 9999999999999.99, decimals: 2 },
+  netVatDue: { min: 0, max: 99999999999.99, decimals: 2 },
+  totalValueSalesExVAT: { min: -9999999999999, max: 9999999999999, decimals: 0 },
+  totalValuePurchasesExVAT: { min: -9999999999999, max: 9999999999999, decimals: 0 },
+  totalValueGoodsSuppliedExVAT: { min: -9999999999999, max: 9999999999999, decimals: 0 },
+  totalAcquisitionsExVAT: { min: -9999999999999, max: 9999999999999, decimals: 0 },
+};
+
+/** Period keys are four characters, e.g. "18A1" or "#001" */
+const PERIOD_KEY_PATTERN = /^[A-Za-z0-9#]{4}$/;
+
+/**
+ * Map a calculated return to the MTD request body
+ */
+export function buildMTDVatReturn(
+  calculation: VatReturnCalculation,
+  periodKey: string,
+  finalised: boolean
+): MTDVatReturnBody {
+  return {
+    periodKey,
+    vatDueSales: calculation.boxes.box1,
+    vatDueAcquisitions: calculation.boxes.box2,
+    totalVatDue: calculation.boxes.box3,
+    vatReclaimedCurrPeriod: calculation.boxes.box4,
+    netVatDue: calculation.boxes.box5,
+    totalValueSalesExVAT: calculation.boxes.box6,
+    totalValuePurchasesExVAT: calculation.boxes.box7,
+    totalValueGoodsSuppliedExVAT: calculation.boxes.box8,
+    totalAcquisitionsExVAT: calculation.boxes.box9,
+    finalised,
+  };
+}
+
+function hasAtMostDecimals(value: number, decimals: number): boolean {
+  const factor = Math.pow(10, decimals);
+  return Math.abs(Math.round(value * factor) - value * factor) < 1e-6;
+}
+
+/**
+ * Validate a body against the MTD schema, including the cross-field rules HMRC enforces.
+ * Returns a list of errors; an empty list means the body is valid.
+ */
+export function validateMTDVatReturn(body: MTDVatReturnBody): string[] {
+  const errors: string[] = [];
+
+  if (typeof body.periodKey !== "string" || !PERIOD_KEY_PATTERN.test(body.periodKey)) {
+    errors.push("periodKey must be 4 characters (letters, digits or #)");
+  }
+  if (typeof body.finalised !== "boolean") {
+    errors.push("finalised must be a boolean");
+  }
+
+  for (const [field, rule] of Object.entries(MTD_VAT_RETURN_SCHEMA) as Array<[MonetaryField, FieldRule]>) {
+    const value = body[field];
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      errors.push(`${field} must be a number`);
+      continue;
+    }
+    if (value < rule.min || value > rule.max) {
+      errors.push(`${field} must be between ${rule.min} and ${rule.max}`);
+    }
+    if (!hasAtMostDecimals(value, rule.decimals)) {
+      errors.push(rule.decimals === 0
+        ? `${field} must be in whole pounds`
+        : `${field} must have at most 2 decimal places`);
+    }
+  }
+
+  if (errors.length === 0) {
+    const expectedTotal = Math.round((body.vatDueSales + body.vatDueAcquisitions) * 100) / 100;
+    if (Math.abs(body.totalVatDue - expectedTotal) > 0.001) {
+      errors.push("totalVatDue must equal vatDueSales + vatDueAcquisitions");
+    }
+    const expectedNet = Math.round(Math.abs(body.totalVatDue - body.vatReclaimedCurrPeriod) * 100) / 100;
+    if (Math.abs(body.netVatDue - expectedNet) > 0.001) {
+      errors.push("netVatDue must equal the difference between totalVatDue and vatReclaimedCurrPeriod");
+    }
+  }
+
+  return errors;
+}
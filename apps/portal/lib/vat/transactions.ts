@@ -0,0 +1,101 @@
+/**
+ * VAT return inputs
+ *
+ * Loads the categorized transactions a VAT return is calculated from, with the invoice and
+ * payment dates of their linked documents so the engine can place each one by tax point.
+ */
+
+import { scopeToBooks, type BooksScope } from "@/lib/books/scope";
+import type { VatTransaction } from "./vat-return";
+
+// Tax points can fall up to a year either side of the bank date (unpaid invoices, late payments)
+const VAT_TAX_POINT_WINDOW_DAYS = 366;
+const VAT_TRANSACTION_PAGE_SIZE = 1000;
+const DOCUMENT_LOOKUP_BATCH_SIZE = 200;
+
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(date);
+  shifted.setDate(shifted.getDate() + days);
+  return shifted.toISOString().split('T')[0];
+}
+
+/**
+ * Transactions in the books that may have a tax point between the period dates (YYYY-MM-DD).
+ * Fetches a wider window than the period; the engine filters by tax point.
+ */
+export async function loadVatTransactions(
+  supabase: any,
+  scope: BooksScope,
+  periodStart: string,
+  periodEnd: string
+): Promise<VatTransaction[]> {
+  const rows: any[] = [];
+
+  for (let offset = 0; ; offset += VAT_TRANSACTION_PAGE_SIZE) {
+    const { data, error } = await scopeToBooks(
+      supabase
+        .from("categorized_transactions")
+        .select(`
+          id,
+          date,
+          amount,
+          is_debit,
+          original_description,
+          category,
+          vat_code,
+          vat_rate,
+          vat_amount,
+          document_id,
+          matched_document_id,
+          is_breakdown_entry,
+          split_allocations
+        `),
+      scope
+    )
+      .gte("date", shiftDate(periodStart, -VAT_TAX_POINT_WINDOW_DAYS))
+      .lte("date", shiftDate(periodEnd, VAT_TAX_POINT_WINDOW_DAYS))
+      .order("date", { ascending: true })
+      .order("id", { ascending: true })
+      .range(offset, offset + VAT_TRANSACTION_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(error.message || "Failed to load VAT transactions");
+    }
+
+    rows.push(...(data || []));
+
+    if (!data || data.length < VAT_TRANSACTION_PAGE_SIZE) break;
+  }
+
+  // Invoice and payment dates of linked documents decide the tax point
+  const documentIds = Array.from(new Set(
+    rows.map((tx) => tx.document_id || tx.matched_document_id).filter(Boolean)
+  )) as string[];
+  const documentsById = new Map<string, { document_date: string | null; paid_date: string | null }>();
+  for (let i = 0; i < documentIds.length; i += DOCUMENT_LOOKUP_BATCH_SIZE) {
+    const { data: documents } = await supabase
+      .from("financial_documents")
+      .select("id, document_date, paid_date")
+      .in("id", documentIds.slice(i, i + DOCUMENT_LOOKUP_BATCH_SIZE));
+    for (const doc of documents || []) {
+      documentsById.set(doc.id, { document_date: doc.document_date, paid_date: doc.paid_date });
+    }
+  }
+
+  return rows.map((tx) => ({
+    id: tx.id,
+    date: tx.date,
+    amount: tx.amount,
+    is_debit: tx.is_debit,
+    description: tx.original_description,
+    category: tx.category,
+    vat_code: tx.vat_code,
+    vat_rate: tx.vat_rate,
+    vat_amount: tx.vat_amount,
+    document_id: tx.document_id,
+    matched_document_id: tx.matched_document_id,
+    is_breakdown_entry: tx.is_breakdown_entry,
+    split_allocations: tx.split_allocations,
+    document: documentsById.get(tx.document_id || tx.matched_document_id) || null,
+  }));
+}
@@ -0,0 +1,354 @@
+/**
+ * VAT return engine
+ *
+ * Calculates the nine VAT return boxes from categorized transactions, using each transaction's VAT code
+ * and the business's VAT scheme, and keeps an audit trail of what fed every box.
+ *
+ * Tax point:
+ * - Invoice basis: the invoice date of the linked document (document_date), else the transaction date
+ * - Cash basis: the date paid - paid_date on invoice documents, the bank date for bank transactions;
+ *   unpaid invoices stay off the return
+ */
+
+import { VAT_CODES, resolveVatCode, splitVatAmount, type VatCode } from "./codes";
+import { expandSplit } from "@/lib/categorization/splits";
+
+export type VatScheme = 'standard' | 'flat_rate' | 'cash_accounting';
+export type VatAccountingBasis = 'invoice' | 'cash';
+export type VatBox = 'box1' | 'box2' | 'box3' | 'box4' | 'box5' | 'box6' | 'box7' | 'box8' | 'box9';
+
+export const VAT_BOX_LABELS: Record<VatBox, string> = {
+  box1: 'VAT due on sales and other outputs',
+  box2: 'VAT due on acquisitions from EU member states',
+  box3: 'Total VAT due',
+  box4: 'VAT reclaimed on purchases and other inputs',
+  box5: 'Net VAT to pay or reclaim',
+  box6: 'Total value of sales and all other outputs excluding VAT',
+  box7: 'Total value of purchases and all other inputs excluding VAT',
+  box8: 'Total value of supplies of goods to EU member states excluding VAT',
+  box9: 'Total value of acquisitions of goods from EU member states excluding VAT',
+};
+
+export interface VatTransaction {
+  id?: string;
+  date: string | Date;
+  amount: number;
+  is_debit: boolean;
+  description?: string | null;
+  category?: string | null;
+  vat_code?: string | null;
+  vat_rate?: number | null;
+  vat_amount?: number | null;
+  /** Set on transactions extracted from an invoice/receipt */
+  document_id?: string | null;
+  /** Set on bank transactions reconciled to an invoice/receipt */
+  matched_document_id?: string | null;
+  is_breakdown_entry?: boolean | null;
+  /** The linked document's dates (via document_id or matched_document_id) */
+  document?: { document_date?: string | null; paid_date?: string | null } | null;
+  /** Categorized lines the amount is split into (see lib/categorization/splits) */
+  split_allocations?: unknown;
+}
+
+export interface VatReturnOptions {
+  periodStart: string;
+  periodEnd: string;
+  scheme?: VatScheme;
+  /** Defaults to cash for the cash accounting scheme, invoice otherwise */
+  basis?: VatAccountingBasis;
+  /** Flat rate percentage for the flat rate scheme */
+  flatRatePercentage?: number;
+  /** Applied to transactions without a VAT code; when unset they are left off the return */
+  defaultVatCode?: VatCode;
+}
+
+export interface VatAuditEntry {
+  transaction_id: string | null;
+  tax_point: string;
+  description: string | null;
+  category: string | null;
+  vat_code: VatCode;
+  direction: 'sale' | 'purchase';
+  gross: number;
+  net: number;
+  vat: number;
+  rate: number;
+  /** Amount this transaction contributed to each box (unrounded) */
+  boxes: Partial<Record<VatBox, number>>;
+}
+
+export interface VatReturnCalculation {
+  period_start: string;
+  period_end: string;
+  scheme: VatScheme;
+  basis: VatAccountingBasis;
+  /** Boxes 1-5 in pounds and pence, boxes 6-9 in whole pounds */
+  boxes: Record<VatBox, number>;
+  entries: VatAuditEntry[];
+  /** Transactions in the period with no VAT code, left off the return */
+  unclassified: Array<{ transaction_id: string | null; date: string; description: string | null; amount: number; is_debit: boolean }>;
+  excluded: {
+    outside_scope: number;
+    unpaid: number;
+    duplicate_of_document: number;
+    breakdown_entries: number;
+  };
+  warnings: string[];
+}
+
+function toDateString(date: string | Date | null | undefined): string | null {
+  if (!date) return null;
+  return typeof date === "string" ? date.slice(0, 10) : date.toISOString().split("T")[0];
+}
+
+function roundPence(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/** Boxes 6-9 are whole pounds; pence are dropped */
+function wholePounds(value: number): number {
+  return Math.trunc(value);
+}
+
+/**
+ * Tax point for a transaction under the given basis, or null when it has no tax point yet (unpaid on cash basis)
+ */
+export function getTaxPoint(tx: VatTransaction, basis: VatAccountingBasis): string | null {
+  const transactionDate = toDateString(tx.date);
+
+  if (basis === 'cash') {
+    // Invoice-derived rows are only taxable once paid; bank rows are the payment
+    if (tx.document_id) {
+      return toDateString(tx.document?.paid_date);
+    }
+    return transactionDate;
+  }
+
+  if (tx.document_id || tx.matched_document_id) {
+    return toDateString(tx.document?.document_date) || transactionDate;
+  }
+  return transactionDate;
+}
+
+function addToBox(entry: VatAuditEntry, totals: Record<VatBox, number>, box: VatBox, value: number) {
+  if (value === 0) return;
+  entry.boxes[box] = (entry.boxes[box] || 0) + value;
+  totals[box] += value;
+}
+
+/**
+ * Calculate a VAT return for a period
+ */
+export function calculateVATReturn(transactions: VatTransaction[], options: VatReturnOptions): VatReturnCalculation {
+  const scheme = options.scheme || 'standard';
+  const basis = options.basis || (scheme === 'cash_accounting' ? 'cash' : 'invoice');
+  const isFlatRate = scheme === 'flat_rate';
+  const warnings: string[] = [];
+
+  if (isFlatRate && !options.flatRatePercentage) {
+    warnings.push("Flat rate scheme selected but no flat rate percentage is set; box 1 will be zero.");
+  }
+
+  const totals: Record<VatBox, number> = {
+    box1: 0, box2: 0, box3: 0, box4: 0, box5: 0, box6: 0, box7: 0, box8: 0, box9: 0,
+  };
+  const entries: VatAuditEntry[] = [];
+  const unclassified: VatReturnCalculation['unclassified'] = [];
+  const excluded = { outside_scope: 0, unpaid: 0, duplicate_of_document: 0, breakdown_entries: 0 };
+  let flatRateTurnover = 0;
+
+  // A bank payment reconciled to an invoice that is itself in the data would be counted twice
+  const documentsWithRows = new Set(
+    transactions.filter((tx) => tx.document_id).map((tx) => tx.document_id as string)
+  );
+
+  for (const row of transactions) {
+    if (row.is_breakdown_entry) {
+      excluded.breakdown_entries++;
+      continue;
+    }
+    if (!row.document_id && row.matched_document_id && documentsWithRows.has(row.matched_document_id)) {
+      excluded.duplicate_of_document++;
+      continue;
+    }
+
+    const taxPoint = getTaxPoint(row, basis);
+    if (!taxPoint) {
+      const transactionDate = toDateString(row.date);
+      if (transactionDate && transactionDate <= options.periodEnd) excluded.unpaid++;
+      continue;
+    }
+    if (taxPoint < options.periodStart || taxPoint > options.periodEnd) {
+      continue;
+    }
+
+    // A split transaction goes on the return line by line, each with its own VAT treatment
+    for (const tx of expandSplit(row)) {
+      const code = resolveVatCode(tx) || options.defaultVatCode || null;
+      if (!code) {
+        unclassified.push({
+          transaction_id: tx.id || null,
+          date: taxPoint,
+          description: tx.description || null,
+          amount: tx.amount,
+          is_debit: tx.is_debit,
+        });
+        continue;
+      }
+      if (!VAT_CODES[code].onReturn) {
+        excluded.outside_scope++;
+        continue;
+      }
+
+      const direction: VatAuditEntry['direction'] = tx.is_debit ? 'purchase' : 'sale';
+      const { net, vat, rate } = splitVatAmount(tx.amount, code, {
+        vatRate: tx.vat_rate,
+        vatAmount: tx.vat_amount,
+      });
+
+      const entry: VatAuditEntry = {
+        transaction_id: tx.id || null,
+        tax_point: taxPoint,
+        description: tx.description || null,
+        category: tx.category || null,
+        vat_code: code,
+        direction,
+        gross: Math.abs(tx.amount),
+        net,
+        vat,
+        rate,
+        boxes: {},
+      };
+
+      if (direction === 'sale') {
+        if (code === 'ec_acquisition') {
+          warnings.push(`Transaction ${tx.id || taxPoint} is a sale coded as an EC acquisition; treated as zero rated.`);
+        }
+        if (isFlatRate) {
+          // Flat rate: VAT is a percentage of VAT-inclusive turnover, and box 6 includes VAT
+          flatRateTurnover += entry.gross;
+          addToBox(entry, totals, 'box6', entry.gross);
+        } else {
+          // Reverse charge sales: the customer accounts for the VAT
+          if (!VAT_CODES[code].selfAccounted) addToBox(entry, totals, 'box1', vat);
+          addToBox(entry, totals, 'box6', net);
+        }
+      } else {
+        if (code === 'ec_acquisition') {
+          addToBox(entry, totals, 'box2', vat);
+          if (!isFlatRate) addToBox(entry, totals, 'box4', vat);
+          addToBox(entry, totals, 'box7', net);
+          addToBox(entry, totals, 'box9', net);
+        } else if (code === 'reverse_charge') {
+          // Services received from abroad: output and input tax, and the value in both boxes 6 and 7
+          addToBox(entry, totals, 'box1', vat);
+          if (!isFlatRate) addToBox(entry, totals, 'box4', vat);
+          addToBox(entry, totals, 'box6', net);
+          addToBox(entry, totals, 'box7', net);
+        } else if (isFlatRate) {
+          // No input tax recovery on the flat rate scheme, so purchases are reported gross
+          addToBox(entry, totals, 'box7', entry.gross);
+        } else {
+          addToBox(entry, totals, 'box4', vat);
+          addToBox(entry, totals, 'box7', net);
+        }
+      }
+
+      entries.push(entry);
+    }
+  }
+
+  if (isFlatRate && options.flatRatePercentage) {
+    totals.box1 += flatRateTurnover * (options.flatRatePercentage / 100);
+  }
+
+  if (unclassified.length > 0) {
+    warnings.push(
+      `${unclassified.length} transaction${unclassified.length === 1 ? " has" : "s have"} no VAT code and ${unclassified.length === 1 ? "was" : "were"} left off the return.`
+    );
+  }
+  if (excluded.unpaid > 0) {
+    warnings.push(`${excluded.unpaid} unpaid invoice${excluded.unpaid === 1 ? "" : "s"} excluded under cash accounting.`);
+  }
+
+  const box1 = roundPence(totals.box1);
+  const box2 = roundPence(totals.box2);
+  const box3 = roundPence(box1 + box2);
+  const box4 = roundPence(totals.box4);
+
+  return {
+    period_start: options.periodStart,
+    period_end: options.periodEnd,
+    scheme,
+    basis,
+    boxes: {
+      box1,
+      box2,
+      box3,
+      box4,
+      box5: roundPence(Math.abs(box3 - box4)),
+      box6: wholePounds(totals.box6),
+      box7: wholePounds(totals.box7),
+      box8: wholePounds(totals.box8),
+      box9: wholePounds(totals.box9),
+    },
+    entries,
+    unclassified,
+    excluded,
+    warnings,
+  };
+}
+
+/**
+ * Per-box audit report: every contributing transaction and its share of the box
+ */
+export function buildVatAuditReport(calculation: VatReturnCalculation): Array<{
+  box: VatBox;
+  label: string;
+  value: number;
+  entries: Array<VatAuditEntry & { amount: number }>;
+}> {
+  const boxes = Object.keys(VAT_BOX_LABELS) as VatBox[];
+  return boxes.map((box) => ({
+    box,
+    label: VAT_BOX_LABELS[box],
+    value: calculation.boxes[box],
+    entries: calculation.entries
+      .filter((entry) => entry.boxes[box] !== undefined)
+      .map((entry) => ({ ...entry, amount: roundPence(entry.boxes[box] || 0) })),
+  }));
+}
+
+/**
+ * Audit report as CSV, one row per box contribution
+ */
+export function vatAuditReportCSV(calculation: VatReturnCalculation): string {
+  const rows: string[][] = [
+    ['Box', 'Transaction ID', 'Tax Point', 'Description', 'Category', 'VAT Code', 'Direction', 'Gross', 'Net', 'VAT', 'Rate', 'Box Amount'],
+  ];
+
+  for (const section of buildVatAuditReport(calculation)) {
+    for (const entry of section.entries) {
+      rows.push([
+        section.box,
+        entry.transaction_id || '',
+        entry.tax_point,
+        entry.description || '',
+        entry.category || '',
+        entry.vat_code,
+        entry.direction,
+        entry.gross.toFixed(2),
+        entry.net.toFixed(2),
+        entry.vat.toFixed(2),
+        String(entry.rate),
+        entry.amount.toFixed(2),
+      ]);
+    }
+  }
+
+  for (const tx of calculation.unclassified) {
+    rows.push(['unclassified', tx.transaction_id || '', tx.date, tx.description || '', '', '', tx.is_debit ? 'purchase' : 'sale', Math.abs(tx.amount).toFixed(2), '', '', '', '']);
+  }
+
+  return rows.map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(',')).join('\n');
+}
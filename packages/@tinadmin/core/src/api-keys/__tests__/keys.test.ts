@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { API_KEY_PREFIX, generateApiKey, getBearerApiKey, hashApiKey } from '../keys';
+import { getApiKeyStatus, hasApiKeyScope, isApiKeyScope, validateApiKeyInput } from '../utils';
+
+describe('api key secrets', () => {
+  it('generates prefixed keys whose hash matches', () => {
+    const generated = generateApiKey();
+
+    expect(generated.key.startsWith(API_KEY_PREFIX)).toBe(true);
+    expect(generated.key.startsWith(generated.prefix)).toBe(true);
+    expect(generated.prefix.length).toBeLessThan(generated.key.length);
+    expect(generated.hash).toBe(hashApiKey(generated.key));
+    expect(generated.hash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('generates a different key each time', () => {
+    expect(generateApiKey().key).not.toBe(generateApiKey().key);
+  });
+
+  it('reads the key from a bearer header', () => {
+    const { key } = generateApiKey();
+
+    expect(getBearerApiKey(`Bearer ${key}`)).toBe(key);
+    expect(getBearerApiKey(`bearer ${key}`)).toBe(key);
+    expect(getBearerApiKey(null)).toBeNull();
+    expect(getBearerApiKey(key)).toBeNull();
+    expect(getBearerApiKey('Bearer some-session-token')).toBeNull();
+  });
+});
+
+describe('api key utilities', () => {
+  const now = new Date('2026-02-01T12:00:00Z');
+
+  it('recognises scopes', () => {
+    expect(isApiKeyScope('transactions:read')).toBe(true);
+    expect(isApiKeyScope('transactions:delete')).toBe(false);
+    expect(hasApiKeyScope(['reports:read'], 'reports:read')).toBe(true);
+    expect(hasApiKeyScope(['reports:read'], 'transactions:write')).toBe(false);
+  });
+
+  it('works out a key status, with revoked winning over expired', () => {
+    expect(getApiKeyStatus({ expires_at: null, revoked_at: null }, now)).toBe('active');
+    expect(getApiKeyStatus({ expires_at: '2026-03-01T00:00:00Z', revoked_at: null }, now)).toBe('active');
+    expect(getApiKeyStatus({ expires_at: '2026-01-01T00:00:00Z', revoked_at: null }, now)).toBe('expired');
+    expect(getApiKeyStatus({ expires_at: '2026-01-01T00:00:00Z', revoked_at: '2025-12-01T00:00:00Z' }, now)).toBe('revoked');
+  });
+
+  it('validates new keys', () => {
+    expect(validateApiKeyInput({ name: 'Sync', scopes: ['transactions:read'], expires_at: null }, now).isValid).toBe(true);
+
+    const result = validateApiKeyInput(
+      { name: ' ', scopes: ['transactions:delete' as any], expires_at: '2026-01-01T00:00:00Z' },
+      now
+    );
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual([
+      'name is required',
+      'unknown scopes: transactions:delete',
+      'expires_at must be in the future',
+    ]);
+    expect(validateApiKeyInput({ name: 'Sync', scopes: [], expires_at: null }, now).errors).toEqual([
+      'at least one scope is required',
+    ]);
+  });
+});
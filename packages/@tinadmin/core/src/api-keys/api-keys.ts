@@ -0,0 +1,161 @@
+/**
+ * API Key Management
+ *
+ * Create, list, rotate and revoke a tenant's API keys. Callers check api.access first; writes
+ * go through the admin client because tenant members can only read api_keys.
+ */
+
+import { createAdminClient } from "../database/admin-client";
+import { generateApiKey } from "./keys";
+import { API_KEY_ROTATION_GRACE_HOURS, validateApiKeyInput } from "./utils";
+import type { ApiKey, ApiKeyInput, CreatedApiKey } from "./types";
+
+// Every column except the hash
+const API_KEY_COLUMNS =
+  "id, tenant_id, name, key_prefix, scopes, company_profile_ids, created_by, expires_at, last_used_at, revoked_at, revoked_by, rotated_from_id, created_at";
+
+/**
+ * Get a tenant's API keys, newest first
+ */
+export async function getApiKeys(tenantId: string): Promise<ApiKey[]> {
+  const adminClient = createAdminClient();
+  const result: { data: ApiKey[] | null; error: any } = await ((adminClient
+    .from("api_keys") as any)
+    .select(API_KEY_COLUMNS)
+    .eq("tenant_id", tenantId)
+    .order("created_at", { ascending: false }));
+
+  if (result.error) throw result.error;
+  return result.data || [];
+}
+
+/**
+ * Create a key for a tenant. The returned key value is the only copy.
+ */
+export async function createApiKey(
+  tenantId: string,
+  userId: string,
+  input: ApiKeyInput,
+  rotatedFromId: string | null = null
+): Promise<CreatedApiKey> {
+  const validation = validateApiKeyInput(input);
+  if (!validation.isValid) {
+    throw new Error(validation.errors.join("; "));
+  }
+
+  const adminClient = createAdminClient();
+  const companyProfileIds = input.company_profile_ids?.length ? input.company_profile_ids : null;
+
+  // A key can only be limited to companies in its own tenant
+  if (companyProfileIds) {
+    const profilesResult: { data: { id: string }[] | null; error: any } = await ((adminClient
+      .from("company_profiles" as any) as any)
+      .select("id")
+      .eq("tenant_id", tenantId)
+      .in("id", companyProfileIds));
+
+    if (profilesResult.error) throw profilesResult.error;
+    if ((profilesResult.data || []).length !== new Set(companyProfileIds).size) {
+      throw new Error("Every company must belong to this tenant");
+    }
+  }
+
+  const { key, prefix, hash } = generateApiKey();
+  const result: { data: ApiKey | null; error: any } = await ((adminClient
+    .from("api_keys") as any)
+    .insert({
+      tenant_id: tenantId,
+      name: input.name.trim(),
+      key_prefix: prefix,
+      key_hash: hash,
+      scopes: input.scopes,
+      company_profile_ids: companyProfileIds,
+      created_by: userId,
+      expires_at: input.expires_at,
+      rotated_from_id: rotatedFromId,
+    })
+    .select(API_KEY_COLUMNS)
+    .single());
+
+  if (result.error) throw result.error;
+  if (!result.data) throw new Error("Failed to create API key");
+
+  return { apiKey: result.data, key };
+}
+
+/**
+ * Revoke a key straight away
+ */
+export async function revokeApiKey(tenantId: string, id: string, userId: string): Promise<void> {
+  const adminClient = createAdminClient();
+  const result: { data: { id: string }[] | null; error: any } = await ((adminClient
+    .from("api_keys") as any)
+    .update({ revoked_at: new Date().toISOString(), revoked_by: userId })
+    .eq("id", id)
+    .eq("tenant_id", tenantId)
+    .is("revoked_at", null)
+    .select("id"));
+
+  if (result.error) throw result.error;
+  if (!result.data || result.data.length === 0) {
+    throw new Error("API key not found or already revoked");
+  }
+}
+
+/**
+ * Replace a key with a new one with the same name, scopes, companies and lifetime. The old
+ * key keeps working for API_KEY_ROTATION_GRACE_HOURS (or until it expires, if sooner).
+ */
+export async function rotateApiKey(tenantId: string, id: string, userId: string): Promise<CreatedApiKey> {
+  const adminClient = createAdminClient();
+  const currentResult: { data: ApiKey | null; error: any } = await ((adminClient
+    .from("api_keys") as any)
+    .select(API_KEY_COLUMNS)
+    .eq("id", id)
+    .eq("tenant_id", tenantId)
+    .single());
+
+  const current = currentResult.data;
+  if (currentResult.error || !current) {
+    throw new Error("API key not found");
+  }
+  if (current.revoked_at) {
+    throw new Error("A revoked key can't be rotated");
+  }
+
+  const now = Date.now();
+  const graceEnd = new Date(now + API_KEY_ROTATION_GRACE_HOURS * 60 * 60 * 1000);
+  if (current.expires_at && new Date(current.expires_at).getTime() <= now) {
+    throw new Error("An expired key can't be rotated");
+  }
+
+  // The replacement lasts as long as the original was issued for
+  let expiresAt: string | null = null;
+  if (current.expires_at) {
+    const lifetime = new Date(current.expires_at).getTime() - new Date(current.created_at).getTime();
+    expiresAt = new Date(now + lifetime).toISOString();
+  }
+
+  const created = await createApiKey(
+    tenantId,
+    userId,
+    {
+      name: current.name,
+      scopes: current.scopes,
+      expires_at: expiresAt,
+      company_profile_ids: current.company_profile_ids,
+    },
+    current.id
+  );
+
+  const oldExpiry = current.expires_at && new Date(current.expires_at) < graceEnd
+    ? current.expires_at
+    : graceEnd.toISOString();
+  const updateResult: { error: any } = await ((adminClient
+    .from("api_keys") as any)
+    .update({ expires_at: oldExpiry })
+    .eq("id", current.id));
+
+  if (updateResult.error) throw updateResult.error;
+  return created;
+}
@@ -0,0 +1,53 @@
+/**
+ * API KEYS DOMAIN
+ *
+ * Tenant API keys for the public REST API: scopes, expiry, rotation and revocation.
+ * Keys are stored as SHA-256 hashes; the key itself is shown once, when it is created.
+ *
+ * PUBLIC API - Only import from this file!
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+export type {
+  ApiKey,
+  ApiKeyInput,
+  ApiKeyScope,
+  ApiKeyStatus,
+  CreatedApiKey,
+} from './types';
+
+// ============================================================================
+// SCOPES & STATUS
+// ============================================================================
+export {
+  API_KEY_SCOPES,
+  API_KEY_ROTATION_GRACE_HOURS,
+  isApiKeyScope,
+  hasApiKeyScope,
+  getApiKeyStatus,
+  validateApiKeyInput,
+} from './utils';
+
+// ============================================================================
+// KEY SECRETS
+// ============================================================================
+// ⚠️ SERVER-ONLY: Import directly from './keys' in server-side code:
+//   import { generateApiKey, hashApiKey, getBearerApiKey, API_KEY_PREFIX } from '@/core/api-keys/keys';
+//
+// These functions use Node's crypto module and should only be used in:
+// - Server Actions
+// - API Routes
+// Note: Not exported from index to prevent client bundling
+
+// ============================================================================
+// KEY MANAGEMENT
+// ============================================================================
+// ⚠️ SERVER-ONLY: Import directly from './api-keys' in server-side code:
+//   import { getApiKeys, createApiKey, revokeApiKey, rotateApiKey } from '@/core/api-keys/api-keys';
+//
+// These functions use createAdminClient and should only be used in:
+// - Server Actions
+// - API Routes
+// Note: Not exported from index to prevent client bundling
@@ -0,0 +1,52 @@
+/**
+ * API Key Secrets
+ *
+ * Generating and hashing key values. Keys are random and long, so a plain SHA-256 digest is
+ * enough to look them up without storing them.
+ * Server-only: uses Node's crypto module.
+ */
+
+import { createHash, randomBytes } from "crypto";
+
+/**
+ * Every key starts with this, so leaked keys are easy to recognise and scan for
+ */
+export const API_KEY_PREFIX = "tk_live_";
+
+// 32 random bytes, base64url encoded
+const SECRET_BYTES = 32;
+// Characters of the secret kept with the prefix for display
+const DISPLAY_CHARACTERS = 6;
+
+/**
+ * Create a new key value with its display prefix and hash
+ */
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const secret = randomBytes(SECRET_BYTES).toString("base64url");
+  const key = `${API_KEY_PREFIX}${secret}`;
+
+  return {
+    key,
+    prefix: key.slice(0, API_KEY_PREFIX.length + DISPLAY_CHARACTERS),
+    hash: hashApiKey(key),
+  };
+}
+
+/**
+ * SHA-256 hex digest of a key, as stored in api_keys.key_hash
+ */
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * The key from an `Authorization: Bearer <key>` header, or null when there isn't one
+ */
+export function getBearerApiKey(authorization: string | null | undefined): string | null {
+  if (!authorization) return null;
+
+  const match = authorization.match(/^Bearer\s+(\S+)$/i);
+  if (!match || !match[1].startsWith(API_KEY_PREFIX)) return null;
+
+  return match[1];
+}
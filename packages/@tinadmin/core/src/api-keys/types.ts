@@ -0,0 +1,51 @@
+/**
+ * API Key Types
+ */
+
+/**
+ * What a key may do on the public API. Keep in step with the api_keys.scopes check.
+ */
+export type ApiKeyScope =
+  | "statements:write"
+  | "transactions:read"
+  | "transactions:write"
+  | "documents:read"
+  | "reports:read";
+
+export type ApiKeyStatus = "active" | "expired" | "revoked";
+
+/**
+ * An API key as listed. The key itself is never stored; only its prefix is kept for display.
+ */
+export interface ApiKey {
+  id: string;
+  tenant_id: string;
+  name: string;
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  company_profile_ids: string[] | null;
+  created_by: string | null;
+  expires_at: string | null;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  revoked_by: string | null;
+  rotated_from_id: string | null;
+  created_at: string;
+}
+
+export interface ApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  /** ISO timestamp, or null for a key that never expires */
+  expires_at: string | null;
+  /** Companies to limit the key to, or null for every company in the tenant */
+  company_profile_ids?: string[] | null;
+}
+
+/**
+ * A newly created key. `key` is shown to the user once and cannot be retrieved again.
+ */
+export interface CreatedApiKey {
+  apiKey: ApiKey;
+  key: string;
+}
@@ -0,0 +1,108 @@
+/**
+ * API Key Utilities
+ *
+ * Pure functions with no server-only dependencies, safe for client components and tests
+ */
+
+import type { ApiKey, ApiKeyInput, ApiKeyScope, ApiKeyStatus } from "./types";
+
+/**
+ * Every scope a key can be given, with what it allows
+ */
+export const API_KEY_SCOPES: Array<{ scope: ApiKeyScope; label: string; description: string }> = [
+  {
+    scope: "statements:write",
+    label: "Upload statements",
+    description: "Upload bank statements for processing",
+  },
+  {
+    scope: "transactions:read",
+    label: "Read transactions",
+    description: "List and fetch categorized transactions",
+  },
+  {
+    scope: "transactions:write",
+    label: "Update transactions",
+    description: "Change a transaction's category, supplier, VAT and notes",
+  },
+  {
+    scope: "documents:read",
+    label: "Read documents",
+    description: "List and fetch invoices, bills and statements",
+  },
+  {
+    scope: "reports:read",
+    label: "Read reports",
+    description: "Profit and loss, balance sheet, trial balance and aged balances",
+  },
+];
+
+/**
+ * Hours a rotated key keeps working, so integrations can switch to its replacement
+ */
+export const API_KEY_ROTATION_GRACE_HOURS = 24;
+
+/**
+ * Check a value is a known scope
+ */
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return API_KEY_SCOPES.some((entry) => entry.scope === value);
+}
+
+/**
+ * Check a key's scopes include the one a request needs
+ */
+export function hasApiKeyScope(scopes: readonly string[], required: ApiKeyScope): boolean {
+  return scopes.includes(required);
+}
+
+/**
+ * Whether a key can still be used: revoked wins over expired
+ */
+export function getApiKeyStatus(
+  apiKey: Pick<ApiKey, "expires_at" | "revoked_at">,
+  now: Date = new Date()
+): ApiKeyStatus {
+  if (apiKey.revoked_at) return "revoked";
+  if (apiKey.expires_at && new Date(apiKey.expires_at).getTime() <= now.getTime()) return "expired";
+  return "active";
+}
+
+/**
+ * Validate the fields of a new key
+ */
+export function validateApiKeyInput(
+  input: ApiKeyInput,
+  now: Date = new Date()
+): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!input.name || input.name.trim() === "") {
+    errors.push("name is required");
+  } else if (input.name.trim().length > 100) {
+    errors.push("name must be at most 100 characters");
+  }
+
+  if (!Array.isArray(input.scopes) || input.scopes.length === 0) {
+    errors.push("at least one scope is required");
+  } else {
+    const unknown = input.scopes.filter((scope) => !isApiKeyScope(scope));
+    if (unknown.length > 0) {
+      errors.push(`unknown scopes: ${unknown.join(", ")}`);
+    }
+  }
+
+  if (input.expires_at !== null) {
+    const expiresAt = new Date(input.expires_at);
+    if (Number.isNaN(expiresAt.getTime())) {
+      errors.push("expires_at must be a date");
+    } else if (expiresAt.getTime() <= now.getTime()) {
+      errors.push("expires_at must be in the future");
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
@@ -226,6 +226,264 @@ export interface Database {
           updated_at?: string;
         };
       };
+      api_keys: {
+        Row: {
+          id: string;
+          tenant_id: string;
+          name: string;
+          key_prefix: string;
+          key_hash: string;
+          scopes: string[];
+          company_profile_ids: string[] | null;
+          created_by: string | null;
+          expires_at: string | null;
+          last_used_at: string | null;
+          revoked_at: string | null;
+          revoked_by: string | null;
+          rotated_from_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          tenant_id: string;
+          name: string;
+          key_prefix: string;
+          key_hash: string;
+          scopes: string[];
+          company_profile_ids?: string[] | null;
+          created_by?: string | null;
+          expires_at?: string | null;
+          last_used_at?: string | null;
+          revoked_at?: string | null;
+          revoked_by?: string | null;
+          rotated_from_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          tenant_id?: string;
+          name?: string;
+          key_prefix?: string;
+          key_hash?: string;
+          scopes?: string[];
+          company_profile_ids?: string[] | null;
+          created_by?: string | null;
+          expires_at?: string | null;
+          last_used_at?: string | null;
+          revoked_at?: string | null;
+          revoked_by?: string | null;
+          rotated_from_id?: string | null;
+          created_at?: string;
+        };
+      };
+      webhook_endpoints: {
+        Row: {
+          id: string;
+          tenant_id: string;
+          name: string;
+          url: string;
+          events: string[];
+          secret: string;
+          is_active: boolean;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          tenant_id: string;
+          name: string;
+          url: string;
+          events: string[];
+          secret: string;
+          is_active?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          tenant_id?: string;
+          name?: string;
+          url?: string;
+          events?: string[];
+          secret?: string;
+          is_active?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      webhook_events: {
+        Row: {
+          id: string;
+          tenant_id: string;
+          event_type: string;
+          data: Record<string, any>;
+          is_test: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          tenant_id: string;
+          event_type: string;
+          data?: Record<string, any>;
+          is_test?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          tenant_id?: string;
+          event_type?: string;
+          data?: Record<string, any>;
+          is_test?: boolean;
+          created_at?: string;
+        };
+      };
+      webhook_deliveries: {
+        Row: {
+          id: string;
+          event_id: string;
+          endpoint_id: string;
+          tenant_id: string;
+          event_type: string;
+          status: "pending" | "delivered" | "failed";
+          attempts: number;
+          next_attempt_at: string | null;
+          last_attempt_at: string | null;
+          response_status: number | null;
+          response_time_ms: number | null;
+          response_body: string | null;
+          error: string | null;
+          delivered_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          event_id: string;
+          endpoint_id: string;
+          tenant_id: string;
+          event_type: string;
+          status?: "pending" | "delivered" | "failed";
+          attempts?: number;
+          next_attempt_at?: string | null;
+          last_attempt_at?: string | null;
+          response_status?: number | null;
+          response_time_ms?: number | null;
+          response_body?: string | null;
+          error?: string | null;
+          delivered_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          event_id?: string;
+          endpoint_id?: string;
+          tenant_id?: string;
+          event_type?: string;
+          status?: "pending" | "delivered" | "failed";
+          attempts?: number;
+          next_attempt_at?: string | null;
+          last_attempt_at?: string | null;
+          response_status?: number | null;
+          response_time_ms?: number | null;
+          response_body?: string | null;
+          error?: string | null;
+          delivered_at?: string | null;
+          created_at?: string;
+        };
+      };
+      job_queue: {
+        Row: {
+          id: string;
+          tenant_id: string | null;
+          user_id: string;
+          job_type: "spreadsheet" | "bank_statement_pdf" | "invoice_ocr" | "sheets_sync" | "document_ocr";
+          categorization_job_id: string | null;
+          financial_document_id: string | null;
+          payload: Record<string, any>;
+          priority: number;
+          status: "queued" | "running" | "completed" | "dead" | "cancelled";
+          attempts: number;
+          max_attempts: number;
+          run_at: string;
+          locked_by: string | null;
+          locked_at: string | null;
+          lease_expires_at: string | null;
+          heartbeat_at: string | null;
+          last_error: string | null;
+          last_error_code: string | null;
+          error_history: Record<string, any>[];
+          created_at: string;
+          updated_at: string;
+          completed_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          tenant_id?: string | null;
+          user_id: string;
+          job_type: "spreadsheet" | "bank_statement_pdf" | "invoice_ocr" | "sheets_sync" | "document_ocr";
+          categorization_job_id?: string | null;
+          financial_document_id?: string | null;
+          payload?: Record<string, any>;
+          priority?: number;
+          status?: "queued" | "running" | "completed" | "dead" | "cancelled";
+          attempts?: number;
+          max_attempts?: number;
+          run_at?: string;
+          locked_by?: string | null;
+          locked_at?: string | null;
+          lease_expires_at?: string | null;
+          heartbeat_at?: string | null;
+          last_error?: string | null;
+          last_error_code?: string | null;
+          error_history?: Record<string, any>[];
+          created_at?: string;
+          updated_at?: string;
+          completed_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          tenant_id?: string | null;
+          user_id?: string;
+          job_type?: "spreadsheet" | "bank_statement_pdf" | "invoice_ocr" | "sheets_sync" | "document_ocr";
+          categorization_job_id?: string | null;
+          financial_document_id?: string | null;
+          payload?: Record<string, any>;
+          priority?: number;
+          status?: "queued" | "running" | "completed" | "dead" | "cancelled";
+          attempts?: number;
+          max_attempts?: number;
+          run_at?: string;
+          locked_by?: string | null;
+          locked_at?: string | null;
+          lease_expires_at?: string | null;
+          heartbeat_at?: string | null;
+          last_error?: string | null;
+          last_error_code?: string | null;
+          error_history?: Record<string, any>[];
+          created_at?: string;
+          updated_at?: string;
+          completed_at?: string | null;
+        };
+      };
+      job_queue_tenant_limits: {
+        Row: {
+          tenant_id: string;
+          max_concurrent: number;
+          updated_at: string;
+        };
+        Insert: {
+          tenant_id: string;
+          max_concurrent: number;
+          updated_at?: string;
+        };
+        Update: {
+          tenant_id?: string;
+          max_concurrent?: number;
+          updated_at?: string;
+        };
+      };
       stripe_customers: {
         Row: {
           id: string;
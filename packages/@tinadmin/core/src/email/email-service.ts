@@ -319,7 +319,7 @@ async function applyWhiteLabel(params: SendEmailParams): Promise<SendEmailParams
 async function getTenantWhiteLabel(tenantId: string): Promise<any> {
   try {
     // Import Supabase client
-    const { createAdminClient } = await import('@/core/database/admin-client');
+    const { createAdminClient } = await import('../database/admin-client');
     const supabase = createAdminClient();
     
     const tenantResult: { data: { branding: any; theme_settings: any; custom_domains: any } | null; error: any } = await supabase
@@ -115,6 +115,54 @@ export * from './permissions';
  */
 export * from './database';
 
+// ============================================================================
+// 🔑 API KEYS DOMAIN
+// ============================================================================
+/**
+ * Tenant API keys for the public REST API: scopes, expiry and rotation.
+ * 
+ * @example
+ * ```typescript
+ * import { API_KEY_SCOPES, getApiKeyStatus } from '@/core';
+ * 
+ * // Or import from domain:
+ * import { hasApiKeyScope } from '@/core/api-keys';
+ * ```
+ */
+export * from './api-keys';
+
+// ============================================================================
+// 🔔 WEBHOOKS DOMAIN
+// ============================================================================
+/**
+ * Outbound webhooks: endpoints, event catalog and signed deliveries with retries.
+ * 
+ * @example
+ * ```typescript
+ * import { WEBHOOK_EVENTS, validateWebhookEndpointInput } from '@/core';
+ * 
+ * // Or import from domain:
+ * import { isWebhookEventType } from '@/core/webhooks';
+ * ```
+ */
+export * from './webhooks';
+
+// ============================================================================
+// ⏳ JOB QUEUE DOMAIN
+// ============================================================================
+/**
+ * Durable background job queue: leases, retries, dead-lettering and tenant concurrency.
+ * 
+ * @example
+ * ```typescript
+ * import { QUEUE_JOB_TYPES, getQueueRetryDelaySeconds } from '@/core';
+ * 
+ * // Or import from domain:
+ * import { getQueueJobTypeForCategorizationJob } from '@/core/job-queue';
+ * ```
+ */
+export * from './job-queue';
+
 // ============================================================================
 // 🔧 SHARED DOMAIN
 // ============================================================================
@@ -157,6 +205,9 @@ export const CORE_METADATA = {
     'billing',
     'permissions',
     'database',
+    'api-keys',
+    'webhooks',
+    'job-queue',
     'shared',
   ],
   name: '@yourcompany/saas-core',
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { failQueueJob, releaseQueueJob } from '../queue';
+import {
+  getQueueJobTypeForCategorizationJob,
+  getQueueRetryDelaySeconds,
+  isQueueJobType,
+  isUploadQueueJobType,
+} from '../utils';
+
+/** Records the update failQueueJob sends, standing in for a Supabase client */
+function recordingClient() {
+  const calls: { update?: Record<string, any>; filters: Array<[string, unknown]> } = { filters: [] };
+  const builder: any = {
+    update(values: Record<string, any>) {
+      calls.update = values;
+      return builder;
+    },
+    eq(column: string, value: unknown) {
+      calls.filters.push([column, value]);
+      return builder;
+    },
+    then(resolve: (value: { error: null }) => void) {
+      resolve({ error: null });
+    },
+  };
+  return { client: { from: () => builder } as any, calls };
+}
+
+const runningJob = {
+  id: 'job-1',
+  locked_by: 'worker-a',
+  attempts: 1,
+  max_attempts: 3,
+  error_history: [],
+};
+
+describe('queue retries', () => {
+  it('backs off from 30 seconds up to an hour', () => {
+    expect(getQueueRetryDelaySeconds(1)).toBe(30);
+    expect(getQueueRetryDelaySeconds(2)).toBe(120);
+    expect(getQueueRetryDelaySeconds(3)).toBe(480);
+    expect(getQueueRetryDelaySeconds(5)).toBe(3600);
+    expect(getQueueRetryDelaySeconds(12)).toBe(3600);
+  });
+
+  it('requeues a retryable failure with attempts left', async () => {
+    const { client, calls } = recordingClient();
+    const result = await failQueueJob(client, runningJob, {
+      code: 'DOWNLOAD_FAILED',
+      message: 'Failed to download file',
+      retryable: true,
+    });
+
+    expect(result.status).toBe('queued');
+    expect(result.runAt).not.toBeNull();
+    expect(calls.update).toMatchObject({ status: 'queued', last_error_code: 'DOWNLOAD_FAILED', completed_at: null });
+    expect(calls.update?.error_history).toEqual([
+      expect.objectContaining({ attempt: 1, code: 'DOWNLOAD_FAILED', message: 'Failed to download file' }),
+    ]);
+    // Scoped to the worker's lease
+    expect(calls.filters).toContainEqual(['locked_by', 'worker-a']);
+  });
+
+  it('dead-letters permanent failures and the last attempt', async () => {
+    const permanent = recordingClient();
+    expect(
+      (await failQueueJob(permanent.client, runningJob, { code: 'PARSING_ERROR', message: 'x', retryable: false }))
+        .status
+    ).toBe('dead');
+
+    const lastAttempt = recordingClient();
+    const result = await failQueueJob(
+      lastAttempt.client,
+      { ...runningJob, attempts: 3 },
+      { code: 'TIMEOUT', message: 'x', retryable: true }
+    );
+    expect(result).toEqual({ status: 'dead', runAt: null });
+    expect(lastAttempt.calls.update?.run_at).toBeUndefined();
+  });
+
+  it('releases a paused job without using up an attempt', async () => {
+    const { client, calls } = recordingClient();
+    await releaseQueueJob(client, { ...runningJob, attempts: 2 });
+
+    expect(calls.update).toMatchObject({ status: 'queued', attempts: 1, locked_by: null });
+    expect(calls.update?.error_history).toBeUndefined();
+    expect(calls.filters).toContainEqual(['locked_by', 'worker-a']);
+  });
+});
+
+describe('queue job types', () => {
+  it('maps categorization job types to queue job types', () => {
+    expect(getQueueJobTypeForCategorizationJob('spreadsheet')).toBe('spreadsheet');
+    expect(getQueueJobTypeForCategorizationJob(null)).toBe('spreadsheet');
+    expect(getQueueJobTypeForCategorizationJob('bank_statement_pdf')).toBe('bank_statement_pdf');
+    expect(getQueueJobTypeForCategorizationJob('batch_receipt')).toBe('invoice_ocr');
+    expect(getQueueJobTypeForCategorizationJob('invoice')).toBe('invoice_ocr');
+  });
+
+  it('recognises queue job types', () => {
+    expect(isQueueJobType('invoice_ocr')).toBe(true);
+    expect(isQueueJobType('sheets_sync')).toBe(true);
+    expect(isQueueJobType('spreadsheet_sync')).toBe(false);
+  });
+
+  it('only treats upload jobs as carrying a categorization job', () => {
+    expect(isUploadQueueJobType('spreadsheet')).toBe(true);
+    expect(isUploadQueueJobType('invoice_ocr')).toBe(true);
+    expect(isUploadQueueJobType('sheets_sync')).toBe(false);
+    expect(isUploadQueueJobType('document_ocr')).toBe(false);
+  });
+});
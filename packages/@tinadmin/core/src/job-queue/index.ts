@@ -0,0 +1,64 @@
+/**
+ * JOB QUEUE DOMAIN
+ *
+ * Durable background processing for categorization jobs, sheet syncs and document OCR: workers
+ * claim jobs under a lease they keep alive with heartbeats, failures are retried with backoff and
+ * then dead-lettered, and each tenant has a cap on jobs running at once.
+ *
+ * PUBLIC API - Only import from this file!
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+export type {
+  EnqueueJobInput,
+  QueueJob,
+  QueueJobError,
+  QueueJobFailureResult,
+  QueueJobFilters,
+  QueueJobListEntry,
+  QueueJobStats,
+  QueueJobStatus,
+  QueueJobType,
+} from './types';
+
+// ============================================================================
+// CONSTANTS & UTILITIES
+// ============================================================================
+export {
+  QUEUE_JOB_TYPES,
+  QUEUE_JOB_STATUSES,
+  QUEUE_DEFAULT_MAX_ATTEMPTS,
+  QUEUE_LEASE_SECONDS,
+  QUEUE_HEARTBEAT_SECONDS,
+  QUEUE_DEFAULT_CONCURRENCY,
+  QUEUE_MAX_CONCURRENCY,
+  getQueueRetryDelaySeconds,
+  isQueueJobType,
+  getQueueJobTypeLabel,
+  getQueueJobTypeForCategorizationJob,
+  isUploadQueueJobType,
+} from './utils';
+
+// ============================================================================
+// QUEUE OPERATIONS
+// ============================================================================
+// ⚠️ SERVER-ONLY: Import directly from './queue' in server-side code:
+//   import { enqueueQueueJob, claimQueueJobs, failQueueJob, releaseQueueJob } from '@/core/job-queue/queue';
+//
+// These functions take a service role client and should only be used in:
+// - API Routes
+// - Cron jobs
+// Note: Not exported from index to prevent client bundling
+
+// ============================================================================
+// MANAGEMENT
+// ============================================================================
+// ⚠️ SERVER-ONLY: Import directly from './management' in server-side code:
+//   import { getQueueJobs, retryQueueJob, setQueueConcurrencyLimit } from '@/core/job-queue/management';
+//
+// These functions use createAdminClient and should only be used in:
+// - Server Actions
+// - API Routes
+// Note: Not exported from index to prevent client bundling
@@ -0,0 +1,164 @@
+/**
+ * Job Queue Management
+ *
+ * The jobs view for a tenant: listing, counts, retrying dead jobs, cancelling queued ones and
+ * the tenant's concurrency limit. Callers check permissions first; everything goes through the
+ * admin client.
+ */
+
+import { createAdminClient } from "../database/admin-client";
+import { QUEUE_DEFAULT_CONCURRENCY, QUEUE_JOB_STATUSES, QUEUE_MAX_CONCURRENCY, isUploadQueueJobType } from "./utils";
+import type { QueueJob, QueueJobFilters, QueueJobListEntry, QueueJobStats } from "./types";
+
+/**
+ * Get a tenant's queue jobs, newest first, with the file or document each one processes
+ */
+export async function getQueueJobs(tenantId: string, filters: QueueJobFilters = {}): Promise<QueueJobListEntry[]> {
+  const adminClient = createAdminClient();
+  let query = (adminClient.from("job_queue") as any)
+    .select(
+      "*, categorization_job:categorization_jobs(original_filename, status), financial_document:financial_documents(original_filename, ocr_status)"
+    )
+    .eq("tenant_id", tenantId)
+    .order("created_at", { ascending: false })
+    .limit(filters.limit ?? 100);
+
+  if (filters.status) {
+    query = query.eq("status", filters.status);
+  }
+  if (filters.jobType) {
+    query = query.eq("job_type", filters.jobType);
+  }
+
+  const result: { data: QueueJobListEntry[] | null; error: any } = await query;
+  if (result.error) throw result.error;
+  return result.data || [];
+}
+
+/**
+ * Count a tenant's queue jobs by status
+ */
+export async function getQueueStats(tenantId: string): Promise<QueueJobStats> {
+  const adminClient = createAdminClient();
+  const counts = await Promise.all(
+    QUEUE_JOB_STATUSES.map(async (status) => {
+      const result: { count: number | null; error: any } = await ((adminClient
+        .from("job_queue") as any)
+        .select("id", { count: "exact", head: true })
+        .eq("tenant_id", tenantId)
+        .eq("status", status));
+
+      if (result.error) throw result.error;
+      return [status, result.count || 0] as const;
+    })
+  );
+
+  return Object.fromEntries(counts) as QueueJobStats;
+}
+
+/**
+ * Put a dead or cancelled job back on the queue with a fresh set of attempts
+ */
+export async function retryQueueJob(tenantId: string, id: string): Promise<QueueJob> {
+  const adminClient = createAdminClient();
+  const result: { data: QueueJob | null; error: any } = await ((adminClient
+    .from("job_queue") as any)
+    .update({
+      status: "queued",
+      attempts: 0,
+      run_at: new Date().toISOString(),
+      completed_at: null,
+    })
+    .eq("id", id)
+    .eq("tenant_id", tenantId)
+    .in("status", ["dead", "cancelled"])
+    .select("*")
+    .maybeSingle());
+
+  if (result.error) {
+    // The categorization job has been queued again since
+    if (result.error.code === "23505") {
+      throw new Error("This file is already queued for processing");
+    }
+    throw result.error;
+  }
+  if (!result.data) throw new Error("Only dead or cancelled jobs can be retried");
+  if (!isUploadQueueJobType(result.data.job_type)) return result.data;
+
+  const jobResult: { error: any } = await ((adminClient
+    .from("categorization_jobs") as any)
+    .update({
+      status: "queued",
+      status_message: "Queued for retry processing...",
+      error_code: null,
+      error_message: null,
+      completed_at: null,
+    })
+    .eq("id", result.data.categorization_job_id));
+
+  if (jobResult.error) throw jobResult.error;
+  return result.data;
+}
+
+/**
+ * Cancel a job that hasn't started. Running jobs finish their current attempt.
+ */
+export async function cancelQueueJob(tenantId: string, id: string): Promise<QueueJob> {
+  const adminClient = createAdminClient();
+  const result: { data: QueueJob | null; error: any } = await ((adminClient
+    .from("job_queue") as any)
+    .update({
+      status: "cancelled",
+      completed_at: new Date().toISOString(),
+    })
+    .eq("id", id)
+    .eq("tenant_id", tenantId)
+    .eq("status", "queued")
+    .select("*")
+    .maybeSingle());
+
+  if (result.error) throw result.error;
+  if (!result.data) throw new Error("Only queued jobs can be cancelled");
+  if (!isUploadQueueJobType(result.data.job_type)) return result.data;
+
+  const jobResult: { error: any } = await ((adminClient
+    .from("categorization_jobs") as any)
+    .update({
+      status: "failed",
+      error_message: "Processing was cancelled",
+      status_message: "Processing was cancelled",
+    })
+    .eq("id", result.data.categorization_job_id));
+
+  if (jobResult.error) throw jobResult.error;
+  return result.data;
+}
+
+/**
+ * How many jobs the tenant can have running at once
+ */
+export async function getQueueConcurrencyLimit(tenantId: string): Promise<number> {
+  const adminClient = createAdminClient();
+  const result: { data: { max_concurrent: number } | null; error: any } = await ((adminClient
+    .from("job_queue_tenant_limits") as any)
+    .select("max_concurrent")
+    .eq("tenant_id", tenantId)
+    .maybeSingle());
+
+  if (result.error) throw result.error;
+  return result.data?.max_concurrent ?? QUEUE_DEFAULT_CONCURRENCY;
+}
+
+export async function setQueueConcurrencyLimit(tenantId: string, maxConcurrent: number): Promise<number> {
+  if (!Number.isInteger(maxConcurrent) || maxConcurrent < 1 || maxConcurrent > QUEUE_MAX_CONCURRENCY) {
+    throw new Error(`Concurrency limit must be a whole number from 1 to ${QUEUE_MAX_CONCURRENCY}`);
+  }
+
+  const adminClient = createAdminClient();
+  const result: { error: any } = await ((adminClient
+    .from("job_queue_tenant_limits") as any)
+    .upsert({ tenant_id: tenantId, max_concurrent: maxConcurrent }, { onConflict: "tenant_id" }));
+
+  if (result.error) throw result.error;
+  return maxConcurrent;
+}
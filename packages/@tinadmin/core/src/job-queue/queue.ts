@@ -0,0 +1,192 @@
+/**
+ * Job Queue
+ *
+ * Enqueue, claim, heartbeat and finish queue jobs. A worker claims jobs through
+ * claim_queue_jobs, which leases them under the worker's id; every later update is scoped to
+ * that lease, so a worker that lost its job to a reclaim can't overwrite the new attempt.
+ * Takes a service role client so uploads, the worker and the admin app share it.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  QUEUE_DEFAULT_CONCURRENCY,
+  QUEUE_DEFAULT_MAX_ATTEMPTS,
+  QUEUE_LEASE_SECONDS,
+  getQueueRetryDelaySeconds,
+} from "./utils";
+import type { EnqueueJobInput, QueueJob, QueueJobFailureResult } from "./types";
+
+// Postgres unique_violation: the same work is already queued or running
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Queue a job for processing. Queuing work that is already queued or running (the same job
+ * type on the same categorization job, or OCR for the same document) returns the existing
+ * queue job rather than adding a second.
+ */
+export async function enqueueQueueJob(
+  client: SupabaseClient<any>,
+  input: EnqueueJobInput
+): Promise<QueueJob> {
+  const result: { data: QueueJob | null; error: any } = await (client.from("job_queue") as any)
+    .insert({
+      tenant_id: input.tenantId ?? null,
+      user_id: input.userId,
+      job_type: input.jobType,
+      categorization_job_id: input.categorizationJobId ?? null,
+      financial_document_id: input.financialDocumentId ?? null,
+      payload: input.payload || {},
+      priority: input.priority ?? 0,
+      max_attempts: input.maxAttempts ?? QUEUE_DEFAULT_MAX_ATTEMPTS,
+    })
+    .select("*")
+    .single();
+
+  if (result.error?.code === UNIQUE_VIOLATION) {
+    let existingQuery = (client.from("job_queue") as any)
+      .select("*")
+      .eq("job_type", input.jobType)
+      .in("status", ["queued", "running"]);
+    existingQuery = input.financialDocumentId
+      ? existingQuery.eq("financial_document_id", input.financialDocumentId)
+      : existingQuery.eq("categorization_job_id", input.categorizationJobId);
+
+    // A sheet sync can be queued behind a running one; the queued one picks up later changes
+    const existing: { data: QueueJob | null; error: any } = await existingQuery
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (existing.error) throw existing.error;
+    if (existing.data) return existing.data;
+  }
+  if (result.error) throw result.error;
+  if (!result.data) throw new Error("Failed to queue job");
+  return result.data;
+}
+
+/**
+ * Claim due jobs for a worker. Also reclaims jobs whose lease has run out.
+ */
+export async function claimQueueJobs(
+  client: SupabaseClient<any>,
+  workerId: string,
+  options: { limit?: number; leaseSeconds?: number; defaultConcurrency?: number } = {}
+): Promise<QueueJob[]> {
+  const result: { data: QueueJob[] | null; error: any } = await (client as any).rpc("claim_queue_jobs", {
+    p_worker_id: workerId,
+    p_limit: options.limit ?? 1,
+    p_lease_seconds: options.leaseSeconds ?? QUEUE_LEASE_SECONDS,
+    p_default_concurrency: options.defaultConcurrency ?? QUEUE_DEFAULT_CONCURRENCY,
+  });
+
+  if (result.error) throw result.error;
+  return result.data || [];
+}
+
+/**
+ * Extend a running job's lease. False when the worker no longer holds it.
+ */
+export async function heartbeatQueueJob(
+  client: SupabaseClient<any>,
+  job: Pick<QueueJob, "id" | "locked_by">,
+  leaseSeconds: number = QUEUE_LEASE_SECONDS
+): Promise<boolean> {
+  const now = new Date();
+  const result: { data: Array<{ id: string }> | null; error: any } = await (client.from("job_queue") as any)
+    .update({
+      heartbeat_at: now.toISOString(),
+      lease_expires_at: new Date(now.getTime() + leaseSeconds * 1000).toISOString(),
+    })
+    .eq("id", job.id)
+    .eq("status", "running")
+    .eq("locked_by", job.locked_by)
+    .select("id");
+
+  if (result.error) throw result.error;
+  return (result.data || []).length > 0;
+}
+
+/**
+ * Mark a running job completed
+ */
+export async function completeQueueJob(
+  client: SupabaseClient<any>,
+  job: Pick<QueueJob, "id" | "locked_by">
+): Promise<void> {
+  const result: { error: any } = await (client.from("job_queue") as any)
+    .update({
+      status: "completed",
+      locked_by: null,
+      locked_at: null,
+      lease_expires_at: null,
+      completed_at: new Date().toISOString(),
+    })
+    .eq("id", job.id)
+    .eq("status", "running")
+    .eq("locked_by", job.locked_by);
+
+  if (result.error) throw result.error;
+}
+
+/**
+ * Record a failed attempt. Retryable failures go back on the queue with backoff until the job
+ * runs out of attempts; anything else dead-letters it.
+ */
+export async function failQueueJob(
+  client: SupabaseClient<any>,
+  job: Pick<QueueJob, "id" | "locked_by" | "attempts" | "max_attempts" | "error_history">,
+  failure: { code: string; message: string; retryable: boolean }
+): Promise<QueueJobFailureResult> {
+  const now = new Date();
+  const retry = failure.retryable && job.attempts < job.max_attempts;
+  const runAt = retry
+    ? new Date(now.getTime() + getQueueRetryDelaySeconds(job.attempts) * 1000).toISOString()
+    : null;
+
+  const result: { error: any } = await (client.from("job_queue") as any)
+    .update({
+      status: retry ? "queued" : "dead",
+      ...(runAt ? { run_at: runAt } : {}),
+      locked_by: null,
+      locked_at: null,
+      lease_expires_at: null,
+      last_error: failure.message,
+      last_error_code: failure.code,
+      error_history: [
+        ...(job.error_history || []),
+        { attempt: job.attempts, code: failure.code, message: failure.message, at: now.toISOString() },
+      ],
+      completed_at: retry ? null : now.toISOString(),
+    })
+    .eq("id", job.id)
+    .eq("status", "running")
+    .eq("locked_by", job.locked_by);
+
+  if (result.error) throw result.error;
+  return { status: retry ? "queued" : "dead", runAt };
+}
+
+/**
+ * Put a running job back on the queue to continue later, such as an import that paused at the
+ * end of a worker run with its progress checkpointed. The attempt isn't counted against the job.
+ */
+export async function releaseQueueJob(
+  client: SupabaseClient<any>,
+  job: Pick<QueueJob, "id" | "locked_by" | "attempts">,
+  delaySeconds: number = 0
+): Promise<void> {
+  const result: { error: any } = await (client.from("job_queue") as any)
+    .update({
+      status: "queued",
+      run_at: new Date(Date.now() + delaySeconds * 1000).toISOString(),
+      attempts: Math.max(job.attempts - 1, 0),
+      locked_by: null,
+      locked_at: null,
+      lease_expires_at: null,
+    })
+    .eq("id", job.id)
+    .eq("status", "running")
+    .eq("locked_by", job.locked_by);
+
+  if (result.error) throw result.error;
+}
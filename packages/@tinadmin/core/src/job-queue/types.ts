@@ -0,0 +1,84 @@
+/**
+ * Job Queue Types
+ */
+
+/**
+ * Kinds of work the queue runs. Keep in step with the job_queue.job_type check.
+ */
+export type QueueJobType = "spreadsheet" | "bank_statement_pdf" | "invoice_ocr" | "sheets_sync" | "document_ocr";
+
+export type QueueJobStatus = "queued" | "running" | "completed" | "dead" | "cancelled";
+
+/**
+ * One failed attempt, as kept in error_history
+ */
+export interface QueueJobError {
+  attempt: number;
+  code: string;
+  message: string;
+  at: string;
+}
+
+/**
+ * A unit of background work, with its lease and retry state. Every job works on a
+ * categorization job, except document OCR, which works on a financial document.
+ */
+export interface QueueJob {
+  id: string;
+  tenant_id: string | null;
+  user_id: string;
+  job_type: QueueJobType;
+  categorization_job_id: string | null;
+  financial_document_id: string | null;
+  payload: Record<string, unknown>;
+  priority: number;
+  status: QueueJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_by: string | null;
+  locked_at: string | null;
+  lease_expires_at: string | null;
+  heartbeat_at: string | null;
+  last_error: string | null;
+  last_error_code: string | null;
+  error_history: QueueJobError[];
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+/**
+ * A queue job as listed in the jobs view
+ */
+export interface QueueJobListEntry extends QueueJob {
+  categorization_job: { original_filename: string | null; status: string } | null;
+  financial_document: { original_filename: string | null; ocr_status: string | null } | null;
+}
+
+export interface EnqueueJobInput {
+  jobType: QueueJobType;
+  categorizationJobId?: string | null;
+  financialDocumentId?: string | null;
+  userId: string;
+  tenantId?: string | null;
+  payload?: Record<string, unknown>;
+  priority?: number;
+  maxAttempts?: number;
+}
+
+/**
+ * How a failed attempt ended: queued again for a later retry, or dead
+ */
+export interface QueueJobFailureResult {
+  status: "queued" | "dead";
+  runAt: string | null;
+}
+
+export interface QueueJobFilters {
+  status?: QueueJobStatus;
+  jobType?: QueueJobType;
+  limit?: number;
+}
+
+export type QueueJobStats = Record<QueueJobStatus, number>;
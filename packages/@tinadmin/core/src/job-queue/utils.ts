@@ -0,0 +1,72 @@
+/**
+ * Job Queue Utilities
+ *
+ * Pure functions with no server-only dependencies, safe for client components and tests
+ */
+
+import type { QueueJobStatus, QueueJobType } from "./types";
+
+export const QUEUE_JOB_TYPES: Array<{ type: QueueJobType; label: string }> = [
+  { type: "spreadsheet", label: "Spreadsheet statement" },
+  { type: "bank_statement_pdf", label: "PDF bank statement" },
+  { type: "invoice_ocr", label: "Invoice & receipt OCR" },
+  { type: "sheets_sync", label: "Google Sheets sync" },
+  { type: "document_ocr", label: "Document OCR" },
+];
+
+/** Job types that process a categorization job's upload, whose status follows the queue job */
+const UPLOAD_QUEUE_JOB_TYPES: ReadonlySet<QueueJobType> = new Set<QueueJobType>([
+  "spreadsheet",
+  "bank_statement_pdf",
+  "invoice_ocr",
+]);
+
+export const QUEUE_JOB_STATUSES: QueueJobStatus[] = ["queued", "running", "completed", "dead", "cancelled"];
+
+export const QUEUE_DEFAULT_MAX_ATTEMPTS = 3;
+
+/** Seconds a claimed job stays leased without a heartbeat before it is reclaimed */
+export const QUEUE_LEASE_SECONDS = 120;
+
+/** Seconds between heartbeats; well inside the lease so one slow write doesn't lose it */
+export const QUEUE_HEARTBEAT_SECONDS = 30;
+
+/** Jobs a tenant can have running at once unless it has its own limit */
+export const QUEUE_DEFAULT_CONCURRENCY = 2;
+
+export const QUEUE_MAX_CONCURRENCY = 20;
+
+/**
+ * Seconds to wait before retrying after the given failed attempt (1-based): 30 seconds,
+ * 2 minutes, 8 minutes, ... capped at an hour.
+ */
+export function getQueueRetryDelaySeconds(attempt: number): number {
+  const delay = 30 * Math.pow(4, Math.max(attempt, 1) - 1);
+  return Math.min(delay, 60 * 60);
+}
+
+export function isQueueJobType(value: string): value is QueueJobType {
+  return QUEUE_JOB_TYPES.some((entry) => entry.type === value);
+}
+
+export function getQueueJobTypeLabel(type: QueueJobType): string {
+  return QUEUE_JOB_TYPES.find((entry) => entry.type === type)?.label || type;
+}
+
+/**
+ * Whether a queue job processes its categorization job's upload, so failing, retrying or
+ * cancelling it updates the categorization job too. Syncs leave the job as it is.
+ */
+export function isUploadQueueJobType(type: QueueJobType): boolean {
+  return UPLOAD_QUEUE_JOB_TYPES.has(type);
+}
+
+/**
+ * The queue job type that processes a categorization job of the given job_type: receipts and
+ * invoices, single or batched, all go through OCR.
+ */
+export function getQueueJobTypeForCategorizationJob(jobType: string | null | undefined): QueueJobType {
+  if (jobType === "bank_statement_pdf") return "bank_statement_pdf";
+  if (!jobType || jobType === "spreadsheet") return "spreadsheet";
+  return "invoice_ocr";
+}
@@ -25,4 +25,17 @@ describe('permissions core', () => {
     expect(roleHasPermission('Organization Admin', 'users.write')).toBe(true);
     expect(roleHasPermission('Organization Admin', 'tenants.delete')).toBe(false);
   });
+
+  it('separates reviewing from approving transactions', () => {
+    expect(roleHasPermission('Organization Admin', 'transactions.approve')).toBe(true);
+    expect(roleHasPermission('Organization Admin', 'periods.lock')).toBe(true);
+    expect(roleHasPermission('User', 'transactions.review')).toBe(true);
+    expect(roleHasPermission('User', 'transactions.approve')).toBe(false);
+    expect(roleHasPermission('Guest', 'transactions.read')).toBe(false);
+  });
+
+  it('lets organization admins manage webhooks', () => {
+    expect(roleHasPermission('Organization Admin', 'webhooks.write')).toBe(true);
+    expect(roleHasPermission('User', 'webhooks.read')).toBe(false);
+  });
 });
@@ -24,7 +24,14 @@ export type Permission =
   | "settings.write"
   | "analytics.read"
   | "api.access"
-  | "audit.read";
+  | "audit.read"
+  | "transactions.read"
+  | "transactions.write"
+  | "transactions.review"
+  | "transactions.approve"
+  | "periods.lock"
+  | "webhooks.read"
+  | "webhooks.write";
 
 /**
  * User permissions result
@@ -81,6 +88,13 @@ export const PERMISSIONS = {
   // AUDIT LOGS
   'audit.read': 'View audit logs',
   
+  // BOOKKEEPING (maker/checker: the approver must differ from the last editor)
+  'transactions.read': 'View transactions',
+  'transactions.write': 'Categorize and edit transactions',
+  'transactions.review': 'Mark transactions as reviewed',
+  'transactions.approve': 'Approve reviewed transactions',
+  'periods.lock': 'Lock approved periods against changes',
+  
   // SUPPORT
   'support.read': 'View support tickets',
   'support.write': 'Manage support tickets',
@@ -96,6 +110,7 @@ export const PERMISSION_CATEGORIES = {
   SETTINGS: ['settings.*', 'whitelabel.*'],
   INTEGRATIONS: ['integrations.*', 'webhooks.*'],
   SUPPORT: ['support.*'],
+  BOOKKEEPING: ['transactions.*', 'periods.*'],
 } as const;
 
 /**
@@ -112,7 +127,9 @@ export const ROLE_PERMISSIONS = {
     'settings.read', 'settings.write',
     'whitelabel.read', 'whitelabel.write',
     'integrations.read', 'integrations.write',
+    'webhooks.read', 'webhooks.write',
     'support.read', 'support.write',
+    'transactions.*', 'periods.lock',
   ],
   'User': [
     'users.read',
@@ -120,6 +137,7 @@ export const ROLE_PERMISSIONS = {
     'analytics.read',
     'settings.read',
     'support.read', 'support.write',
+    'transactions.read', 'transactions.write', 'transactions.review',
   ],
   'Guest': [
     'settings.read',
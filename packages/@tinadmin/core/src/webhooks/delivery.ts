@@ -0,0 +1,181 @@
+/**
+ * Webhook Delivery
+ *
+ * Sends queued deliveries to their endpoints and records the outcome. Events are queued by
+ * database triggers (enqueue_webhook_event); the deliver-webhooks cron sends whatever is due, and
+ * failed attempts are retried with exponential backoff until WEBHOOK_MAX_ATTEMPTS.
+ * Takes a service role client so it can run from the portal cron and the admin app alike.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { WEBHOOK_SIGNATURE_HEADER, signWebhookPayload } from "./signing";
+import {
+  WEBHOOK_MAX_ATTEMPTS,
+  getWebhookRetryDelaySeconds,
+  getWebhookUrlError,
+  privateWebhookUrlsAllowed,
+} from "./utils";
+import type { WebhookAttemptResult, WebhookDelivery, WebhookEndpoint, WebhookPayload } from "./types";
+
+const REQUEST_TIMEOUT_MS = 10_000;
+// Characters of the response body kept in the delivery log
+const RESPONSE_BODY_LIMIT = 1000;
+
+/**
+ * Send one delivery now and record the attempt. A 2xx response marks it delivered; anything
+ * else schedules a retry, or fails it once it has used up its attempts.
+ */
+export async function sendWebhookDelivery(
+  client: SupabaseClient<any>,
+  delivery: WebhookDelivery
+): Promise<WebhookAttemptResult> {
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let responseTimeMs: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+  // Set for problems a retry won't fix
+  let permanent = false;
+
+  const [endpointResult, eventResult] = await Promise.all([
+    (client.from("webhook_endpoints") as any)
+      .select("id, url, secret, is_active")
+      .eq("id", delivery.endpoint_id)
+      .maybeSingle(),
+    (client.from("webhook_events") as any)
+      .select("id, tenant_id, event_type, data, is_test, created_at")
+      .eq("id", delivery.event_id)
+      .maybeSingle(),
+  ]);
+  const endpoint: Pick<WebhookEndpoint, "id" | "url" | "secret" | "is_active"> | null = endpointResult.data;
+  const event = eventResult.data;
+
+  if (endpointResult.error || eventResult.error) {
+    error = (endpointResult.error || eventResult.error).message;
+  } else if (!endpoint || !event) {
+    error = "Endpoint or event no longer exists";
+    permanent = true;
+  } else if (!endpoint.is_active) {
+    error = "Endpoint is disabled";
+    permanent = true;
+  } else {
+    const urlError = getWebhookUrlError(endpoint.url, privateWebhookUrlsAllowed());
+    if (urlError) {
+      error = urlError;
+      permanent = true;
+    }
+  }
+
+  if (!error && endpoint && event) {
+    const payload: WebhookPayload = {
+      id: event.id,
+      type: event.event_type,
+      created_at: event.created_at,
+      tenant_id: event.tenant_id,
+      test: event.is_test,
+      data: event.data || {},
+    };
+    const body = JSON.stringify(payload);
+    const startedAt = Date.now();
+
+    try {
+      const response = await fetch(endpoint.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "Tinadmin-Webhooks/1.0",
+          "X-Webhook-Id": event.id,
+          "X-Webhook-Event": event.event_type,
+          "X-Webhook-Delivery": delivery.id,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, body),
+        },
+        body,
+        // Redirects aren't followed, so a receiver can't bounce a delivery to another host
+        redirect: "manual",
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      responseTimeMs = Date.now() - startedAt;
+      responseStatus = response.status;
+      responseBody = (await response.text().catch(() => "")).slice(0, RESPONSE_BODY_LIMIT) || null;
+
+      if (!response.ok) {
+        error = `Endpoint responded with HTTP ${response.status}`;
+      }
+    } catch (fetchError: any) {
+      responseTimeMs = Date.now() - startedAt;
+      error = fetchError?.name === "TimeoutError"
+        ? `No response within ${REQUEST_TIMEOUT_MS / 1000} seconds`
+        : fetchError?.cause?.message || fetchError?.message || "Request failed";
+    }
+  }
+
+  const now = new Date();
+  let status: WebhookAttemptResult["status"] = "delivered";
+  let nextAttemptAt: string | null = null;
+  if (error) {
+    if (permanent || attempts >= WEBHOOK_MAX_ATTEMPTS) {
+      status = "failed";
+    } else {
+      status = "pending";
+      nextAttemptAt = new Date(now.getTime() + getWebhookRetryDelaySeconds(attempts) * 1000).toISOString();
+    }
+  }
+
+  const updateResult: { error: any } = await (client.from("webhook_deliveries") as any)
+    .update({
+      status,
+      attempts,
+      next_attempt_at: nextAttemptAt,
+      last_attempt_at: now.toISOString(),
+      response_status: responseStatus,
+      response_time_ms: responseTimeMs,
+      response_body: responseBody,
+      error,
+      delivered_at: status === "delivered" ? now.toISOString() : null,
+    })
+    .eq("id", delivery.id);
+
+  if (updateResult.error) throw updateResult.error;
+
+  return {
+    deliveryId: delivery.id,
+    status,
+    attempts,
+    responseStatus,
+    responseTimeMs,
+    responseBody,
+    error,
+    nextAttemptAt,
+  };
+}
+
+/**
+ * Claim and send deliveries that are due. Claimed rows are pushed back a few minutes first, so
+ * overlapping runs don't send the same delivery twice and a crashed run's rows come round again.
+ */
+export async function processDueWebhookDeliveries(
+  client: SupabaseClient<any>,
+  limit: number = 50
+): Promise<{ processed: number; delivered: number; retrying: number; failed: number }> {
+  const claimResult: { data: WebhookDelivery[] | null; error: any } = await (client as any).rpc(
+    "claim_webhook_deliveries",
+    { p_limit: limit }
+  );
+  if (claimResult.error) throw claimResult.error;
+
+  const summary = { processed: 0, delivered: 0, retrying: 0, failed: 0 };
+  for (const delivery of claimResult.data || []) {
+    try {
+      const result = await sendWebhookDelivery(client, delivery);
+      summary.processed++;
+      if (result.status === "delivered") summary.delivered++;
+      else if (result.status === "pending") summary.retrying++;
+      else summary.failed++;
+    } catch (error) {
+      // The claim has already pushed it back, so it's retried on a later run
+      console.error(`Webhook delivery ${delivery.id} error:`, error);
+    }
+  }
+
+  return summary;
+}
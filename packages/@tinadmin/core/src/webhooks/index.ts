@@ -0,0 +1,69 @@
+/**
+ * WEBHOOKS DOMAIN
+ *
+ * Outbound webhooks: tenant endpoints subscribe to job, transaction, reconciliation and sync
+ * events, which are queued by database triggers and sent as HMAC-signed JSON with retries.
+ *
+ * PUBLIC API - Only import from this file!
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+export type {
+  WebhookAttemptResult,
+  WebhookDelivery,
+  WebhookDeliveryLogEntry,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEndpointInput,
+  WebhookEventType,
+  WebhookPayload,
+} from './types';
+
+// ============================================================================
+// EVENTS & VALIDATION
+// ============================================================================
+export {
+  WEBHOOK_EVENTS,
+  WEBHOOK_MAX_ATTEMPTS,
+  getWebhookRetryDelaySeconds,
+  isWebhookEventType,
+  isPrivateWebhookHost,
+  getWebhookUrlError,
+  privateWebhookUrlsAllowed,
+  validateWebhookEndpointInput,
+} from './utils';
+
+// ============================================================================
+// SIGNING
+// ============================================================================
+// ⚠️ SERVER-ONLY: Import directly from './signing' in server-side code:
+//   import { signWebhookPayload, verifyWebhookSignature, generateWebhookSecret } from '@/core/webhooks/signing';
+//
+// These functions use Node's crypto module and should only be used in:
+// - Server Actions
+// - API Routes
+// Note: Not exported from index to prevent client bundling
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+// ⚠️ SERVER-ONLY: Import directly from './delivery' in server-side code:
+//   import { processDueWebhookDeliveries, sendWebhookDelivery } from '@/core/webhooks/delivery';
+//
+// These functions take a service role client and should only be used in:
+// - Cron jobs
+// - Server Actions
+// Note: Not exported from index to prevent client bundling
+
+// ============================================================================
+// ENDPOINT MANAGEMENT
+// ============================================================================
+// ⚠️ SERVER-ONLY: Import directly from './webhooks' in server-side code:
+//   import { getWebhookEndpoints, createWebhookEndpoint, sendTestWebhookEvent } from '@/core/webhooks/webhooks';
+//
+// These functions use createAdminClient and should only be used in:
+// - Server Actions
+// - API Routes
+// Note: Not exported from index to prevent client bundling
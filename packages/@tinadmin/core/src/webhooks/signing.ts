@@ -0,0 +1,83 @@
+/**
+ * Webhook Signing
+ *
+ * Every payload is signed with the endpoint's secret so receivers can check it came from us and
+ * wasn't replayed. The signature header is `t=<unix seconds>,v1=<hex HMAC-SHA256>` over
+ * `<t>.<raw body>`.
+ * Server-only: uses Node's crypto module.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+/**
+ * Every endpoint secret starts with this
+ */
+export const WEBHOOK_SECRET_PREFIX = "whsec_";
+
+/**
+ * Header carrying the signature
+ */
+export const WEBHOOK_SIGNATURE_HEADER = "X-Webhook-Signature";
+
+// How far a signature's timestamp may be from now before it's rejected as a replay
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Create a new endpoint secret
+ */
+export function generateWebhookSecret(): string {
+  return `${WEBHOOK_SECRET_PREFIX}${randomBytes(32).toString("base64url")}`;
+}
+
+function computeSignature(secret: string, body: string, timestamp: number): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/**
+ * Signature header value for a raw body
+ */
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  return `t=${timestamp},v1=${computeSignature(secret, body, timestamp)}`;
+}
+
+/**
+ * Check a signature header against the raw body. Receivers must verify the body exactly as
+ * received, before parsing it.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string | null | undefined,
+  options: { toleranceSeconds?: number; now?: number } = {}
+): boolean {
+  if (!header) return false;
+
+  const parts = new Map<string, string[]>();
+  for (const part of header.split(",")) {
+    const [key, value] = part.trim().split("=", 2);
+    if (!key || !value) continue;
+    parts.set(key, [...(parts.get(key) || []), value]);
+  }
+
+  const timestamp = Number(parts.get("t")?.[0]);
+  const signatures = parts.get("v1") || [];
+  if (!Number.isInteger(timestamp) || signatures.length === 0) {
+    return false;
+  }
+
+  const tolerance = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  if (Math.abs(now - timestamp) > tolerance) {
+    return false;
+  }
+
+  const expected = Buffer.from(computeSignature(secret, body, timestamp), "hex");
+  return signatures.some((signature) => {
+    const given = Buffer.from(signature, "hex");
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  });
+}
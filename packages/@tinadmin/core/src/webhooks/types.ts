@@ -0,0 +1,95 @@
+/**
+ * Webhook Types
+ */
+
+/**
+ * Events an endpoint can subscribe to. Keep in step with the webhook_endpoints.events check.
+ */
+export type WebhookEventType =
+  | "job.completed"
+  | "job.failed"
+  | "transaction.updated"
+  | "document.matched"
+  | "sync.conflict";
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+/**
+ * A tenant URL that receives events. `secret` signs every payload sent to it.
+ */
+export interface WebhookEndpoint {
+  id: string;
+  tenant_id: string;
+  name: string;
+  url: string;
+  events: WebhookEventType[];
+  secret: string;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookEndpointInput {
+  name: string;
+  url: string;
+  events: WebhookEventType[];
+  is_active?: boolean;
+}
+
+/**
+ * One event sent to one endpoint, with its retry state and the latest response
+ */
+export interface WebhookDelivery {
+  id: string;
+  event_id: string;
+  endpoint_id: string;
+  tenant_id: string;
+  event_type: WebhookEventType;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_attempt_at: string | null;
+  response_status: number | null;
+  response_time_ms: number | null;
+  response_body: string | null;
+  error: string | null;
+  delivered_at: string | null;
+  created_at: string;
+}
+
+/**
+ * A delivery as listed in the delivery log
+ */
+export interface WebhookDeliveryLogEntry extends WebhookDelivery {
+  endpoint: { name: string; url: string } | null;
+  event: { data: Record<string, unknown>; is_test: boolean } | null;
+}
+
+/**
+ * The JSON body posted to an endpoint
+ */
+export interface WebhookPayload {
+  /** Event id; the same for every endpoint and every retry, so receivers can deduplicate */
+  id: string;
+  type: WebhookEventType;
+  created_at: string;
+  tenant_id: string;
+  /** True for test events sent from the admin app, whose data is sample data */
+  test: boolean;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Outcome of one delivery attempt
+ */
+export interface WebhookAttemptResult {
+  deliveryId: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  responseTimeMs: number | null;
+  responseBody: string | null;
+  error: string | null;
+  nextAttemptAt: string | null;
+}
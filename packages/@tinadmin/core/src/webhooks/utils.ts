@@ -0,0 +1,233 @@
+/**
+ * Webhook Utilities
+ *
+ * Pure functions with no server-only dependencies, safe for client components and tests
+ */
+
+import type { WebhookEndpointInput, WebhookEventType } from "./types";
+
+/**
+ * Every event an endpoint can subscribe to, with sample data for test events
+ */
+export const WEBHOOK_EVENTS: Array<{
+  type: WebhookEventType;
+  category: string;
+  description: string;
+  sample: Record<string, unknown>;
+}> = [
+  {
+    type: "job.completed",
+    category: "Jobs",
+    description: "A bank statement finished processing and its transactions are ready for review",
+    sample: {
+      job_id: "00000000-0000-4000-8000-000000000001",
+      company_profile_id: "00000000-0000-4000-8000-000000000002",
+      bank_account_id: "00000000-0000-4000-8000-000000000003",
+      job_type: "spreadsheet",
+      status: "reviewing",
+      status_message: "Processing complete. Ready for review.",
+      original_filename: "statement-2026-01.csv",
+      total_items: 42,
+      processed_items: 40,
+      failed_items: 2,
+      completed_at: "2026-01-31T09:30:00Z",
+    },
+  },
+  {
+    type: "job.failed",
+    category: "Jobs",
+    description: "A bank statement could not be processed; error_code says why",
+    sample: {
+      job_id: "00000000-0000-4000-8000-000000000001",
+      company_profile_id: "00000000-0000-4000-8000-000000000002",
+      bank_account_id: "00000000-0000-4000-8000-000000000003",
+      job_type: "spreadsheet",
+      status: "failed",
+      status_message: "We couldn't read the transactions in this file.",
+      original_filename: "statement-2026-01.csv",
+      error_code: "PARSING_ERROR",
+      error_message: "No transactions found in the file",
+    },
+  },
+  {
+    type: "transaction.updated",
+    category: "Transactions",
+    description: "A transaction's category, supplier, VAT, notes or review status changed",
+    sample: {
+      transaction_id: "00000000-0000-4000-8000-000000000004",
+      job_id: "00000000-0000-4000-8000-000000000001",
+      company_profile_id: "00000000-0000-4000-8000-000000000002",
+      changes: {
+        category: { old: "General Expenses", new: "Travel" },
+        vat_code: { old: null, new: "standard" },
+      },
+      source: "ui",
+      changed_by: "00000000-0000-4000-8000-000000000005",
+    },
+  },
+  {
+    type: "document.matched",
+    category: "Reconciliation",
+    description: "A transaction was matched to a receipt, bill or invoice",
+    sample: {
+      transaction_id: "00000000-0000-4000-8000-000000000004",
+      document_id: "00000000-0000-4000-8000-000000000006",
+      company_profile_id: "00000000-0000-4000-8000-000000000002",
+      date: "2026-01-15",
+      amount: -120.5,
+      currency: "GBP",
+      source: "ui",
+      matched_by: "00000000-0000-4000-8000-000000000005",
+    },
+  },
+  {
+    type: "sync.conflict",
+    category: "Sync",
+    description: "A sync found a transaction changed both in the books and in a spreadsheet",
+    sample: {
+      conflict_id: "00000000-0000-4000-8000-000000000007",
+      transaction_id: "00000000-0000-4000-8000-000000000004",
+      source_type: "google_sheets",
+      conflict_type: "update",
+      db_value: { category: "Travel" },
+      external_value: { category: "Meals" },
+      db_modified_at: "2026-01-31T09:00:00Z",
+      external_modified_at: "2026-01-31T09:05:00Z",
+    },
+  },
+];
+
+/**
+ * Attempts before a delivery is given up as failed
+ */
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+const RETRY_BASE_SECONDS = 60;
+const RETRY_MAX_SECONDS = 12 * 60 * 60;
+
+/**
+ * Wait before the next attempt after `attempts` failed ones: 1, 3, 9, 27 and 81 minutes,
+ * then about 4 hours, then 12 hours
+ */
+export function getWebhookRetryDelaySeconds(attempts: number): number {
+  return Math.min(RETRY_BASE_SECONDS * 3 ** Math.max(attempts - 1, 0), RETRY_MAX_SECONDS);
+}
+
+/**
+ * Check a value is a known event type
+ */
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return WEBHOOK_EVENTS.some((entry) => entry.type === value);
+}
+
+/**
+ * Whether endpoints may point at localhost and private networks. Allowed outside production so
+ * a local receiver can be used for testing; WEBHOOKS_ALLOW_PRIVATE_URLS=true allows it anywhere.
+ */
+export function privateWebhookUrlsAllowed(): boolean {
+  return process.env.NODE_ENV !== "production" || process.env.WEBHOOKS_ALLOW_PRIVATE_URLS === "true";
+}
+
+/**
+ * Whether a hostname is local or on a private network
+ */
+export function isPrivateWebhookHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "");
+
+  if (host === "localhost" || host.endsWith(".localhost") || host.endsWith(".local") || host.endsWith(".internal")) {
+    return true;
+  }
+  // IPv6: loopback, unspecified, IPv4-mapped, unique local (fc00::/7) and link local (fe80::/10)
+  if (host.includes(":")) {
+    return (
+      host === "::1" ||
+      host === "::" ||
+      host.startsWith("::ffff:") ||
+      /^f[cd][0-9a-f]{0,2}:/.test(host) ||
+      /^fe[89ab][0-9a-f]?:/.test(host)
+    );
+  }
+
+  const octets = host.split(".").map(Number);
+  if (octets.length !== 4 || octets.some((octet) => !Number.isInteger(octet) || octet < 0 || octet > 255)) {
+    return false;
+  }
+  const [a, b] = octets;
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 100 && b >= 64 && b <= 127)
+  );
+}
+
+/**
+ * Why a URL can't receive webhooks, or null when it can
+ */
+export function getWebhookUrlError(url: string, allowPrivate: boolean): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "url must be a valid URL";
+  }
+
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    return "url must use http or https";
+  }
+  if (parsed.username || parsed.password) {
+    return "url must not contain credentials";
+  }
+  if (!allowPrivate) {
+    if (parsed.protocol !== "https:") {
+      return "url must use https";
+    }
+    if (isPrivateWebhookHost(parsed.hostname)) {
+      return "url must not point at a local or private address";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate the fields of an endpoint
+ */
+export function validateWebhookEndpointInput(
+  input: WebhookEndpointInput,
+  allowPrivate: boolean = privateWebhookUrlsAllowed()
+): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!input.name || input.name.trim() === "") {
+    errors.push("name is required");
+  } else if (input.name.trim().length > 100) {
+    errors.push("name must be at most 100 characters");
+  }
+
+  if (!input.url || input.url.trim() === "") {
+    errors.push("url is required");
+  } else {
+    const urlError = getWebhookUrlError(input.url.trim(), allowPrivate);
+    if (urlError) {
+      errors.push(urlError);
+    }
+  }
+
+  if (!Array.isArray(input.events) || input.events.length === 0) {
+    errors.push("at least one event is required");
+  } else {
+    const unknown = input.events.filter((event) => !isWebhookEventType(event));
+    if (unknown.length > 0) {
+      errors.push(`unknown events: ${unknown.join(", ")}`);
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
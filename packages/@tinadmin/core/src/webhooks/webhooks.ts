@@ -0,0 +1,246 @@
+/**
+ * Webhook Management
+ *
+ * Endpoints, the delivery log, retries and test events for a tenant. Callers check
+ * webhooks.read / webhooks.write first; everything goes through the admin client because
+ * endpoints hold signing secrets and have no RLS policies.
+ */
+
+import { createAdminClient } from "../database/admin-client";
+import { sendWebhookDelivery } from "./delivery";
+import { generateWebhookSecret } from "./signing";
+import { WEBHOOK_EVENTS, validateWebhookEndpointInput } from "./utils";
+import type {
+  WebhookAttemptResult,
+  WebhookDelivery,
+  WebhookDeliveryLogEntry,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEndpointInput,
+  WebhookEventType,
+} from "./types";
+
+const ENDPOINT_COLUMNS = "id, tenant_id, name, url, events, secret, is_active, created_by, created_at, updated_at";
+
+/**
+ * Get a tenant's endpoints, newest first
+ */
+export async function getWebhookEndpoints(tenantId: string): Promise<WebhookEndpoint[]> {
+  const adminClient = createAdminClient();
+  const result: { data: WebhookEndpoint[] | null; error: any } = await ((adminClient
+    .from("webhook_endpoints") as any)
+    .select(ENDPOINT_COLUMNS)
+    .eq("tenant_id", tenantId)
+    .order("created_at", { ascending: false }));
+
+  if (result.error) throw result.error;
+  return result.data || [];
+}
+
+/**
+ * Add an endpoint with a new signing secret
+ */
+export async function createWebhookEndpoint(
+  tenantId: string,
+  userId: string,
+  input: WebhookEndpointInput
+): Promise<WebhookEndpoint> {
+  const validation = validateWebhookEndpointInput(input);
+  if (!validation.isValid) {
+    throw new Error(validation.errors.join("; "));
+  }
+
+  const adminClient = createAdminClient();
+  const result: { data: WebhookEndpoint | null; error: any } = await ((adminClient
+    .from("webhook_endpoints") as any)
+    .insert({
+      tenant_id: tenantId,
+      name: input.name.trim(),
+      url: input.url.trim(),
+      events: Array.from(new Set(input.events)),
+      secret: generateWebhookSecret(),
+      is_active: input.is_active ?? true,
+      created_by: userId,
+    })
+    .select(ENDPOINT_COLUMNS)
+    .single());
+
+  if (result.error) throw result.error;
+  if (!result.data) throw new Error("Failed to create webhook endpoint");
+  return result.data;
+}
+
+/**
+ * Change an endpoint's name, URL, events or active state
+ */
+export async function updateWebhookEndpoint(
+  tenantId: string,
+  id: string,
+  input: WebhookEndpointInput
+): Promise<WebhookEndpoint> {
+  const validation = validateWebhookEndpointInput(input);
+  if (!validation.isValid) {
+    throw new Error(validation.errors.join("; "));
+  }
+
+  const adminClient = createAdminClient();
+  const result: { data: WebhookEndpoint | null; error: any } = await ((adminClient
+    .from("webhook_endpoints") as any)
+    .update({
+      name: input.name.trim(),
+      url: input.url.trim(),
+      events: Array.from(new Set(input.events)),
+      ...(input.is_active !== undefined ? { is_active: input.is_active } : {}),
+    })
+    .eq("id", id)
+    .eq("tenant_id", tenantId)
+    .select(ENDPOINT_COLUMNS)
+    .maybeSingle());
+
+  if (result.error) throw result.error;
+  if (!result.data) throw new Error("Webhook endpoint not found");
+  return result.data;
+}
+
+/**
+ * Replace an endpoint's signing secret. Deliveries signed with the old one stop verifying.
+ */
+export async function rotateWebhookSecret(tenantId: string, id: string): Promise<WebhookEndpoint> {
+  const adminClient = createAdminClient();
+  const result: { data: WebhookEndpoint | null; error: any } = await ((adminClient
+    .from("webhook_endpoints") as any)
+    .update({ secret: generateWebhookSecret() })
+    .eq("id", id)
+    .eq("tenant_id", tenantId)
+    .select(ENDPOINT_COLUMNS)
+    .maybeSingle());
+
+  if (result.error) throw result.error;
+  if (!result.data) throw new Error("Webhook endpoint not found");
+  return result.data;
+}
+
+/**
+ * Delete an endpoint and its delivery log
+ */
+export async function deleteWebhookEndpoint(tenantId: string, id: string): Promise<void> {
+  const adminClient = createAdminClient();
+  const result: { data: { id: string }[] | null; error: any } = await ((adminClient
+    .from("webhook_endpoints") as any)
+    .delete()
+    .eq("id", id)
+    .eq("tenant_id", tenantId)
+    .select("id"));
+
+  if (result.error) throw result.error;
+  if (!result.data || result.data.length === 0) {
+    throw new Error("Webhook endpoint not found");
+  }
+}
+
+/**
+ * Get a tenant's delivery log, newest first, with each delivery's endpoint and event
+ */
+export async function getWebhookDeliveries(
+  tenantId: string,
+  options: { status?: WebhookDeliveryStatus; endpointId?: string; limit?: number } = {}
+): Promise<WebhookDeliveryLogEntry[]> {
+  const adminClient = createAdminClient();
+  let query = (adminClient.from("webhook_deliveries") as any)
+    .select("*, endpoint:webhook_endpoints(name, url), event:webhook_events(data, is_test)")
+    .eq("tenant_id", tenantId)
+    .order("created_at", { ascending: false })
+    .limit(options.limit ?? 100);
+
+  if (options.status) {
+    query = query.eq("status", options.status);
+  }
+  if (options.endpointId) {
+    query = query.eq("endpoint_id", options.endpointId);
+  }
+
+  const result: { data: WebhookDeliveryLogEntry[] | null; error: any } = await query;
+  if (result.error) throw result.error;
+  return result.data || [];
+}
+
+/**
+ * Send an event with sample data to one endpoint straight away. The payload is marked as a test,
+ * and the delivery is logged and retried like any other.
+ */
+export async function sendTestWebhookEvent(
+  tenantId: string,
+  endpointId: string,
+  eventType: WebhookEventType
+): Promise<WebhookAttemptResult> {
+  const definition = WEBHOOK_EVENTS.find((entry) => entry.type === eventType);
+  if (!definition) {
+    throw new Error(`Unknown event: ${eventType}`);
+  }
+
+  const adminClient = createAdminClient();
+  const endpointResult: { data: { id: string } | null; error: any } = await ((adminClient
+    .from("webhook_endpoints") as any)
+    .select("id")
+    .eq("id", endpointId)
+    .eq("tenant_id", tenantId)
+    .maybeSingle());
+
+  if (endpointResult.error) throw endpointResult.error;
+  if (!endpointResult.data) throw new Error("Webhook endpoint not found");
+
+  const eventResult: { data: { id: string } | null; error: any } = await ((adminClient
+    .from("webhook_events") as any)
+    .insert({
+      tenant_id: tenantId,
+      event_type: eventType,
+      data: definition.sample,
+      is_test: true,
+    })
+    .select("id")
+    .single());
+
+  if (eventResult.error) throw eventResult.error;
+  if (!eventResult.data) throw new Error("Failed to create test event");
+
+  // Not due yet, so the cron leaves it alone while it's sent here
+  const deliveryResult: { data: WebhookDelivery | null; error: any } = await ((adminClient
+    .from("webhook_deliveries") as any)
+    .insert({
+      event_id: eventResult.data.id,
+      endpoint_id: endpointId,
+      tenant_id: tenantId,
+      event_type: eventType,
+      next_attempt_at: new Date(Date.now() + 5 * 60 * 1000).toISOString(),
+    })
+    .select("*")
+    .single());
+
+  if (deliveryResult.error) throw deliveryResult.error;
+  if (!deliveryResult.data) throw new Error("Failed to create test delivery");
+
+  return sendWebhookDelivery(adminClient, deliveryResult.data);
+}
+
+/**
+ * Send a delivery again now, whatever its status. A failed delivery gets a fresh set of retries.
+ */
+export async function retryWebhookDelivery(tenantId: string, deliveryId: string): Promise<WebhookAttemptResult> {
+  const adminClient = createAdminClient();
+  const result: { data: WebhookDelivery | null; error: any } = await ((adminClient
+    .from("webhook_deliveries") as any)
+    .update({
+      status: "pending",
+      attempts: 0,
+      next_attempt_at: new Date(Date.now() + 5 * 60 * 1000).toISOString(),
+    })
+    .eq("id", deliveryId)
+    .eq("tenant_id", tenantId)
+    .select("*")
+    .maybeSingle());
+
+  if (result.error) throw result.error;
+  if (!result.data) throw new Error("Webhook delivery not found");
+
+  return sendWebhookDelivery(adminClient, result.data);
+}
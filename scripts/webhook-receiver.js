@@ -0,0 +1,78 @@
+#!/usr/bin/env node
+
+/**
+ * Local Webhook Receiver
+ *
+ * A small HTTP server for trying out outbound webhooks. It prints every event it receives and
+ * checks the X-Webhook-Signature header against the endpoint's signing secret.
+ *
+ * Usage:
+ *   WEBHOOK_SECRET=whsec_... node scripts/webhook-receiver.js
+ *
+ * Then add a webhook for http://localhost:4000/webhooks in the admin app (Webhooks > Management)
+ * and press Test. Options:
+ *   PORT=4000          Port to listen on
+ *   RESPOND_WITH=500   Status to respond with, to see retries in the delivery log
+ */
+
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = Number(process.env.PORT || 4000);
+const SECRET = process.env.WEBHOOK_SECRET;
+const RESPOND_WITH = Number(process.env.RESPOND_WITH || 200);
+const TOLERANCE_SECONDS = 5 * 60;
+
+function verifySignature(body, header) {
+  if (!SECRET) return null;
+  if (!header) return false;
+
+  const parts = Object.fromEntries(
+    header.split(',').map((part) => part.trim().split('=', 2))
+  );
+  const timestamp = Number(parts.t);
+  if (!parts.v1 || !Number.isInteger(timestamp)) return false;
+  if (Math.abs(Date.now() / 1000 - timestamp) > TOLERANCE_SECONDS) return false;
+
+  const expected = crypto.createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest();
+  const given = Buffer.from(parts.v1, 'hex');
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method !== 'POST') {
+    res.writeHead(405).end();
+    return;
+  }
+
+  const chunks = [];
+  req.on('data', (chunk) => chunks.push(chunk));
+  req.on('end', () => {
+    // Verify the raw body, exactly as received
+    const body = Buffer.concat(chunks).toString('utf8');
+    const verified = verifySignature(body, req.headers['x-webhook-signature']);
+
+    console.log(`\n[${new Date().toISOString()}] ${req.headers['x-webhook-event']} (delivery ${req.headers['x-webhook-delivery']})`);
+    if (verified === null) {
+      console.log('⚠️  Signature not checked: set WEBHOOK_SECRET to verify it');
+    } else if (verified) {
+      console.log('✅ Signature verified');
+    } else {
+      console.log('❌ Signature invalid');
+    }
+
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+
+    const status = verified === false ? 401 : RESPOND_WITH;
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ received: status < 300 }));
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Webhook receiver listening on http://localhost:${PORT}/webhooks`);
+});
@@ -67,6 +67,13 @@ export async function getUserPermissionsClient(
         "analytics.read",
         "api.access",
         "audit.read",
+        "transactions.read",
+        "transactions.write",
+        "transactions.review",
+        "transactions.approve",
+        "periods.lock",
+        "webhooks.read",
+        "webhooks.write",
       ],
       isPlatformAdmin: true,
     };
@@ -125,26 +132,37 @@ function mapRoleToPermissions(roleName: string, rolePermissions: string[]): User
       "roles.write",
       "settings.read",
       "settings.write",
-      "analytics.read"
+      "analytics.read",
+      "transactions.read",
+      "transactions.write",
+      "transactions.review",
+      "transactions.approve",
+      "periods.lock",
+      "webhooks.read",
+      "webhooks.write"
     );
   } else if (roleName === "Billing Owner") {
     permissions.push(
       "billing.read",
       "billing.write",
-      "analytics.read"
+      "analytics.read",
+      "transactions.read"
     );
   } else if (roleName === "Developer") {
     permissions.push(
       "api.access",
       "settings.read",
-      "analytics.read"
+      "analytics.read",
+      "webhooks.read",
+      "webhooks.write"
     );
   } else if (roleName === "Viewer") {
     permissions.push(
       "users.read",
       "tenants.read",
       "roles.read",
-      "analytics.read"
+      "analytics.read",
+      "transactions.read"
     );
   }
 
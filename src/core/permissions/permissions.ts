@@ -20,7 +20,14 @@ export type Permission =
   | "settings.write"
   | "analytics.read"
   | "api.access"
-  | "audit.read";
+  | "audit.read"
+  | "transactions.read"
+  | "transactions.write"
+  | "transactions.review"
+  | "transactions.approve"
+  | "periods.lock"
+  | "webhooks.read"
+  | "webhooks.write";
 
 export interface UserPermissions {
   role: string | null;
@@ -105,6 +112,13 @@ export async function getUserPermissions(
         "analytics.read",
         "api.access",
         "audit.read",
+        "transactions.read",
+        "transactions.write",
+        "transactions.review",
+        "transactions.approve",
+        "periods.lock",
+        "webhooks.read",
+        "webhooks.write",
       ],
       isPlatformAdmin: true,
     };
@@ -156,26 +170,37 @@ function mapRoleToPermissions(roleName: string, rolePermissions: string[]): User
       "roles.write",
       "settings.read",
       "settings.write",
-      "analytics.read"
+      "analytics.read",
+      "transactions.read",
+      "transactions.write",
+      "transactions.review",
+      "transactions.approve",
+      "periods.lock",
+      "webhooks.read",
+      "webhooks.write"
     );
   } else if (roleName === "Billing Owner") {
     permissions.push(
       "billing.read",
       "billing.write",
-      "analytics.read"
+      "analytics.read",
+      "transactions.read"
     );
   } else if (roleName === "Developer") {
     permissions.push(
       "api.access",
       "settings.read",
-      "analytics.read"
+      "analytics.read",
+      "webhooks.read",
+      "webhooks.write"
     );
   } else if (roleName === "Viewer") {
     permissions.push(
       "users.read",
       "tenants.read",
       "roles.read",
-      "analytics.read"
+      "analytics.read",
+      "transactions.read"
     );
   }
 
@@ -0,0 +1,158 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+
+/**
+ * Row triggers read NEW/OLD fields by name, and plpgsql only notices a missing column when
+ * the trigger fires ("record "new" has no field ..."). These tests replay the migrations'
+ * schema statically and check every field a trigger function reads exists on its table.
+ */
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../migrations');
+
+const CONSTRAINT_KEYWORDS = new Set(['constraint', 'check', 'unique', 'primary', 'foreign', 'exclude', 'like']);
+
+interface Schema {
+  columns: Map<string, Set<string>>;
+  functions: Map<string, string>;
+  /** table -> trigger name -> function name */
+  triggers: Map<string, Map<string, string>>;
+}
+
+function stripComments(sql: string): string {
+  return sql.replace(/--[^\n]*/g, '');
+}
+
+/** Split on commas outside parentheses */
+function splitTopLevel(body: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of body) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+/** Body of the parenthesised list starting at `start` (the index of its opening parenthesis) */
+function readParenthesised(sql: string, start: number): string {
+  let depth = 0;
+  for (let i = start; i < sql.length; i++) {
+    if (sql[i] === '(') depth++;
+    if (sql[i] === ')') depth--;
+    if (depth === 0) return sql.slice(start + 1, i);
+  }
+  return sql.slice(start + 1);
+}
+
+function tableName(name: string): string {
+  return name.replace(/^public\./i, '').replace(/"/g, '').toLowerCase();
+}
+
+function applyMigration(schema: Schema, raw: string) {
+  const sql = stripComments(raw);
+
+  // Function bodies first, then blank them out so their statements aren't read as schema changes
+  const functionPattern =
+    /CREATE\s+(?:OR\s+REPLACE\s+)?FUNCTION\s+([\w."]+)\s*\([\s\S]*?AS\s+(\$\w*\$)([\s\S]*?)\2/gi;
+  for (const match of sql.matchAll(functionPattern)) {
+    schema.functions.set(tableName(match[1]), match[3]);
+  }
+  const statements = sql.replace(/(\$\w*\$)[\s\S]*?\1/g, "''");
+
+  for (const match of statements.matchAll(/CREATE\s+TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?([\w."]+)\s*\(/gi)) {
+    const table = tableName(match[1]);
+    const body = readParenthesised(statements, match.index! + match[0].length - 1);
+    const columns = schema.columns.get(table) || new Set<string>();
+    for (const definition of splitTopLevel(body)) {
+      const word = definition.trim().split(/\s+/)[0]?.replace(/"/g, '').toLowerCase();
+      if (word && !CONSTRAINT_KEYWORDS.has(word)) columns.add(word);
+    }
+    schema.columns.set(table, columns);
+  }
+
+  for (const match of statements.matchAll(/ALTER\s+TABLE\s+(?:IF\s+EXISTS\s+)?(?:ONLY\s+)?([\w."]+)([^;]*);/gi)) {
+    const table = tableName(match[1]);
+    const columns = schema.columns.get(table) || new Set<string>();
+    for (const add of match[2].matchAll(/ADD\s+COLUMN\s+(?:IF\s+NOT\s+EXISTS\s+)?"?(\w+)"?/gi)) {
+      columns.add(add[1].toLowerCase());
+    }
+    for (const drop of match[2].matchAll(/DROP\s+COLUMN\s+(?:IF\s+EXISTS\s+)?"?(\w+)"?/gi)) {
+      columns.delete(drop[1].toLowerCase());
+    }
+    for (const rename of match[2].matchAll(/RENAME\s+COLUMN\s+"?(\w+)"?\s+TO\s+"?(\w+)"?/gi)) {
+      columns.delete(rename[1].toLowerCase());
+      columns.add(rename[2].toLowerCase());
+    }
+    schema.columns.set(table, columns);
+  }
+
+  for (const match of statements.matchAll(/DROP\s+TRIGGER\s+(?:IF\s+EXISTS\s+)?(\w+)\s+ON\s+([\w."]+)/gi)) {
+    schema.triggers.get(tableName(match[2]))?.delete(match[1].toLowerCase());
+  }
+  const triggerPattern =
+    /CREATE\s+(?:OR\s+REPLACE\s+)?TRIGGER\s+(\w+)[\s\S]*?\bON\s+([\w."]+)[\s\S]*?FOR\s+EACH\s+ROW[\s\S]*?EXECUTE\s+(?:FUNCTION|PROCEDURE)\s+([\w."]+)\s*\(/gi;
+  for (const match of statements.matchAll(triggerPattern)) {
+    const table = tableName(match[2]);
+    const triggers = schema.triggers.get(table) || new Map<string, string>();
+    triggers.set(match[1].toLowerCase(), tableName(match[3]));
+    schema.triggers.set(table, triggers);
+  }
+}
+
+function loadSchema(): Schema {
+  const schema: Schema = { columns: new Map(), functions: new Map(), triggers: new Map() };
+  const files = fs.readdirSync(MIGRATIONS_DIR).filter((file) => file.endsWith('.sql')).sort();
+  for (const file of files) {
+    applyMigration(schema, fs.readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8'));
+  }
+  return schema;
+}
+
+/** NEW/OLD fields a trigger function reads that its table doesn't have */
+function missingTriggerFields(schema: Schema, table: string): string[] {
+  const columns = schema.columns.get(table) || new Set<string>();
+  const missing = new Set<string>();
+  for (const fn of schema.triggers.get(table)?.values() || []) {
+    const body = stripComments(schema.functions.get(fn) || '');
+    for (const match of body.matchAll(/\b(?:NEW|OLD)\.(\w+)/gi)) {
+      if (!columns.has(match[1].toLowerCase())) missing.add(`${fn}: ${match[1]}`);
+    }
+  }
+  return [...missing];
+}
+
+describe('migration triggers', () => {
+  const schema = loadSchema();
+
+  it('knows the financial_documents columns', () => {
+    const columns = schema.columns.get('financial_documents')!;
+    expect(columns.has('document_date')).toBe(true);
+    expect(columns.has('tax_amount')).toBe(true);
+    expect(columns.has('company_profile_id')).toBe(true);
+    expect(columns.has('vat_amount')).toBe(false);
+  });
+
+  it('only reads financial_documents columns when a document is updated or deleted', () => {
+    expect(schema.triggers.get('financial_documents')?.get('trigger_prevent_closed_period_changes'))
+      .toBe('prevent_closed_period_document_changes');
+    expect(missingTriggerFields(schema, 'financial_documents')).toEqual([]);
+  });
+
+  it.each([
+    'categorized_transactions',
+    'categorization_jobs',
+    'journal_entries',
+    'journal_lines',
+  ])('only reads %s columns in its triggers', (table) => {
+    expect(missingTriggerFields(schema, table)).toEqual([]);
+  });
+});
@@ -0,0 +1,372 @@
+-- Migration: Create General Ledger (journal entries + journal lines)
+-- Description: Double-entry ledger behind categorized_transactions. Every bank transaction
+--              posts a balanced entry to its bank account ledger and the mapped nominal
+--              account, and all financial statements are computed from posted entries.
+-- Created: 2026-01-12
+
+-- ============================================================================
+-- BANK ACCOUNT LEDGER LINK
+-- ============================================================================
+
+ALTER TABLE bank_accounts
+  ADD COLUMN IF NOT EXISTS ledger_account_id UUID REFERENCES chart_of_accounts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bank_accounts_ledger_account_id
+  ON bank_accounts(ledger_account_id)
+  WHERE ledger_account_id IS NOT NULL;
+
+COMMENT ON COLUMN bank_accounts.ledger_account_id IS 'Chart of accounts entry used as this bank account''s ledger (defaults to 1100 Bank Account when NULL)';
+
+-- ============================================================================
+-- JOURNAL_ENTRIES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS journal_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_profile_id UUID NOT NULL REFERENCES company_profiles(id) ON DELETE CASCADE,
+
+  -- Entry details
+  entry_date DATE NOT NULL,
+  reference TEXT,
+  description TEXT,
+
+  -- Source (for audit back to the originating record)
+  source_type TEXT NOT NULL DEFAULT 'manual'
+    CHECK (source_type IN ('bank_transaction', 'document', 'manual', 'adjustment', 'opening_balance')),
+  source_transaction_id UUID REFERENCES categorized_transactions(id) ON DELETE SET NULL,
+  source_document_id UUID REFERENCES financial_documents(id) ON DELETE SET NULL,
+
+  -- Status: voided entries are kept for audit but excluded from balances
+  status TEXT NOT NULL DEFAULT 'posted' CHECK (status IN ('posted', 'void')),
+  voided_at TIMESTAMPTZ,
+  voided_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  void_reason TEXT,
+
+  -- Tracking
+  posted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  posted_at TIMESTAMPTZ DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ============================================================================
+-- JOURNAL_LINES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS journal_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  journal_entry_id UUID NOT NULL REFERENCES journal_entries(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES chart_of_accounts(id) ON DELETE RESTRICT,
+  bank_account_id UUID REFERENCES bank_accounts(id) ON DELETE SET NULL,
+  line_number INTEGER NOT NULL DEFAULT 1,
+  debit DECIMAL(14,2) NOT NULL DEFAULT 0,
+  credit DECIMAL(14,2) NOT NULL DEFAULT 0,
+  description TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- A line is either a debit or a credit, never both and never negative
+  CONSTRAINT journal_lines_debit_or_credit CHECK (
+    debit >= 0 AND credit >= 0 AND (debit = 0 OR credit = 0) AND (debit > 0 OR credit > 0)
+  )
+);
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_company_date
+  ON journal_entries(company_profile_id, entry_date)
+  WHERE status = 'posted';
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_source_transaction
+  ON journal_entries(source_transaction_id)
+  WHERE source_transaction_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_source_document
+  ON journal_entries(source_document_id)
+  WHERE source_document_id IS NOT NULL;
+
+-- Only one live entry per source transaction
+CREATE UNIQUE INDEX IF NOT EXISTS idx_journal_entries_posted_source_transaction
+  ON journal_entries(source_transaction_id)
+  WHERE status = 'posted' AND source_transaction_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_journal_lines_entry ON journal_lines(journal_entry_id);
+CREATE INDEX IF NOT EXISTS idx_journal_lines_account ON journal_lines(account_id);
+CREATE INDEX IF NOT EXISTS idx_journal_lines_bank_account
+  ON journal_lines(bank_account_id)
+  WHERE bank_account_id IS NOT NULL;
+
+-- ============================================================================
+-- BALANCE ENFORCEMENT
+-- ============================================================================
+
+-- Deferred so that all lines of an entry can be inserted before the check runs
+CREATE OR REPLACE FUNCTION check_journal_entry_balanced()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_entry_id UUID;
+  v_total_debit DECIMAL(14,2);
+  v_total_credit DECIMAL(14,2);
+BEGIN
+  v_entry_id := COALESCE(NEW.journal_entry_id, OLD.journal_entry_id);
+
+  SELECT COALESCE(SUM(debit), 0), COALESCE(SUM(credit), 0)
+  INTO v_total_debit, v_total_credit
+  FROM journal_lines
+  WHERE journal_entry_id = v_entry_id;
+
+  IF v_total_debit <> v_total_credit THEN
+    RAISE EXCEPTION 'Journal entry % is not balanced (debits %, credits %)',
+      v_entry_id, v_total_debit, v_total_credit;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS journal_lines_balanced ON journal_lines;
+CREATE CONSTRAINT TRIGGER journal_lines_balanced
+  AFTER INSERT OR UPDATE OR DELETE ON journal_lines
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION check_journal_entry_balanced();
+
+-- Deleting a bank transaction (directly, via bulk-delete or replace-by-period) voids its entry
+CREATE OR REPLACE FUNCTION void_journal_entries_for_deleted_transaction()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE journal_entries
+  SET status = 'void',
+      voided_at = NOW(),
+      void_reason = 'Source transaction deleted'
+  WHERE source_transaction_id = OLD.id
+    AND status = 'posted';
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS void_journal_entries_on_transaction_delete ON categorized_transactions;
+CREATE TRIGGER void_journal_entries_on_transaction_delete
+  BEFORE DELETE ON categorized_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION void_journal_entries_for_deleted_transaction();
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE journal_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE journal_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view journal entries for their companies" ON journal_entries;
+CREATE POLICY "Users can view journal entries for their companies"
+  ON journal_entries FOR SELECT
+  USING (
+    company_profile_id IN (
+      SELECT id FROM company_profiles
+      WHERE user_id = auth.uid() OR tenant_id IN (
+        SELECT tenant_id FROM users WHERE id = auth.uid()
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can create journal entries for their companies" ON journal_entries;
+CREATE POLICY "Users can create journal entries for their companies"
+  ON journal_entries FOR INSERT
+  WITH CHECK (
+    company_profile_id IN (
+      SELECT id FROM company_profiles WHERE user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can update journal entries for their companies" ON journal_entries;
+CREATE POLICY "Users can update journal entries for their companies"
+  ON journal_entries FOR UPDATE
+  USING (
+    company_profile_id IN (
+      SELECT id FROM company_profiles WHERE user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view journal lines for their companies" ON journal_lines;
+CREATE POLICY "Users can view journal lines for their companies"
+  ON journal_lines FOR SELECT
+  USING (
+    journal_entry_id IN (
+      SELECT id FROM journal_entries
+      WHERE company_profile_id IN (
+        SELECT id FROM company_profiles
+        WHERE user_id = auth.uid() OR tenant_id IN (
+          SELECT tenant_id FROM users WHERE id = auth.uid()
+        )
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can create journal lines for their companies" ON journal_lines;
+CREATE POLICY "Users can create journal lines for their companies"
+  ON journal_lines FOR INSERT
+  WITH CHECK (
+    journal_entry_id IN (
+      SELECT id FROM journal_entries
+      WHERE company_profile_id IN (
+        SELECT id FROM company_profiles WHERE user_id = auth.uid()
+      )
+    )
+  );
+
+-- Posted lines are never edited or deleted; corrections void the entry and post a new one
+
+DROP POLICY IF EXISTS "Platform admins can manage all journal entries" ON journal_entries;
+CREATE POLICY "Platform admins can manage all journal entries"
+  ON journal_entries FOR ALL
+  USING (is_platform_admin())
+  WITH CHECK (is_platform_admin());
+
+DROP POLICY IF EXISTS "Platform admins can manage all journal lines" ON journal_lines;
+CREATE POLICY "Platform admins can manage all journal lines"
+  ON journal_lines FOR ALL
+  USING (is_platform_admin())
+  WITH CHECK (is_platform_admin());
+
+-- Trigger for updated_at
+DROP TRIGGER IF EXISTS update_journal_entries_updated_at ON journal_entries;
+CREATE TRIGGER update_journal_entries_updated_at
+  BEFORE UPDATE ON journal_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Post a balanced journal entry atomically. If the entry has a source transaction,
+-- any existing posted entry for that transaction is voided first (re-post on recategorization).
+CREATE OR REPLACE FUNCTION post_journal_entry(
+  p_company_profile_id UUID,
+  p_entry_date DATE,
+  p_description TEXT,
+  p_source_type TEXT,
+  p_lines JSONB,
+  p_source_transaction_id UUID DEFAULT NULL,
+  p_source_document_id UUID DEFAULT NULL,
+  p_reference TEXT DEFAULT NULL,
+  p_posted_by UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_entry_id UUID;
+  v_line JSONB;
+  v_line_number INTEGER := 0;
+BEGIN
+  IF p_source_transaction_id IS NOT NULL THEN
+    UPDATE journal_entries
+    SET status = 'void',
+        voided_at = NOW(),
+        voided_by = p_posted_by,
+        void_reason = 'Re-posted from source transaction'
+    WHERE source_transaction_id = p_source_transaction_id
+      AND status = 'posted';
+  END IF;
+
+  INSERT INTO journal_entries (
+    company_profile_id,
+    entry_date,
+    reference,
+    description,
+    source_type,
+    source_transaction_id,
+    source_document_id,
+    posted_by
+  ) VALUES (
+    p_company_profile_id,
+    p_entry_date,
+    p_reference,
+    p_description,
+    p_source_type,
+    p_source_transaction_id,
+    p_source_document_id,
+    p_posted_by
+  )
+  RETURNING id INTO v_entry_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    v_line_number := v_line_number + 1;
+    INSERT INTO journal_lines (
+      journal_entry_id,
+      account_id,
+      bank_account_id,
+      line_number,
+      debit,
+      credit,
+      description
+    ) VALUES (
+      v_entry_id,
+      (v_line->>'account_id')::UUID,
+      NULLIF(v_line->>'bank_account_id', '')::UUID,
+      v_line_number,
+      COALESCE((v_line->>'debit')::DECIMAL, 0),
+      COALESCE((v_line->>'credit')::DECIMAL, 0),
+      v_line->>'description'
+    );
+  END LOOP;
+
+  -- Fail fast instead of waiting for the deferred constraint at commit
+  SET CONSTRAINTS journal_lines_balanced IMMEDIATE;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- Sum posted journal lines per account for a date range (NULL start = from the beginning)
+CREATE OR REPLACE FUNCTION get_ledger_account_balances(
+  p_company_profile_id UUID,
+  p_start_date DATE,
+  p_end_date DATE
+)
+RETURNS TABLE (
+  account_id UUID,
+  account_code TEXT,
+  account_name TEXT,
+  account_type TEXT,
+  total_debit DECIMAL,
+  total_credit DECIMAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    coa.id,
+    coa.account_code,
+    coa.account_name,
+    coa.account_type,
+    COALESCE(SUM(jl.debit), 0),
+    COALESCE(SUM(jl.credit), 0)
+  FROM journal_lines jl
+  JOIN journal_entries je ON je.id = jl.journal_entry_id
+  JOIN chart_of_accounts coa ON coa.id = jl.account_id
+  WHERE je.company_profile_id = p_company_profile_id
+    AND je.status = 'posted'
+    AND (p_start_date IS NULL OR je.entry_date >= p_start_date)
+    AND je.entry_date <= p_end_date
+  GROUP BY coa.id, coa.account_code, coa.account_name, coa.account_type
+  ORDER BY coa.account_code;
+$$;
+
+GRANT EXECUTE ON FUNCTION post_journal_entry TO authenticated;
+GRANT EXECUTE ON FUNCTION get_ledger_account_balances TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE journal_entries IS 'Double-entry journal entries; each posted entry has balanced journal_lines';
+COMMENT ON COLUMN journal_entries.source_transaction_id IS 'Bank transaction this entry was posted from (audit trail back to the statement line)';
+COMMENT ON COLUMN journal_entries.status IS 'posted entries count towards balances; void entries are kept for audit';
+COMMENT ON TABLE journal_lines IS 'Debit/credit lines of a journal entry against chart_of_accounts';
+COMMENT ON FUNCTION post_journal_entry IS 'Atomically posts a balanced journal entry, voiding any previous entry for the same source transaction';
+COMMENT ON FUNCTION get_ledger_account_balances IS 'Returns total posted debits and credits per account for a company and date range';
@@ -0,0 +1,66 @@
+-- Migration: Add bank-supplied transaction ids for native statement imports
+-- Description: OFX (FITID), CAMT.053 (AcctSvcrRef) and MT940 (bank reference) carry a unique id per
+--              transaction. Store it and prefer it over the description when fingerprinting.
+-- Created: 2026-01-13
+
+-- ============================================================================
+-- EXTERNAL TRANSACTION ID
+-- ============================================================================
+
+ALTER TABLE categorized_transactions
+  ADD COLUMN IF NOT EXISTS external_transaction_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_categorized_transactions_external_transaction_id
+  ON categorized_transactions(bank_account_id, external_transaction_id)
+  WHERE external_transaction_id IS NOT NULL;
+
+-- ============================================================================
+-- FINGERPRINT
+-- ============================================================================
+
+-- Matches generateTransactionFingerprint() in lib/sync/fingerprint.ts
+CREATE OR REPLACE FUNCTION generate_transaction_fingerprint(
+  p_description TEXT,
+  p_amount DECIMAL,
+  p_date DATE,
+  p_external_transaction_id TEXT
+) RETURNS TEXT AS $$
+BEGIN
+  IF p_external_transaction_id IS NULL OR TRIM(p_external_transaction_id) = '' THEN
+    RETURN generate_transaction_fingerprint(p_description, p_amount, p_date);
+  END IF;
+
+  RETURN encode(
+    sha256(
+      ('ext:' || TRIM(p_external_transaction_id) || '|' ||
+       COALESCE(p_amount::text, '0') || '|' ||
+       COALESCE(p_date::text, '')
+      )::bytea
+    ),
+    'hex'
+  );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION update_transaction_fingerprint()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.transaction_fingerprint := generate_transaction_fingerprint(
+    NEW.original_description,
+    NEW.amount,
+    NEW.date,
+    NEW.external_transaction_id
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_transaction_fingerprint ON categorized_transactions;
+
+CREATE TRIGGER trigger_update_transaction_fingerprint
+  BEFORE INSERT OR UPDATE OF original_description, amount, date, external_transaction_id
+  ON categorized_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_transaction_fingerprint();
+
+COMMENT ON COLUMN categorized_transactions.external_transaction_id IS 'Bank-supplied unique id (OFX FITID, CAMT.053 AcctSvcrRef, MT940 bank reference). Used for duplicate detection.';
@@ -0,0 +1,104 @@
+-- Migration: CSV/XLSX import profiles per bank account
+-- Description: Saved column-to-field mapping and parsing options for a bank account's spreadsheet
+--              exports. Reused automatically on every upload for that account.
+-- Created: 2026-01-14
+
+-- ============================================================================
+-- TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS bank_account_import_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bank_account_id UUID NOT NULL REFERENCES bank_accounts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE,
+
+  name TEXT,
+
+  -- Field -> source column header, e.g. {"date": "Txn Date", "debit": "Paid Out", "credit": "Paid In"}
+  column_mapping JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  -- Parsing options
+  date_format TEXT NOT NULL DEFAULT 'auto'
+    CHECK (date_format IN ('auto', 'DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD', 'DD-MM-YYYY', 'DD.MM.YYYY', 'DD MMM YYYY')),
+  decimal_separator TEXT NOT NULL DEFAULT '.' CHECK (decimal_separator IN ('.', ',')),
+  sign_convention TEXT NOT NULL DEFAULT 'negative_is_debit'
+    CHECK (sign_convention IN ('negative_is_debit', 'positive_is_debit', 'split_columns')),
+  header_row_offset INTEGER NOT NULL DEFAULT 0 CHECK (header_row_offset >= 0),
+  skip_rows_after_header INTEGER NOT NULL DEFAULT 0 CHECK (skip_rows_after_header >= 0),
+  skip_footer_rows INTEGER NOT NULL DEFAULT 0 CHECK (skip_footer_rows >= 0),
+
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- One profile per bank account
+  UNIQUE(bank_account_id)
+);
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_bank_account_import_profiles_user_id
+  ON bank_account_import_profiles(user_id);
+
+CREATE INDEX IF NOT EXISTS idx_bank_account_import_profiles_tenant_id
+  ON bank_account_import_profiles(tenant_id);
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE bank_account_import_profiles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own import profiles" ON bank_account_import_profiles;
+DROP POLICY IF EXISTS "Users can insert own import profiles" ON bank_account_import_profiles;
+DROP POLICY IF EXISTS "Users can update own import profiles" ON bank_account_import_profiles;
+DROP POLICY IF EXISTS "Users can delete own import profiles" ON bank_account_import_profiles;
+DROP POLICY IF EXISTS "Platform admins can manage all import profiles" ON bank_account_import_profiles;
+
+CREATE POLICY "Users can view own import profiles"
+  ON bank_account_import_profiles FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own import profiles"
+  ON bank_account_import_profiles FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND bank_account_id IN (SELECT id FROM bank_accounts WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update own import profiles"
+  ON bank_account_import_profiles FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own import profiles"
+  ON bank_account_import_profiles FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Platform admins can manage all import profiles"
+  ON bank_account_import_profiles FOR ALL
+  USING (is_platform_admin())
+  WITH CHECK (is_platform_admin());
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS update_bank_account_import_profiles_updated_at ON bank_account_import_profiles;
+CREATE TRIGGER update_bank_account_import_profiles_updated_at
+  BEFORE UPDATE ON bank_account_import_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE bank_account_import_profiles IS 'Saved spreadsheet import settings per bank account (column mapping, date format, sign convention, row offsets)';
+COMMENT ON COLUMN bank_account_import_profiles.column_mapping IS 'Maps import fields (date, description, amount, debit, credit, balance, reference, type, payee, posted_date, category, subcategory) to source column headers';
+COMMENT ON COLUMN bank_account_import_profiles.sign_convention IS 'negative_is_debit: single signed amount column, negative = money out; positive_is_debit: single amount column, positive = money out (credit card exports); split_columns: separate debit and credit columns';
+COMMENT ON COLUMN bank_account_import_profiles.header_row_offset IS 'Number of rows above the header row (bank preamble lines)';
+COMMENT ON COLUMN bank_account_import_profiles.skip_rows_after_header IS 'Rows between the header and the first transaction';
+COMMENT ON COLUMN bank_account_import_profiles.skip_footer_rows IS 'Trailing rows to ignore (totals, disclaimers)';
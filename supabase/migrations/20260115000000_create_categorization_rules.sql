@@ -0,0 +1,135 @@
+-- Migration: Categorization rules
+-- Description: Deterministic rules evaluated before user mappings and AI. Conditions match on description
+--              regex, payee, amount range, direction, bank account, MCC and date; actions set category,
+--              supplier, VAT rate, notes or split percentages.
+-- Created: 2026-01-15
+
+-- ============================================================================
+-- RULES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS categorization_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE,
+
+  name TEXT NOT NULL,
+  description TEXT,
+
+  -- Lower numbers run first; the first matching rule wins
+  priority INTEGER NOT NULL DEFAULT 100,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+
+  -- {"description_regex": "...", "payee": "...", "amount_min": 0, "amount_max": 100, "direction": "out",
+  --  "bank_account_ids": [...], "mcc": ["5411"], "date_from": "2026-01-01", "date_to": "2026-12-31"}
+  conditions JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  -- {"category": "...", "subcategory": "...", "supplier_id": "...", "vat_rate": 20, "notes": "...",
+  --  "splits": [{"category": "...", "subcategory": "...", "percentage": 60}, ...]}
+  actions JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  -- Lifetime hit statistics
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  last_matched_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_categorization_rules_user_priority
+  ON categorization_rules(user_id, priority)
+  WHERE is_active = TRUE;
+
+CREATE INDEX IF NOT EXISTS idx_categorization_rules_tenant_id
+  ON categorization_rules(tenant_id);
+
+-- ============================================================================
+-- TRANSACTION COLUMNS SET BY RULES
+-- ============================================================================
+
+ALTER TABLE categorized_transactions
+  ADD COLUMN IF NOT EXISTS applied_rule_id UUID REFERENCES categorization_rules(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS vat_rate DECIMAL(5,2) CHECK (vat_rate IS NULL OR (vat_rate >= 0 AND vat_rate <= 100)),
+  ADD COLUMN IF NOT EXISTS split_allocations JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_categorized_transactions_applied_rule_id
+  ON categorized_transactions(applied_rule_id)
+  WHERE applied_rule_id IS NOT NULL;
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE categorization_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own categorization rules" ON categorization_rules;
+DROP POLICY IF EXISTS "Users can insert own categorization rules" ON categorization_rules;
+DROP POLICY IF EXISTS "Users can update own categorization rules" ON categorization_rules;
+DROP POLICY IF EXISTS "Users can delete own categorization rules" ON categorization_rules;
+DROP POLICY IF EXISTS "Platform admins can manage all categorization rules" ON categorization_rules;
+
+CREATE POLICY "Users can view own categorization rules"
+  ON categorization_rules FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own categorization rules"
+  ON categorization_rules FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own categorization rules"
+  ON categorization_rules FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own categorization rules"
+  ON categorization_rules FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Platform admins can manage all categorization rules"
+  ON categorization_rules FOR ALL
+  USING (is_platform_admin())
+  WITH CHECK (is_platform_admin());
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS update_categorization_rules_updated_at ON categorization_rules;
+CREATE TRIGGER update_categorization_rules_updated_at
+  BEFORE UPDATE ON categorization_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Increment hit statistics. p_rule_ids holds one entry per matched transaction.
+CREATE OR REPLACE FUNCTION record_categorization_rule_hits(p_rule_ids UUID[])
+RETURNS VOID AS $$
+BEGIN
+  UPDATE categorization_rules r
+  SET
+    hit_count = r.hit_count + h.hits,
+    last_matched_at = NOW()
+  FROM (
+    SELECT rule_id, COUNT(*)::INTEGER AS hits
+    FROM unnest(p_rule_ids) AS rule_id
+    GROUP BY rule_id
+  ) h
+  WHERE r.id = h.rule_id;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION record_categorization_rule_hits(UUID[]) TO authenticated;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE categorization_rules IS 'User-defined deterministic categorization rules, evaluated by priority before mappings and AI';
+COMMENT ON COLUMN categorization_rules.priority IS 'Evaluation order (ascending). The first matching active rule is applied.';
+COMMENT ON COLUMN categorization_rules.conditions IS 'All present conditions must match (AND)';
+COMMENT ON COLUMN categorization_rules.actions IS 'Values applied to matching transactions';
+COMMENT ON COLUMN categorized_transactions.applied_rule_id IS 'Categorization rule that set this transaction''s category/actions';
+COMMENT ON COLUMN categorized_transactions.vat_rate IS 'VAT rate (percent) applied to the transaction';
+COMMENT ON COLUMN categorized_transactions.split_allocations IS 'Percentage split of the amount across categories: [{category, subcategory, percentage}]';
@@ -0,0 +1,143 @@
+-- Migration: Learn categorization from user corrections
+-- Description: Records category edits/confirmations per normalized merchant so consistent corrections can be
+--              proposed (or auto-created) as rules or user_category_mappings, and tracks how much manual
+--              review each learned rule saves.
+-- Created: 2026-01-16
+
+-- ============================================================================
+-- CORRECTIONS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS categorization_corrections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE,
+  transaction_id UUID REFERENCES categorized_transactions(id) ON DELETE SET NULL,
+
+  -- Normalized merchant the correction applies to (see lib/categorization/learning.ts)
+  merchant_key TEXT NOT NULL,
+
+  previous_category TEXT,
+  previous_subcategory TEXT,
+  category TEXT NOT NULL,
+  subcategory TEXT,
+
+  -- 'edit' when the user changed the category, 'confirm' when they accepted it
+  source TEXT NOT NULL CHECK (source IN ('edit', 'confirm')),
+
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_categorization_corrections_user_merchant
+  ON categorization_corrections(user_id, merchant_key, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_categorization_corrections_transaction_id
+  ON categorization_corrections(transaction_id);
+
+-- ============================================================================
+-- LEARNING SETTINGS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS categorization_learning_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Consistent corrections required before a rule is proposed
+  correction_threshold INTEGER NOT NULL DEFAULT 3 CHECK (correction_threshold >= 2 AND correction_threshold <= 20),
+
+  -- What to create automatically once the threshold is reached ('off' only proposes)
+  auto_create TEXT NOT NULL DEFAULT 'off' CHECK (auto_create IN ('off', 'rule', 'mapping')),
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ============================================================================
+-- LEARNED RULE TRACKING
+-- ============================================================================
+
+ALTER TABLE categorization_rules
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'learned')),
+  ADD COLUMN IF NOT EXISTS learned_merchant_key TEXT,
+  -- Transactions this rule categorized that the user later re-categorized
+  ADD COLUMN IF NOT EXISTS override_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_categorization_rules_learned_merchant
+  ON categorization_rules(user_id, learned_merchant_key)
+  WHERE learned_merchant_key IS NOT NULL;
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE categorization_corrections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE categorization_learning_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own categorization corrections" ON categorization_corrections;
+DROP POLICY IF EXISTS "Users can insert own categorization corrections" ON categorization_corrections;
+DROP POLICY IF EXISTS "Platform admins can manage all categorization corrections" ON categorization_corrections;
+
+CREATE POLICY "Users can view own categorization corrections"
+  ON categorization_corrections FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own categorization corrections"
+  ON categorization_corrections FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Platform admins can manage all categorization corrections"
+  ON categorization_corrections FOR ALL
+  USING (is_platform_admin())
+  WITH CHECK (is_platform_admin());
+
+DROP POLICY IF EXISTS "Users can view own learning settings" ON categorization_learning_settings;
+DROP POLICY IF EXISTS "Users can insert own learning settings" ON categorization_learning_settings;
+DROP POLICY IF EXISTS "Users can update own learning settings" ON categorization_learning_settings;
+
+CREATE POLICY "Users can view own learning settings"
+  ON categorization_learning_settings FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own learning settings"
+  ON categorization_learning_settings FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own learning settings"
+  ON categorization_learning_settings FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS update_categorization_learning_settings_updated_at ON categorization_learning_settings;
+CREATE TRIGGER update_categorization_learning_settings_updated_at
+  BEFORE UPDATE ON categorization_learning_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Count a user override against the rule that categorized a transaction
+CREATE OR REPLACE FUNCTION record_categorization_rule_override(p_rule_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE categorization_rules
+  SET override_count = override_count + 1
+  WHERE id = p_rule_id;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION record_categorization_rule_override(UUID) TO authenticated;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE categorization_corrections IS 'User category edits and confirmations, keyed by normalized merchant, used to learn rules';
+COMMENT ON TABLE categorization_learning_settings IS 'Per-user thresholds and auto-create behaviour for learned categorization';
+COMMENT ON COLUMN categorization_rules.source IS 'manual for user-authored rules, learned for rules created from corrections';
+COMMENT ON COLUMN categorization_rules.learned_merchant_key IS 'Normalized merchant a learned rule was created for';
+COMMENT ON COLUMN categorization_rules.override_count IS 'Transactions categorized by this rule that the user later changed';
@@ -0,0 +1,34 @@
+-- Migration: Per-transaction VAT codes
+-- Description: VAT treatment per categorized transaction (standard, reduced, zero, exempt, outside scope,
+--              reverse charge, EC acquisition) and an explicit VAT amount, used by the VAT return engine.
+-- Created: 2026-01-17
+
+-- ============================================================================
+-- TRANSACTION VAT COLUMNS
+-- ============================================================================
+
+ALTER TABLE categorized_transactions
+  ADD COLUMN IF NOT EXISTS vat_code TEXT CHECK (vat_code IN (
+    'standard', 'reduced', 'zero', 'exempt', 'outside_scope', 'reverse_charge', 'ec_acquisition'
+  )),
+  ADD COLUMN IF NOT EXISTS vat_amount DECIMAL(12,2);
+
+CREATE INDEX IF NOT EXISTS idx_categorized_transactions_vat_code
+  ON categorized_transactions(vat_code)
+  WHERE vat_code IS NOT NULL;
+
+-- Backfill codes where a rate was already recorded
+UPDATE categorized_transactions
+SET vat_code = CASE
+  WHEN vat_rate = 0 THEN 'zero'
+  WHEN vat_rate = 5 THEN 'reduced'
+  WHEN vat_rate = 20 THEN 'standard'
+END
+WHERE vat_code IS NULL AND vat_rate IN (0, 5, 20);
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN categorized_transactions.vat_code IS 'VAT treatment: standard, reduced, zero, exempt, outside_scope, reverse_charge or ec_acquisition. NULL means not yet classified.';
+COMMENT ON COLUMN categorized_transactions.vat_amount IS 'VAT amount when known exactly (e.g. from an invoice); otherwise derived from vat_code/vat_rate';
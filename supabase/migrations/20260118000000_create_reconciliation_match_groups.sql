@@ -0,0 +1,379 @@
+-- Migration: Reconciliation match groups
+-- Description: Many-to-many reconciliation. A match group ties M bank transactions to N documents
+--              whose allocated amounts balance within a tolerance, so one payment can settle several
+--              invoices and one invoice can be paid in instalments or net of card fees.
+-- Created: 2026-01-18
+
+-- ============================================================================
+-- MATCH GROUPS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS reconciliation_match_groups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Undone groups are kept for audit but no longer reconcile anything
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'undone')),
+  match_type TEXT NOT NULL CHECK (match_type IN ('one_to_one', 'one_to_many', 'many_to_one', 'many_to_many')),
+
+  transactions_total DECIMAL(12,2) NOT NULL,
+  allocated_total DECIMAL(12,2) NOT NULL,
+  -- Shortfall accepted as fully paid (card fees, bank charges, rounding)
+  write_off_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  tolerance DECIMAL(12,2) NOT NULL DEFAULT 0.01,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'auto')),
+  notes TEXT,
+
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  undone_at TIMESTAMPTZ,
+  undone_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS reconciliation_match_group_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id UUID NOT NULL REFERENCES reconciliation_match_groups(id) ON DELETE CASCADE,
+  transaction_id UUID REFERENCES categorized_transactions(id) ON DELETE CASCADE,
+  document_id UUID REFERENCES financial_documents(id) ON DELETE CASCADE,
+  -- Transaction items: the transaction amount. Document items: the part of the document this group pays.
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT reconciliation_match_group_items_one_side CHECK (
+    (transaction_id IS NOT NULL AND document_id IS NULL) OR
+    (transaction_id IS NULL AND document_id IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_match_groups_user_status
+  ON reconciliation_match_groups(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_reconciliation_match_group_items_group
+  ON reconciliation_match_group_items(group_id);
+CREATE INDEX IF NOT EXISTS idx_reconciliation_match_group_items_transaction
+  ON reconciliation_match_group_items(transaction_id)
+  WHERE transaction_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_reconciliation_match_group_items_document
+  ON reconciliation_match_group_items(document_id)
+  WHERE document_id IS NOT NULL;
+
+-- ============================================================================
+-- TRANSACTION AND DOCUMENT COLUMNS
+-- ============================================================================
+
+ALTER TABLE categorized_transactions
+  ADD COLUMN IF NOT EXISTS match_group_id UUID REFERENCES reconciliation_match_groups(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_categorized_transactions_match_group_id
+  ON categorized_transactions(match_group_id)
+  WHERE match_group_id IS NOT NULL;
+
+-- Partial payment tracking
+ALTER TABLE financial_documents
+  ADD COLUMN IF NOT EXISTS amount_paid DECIMAL(12,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS payment_status TEXT NOT NULL DEFAULT 'unpaid'
+    CHECK (payment_status IN ('unpaid', 'partially_paid', 'paid'));
+
+-- Documents already matched one-to-one count as paid in full
+UPDATE financial_documents
+SET amount_paid = ABS(COALESCE(total_amount, 0)),
+    payment_status = 'paid'
+WHERE matched_transaction_id IS NOT NULL
+  AND payment_status = 'unpaid';
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE reconciliation_match_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reconciliation_match_group_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own match groups" ON reconciliation_match_groups;
+CREATE POLICY "Users can view own match groups"
+  ON reconciliation_match_groups FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view own match group items" ON reconciliation_match_group_items;
+CREATE POLICY "Users can view own match group items"
+  ON reconciliation_match_group_items FOR SELECT
+  USING (
+    group_id IN (SELECT id FROM reconciliation_match_groups WHERE user_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Platform admins can view all match groups" ON reconciliation_match_groups;
+CREATE POLICY "Platform admins can view all match groups"
+  ON reconciliation_match_groups FOR SELECT
+  USING (is_platform_admin());
+
+-- Writes go through create_reconciliation_match_group / undo_reconciliation_match_group
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS update_reconciliation_match_groups_updated_at ON reconciliation_match_groups;
+CREATE TRIGGER update_reconciliation_match_groups_updated_at
+  BEFORE UPDATE ON reconciliation_match_groups
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Recompute a document's paid amount and statuses from its active group items
+CREATE OR REPLACE FUNCTION refresh_document_payment_status(p_document_id UUID, p_tolerance DECIMAL DEFAULT 0.01)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_total DECIMAL(12,2);
+  v_paid DECIMAL(12,2);
+  v_last_paid DATE;
+  v_first_tx UUID;
+  v_fully_paid BOOLEAN;
+BEGIN
+  SELECT ABS(COALESCE(total_amount, 0)) INTO v_total
+  FROM financial_documents
+  WHERE id = p_document_id;
+
+  SELECT COALESCE(SUM(i.amount), 0) INTO v_paid
+  FROM reconciliation_match_group_items i
+  JOIN reconciliation_match_groups g ON g.id = i.group_id AND g.status = 'active'
+  WHERE i.document_id = p_document_id;
+
+  -- Paid on the date of the latest transaction in any group paying this document
+  SELECT MAX(ct.date) INTO v_last_paid
+  FROM reconciliation_match_group_items i
+  JOIN reconciliation_match_groups g ON g.id = i.group_id AND g.status = 'active'
+  JOIN reconciliation_match_group_items ti ON ti.group_id = g.id AND ti.transaction_id IS NOT NULL
+  JOIN categorized_transactions ct ON ct.id = ti.transaction_id
+  WHERE i.document_id = p_document_id;
+
+  SELECT ti.transaction_id INTO v_first_tx
+  FROM reconciliation_match_group_items i
+  JOIN reconciliation_match_groups g ON g.id = i.group_id AND g.status = 'active'
+  JOIN reconciliation_match_group_items ti ON ti.group_id = g.id AND ti.transaction_id IS NOT NULL
+  WHERE i.document_id = p_document_id
+  ORDER BY g.created_at, ti.created_at
+  LIMIT 1;
+
+  v_fully_paid := v_paid > 0 AND v_paid >= v_total - p_tolerance;
+
+  UPDATE financial_documents
+  SET
+    amount_paid = v_paid,
+    payment_status = CASE
+      WHEN v_fully_paid THEN 'paid'
+      WHEN v_paid > 0 THEN 'partially_paid'
+      ELSE 'unpaid'
+    END,
+    reconciliation_status = CASE
+      WHEN v_fully_paid THEN 'matched'
+      WHEN v_paid > 0 THEN 'partial'
+      ELSE 'unreconciled'
+    END,
+    matched_transaction_id = v_first_tx,
+    paid_date = CASE WHEN v_fully_paid THEN v_last_paid ELSE NULL END,
+    reconciled_at = CASE WHEN v_fully_paid THEN NOW() ELSE NULL END,
+    reconciled_by = CASE WHEN v_fully_paid THEN auth.uid() ELSE NULL END,
+    updated_at = NOW()
+  WHERE id = p_document_id;
+END;
+$$;
+
+-- Create a match group atomically. p_document_allocations: [{"document_id": uuid, "amount": number}]
+CREATE OR REPLACE FUNCTION create_reconciliation_match_group(
+  p_transaction_ids UUID[],
+  p_document_allocations JSONB,
+  p_tolerance DECIMAL DEFAULT 0.01,
+  p_write_off_amount DECIMAL DEFAULT 0,
+  p_source TEXT DEFAULT 'manual',
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_group_id UUID;
+  v_tx_count INTEGER;
+  v_doc_count INTEGER;
+  v_tx_total DECIMAL(12,2);
+  v_alloc_total DECIMAL(12,2);
+  v_first_doc UUID;
+  v_allocation JSONB;
+  v_document RECORD;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_tx_count := COALESCE(array_length(p_transaction_ids, 1), 0);
+  v_doc_count := jsonb_array_length(COALESCE(p_document_allocations, '[]'::jsonb));
+  IF v_tx_count = 0 OR v_doc_count = 0 THEN
+    RAISE EXCEPTION 'A match group needs at least one transaction and one document';
+  END IF;
+
+  -- Transactions: owned, unreconciled and not already grouped
+  PERFORM 1 FROM categorized_transactions ct
+  WHERE ct.id = ANY(p_transaction_ids)
+  FOR UPDATE;
+
+  IF (
+    SELECT COUNT(*) FROM categorized_transactions ct
+    JOIN categorization_jobs cj ON cj.id = ct.job_id
+    WHERE ct.id = ANY(p_transaction_ids)
+      AND cj.user_id = v_user_id
+      AND ct.reconciliation_status = 'unreconciled'
+      AND ct.match_group_id IS NULL
+  ) <> v_tx_count THEN
+    RAISE EXCEPTION 'Some transactions were not found or are already reconciled';
+  END IF;
+
+  SELECT COALESCE(SUM(ABS(amount)), 0) INTO v_tx_total
+  FROM categorized_transactions
+  WHERE id = ANY(p_transaction_ids);
+
+  -- Documents: owned and with enough left to pay
+  v_alloc_total := 0;
+  FOR v_allocation IN SELECT * FROM jsonb_array_elements(p_document_allocations)
+  LOOP
+    SELECT id, user_id, ABS(COALESCE(total_amount, 0)) AS total, amount_paid
+    INTO v_document
+    FROM financial_documents
+    WHERE id = (v_allocation->>'document_id')::UUID
+    FOR UPDATE;
+
+    IF v_document.id IS NULL OR v_document.user_id <> v_user_id THEN
+      RAISE EXCEPTION 'Document % not found', v_allocation->>'document_id';
+    END IF;
+    IF (v_allocation->>'amount')::DECIMAL <= 0 THEN
+      RAISE EXCEPTION 'Allocation for document % must be positive', v_document.id;
+    END IF;
+    IF v_document.amount_paid + (v_allocation->>'amount')::DECIMAL > v_document.total + p_tolerance THEN
+      RAISE EXCEPTION 'Allocation exceeds the outstanding amount of document %', v_document.id;
+    END IF;
+
+    v_alloc_total := v_alloc_total + (v_allocation->>'amount')::DECIMAL;
+    IF v_first_doc IS NULL THEN
+      v_first_doc := v_document.id;
+    END IF;
+  END LOOP;
+
+  IF ABS(v_tx_total - v_alloc_total) > p_tolerance THEN
+    RAISE EXCEPTION 'Transactions total % but documents are allocated %', v_tx_total, v_alloc_total;
+  END IF;
+
+  INSERT INTO reconciliation_match_groups (
+    user_id, match_type, transactions_total, allocated_total, write_off_amount,
+    tolerance, source, notes, created_by
+  ) VALUES (
+    v_user_id,
+    CASE
+      WHEN v_tx_count = 1 AND v_doc_count = 1 THEN 'one_to_one'
+      WHEN v_tx_count = 1 THEN 'one_to_many'
+      WHEN v_doc_count = 1 THEN 'many_to_one'
+      ELSE 'many_to_many'
+    END,
+    v_tx_total, v_alloc_total, COALESCE(p_write_off_amount, 0),
+    p_tolerance, COALESCE(p_source, 'manual'), p_notes, v_user_id
+  )
+  RETURNING id INTO v_group_id;
+
+  INSERT INTO reconciliation_match_group_items (group_id, transaction_id, amount)
+  SELECT v_group_id, id, ABS(amount)
+  FROM categorized_transactions
+  WHERE id = ANY(p_transaction_ids) AND amount <> 0;
+
+  -- A written-off shortfall is booked against the last document so it reads as paid in full
+  INSERT INTO reconciliation_match_group_items (group_id, document_id, amount)
+  SELECT
+    v_group_id,
+    (a.value->>'document_id')::UUID,
+    (a.value->>'amount')::DECIMAL
+      + CASE WHEN a.ordinality = v_doc_count THEN COALESCE(p_write_off_amount, 0) ELSE 0 END
+  FROM jsonb_array_elements(p_document_allocations) WITH ORDINALITY AS a(value, ordinality);
+
+  UPDATE categorized_transactions
+  SET
+    reconciliation_status = 'matched',
+    match_group_id = v_group_id,
+    matched_document_id = v_first_doc,
+    reconciled_at = NOW(),
+    updated_at = NOW()
+  WHERE id = ANY(p_transaction_ids);
+
+  FOR v_allocation IN SELECT * FROM jsonb_array_elements(p_document_allocations)
+  LOOP
+    PERFORM refresh_document_payment_status((v_allocation->>'document_id')::UUID, p_tolerance);
+  END LOOP;
+
+  RETURN v_group_id;
+END;
+$$;
+
+-- Undo a match group: transactions return to unreconciled and document payments are recomputed
+CREATE OR REPLACE FUNCTION undo_reconciliation_match_group(p_group_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group RECORD;
+  v_document_id UUID;
+BEGIN
+  SELECT * INTO v_group
+  FROM reconciliation_match_groups
+  WHERE id = p_group_id
+  FOR UPDATE;
+
+  IF v_group.id IS NULL OR v_group.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Match group not found';
+  END IF;
+  IF v_group.status <> 'active' THEN
+    RAISE EXCEPTION 'Match group has already been undone';
+  END IF;
+
+  UPDATE reconciliation_match_groups
+  SET status = 'undone', undone_at = NOW(), undone_by = auth.uid()
+  WHERE id = p_group_id;
+
+  UPDATE categorized_transactions
+  SET
+    reconciliation_status = 'unreconciled',
+    match_group_id = NULL,
+    matched_document_id = NULL,
+    reconciled_at = NULL,
+    updated_at = NOW()
+  WHERE match_group_id = p_group_id;
+
+  FOR v_document_id IN
+    SELECT DISTINCT document_id FROM reconciliation_match_group_items
+    WHERE group_id = p_group_id AND document_id IS NOT NULL
+  LOOP
+    PERFORM refresh_document_payment_status(v_document_id, v_group.tolerance);
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_reconciliation_match_group(UUID[], JSONB, DECIMAL, DECIMAL, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION undo_reconciliation_match_group(UUID) TO authenticated;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE reconciliation_match_groups IS 'Reconciliation of M bank transactions against N documents whose allocations balance within a tolerance';
+COMMENT ON TABLE reconciliation_match_group_items IS 'Transactions and document allocations belonging to a match group';
+COMMENT ON COLUMN reconciliation_match_groups.write_off_amount IS 'Shortfall accepted as settled (e.g. card fees deducted by the payment processor)';
+COMMENT ON COLUMN categorized_transactions.match_group_id IS 'Active reconciliation match group this transaction belongs to';
+COMMENT ON COLUMN financial_documents.amount_paid IS 'Sum of active match group allocations against this document';
+COMMENT ON COLUMN financial_documents.payment_status IS 'unpaid, partially_paid or paid, derived from amount_paid';
+COMMENT ON FUNCTION create_reconciliation_match_group IS 'Create a many-to-many reconciliation match group and update payment tracking';
+COMMENT ON FUNCTION undo_reconciliation_match_group IS 'Undo a reconciliation match group, restoring transactions and document payment status';
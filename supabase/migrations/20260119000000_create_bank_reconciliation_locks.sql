@@ -0,0 +1,134 @@
+-- Migration: Bank Balance Reconciliation Locks
+-- Description: Lock bank account periods once statements are reconciled against their balances
+-- Created: 2026-01-19
+
+-- ============================================================================
+-- BANK RECONCILIATION LOCKS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS bank_reconciliation_locks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bank_account_id UUID NOT NULL REFERENCES bank_accounts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  statement_metadata_id UUID REFERENCES bank_statement_metadata(id) ON DELETE SET NULL,
+  opening_balance DECIMAL(12,2) NOT NULL,
+  closing_balance DECIMAL(12,2) NOT NULL,
+  notes TEXT,
+  locked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  locked_at TIMESTAMPTZ DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CHECK (period_end >= period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_reconciliation_locks_account_period
+  ON bank_reconciliation_locks(bank_account_id, period_start, period_end);
+
+CREATE INDEX IF NOT EXISTS idx_bank_reconciliation_locks_user_id
+  ON bank_reconciliation_locks(user_id);
+
+-- ============================================================================
+-- ENFORCE LOCKS ON BANK TRANSACTIONS
+-- ============================================================================
+
+-- True when the bank account has a locked period covering the date
+CREATE OR REPLACE FUNCTION is_bank_period_locked(p_bank_account_id UUID, p_date DATE)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF p_bank_account_id IS NULL OR p_date IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM bank_reconciliation_locks
+    WHERE bank_account_id = p_bank_account_id
+      AND p_date BETWEEN period_start AND period_end
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Reject changes that would move a locked period's balance. Categorisation, notes and
+-- matching stay editable; breakdown entries and invoice-derived rows never hit the bank.
+CREATE OR REPLACE FUNCTION prevent_locked_bank_period_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.amount IS NOT DISTINCT FROM OLD.amount
+    AND NEW.date IS NOT DISTINCT FROM OLD.date
+    AND NEW.is_debit IS NOT DISTINCT FROM OLD.is_debit
+    AND NEW.bank_account_id IS NOT DISTINCT FROM OLD.bank_account_id
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE')
+    AND NOT COALESCE(OLD.is_breakdown_entry, FALSE)
+    AND OLD.document_id IS NULL
+    AND is_bank_period_locked(OLD.bank_account_id, OLD.date)
+  THEN
+    RAISE EXCEPTION 'Bank account period containing % is locked', OLD.date;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE')
+    AND NOT COALESCE(NEW.is_breakdown_entry, FALSE)
+    AND NEW.document_id IS NULL
+    AND is_bank_period_locked(NEW.bank_account_id, NEW.date)
+  THEN
+    RAISE EXCEPTION 'Bank account period containing % is locked', NEW.date;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_prevent_locked_bank_period_changes ON categorized_transactions;
+CREATE TRIGGER trigger_prevent_locked_bank_period_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON categorized_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_locked_bank_period_changes();
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE bank_reconciliation_locks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own bank reconciliation locks" ON bank_reconciliation_locks;
+CREATE POLICY "Users can view their own bank reconciliation locks"
+  ON bank_reconciliation_locks FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can lock periods on their own bank accounts" ON bank_reconciliation_locks;
+CREATE POLICY "Users can lock periods on their own bank accounts"
+  ON bank_reconciliation_locks FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM bank_accounts ba
+      WHERE ba.id = bank_reconciliation_locks.bank_account_id
+      AND ba.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can unlock their own bank reconciliation locks" ON bank_reconciliation_locks;
+CREATE POLICY "Users can unlock their own bank reconciliation locks"
+  ON bank_reconciliation_locks FOR DELETE
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Platform admins can manage all bank reconciliation locks" ON bank_reconciliation_locks;
+CREATE POLICY "Platform admins can manage all bank reconciliation locks"
+  ON bank_reconciliation_locks FOR ALL
+  USING (is_platform_admin())
+  WITH CHECK (is_platform_admin());
+
+GRANT EXECUTE ON FUNCTION is_bank_period_locked(UUID, DATE) TO authenticated;
+
+COMMENT ON TABLE bank_reconciliation_locks IS 'Bank account periods reconciled against statement balances and locked against balance-changing edits';
+COMMENT ON COLUMN bank_reconciliation_locks.opening_balance IS 'Statement opening balance at the start of the locked period';
+COMMENT ON COLUMN bank_reconciliation_locks.closing_balance IS 'Statement closing balance agreed at the end of the locked period';
+COMMENT ON FUNCTION prevent_locked_bank_period_changes() IS 'Blocks inserts, deletes and amount/date/direction/account edits on transactions in a locked bank period';
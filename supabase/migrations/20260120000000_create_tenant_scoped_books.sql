@@ -0,0 +1,678 @@
+-- Migration: Tenant-Scoped Shared Books
+-- Description: Transactions, documents, rules and bank accounts belong to a company profile
+--              (and its tenant) rather than the uploading user. Access is granted by company
+--              membership or tenant membership, so a finance team works one set of books.
+-- Created: 2026-01-20
+
+-- ============================================================================
+-- COMPANY PROFILE MEMBERS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS company_profile_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_profile_id UUID NOT NULL REFERENCES company_profiles(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- owner/admin manage members; member edits the books; viewer is read-only
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member', 'viewer')),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(company_profile_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_profile_members_user_id
+  ON company_profile_members(user_id);
+
+CREATE INDEX IF NOT EXISTS idx_company_profile_members_company_profile_id
+  ON company_profile_members(company_profile_id);
+
+DROP TRIGGER IF EXISTS update_company_profile_members_updated_at ON company_profile_members;
+CREATE TRIGGER update_company_profile_members_updated_at
+  BEFORE UPDATE ON company_profile_members
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- ACCESS HELPERS
+-- ============================================================================
+
+-- Tenants the current user belongs to (primary tenant plus any tenant roles)
+CREATE OR REPLACE FUNCTION current_user_tenant_ids()
+RETURNS SETOF UUID AS $$
+  SELECT tenant_id FROM users WHERE id = auth.uid() AND tenant_id IS NOT NULL
+  UNION
+  SELECT tenant_id FROM user_tenant_roles WHERE user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Company profiles whose books the current user can see: ones they created, ones they
+-- are a member of, and every profile in a tenant they belong to
+CREATE OR REPLACE FUNCTION accessible_company_profile_ids()
+RETURNS SETOF UUID AS $$
+  SELECT id FROM company_profiles WHERE user_id = auth.uid()
+  UNION
+  SELECT company_profile_id FROM company_profile_members WHERE user_id = auth.uid()
+  UNION
+  SELECT id FROM company_profiles
+  WHERE tenant_id IS NOT NULL
+    AND tenant_id IN (SELECT current_user_tenant_ids());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_access_company_profile(p_company_profile_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT p_company_profile_id IS NOT NULL
+    AND p_company_profile_id IN (SELECT accessible_company_profile_ids());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Write access: any access except an explicit viewer membership
+CREATE OR REPLACE FUNCTION can_edit_company_profile(p_company_profile_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT can_access_company_profile(p_company_profile_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM company_profile_members
+      WHERE company_profile_id = p_company_profile_id
+        AND user_id = auth.uid()
+        AND role = 'viewer'
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_manage_company_profile(p_company_profile_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM company_profiles
+    WHERE id = p_company_profile_id AND user_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM company_profile_members
+    WHERE company_profile_id = p_company_profile_id
+      AND user_id = auth.uid()
+      AND role IN ('owner', 'admin')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- OWNERSHIP COLUMNS
+-- ============================================================================
+
+ALTER TABLE categorization_jobs
+  ADD COLUMN IF NOT EXISTS company_profile_id UUID REFERENCES company_profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE categorized_transactions
+  ADD COLUMN IF NOT EXISTS company_profile_id UUID REFERENCES company_profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE;
+
+ALTER TABLE financial_documents
+  ADD COLUMN IF NOT EXISTS company_profile_id UUID REFERENCES company_profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE categorization_rules
+  ADD COLUMN IF NOT EXISTS company_profile_id UUID REFERENCES company_profiles(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_categorization_jobs_company_profile_id
+  ON categorization_jobs(company_profile_id);
+CREATE INDEX IF NOT EXISTS idx_categorized_transactions_company_profile_date
+  ON categorized_transactions(company_profile_id, date);
+CREATE INDEX IF NOT EXISTS idx_categorized_transactions_tenant_id
+  ON categorized_transactions(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_financial_documents_company_profile_id
+  ON financial_documents(company_profile_id);
+CREATE INDEX IF NOT EXISTS idx_categorization_rules_company_profile_priority
+  ON categorization_rules(company_profile_id, priority);
+
+-- ============================================================================
+-- ASSIGN OWNERSHIP ON INSERT
+-- ============================================================================
+
+-- Most recent company profile the user created, the same default the upload routes use
+CREATE OR REPLACE FUNCTION default_company_profile_for_user(p_user_id UUID)
+RETURNS UUID AS $$
+  SELECT id FROM company_profiles
+  WHERE user_id = p_user_id
+  ORDER BY created_at DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Fill company_profile_id (and tenant_id) on new rows so existing insert paths keep working:
+-- bank account's company first, then the job's, then the creating user's default profile
+CREATE OR REPLACE FUNCTION assign_books_company_profile()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_row JSONB := to_jsonb(NEW);
+  v_company_profile_id UUID := (v_row->>'company_profile_id')::UUID;
+  v_user_id UUID;
+BEGIN
+  IF v_company_profile_id IS NULL AND v_row ? 'bank_account_id' AND v_row->>'bank_account_id' IS NOT NULL THEN
+    SELECT company_profile_id INTO v_company_profile_id
+    FROM bank_accounts WHERE id = (v_row->>'bank_account_id')::UUID;
+  END IF;
+
+  IF v_company_profile_id IS NULL AND v_row ? 'job_id' AND v_row->>'job_id' IS NOT NULL THEN
+    SELECT company_profile_id, user_id INTO v_company_profile_id, v_user_id
+    FROM categorization_jobs WHERE id = (v_row->>'job_id')::UUID;
+  END IF;
+
+  IF v_company_profile_id IS NULL THEN
+    v_user_id := COALESCE((v_row->>'user_id')::UUID, v_user_id, auth.uid());
+    v_company_profile_id := default_company_profile_for_user(v_user_id);
+  END IF;
+
+  IF v_company_profile_id IS NOT NULL THEN
+    NEW := jsonb_populate_record(NEW, jsonb_build_object('company_profile_id', v_company_profile_id));
+
+    IF v_row ? 'tenant_id' AND v_row->>'tenant_id' IS NULL THEN
+      NEW := jsonb_populate_record(NEW, jsonb_build_object(
+        'tenant_id', (SELECT tenant_id FROM company_profiles WHERE id = v_company_profile_id)
+      ));
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_assign_books_company_profile ON categorization_jobs;
+CREATE TRIGGER trigger_assign_books_company_profile
+  BEFORE INSERT ON categorization_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_books_company_profile();
+
+DROP TRIGGER IF EXISTS trigger_assign_books_company_profile ON categorized_transactions;
+CREATE TRIGGER trigger_assign_books_company_profile
+  BEFORE INSERT ON categorized_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_books_company_profile();
+
+DROP TRIGGER IF EXISTS trigger_assign_books_company_profile ON financial_documents;
+CREATE TRIGGER trigger_assign_books_company_profile
+  BEFORE INSERT ON financial_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_books_company_profile();
+
+DROP TRIGGER IF EXISTS trigger_assign_books_company_profile ON categorization_rules;
+CREATE TRIGGER trigger_assign_books_company_profile
+  BEFORE INSERT ON categorization_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_books_company_profile();
+
+-- The creator of a company profile is its owner
+CREATE OR REPLACE FUNCTION add_company_profile_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO company_profile_members (company_profile_id, user_id, role)
+  VALUES (NEW.id, NEW.user_id, 'owner')
+  ON CONFLICT (company_profile_id, user_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_add_company_profile_owner ON company_profiles;
+CREATE TRIGGER trigger_add_company_profile_owner
+  AFTER INSERT ON company_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION add_company_profile_owner();
+
+-- ============================================================================
+-- MIGRATE EXISTING PER-USER DATA
+-- ============================================================================
+
+-- Owners for existing profiles
+INSERT INTO company_profile_members (company_profile_id, user_id, role)
+SELECT id, user_id, 'owner' FROM company_profiles
+ON CONFLICT (company_profile_id, user_id) DO NOTHING;
+
+-- Jobs: bank account's company, else the uploader's default profile
+UPDATE categorization_jobs cj
+SET company_profile_id = COALESCE(
+  (SELECT ba.company_profile_id FROM bank_accounts ba WHERE ba.id = cj.bank_account_id),
+  default_company_profile_for_user(cj.user_id)
+)
+WHERE cj.company_profile_id IS NULL;
+
+-- Transactions: bank account's company, else their job's
+UPDATE categorized_transactions ct
+SET company_profile_id = COALESCE(
+  (SELECT ba.company_profile_id FROM bank_accounts ba WHERE ba.id = ct.bank_account_id),
+  (SELECT cj.company_profile_id FROM categorization_jobs cj WHERE cj.id = ct.job_id)
+)
+WHERE ct.company_profile_id IS NULL;
+
+UPDATE categorized_transactions ct
+SET tenant_id = cp.tenant_id
+FROM company_profiles cp
+WHERE cp.id = ct.company_profile_id
+  AND ct.tenant_id IS NULL;
+
+UPDATE financial_documents fd
+SET company_profile_id = COALESCE(
+  (SELECT ba.company_profile_id FROM bank_accounts ba WHERE ba.id = fd.bank_account_id),
+  (SELECT cj.company_profile_id FROM categorization_jobs cj WHERE cj.id = fd.job_id),
+  default_company_profile_for_user(fd.user_id)
+)
+WHERE fd.company_profile_id IS NULL;
+
+UPDATE categorization_rules
+SET company_profile_id = default_company_profile_for_user(user_id)
+WHERE company_profile_id IS NULL;
+
+-- Bank accounts created before company profiles existed
+UPDATE bank_accounts
+SET company_profile_id = default_company_profile_for_user(user_id)
+WHERE company_profile_id IS NULL;
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+-- Added alongside the existing per-user policies, which keep rows without a company
+-- profile visible to the user who created them.
+
+ALTER TABLE company_profile_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view company members" ON company_profile_members;
+CREATE POLICY "Members can view company members"
+  ON company_profile_members FOR SELECT
+  USING (can_access_company_profile(company_profile_id));
+
+DROP POLICY IF EXISTS "Company admins can manage members" ON company_profile_members;
+CREATE POLICY "Company admins can manage members"
+  ON company_profile_members FOR ALL
+  USING (can_manage_company_profile(company_profile_id))
+  WITH CHECK (can_manage_company_profile(company_profile_id));
+
+DROP POLICY IF EXISTS "Platform admins can manage all company members" ON company_profile_members;
+CREATE POLICY "Platform admins can manage all company members"
+  ON company_profile_members FOR ALL
+  USING (is_platform_admin())
+  WITH CHECK (is_platform_admin());
+
+DROP POLICY IF EXISTS "Members can view shared company profiles" ON company_profiles;
+CREATE POLICY "Members can view shared company profiles"
+  ON company_profiles FOR SELECT
+  USING (can_access_company_profile(id));
+
+DROP POLICY IF EXISTS "Company admins can update shared company profiles" ON company_profiles;
+CREATE POLICY "Company admins can update shared company profiles"
+  ON company_profiles FOR UPDATE
+  USING (can_manage_company_profile(id));
+
+-- Jobs
+DROP POLICY IF EXISTS "Members can view company categorization jobs" ON categorization_jobs;
+CREATE POLICY "Members can view company categorization jobs"
+  ON categorization_jobs FOR SELECT
+  USING (can_access_company_profile(company_profile_id));
+
+DROP POLICY IF EXISTS "Members can update company categorization jobs" ON categorization_jobs;
+CREATE POLICY "Members can update company categorization jobs"
+  ON categorization_jobs FOR UPDATE
+  USING (can_edit_company_profile(company_profile_id));
+
+-- Transactions
+DROP POLICY IF EXISTS "Members can view company transactions" ON categorized_transactions;
+CREATE POLICY "Members can view company transactions"
+  ON categorized_transactions FOR SELECT
+  USING (can_access_company_profile(company_profile_id));
+
+DROP POLICY IF EXISTS "Members can insert company transactions" ON categorized_transactions;
+CREATE POLICY "Members can insert company transactions"
+  ON categorized_transactions FOR INSERT
+  WITH CHECK (can_edit_company_profile(company_profile_id));
+
+DROP POLICY IF EXISTS "Members can update company transactions" ON categorized_transactions;
+CREATE POLICY "Members can update company transactions"
+  ON categorized_transactions FOR UPDATE
+  USING (can_edit_company_profile(company_profile_id))
+  WITH CHECK (can_edit_company_profile(company_profile_id));
+
+DROP POLICY IF EXISTS "Members can delete company transactions" ON categorized_transactions;
+CREATE POLICY "Members can delete company transactions"
+  ON categorized_transactions FOR DELETE
+  USING (can_edit_company_profile(company_profile_id));
+
+-- Documents
+DROP POLICY IF EXISTS "Members can view company documents" ON financial_documents;
+CREATE POLICY "Members can view company documents"
+  ON financial_documents FOR SELECT
+  USING (can_access_company_profile(company_profile_id));
+
+DROP POLICY IF EXISTS "Members can update company documents" ON financial_documents;
+CREATE POLICY "Members can update company documents"
+  ON financial_documents FOR UPDATE
+  USING (can_edit_company_profile(company_profile_id))
+  WITH CHECK (can_edit_company_profile(company_profile_id));
+
+DROP POLICY IF EXISTS "Members can delete company documents" ON financial_documents;
+CREATE POLICY "Members can delete company documents"
+  ON financial_documents FOR DELETE
+  USING (can_edit_company_profile(company_profile_id));
+
+-- Rules
+DROP POLICY IF EXISTS "Members can view company categorization rules" ON categorization_rules;
+CREATE POLICY "Members can view company categorization rules"
+  ON categorization_rules FOR SELECT
+  USING (can_access_company_profile(company_profile_id));
+
+DROP POLICY IF EXISTS "Members can manage company categorization rules" ON categorization_rules;
+CREATE POLICY "Members can manage company categorization rules"
+  ON categorization_rules FOR ALL
+  USING (can_edit_company_profile(company_profile_id))
+  WITH CHECK (can_edit_company_profile(company_profile_id));
+
+-- Bank accounts
+DROP POLICY IF EXISTS "Members can view company bank accounts" ON bank_accounts;
+CREATE POLICY "Members can view company bank accounts"
+  ON bank_accounts FOR SELECT
+  USING (can_access_company_profile(company_profile_id));
+
+DROP POLICY IF EXISTS "Members can update company bank accounts" ON bank_accounts;
+CREATE POLICY "Members can update company bank accounts"
+  ON bank_accounts FOR UPDATE
+  USING (can_edit_company_profile(company_profile_id))
+  WITH CHECK (can_edit_company_profile(company_profile_id));
+
+-- Statement metadata and reconciliation locks follow their bank account
+DROP POLICY IF EXISTS "Members can view company bank statement metadata" ON bank_statement_metadata;
+CREATE POLICY "Members can view company bank statement metadata"
+  ON bank_statement_metadata FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM bank_accounts ba
+      WHERE ba.id = bank_statement_metadata.bank_account_id
+      AND can_access_company_profile(ba.company_profile_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can view company bank reconciliation locks" ON bank_reconciliation_locks;
+CREATE POLICY "Members can view company bank reconciliation locks"
+  ON bank_reconciliation_locks FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM bank_accounts ba
+      WHERE ba.id = bank_reconciliation_locks.bank_account_id
+      AND can_access_company_profile(ba.company_profile_id)
+    )
+  );
+
+-- Ledger; post_journal_entry runs as the caller, so members with write access can post.
+-- Posting resolves accounts from the chart and category mappings, which members read.
+DROP POLICY IF EXISTS "Members can view company chart of accounts" ON chart_of_accounts;
+CREATE POLICY "Members can view company chart of accounts"
+  ON chart_of_accounts FOR SELECT
+  USING (can_access_company_profile(company_profile_id));
+
+DROP POLICY IF EXISTS "Members can view company category mappings" ON category_account_mapping;
+CREATE POLICY "Members can view company category mappings"
+  ON category_account_mapping FOR SELECT
+  USING (can_access_company_profile(company_profile_id));
+
+DROP POLICY IF EXISTS "Members can view company journal entries" ON journal_entries;
+CREATE POLICY "Members can view company journal entries"
+  ON journal_entries FOR SELECT
+  USING (can_access_company_profile(company_profile_id));
+
+DROP POLICY IF EXISTS "Members can create company journal entries" ON journal_entries;
+CREATE POLICY "Members can create company journal entries"
+  ON journal_entries FOR INSERT
+  WITH CHECK (can_edit_company_profile(company_profile_id));
+
+DROP POLICY IF EXISTS "Members can update company journal entries" ON journal_entries;
+CREATE POLICY "Members can update company journal entries"
+  ON journal_entries FOR UPDATE
+  USING (can_edit_company_profile(company_profile_id))
+  WITH CHECK (can_edit_company_profile(company_profile_id));
+
+DROP POLICY IF EXISTS "Members can view company journal lines" ON journal_lines;
+CREATE POLICY "Members can view company journal lines"
+  ON journal_lines FOR SELECT
+  USING (
+    journal_entry_id IN (
+      SELECT id FROM journal_entries
+      WHERE can_access_company_profile(company_profile_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can create company journal lines" ON journal_lines;
+CREATE POLICY "Members can create company journal lines"
+  ON journal_lines FOR INSERT
+  WITH CHECK (
+    journal_entry_id IN (
+      SELECT id FROM journal_entries
+      WHERE can_edit_company_profile(company_profile_id)
+    )
+  );
+
+-- ============================================================================
+-- SHARED MATCH GROUPS
+-- ============================================================================
+
+ALTER TABLE reconciliation_match_groups
+  ADD COLUMN IF NOT EXISTS company_profile_id UUID REFERENCES company_profiles(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_match_groups_company_status
+  ON reconciliation_match_groups(company_profile_id, status);
+
+UPDATE reconciliation_match_groups g
+SET company_profile_id = (
+  SELECT ct.company_profile_id
+  FROM reconciliation_match_group_items i
+  JOIN categorized_transactions ct ON ct.id = i.transaction_id
+  WHERE i.group_id = g.id
+  LIMIT 1
+)
+WHERE g.company_profile_id IS NULL;
+
+DROP POLICY IF EXISTS "Members can view company match groups" ON reconciliation_match_groups;
+CREATE POLICY "Members can view company match groups"
+  ON reconciliation_match_groups FOR SELECT
+  USING (can_access_company_profile(company_profile_id));
+
+DROP POLICY IF EXISTS "Members can view company match group items" ON reconciliation_match_group_items;
+CREATE POLICY "Members can view company match group items"
+  ON reconciliation_match_group_items FOR SELECT
+  USING (
+    group_id IN (
+      SELECT id FROM reconciliation_match_groups
+      WHERE can_access_company_profile(company_profile_id)
+    )
+  );
+
+-- Same as 20260118000000, with company membership in place of per-user ownership
+CREATE OR REPLACE FUNCTION create_reconciliation_match_group(
+  p_transaction_ids UUID[],
+  p_document_allocations JSONB,
+  p_tolerance DECIMAL DEFAULT 0.01,
+  p_write_off_amount DECIMAL DEFAULT 0,
+  p_source TEXT DEFAULT 'manual',
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_company_profile_id UUID;
+  v_group_id UUID;
+  v_tx_count INTEGER;
+  v_doc_count INTEGER;
+  v_tx_total DECIMAL(12,2);
+  v_alloc_total DECIMAL(12,2);
+  v_first_doc UUID;
+  v_allocation JSONB;
+  v_document RECORD;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_tx_count := COALESCE(array_length(p_transaction_ids, 1), 0);
+  v_doc_count := jsonb_array_length(COALESCE(p_document_allocations, '[]'::jsonb));
+  IF v_tx_count = 0 OR v_doc_count = 0 THEN
+    RAISE EXCEPTION 'A match group needs at least one transaction and one document';
+  END IF;
+
+  -- Transactions: in books the user can edit, from one company, unreconciled and not already grouped
+  PERFORM 1 FROM categorized_transactions ct
+  WHERE ct.id = ANY(p_transaction_ids)
+  FOR UPDATE;
+
+  IF (
+    SELECT COUNT(*) FROM categorized_transactions ct
+    JOIN categorization_jobs cj ON cj.id = ct.job_id
+    WHERE ct.id = ANY(p_transaction_ids)
+      AND (can_edit_company_profile(ct.company_profile_id) OR cj.user_id = v_user_id)
+      AND ct.reconciliation_status = 'unreconciled'
+      AND ct.match_group_id IS NULL
+  ) <> v_tx_count THEN
+    RAISE EXCEPTION 'Some transactions were not found or are already reconciled';
+  END IF;
+
+  IF (
+    SELECT COUNT(DISTINCT company_profile_id) FROM categorized_transactions
+    WHERE id = ANY(p_transaction_ids)
+  ) > 1 THEN
+    RAISE EXCEPTION 'Transactions belong to different companies';
+  END IF;
+
+  SELECT COALESCE(SUM(ABS(amount)), 0), MAX(company_profile_id::TEXT)::UUID
+  INTO v_tx_total, v_company_profile_id
+  FROM categorized_transactions
+  WHERE id = ANY(p_transaction_ids);
+
+  -- Documents: in the same company's books and with enough left to pay
+  v_alloc_total := 0;
+  FOR v_allocation IN SELECT * FROM jsonb_array_elements(p_document_allocations)
+  LOOP
+    SELECT id, user_id, company_profile_id, ABS(COALESCE(total_amount, 0)) AS total, amount_paid
+    INTO v_document
+    FROM financial_documents
+    WHERE id = (v_allocation->>'document_id')::UUID
+    FOR UPDATE;
+
+    IF v_document.id IS NULL
+      OR NOT (can_edit_company_profile(v_document.company_profile_id) OR v_document.user_id = v_user_id)
+      OR v_document.company_profile_id IS DISTINCT FROM v_company_profile_id
+    THEN
+      RAISE EXCEPTION 'Document % not found', v_allocation->>'document_id';
+    END IF;
+    IF (v_allocation->>'amount')::DECIMAL <= 0 THEN
+      RAISE EXCEPTION 'Allocation for document % must be positive', v_document.id;
+    END IF;
+    IF v_document.amount_paid + (v_allocation->>'amount')::DECIMAL > v_document.total + p_tolerance THEN
+      RAISE EXCEPTION 'Allocation exceeds the outstanding amount of document %', v_document.id;
+    END IF;
+
+    v_alloc_total := v_alloc_total + (v_allocation->>'amount')::DECIMAL;
+    IF v_first_doc IS NULL THEN
+      v_first_doc := v_document.id;
+    END IF;
+  END LOOP;
+
+  IF ABS(v_tx_total - v_alloc_total) > p_tolerance THEN
+    RAISE EXCEPTION 'Transactions total % but documents are allocated %', v_tx_total, v_alloc_total;
+  END IF;
+
+  INSERT INTO reconciliation_match_groups (
+    user_id, company_profile_id, match_type, transactions_total, allocated_total, write_off_amount,
+    tolerance, source, notes, created_by
+  ) VALUES (
+    v_user_id,
+    v_company_profile_id,
+    CASE
+      WHEN v_tx_count = 1 AND v_doc_count = 1 THEN 'one_to_one'
+      WHEN v_tx_count = 1 THEN 'one_to_many'
+      WHEN v_doc_count = 1 THEN 'many_to_one'
+      ELSE 'many_to_many'
+    END,
+    v_tx_total, v_alloc_total, COALESCE(p_write_off_amount, 0),
+    p_tolerance, COALESCE(p_source, 'manual'), p_notes, v_user_id
+  )
+  RETURNING id INTO v_group_id;
+
+  INSERT INTO reconciliation_match_group_items (group_id, transaction_id, amount)
+  SELECT v_group_id, id, ABS(amount)
+  FROM categorized_transactions
+  WHERE id = ANY(p_transaction_ids) AND amount <> 0;
+
+  -- A written-off shortfall is booked against the last document so it reads as paid in full
+  INSERT INTO reconciliation_match_group_items (group_id, document_id, amount)
+  SELECT
+    v_group_id,
+    (a.value->>'document_id')::UUID,
+    (a.value->>'amount')::DECIMAL
+      + CASE WHEN a.ordinality = v_doc_count THEN COALESCE(p_write_off_amount, 0) ELSE 0 END
+  FROM jsonb_array_elements(p_document_allocations) WITH ORDINALITY AS a(value, ordinality);
+
+  UPDATE categorized_transactions
+  SET
+    reconciliation_status = 'matched',
+    match_group_id = v_group_id,
+    matched_document_id = v_first_doc,
+    reconciled_at = NOW(),
+    updated_at = NOW()
+  WHERE id = ANY(p_transaction_ids);
+
+  FOR v_allocation IN SELECT * FROM jsonb_array_elements(p_document_allocations)
+  LOOP
+    PERFORM refresh_document_payment_status((v_allocation->>'document_id')::UUID, p_tolerance);
+  END LOOP;
+
+  RETURN v_group_id;
+END;
+$$;
+
+-- Same as 20260118000000, letting any member with write access undo the group
+CREATE OR REPLACE FUNCTION undo_reconciliation_match_group(p_group_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group RECORD;
+  v_document_id UUID;
+BEGIN
+  SELECT * INTO v_group
+  FROM reconciliation_match_groups
+  WHERE id = p_group_id
+  FOR UPDATE;
+
+  IF v_group.id IS NULL
+    OR NOT (v_group.user_id = auth.uid() OR can_edit_company_profile(v_group.company_profile_id))
+  THEN
+    RAISE EXCEPTION 'Match group not found';
+  END IF;
+  IF v_group.status <> 'active' THEN
+    RAISE EXCEPTION 'Match group has already been undone';
+  END IF;
+
+  UPDATE reconciliation_match_groups
+  SET status = 'undone', undone_at = NOW(), undone_by = auth.uid()
+  WHERE id = p_group_id;
+
+  UPDATE categorized_transactions
+  SET
+    reconciliation_status = 'unreconciled',
+    match_group_id = NULL,
+    matched_document_id = NULL,
+    reconciled_at = NULL,
+    updated_at = NOW()
+  WHERE match_group_id = p_group_id;
+
+  FOR v_document_id IN
+    SELECT DISTINCT document_id FROM reconciliation_match_group_items
+    WHERE group_id = p_group_id AND document_id IS NOT NULL
+  LOOP
+    PERFORM refresh_document_payment_status(v_document_id, v_group.tolerance);
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION current_user_tenant_ids() TO authenticated;
+GRANT EXECUTE ON FUNCTION accessible_company_profile_ids() TO authenticated;
+GRANT EXECUTE ON FUNCTION can_access_company_profile(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_edit_company_profile(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_manage_company_profile(UUID) TO authenticated;
+
+COMMENT ON TABLE company_profile_members IS 'Users with access to a company profile''s books, in addition to members of its tenant';
+COMMENT ON FUNCTION accessible_company_profile_ids() IS 'Company profiles the current user can access: created, explicit membership, or tenant membership';
+COMMENT ON COLUMN categorized_transactions.company_profile_id IS 'Company whose books the transaction belongs to; access follows company membership';
+COMMENT ON COLUMN financial_documents.company_profile_id IS 'Company whose books the document belongs to; access follows company membership';
+COMMENT ON COLUMN categorization_rules.company_profile_id IS 'Company the rule applies to; shared by everyone working its books';
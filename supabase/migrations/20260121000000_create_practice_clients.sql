@@ -0,0 +1,202 @@
+-- Migration: Accountant Practice Mode
+-- Description: Let an accounting practice tenant manage many client tenants from one login.
+--              Clients are invited through team_invitations; once accepted, everyone in the
+--              practice can work the client's books. Users pick an active company that
+--              scopes every route and new uploads.
+-- Created: 2026-01-21
+
+-- ============================================================================
+-- CLIENT INVITATIONS
+-- ============================================================================
+
+ALTER TABLE team_invitations
+  ADD COLUMN IF NOT EXISTS invitation_type TEXT NOT NULL DEFAULT 'team'
+    CHECK (invitation_type IN ('team', 'practice_client')),
+  ADD COLUMN IF NOT EXISTS client_name TEXT,
+  ADD COLUMN IF NOT EXISTS accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_team_invitations_type ON team_invitations(tenant_id, invitation_type);
+
+-- ============================================================================
+-- PRACTICE CLIENTS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS practice_clients (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  practice_tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  client_tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  invitation_id UUID REFERENCES team_invitations(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'revoked')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(practice_tenant_id, client_tenant_id),
+  CHECK (practice_tenant_id <> client_tenant_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_practice_clients_practice_tenant_id
+  ON practice_clients(practice_tenant_id) WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_practice_clients_client_tenant_id
+  ON practice_clients(client_tenant_id);
+
+DROP TRIGGER IF EXISTS update_practice_clients_updated_at ON practice_clients;
+CREATE TRIGGER update_practice_clients_updated_at
+  BEFORE UPDATE ON practice_clients
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- ACCESS HELPERS
+-- ============================================================================
+
+-- Client tenants of every practice the current user belongs to
+CREATE OR REPLACE FUNCTION current_user_client_tenant_ids()
+RETURNS SETOF UUID AS $$
+  SELECT client_tenant_id FROM practice_clients
+  WHERE status = 'active'
+    AND practice_tenant_id IN (SELECT current_user_tenant_ids());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Practice staff see every company profile in their clients' tenants
+CREATE OR REPLACE FUNCTION accessible_company_profile_ids()
+RETURNS SETOF UUID AS $$
+  SELECT id FROM company_profiles WHERE user_id = auth.uid()
+  UNION
+  SELECT company_profile_id FROM company_profile_members WHERE user_id = auth.uid()
+  UNION
+  SELECT id FROM company_profiles
+  WHERE tenant_id IS NOT NULL
+    AND (
+      tenant_id IN (SELECT current_user_tenant_ids())
+      OR tenant_id IN (SELECT current_user_client_tenant_ids())
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- ACTIVE COMPANY
+-- ============================================================================
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS active_company_profile_id UUID REFERENCES company_profiles(id) ON DELETE SET NULL;
+
+-- Switch the company the current user is working on; NULL clears the choice
+CREATE OR REPLACE FUNCTION set_active_company_profile(p_company_profile_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF p_company_profile_id IS NOT NULL AND NOT can_access_company_profile(p_company_profile_id) THEN
+    RAISE EXCEPTION 'Company profile not found';
+  END IF;
+
+  UPDATE users SET active_company_profile_id = p_company_profile_id WHERE id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- New uploads land in the active company, falling back to the most recent profile the user created
+CREATE OR REPLACE FUNCTION default_company_profile_for_user(p_user_id UUID)
+RETURNS UUID AS $$
+  SELECT COALESCE(
+    (SELECT active_company_profile_id FROM users WHERE id = p_user_id),
+    (
+      SELECT id FROM company_profiles
+      WHERE user_id = p_user_id
+      ORDER BY created_at DESC
+      LIMIT 1
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- VAT DEADLINES
+-- ============================================================================
+
+ALTER TABLE company_profiles
+  ADD COLUMN IF NOT EXISTS vat_quarter_end_month SMALLINT
+    CHECK (vat_quarter_end_month BETWEEN 1 AND 12);
+
+-- ============================================================================
+-- ACCEPT A CLIENT INVITATION
+-- ============================================================================
+
+-- Called by the client: links the client's tenant to the inviting practice
+CREATE OR REPLACE FUNCTION accept_practice_client_invitation(p_token TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_invitation team_invitations%ROWTYPE;
+  v_user users%ROWTYPE;
+  v_link_id UUID;
+BEGIN
+  SELECT * INTO v_invitation FROM team_invitations
+  WHERE invite_token = p_token AND invitation_type = 'practice_client'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  IF v_invitation.status <> 'pending' OR v_invitation.expires_at < NOW() THEN
+    RAISE EXCEPTION 'Invitation is no longer valid';
+  END IF;
+
+  SELECT * INTO v_user FROM users WHERE id = auth.uid();
+
+  IF v_user.id IS NULL OR lower(v_user.email) <> lower(v_invitation.email) THEN
+    RAISE EXCEPTION 'Invitation was sent to a different email address';
+  END IF;
+
+  IF v_user.tenant_id IS NULL THEN
+    RAISE EXCEPTION 'Set up your company before accepting the invitation';
+  END IF;
+
+  INSERT INTO practice_clients (practice_tenant_id, client_tenant_id, invitation_id, status)
+  VALUES (v_invitation.tenant_id, v_user.tenant_id, v_invitation.id, 'active')
+  ON CONFLICT (practice_tenant_id, client_tenant_id)
+  DO UPDATE SET status = 'active', invitation_id = EXCLUDED.invitation_id
+  RETURNING id INTO v_link_id;
+
+  UPDATE team_invitations
+  SET status = 'accepted', accepted_at = NOW(), accepted_by = auth.uid()
+  WHERE id = v_invitation.id;
+
+  RETURN v_link_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE practice_clients ENABLE ROW LEVEL SECURITY;
+
+-- Both sides of the link see it; only direct tenant membership counts here
+DROP POLICY IF EXISTS "Practice and client tenants can view their links" ON practice_clients;
+CREATE POLICY "Practice and client tenants can view their links"
+  ON practice_clients FOR SELECT
+  USING (
+    practice_tenant_id IN (SELECT current_user_tenant_ids())
+    OR client_tenant_id IN (SELECT current_user_tenant_ids())
+  );
+
+-- Either side can end the engagement
+DROP POLICY IF EXISTS "Practice and client tenants can revoke links" ON practice_clients;
+CREATE POLICY "Practice and client tenants can revoke links"
+  ON practice_clients FOR UPDATE
+  USING (
+    practice_tenant_id IN (SELECT current_user_tenant_ids())
+    OR client_tenant_id IN (SELECT current_user_tenant_ids())
+  );
+
+DROP POLICY IF EXISTS "Platform admins can manage all practice clients" ON practice_clients;
+CREATE POLICY "Platform admins can manage all practice clients"
+  ON practice_clients FOR ALL
+  USING (is_platform_admin())
+  WITH CHECK (is_platform_admin());
+
+GRANT EXECUTE ON FUNCTION current_user_client_tenant_ids() TO authenticated;
+GRANT EXECUTE ON FUNCTION set_active_company_profile(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION accept_practice_client_invitation(TEXT) TO authenticated;
+
+COMMENT ON TABLE practice_clients IS 'Client tenants an accounting practice tenant manages; practice staff get access to the client''s books';
+COMMENT ON COLUMN team_invitations.invitation_type IS 'team invites a colleague into the tenant; practice_client invites a client business to link its tenant to the practice';
+COMMENT ON COLUMN users.active_company_profile_id IS 'Company the user is currently working on; scopes routes and new uploads';
+COMMENT ON COLUMN company_profiles.vat_quarter_end_month IS 'Any month a VAT quarter ends in (the stagger); NULL means calendar quarters';
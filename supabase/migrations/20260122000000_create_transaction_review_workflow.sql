@@ -0,0 +1,331 @@
+-- Migration: Transaction Review Workflow
+-- Description: Review states for categorized transactions (draft -> categorized -> reviewed ->
+--              approved -> locked) with role-based permissions and a maker/checker rule: the
+--              approver must be someone other than the last editor and the reviewer.
+-- Created: 2026-01-22
+
+-- ============================================================================
+-- REVIEW STATE
+-- ============================================================================
+
+ALTER TABLE categorized_transactions
+  ADD COLUMN IF NOT EXISTS review_status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (review_status IN ('draft', 'categorized', 'reviewed', 'approved', 'locked')),
+  ADD COLUMN IF NOT EXISTS last_edited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS last_edited_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS approved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS approved_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS locked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS locked_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS review_note TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_categorized_transactions_company_review_status
+  ON categorized_transactions(company_profile_id, review_status);
+
+-- Existing confirmations count as reviewed; anything with a category has been categorized
+UPDATE categorized_transactions
+SET review_status = CASE
+  WHEN user_confirmed THEN 'reviewed'
+  WHEN category IS NOT NULL THEN 'categorized'
+  ELSE 'draft'
+END
+WHERE review_status = 'draft';
+
+-- ============================================================================
+-- PERMISSIONS
+-- ============================================================================
+
+-- Bookkeeping permissions the current user holds on a company's books. Mirrors the
+-- transactions.* / periods.lock permissions in core/permissions:
+--   company creator, owner/admin members, Organization Admins -> everything
+--   members and other tenant roles                            -> read, write, review
+--   viewers (member or tenant role), Billing Owners           -> read
+-- Explicit permissions on the user's role are added on top.
+CREATE OR REPLACE FUNCTION books_permissions(p_company_profile_id UUID)
+RETURNS TEXT[] AS $$
+DECLARE
+  v_all CONSTANT TEXT[] := ARRAY[
+    'transactions.read', 'transactions.write', 'transactions.review', 'transactions.approve', 'periods.lock'
+  ];
+  v_editor CONSTANT TEXT[] := ARRAY['transactions.read', 'transactions.write', 'transactions.review'];
+  v_company company_profiles%ROWTYPE;
+  v_member_role TEXT;
+  v_role_name TEXT;
+  v_role_permissions TEXT[];
+  v_permissions TEXT[];
+BEGIN
+  IF is_platform_admin() THEN
+    RETURN v_all;
+  END IF;
+
+  IF NOT can_access_company_profile(p_company_profile_id) THEN
+    RETURN ARRAY[]::TEXT[];
+  END IF;
+
+  SELECT * INTO v_company FROM company_profiles WHERE id = p_company_profile_id;
+
+  IF v_company.user_id = auth.uid() THEN
+    RETURN v_all;
+  END IF;
+
+  SELECT role INTO v_member_role FROM company_profile_members
+  WHERE company_profile_id = p_company_profile_id AND user_id = auth.uid();
+
+  IF v_member_role IN ('owner', 'admin') THEN
+    RETURN v_all;
+  END IF;
+
+  -- Role in the company's tenant, else the user's own role (practice staff)
+  SELECT r.name, r.permissions INTO v_role_name, v_role_permissions
+  FROM user_tenant_roles utr
+  JOIN roles r ON r.id = utr.role_id
+  WHERE utr.user_id = auth.uid() AND utr.tenant_id = v_company.tenant_id
+  LIMIT 1;
+
+  IF v_role_name IS NULL THEN
+    SELECT r.name, r.permissions INTO v_role_name, v_role_permissions
+    FROM users u
+    JOIN roles r ON r.id = u.role_id
+    WHERE u.id = auth.uid();
+  END IF;
+
+  v_permissions := CASE
+    WHEN v_member_role = 'viewer' THEN ARRAY['transactions.read']
+    WHEN v_member_role = 'member' THEN v_editor
+    WHEN v_role_name = 'Organization Admin' THEN v_all
+    WHEN v_role_name IN ('Viewer', 'Billing Owner') THEN ARRAY['transactions.read']
+    ELSE v_editor
+  END;
+
+  RETURN ARRAY(
+    SELECT DISTINCT p FROM unnest(v_permissions || COALESCE(v_role_permissions, ARRAY[]::TEXT[])) AS p
+    WHERE p = ANY(v_all)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION has_books_permission(p_company_profile_id UUID, p_permission TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT p_permission = ANY(books_permissions(p_company_profile_id));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- TRACK EDITS AND GUARD STATUS CHANGES
+-- ============================================================================
+
+-- Editing a transaction's bookkeeping fields records the editor and sends reviewed or
+-- approved work back to categorized. Locked transactions cannot be edited. Status can only
+-- move forward through transition_transaction_review(), except that legacy
+-- user_confirmed = true still marks a transaction reviewed.
+-- The editor is the signed-in user. Service-role writers have no auth.uid(), so they name
+-- the acting user in last_edited_by alongside the edit; without that the edit would keep the
+-- previous editor and its author could approve it.
+CREATE OR REPLACE FUNCTION track_transaction_review()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_in_transition BOOLEAN := current_setting('app.review_transition', true) = 'on';
+  v_edited BOOLEAN;
+BEGIN
+  v_edited := NEW.category IS DISTINCT FROM OLD.category
+    OR NEW.subcategory IS DISTINCT FROM OLD.subcategory
+    OR NEW.amount IS DISTINCT FROM OLD.amount
+    OR NEW.date IS DISTINCT FROM OLD.date
+    OR NEW.is_debit IS DISTINCT FROM OLD.is_debit
+    OR NEW.vat_code IS DISTINCT FROM OLD.vat_code
+    OR NEW.vat_amount IS DISTINCT FROM OLD.vat_amount
+    OR NEW.bank_account_id IS DISTINCT FROM OLD.bank_account_id;
+
+  IF v_in_transition THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.review_status = 'locked' AND (v_edited OR NEW.review_status <> 'locked') THEN
+    RAISE EXCEPTION 'Transaction % is locked', OLD.id;
+  END IF;
+
+  IF NEW.review_status IS DISTINCT FROM OLD.review_status
+    AND NEW.review_status IN ('reviewed', 'approved', 'locked')
+  THEN
+    RAISE EXCEPTION 'Review status changes must go through the review workflow';
+  END IF;
+
+  IF v_edited THEN
+    NEW.last_edited_by := COALESCE(auth.uid(), NEW.last_edited_by, OLD.last_edited_by);
+    NEW.last_edited_at := NOW();
+
+    IF OLD.review_status IN ('reviewed', 'approved') THEN
+      NEW.review_status := 'categorized';
+      NEW.reviewed_by := NULL;
+      NEW.reviewed_at := NULL;
+      NEW.approved_by := NULL;
+      NEW.approved_at := NULL;
+      NEW.user_confirmed := FALSE;
+    END IF;
+  ELSE
+    NEW.last_edited_by := OLD.last_edited_by;
+  END IF;
+
+  IF NEW.review_status = 'draft' AND NEW.category IS NOT NULL THEN
+    NEW.review_status := 'categorized';
+  END IF;
+
+  -- Legacy confirmation path (confirm buttons, sheet sync)
+  IF NEW.user_confirmed AND NOT COALESCE(OLD.user_confirmed, FALSE)
+    AND NEW.review_status IN ('draft', 'categorized')
+  THEN
+    IF auth.uid() IS NOT NULL
+      AND NOT has_books_permission(NEW.company_profile_id, 'transactions.review')
+    THEN
+      RAISE EXCEPTION 'You do not have permission to review transactions';
+    END IF;
+
+    NEW.review_status := 'reviewed';
+    NEW.reviewed_by := auth.uid();
+    NEW.reviewed_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_track_transaction_review ON categorized_transactions;
+CREATE TRIGGER trigger_track_transaction_review
+  BEFORE UPDATE ON categorized_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION track_transaction_review();
+
+-- New rows start categorized when they arrive with a category
+CREATE OR REPLACE FUNCTION init_transaction_review()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.review_status IS NULL OR NEW.review_status = 'draft' THEN
+    NEW.review_status := CASE WHEN NEW.category IS NOT NULL THEN 'categorized' ELSE 'draft' END;
+  END IF;
+
+  IF NEW.review_status NOT IN ('draft', 'categorized') THEN
+    RAISE EXCEPTION 'New transactions must start as draft or categorized';
+  END IF;
+
+  NEW.last_edited_by := COALESCE(NEW.last_edited_by, auth.uid());
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_init_transaction_review ON categorized_transactions;
+CREATE TRIGGER trigger_init_transaction_review
+  BEFORE INSERT ON categorized_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION init_transaction_review();
+
+-- ============================================================================
+-- TRANSITIONS
+-- ============================================================================
+
+-- Move transactions to a review state. Allowed moves:
+--   draft/categorized -> reviewed     (transactions.review)
+--   reviewed          -> approved     (transactions.approve; not by the last editor or reviewer)
+--   approved          -> locked       (periods.lock)
+--   reviewed/approved -> categorized  (transactions.approve; sends work back with a note)
+--   locked            -> approved     (periods.lock; unlock)
+-- Returns { updated, skipped: [{ id, reason }] }; transactions that cannot move are skipped.
+CREATE OR REPLACE FUNCTION transition_transaction_review(
+  p_transaction_ids UUID[],
+  p_status TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_tx RECORD;
+  v_required TEXT;
+  v_reason TEXT;
+  v_updated INTEGER := 0;
+  v_skipped JSONB := '[]'::JSONB;
+BEGIN
+  IF p_status NOT IN ('reviewed', 'approved', 'locked', 'categorized') THEN
+    RAISE EXCEPTION 'Invalid review status %', p_status;
+  END IF;
+
+  PERFORM set_config('app.review_transition', 'on', true);
+
+  FOR v_tx IN
+    SELECT id, company_profile_id, review_status, last_edited_by, reviewed_by
+    FROM categorized_transactions
+    WHERE id = ANY(p_transaction_ids)
+    FOR UPDATE
+  LOOP
+    v_reason := NULL;
+
+    v_required := CASE
+      WHEN p_status = 'reviewed' THEN 'transactions.review'
+      WHEN p_status = 'approved' AND v_tx.review_status = 'locked' THEN 'periods.lock'
+      WHEN p_status = 'approved' THEN 'transactions.approve'
+      WHEN p_status = 'locked' THEN 'periods.lock'
+      ELSE 'transactions.approve'
+    END;
+
+    IF NOT can_access_company_profile(v_tx.company_profile_id) THEN
+      v_reason := 'not_found';
+    ELSIF NOT has_books_permission(v_tx.company_profile_id, v_required) THEN
+      v_reason := 'permission_denied';
+    ELSIF NOT (
+      (p_status = 'reviewed' AND v_tx.review_status IN ('draft', 'categorized'))
+      OR (p_status = 'approved' AND v_tx.review_status IN ('reviewed', 'locked'))
+      OR (p_status = 'locked' AND v_tx.review_status = 'approved')
+      OR (p_status = 'categorized' AND v_tx.review_status IN ('reviewed', 'approved'))
+    ) THEN
+      v_reason := 'invalid_transition';
+    ELSIF p_status = 'approved' AND v_tx.review_status = 'reviewed'
+      AND auth.uid() IN (v_tx.last_edited_by, v_tx.reviewed_by)
+    THEN
+      v_reason := 'approver_is_editor';
+    END IF;
+
+    IF v_reason IS NOT NULL THEN
+      v_skipped := v_skipped || jsonb_build_object('id', v_tx.id, 'reason', v_reason);
+      CONTINUE;
+    END IF;
+
+    IF p_status = 'reviewed' THEN
+      UPDATE categorized_transactions
+      SET review_status = 'reviewed', reviewed_by = auth.uid(), reviewed_at = NOW(),
+          user_confirmed = TRUE, review_note = NULL
+      WHERE id = v_tx.id;
+    ELSIF p_status = 'approved' AND v_tx.review_status = 'locked' THEN
+      UPDATE categorized_transactions
+      SET review_status = 'approved', locked_by = NULL, locked_at = NULL
+      WHERE id = v_tx.id;
+    ELSIF p_status = 'approved' THEN
+      UPDATE categorized_transactions
+      SET review_status = 'approved', approved_by = auth.uid(), approved_at = NOW()
+      WHERE id = v_tx.id;
+    ELSIF p_status = 'locked' THEN
+      UPDATE categorized_transactions
+      SET review_status = 'locked', locked_by = auth.uid(), locked_at = NOW()
+      WHERE id = v_tx.id;
+    ELSE
+      UPDATE categorized_transactions
+      SET review_status = 'categorized', reviewed_by = NULL, reviewed_at = NULL,
+          approved_by = NULL, approved_at = NULL, user_confirmed = FALSE, review_note = p_note
+      WHERE id = v_tx.id;
+    END IF;
+
+    v_updated := v_updated + 1;
+  END LOOP;
+
+  PERFORM set_config('app.review_transition', 'off', true);
+
+  RETURN jsonb_build_object('updated', v_updated, 'skipped', v_skipped);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION books_permissions(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION has_books_permission(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION transition_transaction_review(UUID[], TEXT, TEXT) TO authenticated;
+
+COMMENT ON COLUMN categorized_transactions.review_status IS 'draft, categorized, reviewed, approved or locked; moved forward only by transition_transaction_review()';
+COMMENT ON COLUMN categorized_transactions.last_edited_by IS 'Last user to change the bookkeeping fields; cannot approve the transaction';
+COMMENT ON COLUMN categorized_transactions.review_note IS 'Why an approver sent the transaction back';
+COMMENT ON FUNCTION books_permissions(UUID) IS 'transactions.* and periods.lock permissions the current user holds on a company''s books';
+COMMENT ON FUNCTION transition_transaction_review(UUID[], TEXT, TEXT) IS 'Maker/checker review transitions; the approver must differ from the last editor and the reviewer';
@@ -0,0 +1,422 @@
+-- Migration: Period Close
+-- Description: Close a company's books up to a date. Transactions, documents and journal entries
+--              dated on or before the close date can no longer be added, edited or deleted;
+--              corrections go through adjustment journal entries that carry a reason.
+-- Created: 2026-01-23
+
+-- ============================================================================
+-- PERIOD CLOSES
+-- ============================================================================
+
+-- One row per close. Reopening keeps the row (with who and why) so the history survives;
+-- the books are closed through the latest close that has not been reopened.
+CREATE TABLE IF NOT EXISTS period_closes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_profile_id UUID NOT NULL REFERENCES company_profiles(id) ON DELETE CASCADE,
+  close_date DATE NOT NULL,
+  notes TEXT,
+  closed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  closed_at TIMESTAMPTZ DEFAULT NOW(),
+  reopened_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reopened_at TIMESTAMPTZ,
+  reopen_reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CHECK (reopened_at IS NULL OR reopen_reason IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_period_closes_company_close_date
+  ON period_closes(company_profile_id, close_date DESC)
+  WHERE reopened_at IS NULL;
+
+-- Adjustments posted into a closed period must say why
+ALTER TABLE journal_entries
+  ADD COLUMN IF NOT EXISTS adjustment_reason TEXT;
+
+-- ============================================================================
+-- HELPERS
+-- ============================================================================
+
+-- Last date of the company's closed books, or NULL when nothing is closed. Returns NULL once
+-- the company itself is gone so cascading deletes are not blocked.
+CREATE OR REPLACE FUNCTION books_closed_through(p_company_profile_id UUID)
+RETURNS DATE AS $$
+  SELECT MAX(pc.close_date)
+  FROM period_closes pc
+  JOIN company_profiles cp ON cp.id = pc.company_profile_id
+  WHERE pc.company_profile_id = p_company_profile_id
+    AND pc.reopened_at IS NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_period_closed(p_company_profile_id UUID, p_date DATE)
+RETURNS BOOLEAN AS $$
+  SELECT p_company_profile_id IS NOT NULL
+    AND p_date IS NOT NULL
+    AND p_date <= books_closed_through(p_company_profile_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Jobs with a transaction or document in a closed period; deleting or reprocessing them
+-- would rewrite closed books
+CREATE OR REPLACE FUNCTION jobs_in_closed_periods(p_job_ids UUID[])
+RETURNS TABLE (job_id UUID, closed_through DATE) AS $$
+  SELECT j.id, books_closed_through(j.company_profile_id)
+  FROM categorization_jobs j
+  WHERE j.id = ANY(p_job_ids)
+    AND (
+      EXISTS (
+        SELECT 1 FROM categorized_transactions ct
+        WHERE ct.job_id = j.id AND is_period_closed(ct.company_profile_id, ct.date)
+      )
+      OR EXISTS (
+        SELECT 1 FROM financial_documents fd
+        WHERE fd.job_id = j.id AND is_period_closed(fd.company_profile_id, fd.document_date)
+      )
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- ENFORCE CLOSED PERIODS
+-- ============================================================================
+
+-- Transactions: no inserts, deletes or bookkeeping edits on or before the close date, and no
+-- moving a transaction into a closed period. Notes, matching and review sign-off stay open.
+CREATE OR REPLACE FUNCTION prevent_closed_period_transaction_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.category IS NOT DISTINCT FROM OLD.category
+    AND NEW.subcategory IS NOT DISTINCT FROM OLD.subcategory
+    AND NEW.amount IS NOT DISTINCT FROM OLD.amount
+    AND NEW.date IS NOT DISTINCT FROM OLD.date
+    AND NEW.is_debit IS NOT DISTINCT FROM OLD.is_debit
+    AND NEW.vat_code IS NOT DISTINCT FROM OLD.vat_code
+    AND NEW.vat_amount IS NOT DISTINCT FROM OLD.vat_amount
+    AND NEW.bank_account_id IS NOT DISTINCT FROM OLD.bank_account_id
+    AND NEW.company_profile_id IS NOT DISTINCT FROM OLD.company_profile_id
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') AND is_period_closed(OLD.company_profile_id, OLD.date) THEN
+    RAISE EXCEPTION 'Period containing % is closed (books closed through %)',
+      OLD.date, books_closed_through(OLD.company_profile_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND is_period_closed(NEW.company_profile_id, NEW.date) THEN
+    RAISE EXCEPTION 'Period containing % is closed (books closed through %)',
+      NEW.date, books_closed_through(NEW.company_profile_id);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Runs after trigger_assign_books_company_profile (triggers fire in name order), so inserts
+-- already carry their company
+DROP TRIGGER IF EXISTS trigger_prevent_closed_period_changes ON categorized_transactions;
+CREATE TRIGGER trigger_prevent_closed_period_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON categorized_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_closed_period_transaction_changes();
+
+-- Documents: a document dated in a closed period keeps its date, amounts and tax, and cannot
+-- be deleted. New documents can still arrive (late receipts) and OCR can still date them;
+-- getting them into the closed books takes an adjustment entry.
+CREATE OR REPLACE FUNCTION prevent_closed_period_document_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.document_date IS NOT DISTINCT FROM OLD.document_date
+    AND NEW.total_amount IS NOT DISTINCT FROM OLD.total_amount
+    AND NEW.subtotal_amount IS NOT DISTINCT FROM OLD.subtotal_amount
+    AND NEW.tax_amount IS NOT DISTINCT FROM OLD.tax_amount
+    AND NEW.company_profile_id IS NOT DISTINCT FROM OLD.company_profile_id
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF is_period_closed(OLD.company_profile_id, OLD.document_date) THEN
+    RAISE EXCEPTION 'Period containing % is closed (books closed through %)',
+      OLD.document_date, books_closed_through(OLD.company_profile_id);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_prevent_closed_period_changes ON financial_documents;
+CREATE TRIGGER trigger_prevent_closed_period_changes
+  BEFORE UPDATE OR DELETE ON financial_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_closed_period_document_changes();
+
+-- Journal entries: posted entries in a closed period are final (no voiding, re-dating or
+-- deleting). New entries dated in a closed period must be adjustments with a reason, posted
+-- by someone who can approve transactions.
+CREATE OR REPLACE FUNCTION prevent_closed_period_journal_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.entry_date IS NOT DISTINCT FROM OLD.entry_date
+    AND NEW.status IS NOT DISTINCT FROM OLD.status
+    AND NEW.company_profile_id IS NOT DISTINCT FROM OLD.company_profile_id
+    AND NEW.source_type IS NOT DISTINCT FROM OLD.source_type
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') AND is_period_closed(OLD.company_profile_id, OLD.entry_date) THEN
+    RAISE EXCEPTION 'Period containing % is closed (books closed through %)',
+      OLD.entry_date, books_closed_through(OLD.company_profile_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND is_period_closed(NEW.company_profile_id, NEW.entry_date) THEN
+    IF NEW.source_type <> 'adjustment' THEN
+      RAISE EXCEPTION 'Period containing % is closed (books closed through %); post an adjustment entry instead',
+        NEW.entry_date, books_closed_through(NEW.company_profile_id);
+    END IF;
+
+    IF NULLIF(TRIM(NEW.adjustment_reason), '') IS NULL THEN
+      RAISE EXCEPTION 'Adjustments to a closed period require a reason';
+    END IF;
+
+    IF auth.uid() IS NOT NULL
+      AND NOT has_books_permission(NEW.company_profile_id, 'transactions.approve')
+    THEN
+      RAISE EXCEPTION 'You do not have permission to adjust a closed period';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_prevent_closed_period_changes ON journal_entries;
+CREATE TRIGGER trigger_prevent_closed_period_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON journal_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_closed_period_journal_changes();
+
+-- Lines of a closed entry are fixed; lines can only be added to adjustments
+CREATE OR REPLACE FUNCTION prevent_closed_period_journal_line_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_entry journal_entries%ROWTYPE;
+BEGIN
+  SELECT * INTO v_entry FROM journal_entries
+  WHERE id = COALESCE(NEW.journal_entry_id, OLD.journal_entry_id);
+
+  IF FOUND
+    AND is_period_closed(v_entry.company_profile_id, v_entry.entry_date)
+    AND NOT (TG_OP = 'INSERT' AND v_entry.source_type = 'adjustment')
+  THEN
+    RAISE EXCEPTION 'Period containing % is closed (books closed through %)',
+      v_entry.entry_date, books_closed_through(v_entry.company_profile_id);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_prevent_closed_period_changes ON journal_lines;
+CREATE TRIGGER trigger_prevent_closed_period_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON journal_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_closed_period_journal_line_changes();
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Close the books through p_close_date. Closing earlier than the current close date is
+-- pointless, so it is rejected; reopen first to move the date back.
+CREATE OR REPLACE FUNCTION close_books_period(
+  p_company_profile_id UUID,
+  p_close_date DATE,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_closed_through DATE;
+  v_close_id UUID;
+BEGIN
+  IF NOT has_books_permission(p_company_profile_id, 'periods.lock') THEN
+    RAISE EXCEPTION 'You do not have permission to close periods';
+  END IF;
+
+  v_closed_through := books_closed_through(p_company_profile_id);
+  IF v_closed_through IS NOT NULL AND p_close_date <= v_closed_through THEN
+    RAISE EXCEPTION 'Books are already closed through %', v_closed_through;
+  END IF;
+
+  INSERT INTO period_closes (company_profile_id, close_date, notes, closed_by)
+  VALUES (p_company_profile_id, p_close_date, p_notes, auth.uid())
+  RETURNING id INTO v_close_id;
+
+  RETURN v_close_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Reopen the most recent close. Earlier closes stay in force.
+CREATE OR REPLACE FUNCTION reopen_books_period(
+  p_company_profile_id UUID,
+  p_reason TEXT
+)
+RETURNS DATE AS $$
+DECLARE
+  v_close_id UUID;
+BEGIN
+  IF NOT has_books_permission(p_company_profile_id, 'periods.lock') THEN
+    RAISE EXCEPTION 'You do not have permission to reopen periods';
+  END IF;
+
+  IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to reopen a period';
+  END IF;
+
+  SELECT id INTO v_close_id FROM period_closes
+  WHERE company_profile_id = p_company_profile_id AND reopened_at IS NULL
+  ORDER BY close_date DESC
+  LIMIT 1;
+
+  IF v_close_id IS NULL THEN
+    RAISE EXCEPTION 'No closed period to reopen';
+  END IF;
+
+  UPDATE period_closes
+  SET reopened_at = NOW(), reopened_by = auth.uid(), reopen_reason = p_reason
+  WHERE id = v_close_id;
+
+  RETURN books_closed_through(p_company_profile_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- post_journal_entry gains p_adjustment_reason; the old signature is replaced rather than
+-- overloaded so named-argument calls stay unambiguous
+DROP FUNCTION IF EXISTS post_journal_entry(UUID, DATE, TEXT, TEXT, JSONB, UUID, UUID, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION post_journal_entry(
+  p_company_profile_id UUID,
+  p_entry_date DATE,
+  p_description TEXT,
+  p_source_type TEXT,
+  p_lines JSONB,
+  p_source_transaction_id UUID DEFAULT NULL,
+  p_source_document_id UUID DEFAULT NULL,
+  p_reference TEXT DEFAULT NULL,
+  p_posted_by UUID DEFAULT NULL,
+  p_adjustment_reason TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_entry_id UUID;
+  v_line JSONB;
+  v_line_number INTEGER := 0;
+BEGIN
+  IF p_source_transaction_id IS NOT NULL THEN
+    UPDATE journal_entries
+    SET status = 'void',
+        voided_at = NOW(),
+        voided_by = p_posted_by,
+        void_reason = 'Re-posted from source transaction'
+    WHERE source_transaction_id = p_source_transaction_id
+      AND status = 'posted';
+  END IF;
+
+  INSERT INTO journal_entries (
+    company_profile_id,
+    entry_date,
+    reference,
+    description,
+    source_type,
+    source_transaction_id,
+    source_document_id,
+    posted_by,
+    adjustment_reason
+  ) VALUES (
+    p_company_profile_id,
+    p_entry_date,
+    p_reference,
+    p_description,
+    p_source_type,
+    p_source_transaction_id,
+    p_source_document_id,
+    p_posted_by,
+    p_adjustment_reason
+  )
+  RETURNING id INTO v_entry_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    v_line_number := v_line_number + 1;
+    INSERT INTO journal_lines (
+      journal_entry_id,
+      account_id,
+      bank_account_id,
+      line_number,
+      debit,
+      credit,
+      description
+    ) VALUES (
+      v_entry_id,
+      (v_line->>'account_id')::UUID,
+      NULLIF(v_line->>'bank_account_id', '')::UUID,
+      v_line_number,
+      COALESCE((v_line->>'debit')::DECIMAL, 0),
+      COALESCE((v_line->>'credit')::DECIMAL, 0),
+      v_line->>'description'
+    );
+  END LOOP;
+
+  -- Fail fast instead of waiting for the deferred constraint at commit
+  SET CONSTRAINTS journal_lines_balanced IMMEDIATE;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE period_closes ENABLE ROW LEVEL SECURITY;
+
+-- Closing and reopening go through the functions above
+DROP POLICY IF EXISTS "Users can view period closes for accessible companies" ON period_closes;
+CREATE POLICY "Users can view period closes for accessible companies"
+  ON period_closes FOR SELECT
+  USING (can_access_company_profile(company_profile_id));
+
+DROP POLICY IF EXISTS "Platform admins can manage all period closes" ON period_closes;
+CREATE POLICY "Platform admins can manage all period closes"
+  ON period_closes FOR ALL
+  USING (is_platform_admin())
+  WITH CHECK (is_platform_admin());
+
+GRANT EXECUTE ON FUNCTION books_closed_through(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION is_period_closed(UUID, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION jobs_in_closed_periods(UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION close_books_period(UUID, DATE, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION reopen_books_period(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION post_journal_entry(UUID, DATE, TEXT, TEXT, JSONB, UUID, UUID, TEXT, UUID, TEXT) TO authenticated;
+
+COMMENT ON TABLE period_closes IS 'Close dates for a company''s books; reopened closes are kept for the audit history';
+COMMENT ON COLUMN journal_entries.adjustment_reason IS 'Why an adjustment was posted; required for entries dated in a closed period';
+COMMENT ON FUNCTION books_closed_through(UUID) IS 'Latest close date still in force for the company, or NULL';
+COMMENT ON FUNCTION jobs_in_closed_periods(UUID[]) IS 'Jobs with transactions or documents dated in a closed period';
+COMMENT ON FUNCTION post_journal_entry(UUID, DATE, TEXT, TEXT, JSONB, UUID, UUID, TEXT, UUID, TEXT) IS 'Atomically posts a balanced journal entry, voiding any previous entry for the same source transaction';
@@ -0,0 +1,296 @@
+-- Migration: Books Change Log
+-- Description: Append-only, field-level history of changes to transactions and documents
+--              (categories, amounts, VAT, notes, reconciliation matches): who, when, from where,
+--              and the old and new value of every field that changed.
+-- Created: 2026-01-24
+
+-- ============================================================================
+-- CHANGE LOG
+-- ============================================================================
+
+-- No foreign keys: entries outlive the records, users and companies they describe, and a
+-- cascading SET NULL would be an update to an immutable row.
+CREATE TABLE IF NOT EXISTS books_change_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_profile_id UUID,
+  table_name TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  operation TEXT NOT NULL CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE')),
+  -- { field: { "old": ..., "new": ... } } for each field that changed
+  changes JSONB NOT NULL DEFAULT '{}',
+  source TEXT NOT NULL CHECK (source IN ('ui', 'chat', 'sheets', 'rule', 'import', 'system')),
+  changed_by UUID,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_books_change_log_record
+  ON books_change_log(table_name, record_id, changed_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_books_change_log_company_changed_at
+  ON books_change_log(company_profile_id, changed_at DESC);
+
+-- Nothing may rewrite history, including the service role
+CREATE OR REPLACE FUNCTION prevent_books_change_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'books_change_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_prevent_books_change_log_changes ON books_change_log;
+CREATE TRIGGER trigger_prevent_books_change_log_changes
+  BEFORE UPDATE OR DELETE ON books_change_log
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_books_change_log_changes();
+
+DROP TRIGGER IF EXISTS trigger_prevent_books_change_log_truncate ON books_change_log;
+CREATE TRIGGER trigger_prevent_books_change_log_truncate
+  BEFORE TRUNCATE ON books_change_log
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION prevent_books_change_log_changes();
+
+-- ============================================================================
+-- CHANGE CONTEXT
+-- ============================================================================
+
+-- Writers say where a change came from by setting audit_source (and audit_actor when they
+-- write with the service role) alongside the change. The values are moved into
+-- transaction-local settings for the log trigger and never stored on the row. AFTER triggers
+-- run once the whole statement is done, so one statement carries one source.
+ALTER TABLE categorized_transactions
+  ADD COLUMN IF NOT EXISTS audit_source TEXT,
+  ADD COLUMN IF NOT EXISTS audit_actor UUID;
+
+ALTER TABLE financial_documents
+  ADD COLUMN IF NOT EXISTS audit_source TEXT,
+  ADD COLUMN IF NOT EXISTS audit_actor UUID;
+
+CREATE OR REPLACE FUNCTION capture_books_change_context()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM set_config('app.change_source', COALESCE(NEW.audit_source, ''), true);
+  PERFORM set_config('app.change_actor', COALESCE(NEW.audit_actor::TEXT, ''), true);
+  NEW.audit_source := NULL;
+  NEW.audit_actor := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The user behind the current write: the signed-in user, else the audit_actor a service-role
+-- writer passed along
+CREATE OR REPLACE FUNCTION current_change_actor()
+RETURNS UUID AS $$
+  SELECT COALESCE(auth.uid(), NULLIF(current_setting('app.change_actor', true), '')::UUID);
+$$ LANGUAGE sql STABLE;
+
+-- Service-role writers can now name the editor through audit_actor as well as last_edited_by.
+-- Otherwise unchanged from the review workflow.
+CREATE OR REPLACE FUNCTION track_transaction_review()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_in_transition BOOLEAN := current_setting('app.review_transition', true) = 'on';
+  v_edited BOOLEAN;
+BEGIN
+  v_edited := NEW.category IS DISTINCT FROM OLD.category
+    OR NEW.subcategory IS DISTINCT FROM OLD.subcategory
+    OR NEW.amount IS DISTINCT FROM OLD.amount
+    OR NEW.date IS DISTINCT FROM OLD.date
+    OR NEW.is_debit IS DISTINCT FROM OLD.is_debit
+    OR NEW.vat_code IS DISTINCT FROM OLD.vat_code
+    OR NEW.vat_amount IS DISTINCT FROM OLD.vat_amount
+    OR NEW.bank_account_id IS DISTINCT FROM OLD.bank_account_id;
+
+  IF v_in_transition THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.review_status = 'locked' AND (v_edited OR NEW.review_status <> 'locked') THEN
+    RAISE EXCEPTION 'Transaction % is locked', OLD.id;
+  END IF;
+
+  IF NEW.review_status IS DISTINCT FROM OLD.review_status
+    AND NEW.review_status IN ('reviewed', 'approved', 'locked')
+  THEN
+    RAISE EXCEPTION 'Review status changes must go through the review workflow';
+  END IF;
+
+  IF v_edited THEN
+    NEW.last_edited_by := COALESCE(current_change_actor(), NEW.last_edited_by, OLD.last_edited_by);
+    NEW.last_edited_at := NOW();
+
+    IF OLD.review_status IN ('reviewed', 'approved') THEN
+      NEW.review_status := 'categorized';
+      NEW.reviewed_by := NULL;
+      NEW.reviewed_at := NULL;
+      NEW.approved_by := NULL;
+      NEW.approved_at := NULL;
+      NEW.user_confirmed := FALSE;
+    END IF;
+  ELSE
+    NEW.last_edited_by := OLD.last_edited_by;
+  END IF;
+
+  IF NEW.review_status = 'draft' AND NEW.category IS NOT NULL THEN
+    NEW.review_status := 'categorized';
+  END IF;
+
+  -- Legacy confirmation path (confirm buttons, sheet sync)
+  IF NEW.user_confirmed AND NOT COALESCE(OLD.user_confirmed, FALSE)
+    AND NEW.review_status IN ('draft', 'categorized')
+  THEN
+    IF auth.uid() IS NOT NULL
+      AND NOT has_books_permission(NEW.company_profile_id, 'transactions.review')
+    THEN
+      RAISE EXCEPTION 'You do not have permission to review transactions';
+    END IF;
+
+    NEW.review_status := 'reviewed';
+    NEW.reviewed_by := current_change_actor();
+    NEW.reviewed_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- RECORD CHANGES
+-- ============================================================================
+
+-- Logs one entry per changed row. Updates record every field whose value changed, deletes
+-- record the values that were removed, inserts record only that the row was created (its
+-- starting values are the "old" side of its first update). Bookkeeping noise (timestamps,
+-- sync state) and any column names passed as trigger arguments are ignored.
+CREATE OR REPLACE FUNCTION record_books_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_ignored TEXT[];
+  v_old JSONB;
+  v_new JSONB;
+  v_row JSONB;
+  v_changes JSONB := '{}'::JSONB;
+  v_key TEXT;
+  v_source TEXT;
+  v_actor UUID;
+BEGIN
+  v_ignored := ARRAY[
+    'updated_at', 'created_at', 'audit_source', 'audit_actor',
+    'sync_status', 'sync_version', 'last_synced_at', 'last_modified_source', 'transaction_fingerprint'
+  ] || TG_ARGV;
+
+  IF TG_OP <> 'INSERT' THEN
+    v_old := to_jsonb(OLD);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    v_new := to_jsonb(NEW);
+  END IF;
+  v_row := COALESCE(v_new, v_old);
+
+  IF TG_OP = 'UPDATE' THEN
+    FOR v_key IN SELECT jsonb_object_keys(v_new)
+    LOOP
+      IF NOT (v_key = ANY(v_ignored)) AND (v_old->v_key) IS DISTINCT FROM (v_new->v_key) THEN
+        v_changes := v_changes || jsonb_build_object(
+          v_key, jsonb_build_object('old', v_old->v_key, 'new', v_new->v_key)
+        );
+      END IF;
+    END LOOP;
+
+    IF v_changes = '{}'::JSONB THEN
+      RETURN NULL;
+    END IF;
+  ELSIF TG_OP = 'DELETE' THEN
+    FOR v_key IN SELECT jsonb_object_keys(v_old)
+    LOOP
+      IF NOT (v_key = ANY(v_ignored)) AND jsonb_typeof(v_old->v_key) <> 'null' THEN
+        v_changes := v_changes || jsonb_build_object(
+          v_key, jsonb_build_object('old', v_old->v_key, 'new', NULL)
+        );
+      END IF;
+    END LOOP;
+  END IF;
+
+  -- Deletes carry no row values, so only the signed-in user can be attributed
+  IF TG_OP <> 'DELETE' THEN
+    v_source := NULLIF(current_setting('app.change_source', true), '');
+    v_actor := current_change_actor();
+  ELSE
+    v_actor := auth.uid();
+  END IF;
+
+  v_source := COALESCE(
+    v_source,
+    CASE
+      WHEN TG_OP = 'INSERT' THEN 'import'
+      WHEN auth.uid() IS NOT NULL THEN 'ui'
+      ELSE 'system'
+    END
+  );
+
+  INSERT INTO books_change_log (company_profile_id, table_name, record_id, operation, changes, source, changed_by)
+  VALUES (
+    (v_row->>'company_profile_id')::UUID,
+    TG_TABLE_NAME,
+    (v_row->>'id')::UUID,
+    TG_OP,
+    v_changes,
+    v_source,
+    v_actor
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_capture_books_change_context ON categorized_transactions;
+CREATE TRIGGER trigger_capture_books_change_context
+  BEFORE INSERT OR UPDATE ON categorized_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION capture_books_change_context();
+
+DROP TRIGGER IF EXISTS trigger_record_books_change ON categorized_transactions;
+CREATE TRIGGER trigger_record_books_change
+  AFTER INSERT OR UPDATE OR DELETE ON categorized_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION record_books_change('embedding', 'confidence_score');
+
+DROP TRIGGER IF EXISTS trigger_capture_books_change_context ON financial_documents;
+CREATE TRIGGER trigger_capture_books_change_context
+  BEFORE INSERT OR UPDATE ON financial_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION capture_books_change_context();
+
+-- OCR output and storage bookkeeping change often and are not accounting data
+DROP TRIGGER IF EXISTS trigger_record_books_change ON financial_documents;
+CREATE TRIGGER trigger_record_books_change
+  AFTER INSERT OR UPDATE OR DELETE ON financial_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION record_books_change(
+    'extracted_data', 'extracted_text', 'ocr_status', 'ocr_confidence', 'ocr_error',
+    'storage_tier', 'supabase_path', 'gcs_archive_path', 'archived_at', 'last_accessed_at'
+  );
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE books_change_log ENABLE ROW LEVEL SECURITY;
+
+-- Entries are written by record_books_change(); there are no insert, update or delete policies
+DROP POLICY IF EXISTS "Users can view the change log of accessible companies" ON books_change_log;
+CREATE POLICY "Users can view the change log of accessible companies"
+  ON books_change_log FOR SELECT
+  USING (can_access_company_profile(company_profile_id));
+
+DROP POLICY IF EXISTS "Platform admins can view all change log entries" ON books_change_log;
+CREATE POLICY "Platform admins can view all change log entries"
+  ON books_change_log FOR SELECT
+  USING (is_platform_admin());
+
+GRANT EXECUTE ON FUNCTION current_change_actor() TO authenticated;
+
+COMMENT ON TABLE books_change_log IS 'Append-only field-level history of transaction and document changes';
+COMMENT ON COLUMN books_change_log.changes IS 'Changed fields as { field: { old, new } }; empty for inserts';
+COMMENT ON COLUMN books_change_log.source IS 'Where the change came from: ui, chat, sheets, rule, import or system';
+COMMENT ON COLUMN categorized_transactions.audit_source IS 'Write-only change source for the change log; always NULL when read';
+COMMENT ON COLUMN financial_documents.audit_source IS 'Write-only change source for the change log; always NULL when read';
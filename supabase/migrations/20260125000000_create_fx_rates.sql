@@ -0,0 +1,279 @@
+-- Migration: Multi-currency books
+-- Description: Local FX rate table (imported from ECB/HMRC rate files, so conversion works
+--              offline), original currency plus base-currency amounts on transactions and
+--              documents, and revaluation entries for foreign bank accounts.
+-- Created: 2026-01-25
+
+-- ============================================================================
+-- FX_RATES TABLE
+-- ============================================================================
+
+-- One row per company, currency and date. A rate applies from its date until the next one,
+-- so monthly HMRC rates and daily ECB rates look up the same way.
+CREATE TABLE IF NOT EXISTS fx_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_profile_id UUID NOT NULL REFERENCES company_profiles(id) ON DELETE CASCADE,
+  base_currency TEXT NOT NULL CHECK (base_currency ~ '^[A-Z]{3}$'),
+  currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  rate_date DATE NOT NULL,
+  -- Base currency units for one unit of currency
+  rate NUMERIC(20,10) NOT NULL CHECK (rate > 0),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('ecb', 'hmrc', 'manual')),
+  imported_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT fx_rates_unique_rate UNIQUE (company_profile_id, base_currency, currency, rate_date),
+  CONSTRAINT fx_rates_not_base CHECK (currency <> base_currency)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fx_rates_lookup
+  ON fx_rates(company_profile_id, base_currency, currency, rate_date DESC);
+
+DROP TRIGGER IF EXISTS update_fx_rates_updated_at ON fx_rates;
+CREATE TRIGGER update_fx_rates_updated_at
+  BEFORE UPDATE ON fx_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- CURRENCY COLUMNS
+-- ============================================================================
+
+-- currency is the statement currency (defaults to the bank account's); base_amount is the
+-- unsigned amount in the company's base currency, NULL until a rate is available
+ALTER TABLE categorized_transactions
+  ADD COLUMN IF NOT EXISTS currency TEXT,
+  ADD COLUMN IF NOT EXISTS fx_rate NUMERIC(20,10),
+  ADD COLUMN IF NOT EXISTS base_amount DECIMAL(14,2);
+
+ALTER TABLE financial_documents
+  ADD COLUMN IF NOT EXISTS fx_rate NUMERIC(20,10),
+  ADD COLUMN IF NOT EXISTS base_total_amount DECIMAL(14,2);
+
+CREATE INDEX IF NOT EXISTS idx_categorized_transactions_missing_base_amount
+  ON categorized_transactions(company_profile_id)
+  WHERE base_amount IS NULL;
+
+-- ============================================================================
+-- RATE LOOKUP
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION company_base_currency(p_company_profile_id UUID)
+RETURNS TEXT AS $$
+  SELECT UPPER(COALESCE(
+    (SELECT default_currency FROM company_profiles WHERE id = p_company_profile_id),
+    'GBP'
+  ));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Rate in force on a date: 1 for the base currency, else the latest rate on or before the date,
+-- else NULL
+CREATE OR REPLACE FUNCTION fx_rate_on(p_company_profile_id UUID, p_currency TEXT, p_date DATE)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_base TEXT := company_base_currency(p_company_profile_id);
+BEGIN
+  IF p_currency IS NULL OR UPPER(p_currency) = v_base THEN
+    RETURN 1;
+  END IF;
+
+  RETURN (
+    SELECT rate
+    FROM fx_rates
+    WHERE company_profile_id = p_company_profile_id
+      AND base_currency = v_base
+      AND currency = UPPER(p_currency)
+      AND rate_date <= p_date
+    ORDER BY rate_date DESC
+    LIMIT 1
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- CONVERSION
+-- ============================================================================
+
+-- Recomputes the base amount whenever the amount, date or currency changes, and fills in
+-- rows that were still waiting for a rate. Runs after trigger_assign_books_company_profile
+-- (triggers fire in name order), so inserts already carry their company.
+CREATE OR REPLACE FUNCTION convert_transaction_currency()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.currency IS NULL THEN
+    SELECT currency INTO NEW.currency FROM bank_accounts WHERE id = NEW.bank_account_id;
+  END IF;
+  NEW.currency := UPPER(COALESCE(NEW.currency, company_base_currency(NEW.company_profile_id)));
+
+  IF TG_OP = 'UPDATE'
+    AND OLD.currency IS NOT NULL
+    AND NEW.currency IS DISTINCT FROM UPPER(OLD.currency)
+    AND is_period_closed(OLD.company_profile_id, OLD.date)
+  THEN
+    RAISE EXCEPTION 'Period containing % is closed (books closed through %)',
+      OLD.date, books_closed_through(OLD.company_profile_id);
+  END IF;
+
+  IF TG_OP = 'INSERT'
+    OR NEW.base_amount IS NULL
+    OR NEW.amount IS DISTINCT FROM OLD.amount
+    OR NEW.date IS DISTINCT FROM OLD.date
+    OR NEW.currency IS DISTINCT FROM OLD.currency
+    OR NEW.company_profile_id IS DISTINCT FROM OLD.company_profile_id
+  THEN
+    NEW.fx_rate := fx_rate_on(NEW.company_profile_id, NEW.currency, NEW.date);
+    NEW.base_amount := ROUND(ABS(NEW.amount) * NEW.fx_rate, 2);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_convert_books_currency ON categorized_transactions;
+CREATE TRIGGER trigger_convert_books_currency
+  BEFORE INSERT OR UPDATE ON categorized_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION convert_transaction_currency();
+
+CREATE OR REPLACE FUNCTION convert_document_currency()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.currency := UPPER(COALESCE(NEW.currency, company_base_currency(NEW.company_profile_id)));
+
+  IF TG_OP = 'UPDATE'
+    AND OLD.currency IS NOT NULL
+    AND NEW.currency IS DISTINCT FROM UPPER(OLD.currency)
+    AND is_period_closed(OLD.company_profile_id, OLD.document_date)
+  THEN
+    RAISE EXCEPTION 'Period containing % is closed (books closed through %)',
+      OLD.document_date, books_closed_through(OLD.company_profile_id);
+  END IF;
+
+  IF NEW.total_amount IS NULL OR NEW.document_date IS NULL THEN
+    NEW.fx_rate := NULL;
+    NEW.base_total_amount := NULL;
+  ELSIF TG_OP = 'INSERT'
+    OR NEW.base_total_amount IS NULL
+    OR NEW.total_amount IS DISTINCT FROM OLD.total_amount
+    OR NEW.document_date IS DISTINCT FROM OLD.document_date
+    OR NEW.currency IS DISTINCT FROM OLD.currency
+    OR NEW.company_profile_id IS DISTINCT FROM OLD.company_profile_id
+  THEN
+    NEW.fx_rate := fx_rate_on(NEW.company_profile_id, NEW.currency, NEW.document_date);
+    NEW.base_total_amount := ROUND(NEW.total_amount * NEW.fx_rate, 2);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_convert_books_currency ON financial_documents;
+CREATE TRIGGER trigger_convert_books_currency
+  BEFORE INSERT OR UPDATE ON financial_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION convert_document_currency();
+
+-- Convert rows that were waiting for a rate, e.g. after a rate import. Closed periods are left
+-- alone. Returns the transactions that now have a base amount, for posting to the ledger.
+CREATE OR REPLACE FUNCTION apply_fx_rates(p_company_profile_id UUID)
+RETURNS UUID[] AS $$
+DECLARE
+  v_transaction_ids UUID[];
+BEGIN
+  IF NOT can_edit_company_profile(p_company_profile_id) THEN
+    RAISE EXCEPTION 'You do not have permission to update this company''s books';
+  END IF;
+
+  WITH updated AS (
+    UPDATE categorized_transactions
+    SET audit_source = 'system'
+    WHERE company_profile_id = p_company_profile_id
+      AND base_amount IS NULL
+      AND NOT is_period_closed(company_profile_id, date)
+    RETURNING id, base_amount
+  )
+  SELECT COALESCE(array_agg(id), '{}') INTO v_transaction_ids
+  FROM updated
+  WHERE base_amount IS NOT NULL;
+
+  UPDATE financial_documents
+  SET audit_source = 'system'
+  WHERE company_profile_id = p_company_profile_id
+    AND base_total_amount IS NULL
+    AND total_amount IS NOT NULL
+    AND document_date IS NOT NULL
+    AND NOT is_period_closed(company_profile_id, document_date);
+
+  RETURN v_transaction_ids;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Existing rows: currency from the bank account (or the company), base amount at the current
+-- rates. Filling in new columns is not a change to the books, so it stays out of the change log.
+ALTER TABLE categorized_transactions DISABLE TRIGGER trigger_record_books_change;
+UPDATE categorized_transactions SET base_amount = NULL WHERE base_amount IS NULL;
+ALTER TABLE categorized_transactions ENABLE TRIGGER trigger_record_books_change;
+
+ALTER TABLE financial_documents DISABLE TRIGGER trigger_record_books_change;
+UPDATE financial_documents SET base_total_amount = NULL WHERE base_total_amount IS NULL;
+ALTER TABLE financial_documents ENABLE TRIGGER trigger_record_books_change;
+
+-- ============================================================================
+-- REVALUATION ENTRIES
+-- ============================================================================
+
+ALTER TABLE journal_entries DROP CONSTRAINT IF EXISTS journal_entries_source_type_check;
+ALTER TABLE journal_entries ADD CONSTRAINT journal_entries_source_type_check
+  CHECK (source_type IN ('bank_transaction', 'document', 'manual', 'adjustment', 'opening_balance', 'fx_revaluation'));
+
+-- Posted base-currency value of a bank account's ledger lines up to a date
+CREATE OR REPLACE FUNCTION bank_account_ledger_value(p_bank_account_id UUID, p_as_of DATE)
+RETURNS DECIMAL AS $$
+  SELECT COALESCE(SUM(jl.debit - jl.credit), 0)
+  FROM journal_lines jl
+  JOIN journal_entries je ON je.id = jl.journal_entry_id
+  JOIN bank_accounts ba ON ba.id = jl.bank_account_id
+  WHERE jl.bank_account_id = p_bank_account_id
+    AND je.status = 'posted'
+    AND je.entry_date <= p_as_of
+    AND can_access_company_profile(ba.company_profile_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE fx_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view FX rates of accessible companies" ON fx_rates;
+CREATE POLICY "Users can view FX rates of accessible companies"
+  ON fx_rates FOR SELECT
+  USING (can_access_company_profile(company_profile_id));
+
+DROP POLICY IF EXISTS "Editors can manage FX rates" ON fx_rates;
+CREATE POLICY "Editors can manage FX rates"
+  ON fx_rates FOR ALL
+  USING (can_edit_company_profile(company_profile_id))
+  WITH CHECK (can_edit_company_profile(company_profile_id));
+
+DROP POLICY IF EXISTS "Platform admins can manage all FX rates" ON fx_rates;
+CREATE POLICY "Platform admins can manage all FX rates"
+  ON fx_rates FOR ALL
+  USING (is_platform_admin())
+  WITH CHECK (is_platform_admin());
+
+GRANT EXECUTE ON FUNCTION company_base_currency(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION fx_rate_on(UUID, TEXT, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION apply_fx_rates(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION bank_account_ledger_value(UUID, DATE) TO authenticated;
+
+COMMENT ON TABLE fx_rates IS 'Exchange rates per company, imported from ECB/HMRC rate files or entered manually';
+COMMENT ON COLUMN fx_rates.rate IS 'Base currency units for one unit of currency, in force from rate_date';
+COMMENT ON COLUMN categorized_transactions.currency IS 'Original currency of the transaction (the bank account currency unless set)';
+COMMENT ON COLUMN categorized_transactions.fx_rate IS 'Rate used to convert to the company base currency; NULL when no rate was available';
+COMMENT ON COLUMN categorized_transactions.base_amount IS 'Unsigned amount in the company base currency; posted to the ledger';
+COMMENT ON COLUMN financial_documents.base_total_amount IS 'Total amount in the company base currency';
+COMMENT ON FUNCTION fx_rate_on IS 'Rate in force for a currency on a date: 1 for the base currency, NULL when no rate is known';
+COMMENT ON FUNCTION apply_fx_rates IS 'Converts transactions and documents still waiting for a rate; returns the converted transaction IDs';
+COMMENT ON FUNCTION bank_account_ledger_value IS 'Base-currency ledger value of a bank account as of a date';
@@ -0,0 +1,298 @@
+-- Migration: Accrual postings
+-- Description: Invoices post to accounts receivable or payable on their document date and bank
+--              payments matched to them clear the control account. Payments against documents
+--              are dated so the P&L can be reported on a cash or accrual basis, and aged
+--              receivables/payables can be worked out as of any date.
+-- Created: 2026-01-26
+
+-- ============================================================================
+-- DOCUMENT COLUMNS
+-- ============================================================================
+
+-- bill: a supplier invoice (accounts payable). sales_invoice: issued to a customer (accounts receivable).
+ALTER TABLE financial_documents
+  ADD COLUMN IF NOT EXISTS document_kind TEXT NOT NULL DEFAULT 'bill'
+    CHECK (document_kind IN ('bill', 'sales_invoice')),
+  ADD COLUMN IF NOT EXISTS due_date DATE;
+
+-- Invoices already reconciled to money coming in were issued by the company
+UPDATE financial_documents fd
+SET document_kind = 'sales_invoice'
+FROM categorized_transactions ct
+WHERE ct.id = fd.matched_transaction_id
+  AND fd.file_type = 'invoice'
+  AND fd.document_kind = 'bill'
+  AND COALESCE(ct.is_debit, ct.amount < 0) = FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_financial_documents_open_invoices
+  ON financial_documents(company_profile_id, document_kind, document_date)
+  WHERE file_type = 'invoice' AND is_deleted = FALSE;
+
+-- One posted entry per document (bank entries that clear it carry the transaction instead)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_journal_entries_posted_source_document
+  ON journal_entries(source_document_id)
+  WHERE status = 'posted' AND source_document_id IS NOT NULL AND source_transaction_id IS NULL;
+
+-- ============================================================================
+-- POSTING
+-- ============================================================================
+
+-- Re-posting a document now voids its previous entry, as re-posting a transaction does
+CREATE OR REPLACE FUNCTION post_journal_entry(
+  p_company_profile_id UUID,
+  p_entry_date DATE,
+  p_description TEXT,
+  p_source_type TEXT,
+  p_lines JSONB,
+  p_source_transaction_id UUID DEFAULT NULL,
+  p_source_document_id UUID DEFAULT NULL,
+  p_reference TEXT DEFAULT NULL,
+  p_posted_by UUID DEFAULT NULL,
+  p_adjustment_reason TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_entry_id UUID;
+  v_line JSONB;
+  v_line_number INTEGER := 0;
+BEGIN
+  IF p_source_transaction_id IS NOT NULL THEN
+    UPDATE journal_entries
+    SET status = 'void',
+        voided_at = NOW(),
+        voided_by = p_posted_by,
+        void_reason = 'Re-posted from source transaction'
+    WHERE source_transaction_id = p_source_transaction_id
+      AND status = 'posted';
+  ELSIF p_source_document_id IS NOT NULL THEN
+    UPDATE journal_entries
+    SET status = 'void',
+        voided_at = NOW(),
+        voided_by = p_posted_by,
+        void_reason = 'Re-posted from source document'
+    WHERE source_document_id = p_source_document_id
+      AND source_transaction_id IS NULL
+      AND status = 'posted';
+  END IF;
+
+  INSERT INTO journal_entries (
+    company_profile_id,
+    entry_date,
+    reference,
+    description,
+    source_type,
+    source_transaction_id,
+    source_document_id,
+    posted_by,
+    adjustment_reason
+  ) VALUES (
+    p_company_profile_id,
+    p_entry_date,
+    p_reference,
+    p_description,
+    p_source_type,
+    p_source_transaction_id,
+    p_source_document_id,
+    p_posted_by,
+    p_adjustment_reason
+  )
+  RETURNING id INTO v_entry_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    v_line_number := v_line_number + 1;
+    INSERT INTO journal_lines (
+      journal_entry_id,
+      account_id,
+      bank_account_id,
+      line_number,
+      debit,
+      credit,
+      description
+    ) VALUES (
+      v_entry_id,
+      (v_line->>'account_id')::UUID,
+      NULLIF(v_line->>'bank_account_id', '')::UUID,
+      v_line_number,
+      COALESCE((v_line->>'debit')::DECIMAL, 0),
+      COALESCE((v_line->>'credit')::DECIMAL, 0),
+      v_line->>'description'
+    );
+  END LOOP;
+
+  -- Fail fast instead of waiting for the deferred constraint at commit
+  SET CONSTRAINTS journal_lines_balanced IMMEDIATE;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- ============================================================================
+-- DOCUMENT PAYMENTS
+-- ============================================================================
+
+-- Payments against a company's documents. A match group pays on the date of its latest
+-- transaction; a one-to-one match made before match groups pays the whole document.
+CREATE OR REPLACE FUNCTION document_payments(p_company_profile_id UUID)
+RETURNS TABLE (
+  document_id UUID,
+  paid_on DATE,
+  amount DECIMAL
+) AS $$
+  SELECT i.document_id, MAX(ct.date), i.amount
+  FROM financial_documents fd
+  JOIN reconciliation_match_group_items i ON i.document_id = fd.id
+  JOIN reconciliation_match_groups g ON g.id = i.group_id AND g.status = 'active'
+  JOIN reconciliation_match_group_items ti ON ti.group_id = g.id AND ti.transaction_id IS NOT NULL
+  JOIN categorized_transactions ct ON ct.id = ti.transaction_id
+  WHERE fd.company_profile_id = p_company_profile_id
+    AND can_access_company_profile(p_company_profile_id)
+  GROUP BY i.id, i.document_id, i.amount
+  UNION ALL
+  SELECT fd.id, ct.date, ABS(COALESCE(fd.total_amount, 0))
+  FROM financial_documents fd
+  JOIN categorized_transactions ct ON ct.id = fd.matched_transaction_id
+  WHERE fd.company_profile_id = p_company_profile_id
+    AND fd.amount_paid = 0
+    AND can_access_company_profile(p_company_profile_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Open invoices as of a date with what was still owed on it, for aged receivables and payables
+CREATE OR REPLACE FUNCTION get_open_invoices(
+  p_company_profile_id UUID,
+  p_document_kind TEXT,
+  p_as_of DATE
+)
+RETURNS TABLE (
+  document_id UUID,
+  vendor_name TEXT,
+  invoice_number TEXT,
+  document_date DATE,
+  due_date DATE,
+  currency TEXT,
+  total_amount DECIMAL,
+  paid_amount DECIMAL,
+  outstanding_amount DECIMAL,
+  base_outstanding_amount DECIMAL
+) AS $$
+  WITH paid AS (
+    SELECT dp.document_id, SUM(dp.amount) AS amount
+    FROM document_payments(p_company_profile_id) dp
+    WHERE dp.paid_on <= p_as_of
+    GROUP BY dp.document_id
+  )
+  SELECT
+    fd.id,
+    fd.vendor_name,
+    COALESCE(fd.invoice_number, fd.document_number),
+    fd.document_date,
+    fd.due_date,
+    fd.currency,
+    ABS(fd.total_amount),
+    LEAST(COALESCE(p.amount, 0), ABS(fd.total_amount)),
+    ABS(fd.total_amount) - LEAST(COALESCE(p.amount, 0), ABS(fd.total_amount)),
+    ROUND(
+      (ABS(fd.total_amount) - LEAST(COALESCE(p.amount, 0), ABS(fd.total_amount)))
+        * ABS(fd.base_total_amount) / ABS(fd.total_amount),
+      2
+    )
+  FROM financial_documents fd
+  LEFT JOIN paid p ON p.document_id = fd.id
+  WHERE fd.company_profile_id = p_company_profile_id
+    AND fd.file_type = 'invoice'
+    AND fd.is_deleted = FALSE
+    AND fd.document_kind = p_document_kind
+    AND fd.document_date <= p_as_of
+    AND COALESCE(fd.total_amount, 0) <> 0
+    AND COALESCE(p.amount, 0) < ABS(fd.total_amount)
+    AND can_access_company_profile(p_company_profile_id)
+  ORDER BY fd.document_date, fd.id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- BALANCES BY BASIS
+-- ============================================================================
+
+-- get_ledger_account_balances gains p_basis; the old signature is replaced rather than
+-- overloaded so named-argument calls stay unambiguous
+DROP FUNCTION IF EXISTS get_ledger_account_balances(UUID, DATE, DATE);
+
+-- Accrual basis sums every posted line. Cash basis leaves invoice entries out and counts the
+-- share of each invoice paid within the period instead, so income and expenses follow the
+-- money; only income and expense balances are meaningful on a cash basis.
+CREATE OR REPLACE FUNCTION get_ledger_account_balances(
+  p_company_profile_id UUID,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_basis TEXT DEFAULT 'accrual'
+)
+RETURNS TABLE (
+  account_id UUID,
+  account_code TEXT,
+  account_name TEXT,
+  account_type TEXT,
+  total_debit DECIMAL,
+  total_credit DECIMAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH paid_share AS (
+    SELECT
+      dp.document_id,
+      LEAST(SUM(dp.amount) / NULLIF(ABS(fd.total_amount), 0), 1) AS share
+    FROM document_payments(p_company_profile_id) dp
+    JOIN financial_documents fd ON fd.id = dp.document_id
+    WHERE p_basis = 'cash'
+      AND (p_start_date IS NULL OR dp.paid_on >= p_start_date)
+      AND dp.paid_on <= p_end_date
+    GROUP BY dp.document_id, fd.total_amount
+  ),
+  lines AS (
+    SELECT jl.account_id, jl.debit, jl.credit
+    FROM journal_lines jl
+    JOIN journal_entries je ON je.id = jl.journal_entry_id
+    WHERE je.company_profile_id = p_company_profile_id
+      AND je.status = 'posted'
+      AND (p_basis <> 'cash' OR je.source_type <> 'document')
+      AND (p_start_date IS NULL OR je.entry_date >= p_start_date)
+      AND je.entry_date <= p_end_date
+    UNION ALL
+    SELECT jl.account_id, ROUND(jl.debit * ps.share, 2), ROUND(jl.credit * ps.share, 2)
+    FROM journal_lines jl
+    JOIN journal_entries je ON je.id = jl.journal_entry_id
+    JOIN paid_share ps ON ps.document_id = je.source_document_id
+    WHERE je.company_profile_id = p_company_profile_id
+      AND je.status = 'posted'
+      AND je.source_type = 'document'
+  )
+  SELECT
+    coa.id,
+    coa.account_code,
+    coa.account_name,
+    coa.account_type,
+    COALESCE(SUM(l.debit), 0),
+    COALESCE(SUM(l.credit), 0)
+  FROM lines l
+  JOIN chart_of_accounts coa ON coa.id = l.account_id
+  GROUP BY coa.id, coa.account_code, coa.account_name, coa.account_type
+  ORDER BY coa.account_code;
+$$;
+
+GRANT EXECUTE ON FUNCTION document_payments(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_open_invoices(UUID, TEXT, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_ledger_account_balances(UUID, DATE, DATE, TEXT) TO authenticated;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN financial_documents.document_kind IS 'bill (accounts payable) or sales_invoice (accounts receivable)';
+COMMENT ON COLUMN financial_documents.due_date IS 'Payment due date; invoices without one are aged from their document date';
+COMMENT ON FUNCTION document_payments IS 'Dated payments against a company''s documents from match groups and one-to-one matches';
+COMMENT ON FUNCTION get_open_invoices IS 'Invoices of one kind with an outstanding amount as of a date';
+COMMENT ON FUNCTION get_ledger_account_balances IS 'Returns total posted debits and credits per account for a company, date range and cash or accrual basis';
@@ -0,0 +1,441 @@
+-- Migration: Sales invoicing
+-- Description: Outgoing invoices raised in the app, with gap-free sequential numbering per
+--              company profile and VAT-coded line items. Issuing an invoice writes it to
+--              financial_documents as a sales invoice, so it posts to receivables, ages and
+--              reconciles exactly like an uploaded one.
+-- Created: 2026-01-27
+
+-- ============================================================================
+-- SALES_INVOICE_SETTINGS TABLE
+-- ============================================================================
+
+-- One row per company; created with defaults the first time an invoice is issued
+CREATE TABLE IF NOT EXISTS sales_invoice_settings (
+  company_profile_id UUID PRIMARY KEY REFERENCES company_profiles(id) ON DELETE CASCADE,
+  number_prefix TEXT NOT NULL DEFAULT 'INV-',
+  next_number INTEGER NOT NULL DEFAULT 1 CHECK (next_number > 0),
+  number_padding SMALLINT NOT NULL DEFAULT 4 CHECK (number_padding BETWEEN 1 AND 10),
+  payment_terms_days INTEGER NOT NULL DEFAULT 30 CHECK (payment_terms_days BETWEEN 0 AND 365),
+  -- Shown under the totals, e.g. bank details for payment
+  payment_details TEXT,
+  footer_text TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_sales_invoice_settings_updated_at ON sales_invoice_settings;
+CREATE TRIGGER update_sales_invoice_settings_updated_at
+  BEFORE UPDATE ON sales_invoice_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- SALES_INVOICES TABLE
+-- ============================================================================
+
+-- Drafts have no number; issuing assigns the next one and links the financial document.
+-- Payment status is not stored here - it lives on the linked document.
+CREATE TABLE IF NOT EXISTS sales_invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_profile_id UUID NOT NULL REFERENCES company_profiles(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'issued', 'void')),
+  invoice_number TEXT,
+
+  customer_name TEXT NOT NULL,
+  customer_email TEXT,
+  customer_address TEXT,
+  reference TEXT,
+
+  issue_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  due_date DATE,
+  currency TEXT NOT NULL DEFAULT 'GBP' CHECK (currency ~ '^[A-Z]{3}$'),
+  -- Income category for the ledger; NULL posts to the default sales account
+  category TEXT,
+  subcategory TEXT,
+  notes TEXT,
+
+  subtotal_amount DECIMAL(14,2) NOT NULL DEFAULT 0,
+  tax_amount DECIMAL(14,2) NOT NULL DEFAULT 0,
+  total_amount DECIMAL(14,2) NOT NULL DEFAULT 0,
+
+  document_id UUID REFERENCES financial_documents(id) ON DELETE SET NULL,
+  issued_at TIMESTAMPTZ,
+  issued_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  sent_at TIMESTAMPTZ,
+  sent_to TEXT,
+  send_count INTEGER NOT NULL DEFAULT 0,
+
+  voided_at TIMESTAMPTZ,
+  voided_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  void_reason TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT sales_invoices_unique_number UNIQUE (company_profile_id, invoice_number),
+  CONSTRAINT sales_invoices_issued_number CHECK (status = 'draft' OR invoice_number IS NOT NULL),
+  CONSTRAINT sales_invoices_due_after_issue CHECK (due_date IS NULL OR due_date >= issue_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sales_invoices_company
+  ON sales_invoices(company_profile_id, issue_date DESC);
+CREATE INDEX IF NOT EXISTS idx_sales_invoices_document
+  ON sales_invoices(document_id)
+  WHERE document_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_sales_invoices_updated_at ON sales_invoices;
+CREATE TRIGGER update_sales_invoices_updated_at
+  BEFORE UPDATE ON sales_invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- SALES_INVOICE_LINES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS sales_invoice_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sales_invoice_id UUID NOT NULL REFERENCES sales_invoices(id) ON DELETE CASCADE,
+  line_number INTEGER NOT NULL,
+  description TEXT NOT NULL,
+  quantity NUMERIC(12,4) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit_price NUMERIC(14,4) NOT NULL DEFAULT 0,
+  vat_code TEXT NOT NULL DEFAULT 'standard'
+    CHECK (vat_code IN ('standard', 'reduced', 'zero', 'exempt', 'outside_scope', 'reverse_charge', 'ec_acquisition')),
+  vat_rate NUMERIC(5,2) NOT NULL DEFAULT 0,
+  net_amount DECIMAL(14,2) NOT NULL DEFAULT 0,
+  vat_amount DECIMAL(14,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT sales_invoice_lines_unique_number UNIQUE (sales_invoice_id, line_number)
+);
+
+-- ============================================================================
+-- IMMUTABILITY
+-- ============================================================================
+
+-- An issued invoice is a legal record: only delivery tracking and voiding may change it.
+-- Mistakes are corrected by voiding and issuing a new invoice.
+CREATE OR REPLACE FUNCTION protect_issued_sales_invoice()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status = 'draft' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'void' THEN
+    RAISE EXCEPTION 'Invoice % is void and cannot be changed', OLD.invoice_number;
+  END IF;
+
+  IF NEW.status = 'draft'
+    OR NEW.invoice_number IS DISTINCT FROM OLD.invoice_number
+    OR NEW.customer_name IS DISTINCT FROM OLD.customer_name
+    OR NEW.customer_address IS DISTINCT FROM OLD.customer_address
+    OR NEW.reference IS DISTINCT FROM OLD.reference
+    OR NEW.issue_date IS DISTINCT FROM OLD.issue_date
+    OR NEW.due_date IS DISTINCT FROM OLD.due_date
+    OR NEW.currency IS DISTINCT FROM OLD.currency
+    OR NEW.category IS DISTINCT FROM OLD.category
+    OR NEW.subcategory IS DISTINCT FROM OLD.subcategory
+    OR NEW.notes IS DISTINCT FROM OLD.notes
+    OR NEW.subtotal_amount IS DISTINCT FROM OLD.subtotal_amount
+    OR NEW.tax_amount IS DISTINCT FROM OLD.tax_amount
+    OR NEW.total_amount IS DISTINCT FROM OLD.total_amount
+    OR NEW.company_profile_id IS DISTINCT FROM OLD.company_profile_id
+  THEN
+    RAISE EXCEPTION 'Invoice % has been issued and cannot be edited; void it and issue a new one', OLD.invoice_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_protect_issued_sales_invoice ON sales_invoices;
+CREATE TRIGGER trigger_protect_issued_sales_invoice
+  BEFORE UPDATE ON sales_invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_issued_sales_invoice();
+
+CREATE OR REPLACE FUNCTION protect_issued_sales_invoice_lines()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_invoice_id UUID := COALESCE(NEW.sales_invoice_id, OLD.sales_invoice_id);
+BEGIN
+  IF EXISTS (SELECT 1 FROM sales_invoices WHERE id = v_invoice_id AND status <> 'draft') THEN
+    RAISE EXCEPTION 'Lines of an issued invoice cannot be changed';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_protect_issued_sales_invoice_lines ON sales_invoice_lines;
+CREATE TRIGGER trigger_protect_issued_sales_invoice_lines
+  BEFORE INSERT OR UPDATE OR DELETE ON sales_invoice_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_issued_sales_invoice_lines();
+
+-- ============================================================================
+-- ISSUING
+-- ============================================================================
+
+-- Assign the next number and write the invoice to financial_documents in one transaction.
+-- The settings row is locked while the number is taken, so concurrent issues never share
+-- or skip a number. Returns the new document id.
+CREATE OR REPLACE FUNCTION issue_sales_invoice(p_invoice_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_invoice sales_invoices%ROWTYPE;
+  v_settings sales_invoice_settings%ROWTYPE;
+  v_number TEXT;
+  v_document_id UUID;
+  v_tax_rate DECIMAL(5,2);
+  v_line_items JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_invoice FROM sales_invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT can_edit_company_profile(v_invoice.company_profile_id) THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+  IF v_invoice.status <> 'draft' THEN
+    RAISE EXCEPTION 'Invoice % has already been issued', v_invoice.invoice_number;
+  END IF;
+  IF v_invoice.total_amount <= 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one line with a positive total';
+  END IF;
+  IF is_period_closed(v_invoice.company_profile_id, v_invoice.issue_date) THEN
+    RAISE EXCEPTION 'Period containing % is closed (books closed through %)',
+      v_invoice.issue_date, books_closed_through(v_invoice.company_profile_id);
+  END IF;
+
+  INSERT INTO sales_invoice_settings (company_profile_id)
+  VALUES (v_invoice.company_profile_id)
+  ON CONFLICT (company_profile_id) DO NOTHING;
+
+  SELECT * INTO v_settings
+  FROM sales_invoice_settings
+  WHERE company_profile_id = v_invoice.company_profile_id
+  FOR UPDATE;
+
+  v_number := v_settings.number_prefix
+    || LPAD(v_settings.next_number::TEXT, v_settings.number_padding, '0');
+
+  UPDATE sales_invoice_settings
+  SET next_number = next_number + 1
+  WHERE company_profile_id = v_invoice.company_profile_id;
+
+  -- A single document-level rate only when every line shares it
+  SELECT CASE WHEN COUNT(DISTINCT vat_rate) = 1 THEN MIN(vat_rate) END,
+         COALESCE(jsonb_agg(jsonb_build_object(
+           'description', description,
+           'quantity', quantity,
+           'unit_price', unit_price,
+           'total', net_amount,
+           'vat_code', vat_code,
+           'vat_rate', vat_rate,
+           'vat_amount', vat_amount
+         ) ORDER BY line_number), '[]'::jsonb)
+  INTO v_tax_rate, v_line_items
+  FROM sales_invoice_lines
+  WHERE sales_invoice_id = p_invoice_id;
+
+  INSERT INTO financial_documents (
+    user_id,
+    company_profile_id,
+    original_filename,
+    file_type,
+    mime_type,
+    ocr_status,
+    document_kind,
+    document_date,
+    due_date,
+    vendor_name,
+    invoice_number,
+    document_number,
+    po_number,
+    currency,
+    category,
+    subcategory,
+    description,
+    subtotal_amount,
+    tax_amount,
+    tax_rate,
+    total_amount,
+    line_items,
+    is_verified
+  ) VALUES (
+    auth.uid(),
+    v_invoice.company_profile_id,
+    v_number || '.pdf',
+    'invoice',
+    'application/pdf',
+    'skipped',
+    'sales_invoice',
+    v_invoice.issue_date,
+    v_invoice.due_date,
+    v_invoice.customer_name,
+    v_number,
+    v_number,
+    v_invoice.reference,
+    v_invoice.currency,
+    v_invoice.category,
+    v_invoice.subcategory,
+    v_invoice.notes,
+    v_invoice.subtotal_amount,
+    v_invoice.tax_amount,
+    v_tax_rate,
+    v_invoice.total_amount,
+    v_line_items,
+    TRUE
+  )
+  RETURNING id INTO v_document_id;
+
+  UPDATE sales_invoices
+  SET status = 'issued',
+      invoice_number = v_number,
+      document_id = v_document_id,
+      issued_at = NOW(),
+      issued_by = auth.uid()
+  WHERE id = p_invoice_id;
+
+  RETURN v_document_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Void an issued invoice. Its number stays used (a gap would be unexplained) and its document
+-- is removed from the books; payments must be unmatched first.
+CREATE OR REPLACE FUNCTION void_sales_invoice(p_invoice_id UUID, p_reason TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_invoice sales_invoices%ROWTYPE;
+  v_document financial_documents%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF p_reason IS NULL OR LENGTH(TRIM(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'A reason is required to void an invoice';
+  END IF;
+
+  SELECT * INTO v_invoice FROM sales_invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT can_edit_company_profile(v_invoice.company_profile_id) THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+  IF v_invoice.status <> 'issued' THEN
+    RAISE EXCEPTION 'Only issued invoices can be voided; delete drafts instead';
+  END IF;
+
+  IF v_invoice.document_id IS NOT NULL THEN
+    SELECT * INTO v_document FROM financial_documents WHERE id = v_invoice.document_id FOR UPDATE;
+
+    IF v_document.matched_transaction_id IS NOT NULL OR COALESCE(v_document.amount_paid, 0) > 0 THEN
+      RAISE EXCEPTION 'Invoice % has payments matched to it; undo the matches before voiding', v_invoice.invoice_number;
+    END IF;
+
+    UPDATE financial_documents
+    SET is_deleted = TRUE,
+        deleted_at = NOW()
+    WHERE id = v_invoice.document_id;
+  END IF;
+
+  UPDATE sales_invoices
+  SET status = 'void',
+      voided_at = NOW(),
+      voided_by = auth.uid(),
+      void_reason = TRIM(p_reason)
+  WHERE id = p_invoice_id;
+
+  RETURN v_invoice.document_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE sales_invoice_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sales_invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sales_invoice_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view sales invoice settings" ON sales_invoice_settings;
+CREATE POLICY "Members can view sales invoice settings"
+  ON sales_invoice_settings FOR SELECT
+  USING (can_access_company_profile(company_profile_id));
+
+DROP POLICY IF EXISTS "Members can insert sales invoice settings" ON sales_invoice_settings;
+CREATE POLICY "Members can insert sales invoice settings"
+  ON sales_invoice_settings FOR INSERT
+  WITH CHECK (can_edit_company_profile(company_profile_id));
+
+DROP POLICY IF EXISTS "Members can update sales invoice settings" ON sales_invoice_settings;
+CREATE POLICY "Members can update sales invoice settings"
+  ON sales_invoice_settings FOR UPDATE
+  USING (can_edit_company_profile(company_profile_id))
+  WITH CHECK (can_edit_company_profile(company_profile_id));
+
+DROP POLICY IF EXISTS "Members can view sales invoices" ON sales_invoices;
+CREATE POLICY "Members can view sales invoices"
+  ON sales_invoices FOR SELECT
+  USING (can_access_company_profile(company_profile_id));
+
+DROP POLICY IF EXISTS "Members can create sales invoices" ON sales_invoices;
+CREATE POLICY "Members can create sales invoices"
+  ON sales_invoices FOR INSERT
+  WITH CHECK (can_edit_company_profile(company_profile_id) AND status = 'draft');
+
+DROP POLICY IF EXISTS "Members can update sales invoices" ON sales_invoices;
+CREATE POLICY "Members can update sales invoices"
+  ON sales_invoices FOR UPDATE
+  USING (can_edit_company_profile(company_profile_id))
+  WITH CHECK (can_edit_company_profile(company_profile_id));
+
+DROP POLICY IF EXISTS "Members can delete draft sales invoices" ON sales_invoices;
+CREATE POLICY "Members can delete draft sales invoices"
+  ON sales_invoices FOR DELETE
+  USING (can_edit_company_profile(company_profile_id) AND status = 'draft');
+
+DROP POLICY IF EXISTS "Members can view sales invoice lines" ON sales_invoice_lines;
+CREATE POLICY "Members can view sales invoice lines"
+  ON sales_invoice_lines FOR SELECT
+  USING (
+    sales_invoice_id IN (
+      SELECT id FROM sales_invoices WHERE can_access_company_profile(company_profile_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can manage sales invoice lines" ON sales_invoice_lines;
+CREATE POLICY "Members can manage sales invoice lines"
+  ON sales_invoice_lines FOR ALL
+  USING (
+    sales_invoice_id IN (
+      SELECT id FROM sales_invoices WHERE can_edit_company_profile(company_profile_id)
+    )
+  )
+  WITH CHECK (
+    sales_invoice_id IN (
+      SELECT id FROM sales_invoices WHERE can_edit_company_profile(company_profile_id)
+    )
+  );
+
+GRANT EXECUTE ON FUNCTION issue_sales_invoice(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION void_sales_invoice(UUID, TEXT) TO authenticated;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE sales_invoice_settings IS 'Per-company invoice numbering, payment terms and invoice footer';
+COMMENT ON TABLE sales_invoices IS 'Outgoing invoices raised in the app; issued invoices are immutable and mirrored in financial_documents';
+COMMENT ON TABLE sales_invoice_lines IS 'Line items of a sales invoice with their VAT treatment';
+COMMENT ON COLUMN sales_invoice_settings.next_number IS 'Number the next issued invoice will take';
+COMMENT ON COLUMN sales_invoices.document_id IS 'Sales invoice document created on issue; carries posting and payment status';
+COMMENT ON COLUMN sales_invoices.sent_at IS 'When the invoice was last emailed to the customer';
+COMMENT ON FUNCTION issue_sales_invoice IS 'Assign the next invoice number and create the receivable document';
+COMMENT ON FUNCTION void_sales_invoice IS 'Void an issued, unpaid invoice and remove its document from the books';
@@ -0,0 +1,118 @@
+-- Migration: Line-item splits
+-- Description: One bank transaction or document can be split into several categorized lines,
+--              each with its own category, VAT treatment and supplier. Splits extend the
+--              percentage split_allocations written by categorization rules with a gross amount
+--              per line, and a trigger keeps the lines adding up to the parent.
+-- Created: 2026-01-28
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+-- Same shape as categorized_transactions.split_allocations
+ALTER TABLE financial_documents
+  ADD COLUMN IF NOT EXISTS split_allocations JSONB;
+
+COMMENT ON COLUMN categorized_transactions.split_allocations IS 'Split of the amount across categorized lines: [{category, subcategory, percentage, amount, description, vat_code, vat_rate, vat_amount, supplier_id, supplier_name}]. Rule splits carry percentages only; splits made in the split editor carry a gross amount per line that adds up to the transaction amount';
+COMMENT ON COLUMN financial_documents.split_allocations IS 'Split of the document total across categorized lines, in the same shape as categorized_transactions.split_allocations. Line amounts add up to total_amount';
+
+-- ============================================================================
+-- VALIDATION
+-- ============================================================================
+
+-- Why a split doesn't fit its parent, or NULL when it does (or there is no split)
+CREATE OR REPLACE FUNCTION split_allocations_problem(p_splits JSONB, p_total NUMERIC)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_line JSONB;
+  v_count INTEGER := 0;
+  v_with_amount INTEGER := 0;
+  v_percentage NUMERIC := 0;
+  v_amount NUMERIC := 0;
+BEGIN
+  IF p_splits IS NULL OR jsonb_typeof(p_splits) = 'null' THEN
+    RETURN NULL;
+  END IF;
+  IF jsonb_typeof(p_splits) <> 'array' THEN
+    RETURN 'Split allocations must be a list of lines';
+  END IF;
+  IF jsonb_array_length(p_splits) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  FOR v_line IN SELECT value FROM jsonb_array_elements(p_splits) LOOP
+    v_count := v_count + 1;
+    IF COALESCE(TRIM(v_line->>'category'), '') = '' THEN
+      RETURN format('Split line %s has no category', v_count);
+    END IF;
+    v_percentage := v_percentage + COALESCE((v_line->>'percentage')::NUMERIC, 0);
+    IF jsonb_typeof(v_line->'amount') = 'number' THEN
+      v_with_amount := v_with_amount + 1;
+      v_amount := v_amount + (v_line->>'amount')::NUMERIC;
+    END IF;
+  END LOOP;
+
+  -- Amounts are exact; percentages alone (rule splits) are shared out when posting
+  IF v_with_amount > 0 THEN
+    IF v_with_amount < v_count THEN
+      RETURN 'Every split line needs an amount, or none of them';
+    END IF;
+    IF ABS(v_amount - ABS(COALESCE(p_total, 0))) >= 0.005 THEN
+      RETURN format('Split lines add up to %s but the total is %s',
+        to_char(v_amount, 'FM999999999990.00'), to_char(ABS(COALESCE(p_total, 0)), 'FM999999999990.00'));
+    END IF;
+  ELSIF ABS(v_percentage - 100) > 0.01 THEN
+    RETURN 'Split percentages must add up to 100';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_transaction_split_total()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_problem TEXT;
+BEGIN
+  v_problem := split_allocations_problem(NEW.split_allocations, NEW.amount);
+  IF v_problem IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_problem USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_document_split_total()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_problem TEXT;
+BEGIN
+  v_problem := split_allocations_problem(NEW.split_allocations, NEW.total_amount);
+  IF v_problem IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_problem USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Changing the parent amount of a split transaction or document is refused until the split is updated
+DROP TRIGGER IF EXISTS enforce_transaction_split_total ON categorized_transactions;
+CREATE TRIGGER enforce_transaction_split_total
+  BEFORE INSERT OR UPDATE OF split_allocations, amount ON categorized_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_transaction_split_total();
+
+DROP TRIGGER IF EXISTS enforce_document_split_total ON financial_documents;
+CREATE TRIGGER enforce_document_split_total
+  BEFORE INSERT OR UPDATE OF split_allocations, total_amount ON financial_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_document_split_total();
+
+COMMENT ON FUNCTION split_allocations_problem(JSONB, NUMERIC) IS 'Why split lines do not fit their parent total (amounts must match it to the penny, percentages must add up to 100), or NULL';
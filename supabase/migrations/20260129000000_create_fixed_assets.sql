@@ -0,0 +1,161 @@
+-- Migration: Fixed asset register
+-- Description: Purchases capitalised as fixed assets, with straight-line or reducing-balance
+--              depreciation posted to the ledger month by month, disposals with their gain or
+--              loss, and the capital allowance pool each asset belongs to for corporation tax.
+--              A capitalised transaction or invoice posts to the asset account instead of its
+--              category's account, and an asset's sale receipt posts to the disposals account.
+-- Created: 2026-01-29
+
+-- ============================================================================
+-- FIXED_ASSETS TABLE
+-- ============================================================================
+
+-- Amounts are in the company's base currency
+CREATE TABLE IF NOT EXISTS fixed_assets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_profile_id UUID NOT NULL REFERENCES company_profiles(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  name TEXT NOT NULL CHECK (LENGTH(TRIM(name)) > 0),
+  description TEXT,
+  asset_class TEXT NOT NULL DEFAULT 'equipment'
+    CHECK (asset_class IN ('equipment', 'computer', 'furniture', 'vehicle', 'car', 'building', 'intangible')),
+  -- Ledger account the cost sits in (1500 Fixed Assets, 1700 Intangible Assets)
+  asset_account_code TEXT NOT NULL DEFAULT '1500',
+
+  acquisition_date DATE NOT NULL,
+  cost DECIMAL(14,2) NOT NULL CHECK (cost > 0),
+  residual_value DECIMAL(14,2) NOT NULL DEFAULT 0 CHECK (residual_value >= 0),
+
+  depreciation_method TEXT NOT NULL DEFAULT 'straight_line'
+    CHECK (depreciation_method IN ('straight_line', 'reducing_balance', 'none')),
+  useful_life_months INTEGER CHECK (useful_life_months IS NULL OR useful_life_months BETWEEN 1 AND 1200),
+  -- Annual rate for reducing balance
+  reducing_balance_rate NUMERIC(5,2) CHECK (reducing_balance_rate IS NULL OR (reducing_balance_rate > 0 AND reducing_balance_rate <= 100)),
+
+  -- Capital allowances: the pool the expenditure goes into, and whether AIA is claimed on it
+  allowance_pool TEXT NOT NULL DEFAULT 'main'
+    CHECK (allowance_pool IN ('main', 'special_rate', 'none')),
+  claim_aia BOOLEAN NOT NULL DEFAULT TRUE,
+
+  -- The purchase the asset was capitalised from, if any
+  source_transaction_id UUID REFERENCES categorized_transactions(id) ON DELETE SET NULL,
+  source_document_id UUID REFERENCES financial_documents(id) ON DELETE SET NULL,
+
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'disposed')),
+  disposal_date DATE,
+  disposal_proceeds DECIMAL(14,2) CHECK (disposal_proceeds IS NULL OR disposal_proceeds >= 0),
+  -- The receipt of the sale proceeds, which posts to the disposals account
+  disposal_transaction_id UUID REFERENCES categorized_transactions(id) ON DELETE SET NULL,
+  disposal_entry_id UUID REFERENCES journal_entries(id) ON DELETE SET NULL,
+
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT fixed_assets_residual_below_cost CHECK (residual_value < cost),
+  CONSTRAINT fixed_assets_depreciation_terms CHECK (
+    depreciation_method = 'none'
+    OR (depreciation_method = 'straight_line' AND useful_life_months IS NOT NULL)
+    OR (depreciation_method = 'reducing_balance' AND reducing_balance_rate IS NOT NULL)
+  ),
+  CONSTRAINT fixed_assets_disposal CHECK (
+    (status = 'active' AND disposal_date IS NULL)
+    OR (status = 'disposed' AND disposal_date IS NOT NULL AND disposal_date >= acquisition_date)
+  ),
+  -- No car qualifies for the annual investment allowance
+  CONSTRAINT fixed_assets_no_aia_on_cars CHECK (asset_class <> 'car' OR NOT claim_aia)
+);
+
+-- A purchase can only be capitalised once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fixed_assets_source_transaction
+  ON fixed_assets(source_transaction_id)
+  WHERE source_transaction_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fixed_assets_source_document
+  ON fixed_assets(source_document_id)
+  WHERE source_document_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fixed_assets_disposal_transaction
+  ON fixed_assets(disposal_transaction_id)
+  WHERE disposal_transaction_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_fixed_assets_company
+  ON fixed_assets(company_profile_id, acquisition_date);
+
+DROP TRIGGER IF EXISTS update_fixed_assets_updated_at ON fixed_assets;
+CREATE TRIGGER update_fixed_assets_updated_at
+  BEFORE UPDATE ON fixed_assets
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- FIXED_ASSET_DEPRECIATION TABLE
+-- ============================================================================
+
+-- One row per asset per month depreciated. A month's charges for every asset of a company
+-- post as one journal entry, so rows of the same month share journal_entry_id.
+CREATE TABLE IF NOT EXISTS fixed_asset_depreciation (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  fixed_asset_id UUID NOT NULL REFERENCES fixed_assets(id) ON DELETE CASCADE,
+  period_end DATE NOT NULL,
+  amount DECIMAL(14,2) NOT NULL CHECK (amount > 0),
+  journal_entry_id UUID REFERENCES journal_entries(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT fixed_asset_depreciation_unique_month UNIQUE (fixed_asset_id, period_end)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fixed_asset_depreciation_entry
+  ON fixed_asset_depreciation(journal_entry_id);
+
+-- ============================================================================
+-- LEDGER ENTRIES
+-- ============================================================================
+
+ALTER TABLE journal_entries DROP CONSTRAINT IF EXISTS journal_entries_source_type_check;
+ALTER TABLE journal_entries ADD CONSTRAINT journal_entries_source_type_check
+  CHECK (source_type IN ('bank_transaction', 'document', 'manual', 'adjustment', 'opening_balance', 'fx_revaluation', 'depreciation', 'asset_disposal'));
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE fixed_assets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fixed_asset_depreciation ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view fixed assets" ON fixed_assets;
+CREATE POLICY "Members can view fixed assets"
+  ON fixed_assets FOR SELECT
+  USING (can_access_company_profile(company_profile_id));
+
+DROP POLICY IF EXISTS "Editors can manage fixed assets" ON fixed_assets;
+CREATE POLICY "Editors can manage fixed assets"
+  ON fixed_assets FOR ALL
+  USING (can_edit_company_profile(company_profile_id))
+  WITH CHECK (can_edit_company_profile(company_profile_id));
+
+DROP POLICY IF EXISTS "Members can view asset depreciation" ON fixed_asset_depreciation;
+CREATE POLICY "Members can view asset depreciation"
+  ON fixed_asset_depreciation FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM fixed_assets fa
+    WHERE fa.id = fixed_asset_depreciation.fixed_asset_id
+      AND can_access_company_profile(fa.company_profile_id)
+  ));
+
+DROP POLICY IF EXISTS "Editors can manage asset depreciation" ON fixed_asset_depreciation;
+CREATE POLICY "Editors can manage asset depreciation"
+  ON fixed_asset_depreciation FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM fixed_assets fa
+    WHERE fa.id = fixed_asset_depreciation.fixed_asset_id
+      AND can_edit_company_profile(fa.company_profile_id)
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM fixed_assets fa
+    WHERE fa.id = fixed_asset_depreciation.fixed_asset_id
+      AND can_edit_company_profile(fa.company_profile_id)
+  ));
+
+COMMENT ON TABLE fixed_assets IS 'Fixed asset register: capitalised purchases with their depreciation terms, capital allowance pool and disposal';
+COMMENT ON COLUMN fixed_assets.cost IS 'Capitalised cost in the company base currency';
+COMMENT ON COLUMN fixed_assets.allowance_pool IS 'Capital allowance pool: main (18% WDA), special_rate (6% WDA) or none (not plant and machinery)';
+COMMENT ON TABLE fixed_asset_depreciation IS 'Depreciation charged per asset per month, and the journal entry that posted it';
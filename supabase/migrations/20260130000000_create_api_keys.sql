@@ -0,0 +1,234 @@
+-- Migration: Tenant API keys
+-- Description: Hashed API keys for the public /api/v1 surface. Each key belongs to a tenant,
+--              carries the scopes it may use, optionally narrows access to some of the
+--              tenant's companies, and acts as the user who created it. Keys can expire, be
+--              revoked, and be rotated into a replacement. Writes made through the API are
+--              recorded in the books change log with an 'api' source.
+-- Created: 2026-01-30
+
+-- ============================================================================
+-- API_KEYS TABLE
+-- ============================================================================
+
+-- Only the SHA-256 hash of a key is stored; the key itself is shown once, when it is created
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (LENGTH(TRIM(name)) > 0),
+  -- First characters of the key, to tell keys apart in lists and logs
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  scopes TEXT[] NOT NULL CHECK (
+    CARDINALITY(scopes) > 0
+    AND scopes <@ ARRAY['statements:write', 'transactions:read', 'transactions:write', 'documents:read', 'reports:read']
+  ),
+  -- Companies the key may reach; NULL means every company in the tenant
+  company_profile_ids UUID[],
+  -- Requests act as this user: changes are attributed to them, and the key stops working
+  -- once they lose api.access
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  revoked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- The key this one replaced when it was rotated
+  rotated_from_id UUID REFERENCES api_keys(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_tenant
+  ON api_keys(tenant_id, created_at DESC);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+-- Members of a tenant can list its keys. Keys are created, rotated and revoked through
+-- server actions that check api.access and write with the service role.
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Tenant members can view API keys" ON api_keys;
+CREATE POLICY "Tenant members can view API keys"
+  ON api_keys FOR SELECT
+  USING (tenant_id IN (SELECT current_user_tenant_ids()));
+
+-- ============================================================================
+-- API ACCESS
+-- ============================================================================
+
+-- Whether a key's creator still holds api.access in its tenant. Mirrors getUserPermissions()
+-- in @tinadmin/core: Platform Admins hold it everywhere, Developers in tenants they belong
+-- to, and any member of a tenant that grants it through its features.
+CREATE OR REPLACE FUNCTION user_has_api_access(p_user_id UUID, p_tenant_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM users u
+    LEFT JOIN roles r ON r.id = u.role_id
+    WHERE u.id = p_user_id
+      AND (
+        r.name = 'Platform Admin'
+        OR (
+          (
+            u.tenant_id = p_tenant_id
+            OR EXISTS (
+              SELECT 1 FROM user_tenant_roles utr
+              WHERE utr.user_id = p_user_id AND utr.tenant_id = p_tenant_id
+            )
+          )
+          AND (
+            r.name = 'Developer'
+            OR EXISTS (SELECT 1 FROM tenants t WHERE t.id = p_tenant_id AND 'api.access' = ANY(t.features))
+          )
+        )
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION user_has_api_access(UUID, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION user_has_api_access(UUID, UUID) TO service_role;
+
+-- Companies in a key's tenant that its creator can reach, and whether they can edit each.
+-- Requests run with the service role, so this mirrors accessible_company_profile_ids() and
+-- can_edit_company_profile() for the given user rather than auth.uid().
+CREATE OR REPLACE FUNCTION user_company_profile_access(p_user_id UUID, p_tenant_id UUID)
+RETURNS TABLE (
+  company_profile_id UUID,
+  can_edit BOOLEAN
+) AS $$
+  WITH user_tenants AS (
+    SELECT tenant_id FROM users WHERE id = p_user_id AND tenant_id IS NOT NULL
+    UNION
+    SELECT tenant_id FROM user_tenant_roles WHERE user_id = p_user_id
+  ),
+  accessible AS (
+    SELECT id FROM company_profiles WHERE user_id = p_user_id
+    UNION
+    SELECT company_profile_id FROM company_profile_members WHERE user_id = p_user_id
+    UNION
+    SELECT id FROM company_profiles
+    WHERE tenant_id IS NOT NULL
+      AND (
+        tenant_id IN (SELECT tenant_id FROM user_tenants)
+        OR tenant_id IN (
+          SELECT client_tenant_id FROM practice_clients
+          WHERE status = 'active'
+            AND practice_tenant_id IN (SELECT tenant_id FROM user_tenants)
+        )
+      )
+  )
+  SELECT
+    cp.id,
+    NOT EXISTS (
+      SELECT 1 FROM company_profile_members m
+      WHERE m.company_profile_id = cp.id
+        AND m.user_id = p_user_id
+        AND m.role = 'viewer'
+    )
+  FROM company_profiles cp
+  JOIN accessible a ON a.id = cp.id
+  WHERE cp.tenant_id = p_tenant_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION user_company_profile_access(UUID, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION user_company_profile_access(UUID, UUID) TO service_role;
+
+-- ============================================================================
+-- CHANGE LOG SOURCE
+-- ============================================================================
+
+ALTER TABLE books_change_log DROP CONSTRAINT IF EXISTS books_change_log_source_check;
+ALTER TABLE books_change_log ADD CONSTRAINT books_change_log_source_check
+  CHECK (source IN ('ui', 'chat', 'sheets', 'rule', 'import', 'system', 'api'));
+
+-- ============================================================================
+-- OPEN INVOICES FOR THE SERVICE ROLE
+-- ============================================================================
+
+-- The API reads aged balances with the service role after scoping the key to the company
+-- itself, so the access checks also let the service role through. Otherwise unchanged.
+CREATE OR REPLACE FUNCTION document_payments(p_company_profile_id UUID)
+RETURNS TABLE (
+  document_id UUID,
+  paid_on DATE,
+  amount DECIMAL
+) AS $$
+  SELECT i.document_id, MAX(ct.date), i.amount
+  FROM financial_documents fd
+  JOIN reconciliation_match_group_items i ON i.document_id = fd.id
+  JOIN reconciliation_match_groups g ON g.id = i.group_id AND g.status = 'active'
+  JOIN reconciliation_match_group_items ti ON ti.group_id = g.id AND ti.transaction_id IS NOT NULL
+  JOIN categorized_transactions ct ON ct.id = ti.transaction_id
+  WHERE fd.company_profile_id = p_company_profile_id
+    AND (can_access_company_profile(p_company_profile_id) OR auth.role() = 'service_role')
+  GROUP BY i.id, i.document_id, i.amount
+  UNION ALL
+  SELECT fd.id, ct.date, ABS(COALESCE(fd.total_amount, 0))
+  FROM financial_documents fd
+  JOIN categorized_transactions ct ON ct.id = fd.matched_transaction_id
+  WHERE fd.company_profile_id = p_company_profile_id
+    AND fd.amount_paid = 0
+    AND (can_access_company_profile(p_company_profile_id) OR auth.role() = 'service_role');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_open_invoices(
+  p_company_profile_id UUID,
+  p_document_kind TEXT,
+  p_as_of DATE
+)
+RETURNS TABLE (
+  document_id UUID,
+  vendor_name TEXT,
+  invoice_number TEXT,
+  document_date DATE,
+  due_date DATE,
+  currency TEXT,
+  total_amount DECIMAL,
+  paid_amount DECIMAL,
+  outstanding_amount DECIMAL,
+  base_outstanding_amount DECIMAL
+) AS $$
+  WITH paid AS (
+    SELECT dp.document_id, SUM(dp.amount) AS amount
+    FROM document_payments(p_company_profile_id) dp
+    WHERE dp.paid_on <= p_as_of
+    GROUP BY dp.document_id
+  )
+  SELECT
+    fd.id,
+    fd.vendor_name,
+    COALESCE(fd.invoice_number, fd.document_number),
+    fd.document_date,
+    fd.due_date,
+    fd.currency,
+    ABS(fd.total_amount),
+    LEAST(COALESCE(p.amount, 0), ABS(fd.total_amount)),
+    ABS(fd.total_amount) - LEAST(COALESCE(p.amount, 0), ABS(fd.total_amount)),
+    ROUND(
+      (ABS(fd.total_amount) - LEAST(COALESCE(p.amount, 0), ABS(fd.total_amount)))
+        * ABS(fd.base_total_amount) / ABS(fd.total_amount),
+      2
+    )
+  FROM financial_documents fd
+  LEFT JOIN paid p ON p.document_id = fd.id
+  WHERE fd.company_profile_id = p_company_profile_id
+    AND fd.file_type = 'invoice'
+    AND fd.is_deleted = FALSE
+    AND fd.document_kind = p_document_kind
+    AND fd.document_date <= p_as_of
+    AND COALESCE(fd.total_amount, 0) <> 0
+    AND COALESCE(p.amount, 0) < ABS(fd.total_amount)
+    AND (can_access_company_profile(p_company_profile_id) OR auth.role() = 'service_role')
+  ORDER BY fd.document_date, fd.id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE api_keys IS 'Hashed tenant API keys for the public REST API, with scopes, expiry and rotation';
+COMMENT ON COLUMN api_keys.key_hash IS 'SHA-256 hex digest of the full key; the key itself is never stored';
+COMMENT ON COLUMN api_keys.company_profile_ids IS 'Companies the key is limited to; NULL for every company in the tenant';
+COMMENT ON COLUMN api_keys.created_by IS 'User the key acts as; API changes are attributed to them';
+COMMENT ON FUNCTION user_has_api_access IS 'Whether a user holds api.access in a tenant; checked on every API request';
+COMMENT ON FUNCTION user_company_profile_access IS 'Companies in a tenant a user can access, with edit rights; limits what their API keys reach';
@@ -0,0 +1,373 @@
+-- Migration: Outbound webhooks
+-- Description: Tenant webhook endpoints subscribed to events (job.completed, job.failed,
+--              transaction.updated, document.matched, sync.conflict). Triggers on the
+--              tables the events describe queue an event with one delivery per subscribed
+--              endpoint; a worker posts each delivery with an HMAC signature and retries
+--              failures with exponential backoff. Deliveries double as the delivery log.
+-- Created: 2026-01-31
+
+-- ============================================================================
+-- WEBHOOK_ENDPOINTS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (LENGTH(TRIM(name)) > 0),
+  url TEXT NOT NULL CHECK (url ~* '^https?://'),
+  events TEXT[] NOT NULL CHECK (
+    CARDINALITY(events) > 0
+    AND events <@ ARRAY['job.completed', 'job.failed', 'transaction.updated', 'document.matched', 'sync.conflict']
+  ),
+  -- Signs every payload. Kept in the clear because signing needs it; shown to tenant admins
+  -- so receivers can verify signatures.
+  secret TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_tenant
+  ON webhook_endpoints(tenant_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_webhook_endpoints_updated_at ON webhook_endpoints;
+CREATE TRIGGER update_webhook_endpoints_updated_at
+  BEFORE UPDATE ON webhook_endpoints
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- WEBHOOK_EVENTS TABLE
+-- ============================================================================
+
+-- One row per event that had at least one subscriber. The payload sent is
+-- { id, type, created_at, tenant_id, test, data }.
+CREATE TABLE IF NOT EXISTS webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL,
+  data JSONB NOT NULL DEFAULT '{}',
+  -- Sent from the admin app to try an endpoint out, with sample data
+  is_test BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_tenant
+  ON webhook_events(tenant_id, created_at DESC);
+
+-- ============================================================================
+-- WEBHOOK_DELIVERIES TABLE
+-- ============================================================================
+
+-- An event sent to one endpoint. Retried until it succeeds or runs out of attempts; the
+-- response of the latest attempt is kept.
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES webhook_events(id) ON DELETE CASCADE,
+  endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ DEFAULT NOW(),
+  last_attempt_at TIMESTAMPTZ,
+  response_status INTEGER,
+  response_time_ms INTEGER,
+  -- First part of the receiver's response body
+  response_body TEXT,
+  error TEXT,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_tenant
+  ON webhook_deliveries(tenant_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint
+  ON webhook_deliveries(endpoint_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+  ON webhook_deliveries(next_attempt_at)
+  WHERE status = 'pending';
+
+-- ============================================================================
+-- QUEUEING EVENTS
+-- ============================================================================
+
+-- The tenant an event belongs to: the row's own tenant, else its company's, else its user's
+CREATE OR REPLACE FUNCTION webhook_tenant_id(
+  p_tenant_id UUID,
+  p_company_profile_id UUID,
+  p_user_id UUID
+)
+RETURNS UUID AS $$
+  SELECT COALESCE(
+    p_tenant_id,
+    (SELECT tenant_id FROM company_profiles WHERE id = p_company_profile_id),
+    (SELECT tenant_id FROM users WHERE id = p_user_id)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Queue an event for every active endpoint of the tenant subscribed to it. Returns the event
+-- id, or NULL when nothing is subscribed (and nothing is stored).
+CREATE OR REPLACE FUNCTION enqueue_webhook_event(
+  p_tenant_id UUID,
+  p_event_type TEXT,
+  p_data JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_event_id UUID;
+BEGIN
+  IF p_tenant_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM webhook_endpoints
+    WHERE tenant_id = p_tenant_id AND is_active AND p_event_type = ANY(events)
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO webhook_events (tenant_id, event_type, data)
+  VALUES (p_tenant_id, p_event_type, COALESCE(p_data, '{}'::JSONB))
+  RETURNING id INTO v_event_id;
+
+  INSERT INTO webhook_deliveries (event_id, endpoint_id, tenant_id, event_type)
+  SELECT v_event_id, e.id, p_tenant_id, p_event_type
+  FROM webhook_endpoints e
+  WHERE e.tenant_id = p_tenant_id AND e.is_active AND p_event_type = ANY(e.events);
+
+  RETURN v_event_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- EVENT TRIGGERS
+-- ============================================================================
+-- Webhooks never block the write that caused them: a failure to queue is logged and dropped.
+
+-- job.completed when a job first reaches review, job.failed when it fails
+CREATE OR REPLACE FUNCTION emit_job_webhook_events()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_data JSONB;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NULL;
+  END IF;
+
+  v_data := jsonb_build_object(
+    'job_id', NEW.id,
+    'company_profile_id', NEW.company_profile_id,
+    'bank_account_id', NEW.bank_account_id,
+    'job_type', NEW.job_type,
+    'status', NEW.status,
+    'status_message', NEW.status_message,
+    'original_filename', NEW.original_filename
+  );
+
+  IF NEW.status IN ('reviewing', 'completed') AND COALESCE(OLD.status, '') NOT IN ('reviewing', 'completed') THEN
+    PERFORM enqueue_webhook_event(
+      webhook_tenant_id(NEW.tenant_id, NEW.company_profile_id, NEW.user_id),
+      'job.completed',
+      v_data || jsonb_build_object(
+        'total_items', NEW.total_items,
+        'processed_items', NEW.processed_items,
+        'failed_items', NEW.failed_items,
+        'completed_at', NEW.completed_at
+      )
+    );
+  ELSIF NEW.status = 'failed' THEN
+    PERFORM enqueue_webhook_event(
+      webhook_tenant_id(NEW.tenant_id, NEW.company_profile_id, NEW.user_id),
+      'job.failed',
+      v_data || jsonb_build_object(
+        'error_code', NEW.error_code,
+        'error_message', NEW.error_message
+      )
+    );
+  END IF;
+
+  RETURN NULL;
+EXCEPTION WHEN OTHERS THEN
+  RAISE WARNING 'Webhook event for job % not queued: %', NEW.id, SQLERRM;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_emit_job_webhook_events ON categorization_jobs;
+CREATE TRIGGER trigger_emit_job_webhook_events
+  AFTER UPDATE OF status ON categorization_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION emit_job_webhook_events();
+
+-- transaction.updated when a reviewable field changes; document.matched when a transaction is
+-- matched to a document. The source and actor come from the change context set by
+-- capture_books_change_context().
+CREATE OR REPLACE FUNCTION emit_transaction_webhook_events()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old JSONB := to_jsonb(OLD);
+  v_new JSONB := to_jsonb(NEW);
+  v_changes JSONB := '{}'::JSONB;
+  v_key TEXT;
+  v_tenant_id UUID;
+  v_source TEXT;
+BEGIN
+  FOREACH v_key IN ARRAY ARRAY[
+    'category', 'subcategory', 'supplier_id', 'vat_code', 'vat_rate', 'vat_amount',
+    'user_notes', 'review_status'
+  ]
+  LOOP
+    IF (v_old->v_key) IS DISTINCT FROM (v_new->v_key) THEN
+      v_changes := v_changes || jsonb_build_object(
+        v_key, jsonb_build_object('old', v_old->v_key, 'new', v_new->v_key)
+      );
+    END IF;
+  END LOOP;
+
+  IF v_changes = '{}'::JSONB
+    AND (NEW.matched_document_id IS NULL OR NEW.matched_document_id IS NOT DISTINCT FROM OLD.matched_document_id)
+  THEN
+    RETURN NULL;
+  END IF;
+
+  v_tenant_id := webhook_tenant_id(
+    NEW.tenant_id,
+    NEW.company_profile_id,
+    (SELECT user_id FROM categorization_jobs WHERE id = NEW.job_id)
+  );
+  v_source := COALESCE(
+    NULLIF(current_setting('app.change_source', true), ''),
+    CASE WHEN auth.uid() IS NOT NULL THEN 'ui' ELSE 'system' END
+  );
+
+  IF v_changes <> '{}'::JSONB THEN
+    PERFORM enqueue_webhook_event(v_tenant_id, 'transaction.updated', jsonb_build_object(
+      'transaction_id', NEW.id,
+      'job_id', NEW.job_id,
+      'company_profile_id', NEW.company_profile_id,
+      'changes', v_changes,
+      'source', v_source,
+      'changed_by', current_change_actor()
+    ));
+  END IF;
+
+  IF NEW.matched_document_id IS NOT NULL AND NEW.matched_document_id IS DISTINCT FROM OLD.matched_document_id THEN
+    PERFORM enqueue_webhook_event(v_tenant_id, 'document.matched', jsonb_build_object(
+      'transaction_id', NEW.id,
+      'document_id', NEW.matched_document_id,
+      'company_profile_id', NEW.company_profile_id,
+      'date', NEW.date,
+      'amount', NEW.amount,
+      'currency', NEW.currency,
+      'source', v_source,
+      'matched_by', current_change_actor()
+    ));
+  END IF;
+
+  RETURN NULL;
+EXCEPTION WHEN OTHERS THEN
+  RAISE WARNING 'Webhook event for transaction % not queued: %', NEW.id, SQLERRM;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_emit_transaction_webhook_events ON categorized_transactions;
+CREATE TRIGGER trigger_emit_transaction_webhook_events
+  AFTER UPDATE ON categorized_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION emit_transaction_webhook_events();
+
+-- sync.conflict when a sync finds the books and a spreadsheet disagree
+CREATE OR REPLACE FUNCTION emit_sync_conflict_webhook_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM enqueue_webhook_event(
+    webhook_tenant_id(
+      NEW.tenant_id,
+      (SELECT company_profile_id FROM categorized_transactions WHERE id = NEW.transaction_id),
+      NEW.user_id
+    ),
+    'sync.conflict',
+    jsonb_build_object(
+      'conflict_id', NEW.id,
+      'transaction_id', NEW.transaction_id,
+      'source_type', NEW.source_type,
+      'conflict_type', NEW.conflict_type,
+      'db_value', NEW.db_value,
+      'external_value', NEW.external_value,
+      'db_modified_at', NEW.db_modified_at,
+      'external_modified_at', NEW.external_modified_at
+    )
+  );
+
+  RETURN NULL;
+EXCEPTION WHEN OTHERS THEN
+  RAISE WARNING 'Webhook event for sync conflict % not queued: %', NEW.id, SQLERRM;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_emit_sync_conflict_webhook_event ON sync_conflicts;
+CREATE TRIGGER trigger_emit_sync_conflict_webhook_event
+  AFTER INSERT ON sync_conflicts
+  FOR EACH ROW
+  EXECUTE FUNCTION emit_sync_conflict_webhook_event();
+
+-- ============================================================================
+-- DELIVERY WORKER
+-- ============================================================================
+
+-- Claim due deliveries for sending. Claimed rows are pushed back five minutes, so concurrent
+-- workers skip them and a worker that dies mid-send leaves them to be retried.
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(p_limit INTEGER DEFAULT 50)
+RETURNS SETOF webhook_deliveries AS $$
+  UPDATE webhook_deliveries
+  SET next_attempt_at = NOW() + INTERVAL '5 minutes'
+  WHERE id IN (
+    SELECT id FROM webhook_deliveries
+    WHERE status = 'pending' AND next_attempt_at <= NOW()
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION enqueue_webhook_event(UUID, TEXT, JSONB) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION claim_webhook_deliveries(INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION enqueue_webhook_event(UUID, TEXT, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_webhook_deliveries(INTEGER) TO service_role;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+-- Endpoints hold signing secrets, so they have no policies: the admin app reads and writes them
+-- with the service role after checking webhooks.read / webhooks.write. Tenant members can
+-- read their events and delivery log.
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Tenant members can view webhook events" ON webhook_events;
+CREATE POLICY "Tenant members can view webhook events"
+  ON webhook_events FOR SELECT
+  USING (tenant_id IN (SELECT current_user_tenant_ids()));
+
+DROP POLICY IF EXISTS "Tenant members can view webhook deliveries" ON webhook_deliveries;
+CREATE POLICY "Tenant members can view webhook deliveries"
+  ON webhook_deliveries FOR SELECT
+  USING (tenant_id IN (SELECT current_user_tenant_ids()));
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE webhook_endpoints IS 'Tenant URLs that receive signed webhook events';
+COMMENT ON COLUMN webhook_endpoints.secret IS 'HMAC-SHA256 signing secret for payloads sent to the endpoint';
+COMMENT ON TABLE webhook_events IS 'Webhook events queued for at least one endpoint';
+COMMENT ON TABLE webhook_deliveries IS 'Each event sent to each endpoint, with retry state and the latest response';
+COMMENT ON COLUMN webhook_deliveries.status IS 'pending (queued or retrying), delivered, or failed after the last attempt';
+COMMENT ON FUNCTION enqueue_webhook_event IS 'Queue an event for the tenant''s subscribed endpoints; NULL when none are subscribed';
+COMMENT ON FUNCTION claim_webhook_deliveries IS 'Claim due deliveries for the webhook worker';
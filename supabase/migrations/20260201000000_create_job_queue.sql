@@ -0,0 +1,278 @@
+-- Migration: Durable job queue
+-- Description: Postgres-backed queue for background processing of categorization jobs
+--              (spreadsheets, PDF bank statements, invoice/receipt OCR), Google Sheets syncs
+--              and OCR of uploaded financial documents. Workers claim jobs
+--              with FOR UPDATE SKIP LOCKED under a lease they extend with heartbeats; a job
+--              whose lease runs out is reclaimed. Failed attempts are retried with backoff up
+--              to max_attempts, then the job is dead-lettered. Each tenant runs at most
+--              max_concurrent jobs at a time. Replaces the stuck-job sweep in
+--              /api/cron/process-queued-jobs.
+-- Created: 2026-02-01
+
+-- ============================================================================
+-- CATEGORIZATION_JOBS JOB TYPES
+-- ============================================================================
+
+-- PDF bank statement uploads have always inserted job_type 'bank_statement_pdf', which the
+-- check never allowed
+ALTER TABLE categorization_jobs
+DROP CONSTRAINT IF EXISTS categorization_jobs_job_type_check;
+
+ALTER TABLE categorization_jobs
+ADD CONSTRAINT categorization_jobs_job_type_check
+CHECK (job_type IN ('spreadsheet', 'bank_statement_pdf', 'invoice', 'batch_invoice', 'receipt', 'batch_receipt'));
+
+COMMENT ON COLUMN categorization_jobs.job_type IS 'Type of job: spreadsheet, bank_statement_pdf, invoice, batch_invoice, receipt, or batch_receipt';
+
+-- ============================================================================
+-- JOB_QUEUE TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS job_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  job_type TEXT NOT NULL
+    CHECK (job_type IN ('spreadsheet', 'bank_statement_pdf', 'invoice_ocr', 'sheets_sync', 'document_ocr')),
+  categorization_job_id UUID REFERENCES categorization_jobs(id) ON DELETE CASCADE,
+  -- Document OCR works on an uploaded financial document rather than a categorization job
+  financial_document_id UUID REFERENCES financial_documents(id) ON DELETE CASCADE,
+  payload JSONB NOT NULL DEFAULT '{}',
+  -- Higher runs first
+  priority INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'completed', 'dead', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0 CHECK (attempts >= 0),
+  max_attempts INTEGER NOT NULL DEFAULT 3 CHECK (max_attempts > 0),
+  -- Not picked up before this; pushed back by retry backoff
+  run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_by TEXT,
+  locked_at TIMESTAMPTZ,
+  lease_expires_at TIMESTAMPTZ,
+  heartbeat_at TIMESTAMPTZ,
+  last_error TEXT,
+  last_error_code TEXT,
+  -- [{ attempt, code, message, at }] for every failed attempt
+  error_history JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  CHECK (
+    CASE WHEN job_type = 'document_ocr'
+      THEN financial_document_id IS NOT NULL
+      ELSE categorization_job_id IS NOT NULL
+    END
+  )
+);
+
+-- A categorization job is processed at most once at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_job_queue_active_categorization_job
+  ON job_queue(categorization_job_id, job_type)
+  WHERE status IN ('queued', 'running') AND job_type <> 'sheets_sync';
+
+-- One sheet sync waits per job; it can queue behind a running one so later edits are synced
+CREATE UNIQUE INDEX IF NOT EXISTS idx_job_queue_queued_sheets_sync
+  ON job_queue(categorization_job_id)
+  WHERE status = 'queued' AND job_type = 'sheets_sync';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_job_queue_active_financial_document
+  ON job_queue(financial_document_id)
+  WHERE status IN ('queued', 'running') AND financial_document_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_job_queue_due
+  ON job_queue(priority DESC, run_at)
+  WHERE status = 'queued';
+
+CREATE INDEX IF NOT EXISTS idx_job_queue_running_lease
+  ON job_queue(lease_expires_at)
+  WHERE status = 'running';
+
+CREATE INDEX IF NOT EXISTS idx_job_queue_tenant
+  ON job_queue(tenant_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_job_queue_updated_at ON job_queue;
+CREATE TRIGGER update_job_queue_updated_at
+  BEFORE UPDATE ON job_queue
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- JOB_QUEUE_TENANT_LIMITS TABLE
+-- ============================================================================
+
+-- Tenants without a row get the worker's default
+CREATE TABLE IF NOT EXISTS job_queue_tenant_limits (
+  tenant_id UUID PRIMARY KEY REFERENCES tenants(id) ON DELETE CASCADE,
+  max_concurrent INTEGER NOT NULL CHECK (max_concurrent BETWEEN 1 AND 20),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_job_queue_tenant_limits_updated_at ON job_queue_tenant_limits;
+CREATE TRIGGER update_job_queue_tenant_limits_updated_at
+  BEFORE UPDATE ON job_queue_tenant_limits
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- CLAIMING
+-- ============================================================================
+
+-- Reclaims expired leases, then claims due jobs for a worker: highest priority first, skipping
+-- rows another transaction holds and tenants already at their concurrency limit. Jobs without
+-- a tenant are limited per user. Claiming counts as an attempt.
+CREATE OR REPLACE FUNCTION claim_queue_jobs(
+  p_worker_id TEXT,
+  p_limit INTEGER DEFAULT 1,
+  p_lease_seconds INTEGER DEFAULT 120,
+  p_default_concurrency INTEGER DEFAULT 2
+)
+RETURNS SETOF job_queue AS $$
+BEGIN
+  -- One claimer at a time, so running counts can't change under the concurrency check
+  PERFORM pg_advisory_xact_lock(hashtext('claim_queue_jobs'));
+
+  -- A worker that stopped heartbeating crashed or ran out of time: retry or dead-letter its job
+  WITH expired AS (
+    UPDATE job_queue
+    SET status = CASE WHEN attempts >= max_attempts THEN 'dead' ELSE 'queued' END,
+        run_at = NOW(),
+        locked_by = NULL,
+        locked_at = NULL,
+        lease_expires_at = NULL,
+        last_error = 'Worker stopped responding before the job finished',
+        last_error_code = 'TIMEOUT',
+        error_history = error_history || jsonb_build_array(jsonb_build_object(
+          'attempt', attempts,
+          'code', 'TIMEOUT',
+          'message', 'Worker stopped responding before the job finished',
+          'at', NOW()
+        )),
+        completed_at = CASE WHEN attempts >= max_attempts THEN NOW() ELSE NULL END
+    WHERE status = 'running' AND lease_expires_at < NOW()
+    RETURNING job_type, categorization_job_id, financial_document_id, status, attempts, max_attempts
+  ),
+  failed_documents AS (
+    UPDATE financial_documents fd
+    SET ocr_status = 'failed',
+        ocr_error = 'OCR timed out after ' || expired.attempts || ' attempts'
+    FROM expired
+    WHERE fd.id = expired.financial_document_id AND expired.status = 'dead'
+    RETURNING fd.id
+  )
+  UPDATE categorization_jobs cj
+  SET status = CASE WHEN expired.status = 'dead' THEN 'failed' ELSE 'queued' END,
+      error_code = CASE WHEN expired.status = 'dead' THEN 'TIMEOUT' ELSE cj.error_code END,
+      error_message = CASE
+        WHEN expired.status = 'dead' THEN 'Processing timed out after ' || expired.attempts || ' attempts'
+        ELSE cj.error_message
+      END,
+      status_message = CASE
+        WHEN expired.status = 'dead' THEN 'Processing took too long. Please try again with a smaller file.'
+        ELSE 'Attempt ' || expired.attempts || ' of ' || expired.max_attempts || ' timed out. Retrying...'
+      END
+  FROM expired
+  -- Syncs leave the categorization job as it is
+  WHERE cj.id = expired.categorization_job_id
+    AND expired.job_type IN ('spreadsheet', 'bank_statement_pdf', 'invoice_ocr');
+
+  RETURN QUERY
+  WITH running AS (
+    SELECT COALESCE(tenant_id, user_id) AS owner_id, COUNT(*) AS running_count
+    FROM job_queue
+    WHERE status = 'running'
+    GROUP BY 1
+  ),
+  candidates AS (
+    SELECT
+      q.id,
+      q.priority,
+      q.run_at,
+      COALESCE(q.tenant_id, q.user_id) AS owner_id,
+      ROW_NUMBER() OVER (
+        PARTITION BY COALESCE(q.tenant_id, q.user_id)
+        ORDER BY q.priority DESC, q.run_at
+      ) AS owner_rank
+    FROM job_queue q
+    WHERE q.status = 'queued' AND q.run_at <= NOW()
+  ),
+  allowed AS (
+    SELECT c.id, c.priority, c.run_at
+    FROM candidates c
+    LEFT JOIN running r ON r.owner_id = c.owner_id
+    LEFT JOIN job_queue_tenant_limits l ON l.tenant_id = c.owner_id
+    WHERE COALESCE(r.running_count, 0) + c.owner_rank <= COALESCE(l.max_concurrent, p_default_concurrency)
+    ORDER BY c.priority DESC, c.run_at
+    LIMIT p_limit
+  ),
+  locked AS (
+    SELECT q.id
+    FROM job_queue q
+    WHERE q.id IN (SELECT allowed.id FROM allowed) AND q.status = 'queued'
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE job_queue q
+  SET status = 'running',
+      attempts = q.attempts + 1,
+      locked_by = p_worker_id,
+      locked_at = NOW(),
+      heartbeat_at = NOW(),
+      lease_expires_at = NOW() + make_interval(secs => p_lease_seconds)
+  WHERE q.id IN (SELECT locked.id FROM locked)
+  RETURNING q.*;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION claim_queue_jobs(TEXT, INTEGER, INTEGER, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_queue_jobs(TEXT, INTEGER, INTEGER, INTEGER) TO service_role;
+
+-- ============================================================================
+-- BACKFILL
+-- ============================================================================
+
+-- Jobs the old background routes never started
+INSERT INTO job_queue (tenant_id, user_id, job_type, categorization_job_id)
+SELECT
+  cj.tenant_id,
+  cj.user_id,
+  CASE
+    WHEN cj.job_type = 'spreadsheet' THEN 'spreadsheet'
+    WHEN cj.job_type = 'bank_statement_pdf' THEN 'bank_statement_pdf'
+    ELSE 'invoice_ocr'
+  END,
+  cj.id
+FROM categorization_jobs cj
+WHERE cj.status = 'queued'
+  AND cj.processing_mode = 'async'
+  AND cj.user_id IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM job_queue q
+    WHERE q.categorization_job_id = cj.id AND q.status IN ('queued', 'running')
+  );
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+-- Workers and the admin app use the service role. Members can see their tenant's queue, and
+-- users their own jobs; limits have no policies.
+ALTER TABLE job_queue ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_queue_tenant_limits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Tenant members can view queued jobs" ON job_queue;
+CREATE POLICY "Tenant members can view queued jobs"
+  ON job_queue FOR SELECT
+  USING (
+    user_id = auth.uid()
+    OR tenant_id IN (SELECT current_user_tenant_ids())
+  );
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE job_queue IS 'Background processing queue for categorization jobs, sheet syncs and document OCR, with leases, retries and dead-lettering';
+COMMENT ON COLUMN job_queue.status IS 'queued (waiting or retrying), running (leased to a worker), completed, dead (out of attempts or not retryable), or cancelled';
+COMMENT ON COLUMN job_queue.lease_expires_at IS 'Extended by worker heartbeats; once passed, the job is reclaimed';
+COMMENT ON COLUMN job_queue.error_history IS 'Every failed attempt as { attempt, code, message, at }';
+COMMENT ON TABLE job_queue_tenant_limits IS 'Per-tenant cap on concurrently running queue jobs';
+COMMENT ON FUNCTION claim_queue_jobs IS 'Reclaim expired leases and claim due jobs for a worker within tenant concurrency limits';
@@ -0,0 +1,39 @@
+-- Migration: Checkpointed progress for large statement imports
+-- Created: 2026-02-02
+-- Purpose: Spreadsheet and CSV statements are imported in chunks. Each job records how many
+-- rows have been parsed, categorized and inserted, and a checkpoint the job queue resumes from
+-- when an import is paused at the end of a worker run or its worker dies.
+
+-- ============================================================================
+-- PROGRESS COLUMNS
+-- ============================================================================
+
+ALTER TABLE categorization_jobs
+ADD COLUMN IF NOT EXISTS rows_total INTEGER;
+
+ALTER TABLE categorization_jobs
+ADD COLUMN IF NOT EXISTS rows_parsed INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE categorization_jobs
+ADD COLUMN IF NOT EXISTS rows_categorized INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE categorization_jobs
+ADD COLUMN IF NOT EXISTS rows_inserted INTEGER NOT NULL DEFAULT 0;
+
+-- ============================================================================
+-- CHECKPOINT
+-- ============================================================================
+
+-- { offset, duplicates, inserted, skipped, period_start, period_end }: offset counts the
+-- statement's transactions, in file order, whose chunk has been categorized and inserted
+ALTER TABLE categorization_jobs
+ADD COLUMN IF NOT EXISTS processing_checkpoint JSONB;
+
+-- Notify PostgREST to reload schema cache
+NOTIFY pgrst, 'reload schema';
+
+COMMENT ON COLUMN categorization_jobs.rows_total IS 'Transactions found in the statement, once it has been parsed';
+COMMENT ON COLUMN categorization_jobs.rows_parsed IS 'Transactions parsed so far';
+COMMENT ON COLUMN categorization_jobs.rows_categorized IS 'Transactions categorized so far';
+COMMENT ON COLUMN categorization_jobs.rows_inserted IS 'New transactions inserted so far (duplicates are not counted)';
+COMMENT ON COLUMN categorization_jobs.processing_checkpoint IS 'Where a chunked import resumes: transactions done, running counts and the statement period';
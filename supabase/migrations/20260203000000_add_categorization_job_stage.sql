@@ -0,0 +1,28 @@
+-- Migration: Processing stage for categorization jobs
+-- Created: 2026-02-03
+-- Purpose: Record which step a job is on (parsing, OCR, categorizing, deduplicating, syncing to
+-- Sheets) so the job's progress stream can report stage transitions alongside its counts.
+
+-- ============================================================================
+-- PROCESSING STAGE
+-- ============================================================================
+
+ALTER TABLE categorization_jobs
+ADD COLUMN IF NOT EXISTS processing_stage TEXT DEFAULT 'uploaded';
+
+ALTER TABLE categorization_jobs
+DROP CONSTRAINT IF EXISTS categorization_jobs_processing_stage_check;
+
+ALTER TABLE categorization_jobs
+ADD CONSTRAINT categorization_jobs_processing_stage_check
+CHECK (processing_stage IN ('uploaded', 'parsing', 'ocr', 'categorizing', 'deduplicating', 'syncing', 'done'));
+
+-- Jobs that already finished processing
+UPDATE categorization_jobs
+SET processing_stage = 'done'
+WHERE status IN ('reviewing', 'completed');
+
+-- Notify PostgREST to reload schema cache
+NOTIFY pgrst, 'reload schema';
+
+COMMENT ON COLUMN categorization_jobs.processing_stage IS 'Current processing step: uploaded, parsing, ocr, categorizing, deduplicating, syncing (to Google Sheets) or done';
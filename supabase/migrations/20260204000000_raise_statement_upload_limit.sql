@@ -0,0 +1,10 @@
+-- Migration: Larger CSV statement uploads
+-- Created: 2026-02-04
+-- Purpose: CSV statements are streamed by the import worker rather than parsed whole, so a
+-- multi-year export no longer has to fit the 10MB upload limit. The upload routes cap CSVs
+-- at 100MB and other statement files at 10MB; the bucket allows the larger of the two.
+-- Hosted projects also need the global storage upload limit at 100MB or more.
+
+UPDATE storage.buckets
+SET file_size_limit = 104857600 -- 100MB
+WHERE id = 'categorization-uploads';
@@ -5,9 +5,15 @@ export default defineConfig({
   test: {
     globals: true,
     environment: 'node',
-    include: ['packages/**/__tests__/**/*.test.ts'],
+    include: [
+      'packages/**/__tests__/**/*.test.ts',
+      'apps/portal/**/__tests__/**/*.test.ts',
+      'supabase/__tests__/**/*.test.ts',
+    ],
     alias: {
       '@/core': path.resolve(__dirname, './packages/@tinadmin/core/src'),
+      // The portal's own `@/*` path, after the more specific `@/core`
+      '@': path.resolve(__dirname, './apps/portal'),
     },
   },
 });